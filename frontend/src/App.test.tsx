@@ -1,7 +1,7 @@
-import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { render, screen, waitFor } from '@testing-library/react';
 import userEvent from '@testing-library/user-event';
-import { mockComposition, mockAudioResult } from './test/utils';
+import { mockComposition, mockParams, mockAudioResult } from './test/utils';
 
 // Mock the API module - must use inline functions due to hoisting
 vi.mock('./services/api', () => ({
@@ -10,26 +10,70 @@ vi.mock('./services/api', () => ({
   synthesizeAudio: vi.fn(),
 }));
 
+// Render before playback unless a test opts into live playback
+const playback = vi.hoisted(() => ({ LIVE: false }));
+vi.mock('./config/constants', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('./config/constants')>()),
+  PLAYBACK: playback,
+}));
+
+// Mock the mixdown and track renders, and the live engine
+const mockSynthesizeMix = vi.fn();
+const mockSynthesizeInstrument = vi.fn();
+const liveEngine = vi.hoisted(() => ({ sessions: [] as unknown[], play: () => {} }));
+vi.mock('./audio', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('./audio')>()),
+  synthesizeMix: (...args: unknown[]) => mockSynthesizeMix(...args),
+  synthesizeInstrument: (...args: unknown[]) => mockSynthesizeInstrument(...args),
+  LivePlaybackEngine: class {
+    duration = 10;
+    isPlaying = false;
+    currentTime = 0;
+    private instruments: string[];
+    constructor(session: { params: { instruments: string[] } }) {
+      liveEngine.sessions.push(session);
+      this.instruments = session.params.instruments;
+    }
+    getTracks() {
+      return new Map(this.instruments.map((instrument) => [instrument, { volume: 1, pan: 0, muted: false }]));
+    }
+    play() {
+      liveEngine.play();
+    }
+    pause() {}
+    seek() {}
+    setTrackVolume() {}
+    setTrackMuted() {}
+    setTrackPan() {}
+    setTrackAutomation() {}
+    getMeter() {
+      return { left: { peak: -Infinity, rms: -Infinity }, right: { peak: -Infinity, rms: -Infinity } };
+    }
+    dispose() {}
+  },
+}));
+
 // Mock react-hot-toast
 vi.mock('react-hot-toast', () => ({
-  default: {
+  default: Object.assign(vi.fn(), {
     loading: vi.fn(),
     success: vi.fn(),
     error: vi.fn(),
     dismiss: vi.fn(),
-  },
+  }),
   Toaster: () => null,
 }));
 
 // Import after mocking
 import App from './App';
 import * as api from './services/api';
+import { SYNTH_VERSION } from './audio';
 import toast from 'react-hot-toast';
 
 const mockComposeMusic = api.composeMusic as ReturnType<typeof vi.fn>;
 const mockGenerateAudio = api.generateAudio as ReturnType<typeof vi.fn>;
 const mockSynthesizeAudio = api.synthesizeAudio as ReturnType<typeof vi.fn>;
-const mockToast = toast as unknown as {
+const mockToast = toast as unknown as ReturnType<typeof vi.fn> & {
   loading: ReturnType<typeof vi.fn>;
   success: ReturnType<typeof vi.fn>;
   error: ReturnType<typeof vi.fn>;
@@ -42,6 +86,7 @@ describe('App', () => {
     mockComposeMusic.mockResolvedValue(mockComposition);
     mockGenerateAudio.mockResolvedValue(mockAudioResult);
     mockSynthesizeAudio.mockResolvedValue(mockAudioResult);
+    mockSynthesizeMix.mockResolvedValue(new Blob(['wav'], { type: 'audio/wav' }));
   });
 
   describe('Rendering', () => {
@@ -212,6 +257,70 @@ describe('App', () => {
     });
   });
 
+  describe('Mix Download', () => {
+    async function generateEnsemble() {
+      render(<App />);
+
+      await userEvent.click(screen.getByRole('button', { name: /guzheng/i }));
+      await userEvent.click(screen.getByRole('button', { name: /generate music/i }));
+
+      return screen.findByRole('button', { name: 'Download mix' });
+    }
+
+    it('renders the mixdown for the generated ensemble', async () => {
+      const downloadButton = await generateEnsemble();
+      await waitFor(() => expect(downloadButton).not.toBeDisabled());
+
+      await userEvent.click(downloadButton);
+
+      await waitFor(() => {
+        expect(mockSynthesizeMix).toHaveBeenCalledWith(
+          mockComposition,
+          expect.objectContaining({ instruments: ['erhu', 'guzheng'] }),
+          expect.objectContaining({
+            tracks: expect.objectContaining({
+              erhu: expect.objectContaining({ volume: 1, muted: false }),
+            }),
+          })
+        );
+        expect(mockToast.success).toHaveBeenCalledWith('Downloaded: composition-mix.wav');
+      });
+    });
+
+    it('shows an error toast when the mixdown fails', async () => {
+      mockSynthesizeMix.mockRejectedValueOnce(new Error('render failed'));
+      const downloadButton = await generateEnsemble();
+      await waitFor(() => expect(downloadButton).not.toBeDisabled());
+
+      await userEvent.click(downloadButton);
+
+      await waitFor(() => {
+        expect(mockToast.error).toHaveBeenCalledWith('Failed to render the mix. Please try again.');
+      });
+    });
+  });
+
+  describe('Presets', () => {
+    it('renders the preset composition without composing a new one', async () => {
+      const { PRESETS } = await import('./data/presets');
+      const preset = PRESETS[0];
+      render(<App />);
+
+      await userEvent.click(screen.getByRole('option', { name: new RegExp(preset.name) }));
+
+      await waitFor(() => {
+        expect(mockSynthesizeAudio).toHaveBeenCalledTimes(preset.params.instruments.length);
+      });
+      expect(mockComposeMusic).not.toHaveBeenCalled();
+      expect(mockSynthesizeAudio).toHaveBeenCalledWith(
+        preset.composition,
+        preset.params.instruments[0],
+        preset.params,
+        expect.anything()
+      );
+    });
+  });
+
   describe('MIDI Import', () => {
     it('shows error toast when MIDI file is too large (>2MB)', async () => {
       render(<App />);
@@ -221,7 +330,7 @@ describe('App', () => {
       Object.defineProperty(largeFile, 'size', { value: 3 * 1024 * 1024 }); // 3MB
 
       // Find the hidden file input
-      const fileInput = document.querySelector('input[type="file"][accept=".mid,.midi"]') as HTMLInputElement;
+      const fileInput = document.querySelector('input[type="file"][accept^=".mid,.midi"]') as HTMLInputElement;
       expect(fileInput).toBeInTheDocument();
 
       // Trigger file selection
@@ -242,7 +351,7 @@ describe('App', () => {
       Object.defineProperty(smallFile, 'size', { value: 1024 }); // 1KB
 
       // Find the hidden file input
-      const fileInput = document.querySelector('input[type="file"][accept=".mid,.midi"]') as HTMLInputElement;
+      const fileInput = document.querySelector('input[type="file"][accept^=".mid,.midi"]') as HTMLInputElement;
       expect(fileInput).toBeInTheDocument();
 
       // Clear previous toast calls
@@ -262,6 +371,163 @@ describe('App', () => {
     });
   });
 
+  describe('Project Import', () => {
+    const uploadProject = async (contents: string) => {
+      render(<App />);
+      const fileInput = document.querySelector('input[type="file"][accept*=".silkroad"]') as HTMLInputElement;
+      await userEvent.upload(fileInput, new File([contents], 'song.silkroad', { type: 'application/json' }));
+    };
+
+    it('shows the parse error for an invalid project file', async () => {
+      await uploadProject('{"format":"other"}');
+
+      await waitFor(() => {
+        expect(mockToast.error).toHaveBeenCalledWith('Not a Silk Road project file', { duration: 5000 });
+      });
+    });
+
+    it('re-renders a project without embedded audio from its seeds', async () => {
+      const { createProject, serializeProject } = await import('./utils/projectFile');
+      const params = { ...mockParams, instruments: ['erhu' as const] };
+      await uploadProject(serializeProject(createProject(params, mockComposition, { seeds: { erhu: 42 } })));
+
+      await waitFor(() => {
+        expect(mockSynthesizeAudio).toHaveBeenCalledWith(
+          mockComposition,
+          'erhu',
+          expect.objectContaining({ mode: params.mode, seed: 42 }),
+          expect.anything()
+        );
+      });
+      expect(mockComposeMusic).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Share Links', () => {
+    afterEach(() => {
+      window.history.replaceState(null, '', '/');
+    });
+
+    it('renders a composition opened from the URL hash and clears the hash', async () => {
+      const { encodeSharedComposition } = await import('./utils/shareLink');
+      const params = { ...mockParams, instruments: ['erhu' as const] };
+      window.location.hash = `share=${await encodeSharedComposition({
+        params,
+        composition: mockComposition,
+        seeds: { erhu: 42 },
+        synthVersion: SYNTH_VERSION,
+      })}`;
+
+      render(<App />);
+
+      await waitFor(() => {
+        expect(mockSynthesizeAudio).toHaveBeenCalledWith(
+          mockComposition,
+          'erhu',
+          expect.objectContaining({ mode: params.mode, seed: 42 }),
+          expect.anything()
+        );
+      });
+      expect(mockComposeMusic).not.toHaveBeenCalled();
+      expect(mockToast).not.toHaveBeenCalled();
+      expect(window.location.hash).toBe('');
+    });
+
+    it('warns when a link was shared from an older synth engine', async () => {
+      const { encodeSharedComposition } = await import('./utils/shareLink');
+      const params = { ...mockParams, instruments: ['erhu' as const] };
+      window.location.hash = `share=${await encodeSharedComposition({
+        params,
+        composition: mockComposition,
+        synthVersion: SYNTH_VERSION - 1,
+      })}`;
+
+      render(<App />);
+
+      await waitFor(() => expect(mockSynthesizeAudio).toHaveBeenCalled());
+      expect(mockToast).toHaveBeenCalledWith(
+        'Shared from an older synth engine, so it may sound different.',
+        { duration: 4000 }
+      );
+    });
+
+    it('shows a typed error for a broken link', async () => {
+      window.location.hash = 'share=1.garbage';
+
+      render(<App />);
+
+      await waitFor(() => {
+        expect(mockToast.error).toHaveBeenCalledWith(
+          'This link is broken. Check that it was copied in full.',
+          { duration: 6000 }
+        );
+      });
+      expect(mockSynthesizeAudio).not.toHaveBeenCalled();
+    });
+
+    it('copies a link to the current composition', async () => {
+      const writeText = vi.fn().mockResolvedValue(undefined);
+      Object.defineProperty(navigator, 'clipboard', { value: { writeText }, configurable: true });
+      render(<App />);
+
+      await userEvent.click(screen.getByRole('button', { name: /generate music/i }));
+      await waitFor(() => expect(mockSynthesizeAudio).toHaveBeenCalled());
+      await userEvent.click(await screen.findByRole('button', { name: /copy link/i }));
+
+      await waitFor(() => expect(writeText).toHaveBeenCalledWith(expect.stringContaining('#share=1.')));
+      expect(mockToast.success).toHaveBeenCalledWith('Link copied to clipboard');
+    });
+  });
+
+  describe('Live Playback', () => {
+    beforeEach(() => {
+      playback.LIVE = true;
+      liveEngine.sessions = [];
+    });
+
+    afterEach(() => {
+      playback.LIVE = false;
+    });
+
+    it('plays a generated composition live without rendering it', async () => {
+      const play = vi.fn();
+      liveEngine.play = play;
+      render(<App />);
+
+      await userEvent.click(screen.getByRole('button', { name: /generate music/i }));
+
+      const playButton = await screen.findByRole('button', { name: 'Play' });
+      expect(mockSynthesizeAudio).not.toHaveBeenCalled();
+      expect(liveEngine.sessions).toEqual([
+        expect.objectContaining({ composition: mockComposition, seeds: { erhu: expect.any(Number) } }),
+      ]);
+
+      await waitFor(() => expect(playButton).not.toBeDisabled());
+      await userEvent.click(playButton);
+      expect(play).toHaveBeenCalled();
+    });
+
+    it('renders stems on demand for a project export with audio', async () => {
+      mockSynthesizeInstrument.mockResolvedValue(mockAudioResult);
+      render(<App />);
+
+      await userEvent.click(screen.getByRole('button', { name: /generate music/i }));
+      await screen.findByRole('button', { name: 'Play' });
+
+      await userEvent.click(screen.getByRole('checkbox', { name: /include audio/i }));
+      await userEvent.click(screen.getByRole('button', { name: /export project/i }));
+
+      await waitFor(() => {
+        expect(mockSynthesizeInstrument).toHaveBeenCalledWith(
+          mockComposition,
+          'erhu',
+          expect.objectContaining({ mode: mockParams.mode })
+        );
+        expect(mockToast.success).toHaveBeenCalledWith(expect.stringMatching(/^Downloaded: .*\.silkroad$/));
+      });
+    });
+  });
+
   describe('Edge Cases', () => {
     it('skips audio generation if instruments array is empty', async () => {
       render(<App />);
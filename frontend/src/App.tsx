@@ -1,4 +1,4 @@
-import { useState, useEffect, useCallback, useRef } from 'react';
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import { ControlPanel } from './components/ControlPanel';
 import { AudioPlayer, type AudioPlayerRef } from './components/AudioPlayer';
 import { MixerPlayer, type MixerPlayerRef } from './components/MixerPlayer';
@@ -13,22 +13,42 @@ import { useGeneration } from './hooks/useGeneration';
 // import { AuthButton } from './components/AuthButton';
 // import { useAuth } from './hooks/useAuth';
 import { useCompositionHistory, type SavedComposition } from './hooks/useCompositionHistory';
+import { isOutdatedEntry } from './services/historyStore';
+import type { HistoryEntryChanges } from './services/historyStore';
 import { useKeyboardShortcuts } from './hooks/useKeyboardShortcuts';
 import type { PlaybackControls } from './hooks/useKeyboardShortcuts';
-import { base64ToBlobUrl } from './utils/audio';
+import { base64ToBlobUrl, downloadBlob } from './utils/audio';
 import { warmAudioContext, closeAudioContext } from './utils/audioContext';
-import { parseMidiFile, midiToComposition, MidiImportError } from './utils/midiImport';
+import { parseMidiFile, midiToComposition, MidiImportError, DEFAULT_MIDI_IMPORT_MODE } from './utils/midiImport';
+import type { MidiImportMode } from './utils/midiImport';
 import { downloadMidi } from './utils/midiExport';
+import { createShareUrl, decodeSharedComposition, getShareParam } from './utils/shareLink';
+import type { SharedComposition } from './utils/shareLink';
+import { createProject, downloadProject, readProjectFile, projectFileName, ProjectFileError } from './utils/projectFile';
 import { SECTION_DURATION } from './audio/types';
+import type { LoopRegion, MixAutomation, MixEffects, MixSettings } from './audio/types';
+import { automationToMix, getMixAutomation } from './audio/utils/automation';
+import { getMixEffects } from './audio/effects';
+import { synthesizeInstrument, synthesizeMix, SYNTH_VERSION } from './audio';
+import type { LiveSession } from './audio';
 import { getErrorMessage, isRetryableError, AudioError } from './types/errors';
 import { DEFAULTS } from './config/constants';
 import toast, { Toaster } from 'react-hot-toast';
-import type { CompositionParams, InstrumentAudioResult, Composition } from './types/music';
+import type { CompositionParams, InstrumentAudioResult, Composition, Instrument } from './types/music';
+
+/**
+ * Instruments to re-render for a history entry: the ones it rendered,
+ * or its requested instruments if it records none.
+ */
+const rerenderInstruments = (saved: SavedComposition): Instrument[] =>
+    saved.instruments.length > 0 ? saved.instruments : saved.params.instruments;
 
 interface PlaybackState {
     isPlaying: boolean;
     currentTime: number;
     duration: number;
+    /** A–B loop region; only the mixer player supports looping */
+    loop?: LoopRegion | null;
 }
 
 function App() {
@@ -42,10 +62,28 @@ function App() {
     const [tempo, setTempo] = useState(72);
     const [loadedComposition, setLoadedComposition] = useState<Composition | null>(null);
     const [importedParams, setImportedParams] = useState<Partial<CompositionParams> | undefined>(undefined);
+    // Params behind the current audio, needed to re-render the mixdown
+    const [renderParams, setRenderParams] = useState<CompositionParams | null>(null);
+    // History entry whose audio is being loaded
+    const [loadingHistoryId, setLoadingHistoryId] = useState<string | null>(null);
+    // Mixer state from an imported project, applied when its tracks load
+    const [projectMix, setProjectMix] = useState<MixSettings['tracks'] | undefined>(undefined);
+    // Mixer automation of the current composition, drawn over the form
+    const [automation, setAutomation] = useState<MixAutomation>({});
+    // History entry of the current composition; automation edits are saved to it
+    const [historyId, setHistoryId] = useState<string | null>(null);
+    // Composition played live instead of from rendered audio
+    const [liveSession, setLiveSession] = useState<LiveSession | null>(null);
 
     const generation = useGeneration();
     const compositionHistory = useCompositionHistory();
 
+    // Seed of each track that is playing, live or rendered; exports reproduce these
+    const trackSeeds = useMemo<Partial<Record<Instrument, number>>>(
+        () => liveSession?.seeds ?? Object.fromEntries(audioResults.map((r) => [r.instrument, r.seed])),
+        [liveSession, audioResults]
+    );
+
     // Refs for player controls (keyboard shortcuts)
     const audioPlayerRef = useRef<AudioPlayerRef>(null);
     const mixerPlayerRef = useRef<MixerPlayerRef>(null);
@@ -61,7 +99,7 @@ function App() {
     useEffect(() => {
         // Update controls after player component mounts and ref is populated
         const updateControls = () => {
-            if (audioResults.length > 1) {
+            if (liveSession || audioResults.length > 1) {
                 setActiveControls(mixerPlayerRef.current?.controls ?? null);
             } else {
                 setActiveControls(audioPlayerRef.current?.controls ?? null);
@@ -71,11 +109,43 @@ function App() {
         // Small delay to ensure ref is populated after render
         const timer = setTimeout(updateControls, 0);
         return () => clearTimeout(timer);
-    }, [audioResults.length, audioUrl]);
+    }, [audioResults.length, audioUrl, liveSession]);
 
     // Enable keyboard shortcuts for playback control
     useKeyboardShortcuts({ controls: activeControls });
 
+    // Loop a form section from the visualization (mixer player only)
+    const handleLoopChange = useCallback((loop: LoopRegion | null) => {
+        mixerPlayerRef.current?.controls.setLoop?.(loop);
+    }, []);
+    const canLoop = liveSession !== null || audioResults.length > 1;
+
+    // Automation is drawn over the form and played by the mixer player; edits are saved to history as they are made
+    const automationTracks = useMemo(() => Object.keys(trackSeeds) as Instrument[], [trackSeeds]);
+    const { updateComposition } = compositionHistory;
+    const handleAutomationChange = useCallback((next: MixAutomation) => {
+        setAutomation(next);
+        if (historyId) {
+            updateComposition(historyId, { automation: Object.keys(next).length > 0 ? next : undefined });
+        }
+    }, [historyId, updateComposition]);
+
+    // Effects live in the mixer; edits are saved to history as they are made
+    const handleEffectsChange = useCallback((effects: MixEffects) => {
+        if (historyId) {
+            updateComposition(historyId, { effects: Object.keys(effects).length > 0 ? effects : undefined });
+        }
+    }, [historyId, updateComposition]);
+
+    /**
+     * Start from a clean mix: no project mixer state, automation or history entry yet.
+     */
+    const resetMix = () => {
+        setProjectMix(undefined);
+        setAutomation({});
+        setHistoryId(null);
+    };
+
     // Focus management: focus progress when generation starts, return to button when done
     useEffect(() => {
         if (generation.isGenerating) {
@@ -125,28 +195,75 @@ function App() {
         };
     }, []);
 
-    const handleGenerate = async (params: CompositionParams) => {
+    const handleGenerate = (params: CompositionParams) => {
+        setLoadedComposition(null);
+        resetMix();
+        return runGeneration(params, () => generation.generate(params), () => handleGenerate(params));
+    };
+
+    /**
+     * Synthesize a composition as-is (preset, MIDI import or history entry)
+     * without composing a new one. `seeds` reproduce a history entry's tracks;
+     * `metadata` is applied to the history entry.
+     */
+    const handleRender = (
+        composition: Composition,
+        params: CompositionParams,
+        saveToHistory = true,
+        seeds?: Partial<Record<Instrument, number>>,
+        metadata?: HistoryEntryChanges
+    ) => {
+        setLoadedComposition(composition);
+        return runGeneration(
+            params,
+            () => generation.render(composition, params, seeds),
+            () => handleRender(composition, params, saveToHistory, seeds, metadata),
+            saveToHistory,
+            metadata
+        );
+    };
+
+    /**
+     * Run a generation or render, save it to history and load its audio for playback,
+     * or start a live session when nothing was rendered.
+     * `retry` repeats the same request from the error toasts.
+     */
+    const runGeneration = async (
+        params: CompositionParams,
+        run: () => ReturnType<typeof generation.generate>,
+        retry: () => void,
+        saveToHistory = true,
+        metadata?: HistoryEntryChanges
+    ) => {
         // Cleanup previous state
         cleanupBlobUrl();
         setAudioResults([]);
+        setLiveSession(null);
         setPlaybackState({ isPlaying: false, currentTime: 0, duration: 0 });
         setTempo(params.tempo ?? DEFAULTS.TEMPO);
-        setLoadedComposition(null);
 
         try {
-            const result = await generation.generate(params);
+            const result = await run();
 
             if (!result) {
                 // Generation was aborted
                 return;
             }
 
-            const { composition, audioResults: newAudioResults } = result;
+            const { composition, audioResults: newAudioResults, seeds } = result;
+            const instruments = Object.keys(seeds) as Instrument[];
             setAudioResults(newAudioResults);
+            setRenderParams(params);
+
+            // Nothing rendered: play the composition live
+            if (composition && newAudioResults.length === 0) {
+                setLiveSession({ composition, params, seeds });
+            }
 
             // Save to history
-            if (composition && newAudioResults.length > 0) {
-                compositionHistory.saveComposition(params, composition, newAudioResults);
+            if (saveToHistory && composition && instruments.length > 0) {
+                const saved = compositionHistory.saveComposition(params, composition, newAudioResults, { metadata, seeds });
+                setHistoryId(saved.id);
             }
 
             // Handle success notification
@@ -166,8 +283,7 @@ function App() {
                 );
             } else {
                 // Full success
-                const instrumentList = newAudioResults.map((a) => a.instrument).join(', ');
-                toast.success(`Generated ${newAudioResults.length} track(s): ${instrumentList}`, {
+                toast.success(`Generated ${instruments.length} track(s): ${instruments.join(', ')}`, {
                     duration: 4000,
                 });
             }
@@ -191,7 +307,7 @@ function App() {
                                 <button
                                     onClick={() => {
                                         toast.dismiss();
-                                        handleGenerate(params);
+                                        retry();
                                     }}
                                     className="text-xs bg-white/20 hover:bg-white/30 px-2 py-1 rounded"
                                 >
@@ -218,7 +334,7 @@ function App() {
                         <button
                             onClick={() => {
                                 toast.dismiss();
-                                handleGenerate(params);
+                                retry();
                             }}
                             className="text-xs bg-white/20 hover:bg-white/30 px-2 py-1 rounded"
                         >
@@ -253,50 +369,119 @@ function App() {
         }
     };
 
-    const handleLoadComposition = (saved: SavedComposition) => {
+    const handleLoadComposition = async (saved: SavedComposition) => {
         // Cleanup previous blob URL
         cleanupBlobUrl();
 
         // Restore the saved composition state
-        setAudioResults(saved.audioResults);
+        setAudioResults([]);
+        setLiveSession(null);
+        setRenderParams(saved.params);
         setTempo(saved.params.tempo ?? DEFAULTS.TEMPO);
         setPlaybackState({ isPlaying: false, currentTime: 0, duration: 0 });
         setLoadedComposition(saved.composition);
+        setProjectMix(automationToMix(saved.automation ?? {}, saved.effects));
+        setAutomation(saved.automation ?? {});
+        setHistoryId(saved.id);
 
         // Update generation state with the saved composition
         generation.reset();
 
-        // Create blob URL for first audio
-        if (saved.audioResults.length > 0) {
-            try {
-                const firstAudio = saved.audioResults[0];
-                const url = base64ToBlobUrl(firstAudio.audioContent, 'audio/wav', firstAudio.instrument);
-                setAudioUrl(url);
+        // Audio is stored separately and only read when an entry is opened
+        let savedAudio: InstrumentAudioResult[] = [];
+        setLoadingHistoryId(saved.id);
+        try {
+            savedAudio = await compositionHistory.loadAudio(saved.id);
+        } catch (error) {
+            console.error('[App] Failed to load saved audio:', error);
+        } finally {
+            setLoadingHistoryId(null);
+        }
 
-                toast.success(`Loaded: ${saved.params.mode} mode composition`, { duration: 2000 });
-            } catch (error) {
-                console.error('[App] Load error:', error);
-                const message = error instanceof AudioError
-                    ? getErrorMessage(error)
-                    : 'Failed to load composition';
-                toast.error(message);
+        // Entries without audio are re-rendered from their composition and seeds
+        if (savedAudio.length === 0) {
+            if (isOutdatedEntry(saved)) {
+                toast('Saved with an older synth engine, so it may sound different.', { duration: 4000 });
             }
+            handleRender(saved.composition, { ...saved.params, instruments: rerenderInstruments(saved) }, false, saved.seeds);
+            return;
+        }
+
+        setAudioResults(savedAudio);
+
+        // Create blob URL for first audio
+        try {
+            const firstAudio = savedAudio[0];
+            const url = base64ToBlobUrl(firstAudio.audioContent, 'audio/wav', firstAudio.instrument);
+            setAudioUrl(url);
+
+            toast.success(`Loaded: ${saved.params.mode} mode composition`, { duration: 2000 });
+        } catch (error) {
+            console.error('[App] Load error:', error);
+            const message = error instanceof AudioError
+                ? getErrorMessage(error)
+                : 'Failed to load composition';
+            toast.error(`${message}. Re-rendering from the composition.`);
+            handleRender(saved.composition, { ...saved.params, instruments: rerenderInstruments(saved) }, false, saved.seeds);
         }
     };
 
     const handleLoadPreset = (preset: CompositionPreset) => {
-        // Show the preset composition in visualizer immediately
-        setLoadedComposition(preset.composition);
-        setTempo(preset.params.tempo);
+        // Render the preset exactly as the gallery describes it
+        resetMix();
+        handleRender(preset.composition, preset.params);
+    };
 
-        // Auto-generate audio from the preset
-        handleGenerate(preset.params);
+    /**
+     * Render a composition opened from a share link, with the seeds it was shared with.
+     */
+    const handleOpenShared = (shared: SharedComposition) => {
+        setImportedParams(shared.params);
+        resetMix();
+        if (isOutdatedEntry(shared)) {
+            toast('Shared from an older synth engine, so it may sound different.', { duration: 4000 });
+        }
+        handleRender(shared.composition, shared.params, true, shared.seeds);
     };
 
+    // Latest handler for the share link listener, which is only attached once
+    const openSharedRef = useRef(handleOpenShared);
+    openSharedRef.current = handleOpenShared;
+
+    // Open compositions shared through the URL hash, on load and when a link is pasted into this tab
+    useEffect(() => {
+        let cancelled = false;
+
+        const openFromHash = async () => {
+            const encoded = getShareParam(window.location.hash);
+            if (!encoded) return;
+
+            try {
+                const shared = await decodeSharedComposition(encoded);
+                if (cancelled) return;
+                openSharedRef.current(shared);
+            } catch (error) {
+                if (cancelled) return;
+                console.error('[App] Share link error:', error);
+                toast.error(getErrorMessage(error), { duration: 6000 });
+            }
+
+            // Drop the hash so a reload doesn't reopen the link over later work
+            window.history.replaceState(null, '', `${window.location.pathname}${window.location.search}`);
+        };
+
+        openFromHash();
+        window.addEventListener('hashchange', openFromHash);
+        return () => {
+            cancelled = true;
+            window.removeEventListener('hashchange', openFromHash);
+        };
+    }, []);
+
     // Maximum MIDI file size (2MB)
     const MAX_MIDI_SIZE = 2 * 1024 * 1024;
 
-    const handleMidiImport = async (file: File) => {
+    const handleMidiImport = async (file: File, mode: MidiImportMode = DEFAULT_MIDI_IMPORT_MODE) => {
         // Validate file size before parsing
         if (file.size > MAX_MIDI_SIZE) {
             toast.error(
@@ -308,21 +493,11 @@ function App() {
         try {
             const buffer = await file.arrayBuffer();
             const parsed = parseMidiFile(buffer);
-            const { composition, params } = midiToComposition(parsed);
-
-            // Set composition for visualization
-            setLoadedComposition(composition);
-            setTempo(params.tempo);
+            const { composition, params } = midiToComposition(parsed, mode);
 
             // Set params to prefill the control panel
             setImportedParams(params);
 
-            // Clear previous audio
-            cleanupBlobUrl();
-            setAudioResults([]);
-            setPlaybackState({ isPlaying: false, currentTime: 0, duration: 0 });
-            generation.reset();
-
             toast.success(
                 <div className="text-sm">
                     <div className="font-medium">Imported: {file.name}</div>
@@ -332,6 +507,10 @@ function App() {
                 </div>,
                 { duration: 4000 }
             );
+
+            // Play the imported composition (Generate recomposes from the prefilled params)
+            resetMix();
+            handleRender(composition, params);
         } catch (error) {
             console.error('[App] MIDI import error:', error);
 
@@ -355,12 +534,177 @@ function App() {
         }
     };
 
+    // Maximum project file size (embedded audio makes these much larger than MIDI)
+    const MAX_PROJECT_SIZE = 100 * 1024 * 1024;
+
+    const handleProjectImport = async (file: File) => {
+        if (file.size > MAX_PROJECT_SIZE) {
+            toast.error(
+                `Project file too large (${(file.size / 1024 / 1024).toFixed(1)}MB). Maximum size is 100MB.`
+            );
+            return;
+        }
+
+        try {
+            const project = await readProjectFile(file);
+            const { params, composition } = project;
+            const projectAutomation = getMixAutomation(project.mix);
+            const metadata: HistoryEntryChanges = {};
+            if (project.title) metadata.title = project.title;
+            if (Object.keys(projectAutomation).length > 0) metadata.automation = projectAutomation;
+            const projectEffects = getMixEffects(project.mix);
+            if (Object.keys(projectEffects).length > 0) metadata.effects = projectEffects;
+
+            setImportedParams(params);
+            setProjectMix(project.mix);
+            setAutomation(projectAutomation);
+            setHistoryId(null);
+
+            toast.success(`Imported: ${project.title ?? file.name}`, { duration: 3000 });
+
+            // Without embedded audio, re-render from the composition and seeds
+            if (!project.audio) {
+                if (isOutdatedEntry(project)) {
+                    toast('Saved with an older synth engine, so it may sound different.', { duration: 4000 });
+                }
+                handleRender(composition, params, true, project.seeds, metadata);
+                return;
+            }
+
+            cleanupBlobUrl();
+            generation.reset();
+            setLiveSession(null);
+            setLoadedComposition(composition);
+            setRenderParams(params);
+            setTempo(params.tempo ?? DEFAULTS.TEMPO);
+            setPlaybackState({ isPlaying: false, currentTime: 0, duration: 0 });
+
+            try {
+                const firstAudio = project.audio[0];
+                setAudioUrl(base64ToBlobUrl(firstAudio.audioContent, 'audio/wav', firstAudio.instrument));
+            } catch (error) {
+                console.error('[App] Project audio error:', error);
+                toast.error('Embedded audio could not be decoded. Re-rendering from the composition.');
+                setAudioResults([]);
+                handleRender(composition, params, true, project.seeds, metadata);
+                return;
+            }
+
+            setAudioResults(project.audio);
+            setHistoryId(compositionHistory.saveComposition(params, composition, project.audio, { metadata }).id);
+        } catch (error) {
+            console.error('[App] Project import error:', error);
+            const message = error instanceof ProjectFileError ? error.message : 'Failed to import project file';
+            toast.error(message, { duration: 5000 });
+        }
+    };
+
+    const handleExportProject = useCallback(async (includeAudio: boolean) => {
+        const composition = generation.composition || loadedComposition;
+        if (!composition || !renderParams) return;
+
+        try {
+            // Live sessions have no rendered audio, so render the stems for the file
+            const stems = includeAudio && liveSession
+                ? await Promise.all(
+                    (Object.keys(trackSeeds) as Instrument[]).map(async (instrument) => ({
+                        ...(await synthesizeInstrument(composition, instrument, { ...renderParams, seed: trackSeeds[instrument] })),
+                        instrument,
+                    }))
+                )
+                : audioResults;
+
+            const project = createProject(renderParams, composition, {
+                audioResults: stems,
+                seeds: trackSeeds,
+                mix: mixerPlayerRef.current?.getMix(),
+                includeAudio,
+            });
+            const filename = projectFileName(project.title);
+            downloadProject(project, filename);
+            toast.success(`Downloaded: ${filename}`);
+        } catch (error) {
+            console.error('[App] Project export error:', error);
+            toast.error('Failed to render the project audio. Please try again.');
+        }
+    }, [generation.composition, loadedComposition, renderParams, audioResults, liveSession, trackSeeds]);
+
+    const handleExportHistoryEntry = useCallback(async (saved: SavedComposition) => {
+        // Stored audio is embedded; entries without it export their seeds only
+        let savedAudio: InstrumentAudioResult[] = [];
+        try {
+            savedAudio = await compositionHistory.loadAudio(saved.id);
+        } catch (error) {
+            console.error('[App] Failed to load saved audio:', error);
+        }
+
+        try {
+            const project = createProject(saved.params, saved.composition, {
+                title: saved.title,
+                audioResults: savedAudio,
+                seeds: saved.seeds,
+                synthVersion: saved.synthVersion,
+                mix: automationToMix(saved.automation ?? {}, saved.effects),
+                includeAudio: savedAudio.length > 0,
+            });
+            const filename = projectFileName(project.title);
+            downloadProject(project, filename);
+            toast.success(`Downloaded: ${filename}`);
+        } catch (error) {
+            console.error('[App] History export error:', error);
+            toast.error('Failed to export the project. Please try again.');
+        }
+    }, [compositionHistory]);
+
+    const handleCopyLink = useCallback(async () => {
+        const composition = generation.composition || loadedComposition;
+        if (!composition || !renderParams) return;
+
+        try {
+            const url = await createShareUrl({
+                params: renderParams,
+                composition,
+                seeds: trackSeeds,
+                synthVersion: SYNTH_VERSION,
+            });
+            await navigator.clipboard.writeText(url);
+            toast.success('Link copied to clipboard');
+        } catch (error) {
+            console.error('[App] Copy link error:', error);
+            toast.error('Failed to copy the link.');
+        }
+    }, [generation.composition, loadedComposition, renderParams, trackSeeds]);
+
     const handleExportMidi = useCallback(() => {
         const composition = generation.composition || loadedComposition;
         if (!composition) return;
-        downloadMidi(composition, tempo, 'composition.mid');
+
+        // Match the played tracks, including the seed each was humanized with
+        const instruments = Object.keys(trackSeeds) as Instrument[];
+        const options = instruments.length > 0
+            ? { instruments, seeds: trackSeeds, mood: renderParams?.mood }
+            : {};
+        downloadMidi(composition, tempo, 'composition.mid', options);
         toast.success('Downloaded: composition.mid');
-    }, [generation.composition, loadedComposition, tempo]);
+    }, [generation.composition, loadedComposition, tempo, trackSeeds, renderParams]);
+
+    const handleDownloadMix = useCallback(async (mix: MixSettings) => {
+        const composition = generation.composition || loadedComposition;
+        if (!composition || !renderParams) return;
+
+        try {
+            const blob = await synthesizeMix(
+                composition,
+                { ...renderParams, instruments: Object.keys(trackSeeds) as Instrument[] },
+                mix
+            );
+            downloadBlob(blob, 'composition-mix.wav');
+            toast.success('Downloaded: composition-mix.wav');
+        } catch (error) {
+            console.error('[App] Mixdown error:', error);
+            toast.error('Failed to render the mix. Please try again.');
+        }
+    }, [generation.composition, loadedComposition, renderParams, trackSeeds]);
 
     // Show progress during generation OR when there are failed instruments to display
     const showProgress = generation.isGenerating ||
@@ -391,6 +735,7 @@ function App() {
                             generateButtonRef={generateButtonRef}
                             initialParams={importedParams}
                             onMidiImport={handleMidiImport}
+                            onProjectImport={handleProjectImport}
                         />
 
                         {/* Progress Display (shows during generation and when there are failures) */}
@@ -437,7 +782,11 @@ function App() {
                             history={compositionHistory.history}
                             onSelect={handleLoadComposition}
                             onDelete={compositionHistory.deleteComposition}
+                            onUpdate={compositionHistory.updateComposition}
+                            onExport={handleExportHistoryEntry}
                             onClear={compositionHistory.clearHistory}
+                            usage={compositionHistory.usage}
+                            loadingId={loadingHistoryId}
                         />
                     </div>
 
@@ -449,16 +798,42 @@ function App() {
                             isPlaying={playbackState.isPlaying}
                             currentTime={playbackState.currentTime}
                             onExportMidi={handleExportMidi}
+                            onExportProject={handleExportProject}
+                            onCopyLink={handleCopyLink}
                             sectionDuration={SECTION_DURATION}
+                            loop={playbackState.loop}
+                            onLoopChange={canLoop ? handleLoopChange : undefined}
+                            automation={automation}
+                            automationTracks={automationTracks}
+                            onAutomationChange={canLoop ? handleAutomationChange : undefined}
                         />
                     </div>
                 </div>
             </main>
             </ErrorBoundary>
 
-            {/* Footer Player - Use MixerPlayer for multi-track, AudioPlayer for single */}
-            {audioResults.length > 1 ? (
-                <MixerPlayer ref={mixerPlayerRef} audioResults={audioResults} onPlaybackChange={setPlaybackState} />
+            {/* Footer Player - MixerPlayer for live sessions and multi-track, AudioPlayer for single */}
+            {liveSession ? (
+                <MixerPlayer
+                    ref={mixerPlayerRef}
+                    session={liveSession}
+                    onPlaybackChange={setPlaybackState}
+                    onDownloadMix={handleDownloadMix}
+                    initialMix={projectMix}
+                    automation={automation}
+                    onEffectsChange={handleEffectsChange}
+                />
+            ) : audioResults.length > 1 ? (
+                <MixerPlayer
+                    ref={mixerPlayerRef}
+                    audioResults={audioResults}
+                    onPlaybackChange={setPlaybackState}
+                    onDownloadMix={handleDownloadMix}
+                    initialMix={projectMix}
+                    tempo={renderParams?.tempo}
+                    automation={automation}
+                    onEffectsChange={handleEffectsChange}
+                />
             ) : (
                 <AudioPlayer ref={audioPlayerRef} audioUrl={audioUrl} audioResults={audioResults} onPlaybackChange={setPlaybackState} />
             )}
@@ -0,0 +1,44 @@
+/**
+ * Sample buffer for the DSP renderer, with the parts of the `AudioBuffer`
+ * interface the voices, effects and WAV encoder use.
+ */
+
+/** Frames processed per render quantum, as in Web Audio */
+export const QUANTUM = 128;
+
+export class DspAudioBuffer {
+    readonly numberOfChannels: number;
+    readonly length: number;
+    readonly sampleRate: number;
+    private channels: Float32Array[];
+
+    constructor({ numberOfChannels = 1, length, sampleRate }: AudioBufferOptions) {
+        this.numberOfChannels = numberOfChannels;
+        this.length = length;
+        this.sampleRate = sampleRate;
+        this.channels = Array.from({ length: numberOfChannels }, () => new Float32Array(length));
+    }
+
+    /** Length in seconds */
+    get duration(): number {
+        return this.length / this.sampleRate;
+    }
+
+    getChannelData(channel: number): Float32Array {
+        const data = this.channels[channel];
+        if (!data) {
+            throw new RangeError(`Channel ${channel} does not exist`);
+        }
+        return data;
+    }
+
+    copyFromChannel(destination: Float32Array, channel: number, offset = 0): void {
+        const data = this.getChannelData(channel);
+        destination.set(data.subarray(offset, offset + destination.length));
+    }
+
+    copyToChannel(source: Float32Array, channel: number, offset = 0): void {
+        const data = this.getChannelData(channel);
+        data.set(source.subarray(0, Math.max(0, data.length - offset)), offset);
+    }
+}
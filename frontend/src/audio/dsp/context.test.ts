@@ -0,0 +1,277 @@
+/**
+ * Unit tests for the DSP renderer's offline context and nodes.
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { DspOfflineAudioContext } from './context';
+import { QUANTUM } from './buffer';
+import { createDspContext } from './index';
+import { SynthesizerEngine } from '../synthesizer';
+import type { Composition, CompositionParams } from '../../types/music';
+
+const SAMPLE_RATE = 8000;
+
+function createContext(seconds = 0.25, channels = 1) {
+    return new DspOfflineAudioContext(channels, Math.round(seconds * SAMPLE_RATE), SAMPLE_RATE);
+}
+
+function rms(samples: Float32Array, from = 0, to = samples.length): number {
+    let sum = 0;
+    for (let i = from; i < to; i++) sum += samples[i] * samples[i];
+    return Math.sqrt(sum / (to - from));
+}
+
+/** Buffer holding a single unit impulse */
+function impulse(ctx: DspOfflineAudioContext, length = QUANTUM) {
+    const buffer = ctx.createBuffer(1, length, SAMPLE_RATE);
+    buffer.getChannelData(0)[0] = 1;
+    return buffer;
+}
+
+describe('DspOfflineAudioContext', () => {
+    it('rejects an empty render', () => {
+        expect(() => new DspOfflineAudioContext(1, 0, SAMPLE_RATE)).toThrow(DOMException);
+    });
+
+    it('renders silence when nothing is connected', async () => {
+        const buffer = await createContext().startRendering();
+
+        expect(buffer.length).toBe(2000);
+        expect(buffer.getChannelData(0).every((sample) => sample === 0)).toBe(true);
+    });
+
+    it('renders a sine oscillator with Web Audio phase', async () => {
+        const ctx = createContext();
+        const osc = ctx.createOscillator();
+        osc.frequency.value = 440;
+        osc.connect(ctx.destination);
+        osc.start(0);
+
+        const data = (await ctx.startRendering()).getChannelData(0);
+
+        for (const frame of [0, 1, 100, 1500]) {
+            expect(data[frame]).toBeCloseTo(Math.sin((2 * Math.PI * 440 * frame) / SAMPLE_RATE), 4);
+        }
+    });
+
+    it('plays sources only between start and stop and fires onended', async () => {
+        const ctx = createContext();
+        const osc = ctx.createOscillator();
+        const onended = vi.fn();
+        osc.type = 'square';
+        osc.connect(ctx.destination);
+        osc.start(0.05);
+        osc.stop(0.1);
+        osc.onended = onended;
+
+        const data = (await ctx.startRendering()).getChannelData(0);
+
+        expect(rms(data, 0, 400)).toBe(0);
+        expect(rms(data, 400, 800)).toBeGreaterThan(0.5);
+        expect(rms(data, 800)).toBe(0);
+        expect(onended).toHaveBeenCalledTimes(1);
+    });
+
+    it('applies gain automation', async () => {
+        const ctx = createContext();
+        const source = ctx.createBufferSource();
+        const gain = ctx.createGain();
+        const ones = ctx.createBuffer(1, 2000, SAMPLE_RATE);
+        ones.getChannelData(0).fill(1);
+        source.buffer = ones;
+        gain.gain.setValueAtTime(0, 0);
+        gain.gain.linearRampToValueAtTime(1, 0.2);
+        source.connect(gain).connect(ctx.destination);
+        source.start(0);
+
+        const data = (await ctx.startRendering()).getChannelData(0);
+
+        expect(data[800]).toBeCloseTo(0.5, 3);
+        expect(data[1900]).toBe(1);
+    });
+
+    it('modulates a param from an audio-rate input', async () => {
+        const ctx = createContext();
+        const source = ctx.createBufferSource();
+        const offset = ctx.createBufferSource();
+        const gain = ctx.createGain();
+        const ones = ctx.createBuffer(1, 2000, SAMPLE_RATE);
+        ones.getChannelData(0).fill(1);
+        source.buffer = ones;
+        offset.buffer = ones;
+        gain.gain.value = 0.25;
+        source.connect(gain).connect(ctx.destination);
+        offset.connect(gain.gain);
+        source.start(0);
+        offset.start(0.1);
+
+        const data = (await ctx.startRendering()).getChannelData(0);
+
+        expect(data[100]).toBe(0.25);
+        expect(data[1000]).toBe(1.25);
+    });
+
+    it('delays its input and feeds back through a cycle', async () => {
+        const ctx = createContext();
+        const source = ctx.createBufferSource();
+        const delay = ctx.createDelay(1);
+        const feedback = ctx.createGain();
+        source.buffer = impulse(ctx);
+        delay.delayTime.value = 0.05;
+        feedback.gain.value = 0.5;
+        source.connect(delay);
+        delay.connect(feedback).connect(delay);
+        delay.connect(ctx.destination);
+        source.start(0);
+
+        const data = (await ctx.startRendering()).getChannelData(0);
+
+        expect(data[400]).toBeCloseTo(1);
+        expect(data[800]).toBeCloseTo(0.5);
+        expect(data[1200]).toBeCloseTo(0.25);
+        expect(data[401]).toBeCloseTo(0);
+    });
+
+    it('lowpass filters attenuate high frequencies', async () => {
+        const render = async (frequency: number) => {
+            const ctx = createContext();
+            const osc = ctx.createOscillator();
+            const filter = ctx.createBiquadFilter();
+            osc.frequency.value = frequency;
+            filter.type = 'lowpass';
+            filter.frequency.value = 300;
+            osc.connect(filter).connect(ctx.destination);
+            osc.start(0);
+            return rms((await ctx.startRendering()).getChannelData(0), 1000);
+        };
+
+        expect(await render(100)).toBeGreaterThan(0.6);
+        expect(await render(2500)).toBeLessThan(0.05);
+    });
+
+    it('pans with equal power', async () => {
+        const ctx = createContext(0.05, 2);
+        const source = ctx.createBufferSource();
+        const panner = ctx.createStereoPanner();
+        const ones = ctx.createBuffer(1, 400, SAMPLE_RATE);
+        ones.getChannelData(0).fill(1);
+        source.buffer = ones;
+        panner.pan.value = 0;
+        source.connect(panner).connect(ctx.destination);
+        source.start(0);
+
+        const buffer = await ctx.startRendering();
+
+        expect(buffer.getChannelData(0)[10]).toBeCloseTo(Math.SQRT1_2);
+        expect(buffer.getChannelData(1)[10]).toBeCloseTo(Math.SQRT1_2);
+    });
+
+    it('convolves with an impulse response', async () => {
+        const ctx = createContext(0.1, 2);
+        const source = ctx.createBufferSource();
+        const convolver = ctx.createConvolver();
+        const response = ctx.createBuffer(2, 300, SAMPLE_RATE);
+        response.getChannelData(0)[10] = 0.5;
+        response.getChannelData(1)[250] = 0.25;
+        convolver.normalize = false;
+        convolver.buffer = response;
+        source.buffer = impulse(ctx);
+        source.connect(convolver).connect(ctx.destination);
+        source.start(0);
+
+        const buffer = await ctx.startRendering();
+
+        expect(buffer.getChannelData(0)[10]).toBeCloseTo(0.5, 5);
+        expect(buffer.getChannelData(1)[250]).toBeCloseTo(0.25, 5);
+        expect(rms(buffer.getChannelData(0), 20)).toBeLessThan(1e-5);
+    });
+
+    it('compresses above the threshold and applies makeup gain', async () => {
+        const ctx = createContext();
+        const source = ctx.createBufferSource();
+        const compressor = ctx.createDynamicsCompressor();
+        const ones = ctx.createBuffer(1, 2000, SAMPLE_RATE);
+        ones.getChannelData(0).fill(1);
+        source.buffer = ones;
+        compressor.threshold.value = -20;
+        compressor.knee.value = 0;
+        compressor.ratio.value = 20;
+        compressor.attack.value = 0;
+        source.connect(compressor).connect(ctx.destination);
+        source.start(0);
+
+        const data = (await ctx.startRendering()).getChannelData(0);
+
+        // 0 dB in, -19 dB after compression, +11.4 dB makeup
+        expect(data[1500]).toBeCloseTo(Math.pow(10, -7.6 / 20), 4);
+        expect(compressor.reduction).toBeLessThan(0);
+    });
+
+    it('delays compressor output by its look-ahead', async () => {
+        const ctx = createContext();
+        const source = ctx.createBufferSource();
+        const compressor = ctx.createDynamicsCompressor();
+        source.buffer = impulse(ctx);
+        compressor.threshold.value = 0;
+        source.connect(compressor).connect(ctx.destination);
+        source.start(0);
+
+        const data = (await ctx.startRendering()).getChannelData(0);
+
+        expect(data[0]).toBe(0);
+        expect(data.findIndex((sample) => sample !== 0)).toBe(Math.round(0.006 * SAMPLE_RATE));
+    });
+
+    it('pauses at suspend points until resumed', async () => {
+        const ctx = createContext();
+        const reached: number[] = [];
+
+        ctx.suspend(0.1).then(() => {
+            reached.push(ctx.currentTime);
+            expect(ctx.state).toBe('suspended');
+            ctx.resume();
+        });
+
+        await ctx.startRendering();
+
+        expect(reached).toEqual([Math.floor(800 / QUANTUM) * QUANTUM / SAMPLE_RATE]);
+        expect(ctx.state).toBe('closed');
+    });
+
+    it('rejects a suspend point outside the render', async () => {
+        const ctx = createContext();
+
+        await expect(ctx.suspend(1)).rejects.toThrow(DOMException);
+    });
+});
+
+describe('createDspContext', () => {
+    it('renders a synthesizer track', async () => {
+        const composition: Composition = {
+            scale: ['C4', 'D4', 'E4', 'G4', 'A4'],
+            motif: { pitches: ['C4', 'E4'], rhythm: [1, 1] },
+            form: ['A'],
+            instrumentRoles: { erhu: 'melody' },
+            euclideanPatterns: { erhu: [1, 0, 1, 0] },
+        };
+        const params: CompositionParams = {
+            mode: 'gong',
+            root: 'C',
+            tempo: 240,
+            instruments: ['erhu'],
+            mood: 'festive',
+            seed: 7,
+        };
+        const engine = new SynthesizerEngine(SAMPLE_RATE, createDspContext);
+        const onProgress = vi.fn();
+
+        const buffer = await engine.renderTrack(composition, 'erhu', params, onProgress);
+        const left = buffer.getChannelData(0);
+
+        expect(buffer.numberOfChannels).toBe(2);
+        expect(left.some(Number.isNaN)).toBe(false);
+        expect(rms(left)).toBeGreaterThan(0.001);
+        expect(onProgress).toHaveBeenCalledWith(0.9, 'erhu');
+        expect(onProgress).toHaveBeenLastCalledWith(1, 'erhu');
+    });
+});
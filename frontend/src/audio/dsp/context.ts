@@ -0,0 +1,196 @@
+/**
+ * Offline rendering context for the DSP renderer.
+ * Implements the subset of `OfflineAudioContext` the synthesizer uses, so
+ * tracks can be rendered where Web Audio isn't available (workers in most
+ * browsers, Node).
+ */
+
+import { DspAudioBuffer, QUANTUM } from './buffer';
+import { DspAudioParam } from './param';
+import type { DspParamOptions } from './param';
+import {
+    DspAudioBufferSourceNode,
+    DspBiquadFilterNode,
+    DspConvolverNode,
+    DspDelayNode,
+    DspDestinationNode,
+    DspDynamicsCompressorNode,
+    DspGainNode,
+    DspOscillatorNode,
+    DspStereoPannerNode,
+} from './nodes';
+
+export class DspOfflineAudioContext {
+    readonly sampleRate: number;
+    readonly length: number;
+    readonly destination: DspDestinationNode;
+    state: AudioContextState = 'suspended';
+
+    /** Bumped on every connection or schedule change, invalidating cached idle spans */
+    graphVersion = 0;
+
+    private frame = 0;
+    private rendering = false;
+    private delays: DspDelayNode[] = [];
+    private endedCallbacks: Array<() => void> = [];
+    /** Resolvers of `suspend()` promises, by frame */
+    private suspensions = new Map<number, () => void>();
+    private resumeRendering: (() => void) | null = null;
+
+    constructor(options: OfflineAudioContextOptions);
+    constructor(numberOfChannels: number, length: number, sampleRate: number);
+    constructor(optionsOrChannels: OfflineAudioContextOptions | number, length?: number, sampleRate?: number) {
+        const options = typeof optionsOrChannels === 'number'
+            ? { numberOfChannels: optionsOrChannels, length: length!, sampleRate: sampleRate! }
+            : optionsOrChannels;
+
+        if (!(options.length > 0) || !(options.sampleRate > 0)) {
+            throw new DOMException('Invalid render length or sample rate', 'NotSupportedError');
+        }
+
+        this.sampleRate = options.sampleRate;
+        this.length = options.length;
+        this.destination = new DspDestinationNode(this, options.numberOfChannels ?? 1);
+    }
+
+    /** Time of the quantum being rendered, in seconds */
+    get currentTime(): number {
+        return this.frame / this.sampleRate;
+    }
+
+    createGain(): DspGainNode {
+        return new DspGainNode(this);
+    }
+
+    createOscillator(): DspOscillatorNode {
+        return new DspOscillatorNode(this);
+    }
+
+    createBiquadFilter(): DspBiquadFilterNode {
+        return new DspBiquadFilterNode(this);
+    }
+
+    createDelay(maxDelayTime?: number): DspDelayNode {
+        const delay = new DspDelayNode(this, maxDelayTime);
+        this.delays.push(delay);
+        return delay;
+    }
+
+    createStereoPanner(): DspStereoPannerNode {
+        return new DspStereoPannerNode(this);
+    }
+
+    createDynamicsCompressor(): DspDynamicsCompressorNode {
+        return new DspDynamicsCompressorNode(this);
+    }
+
+    createConvolver(): DspConvolverNode {
+        return new DspConvolverNode(this);
+    }
+
+    createBufferSource(): DspAudioBufferSourceNode {
+        return new DspAudioBufferSourceNode(this);
+    }
+
+    createBuffer(numberOfChannels: number, length: number, sampleRate: number): DspAudioBuffer {
+        return new DspAudioBuffer({ numberOfChannels, length, sampleRate });
+    }
+
+    /** Create a param for a node of this context */
+    createParam(options: DspParamOptions): DspAudioParam {
+        return new DspAudioParam(this.sampleRate, options);
+    }
+
+    /** Called by nodes when connections or schedules change */
+    graphChanged(): void {
+        this.graphVersion++;
+    }
+
+    /** Called by sources when they stop; `onended` runs after the quantum */
+    queueEnded(callback: () => void): void {
+        this.endedCallbacks.push(callback);
+    }
+
+    /**
+     * Pause rendering at a time, rounded down to a render quantum.
+     * The returned promise resolves once rendering has reached it; rendering
+     * continues after `resume()`.
+     */
+    suspend(suspendTime: number): Promise<void> {
+        const frame = Math.floor((suspendTime * this.sampleRate) / QUANTUM) * QUANTUM;
+
+        if (!(frame >= 0) || frame >= this.length || (this.rendering && frame <= this.frame)) {
+            return Promise.reject(new DOMException(`Cannot suspend at ${suspendTime}s`, 'InvalidStateError'));
+        }
+        if (this.suspensions.has(frame)) {
+            return Promise.reject(new DOMException(`Already suspending at ${suspendTime}s`, 'InvalidStateError'));
+        }
+
+        return new Promise((resolve) => this.suspensions.set(frame, resolve));
+    }
+
+    resume(): Promise<void> {
+        const resume = this.resumeRendering;
+        this.resumeRendering = null;
+        resume?.();
+        return Promise.resolve();
+    }
+
+    /**
+     * Render the whole graph into a buffer.
+     */
+    async startRendering(): Promise<DspAudioBuffer> {
+        if (this.rendering) {
+            throw new DOMException('Rendering has already started', 'InvalidStateError');
+        }
+        this.rendering = true;
+        this.state = 'running';
+
+        const output = new DspAudioBuffer({
+            numberOfChannels: this.destination.channelCount,
+            length: this.length,
+            sampleRate: this.sampleRate,
+        });
+
+        while (this.frame < this.length) {
+            const suspension = this.suspensions.get(this.frame);
+            if (suspension) {
+                this.suspensions.delete(this.frame);
+                this.state = 'suspended';
+                await new Promise<void>((resolve) => {
+                    this.resumeRendering = resolve;
+                    suspension();
+                });
+                this.state = 'running';
+            }
+
+            this.renderQuantum(output);
+        }
+
+        this.state = 'closed';
+        return output;
+    }
+
+    private renderQuantum(output: DspAudioBuffer): void {
+        const frame = this.frame;
+        const block = this.destination.pull(frame);
+
+        if (block) {
+            const count = Math.min(QUANTUM, this.length - frame);
+            for (let c = 0; c < output.numberOfChannels; c++) {
+                output.getChannelData(c).set(block[c].subarray(0, count), frame);
+            }
+        }
+
+        // Delay lines take their input once the whole quantum is rendered
+        for (const delay of this.delays) {
+            delay.commit(frame);
+        }
+
+        this.frame += QUANTUM;
+
+        const ended = this.endedCallbacks;
+        this.endedCallbacks = [];
+        ended.forEach((callback) => callback());
+    }
+}
@@ -0,0 +1,133 @@
+/**
+ * Unit tests for the FFT and partitioned convolution.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { FFT, PartitionedConvolver } from './convolution';
+import { QUANTUM } from './buffer';
+import { createRandom } from '../utils/random';
+
+function noise(length: number, seed: number): Float32Array {
+    const random = createRandom(seed);
+    return Float32Array.from({ length }, () => random() * 2 - 1);
+}
+
+/** Direct-form convolution, for reference */
+function convolve(input: Float32Array, response: Float32Array, length: number): Float64Array {
+    const out = new Float64Array(length);
+    for (let n = 0; n < input.length; n++) {
+        if (input[n] === 0) continue;
+        for (let k = 0; k < response.length && n + k < length; k++) {
+            out[n + k] += input[n] * response[k];
+        }
+    }
+    return out;
+}
+
+/** Run input through the convolver, a quantum at a time */
+function runConvolver(convolver: PartitionedConvolver, left: Float32Array, right: Float32Array, length: number) {
+    const output = [new Float32Array(length), new Float32Array(length)];
+    const targets = [new Float32Array(QUANTUM), new Float32Array(QUANTUM)] as [Float32Array, Float32Array];
+
+    for (let frame = 0; frame < length; frame += QUANTUM) {
+        const hasInput = frame < left.length;
+        convolver.process(
+            hasInput ? left.subarray(frame, frame + QUANTUM) : null,
+            hasInput ? right.subarray(frame, frame + QUANTUM) : null,
+            frame,
+            targets
+        );
+        output[0].set(targets[0], frame);
+        output[1].set(targets[1], frame);
+    }
+    return output;
+}
+
+function maxError(actual: Float32Array, expected: Float64Array): number {
+    let error = 0;
+    for (let i = 0; i < expected.length; i++) {
+        error = Math.max(error, Math.abs(actual[i] - expected[i]));
+    }
+    return error;
+}
+
+describe('FFT', () => {
+    it('rejects sizes that are not a power of two', () => {
+        expect(() => new FFT(12)).toThrow(RangeError);
+    });
+
+    it('transforms an impulse to a flat spectrum', () => {
+        const fft = new FFT(8);
+        const re = new Float64Array(8);
+        const im = new Float64Array(8);
+        re[0] = 1;
+
+        fft.transform(re, im);
+
+        expect(Array.from(re)).toEqual(new Array(8).fill(1));
+        expect(Array.from(im).every((value) => Math.abs(value) < 1e-12)).toBe(true);
+    });
+
+    it('inverts its own transform', () => {
+        const fft = new FFT(64);
+        const signal = Float64Array.from(noise(64, 1));
+        const re = Float64Array.from(signal);
+        const im = new Float64Array(64);
+
+        fft.transform(re, im);
+        fft.transform(re, im, true);
+
+        re.forEach((value, i) => expect(value).toBeCloseTo(signal[i], 10));
+    });
+});
+
+describe('PartitionedConvolver', () => {
+    it('matches direct convolution for a short response', () => {
+        const response = noise(300, 2);
+        const input = noise(QUANTUM * 8, 3);
+        const length = QUANTUM * 12;
+
+        const [left] = runConvolver(new PartitionedConvolver(response), input, input, length);
+
+        expect(maxError(left, convolve(input, response, length))).toBeLessThan(1e-4);
+    });
+
+    it('matches direct convolution across every partition size', () => {
+        const response = noise(12000, 4).map((sample, i) => sample * Math.exp(-i / 3000));
+        const input = noise(QUANTUM * 4, 5);
+        const length = QUANTUM * 112;
+
+        const [left, right] = runConvolver(
+            new PartitionedConvolver(response, response.map((sample) => -sample)),
+            input,
+            input,
+            length
+        );
+        const expected = convolve(input, response, length);
+
+        expect(maxError(left, expected)).toBeLessThan(1e-3);
+        expect(maxError(right, expected.map((sample) => -sample))).toBeLessThan(1e-3);
+    });
+
+    it('convolves each channel with its own response', () => {
+        const left = new Float32Array(QUANTUM);
+        const right = new Float32Array(QUANTUM);
+        left[0] = 1;
+        right[5] = 1;
+
+        const convolver = new PartitionedConvolver(Float32Array.of(1, 0.5), Float32Array.of(0.25));
+        const [outLeft, outRight] = runConvolver(convolver, left, right, QUANTUM * 2);
+
+        expect(outLeft[0]).toBeCloseTo(1, 5);
+        expect(outLeft[1]).toBeCloseTo(0.5, 5);
+        expect(outRight[5]).toBeCloseTo(0.25, 5);
+        expect(outRight[0]).toBeCloseTo(0, 5);
+    });
+
+    it('rings out for the length of the response', () => {
+        const response = noise(2000, 6);
+        const convolver = new PartitionedConvolver(response);
+
+        expect(convolver.tail).toBeGreaterThanOrEqual(response.length);
+    });
+});
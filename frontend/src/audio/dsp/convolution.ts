@@ -0,0 +1,361 @@
+/**
+ * FFT convolution for the DSP renderer's ConvolverNode.
+ *
+ * Long impulse responses are split into partitions of growing size: short
+ * ones at the head keep the output in step with the input, long ones for the
+ * tail keep the cost per frame low. Each stage runs uniformly partitioned
+ * overlap-save convolution.
+ */
+
+import { QUANTUM } from './buffer';
+
+/** Partition size and where each stage starts in the impulse response */
+const STAGES = [
+    { block: QUANTUM, offset: 0 },
+    { block: 1024, offset: 1024 },
+    { block: 8192, offset: 8192 },
+];
+
+/**
+ * Iterative radix-2 complex FFT of a fixed size.
+ */
+export class FFT {
+    readonly size: number;
+    /** Twiddle factors for each butterfly width, stored one width after another */
+    private cos: Float64Array;
+    private sin: Float64Array;
+    private reversed: Uint32Array;
+
+    constructor(size: number) {
+        if (size < 2 || (size & (size - 1)) !== 0) {
+            throw new RangeError(`FFT size must be a power of two, got ${size}`);
+        }
+        this.size = size;
+
+        // Width `half` uses entries [half - 1, 2 * half - 1)
+        this.cos = new Float64Array(size);
+        this.sin = new Float64Array(size);
+        for (let half = 1; half < size; half *= 2) {
+            for (let k = 0; k < half; k++) {
+                this.cos[half - 1 + k] = Math.cos((Math.PI * k) / half);
+                this.sin[half - 1 + k] = Math.sin((Math.PI * k) / half);
+            }
+        }
+
+        const bits = Math.log2(size);
+        this.reversed = new Uint32Array(size);
+        for (let i = 0; i < size; i++) {
+            let r = 0;
+            for (let b = 0; b < bits; b++) {
+                r |= ((i >> b) & 1) << (bits - 1 - b);
+            }
+            this.reversed[i] = r;
+        }
+    }
+
+    /**
+     * Transform in place. The inverse transform is scaled by 1/size.
+     */
+    transform(re: Float64Array, im: Float64Array, inverse = false): void {
+        const n = this.size;
+        const cos = this.cos;
+        const sin = this.sin;
+
+        for (let i = 0; i < n; i++) {
+            const j = this.reversed[i];
+            if (j > i) {
+                let t = re[i]; re[i] = re[j]; re[j] = t;
+                t = im[i]; im[i] = im[j]; im[j] = t;
+            }
+        }
+
+        const sign = inverse ? 1 : -1;
+        for (let half = 1; half < n; half *= 2) {
+            const table = half - 1;
+            for (let start = 0; start < n; start += half * 2) {
+                for (let k = 0; k < half; k++) {
+                    const wr = cos[table + k];
+                    const wi = sign * sin[table + k];
+                    const a = start + k;
+                    const b = a + half;
+                    const tr = re[b] * wr - im[b] * wi;
+                    const ti = re[b] * wi + im[b] * wr;
+                    re[b] = re[a] - tr;
+                    im[b] = im[a] - ti;
+                    re[a] += tr;
+                    im[a] += ti;
+                }
+            }
+        }
+
+        if (inverse) {
+            for (let i = 0; i < n; i++) {
+                re[i] /= n;
+                im[i] /= n;
+            }
+        }
+    }
+}
+
+const ffts = new Map<number, FFT>();
+
+function getFFT(size: number): FFT {
+    let fft = ffts.get(size);
+    if (!fft) {
+        fft = new FFT(size);
+        ffts.set(size, fft);
+    }
+    return fft;
+}
+
+/** Real and imaginary parts of half a spectrum, bins 0 to N/2 */
+interface Spectrum {
+    re: Float32Array;
+    im: Float32Array;
+}
+
+const createSpectrum = (bins: number): Spectrum => ({ re: new Float32Array(bins), im: new Float32Array(bins) });
+
+/**
+ * One uniformly partitioned overlap-save stage covering part of the response.
+ * Both channels share one FFT: left goes in the real part and right in the
+ * imaginary part, and the spectra are separated using their symmetry.
+ */
+class ConvolutionStage {
+    readonly block: number;
+    readonly offset: number;
+    private fft: FFT;
+    private bins: number;
+    /** Half spectra of the response partitions, per channel */
+    private partitions: Array<[Spectrum, Spectrum]> = [];
+    /** Half spectra of recent input blocks per channel, newest at `head` */
+    private history: Array<[Spectrum, Spectrum]> = [];
+    private head = 0;
+    /** The previous and the current input block, per channel */
+    private input: [Float64Array, Float64Array];
+    private re: Float64Array;
+    private im: Float64Array;
+    private sum: [{ re: Float64Array; im: Float64Array }, { re: Float64Array; im: Float64Array }];
+    /** Consecutive silent input blocks; the stage is idle once they fill its history */
+    private silentBlocks = Infinity;
+    private blockActive = false;
+
+    constructor(responses: [Float32Array, Float32Array], offset: number, block: number, end: number) {
+        const size = block * 2;
+        this.block = block;
+        this.offset = offset;
+        this.fft = getFFT(size);
+        this.bins = block + 1;
+        this.input = [new Float64Array(size), new Float64Array(size)];
+        this.re = new Float64Array(size);
+        this.im = new Float64Array(size);
+        this.sum = [0, 1].map(() => ({ re: new Float64Array(this.bins), im: new Float64Array(this.bins) })) as ConvolutionStage['sum'];
+
+        for (let start = offset; start < end; start += block) {
+            const stop = Math.min(start + block, end);
+            this.re.fill(0);
+            this.im.fill(0);
+            for (let i = start; i < stop; i++) {
+                this.re[i - start] = responses[0][i];
+                this.im[i - start] = responses[1][i];
+            }
+            this.partitions.push(this.splitSpectrum(createSpectrum(this.bins), createSpectrum(this.bins)));
+            this.history.push([createSpectrum(this.bins), createSpectrum(this.bins)]);
+        }
+    }
+
+    /**
+     * Take one quantum of input; at the end of a block, add the block's
+     * output into `output`, `offset` frames after the block started.
+     */
+    push(left: Float32Array | null, right: Float32Array | null, frame: number, output: [OutputRing, OutputRing]): void {
+        const block = this.block;
+        const position = frame % block;
+        const [inLeft, inRight] = this.input;
+
+        if (left && right) {
+            for (let i = 0; i < QUANTUM; i++) {
+                inLeft[block + position + i] = left[i];
+                inRight[block + position + i] = right[i];
+            }
+            this.blockActive = true;
+        } else {
+            inLeft.fill(0, block + position, block + position + QUANTUM);
+            inRight.fill(0, block + position, block + position + QUANTUM);
+        }
+
+        if (position + QUANTUM < block) return;
+
+        const blockStart = frame + QUANTUM - block;
+        const partitions = this.partitions.length;
+
+        this.silentBlocks = this.blockActive ? 0 : this.silentBlocks + 1;
+        this.blockActive = false;
+
+        // Once every stored spectrum comes from silence the output is silent too
+        if (this.silentBlocks > partitions) {
+            if (this.silentBlocks === partitions + 1) {
+                for (const channels of this.history) {
+                    for (const { re, im } of channels) {
+                        re.fill(0);
+                        im.fill(0);
+                    }
+                }
+            }
+            inLeft.copyWithin(0, block);
+            inRight.copyWithin(0, block);
+            return;
+        }
+
+        // Spectra of the last two blocks
+        this.re.set(inLeft);
+        this.im.set(inRight);
+        this.head = (this.head + 1) % partitions;
+        const [historyLeft, historyRight] = this.history[this.head];
+        this.splitSpectrum(historyLeft, historyRight);
+
+        // Sum of each past block's spectrum times its partition's
+        const bins = this.bins;
+        for (let c = 0; c < 2; c++) {
+            const sumRe = this.sum[c].re;
+            const sumIm = this.sum[c].im;
+            sumRe.fill(0);
+            sumIm.fill(0);
+
+            for (let k = 0; k < partitions; k++) {
+                const x = this.history[(this.head - k + partitions) % partitions][c];
+                const h = this.partitions[k][c];
+                const xRe = x.re, xIm = x.im, hRe = h.re, hIm = h.im;
+                for (let i = 0; i < bins; i++) {
+                    sumRe[i] += xRe[i] * hRe[i] - xIm[i] * hIm[i];
+                    sumIm[i] += xRe[i] * hIm[i] + xIm[i] * hRe[i];
+                }
+            }
+        }
+
+        // Left output in the real part, right in the imaginary part
+        const size = block * 2;
+        const [l, r] = this.sum;
+        const { re, im } = this;
+        for (let k = 0; k < bins; k++) {
+            re[k] = l.re[k] - r.im[k];
+            im[k] = l.im[k] + r.re[k];
+        }
+        for (let k = bins; k < size; k++) {
+            const m = size - k;
+            re[k] = l.re[m] + r.im[m];
+            im[k] = r.re[m] - l.im[m];
+        }
+
+        this.fft.transform(re, im, true);
+        output[0].add(blockStart + this.offset, re, block, block);
+        output[1].add(blockStart + this.offset, im, block, block);
+
+        inLeft.copyWithin(0, block);
+        inRight.copyWithin(0, block);
+    }
+
+    /**
+     * Transform `re` (left) and `im` (right) together and separate the
+     * two channels' half spectra.
+     */
+    private splitSpectrum(left: Spectrum, right: Spectrum): [Spectrum, Spectrum] {
+        const { re, im } = this;
+        const size = this.block * 2;
+        this.fft.transform(re, im);
+
+        for (let k = 0; k < this.bins; k++) {
+            const m = (size - k) % size;
+            left.re[k] = (re[k] + re[m]) / 2;
+            left.im[k] = (im[k] - im[m]) / 2;
+            right.re[k] = (im[k] + im[m]) / 2;
+            right.im[k] = (re[m] - re[k]) / 2;
+        }
+        return [left, right];
+    }
+}
+
+/**
+ * Accumulates stage outputs ahead of the frame being rendered.
+ */
+class OutputRing {
+    private data: Float64Array;
+    private mask: number;
+
+    constructor(lookahead: number) {
+        let size = 1;
+        while (size < lookahead) size *= 2;
+        this.data = new Float64Array(size);
+        this.mask = size - 1;
+    }
+
+    add(frame: number, samples: Float64Array, from: number, length: number): void {
+        for (let i = 0; i < length; i++) {
+            this.data[(frame + i) & this.mask] += samples[from + i];
+        }
+    }
+
+    /** Move one quantum out, clearing it for reuse */
+    take(frame: number, target: Float32Array): void {
+        for (let i = 0; i < QUANTUM; i++) {
+            const index = (frame + i) & this.mask;
+            target[i] = this.data[index];
+            this.data[index] = 0;
+        }
+    }
+}
+
+/**
+ * Streaming stereo convolution: each input channel with its own response.
+ */
+export class PartitionedConvolver {
+    /** Frames the output keeps ringing after the last non-silent input */
+    readonly tail: number;
+    private stages: ConvolutionStage[] = [];
+    private output: [OutputRing, OutputRing];
+
+    /**
+     * @param left - Response for the left channel
+     * @param right - Response for the right channel (default: the left one)
+     */
+    constructor(left: Float32Array, right: Float32Array = left) {
+        const length = Math.max(left.length, right.length);
+        const responses: [Float32Array, Float32Array] = [padded(left, length), padded(right, length)];
+        let lookahead = QUANTUM;
+
+        STAGES.forEach(({ block, offset }, index) => {
+            if (offset >= length) return;
+            const next = STAGES[index + 1];
+            const end = next ? Math.min(next.offset, length) : length;
+            this.stages.push(new ConvolutionStage(responses, offset, block, end));
+            lookahead = Math.max(lookahead, offset + block * 2);
+        });
+
+        this.output = [new OutputRing(lookahead), new OutputRing(lookahead)];
+        this.tail = length + Math.max(QUANTUM, ...this.stages.map((stage) => stage.block));
+    }
+
+    /**
+     * Convolve one quantum of input, starting at `frame`, into the targets.
+     * `null` input is silence.
+     */
+    process(
+        left: Float32Array | null,
+        right: Float32Array | null,
+        frame: number,
+        targets: [Float32Array, Float32Array]
+    ): void {
+        for (const stage of this.stages) {
+            stage.push(left, right, frame, this.output);
+        }
+        this.output[0].take(frame, targets[0]);
+        this.output[1].take(frame, targets[1]);
+    }
+}
+
+function padded(samples: Float32Array, length: number): Float32Array {
+    if (samples.length === length) return samples;
+    const result = new Float32Array(length);
+    result.set(samples);
+    return result;
+}
@@ -0,0 +1,47 @@
+/**
+ * Pure TypeScript offline renderer with the Web Audio node graph the
+ * synthesizer uses. It stands in for `OfflineAudioContext` where that isn't
+ * available, such as inside workers and under Node.
+ */
+
+import { DspOfflineAudioContext } from './context';
+
+export { DspOfflineAudioContext } from './context';
+export { DspAudioBuffer, QUANTUM } from './buffer';
+export { DspAudioParam } from './param';
+export {
+    DspNode,
+    DspScheduledSourceNode,
+    DspOscillatorNode,
+    DspAudioBufferSourceNode,
+    DspGainNode,
+    DspBiquadFilterNode,
+    DspDelayNode,
+    DspStereoPannerNode,
+    DspDynamicsCompressorNode,
+    DspConvolverNode,
+    DspDestinationNode,
+} from './nodes';
+export { FFT, PartitionedConvolver } from './convolution';
+
+/**
+ * Creates the offline context a render runs in.
+ */
+export type OfflineContextFactory = (options: OfflineAudioContextOptions) => OfflineAudioContext;
+
+/**
+ * Create a Web Audio `OfflineAudioContext` when the environment has one,
+ * otherwise a DSP renderer context.
+ */
+export const createOfflineContext: OfflineContextFactory = (options) => {
+    if (typeof OfflineAudioContext !== 'undefined') {
+        return new OfflineAudioContext(options);
+    }
+    return createDspContext(options);
+};
+
+/**
+ * Create a DSP renderer context, typed as the Web Audio context it stands in for.
+ */
+export const createDspContext: OfflineContextFactory = (options) =>
+    new DspOfflineAudioContext(options) as unknown as OfflineAudioContext;
@@ -0,0 +1,1018 @@
+/**
+ * Audio nodes for the DSP renderer.
+ *
+ * Rendering is pull-based: the destination asks its inputs for one render
+ * quantum at a time and each node asks its own inputs in turn, caching the
+ * result so nodes feeding several others are processed once per quantum.
+ * A node with nothing to play returns `null` instead of a block of zeros and
+ * is skipped until the earliest frame any source upstream of it starts.
+ */
+
+import { DspAudioBuffer, QUANTUM } from './buffer';
+import { DspAudioParam } from './param';
+import { PartitionedConvolver } from './convolution';
+import type { DspOfflineAudioContext } from './context';
+
+/** One render quantum of audio, one array per channel */
+export type Block = Float32Array[];
+
+/** Filter state and delay input below this are treated as silence */
+const SILENCE = 1e-9;
+
+const clamp = (value: number, min: number, max: number): number => Math.max(min, Math.min(max, value));
+
+/** Value of a param at one frame of a quantum */
+const valueAt = (values: number | Float32Array, index: number): number =>
+    typeof values === 'number' ? values : values[index];
+
+function invalidState(message: string): DOMException {
+    return new DOMException(message, 'InvalidStateError');
+}
+
+/**
+ * Add a block into a mix, up-mixing mono to the widest input.
+ * Returns the mix's channel count.
+ */
+function accumulate(mix: Block, channels: number, block: Block): number {
+    const width = Math.max(channels, block.length);
+    while (mix.length < width) {
+        mix.push(new Float32Array(QUANTUM));
+    }
+
+    if (channels === 0) {
+        for (let c = 0; c < width; c++) mix[c].fill(0);
+    } else if (channels === 1 && width > 1) {
+        for (let c = 1; c < width; c++) mix[c].set(mix[0]);
+    }
+
+    for (let c = 0; c < width; c++) {
+        const source = block.length === 1 ? block[0] : block[c];
+        if (!source) continue;
+        const target = mix[c];
+        for (let i = 0; i < QUANTUM; i++) {
+            target[i] += source[i];
+        }
+    }
+    return width;
+}
+
+/** Whether every sample of a block is below the silence threshold */
+function isSilent(block: Block): boolean {
+    for (const channel of block) {
+        for (let i = 0; i < QUANTUM; i++) {
+            if (Math.abs(channel[i]) > SILENCE) return false;
+        }
+    }
+    return true;
+}
+
+/**
+ * Base class of every node: connections, input mixing and quantum caching.
+ */
+export abstract class DspNode {
+    readonly context: DspOfflineAudioContext;
+    readonly numberOfInputs: number = 1;
+    readonly numberOfOutputs: number = 1;
+    channelCount = 2;
+    channelCountMode: ChannelCountMode = 'max';
+    channelInterpretation: ChannelInterpretation = 'speakers';
+
+    /** Nodes connected to this node's input */
+    readonly inputs: DspNode[] = [];
+    private destinations = new Set<DspNode | DspAudioParam>();
+
+    private cacheFrame = -1;
+    private cache: Block | null = null;
+    /** Earliest frame the node can sound again, valid while the graph is unchanged */
+    private wakeFrame = 0;
+    private wakeVersion = -1;
+
+    private mixBlock: Block = [];
+    private outputBlock: Block = [];
+
+    constructor(context: DspOfflineAudioContext) {
+        this.context = context;
+    }
+
+    connect(destination: DspNode, output?: number, input?: number): DspNode;
+    connect(destination: DspAudioParam, output?: number): void;
+    connect(destination: DspNode | DspAudioParam): DspNode | void {
+        const inputs = destination.inputs;
+        if (!inputs.includes(this)) {
+            inputs.push(this);
+        }
+        this.destinations.add(destination);
+        this.context.graphChanged();
+
+        return destination instanceof DspNode ? destination : undefined;
+    }
+
+    disconnect(destination?: DspNode | DspAudioParam): void {
+        const targets = destination ? [destination] : Array.from(this.destinations);
+        for (const target of targets) {
+            const index = target.inputs.indexOf(this);
+            if (index >= 0) target.inputs.splice(index, 1);
+            this.destinations.delete(target);
+        }
+        this.context.graphChanged();
+    }
+
+    /**
+     * Output for the quantum starting at `frame`, or `null` when silent.
+     */
+    pull(frame: number): Block | null {
+        if (this.cacheFrame === frame) return this.cache;
+        this.cacheFrame = frame;
+
+        if (this.isIdleAt(frame)) {
+            this.cache = null;
+            return null;
+        }
+
+        this.cache = this.process(frame);
+
+        if (!this.cache) {
+            this.wakeFrame = this.activeFrom(frame + QUANTUM, new Set());
+            this.wakeVersion = this.context.graphVersion;
+        }
+        return this.cache;
+    }
+
+    /** Whether the node will stay silent for the rest of the render */
+    isFinished(): boolean {
+        return this.wakeVersion === this.context.graphVersion && this.wakeFrame === Infinity;
+    }
+
+    /** Render one quantum */
+    protected abstract process(frame: number): Block | null;
+
+    /** Whether the node still outputs sound from past input */
+    protected hasTail(): boolean {
+        return false;
+    }
+
+    /**
+     * Earliest frame from `from` on at which the node may sound: now while it
+     * rings, otherwise when the first source upstream of it starts.
+     * Nodes already visited are skipped, so feedback loops terminate.
+     */
+    protected activeFrom(from: number, visited: Set<DspNode>): number {
+        if (this.hasTail()) return from;
+        visited.add(this);
+
+        let wake = Infinity;
+        for (const input of [...this.inputs]) {
+            if (visited.has(input)) continue;
+            wake = Math.min(wake, input.wakeAt(from, visited));
+            if (wake <= from) break;
+        }
+        return wake;
+    }
+
+    private wakeAt(from: number, visited: Set<DspNode>): number {
+        if (this.wakeVersion === this.context.graphVersion && this.wakeFrame >= from) {
+            return this.wakeFrame;
+        }
+        return this.activeFrom(from, visited);
+    }
+
+    /**
+     * Sum the inputs into `mix`, up-mixing mono to the widest input.
+     * A single sounding input is returned as is. Inputs that will never
+     * sound again are dropped.
+     */
+    protected pullInputs(frame: number, inputs: DspNode[] = this.inputs, mix: Block = this.mixBlock): Block | null {
+        let single: Block | null = null;
+        let channels = 0;
+
+        for (let i = 0; i < inputs.length; i++) {
+            const input = inputs[i];
+            const block = input.pull(frame);
+
+            if (input.isFinished()) {
+                inputs.splice(i--, 1);
+            }
+            if (!block) continue;
+
+            if (!single && channels === 0) {
+                single = block;
+                continue;
+            }
+            if (single) {
+                channels = accumulate(mix, 0, single);
+                single = null;
+            }
+            channels = accumulate(mix, channels, block);
+        }
+
+        if (single) return single;
+        return channels > 0 ? mix.slice(0, channels) : null;
+    }
+
+    /**
+     * Values of a param for this quantum, including its audio-rate inputs.
+     */
+    protected pullParam(param: DspAudioParam, frame: number): number | Float32Array {
+        return param.getValues(frame, this.pullParamInputs(param, frame));
+    }
+
+    /**
+     * Value of a param at the start of this quantum, for params read once per quantum.
+     */
+    protected pullParamValue(param: DspAudioParam, frame: number): number {
+        return param.getValue(frame, this.pullParamInputs(param, frame));
+    }
+
+    private pullParamInputs(param: DspAudioParam, frame: number): Block | null {
+        return param.inputs.length > 0 ? this.pullInputs(frame, param.inputs, param.mixBlock) : null;
+    }
+
+    /** This node's output buffers, `channels` wide */
+    protected output(channels: number): Block {
+        while (this.outputBlock.length < channels) {
+            this.outputBlock.push(new Float32Array(QUANTUM));
+        }
+        return this.outputBlock.length === channels ? this.outputBlock : this.outputBlock.slice(0, channels);
+    }
+
+    /** Whether the node is known to be silent for the quantum starting at `frame` */
+    protected isIdleAt(frame: number): boolean {
+        return this.wakeVersion === this.context.graphVersion && frame + QUANTUM <= this.wakeFrame;
+    }
+}
+
+/**
+ * Oscillators and buffer sources: nodes that play between `start` and `stop`.
+ */
+export abstract class DspScheduledSourceNode extends DspNode {
+    override readonly numberOfInputs = 0;
+    onended: ((this: DspScheduledSourceNode, event: Event) => void) | null = null;
+
+    protected startFrame: number | null = null;
+    protected stopFrame = Infinity;
+    private ended = false;
+
+    start(when = 0): void {
+        if (this.startFrame !== null) {
+            throw invalidState('start() can only be called once');
+        }
+        this.startFrame = Math.round(Math.max(0, when) * this.context.sampleRate);
+        this.context.graphChanged();
+    }
+
+    stop(when = 0): void {
+        if (this.startFrame === null) {
+            throw invalidState('stop() called before start()');
+        }
+        this.stopFrame = Math.round(Math.max(0, when) * this.context.sampleRate);
+        this.context.graphChanged();
+    }
+
+    protected override activeFrom(from: number): number {
+        if (this.startFrame === null || this.ended) return Infinity;
+        const end = this.endFrame();
+        if (from >= end || end <= this.startFrame) return Infinity;
+        return Math.max(from, this.startFrame);
+    }
+
+    protected process(frame: number): Block | null {
+        if (this.startFrame === null || frame + QUANTUM <= this.startFrame) return null;
+
+        const end = this.endFrame();
+        if (frame >= end) {
+            this.end();
+            return null;
+        }
+
+        const from = Math.max(0, this.startFrame - frame);
+        const to = Math.min(QUANTUM, end - frame);
+        const block = this.render(frame, from, to);
+        for (const channel of block) {
+            channel.fill(0, 0, from);
+            channel.fill(0, to);
+        }
+
+        if (frame + QUANTUM >= this.endFrame()) {
+            this.end();
+        }
+        return block;
+    }
+
+    /** Frame at which the source stops playing */
+    protected endFrame(): number {
+        return this.stopFrame;
+    }
+
+    /** Render frames [from, to) of the quantum starting at `frame` */
+    protected abstract render(frame: number, from: number, to: number): Block;
+
+    private end(): void {
+        if (this.ended) return;
+        this.ended = true;
+        this.context.queueEnded(() => this.onended?.call(this, new Event('ended')));
+    }
+}
+
+/** Polynomial band-limited step, removing most aliasing at a discontinuity */
+function polyBlep(phase: number, step: number): number {
+    if (phase < step) {
+        const t = phase / step;
+        return t + t - t * t - 1;
+    }
+    if (phase > 1 - step) {
+        const t = (phase - 1) / step;
+        return t * t + t + t + 1;
+    }
+    return 0;
+}
+
+/**
+ * Periodic waveforms with the same phase as Web Audio's built-in types.
+ */
+export class DspOscillatorNode extends DspScheduledSourceNode {
+    readonly frequency: DspAudioParam;
+    readonly detune: DspAudioParam;
+    private waveType: OscillatorType = 'sine';
+    /** Phase in cycles, in [0, 1) */
+    private phase = 0;
+    private nextFrame: number | null = null;
+
+    constructor(context: DspOfflineAudioContext) {
+        super(context);
+        const nyquist = context.sampleRate / 2;
+        this.frequency = context.createParam({ defaultValue: 440, minValue: -nyquist, maxValue: nyquist });
+        this.detune = context.createParam({ defaultValue: 0 });
+    }
+
+    get type(): OscillatorType {
+        return this.waveType;
+    }
+
+    set type(type: OscillatorType) {
+        if (type === 'custom') {
+            throw invalidState("Use setPeriodicWave() for 'custom' oscillators");
+        }
+        this.waveType = type;
+    }
+
+    setPeriodicWave(): void {
+        throw new DOMException('Periodic waves are not supported by the DSP renderer', 'NotSupportedError');
+    }
+
+    protected render(frame: number, from: number, to: number): Block {
+        const [out] = this.output(1);
+        const sampleRate = this.context.sampleRate;
+        const frequency = this.pullParam(this.frequency, frame);
+        const detune = this.pullParam(this.detune, frame);
+
+        // Catch up on quanta skipped while nothing downstream was listening
+        if (this.nextFrame !== null && frame > this.nextFrame) {
+            this.phase = this.wrap(this.phase + ((frame - this.nextFrame) * valueAt(frequency, 0)) / sampleRate);
+        }
+        this.nextFrame = frame + QUANTUM;
+
+        for (let i = from; i < to; i++) {
+            let hz = valueAt(frequency, i);
+            const cents = valueAt(detune, i);
+            if (cents !== 0) hz *= Math.pow(2, cents / 1200);
+
+            const step = hz / sampleRate;
+            out[i] = this.sample(this.phase, Math.min(Math.abs(step), 0.5));
+            this.phase = this.wrap(this.phase + step);
+        }
+
+        return [out];
+    }
+
+    private wrap(phase: number): number {
+        return phase - Math.floor(phase);
+    }
+
+    private sample(phase: number, step: number): number {
+        switch (this.waveType) {
+            case 'square': {
+                let value = phase < 0.5 ? 1 : -1;
+                value += polyBlep(phase, step);
+                value -= polyBlep(this.wrap(phase + 0.5), step);
+                return value;
+            }
+            case 'sawtooth': {
+                const shifted = this.wrap(phase + 0.5);
+                return 2 * shifted - 1 - polyBlep(shifted, step);
+            }
+            case 'triangle':
+                return phase < 0.25 ? 4 * phase : phase < 0.75 ? 2 - 4 * phase : 4 * phase - 4;
+            default:
+                return Math.sin(2 * Math.PI * phase);
+        }
+    }
+}
+
+/**
+ * Plays an audio buffer, with playback rate and looping.
+ */
+export class DspAudioBufferSourceNode extends DspScheduledSourceNode {
+    readonly playbackRate: DspAudioParam;
+    readonly detune: DspAudioParam;
+    loop = false;
+    loopStart = 0;
+    loopEnd = 0;
+    private source: DspAudioBuffer | null = null;
+    /** Read position in buffer frames */
+    private position = 0;
+    private durationFrames = Infinity;
+    /** Frame at which the buffer ran out */
+    private exhaustedFrame = Infinity;
+
+    constructor(context: DspOfflineAudioContext) {
+        super(context);
+        this.playbackRate = context.createParam({ defaultValue: 1 });
+        this.detune = context.createParam({ defaultValue: 0 });
+    }
+
+    get buffer(): DspAudioBuffer | null {
+        return this.source;
+    }
+
+    set buffer(buffer: DspAudioBuffer | null) {
+        if (this.source) {
+            throw invalidState('The buffer can only be set once');
+        }
+        this.source = buffer;
+        this.context.graphChanged();
+    }
+
+    override start(when = 0, offset = 0, duration?: number): void {
+        super.start(when);
+        this.position = Math.max(0, offset) * (this.source?.sampleRate ?? this.context.sampleRate);
+        if (duration !== undefined) {
+            this.durationFrames = Math.round(Math.max(0, duration) * this.context.sampleRate);
+        }
+    }
+
+    protected override endFrame(): number {
+        if (!this.source || this.startFrame === null) return this.stopFrame;
+        return Math.min(this.stopFrame, this.startFrame + this.durationFrames, this.exhaustedFrame);
+    }
+
+    protected render(frame: number, from: number, to: number): Block {
+        const buffer = this.source;
+        if (!buffer) {
+            const out = this.output(1);
+            out[0].fill(0);
+            return out;
+        }
+
+        const channels = buffer.numberOfChannels;
+        const out = this.output(channels);
+        const data = Array.from({ length: channels }, (_, c) => buffer.getChannelData(c));
+        const rate = this.pullParam(this.playbackRate, frame);
+        const detune = this.pullParam(this.detune, frame);
+        const ratio = buffer.sampleRate / this.context.sampleRate;
+
+        const loopStart = this.loop ? this.loopStart * buffer.sampleRate : 0;
+        const loopEnd = this.loop && this.loopEnd > this.loopStart ? this.loopEnd * buffer.sampleRate : buffer.length;
+
+        for (let i = from; i < to; i++) {
+            if (this.loop && this.position >= loopEnd) {
+                this.position = loopStart + ((this.position - loopStart) % (loopEnd - loopStart));
+            }
+            if (!this.loop && (this.position >= buffer.length || this.position < 0)) {
+                this.exhaustedFrame = frame + i;
+                for (let c = 0; c < channels; c++) out[c].fill(0, i, to);
+                break;
+            }
+
+            const index = Math.floor(this.position);
+            const fraction = this.position - index;
+            const nextIndex = index + 1 < buffer.length ? index + 1 : this.loop ? Math.floor(loopStart) : index;
+            for (let c = 0; c < channels; c++) {
+                const samples = data[c];
+                out[c][i] = samples[index] + (samples[nextIndex] - samples[index]) * fraction;
+            }
+
+            const cents = valueAt(detune, i);
+            const speed = valueAt(rate, i) * (cents !== 0 ? Math.pow(2, cents / 1200) : 1);
+            this.position += speed * ratio;
+        }
+
+        return out;
+    }
+}
+
+/**
+ * Multiplies its input by `gain`.
+ */
+export class DspGainNode extends DspNode {
+    readonly gain: DspAudioParam;
+
+    constructor(context: DspOfflineAudioContext) {
+        super(context);
+        this.gain = context.createParam({ defaultValue: 1 });
+    }
+
+    protected process(frame: number): Block | null {
+        const input = this.pullInputs(frame);
+        if (!input) return null;
+
+        const gain = this.pullParam(this.gain, frame);
+        if (gain === 1) return input;
+
+        const out = this.output(input.length);
+        for (let c = 0; c < input.length; c++) {
+            const source = input[c];
+            const target = out[c];
+            if (typeof gain === 'number') {
+                for (let i = 0; i < QUANTUM; i++) target[i] = source[i] * gain;
+            } else {
+                for (let i = 0; i < QUANTUM; i++) target[i] = source[i] * gain[i];
+            }
+        }
+        return out;
+    }
+}
+
+/** Biquad coefficients, normalized by a0 */
+interface Coefficients {
+    b0: number;
+    b1: number;
+    b2: number;
+    a1: number;
+    a2: number;
+}
+
+/**
+ * Second-order filter using the Web Audio formulas for each type.
+ * Coefficients are updated once per quantum.
+ */
+export class DspBiquadFilterNode extends DspNode {
+    readonly frequency: DspAudioParam;
+    readonly detune: DspAudioParam;
+    readonly Q: DspAudioParam;
+    readonly gain: DspAudioParam;
+    type: BiquadFilterType = 'lowpass';
+    /** Per channel: x[n-1], x[n-2], y[n-1], y[n-2] */
+    private state: Float64Array[] = [];
+    private ringing = false;
+
+    constructor(context: DspOfflineAudioContext) {
+        super(context);
+        const nyquist = context.sampleRate / 2;
+        this.frequency = context.createParam({ defaultValue: 350, minValue: 0, maxValue: nyquist });
+        this.detune = context.createParam({ defaultValue: 0 });
+        this.Q = context.createParam({ defaultValue: 1 });
+        this.gain = context.createParam({ defaultValue: 0 });
+    }
+
+    protected override hasTail(): boolean {
+        return this.ringing;
+    }
+
+    protected process(frame: number): Block | null {
+        const input = this.pullInputs(frame);
+        if (!input && !this.ringing) return null;
+
+        const frequency = this.pullParamValue(this.frequency, frame);
+        const detune = this.pullParamValue(this.detune, frame);
+        const q = this.pullParamValue(this.Q, frame);
+        const gain = this.pullParamValue(this.gain, frame);
+        const { b0, b1, b2, a1, a2 } = this.coefficients(frequency * Math.pow(2, detune / 1200), q, gain);
+
+        const channels = input ? input.length : this.state.length;
+        while (this.state.length < channels) {
+            // A newly up-mixed channel starts from the first channel's state
+            this.state.push(this.state[0] ? Float64Array.from(this.state[0]) : new Float64Array(4));
+        }
+
+        const out = this.output(channels);
+        let level = 0;
+
+        for (let c = 0; c < channels; c++) {
+            const source = input?.[c];
+            const target = out[c];
+            const s = this.state[c];
+            let [x1, x2, y1, y2] = s;
+
+            for (let i = 0; i < QUANTUM; i++) {
+                const x = source ? source[i] : 0;
+                const y = b0 * x + b1 * x1 + b2 * x2 - a1 * y1 - a2 * y2;
+                x2 = x1;
+                x1 = x;
+                y2 = y1;
+                y1 = y;
+                target[i] = y;
+            }
+
+            s[0] = x1; s[1] = x2; s[2] = y1; s[3] = y2;
+            level = Math.max(level, Math.abs(x1), Math.abs(x2), Math.abs(y1), Math.abs(y2));
+        }
+
+        this.ringing = level > SILENCE;
+        if (!this.ringing) {
+            this.state.forEach((s) => s.fill(0));
+        }
+        return out;
+    }
+
+    private coefficients(frequency: number, Q: number, gain: number): Coefficients {
+        const nyquist = this.context.sampleRate / 2;
+        // Keep w0 inside (0, pi), where every formula is defined
+        const w0 = Math.PI * clamp(frequency / nyquist, 1e-6, 1 - 1e-6);
+        const cos = Math.cos(w0);
+        const sin = Math.sin(w0);
+        const A = Math.pow(10, gain / 40);
+        const alphaQ = sin / (2 * Math.max(Q, 1e-4));
+        const alphaQdB = sin / (2 * Math.pow(10, Q / 20));
+        const alphaS = (sin / 2) * Math.SQRT2;
+
+        let b0: number, b1: number, b2: number, a0: number, a1: number, a2: number;
+
+        switch (this.type) {
+            case 'highpass':
+                b0 = (1 + cos) / 2; b1 = -(1 + cos); b2 = (1 + cos) / 2;
+                a0 = 1 + alphaQdB; a1 = -2 * cos; a2 = 1 - alphaQdB;
+                break;
+            case 'bandpass':
+                b0 = alphaQ; b1 = 0; b2 = -alphaQ;
+                a0 = 1 + alphaQ; a1 = -2 * cos; a2 = 1 - alphaQ;
+                break;
+            case 'lowshelf': {
+                const k = 2 * Math.sqrt(A) * alphaS;
+                b0 = A * ((A + 1) - (A - 1) * cos + k);
+                b1 = 2 * A * ((A - 1) - (A + 1) * cos);
+                b2 = A * ((A + 1) - (A - 1) * cos - k);
+                a0 = (A + 1) + (A - 1) * cos + k;
+                a1 = -2 * ((A - 1) + (A + 1) * cos);
+                a2 = (A + 1) + (A - 1) * cos - k;
+                break;
+            }
+            case 'highshelf': {
+                const k = 2 * Math.sqrt(A) * alphaS;
+                b0 = A * ((A + 1) + (A - 1) * cos + k);
+                b1 = -2 * A * ((A - 1) + (A + 1) * cos);
+                b2 = A * ((A + 1) + (A - 1) * cos - k);
+                a0 = (A + 1) - (A - 1) * cos + k;
+                a1 = 2 * ((A - 1) - (A + 1) * cos);
+                a2 = (A + 1) - (A - 1) * cos - k;
+                break;
+            }
+            case 'peaking':
+                b0 = 1 + alphaQ * A; b1 = -2 * cos; b2 = 1 - alphaQ * A;
+                a0 = 1 + alphaQ / A; a1 = -2 * cos; a2 = 1 - alphaQ / A;
+                break;
+            case 'notch':
+                b0 = 1; b1 = -2 * cos; b2 = 1;
+                a0 = 1 + alphaQ; a1 = -2 * cos; a2 = 1 - alphaQ;
+                break;
+            case 'allpass':
+                b0 = 1 - alphaQ; b1 = -2 * cos; b2 = 1 + alphaQ;
+                a0 = 1 + alphaQ; a1 = -2 * cos; a2 = 1 - alphaQ;
+                break;
+            default:
+                b0 = (1 - cos) / 2; b1 = 1 - cos; b2 = (1 - cos) / 2;
+                a0 = 1 + alphaQdB; a1 = -2 * cos; a2 = 1 - alphaQdB;
+        }
+
+        return { b0: b0 / a0, b1: b1 / a0, b2: b2 / a0, a1: a1 / a0, a2: a2 / a0 };
+    }
+}
+
+/**
+ * Delay line. Its input is written after each quantum is rendered, which is
+ * what lets it sit inside a feedback loop; as in Web Audio, delays in a loop
+ * are at least one quantum long, and here that applies to every delay.
+ */
+export class DspDelayNode extends DspNode {
+    readonly delayTime: DspAudioParam;
+    private size: number;
+    private lines: Float32Array[] = [];
+    /** Frames written since the last non-silent input */
+    private silentFrames = Infinity;
+
+    constructor(context: DspOfflineAudioContext, maxDelayTime = 1) {
+        super(context);
+        if (!(maxDelayTime > 0) || maxDelayTime >= 180) {
+            throw new DOMException(`Invalid maxDelayTime: ${maxDelayTime}`, 'NotSupportedError');
+        }
+        this.delayTime = context.createParam({ defaultValue: 0, minValue: 0, maxValue: maxDelayTime });
+        this.size = Math.ceil(maxDelayTime * context.sampleRate) + 2 * QUANTUM;
+    }
+
+    protected override hasTail(): boolean {
+        return this.silentFrames < this.size;
+    }
+
+    /**
+     * Input is heard a quantum after it arrives at the earliest, and the
+     * quantum just rendered is still to be written, so look one quantum back.
+     */
+    protected override activeFrom(from: number, visited: Set<DspNode>): number {
+        if (this.hasTail()) return from;
+        return Math.max(from, super.activeFrom(from - QUANTUM, visited) + QUANTUM);
+    }
+
+    protected process(frame: number): Block | null {
+        if (!this.hasTail()) return null;
+
+        const delayTime = this.pullParam(this.delayTime, frame);
+        const out = this.output(this.lines.length);
+        const sampleRate = this.context.sampleRate;
+        const maxDelay = this.size - QUANTUM - 1;
+
+        for (let i = 0; i < QUANTUM; i++) {
+            const delay = clamp(valueAt(delayTime, i) * sampleRate, QUANTUM, maxDelay);
+            const position = frame + i - delay;
+            const index = Math.floor(position);
+            const fraction = position - index;
+
+            for (let c = 0; c < this.lines.length; c++) {
+                const line = this.lines[c];
+                const a = index >= 0 ? line[index % this.size] : 0;
+                const b = index + 1 >= 0 ? line[(index + 1) % this.size] : 0;
+                out[c][i] = a + (b - a) * fraction;
+            }
+        }
+        return out;
+    }
+
+    /**
+     * Write this quantum's input into the line, once every node has rendered it.
+     */
+    commit(frame: number): void {
+        const input = this.pullInputs(frame);
+        // Near-silent input counts as silence, so feedback loops die out
+        if (input && !isSilent(input)) {
+            this.write(frame, input);
+        } else if (this.hasTail()) {
+            const start = frame % this.size;
+            for (const line of this.lines) {
+                for (let i = 0; i < QUANTUM; i++) line[(start + i) % this.size] = 0;
+            }
+            this.silentFrames += QUANTUM;
+        }
+    }
+
+    private write(frame: number, input: Block): void {
+        while (this.lines.length < input.length) {
+            this.lines.push(this.lines[0] ? Float32Array.from(this.lines[0]) : new Float32Array(this.size));
+        }
+
+        const start = frame % this.size;
+        for (let c = 0; c < this.lines.length; c++) {
+            const source = input.length === 1 ? input[0] : input[c];
+            const line = this.lines[c];
+            for (let i = 0; i < QUANTUM; i++) line[(start + i) % this.size] = source[i];
+        }
+        this.silentFrames = 0;
+    }
+}
+
+/**
+ * Equal-power stereo panner, following the Web Audio panning formulas.
+ */
+export class DspStereoPannerNode extends DspNode {
+    readonly pan: DspAudioParam;
+
+    constructor(context: DspOfflineAudioContext) {
+        super(context);
+        this.pan = context.createParam({ defaultValue: 0, minValue: -1, maxValue: 1 });
+    }
+
+    protected process(frame: number): Block | null {
+        const input = this.pullInputs(frame);
+        if (!input) return null;
+
+        const pan = this.pullParam(this.pan, frame);
+        const [left, right] = this.output(2);
+        const inLeft = input[0];
+        const inRight = input.length > 1 ? input[1] : null;
+
+        for (let i = 0; i < QUANTUM; i++) {
+            const p = valueAt(pan, i);
+
+            if (!inRight) {
+                const x = ((p + 1) / 2) * (Math.PI / 2);
+                left[i] = inLeft[i] * Math.cos(x);
+                right[i] = inLeft[i] * Math.sin(x);
+            } else if (p <= 0) {
+                const x = (p + 1) * (Math.PI / 2);
+                left[i] = inLeft[i] + inRight[i] * Math.cos(x);
+                right[i] = inRight[i] * Math.sin(x);
+            } else {
+                const x = p * (Math.PI / 2);
+                left[i] = inLeft[i] * Math.cos(x);
+                right[i] = inRight[i] + inLeft[i] * Math.sin(x);
+            }
+        }
+        return [left, right];
+    }
+}
+
+/** Look-ahead of the compressor's detector, as in browsers */
+const COMPRESSOR_LOOKAHEAD = 0.006;
+
+/**
+ * Static compression curve in dB, with a soft knee centred on the threshold.
+ */
+function compressorCurve(level: number, threshold: number, knee: number, ratio: number): number {
+    const over = level - threshold;
+    if (2 * over < -knee) return level;
+    if (knee > 0 && 2 * Math.abs(over) <= knee) {
+        return level + ((1 / ratio - 1) * (over + knee / 2) ** 2) / (2 * knee);
+    }
+    return threshold + over / ratio;
+}
+
+/**
+ * Compressor following the Web Audio model: a peak detector with attack and
+ * release smoothing of the gain reduction, a short look-ahead, and makeup
+ * gain of 0.6 times the reduction at full scale. Params are read once per quantum.
+ */
+export class DspDynamicsCompressorNode extends DspNode {
+    readonly threshold: DspAudioParam;
+    readonly knee: DspAudioParam;
+    readonly ratio: DspAudioParam;
+    readonly attack: DspAudioParam;
+    readonly release: DspAudioParam;
+    /** Gain reduction in dB (0 or negative) */
+    private envelope = 0;
+    /** Look-ahead delay lines, per channel */
+    private lines: Float32Array[] = [];
+    private position = 0;
+    private lookahead: number;
+    private silentFrames = Infinity;
+
+    constructor(context: DspOfflineAudioContext) {
+        super(context);
+        this.threshold = context.createParam({ defaultValue: -24, minValue: -100, maxValue: 0 });
+        this.knee = context.createParam({ defaultValue: 30, minValue: 0, maxValue: 40 });
+        this.ratio = context.createParam({ defaultValue: 12, minValue: 1, maxValue: 20 });
+        this.attack = context.createParam({ defaultValue: 0.003, minValue: 0, maxValue: 1 });
+        this.release = context.createParam({ defaultValue: 0.25, minValue: 0, maxValue: 1 });
+        this.lookahead = Math.max(1, Math.round(COMPRESSOR_LOOKAHEAD * context.sampleRate));
+    }
+
+    /** Current gain reduction in dB, for metering */
+    get reduction(): number {
+        return this.envelope;
+    }
+
+    protected override hasTail(): boolean {
+        return this.silentFrames < this.lookahead;
+    }
+
+    protected process(frame: number): Block | null {
+        const input = this.pullInputs(frame);
+        if (!input && !this.hasTail()) return null;
+
+        const sampleRate = this.context.sampleRate;
+        const threshold = this.pullParamValue(this.threshold, frame);
+        const knee = this.pullParamValue(this.knee, frame);
+        const ratio = this.pullParamValue(this.ratio, frame);
+        const attack = this.pullParamValue(this.attack, frame);
+        const release = this.pullParamValue(this.release, frame);
+        const attackCoefficient = attack > 0 ? Math.exp(-1 / (attack * sampleRate)) : 0;
+        const releaseCoefficient = release > 0 ? Math.exp(-1 / (release * sampleRate)) : 0;
+        const makeup = -0.6 * compressorCurve(0, threshold, knee, ratio);
+
+        const channels = input ? input.length : this.lines.length;
+        while (this.lines.length < channels) {
+            this.lines.push(this.lines[0] ? Float32Array.from(this.lines[0]) : new Float32Array(this.lookahead));
+        }
+
+        const out = this.output(channels);
+        let envelope = this.envelope;
+        let position = this.position;
+        let gainDb = NaN;
+        let gain = 1;
+
+        for (let i = 0; i < QUANTUM; i++) {
+            let level = 0;
+            if (input) {
+                for (let c = 0; c < channels; c++) level = Math.max(level, Math.abs(input[c][i]));
+            }
+
+            const levelDb = 20 * Math.log10(level);
+            const target = level > SILENCE ? compressorCurve(levelDb, threshold, knee, ratio) - levelDb : 0;
+            envelope = target + (envelope - target) * (target < envelope ? attackCoefficient : releaseCoefficient);
+
+            if (envelope + makeup !== gainDb) {
+                gainDb = envelope + makeup;
+                gain = Math.pow(10, gainDb / 20);
+            }
+
+            for (let c = 0; c < channels; c++) {
+                const line = this.lines[c];
+                out[c][i] = line[position] * gain;
+                line[position] = input ? input[c][i] : 0;
+            }
+            position = (position + 1) % this.lookahead;
+        }
+
+        this.envelope = envelope;
+        this.position = position;
+        this.silentFrames = input ? 0 : this.silentFrames + QUANTUM;
+        return out;
+    }
+}
+
+/**
+ * Convolution with an impulse response, normalized as in Web Audio.
+ * Output is stereo: a stereo response convolves each input channel with
+ * its own response channel.
+ */
+export class DspConvolverNode extends DspNode {
+    normalize = true;
+    private response: DspAudioBuffer | null = null;
+    private convolver: PartitionedConvolver | null = null;
+    private silentFrames = Infinity;
+
+    get buffer(): DspAudioBuffer | null {
+        return this.response;
+    }
+
+    set buffer(buffer: DspAudioBuffer | null) {
+        this.response = buffer;
+        this.convolver = null;
+
+        if (buffer) {
+            if (buffer.sampleRate !== this.context.sampleRate) {
+                throw new DOMException('The impulse response must match the context sample rate', 'NotSupportedError');
+            }
+            const scale = this.normalize ? normalizationScale(buffer) : 1;
+            const [left, right] = [0, 1].map((c) => {
+                const source = buffer.getChannelData(Math.min(c, buffer.numberOfChannels - 1));
+                return source.map((sample) => sample * scale);
+            });
+            this.convolver = new PartitionedConvolver(left, right);
+        }
+        this.context.graphChanged();
+    }
+
+    protected override hasTail(): boolean {
+        return this.convolver !== null && this.silentFrames < this.convolver.tail;
+    }
+
+    protected process(frame: number): Block | null {
+        const input = this.pullInputs(frame);
+        if (!this.convolver || (!input && !this.hasTail())) return null;
+
+        const [left, right] = this.output(2);
+        this.convolver.process(input?.[0] ?? null, input?.[input.length - 1] ?? null, frame, [left, right]);
+
+        this.silentFrames = input ? 0 : this.silentFrames + QUANTUM;
+        return [left, right];
+    }
+}
+
+/**
+ * Scale applied to a normalized impulse response (the Web Audio algorithm).
+ */
+function normalizationScale(buffer: DspAudioBuffer): number {
+    const GAIN_CALIBRATION = 0.00125;
+    const GAIN_CALIBRATION_SAMPLE_RATE = 44100;
+    const MIN_POWER = 0.000125;
+
+    let power = 0;
+    for (let c = 0; c < buffer.numberOfChannels; c++) {
+        const data = buffer.getChannelData(c);
+        for (let i = 0; i < data.length; i++) power += data[i] * data[i];
+    }
+    power = Math.sqrt(power / (buffer.numberOfChannels * buffer.length));
+    if (!Number.isFinite(power) || power < MIN_POWER) power = MIN_POWER;
+
+    let scale = (1 / power) * GAIN_CALIBRATION * (GAIN_CALIBRATION_SAMPLE_RATE / buffer.sampleRate);
+    if (buffer.numberOfChannels === 4) scale *= 0.5;
+    return scale;
+}
+
+/**
+ * The context's output, mixed to its channel count.
+ */
+export class DspDestinationNode extends DspNode {
+    override readonly numberOfOutputs = 0;
+    readonly maxChannelCount: number;
+
+    constructor(context: DspOfflineAudioContext, channels: number) {
+        super(context);
+        this.channelCount = channels;
+        this.maxChannelCount = channels;
+    }
+
+    protected process(frame: number): Block | null {
+        const input = this.pullInputs(frame);
+        if (!input || input.length === this.channelCount) return input;
+
+        const out = this.output(this.channelCount);
+        if (this.channelCount === 1) {
+            // Stereo down-mix
+            const [left, right] = input;
+            for (let i = 0; i < QUANTUM; i++) out[0][i] = 0.5 * (left[i] + right[i]);
+        } else {
+            for (let c = 0; c < this.channelCount; c++) {
+                out[c].set(input.length === 1 ? input[0] : input[c] ?? new Float32Array(QUANTUM));
+            }
+        }
+        return out;
+    }
+}
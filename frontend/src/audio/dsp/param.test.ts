@@ -0,0 +1,109 @@
+/**
+ * Unit tests for DSP renderer param automation.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { DspAudioParam } from './param';
+import { QUANTUM } from './buffer';
+
+const SAMPLE_RATE = 1000;
+
+/** Value of a param at one frame */
+function valueAt(param: DspAudioParam, frame: number): number {
+    const quantumStart = Math.floor(frame / QUANTUM) * QUANTUM;
+    const values = param.getValues(quantumStart, null);
+    return typeof values === 'number' ? values : values[frame - quantumStart];
+}
+
+describe('DspAudioParam', () => {
+    it('starts at its default value', () => {
+        const param = new DspAudioParam(SAMPLE_RATE, { defaultValue: 0.5 });
+
+        expect(param.value).toBe(0.5);
+        expect(param.getValues(0, null)).toBe(0.5);
+    });
+
+    it('returns the value set directly while nothing is scheduled', () => {
+        const param = new DspAudioParam(SAMPLE_RATE, { defaultValue: 1 });
+        param.value = 0.25;
+
+        expect(param.getValues(0, null)).toBe(0.25);
+    });
+
+    it('steps to values set at a time', () => {
+        const param = new DspAudioParam(SAMPLE_RATE, { defaultValue: 0 });
+        param.setValueAtTime(1, 0.1);
+
+        expect(valueAt(param, 99)).toBe(0);
+        expect(valueAt(param, 100)).toBe(1);
+    });
+
+    it('ramps linearly from the previous event', () => {
+        const param = new DspAudioParam(SAMPLE_RATE, { defaultValue: 0 });
+        param.setValueAtTime(0, 0);
+        param.linearRampToValueAtTime(1, 0.2);
+
+        expect(valueAt(param, 50)).toBeCloseTo(0.25);
+        expect(valueAt(param, 100)).toBeCloseTo(0.5);
+        expect(valueAt(param, 300)).toBe(1);
+    });
+
+    it('ramps exponentially between non-zero values', () => {
+        const param = new DspAudioParam(SAMPLE_RATE, { defaultValue: 1 });
+        param.setValueAtTime(1, 0);
+        param.exponentialRampToValueAtTime(4, 0.2);
+
+        expect(valueAt(param, 100)).toBeCloseTo(2);
+    });
+
+    it('rejects an exponential ramp to zero', () => {
+        const param = new DspAudioParam(SAMPLE_RATE, { defaultValue: 1 });
+
+        expect(() => param.exponentialRampToValueAtTime(0, 1)).toThrow(RangeError);
+    });
+
+    it('approaches a target with the given time constant', () => {
+        const param = new DspAudioParam(SAMPLE_RATE, { defaultValue: 1 });
+        param.setTargetAtTime(0, 0, 0.1);
+
+        expect(valueAt(param, 100)).toBeCloseTo(Math.exp(-1), 5);
+    });
+
+    it('follows a value curve', () => {
+        const param = new DspAudioParam(SAMPLE_RATE, { defaultValue: 0 });
+        param.setValueCurveAtTime([0, 1, 0], 0, 0.2);
+
+        expect(valueAt(param, 100)).toBeCloseTo(1);
+        expect(valueAt(param, 150)).toBeCloseTo(0.5);
+        expect(valueAt(param, 250)).toBe(0);
+    });
+
+    it('holds the current value when cancelling', () => {
+        const param = new DspAudioParam(SAMPLE_RATE, { defaultValue: 0 });
+        param.setValueAtTime(0, 0);
+        param.linearRampToValueAtTime(1, 0.2);
+        param.cancelAndHoldAtTime(0.1);
+
+        expect(valueAt(param, 300)).toBeCloseTo(0.5);
+    });
+
+    it('adds audio-rate inputs and clamps to its range', () => {
+        const param = new DspAudioParam(SAMPLE_RATE, { defaultValue: 0.5, minValue: 0, maxValue: 1 });
+        const input = new Float32Array(QUANTUM).fill(0.25);
+        input[0] = 2;
+
+        const values = param.getValues(0, [input]) as Float32Array;
+
+        expect(values[0]).toBe(1);
+        expect(values[1]).toBe(0.75);
+    });
+
+    it('evaluates correctly when rendering starts over', () => {
+        const param = new DspAudioParam(SAMPLE_RATE, { defaultValue: 0 });
+        param.setValueAtTime(0, 0);
+        param.linearRampToValueAtTime(1, 1);
+
+        valueAt(param, 900);
+        expect(valueAt(param, 100)).toBeCloseTo(0.1);
+    });
+});
@@ -0,0 +1,287 @@
+/**
+ * AudioParam automation for the DSP renderer.
+ * Follows the Web Audio timeline rules: events are ordered by time, ramps
+ * run from the previous event to their own time, and audio-rate inputs are
+ * added on top of the automated value.
+ */
+
+import type { DspNode } from './nodes';
+import { QUANTUM } from './buffer';
+
+type AutomationEvent =
+    | { type: 'set'; time: number; value: number }
+    | { type: 'linear'; time: number; value: number }
+    | { type: 'exponential'; time: number; value: number }
+    | { type: 'target'; time: number; value: number; timeConstant: number }
+    | { type: 'curve'; time: number; values: Float32Array; duration: number };
+
+export interface DspParamOptions {
+    defaultValue: number;
+    minValue?: number;
+    maxValue?: number;
+}
+
+/** Last value set by an event other than a target approach */
+function finalValue(event: Exclude<AutomationEvent, { type: 'target' }>): number {
+    return event.type === 'curve' ? event.values[event.values.length - 1] : event.value;
+}
+
+export class DspAudioParam {
+    readonly defaultValue: number;
+    readonly minValue: number;
+    readonly maxValue: number;
+    automationRate: AutomationRate = 'a-rate';
+
+    /** Audio-rate inputs, summed into the value */
+    readonly inputs: DspNode[] = [];
+    /** Mix buffers for the inputs */
+    readonly mixBlock: Float32Array[] = [];
+
+    private intrinsic: number;
+    private current: number;
+    private events: AutomationEvent[] = [];
+    /** Index of the first event after the last evaluated time */
+    private cursor = 0;
+    private lastTime = -Infinity;
+    private values = new Float32Array(QUANTUM);
+    private sampleRate: number;
+
+    constructor(sampleRate: number, { defaultValue, minValue = -3.4028234663852886e38, maxValue = 3.4028234663852886e38 }: DspParamOptions) {
+        this.sampleRate = sampleRate;
+        this.defaultValue = defaultValue;
+        this.minValue = minValue;
+        this.maxValue = maxValue;
+        this.intrinsic = defaultValue;
+        this.current = defaultValue;
+    }
+
+    /** The value last computed, or set directly */
+    get value(): number {
+        return this.current;
+    }
+
+    set value(value: number) {
+        this.intrinsic = value;
+        this.current = value;
+    }
+
+    setValueAtTime(value: number, startTime: number): this {
+        return this.insert({ type: 'set', time: startTime, value });
+    }
+
+    linearRampToValueAtTime(value: number, endTime: number): this {
+        return this.insert({ type: 'linear', time: endTime, value });
+    }
+
+    exponentialRampToValueAtTime(value: number, endTime: number): this {
+        if (value === 0) {
+            throw new RangeError('exponentialRampToValueAtTime value must not be 0');
+        }
+        return this.insert({ type: 'exponential', time: endTime, value });
+    }
+
+    setTargetAtTime(target: number, startTime: number, timeConstant: number): this {
+        return this.insert({ type: 'target', time: startTime, value: target, timeConstant });
+    }
+
+    setValueCurveAtTime(values: Iterable<number>, startTime: number, duration: number): this {
+        const curve = Float32Array.from(values);
+        if (curve.length < 2) {
+            throw new RangeError('setValueCurveAtTime needs at least 2 values');
+        }
+        return this.insert({ type: 'curve', time: startTime, values: curve, duration });
+    }
+
+    cancelScheduledValues(cancelTime: number): this {
+        this.events = this.events.filter((event) => event.time < cancelTime);
+        this.resetCursor();
+        return this;
+    }
+
+    cancelAndHoldAtTime(cancelTime: number): this {
+        const held = this.valueAt(cancelTime);
+        this.cancelScheduledValues(cancelTime);
+        return this.setValueAtTime(held, cancelTime);
+    }
+
+    /**
+     * Values for one render quantum starting at `frame`: a constant when the
+     * param doesn't change within the quantum, otherwise one value per frame.
+     * Audio-rate inputs must be pulled by the owning node beforehand.
+     */
+    getValues(frame: number, inputs: Float32Array[] | null): number | Float32Array {
+        const start = frame / this.sampleRate;
+        const constant = this.isConstantBetween(start, (frame + QUANTUM) / this.sampleRate);
+
+        if (constant && !inputs) {
+            this.current = this.clamp(this.valueAt(start));
+            return this.current;
+        }
+
+        const values = this.values;
+        if (constant) {
+            values.fill(this.valueAt(start));
+        } else {
+            for (let i = 0; i < QUANTUM; i++) {
+                values[i] = this.valueAt((frame + i) / this.sampleRate);
+            }
+        }
+
+        if (inputs) {
+            // Inputs are down-mixed to mono
+            const scale = 1 / inputs.length;
+            for (const channel of inputs) {
+                for (let i = 0; i < QUANTUM; i++) {
+                    values[i] += channel[i] * scale;
+                }
+            }
+        }
+
+        for (let i = 0; i < QUANTUM; i++) {
+            values[i] = this.clamp(values[i]);
+        }
+        this.current = values[QUANTUM - 1];
+        return values;
+    }
+
+    /**
+     * Value at the start of the quantum at `frame`, for params read once per quantum.
+     */
+    getValue(frame: number, inputs: Float32Array[] | null): number {
+        let value = this.valueAt(frame / this.sampleRate);
+        if (inputs) {
+            for (const channel of inputs) {
+                value += channel[0] / inputs.length;
+            }
+        }
+        this.current = this.clamp(value);
+        return this.current;
+    }
+
+    private clamp(value: number): number {
+        return value < this.minValue ? this.minValue : value > this.maxValue ? this.maxValue : value;
+    }
+
+    private insert(event: AutomationEvent): this {
+        if (!Number.isFinite(event.time) || event.time < 0) {
+            throw new RangeError(`Invalid automation time: ${event.time}`);
+        }
+
+        // Events at the same time keep their insertion order
+        let index = this.events.length;
+        while (index > 0 && this.events[index - 1].time > event.time) {
+            index--;
+        }
+        this.events.splice(index, 0, event);
+        this.resetCursor();
+        return this;
+    }
+
+    private resetCursor(): void {
+        this.cursor = 0;
+        this.lastTime = -Infinity;
+    }
+
+    /**
+     * Whether automation holds one value over [start, end).
+     */
+    private isConstantBetween(start: number, end: number): boolean {
+        const events = this.events;
+        if (events.length === 0) return true;
+
+        const last = events[events.length - 1];
+        if (start >= last.time && last.type !== 'target' && last.type !== 'curve') return true;
+        if (last.type === 'curve' && start >= last.time + last.duration) return true;
+
+        // Nothing starts or ramps within the window
+        this.advanceCursor(start);
+        const next = events[this.cursor];
+        if (next && next.time < end) return false;
+        if (next && (next.type === 'linear' || next.type === 'exponential')) return false;
+
+        const previous = events[this.cursor - 1];
+        return !previous || previous.type === 'set'
+            || previous.type === 'linear' || previous.type === 'exponential'
+            || (previous.type === 'curve' && start >= previous.time + previous.duration);
+    }
+
+    private advanceCursor(time: number): void {
+        if (time < this.lastTime) {
+            this.cursor = 0;
+        }
+        this.lastTime = time;
+        while (this.cursor < this.events.length && this.events[this.cursor].time <= time) {
+            this.cursor++;
+        }
+    }
+
+    /**
+     * Automated value at a time, ignoring inputs.
+     */
+    private valueAt(time: number): number {
+        this.advanceCursor(time);
+
+        const events = this.events;
+        const index = this.cursor;
+        const next = events[index];
+
+        if (next && (next.type === 'linear' || next.type === 'exponential')) {
+            // Ramps run from the previous event's end to their own time
+            const previous = events[index - 1];
+            const startTime = previous ? this.endTime(previous) : 0;
+            const startValue = previous ? this.settledValue(index - 1) : this.intrinsic;
+
+            const span = next.time - startTime;
+            const progress = span > 0 ? (time - startTime) / span : 1;
+
+            if (next.type === 'linear') {
+                return startValue + (next.value - startValue) * progress;
+            }
+            if (startValue === 0 || startValue * next.value < 0) {
+                return startValue;
+            }
+            return startValue * Math.pow(next.value / startValue, progress);
+        }
+
+        const previous = events[index - 1];
+        if (!previous) return this.intrinsic;
+
+        switch (previous.type) {
+            case 'set':
+            case 'linear':
+            case 'exponential':
+                return previous.value;
+            case 'target': {
+                const startValue = this.settledValue(index - 2);
+                return previous.value + (startValue - previous.value)
+                    * Math.exp(-(time - previous.time) / previous.timeConstant);
+            }
+            case 'curve': {
+                const { values, duration } = previous;
+                const elapsed = time - previous.time;
+                if (elapsed >= duration) return values[values.length - 1];
+
+                const position = (elapsed / duration) * (values.length - 1);
+                const k = Math.floor(position);
+                const fraction = position - k;
+                return values[k] + (values[Math.min(k + 1, values.length - 1)] - values[k]) * fraction;
+            }
+        }
+    }
+
+    /**
+     * Value an event leaves the param at once it has fully applied.
+     * A target approach has no end, so ramps after it start from where it began.
+     */
+    private settledValue(index: number): number {
+        const event = this.events[index];
+        if (!event) return this.intrinsic;
+        if (event.type === 'target') return this.settledValue(index - 1);
+        return finalValue(event);
+    }
+
+    /** Time at which an event has fully applied */
+    private endTime(event: AutomationEvent): number {
+        return event.type === 'curve' ? event.time + event.duration : event.time;
+    }
+}
@@ -11,6 +11,7 @@ import {
     type ReverbOptions,
     type ReverbChain,
 } from './ConvolutionReverb';
+import { createRandom } from '../utils/random';
 
 // Create mock AudioContext
 function createMockAudioContext(sampleRate = 44100) {
@@ -112,6 +113,21 @@ describe('ConvolutionReverb.ts', () => {
             expect(buffer.getChannelData).toHaveBeenCalledWith(1);
         });
 
+        it('is reproducible with a seeded random source', () => {
+            const first = generateImpulseResponse(context, {}, createRandom(42));
+            const second = generateImpulseResponse(context, {}, createRandom(42));
+
+            expect(first.getChannelData(0)).toEqual(second.getChannelData(0));
+            expect(first.getChannelData(1)).toEqual(second.getChannelData(1));
+        });
+
+        it('varies with the seed', () => {
+            const first = generateImpulseResponse(context, {}, createRandom(1));
+            const second = generateImpulseResponse(context, {}, createRandom(2));
+
+            expect(first.getChannelData(0)).not.toEqual(second.getChannelData(0));
+        });
+
         it('returns the created buffer', () => {
             const buffer = generateImpulseResponse(context);
             expect(buffer).toBeDefined();
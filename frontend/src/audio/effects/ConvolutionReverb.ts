@@ -3,6 +3,9 @@
  * No external audio files needed.
  */
 
+import type { Mood } from '../../types/music';
+import type { RandomSource } from '../utils/random';
+
 export interface ReverbOptions {
     /** Room size: 0 = small, 1 = large (default 0.5) */
     roomSize?: number;
@@ -26,10 +29,12 @@ const DEFAULT_OPTIONS: Required<ReverbOptions> = {
 
 /**
  * Generate a procedural impulse response for reverb.
+ * Pass a seeded random source for a reproducible response.
  */
 export function generateImpulseResponse(
     context: BaseAudioContext,
-    options: ReverbOptions = {}
+    options: ReverbOptions = {},
+    random: RandomSource = Math.random
 ): AudioBuffer {
     const opts = { ...DEFAULT_OPTIONS, ...options };
     const sampleRate = context.sampleRate;
@@ -50,11 +55,11 @@ export function generateImpulseResponse(
         const earlyReflectionEnd = Math.floor(sampleRate * 0.08 * (1 + opts.roomSize));
 
         for (let i = 0; i < numEarlyReflections; i++) {
-            const position = preDelaySamples + Math.floor(Math.random() * earlyReflectionEnd);
+            const position = preDelaySamples + Math.floor(random() * earlyReflectionEnd);
             if (position < length) {
                 // Randomize amplitude and polarity
-                const amplitude = 0.5 * Math.pow(0.85, i) * (Math.random() * 0.5 + 0.5);
-                const polarity = Math.random() > 0.5 ? 1 : -1;
+                const amplitude = 0.5 * Math.pow(0.85, i) * (random() * 0.5 + 0.5);
+                const polarity = random() > 0.5 ? 1 : -1;
                 data[position] = amplitude * polarity;
             }
         }
@@ -69,7 +74,7 @@ export function generateImpulseResponse(
             const envelope = Math.exp(decayConstant * t);
 
             // Add noise with envelope
-            const noise = (Math.random() * 2 - 1) * envelope;
+            const noise = (random() * 2 - 1) * envelope;
 
             // Apply damping (simple lowpass by averaging)
             const dampingFactor = 1 - opts.damping * 0.8;
@@ -101,10 +106,11 @@ export function generateImpulseResponse(
  */
 export function createConvolutionReverb(
     context: BaseAudioContext,
-    options: ReverbOptions = {}
+    options: ReverbOptions = {},
+    random: RandomSource = Math.random
 ): ConvolverNode {
     const convolver = context.createConvolver();
-    convolver.buffer = generateImpulseResponse(context, options);
+    convolver.buffer = generateImpulseResponse(context, options, random);
     return convolver;
 }
 
@@ -122,7 +128,8 @@ export interface ReverbChain {
 
 export function createReverbChain(
     context: BaseAudioContext,
-    options: ReverbOptions = {}
+    options: ReverbOptions = {},
+    random: RandomSource = Math.random
 ): ReverbChain {
     const opts = { ...DEFAULT_OPTIONS, ...options };
 
@@ -131,7 +138,7 @@ export function createReverbChain(
     const output = context.createGain();
     const dryGain = context.createGain();
     const wetGain = context.createGain();
-    const convolver = createConvolutionReverb(context, opts);
+    const convolver = createConvolutionReverb(context, opts, random);
 
     // Set initial mix
     dryGain.gain.value = 1 - opts.mix;
@@ -163,7 +170,7 @@ export function createReverbChain(
 /**
  * Reverb presets for different moods.
  */
-export const REVERB_PRESETS: Record<string, ReverbOptions> = {
+export const REVERB_PRESETS: Record<Mood, Required<ReverbOptions>> = {
     // Calm: Larger room, longer decay, more wet
     calm: {
         roomSize: 0.7,
@@ -0,0 +1,67 @@
+/**
+ * Unit tests for the live master bus.
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { createMasterBus, MASTER_LIMITER } from './MasterBus';
+import { TRUE_PEAK_CEILING } from '../utils/loudness';
+
+type MockContext = AudioContext & {
+    createDynamicsCompressor: ReturnType<typeof vi.fn>;
+    createChannelSplitter: ReturnType<typeof vi.fn>;
+    createAnalyser: ReturnType<typeof vi.fn>;
+};
+
+describe('MasterBus', () => {
+    it('limits at the true-peak ceiling', () => {
+        const ctx = new AudioContext() as MockContext;
+
+        const bus = createMasterBus(ctx);
+        const limiter = ctx.createDynamicsCompressor.mock.results[0].value;
+
+        expect(MASTER_LIMITER.threshold).toBe(TRUE_PEAK_CEILING);
+        expect(limiter.threshold.value).toBe(TRUE_PEAK_CEILING);
+        expect(limiter.ratio.value).toBe(MASTER_LIMITER.ratio);
+        expect(bus.input.connect).toHaveBeenCalledWith(limiter);
+        expect(bus.output).toBe(limiter);
+    });
+
+    it('meters each channel after the limiter', () => {
+        const ctx = new AudioContext() as MockContext;
+
+        createMasterBus(ctx);
+        const limiter = ctx.createDynamicsCompressor.mock.results[0].value;
+        const splitter = ctx.createChannelSplitter.mock.results[0].value;
+        const [left, right] = ctx.createAnalyser.mock.results.map((result) => result.value);
+
+        expect(limiter.connect).toHaveBeenCalledWith(splitter);
+        expect(splitter.connect).toHaveBeenCalledWith(left, 0);
+        expect(splitter.connect).toHaveBeenCalledWith(right, 1);
+    });
+
+    it('reads peak and RMS levels in dBFS', () => {
+        const ctx = new AudioContext() as MockContext;
+
+        const bus = createMasterBus(ctx);
+        const [left, right] = ctx.createAnalyser.mock.results.map((result) => result.value);
+        left.getFloatTimeDomainData.mockImplementation((data: Float32Array) => data.fill(0.5));
+        right.getFloatTimeDomainData.mockImplementation((data: Float32Array) => data.fill(0));
+
+        const meter = bus.getMeter();
+
+        expect(meter.left.peak).toBeCloseTo(-6.02, 1);
+        expect(meter.left.rms).toBeCloseTo(-6.02, 1);
+        expect(meter.right).toEqual({ peak: -Infinity, rms: -Infinity });
+    });
+
+    it('disconnects every node', () => {
+        const ctx = new AudioContext() as MockContext;
+
+        const bus = createMasterBus(ctx);
+        bus.disconnect();
+
+        expect(bus.input.disconnect).toHaveBeenCalled();
+        expect(ctx.createDynamicsCompressor.mock.results[0].value.disconnect).toHaveBeenCalled();
+        ctx.createAnalyser.mock.results.forEach((result) => expect(result.value.disconnect).toHaveBeenCalled());
+    });
+});
@@ -0,0 +1,76 @@
+/**
+ * Master bus for real-time playback: a safety limiter and stereo level meters.
+ *
+ * Offline mixdowns are limited after rendering with the look-ahead true-peak
+ * limiter in `utils/loudness`; live playback can't look ahead, so it uses a
+ * fast compressor at the same ceiling instead.
+ */
+
+import type { MeterReading } from '../types';
+import { measureLevel, TRUE_PEAK_CEILING } from '../utils/loudness';
+
+/**
+ * Real-time limiter settings: fast, hard-kneed compression at the true-peak ceiling.
+ */
+export const MASTER_LIMITER = {
+    threshold: TRUE_PEAK_CEILING,
+    knee: 0,
+    ratio: 20,
+    attack: 0.003,
+    release: 0.1,
+} as const;
+
+/** Samples read per meter update (about 40ms at 48kHz) */
+const METER_WINDOW = 2048;
+
+/**
+ * The master bus of a live mix. Connect tracks into `input` and `output`
+ * to the destination.
+ */
+export interface MasterBus {
+    input: GainNode;
+    output: AudioNode;
+    /** Current peak and RMS levels after the limiter */
+    getMeter: () => MeterReading;
+    disconnect: () => void;
+}
+
+/**
+ * Create a master bus: input -> limiter -> output, with the limiter's
+ * output split to one analyser per channel for metering.
+ */
+export function createMasterBus(context: BaseAudioContext): MasterBus {
+    const input = context.createGain();
+
+    const limiter = context.createDynamicsCompressor();
+    limiter.threshold.value = MASTER_LIMITER.threshold;
+    limiter.knee.value = MASTER_LIMITER.knee;
+    limiter.ratio.value = MASTER_LIMITER.ratio;
+    limiter.attack.value = MASTER_LIMITER.attack;
+    limiter.release.value = MASTER_LIMITER.release;
+
+    const splitter = context.createChannelSplitter(2);
+    const analysers = [context.createAnalyser(), context.createAnalyser()];
+    const samples = analysers.map((analyser) => {
+        analyser.fftSize = METER_WINDOW;
+        return new Float32Array(METER_WINDOW);
+    });
+
+    input.connect(limiter);
+    limiter.connect(splitter);
+    analysers.forEach((analyser, channel) => splitter.connect(analyser, channel));
+
+    const read = (channel: number) => {
+        analysers[channel].getFloatTimeDomainData(samples[channel]);
+        return measureLevel(samples[channel]);
+    };
+
+    return {
+        input,
+        output: limiter,
+        getMeter: () => ({ left: read(0), right: read(1) }),
+        disconnect: () => {
+            [input, limiter, splitter, ...analysers].forEach((node) => node.disconnect());
+        },
+    };
+}
@@ -0,0 +1,137 @@
+/**
+ * Unit tests for the per-track insert chain, rendered with the DSP renderer.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+    createTrackEffectsChain,
+    getDelayTime,
+    getMixEffects,
+    isNeutralEffects,
+    DEFAULT_TRACK_EFFECTS,
+    MAX_DELAY_TIME,
+} from './TrackEffects';
+import type { TrackEffects } from '../types';
+import { DspOfflineAudioContext } from '../dsp/context';
+
+const SAMPLE_RATE = 8000;
+
+function rms(samples: Float32Array, from = 0, to = samples.length): number {
+    let sum = 0;
+    for (let i = from; i < to; i++) sum += samples[i] * samples[i];
+    return Math.sqrt(sum / (to - from));
+}
+
+/**
+ * Render a source through a chain with the given effects.
+ * The source is a unit impulse, or a sine at `frequency` and `amplitude`.
+ */
+async function renderThrough(
+    effects: TrackEffects,
+    { seconds = 1, tempo = 120, frequency = 0, amplitude = 1 } = {}
+): Promise<Float32Array> {
+    const ctx = new DspOfflineAudioContext(1, seconds * SAMPLE_RATE, SAMPLE_RATE);
+    const buffer = ctx.createBuffer(1, seconds * SAMPLE_RATE, SAMPLE_RATE);
+    const data = buffer.getChannelData(0);
+    if (frequency > 0) {
+        for (let i = 0; i < data.length; i++) data[i] = amplitude * Math.sin((2 * Math.PI * frequency * i) / SAMPLE_RATE);
+    } else {
+        data[0] = 1;
+    }
+
+    const chain = createTrackEffectsChain(ctx as unknown as BaseAudioContext, effects, tempo);
+    const source = ctx.createBufferSource();
+    source.buffer = buffer;
+    source.connect(chain.input as never);
+    chain.output.connect(ctx.destination as never);
+    source.start(0);
+
+    return (await ctx.startRendering()).getChannelData(0);
+}
+
+describe('TrackEffects', () => {
+    describe('isNeutralEffects', () => {
+        it('is true only for a flat EQ with the compressor and delay off', () => {
+            expect(isNeutralEffects(DEFAULT_TRACK_EFFECTS)).toBe(true);
+            expect(isNeutralEffects({ ...DEFAULT_TRACK_EFFECTS, eq: { low: 0, mid: -3, high: 0 } })).toBe(false);
+            expect(isNeutralEffects({
+                ...DEFAULT_TRACK_EFFECTS,
+                delay: { ...DEFAULT_TRACK_EFFECTS.delay, enabled: true },
+            })).toBe(false);
+        });
+    });
+
+    describe('getMixEffects', () => {
+        it('reads the non-neutral effects out of a mix', () => {
+            const effects = { ...DEFAULT_TRACK_EFFECTS, eq: { low: -6, mid: 0, high: 0 } };
+            const tracks = {
+                erhu: { volume: 1, muted: false, effects },
+                pipa: { volume: 1, muted: false, effects: DEFAULT_TRACK_EFFECTS },
+                dizi: { volume: 0.5, muted: false },
+            };
+
+            expect(getMixEffects(tracks)).toEqual({ erhu: effects });
+            expect(getMixEffects(undefined)).toEqual({});
+        });
+    });
+
+    describe('getDelayTime', () => {
+        it('converts beats to seconds at the tempo', () => {
+            expect(getDelayTime(0.5, 120)).toBe(0.25);
+            expect(getDelayTime(1, 60)).toBe(1);
+        });
+
+        it('caps the delay time', () => {
+            expect(getDelayTime(1, 5)).toBe(MAX_DELAY_TIME);
+        });
+    });
+
+    describe('createTrackEffectsChain', () => {
+        it('passes the signal through unchanged with neutral settings', async () => {
+            const data = await renderThrough(DEFAULT_TRACK_EFFECTS);
+
+            expect(data[0]).toBeCloseTo(1);
+            expect(rms(data, 1)).toBeLessThan(1e-3);
+        });
+
+        it('repeats the signal in time with the tempo', async () => {
+            const data = await renderThrough({
+                ...DEFAULT_TRACK_EFFECTS,
+                delay: { enabled: true, beats: 0.5, feedback: 0.5, mix: 0.5 },
+            });
+
+            // An eighth note at 120 BPM is 0.25s
+            expect(data[0]).toBeCloseTo(1);
+            expect(data[2000]).toBeCloseTo(0.5);
+            expect(data[4000]).toBeCloseTo(0.25);
+            expect(data[3000]).toBeCloseTo(0);
+        });
+
+        it('cuts the low end with the low shelf', async () => {
+            const options = { frequency: 60 };
+            const flat = await renderThrough(DEFAULT_TRACK_EFFECTS, options);
+            const cut = await renderThrough({ ...DEFAULT_TRACK_EFFECTS, eq: { low: -12, mid: 0, high: 0 } }, options);
+
+            expect(rms(cut, 800) / rms(flat, 800)).toBeLessThan(0.35);
+        });
+
+        it('leaves the highs alone when cutting the lows', async () => {
+            const options = { frequency: 3000 };
+            const flat = await renderThrough(DEFAULT_TRACK_EFFECTS, options);
+            const cut = await renderThrough({ ...DEFAULT_TRACK_EFFECTS, eq: { low: -12, mid: 0, high: 0 } }, options);
+
+            expect(rms(cut, 800) / rms(flat, 800)).toBeGreaterThan(0.9);
+        });
+
+        it('compresses loud signals when the compressor is on', async () => {
+            const options = { frequency: 200, amplitude: 0.9 };
+            const dry = await renderThrough(DEFAULT_TRACK_EFFECTS, options);
+            const compressed = await renderThrough({
+                ...DEFAULT_TRACK_EFFECTS,
+                compressor: { enabled: true, threshold: -30, ratio: 10 },
+            }, options);
+
+            expect(rms(compressed, 4000) / rms(dry, 4000)).toBeLessThan(0.9);
+        });
+    });
+});
@@ -0,0 +1,176 @@
+/**
+ * Per-track insert chain for the mixer: three-band EQ, dynamics compressor
+ * and tempo-synced delay. The same chain is built by the stem mixer, live
+ * playback and the offline mixdown, so exports sound like the mixer. Stems
+ * carry their reverb, so everywhere the chain runs after the track's reverb.
+ */
+
+import type { Instrument } from '../../types/music';
+import type { MixEffects, MixSettings, TrackEffects } from '../types';
+import { createBiquadFilter } from '../utils/filters';
+
+/**
+ * EQ band filters. The mid band sits in the low-mids, where four
+ * instruments sharing a register turn muddy.
+ */
+export const EQ_BANDS = {
+    low: { type: 'lowshelf', frequency: 200 },
+    mid: { type: 'peaking', frequency: 500, q: 1 },
+    high: { type: 'highshelf', frequency: 5000 },
+} as const;
+
+/** Largest EQ boost or cut in dB */
+export const EQ_RANGE = 12;
+
+/** Fixed compressor timing; threshold and ratio are per track */
+export const COMPRESSOR_TIMING = {
+    knee: 6,
+    attack: 0.01,
+    release: 0.2,
+} as const;
+
+/** Delay times offered in the mixer, in beats */
+export const DELAY_DIVISIONS = [
+    { label: '1/4', beats: 1 },
+    { label: '1/8.', beats: 0.75 },
+    { label: '1/8', beats: 0.5 },
+    { label: '1/16', beats: 0.25 },
+] as const;
+
+/** Longest delay in seconds (a quarter note at the slowest tempo and practice rate) */
+export const MAX_DELAY_TIME = 4;
+
+/** Highest delay feedback, so repeats always die out */
+export const MAX_DELAY_FEEDBACK = 0.9;
+
+/** Flat EQ, compressor and delay off */
+export const DEFAULT_TRACK_EFFECTS: TrackEffects = {
+    eq: { low: 0, mid: 0, high: 0 },
+    compressor: { enabled: false, threshold: -24, ratio: 4 },
+    delay: { enabled: false, beats: 0.5, feedback: 0.3, mix: 0.25 },
+};
+
+/**
+ * Whether a chain with these settings leaves the signal untouched.
+ */
+export function isNeutralEffects(effects: TrackEffects): boolean {
+    const { eq, compressor, delay } = effects;
+    return eq.low === 0 && eq.mid === 0 && eq.high === 0 && !compressor.enabled && !delay.enabled;
+}
+
+/**
+ * The insert effects of a mix's tracks, leaving out neutral ones.
+ */
+export function getMixEffects(tracks: MixSettings['tracks']): MixEffects {
+    const effects: MixEffects = {};
+    Object.entries(tracks ?? {}).forEach(([instrument, track]) => {
+        if (track?.effects && !isNeutralEffects(track.effects)) {
+            effects[instrument as Instrument] = track.effects;
+        }
+    });
+    return effects;
+}
+
+/**
+ * Delay time in seconds for a number of beats at a tempo.
+ */
+export function getDelayTime(beats: number, tempo: number): number {
+    return Math.min(MAX_DELAY_TIME, (beats * 60) / tempo);
+}
+
+const clamp = (value: number, min: number, max: number): number => Math.max(min, Math.min(max, value));
+
+/**
+ * A track's insert chain. Connect the track into `input` and `output` onward.
+ */
+export interface TrackEffectsChain {
+    input: AudioNode;
+    output: GainNode;
+    /** Apply new settings to the running chain */
+    update: (effects: TrackEffects) => void;
+    /** Re-sync the delay to a new tempo (BPM) */
+    setTempo: (tempo: number) => void;
+    disconnect: () => void;
+}
+
+/**
+ * Create a track's insert chain:
+ * input -> low shelf -> peaking -> high shelf -> [compressor] -> dry + delay -> output.
+ * A disabled compressor is bypassed rather than set to a 1:1 ratio, as
+ * compressors delay their input even when they don't compress.
+ */
+export function createTrackEffectsChain(
+    context: BaseAudioContext,
+    effects: TrackEffects,
+    tempo: number
+): TrackEffectsChain {
+    const low = createBiquadFilter(context, EQ_BANDS.low.type, EQ_BANDS.low.frequency, 1, 0);
+    const mid = createBiquadFilter(context, EQ_BANDS.mid.type, EQ_BANDS.mid.frequency, EQ_BANDS.mid.q, 0);
+    const high = createBiquadFilter(context, EQ_BANDS.high.type, EQ_BANDS.high.frequency, 1, 0);
+
+    const compressor = context.createDynamicsCompressor();
+    compressor.knee.value = COMPRESSOR_TIMING.knee;
+    compressor.attack.value = COMPRESSOR_TIMING.attack;
+    compressor.release.value = COMPRESSOR_TIMING.release;
+
+    const post = context.createGain();
+    const output = context.createGain();
+    const delaySend = context.createGain();
+    const delay = context.createDelay(MAX_DELAY_TIME);
+    const feedback = context.createGain();
+    const wet = context.createGain();
+
+    low.connect(mid);
+    mid.connect(high);
+    compressor.connect(post);
+
+    // Dry signal straight through, plus the delay with its feedback loop
+    post.connect(output);
+    post.connect(delaySend);
+    delaySend.connect(delay);
+    delay.connect(feedback);
+    feedback.connect(delay);
+    delay.connect(wet);
+    wet.connect(output);
+
+    let current = effects;
+    let currentTempo = tempo;
+    let compressing: boolean | null = null;
+
+    const update = (next: TrackEffects): void => {
+        current = next;
+        const { eq, compressor: comp, delay: echo } = next;
+
+        low.gain.value = clamp(eq.low, -EQ_RANGE, EQ_RANGE);
+        mid.gain.value = clamp(eq.mid, -EQ_RANGE, EQ_RANGE);
+        high.gain.value = clamp(eq.high, -EQ_RANGE, EQ_RANGE);
+
+        compressor.threshold.value = clamp(comp.threshold, -60, 0);
+        compressor.ratio.value = clamp(comp.ratio, 1, 20);
+        if (comp.enabled !== compressing) {
+            high.disconnect();
+            high.connect(comp.enabled ? compressor : post);
+            compressing = comp.enabled;
+        }
+
+        delay.delayTime.value = getDelayTime(echo.beats, currentTempo);
+        delaySend.gain.value = echo.enabled ? 1 : 0;
+        feedback.gain.value = echo.enabled ? clamp(echo.feedback, 0, MAX_DELAY_FEEDBACK) : 0;
+        wet.gain.value = echo.enabled ? clamp(echo.mix, 0, 1) : 0;
+    };
+
+    update(effects);
+
+    return {
+        input: low,
+        output,
+        update,
+        setTempo: (nextTempo: number) => {
+            currentTempo = nextTempo;
+            delay.delayTime.value = getDelayTime(current.delay.beats, currentTempo);
+        },
+        disconnect: () => {
+            [low, mid, high, compressor, post, delaySend, delay, feedback, wet, output].forEach((node) => node.disconnect());
+        },
+    };
+}
@@ -10,3 +10,24 @@ export {
     type ReverbOptions,
     type ReverbChain,
 } from './ConvolutionReverb';
+
+export {
+    EQ_BANDS,
+    EQ_RANGE,
+    COMPRESSOR_TIMING,
+    DELAY_DIVISIONS,
+    MAX_DELAY_TIME,
+    MAX_DELAY_FEEDBACK,
+    DEFAULT_TRACK_EFFECTS,
+    isNeutralEffects,
+    getMixEffects,
+    getDelayTime,
+    createTrackEffectsChain,
+    type TrackEffectsChain,
+} from './TrackEffects';
+
+export {
+    MASTER_LIMITER,
+    createMasterBus,
+    type MasterBus,
+} from './MasterBus';
@@ -0,0 +1,181 @@
+/**
+ * Golden-audio regression tests.
+ * Renders tracks and a mixdown with the DSP renderer and compares a
+ * fingerprint of the samples against `__golden__/renders.json`.
+ *
+ * After an intended change to the sound, regenerate the fingerprints with:
+ *   UPDATE_GOLDEN=1 npx vitest run src/audio/golden.test.ts
+ */
+
+import { describe, it, expect, afterAll } from 'vitest';
+import { existsSync, readFileSync, writeFileSync } from 'node:fs';
+import { dirname, join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { createHeadlessEngine } from './headless';
+import type { Composition, CompositionParams, Instrument, Mood } from '../types/music';
+
+const GOLDEN_FILE = join(dirname(fileURLToPath(import.meta.url)), '__golden__', 'renders.json');
+const UPDATE = process.env.UPDATE_GOLDEN === '1';
+const SAMPLE_RATE = 22050;
+/** Length of each envelope window, in seconds */
+const WINDOW = 0.5;
+const RENDER_TIMEOUT = 60000;
+
+interface Fingerprint {
+    length: number;
+    channels: number;
+    peak: number;
+    rms: number;
+    /** RMS of the mono mix per window */
+    envelope: number[];
+    /** Zero crossings per second of the mono mix, a rough brightness measure */
+    zeroCrossings: number;
+}
+
+const composition: Composition = {
+    scale: ['D4', 'E4', 'F#4', 'A4', 'B4'],
+    motif: {
+        pitches: ['D4', 'F#4', 'E4', 'A4', 'B4'],
+        rhythm: [1, 0.5, 0.5, 1, 1],
+    },
+    form: ['A'],
+    instrumentRoles: {
+        erhu: 'melody',
+        dizi: 'countermelody',
+        guzheng: 'accompaniment',
+        pipa: 'bass',
+    },
+    euclideanPatterns: {
+        melody: [1, 0, 1, 1, 0, 1, 0, 0],
+        countermelody: [0, 1, 0, 0, 1, 0, 1, 0],
+        accompaniment: [1, 0, 1, 1, 0, 1, 1, 0],
+        bass: [1, 0, 0, 0, 1, 0, 0, 0],
+    },
+};
+
+const params = (instruments: Instrument[], mood: Mood): CompositionParams => ({
+    mode: 'shang',
+    root: 'D',
+    tempo: 96,
+    instruments,
+    mood,
+    seed: 2024,
+});
+
+const round = (value: number): number => Number(value.toPrecision(5));
+
+function fingerprint(buffer: AudioBuffer): Fingerprint {
+    const channels = Array.from({ length: buffer.numberOfChannels }, (_, c) => buffer.getChannelData(c));
+    const mono = new Float32Array(buffer.length);
+    let peak = 0;
+
+    for (const data of channels) {
+        for (let i = 0; i < data.length; i++) {
+            mono[i] += data[i] / channels.length;
+            peak = Math.max(peak, Math.abs(data[i]));
+        }
+    }
+
+    const windowLength = Math.round(WINDOW * buffer.sampleRate);
+    const envelope: number[] = [];
+    let sum = 0;
+    let windowSum = 0;
+    let crossings = 0;
+
+    for (let i = 0; i < mono.length; i++) {
+        const square = mono[i] * mono[i];
+        sum += square;
+        windowSum += square;
+        if (i > 0 && (mono[i - 1] < 0) !== (mono[i] < 0)) crossings++;
+        if ((i + 1) % windowLength === 0 || i === mono.length - 1) {
+            envelope.push(round(Math.sqrt(windowSum / ((i % windowLength) + 1))));
+            windowSum = 0;
+        }
+    }
+
+    return {
+        length: buffer.length,
+        channels: buffer.numberOfChannels,
+        peak: round(peak),
+        rms: round(Math.sqrt(sum / mono.length)),
+        envelope,
+        zeroCrossings: round(crossings / buffer.duration),
+    };
+}
+
+/** Close enough to allow for floating-point differences between platforms */
+function expectClose(actual: number, expected: number, label: string) {
+    const tolerance = 1e-3 * Math.max(Math.abs(actual), Math.abs(expected)) + 1e-5;
+    expect(Math.abs(actual - expected), `${label}: ${actual} vs ${expected}`).toBeLessThanOrEqual(tolerance);
+}
+
+function expectFingerprint(actual: Fingerprint, expected: Fingerprint) {
+    expect(actual.length).toBe(expected.length);
+    expect(actual.channels).toBe(expected.channels);
+    expectClose(actual.peak, expected.peak, 'peak');
+    expectClose(actual.rms, expected.rms, 'rms');
+    expectClose(actual.zeroCrossings, expected.zeroCrossings, 'zero crossings');
+    expect(actual.envelope).toHaveLength(expected.envelope.length);
+    actual.envelope.forEach((value, i) => expectClose(value, expected.envelope[i], `envelope[${i}]`));
+}
+
+const golden: Record<string, Fingerprint> = existsSync(GOLDEN_FILE)
+    ? JSON.parse(readFileSync(GOLDEN_FILE, 'utf8'))
+    : {};
+const updated: Record<string, Fingerprint> = {};
+
+function check(name: string, buffer: AudioBuffer) {
+    const actual = fingerprint(buffer);
+    expect(actual.envelope.some(Number.isNaN)).toBe(false);
+
+    if (UPDATE) {
+        updated[name] = actual;
+        return;
+    }
+    expect(golden[name], `no golden fingerprint for "${name}"; run with UPDATE_GOLDEN=1`).toBeDefined();
+    expectFingerprint(actual, golden[name]);
+}
+
+describe('golden renders', () => {
+    const engine = createHeadlessEngine(SAMPLE_RATE);
+
+    afterAll(() => {
+        if (UPDATE) {
+            writeFileSync(GOLDEN_FILE, `${JSON.stringify(updated, null, 2)}\n`);
+        }
+    });
+
+    const tracks: Array<[Instrument, Mood]> = [
+        ['erhu', 'melancholic'],
+        ['guzheng', 'calm'],
+        ['pipa', 'heroic'],
+        ['dizi', 'festive'],
+    ];
+
+    it.each(tracks)('%s track (%s)', async (instrument, mood) => {
+        const buffer = await engine.renderTrack(composition, instrument, params([instrument], mood));
+        check(`${instrument}-${mood}`, buffer);
+    }, RENDER_TIMEOUT);
+
+    // The lite voices keep the sound the plucked strings had before the physical model
+    const liteTracks: Array<[Instrument, Mood]> = [
+        ['guzheng', 'calm'],
+        ['pipa', 'heroic'],
+    ];
+
+    it.each(liteTracks)('%s lite track (%s)', async (instrument, mood) => {
+        const buffer = await engine.renderTrack(composition, instrument, {
+            ...params([instrument], mood),
+            stringModels: { [instrument]: 'lite' },
+        });
+        check(`${instrument}-${mood}-lite`, buffer);
+    }, RENDER_TIMEOUT);
+
+    it('ensemble mixdown', async () => {
+        const buffer = await engine.renderMix(composition, params(['erhu', 'guzheng', 'pipa', 'dizi'], 'calm'), {
+            tracks: { pipa: { volume: 0.5, muted: false }, dizi: { volume: 1, muted: false, pan: -0.5 } },
+            masterGain: 1.5,
+        });
+        check('mix-calm', buffer);
+    }, RENDER_TIMEOUT);
+});
@@ -0,0 +1,58 @@
+/**
+ * Headless rendering, for Node and tests.
+ * Runs the synthesizer on the DSP renderer so tracks and mixdowns render to
+ * real samples without Web Audio, and encodes them as WAV bytes.
+ */
+
+import { SynthesizerEngine } from './synthesizer';
+import { createDspContext } from './dsp';
+import { encodeWAV } from './utils/wavEncoder';
+import { DEFAULT_SAMPLE_RATE } from './types';
+import type { MixSettings } from './types';
+import type { Composition, CompositionParams, Instrument } from '../types/music';
+
+export interface HeadlessRenderOptions {
+    /** Output sample rate (default: DEFAULT_SAMPLE_RATE) */
+    sampleRate?: number;
+    /** Called with render progress (0-1) */
+    onProgress?: (progress: number) => void;
+}
+
+/**
+ * Create a synthesizer engine that always renders with the DSP renderer,
+ * even where `OfflineAudioContext` exists.
+ */
+export function createHeadlessEngine(sampleRate: number = DEFAULT_SAMPLE_RATE): SynthesizerEngine {
+    return new SynthesizerEngine(sampleRate, createDspContext);
+}
+
+/**
+ * Render one instrument track as a stereo 16-bit WAV file.
+ */
+export async function renderTrackWav(
+    composition: Composition,
+    instrument: Instrument,
+    params: CompositionParams,
+    { sampleRate, onProgress }: HeadlessRenderOptions = {}
+): Promise<Uint8Array> {
+    const buffer = await createHeadlessEngine(sampleRate).renderTrack(
+        composition,
+        instrument,
+        params,
+        (progress) => onProgress?.(progress)
+    );
+    return new Uint8Array(encodeWAV(buffer));
+}
+
+/**
+ * Render the ensemble mixdown as a stereo 16-bit WAV file.
+ */
+export async function renderMixWav(
+    composition: Composition,
+    params: CompositionParams,
+    mix: MixSettings = {},
+    { sampleRate, onProgress }: HeadlessRenderOptions = {}
+): Promise<Uint8Array> {
+    const buffer = await createHeadlessEngine(sampleRate).renderMix(composition, params, mix, onProgress);
+    return new Uint8Array(encodeWAV(buffer));
+}
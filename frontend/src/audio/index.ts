@@ -10,8 +10,20 @@ export {
     SynthesizerEngine,
     getSynthesizerEngine,
     synthesizeInstrument,
+    synthesizeMix,
+    clearRenderCache,
+    resolveSeed,
+    SYNTH_VERSION,
 } from './synthesizer';
 export type { RenderProgressCallback } from './synthesizer';
+export { LivePlaybackEngine } from './livePlayback';
+export type { LiveSession, LiveTrackState, LivePlaybackOptions } from './livePlayback';
+export { RenderPool, RenderAbortedError, getRenderPool, canRenderInWorkers } from './renderPool';
+export type { RenderTaskOptions, RenderRequest, RenderResponse } from './renderPool';
+export { createHeadlessEngine, renderTrackWav, renderMixWav } from './headless';
+export type { HeadlessRenderOptions } from './headless';
+export { RenderCache, renderCacheKey } from './renderCache';
+export type { CachedRender } from './renderCache';
 
 // Types
 export type {
@@ -20,6 +32,22 @@ export type {
     ADSREnvelope,
     VoiceParameters,
     MoodParameters,
+    ReverbBusSettings,
+    TrackEqSettings,
+    TrackCompressorSettings,
+    TrackDelaySettings,
+    TrackEffects,
+    MixTrackSettings,
+    MixSettings,
+    AutomationParam,
+    AutomationPoint,
+    TrackAutomation,
+    MixAutomation,
+    MixEffects,
+    LoudnessMeasurement,
+    LevelReading,
+    MeterReading,
+    LoopRegion,
     SynthesizerConfig,
     RenderResult,
     InstrumentVoice,
@@ -36,6 +64,7 @@ export {
 // Voices
 export { createVoice, VOICE_REGISTRY } from './voices';
 export { BaseVoice } from './voices/BaseVoice';
+export { PluckedStringVoice, DEFAULT_STRING_MODEL } from './voices/PluckedStringVoice';
 export { ErhuVoice } from './voices/ErhuVoice';
 export { GuzhengVoice } from './voices/GuzhengVoice';
 export { PipaVoice } from './voices/PipaVoice';
@@ -56,6 +85,20 @@ export {
     noteToFrequency,
     transposeNote,
     audioBufferToBase64WAV,
+    encodeWAV,
     getVoiceParams,
+    getReverbSend,
     INSTRUMENT_GAIN,
+    createRandom,
+    getRandomSource,
+    measureLoudness,
+    normalizeLoudness,
+    limitTruePeak,
+    TRUE_PEAK_CEILING,
+    LOUDNESS_TARGETS,
+    AUTOMATION_PARAMS,
+    AUTOMATION_RANGES,
+    getAutomationValue,
+    renderPluckedString,
 } from './utils';
+export type { RandomSource } from './utils';
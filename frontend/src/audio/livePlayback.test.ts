@@ -0,0 +1,370 @@
+/**
+ * Unit tests for the live playback engine's look-ahead scheduling.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { LivePlaybackEngine } from './livePlayback';
+import type { LiveSession } from './livePlayback';
+import type { ScheduledNote } from './types';
+import type { Instrument } from '../types/music';
+import { mockComposition, mockParams } from '../test/utils';
+
+const note = (startTime: number, duration: number, instrument: Instrument = 'erhu'): ScheduledNote => ({
+    pitch: 'C4',
+    frequency: 261.63,
+    startTime,
+    duration,
+    velocity: 0.8,
+    instrument,
+});
+
+const NOTES: ScheduledNote[] = [note(0, 1), note(0.3, 0.5), note(1.5, 0.4), note(0.1, 0.42, 'guzheng')];
+
+vi.mock('./voices', () => ({
+    createVoice: vi.fn(() => ({ scheduleNote: vi.fn(), dispose: vi.fn() })),
+}));
+
+vi.mock('./effects', async (importOriginal) => ({
+    ...(await importOriginal<typeof import('./effects')>()),
+    createConvolutionReverb: vi.fn(() => ({ connect: vi.fn(), disconnect: vi.fn() })),
+    createTrackEffectsChain: vi.fn(() => ({
+        input: { connect: vi.fn() },
+        output: { connect: vi.fn() },
+        update: vi.fn(),
+        setTempo: vi.fn(),
+        disconnect: vi.fn(),
+    })),
+    createMasterBus: vi.fn(() => ({
+        input: { connect: vi.fn() },
+        output: { connect: vi.fn() },
+        getMeter: vi.fn(() => ({ left: { peak: -6, rms: -12 }, right: { peak: -7, rms: -13 } })),
+        disconnect: vi.fn(),
+    })),
+}));
+
+vi.mock('./scheduling', async (importOriginal) => ({
+    ...(await importOriginal<typeof import('./scheduling')>()),
+    getCompositionDuration: vi.fn(() => 2),
+    mapCompositionToTracks: vi.fn((_composition, params: { instruments: Instrument[] }) => {
+        const [instrument] = params.instruments;
+        return new Map([[instrument, { instrument, notes: NOTES.filter((n) => n.instrument === instrument) }]]);
+    }),
+}));
+
+import { createVoice } from './voices';
+import { createMasterBus, createTrackEffectsChain, DEFAULT_TRACK_EFFECTS } from './effects';
+
+const createParam = (value: number) => ({
+    value,
+    setValueAtTime: vi.fn(),
+    linearRampToValueAtTime: vi.fn(),
+    cancelScheduledValues: vi.fn(),
+});
+
+const createNode = () => ({
+    connect: vi.fn(),
+    disconnect: vi.fn(),
+    gain: createParam(1),
+    pan: createParam(0),
+});
+
+const createContext = () => ({
+    currentTime: 0,
+    state: 'running',
+    destination: {},
+    resume: vi.fn(),
+    createGain: vi.fn(createNode),
+    createStereoPanner: vi.fn(createNode),
+});
+
+const session: LiveSession = {
+    composition: mockComposition,
+    params: mockParams,
+    seeds: { erhu: 1, guzheng: 2 },
+};
+
+describe('LivePlaybackEngine', () => {
+    let ctx: ReturnType<typeof createContext>;
+
+    const createEngine = (onEnded?: () => void) =>
+        new LivePlaybackEngine(session, { context: ctx as unknown as AudioContext, onEnded });
+
+    /** The mocked voice built for an instrument */
+    const voiceOf = (instrument: Instrument) => {
+        const index = vi.mocked(createVoice).mock.calls.findIndex(([name]) => name === instrument);
+        return vi.mocked(createVoice).mock.results[index].value as { scheduleNote: ReturnType<typeof vi.fn>; dispose: ReturnType<typeof vi.fn> };
+    };
+
+    /** The effects chain built for the nth track */
+    const chainOf = (index: number) => vi.mocked(createTrackEffectsChain).mock.results[index].value;
+
+    /** The nth track's volume gain, which follows its effects chain */
+    const volumeOf = (index: number) => chainOf(index).output.connect.mock.calls[0][0];
+
+    /** The nth track's volume automation gain, which follows its volume */
+    const automationOf = (index: number) => volumeOf(index).connect.mock.calls[0][0];
+
+    /** Start times, in context time, of the notes scheduled on a voice */
+    const scheduledStarts = (instrument: Instrument) =>
+        voiceOf(instrument).scheduleNote.mock.calls.map(([scheduled]) => scheduled.startTime);
+
+    /** Move the context clock and let the scheduler wake up */
+    const advance = (seconds: number) => {
+        ctx.currentTime += seconds;
+        vi.advanceTimersByTime(25);
+    };
+
+    beforeEach(() => {
+        vi.clearAllMocks();
+        vi.useFakeTimers();
+        ctx = createContext();
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it('builds a voice and track per instrument', () => {
+        const engine = createEngine();
+
+        expect(engine.duration).toBe(2);
+        expect(createVoice).toHaveBeenCalledTimes(2);
+        expect(Array.from(engine.getTracks().keys())).toEqual(['erhu', 'guzheng']);
+    });
+
+    it('schedules only the notes within the look-ahead window', () => {
+        ctx.currentTime = 10;
+        const engine = createEngine();
+
+        engine.play();
+
+        expect(engine.isPlaying).toBe(true);
+        expect(scheduledStarts('erhu')).toEqual([expect.closeTo(10.05)]);
+        expect(scheduledStarts('guzheng')).toEqual([expect.closeTo(10.15)]);
+
+        advance(0.2);
+
+        // The first erhu note was already scheduled; the next one is now in range
+        expect(scheduledStarts('erhu')).toEqual([10.05, expect.closeTo(10.35)]);
+        expect(scheduledStarts('guzheng')).toEqual([expect.closeTo(10.15)]);
+    });
+
+    it('trims notes already sounding at the playhead when playing from a seek', () => {
+        const engine = createEngine();
+
+        engine.seek(0.5);
+        engine.play();
+
+        const scheduled = voiceOf('erhu').scheduleNote.mock.calls.map(([n]) => n);
+        expect(scheduled).toHaveLength(2);
+        expect(scheduled[0].startTime).toBeCloseTo(0.05);
+        expect(scheduled[0].duration).toBeCloseTo(0.5);
+        expect(scheduled[1].duration).toBeCloseTo(0.3);
+        // Less than the minimum note length remains of the guzheng note
+        expect(voiceOf('guzheng').scheduleNote).not.toHaveBeenCalled();
+    });
+
+    it('stops scheduling on pause and resumes from the playhead', () => {
+        const engine = createEngine();
+
+        engine.play();
+        advance(0.5);
+        engine.pause();
+
+        expect(engine.isPlaying).toBe(false);
+        expect(engine.currentTime).toBeCloseTo(0.45);
+
+        const calls = voiceOf('erhu').scheduleNote.mock.calls.length;
+        advance(1);
+        expect(voiceOf('erhu').scheduleNote.mock.calls.length).toBe(calls);
+
+        engine.play();
+        expect(engine.currentTime).toBeCloseTo(0.45);
+    });
+
+    it('keeps playing from the new position after a seek', () => {
+        const engine = createEngine();
+
+        engine.play();
+        engine.seek(1.5);
+
+        expect(engine.isPlaying).toBe(true);
+        expect(scheduledStarts('erhu').at(-1)).toBeCloseTo(ctx.currentTime + 0.05);
+    });
+
+    it('applies track volume, mute and pan', () => {
+        const engine = createEngine();
+
+        engine.setTrackVolume('erhu', 0.5);
+        engine.setTrackPan('erhu', -2);
+        engine.setTrackMuted('guzheng', true);
+
+        expect(engine.getTracks().get('erhu')).toEqual({
+            volume: 0.5,
+            pan: -1,
+            muted: false,
+            soloed: false,
+            effects: DEFAULT_TRACK_EFFECTS,
+        });
+        expect(engine.getTracks().get('guzheng')).toMatchObject({ muted: true });
+
+        expect(volumeOf(0).gain.value).toBe(0.5);
+        expect(volumeOf(1).gain.value).toBe(0);
+    });
+
+    it('silences every track but the soloed ones', () => {
+        const engine = createEngine();
+        const volumes = () => [volumeOf(0).gain.value, volumeOf(1).gain.value];
+
+        engine.setTrackSoloed('erhu', true);
+
+        expect(engine.getTracks().get('erhu')).toMatchObject({ soloed: true });
+        expect(volumes()).toEqual([1, 0]);
+
+        // Mute wins over solo
+        engine.setTrackMuted('erhu', true);
+        expect(volumes()).toEqual([0, 0]);
+
+        engine.setTrackMuted('erhu', false);
+        engine.setTrackSoloed('erhu', false);
+        expect(volumes()).toEqual([1, 1]);
+    });
+
+    it('schedules the next pass of a loop from the loop start', () => {
+        const onEnded = vi.fn();
+        const engine = createEngine(onEnded);
+
+        engine.setLoop({ start: 0, end: 1 });
+        engine.play();
+        advance(1);
+
+        // The second pass starts one loop length after the first
+        expect(scheduledStarts('erhu')).toEqual([
+            expect.closeTo(0.05),
+            expect.closeTo(0.35),
+            expect.closeTo(1.05),
+        ]);
+        expect(scheduledStarts('guzheng')).toEqual([expect.closeTo(0.15), expect.closeTo(1.15)]);
+
+        ctx.currentTime = 1.1;
+        expect(engine.currentTime).toBeCloseTo(0.05);
+
+        advance(2);
+        expect(onEnded).not.toHaveBeenCalled();
+        expect(engine.isPlaying).toBe(true);
+    });
+
+    it('starts a loop from its start when the playhead is outside it', () => {
+        const engine = createEngine();
+
+        engine.setLoop({ start: 1.2, end: 1.8 });
+
+        expect(engine.loop).toEqual({ start: 1.2, end: 1.8 });
+        expect(engine.currentTime).toBe(1.2);
+
+        engine.setLoop(null);
+        expect(engine.loop).toBeNull();
+    });
+
+    it('slows the tempo with the playback rate', () => {
+        const engine = createEngine();
+
+        engine.setPlaybackRate(0.5);
+        engine.play();
+        advance(0.2);
+
+        const [first] = voiceOf('erhu').scheduleNote.mock.calls.map(([n]) => n);
+        expect(engine.playbackRate).toBe(0.5);
+        expect(first.startTime).toBeCloseTo(0.05);
+        expect(first.duration).toBeCloseTo(2);
+        expect(scheduledStarts('guzheng')).toEqual([expect.closeTo(0.25)]);
+        expect(engine.currentTime).toBeCloseTo(0.075);
+    });
+
+    it('routes each track through its effects chain', () => {
+        const engine = createEngine();
+        const effects = { ...DEFAULT_TRACK_EFFECTS, eq: { low: -6, mid: -3, high: 2 } };
+
+        engine.setTrackEffects('erhu', effects);
+        engine.setPlaybackRate(0.5);
+
+        expect(createTrackEffectsChain).toHaveBeenCalledWith(ctx, DEFAULT_TRACK_EFFECTS, mockParams.tempo);
+        expect(chainOf(0).update).toHaveBeenCalledWith(effects);
+        expect(chainOf(1).update).not.toHaveBeenCalled();
+        expect(chainOf(0).setTempo).toHaveBeenCalledWith(mockParams.tempo * 0.5);
+        expect(engine.getTracks().get('erhu')?.effects).toEqual(effects);
+    });
+
+    it('schedules automation lanes with the notes, following the loop', () => {
+        const engine = createEngine();
+        const automationGain = automationOf(0);
+
+        engine.setTrackAutomation('erhu', { volume: [{ time: 0, value: 1 }, { time: 1, value: 2 }] });
+        engine.setLoop({ start: 0, end: 1 });
+        engine.play();
+
+        // The first window runs from the start to the look-ahead horizon
+        expect(automationGain.gain.setValueAtTime).toHaveBeenCalledWith(1, expect.closeTo(0.05));
+        expect(automationGain.gain.linearRampToValueAtTime).toHaveBeenCalledWith(expect.closeTo(1.15), expect.closeTo(0.2));
+
+        advance(1);
+
+        // The lane reaches its last point at the loop end, then starts over with the next pass
+        expect(automationGain.gain.linearRampToValueAtTime).toHaveBeenCalledWith(2, expect.closeTo(1.05));
+        expect(automationGain.gain.setValueAtTime).toHaveBeenLastCalledWith(1, expect.closeTo(1.05));
+
+        engine.pause();
+        expect(automationGain.gain.cancelScheduledValues).toHaveBeenLastCalledWith(1);
+    });
+
+    it('offsets the track pan with the pan lane', () => {
+        const engine = createEngine();
+        const [erhuPanner] = ctx.createStereoPanner.mock.results.map((result) => result.value);
+
+        engine.setTrackPan('erhu', 0.5);
+        engine.setTrackAutomation('erhu', { pan: [{ time: 0, value: 0.8 }] });
+        engine.play();
+
+        expect(erhuPanner.pan.setValueAtTime).toHaveBeenLastCalledWith(1, expect.closeTo(0.05));
+
+        // Clearing the lane returns the panner to the track pan
+        engine.setTrackAutomation('erhu', {});
+        expect(erhuPanner.pan.cancelScheduledValues).toHaveBeenCalled();
+        expect(erhuPanner.pan.setValueAtTime).toHaveBeenLastCalledWith(0.5, 0);
+    });
+
+    it('mixes every track into a metered master bus', () => {
+        const engine = createEngine();
+        const bus = vi.mocked(createMasterBus).mock.results[0].value;
+
+        expect(bus.output.connect).toHaveBeenCalledWith(ctx.destination);
+        [0, 1].forEach((index) => expect(automationOf(index).connect).toHaveBeenCalledWith(bus.input));
+        expect(engine.getMeter()).toEqual({ left: { peak: -6, rms: -12 }, right: { peak: -7, rms: -13 } });
+
+        engine.dispose();
+        expect(bus.disconnect).toHaveBeenCalled();
+    });
+
+    it('reports the end of the composition and rewinds', () => {
+        const onEnded = vi.fn();
+        const engine = createEngine(onEnded);
+
+        engine.play();
+        advance(2.1);
+
+        expect(onEnded).toHaveBeenCalledTimes(1);
+        expect(engine.isPlaying).toBe(false);
+        expect(engine.currentTime).toBe(0);
+    });
+
+    it('releases the voices when disposed', () => {
+        const engine = createEngine();
+
+        engine.play();
+        engine.dispose();
+
+        expect(engine.isPlaying).toBe(false);
+        expect(voiceOf('erhu').dispose).toHaveBeenCalled();
+        expect(voiceOf('guzheng').dispose).toHaveBeenCalled();
+    });
+});
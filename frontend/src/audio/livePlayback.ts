@@ -0,0 +1,540 @@
+/**
+ * Live playback engine.
+ * Schedules a composition's notes onto the shared AudioContext while it
+ * plays, instead of rendering every track offline before playback can start.
+ *
+ * A look-ahead scheduler wakes up every few milliseconds and hands each voice
+ * the notes that start within the next fraction of a second, so playback
+ * begins as soon as the voices are built. Offline rendering
+ * (`SynthesizerEngine`) is only needed for exports.
+ */
+
+import type { Composition, CompositionParams, Instrument } from '../types/music';
+import type { InstrumentVoice, LoopRegion, MeterReading, ScheduledNote, TrackAutomation, TrackEffects } from './types';
+import { mapCompositionToTracks, getCompositionDuration, filterNotesInRange, sortNotesByTime } from './scheduling';
+import { createVoice } from './voices';
+import { createMasterBus, createTrackEffectsChain, DEFAULT_TRACK_EFFECTS } from './effects';
+import type { MasterBus, TrackEffectsChain } from './effects';
+import { getVoiceParams, INSTRUMENT_PAN } from './utils/moodParams';
+import { getRandomSource } from './utils/random';
+import { createTrackStrip } from './trackStrip';
+import type { TrackStrip } from './trackStrip';
+import { clampPlaybackRate, isTrackAudible, loopStartPosition, normalizeLoop, wrapLoopTime } from './utils/transport';
+import { hasAutomation, scheduleAutomation } from './utils/automation';
+import { getAudioContext } from '../utils/audioContext';
+
+/** How far ahead notes are scheduled, in seconds */
+const DEFAULT_LOOKAHEAD = 0.2;
+
+/** How often the scheduler wakes up, in milliseconds */
+const DEFAULT_INTERVAL = 25;
+
+/** Delay before the first note, so it isn't scheduled in the past */
+const START_DELAY = 0.05;
+
+/** Fade applied when stopping, to avoid clicks */
+const STOP_FADE = 0.02;
+
+/** Notes cut shorter than this by a seek or the loop end are skipped */
+const MIN_NOTE_DURATION = 0.05;
+
+/** A composition ready to play live */
+export interface LiveSession {
+    composition: Composition;
+    params: CompositionParams;
+    /** Seed each instrument is humanized with; matches the seeds used for export */
+    seeds: Partial<Record<Instrument, number>>;
+}
+
+/** Mixer state of one live track */
+export interface LiveTrackState {
+    volume: number;
+    /** Stereo position in [-1, 1] */
+    pan: number;
+    muted: boolean;
+    /** While any track is soloed, only soloed tracks play */
+    soloed: boolean;
+    /** Insert effects after the track's reverb, ahead of its volume */
+    effects: TrackEffects;
+}
+
+export interface LivePlaybackOptions {
+    /** Context to play on (default: the shared `getAudioContext()`) */
+    context?: AudioContext;
+    /** Seconds of notes scheduled ahead of the playhead */
+    lookahead?: number;
+    /** Scheduler wake-up interval in milliseconds */
+    interval?: number;
+    /** Called when playback reaches the end */
+    onEnded?: () => void;
+}
+
+/** One instrument's voice, notes and channel strip */
+interface LiveChannel {
+    voice: InstrumentVoice;
+    notes: ScheduledNote[];
+    /** Channel strip; its volume is the track volume, or 0 when not audible */
+    strip: TrackStrip;
+    effects: TrackEffectsChain;
+    /** Volume automation, after the track volume */
+    automationGain: GainNode;
+    state: LiveTrackState;
+    automation: TrackAutomation;
+    /** Input for the current play session; disconnected to silence scheduled notes */
+    session: GainNode | null;
+}
+
+const clamp = (value: number, min: number, max: number): number => Math.max(min, Math.min(max, value));
+
+/**
+ * Plays a composition in real time with per-track volume, pan, mute and solo,
+ * an optional loop region and a practice playback rate.
+ *
+ * Each track plays through the channel strip `SynthesizerEngine.renderMix`
+ * builds (see `createTrackStrip`): an instrument gain and panner with a
+ * pre-pan send to the track's own reverb, both feeding the insert effects and
+ * then the track volume. Tracks meet on a metered master bus, whose limiter
+ * stands in for the mixdown's look-ahead true-peak limiter.
+ *
+ * While playing, time runs on unrolled: each pass through the loop region
+ * adds the loop length to `passOffset`, so context time is always
+ * `contextStart + (compositionTime + passOffset) / rate`. The playback rate
+ * changes the tempo, not the pitch, as notes are scheduled rather than resampled.
+ * Automation lanes are scheduled window by window alongside the notes, so
+ * they follow the loop and the rate too.
+ */
+export class LivePlaybackEngine {
+    /** Length of the composition in seconds */
+    readonly duration: number;
+
+    private ctx: AudioContext;
+    private channels = new Map<Instrument, LiveChannel>();
+    private master: MasterBus;
+    private lookahead: number;
+    private interval: number;
+    private onEnded?: () => void;
+    /** Composed tempo; tempo-synced delays follow it times the playback rate */
+    private tempo: number;
+
+    private playing = false;
+    private rate = 1;
+    private loopRegion: LoopRegion | null = null;
+    /** Playhead while paused, in seconds */
+    private position = 0;
+    /** Context time at which the composition's time 0 plays, on the first pass */
+    private contextStart = 0;
+    /** Composition time up to which notes have been scheduled in the current pass */
+    private scheduledUntil = 0;
+    /** Where the current play session started */
+    private sessionStart = 0;
+    /** Where the current pass started; notes sounding there are trimmed */
+    private passStart = 0;
+    /** Loop lengths played so far in this session, in seconds */
+    private passOffset = 0;
+    private timer: ReturnType<typeof setInterval> | null = null;
+
+    constructor(
+        { composition, params, seeds }: LiveSession,
+        { context, lookahead = DEFAULT_LOOKAHEAD, interval = DEFAULT_INTERVAL, onEnded }: LivePlaybackOptions = {}
+    ) {
+        this.ctx = context ?? getAudioContext();
+        this.lookahead = lookahead;
+        this.interval = interval;
+        this.onEnded = onEnded;
+        this.duration = getCompositionDuration(composition, params.tempo);
+        this.tempo = params.tempo;
+
+        this.master = createMasterBus(this.ctx);
+        this.master.output.connect(this.ctx.destination);
+
+        for (const instrument of params.instruments) {
+            this.channels.set(instrument, this.createChannel(composition, {
+                ...params,
+                seed: seeds[instrument] ?? params.seed,
+            }, instrument));
+        }
+    }
+
+    /** Whether notes are being scheduled */
+    get isPlaying(): boolean {
+        return this.playing;
+    }
+
+    /** Playhead position in seconds */
+    get currentTime(): number {
+        if (!this.playing) return this.position;
+        // Hold at the start position until the first note plays
+        const elapsed = Math.max((this.ctx.currentTime - this.contextStart) * this.rate, this.sessionStart);
+        return this.loopRegion ? wrapLoopTime(elapsed, this.loopRegion) : Math.min(elapsed, this.duration);
+    }
+
+    /** Practice playback rate (1 = composed tempo) */
+    get playbackRate(): number {
+        return this.rate;
+    }
+
+    /** Region playback repeats, if any */
+    get loop(): LoopRegion | null {
+        return this.loopRegion;
+    }
+
+    /** Mixer state of every track */
+    getTracks(): Map<Instrument, LiveTrackState> {
+        const tracks = new Map<Instrument, LiveTrackState>();
+        this.channels.forEach((channel, instrument) => tracks.set(instrument, { ...channel.state }));
+        return tracks;
+    }
+
+    /**
+     * Start or resume playback from the playhead.
+     */
+    play(): void {
+        if (this.playing) return;
+
+        if (this.ctx.state === 'suspended') {
+            this.ctx.resume();
+        }
+        if (this.position >= this.duration) {
+            this.position = 0;
+        }
+        this.position = loopStartPosition(this.position, this.loopRegion);
+
+        this.contextStart = this.ctx.currentTime + START_DELAY - this.position / this.rate;
+        this.sessionStart = this.position;
+        this.scheduledUntil = this.position;
+        this.passStart = this.position;
+        this.passOffset = 0;
+
+        this.channels.forEach((channel) => {
+            const session = this.ctx.createGain();
+            session.connect(channel.strip.input);
+            channel.session = session;
+        });
+
+        this.playing = true;
+        this.tick();
+        this.timer = setInterval(this.tick, this.interval);
+    }
+
+    /**
+     * Pause, silencing notes that were already scheduled.
+     */
+    pause(): void {
+        if (!this.playing) return;
+
+        this.position = this.currentTime;
+        this.stopSession();
+    }
+
+    /**
+     * Move the playhead; playback continues from there if it was playing.
+     */
+    seek(time: number): void {
+        this.restartWith(() => {
+            this.position = clamp(time, 0, this.duration);
+        });
+    }
+
+    /**
+     * Change the tempo of playback (clamped to the practice range).
+     */
+    setPlaybackRate(rate: number): void {
+        this.restartWith(() => {
+            this.rate = clampPlaybackRate(rate);
+        });
+        this.channels.forEach((channel) => channel.effects.setTempo(this.tempo * this.rate));
+    }
+
+    /**
+     * Repeat a region of the composition, or play straight through with null.
+     * Playback jumps to the loop start if the playhead is outside the region.
+     */
+    setLoop(loop: LoopRegion | null): void {
+        this.restartWith(() => {
+            this.loopRegion = normalizeLoop(loop, this.duration);
+            this.position = loopStartPosition(this.position, this.loopRegion);
+        });
+    }
+
+    setTrackVolume(instrument: Instrument, volume: number): void {
+        const channel = this.channels.get(instrument);
+        if (!channel) return;
+
+        channel.state.volume = clamp(volume, 0, 1);
+        this.applyGains();
+    }
+
+    setTrackMuted(instrument: Instrument, muted: boolean): void {
+        const channel = this.channels.get(instrument);
+        if (!channel) return;
+
+        channel.state.muted = muted;
+        this.applyGains();
+    }
+
+    setTrackSoloed(instrument: Instrument, soloed: boolean): void {
+        const channel = this.channels.get(instrument);
+        if (!channel) return;
+
+        channel.state.soloed = soloed;
+        this.applyGains();
+    }
+
+    setTrackPan(instrument: Instrument, pan: number): void {
+        const channel = this.channels.get(instrument);
+        if (!channel) return;
+
+        channel.state.pan = clamp(pan, -1, 1);
+        // An automated pan picks up the new position from the next scheduled window
+        if (!channel.automation.pan?.length) {
+            channel.strip.panner.pan.value = channel.state.pan;
+        }
+    }
+
+    setTrackEffects(instrument: Instrument, effects: TrackEffects): void {
+        const channel = this.channels.get(instrument);
+        if (!channel) return;
+
+        channel.state.effects = effects;
+        channel.effects.update(effects);
+    }
+
+    /**
+     * Replace a track's automation lanes. While playing, what was already
+     * scheduled is dropped and the new lanes take over from the playhead.
+     */
+    setTrackAutomation(instrument: Instrument, automation: TrackAutomation): void {
+        const channel = this.channels.get(instrument);
+        if (!channel || (!hasAutomation(automation) && !hasAutomation(channel.automation))) return;
+
+        channel.automation = automation;
+        this.resetAutomation(channel);
+
+        if (this.playing) {
+            const position = (this.ctx.currentTime - this.contextStart) * this.rate - this.passOffset;
+            this.scheduleAutomation(channel, Math.max(position, this.passStart), this.scheduledUntil);
+        }
+    }
+
+    /** Current master bus levels */
+    getMeter(): MeterReading {
+        return this.master.getMeter();
+    }
+
+    /**
+     * Stop playback and release the voices and audio graph.
+     */
+    dispose(): void {
+        this.pause();
+        this.channels.forEach((channel) => {
+            channel.voice.dispose();
+            channel.strip.disconnect();
+            channel.automationGain.disconnect();
+        });
+        this.channels.clear();
+        this.master.disconnect();
+    }
+
+    /**
+     * Build one instrument's voice and channel strip and map its notes.
+     */
+    private createChannel(composition: Composition, params: CompositionParams, instrument: Instrument): LiveChannel {
+        const voice = createVoice(
+            instrument,
+            this.ctx,
+            getVoiceParams(instrument, params.mood, params.stringModels?.[instrument]),
+            getRandomSource(params.seed, `${instrument}:voice`)
+        );
+
+        const track = mapCompositionToTracks(composition, { ...params, instruments: [instrument] }).get(instrument);
+
+        const state: LiveTrackState = {
+            volume: 1,
+            pan: INSTRUMENT_PAN[instrument] ?? 0,
+            muted: false,
+            soloed: false,
+            effects: DEFAULT_TRACK_EFFECTS,
+        };
+
+        // The chain is kept even while neutral, so effects can change during playback
+        const effects = createTrackEffectsChain(this.ctx, state.effects, params.tempo);
+
+        const automationGain = this.ctx.createGain();
+        automationGain.connect(this.master.input);
+
+        const strip = createTrackStrip(this.ctx, {
+            instrument,
+            mood: params.mood,
+            pan: state.pan,
+            volume: state.volume,
+            effects,
+            random: getRandomSource(params.seed, `${instrument}:reverb`),
+        }, automationGain);
+
+        return {
+            voice,
+            notes: sortNotesByTime(track?.notes ?? []),
+            strip,
+            effects,
+            automationGain,
+            state,
+            automation: {},
+            session: null,
+        };
+    }
+
+    private applyGains(): void {
+        const soloActive = Array.from(this.channels.values()).some((channel) => channel.state.soloed);
+
+        this.channels.forEach((channel) => {
+            channel.strip.volume.gain.value = isTrackAudible(channel.state, soloActive) ? channel.state.volume : 0;
+        });
+    }
+
+    /**
+     * Apply a change to the playhead, rate or loop, restarting playback
+     * around it so notes scheduled under the old settings are dropped.
+     */
+    private restartWith(change: () => void): void {
+        const wasPlaying = this.playing;
+        this.pause();
+
+        change();
+
+        if (wasPlaying) this.play();
+    }
+
+    /**
+     * Schedule every note starting before the look-ahead horizon.
+     * With a loop, each pass is scheduled up to the loop end and the next
+     * pass continues from the loop start.
+     */
+    private tick = (): void => {
+        if (!this.playing) return;
+
+        const position = (this.ctx.currentTime - this.contextStart) * this.rate;
+        if (!this.loopRegion && position >= this.duration) {
+            this.finish();
+            return;
+        }
+
+        const horizon = position + this.lookahead * this.rate;
+
+        while (this.passOffset + this.scheduledUntil < horizon) {
+            const to = Math.min(horizon - this.passOffset, this.loopRegion?.end ?? this.duration);
+            if (to > this.scheduledUntil) {
+                this.channels.forEach((channel) => {
+                    this.scheduleWindow(channel, this.scheduledUntil, to);
+                    this.scheduleAutomation(channel, this.scheduledUntil, to);
+                });
+                this.scheduledUntil = to;
+            }
+            if (!this.loopRegion || to < this.loopRegion.end) break;
+
+            this.passOffset += this.loopRegion.end - this.loopRegion.start;
+            this.scheduledUntil = this.passStart = this.loopRegion.start;
+        }
+    };
+
+    /**
+     * Hand a channel's notes in [from, to) to its voice, in context time.
+     * Notes already sounding when a session or loop pass starts are shortened
+     * to start at the playhead; later windows skip them, as they were
+     * scheduled before. Notes are cut at the loop end.
+     */
+    private scheduleWindow(channel: LiveChannel, from: number, to: number): void {
+        if (!channel.session) return;
+
+        for (const note of filterNotesInRange(channel.notes, from, to)) {
+            let { startTime, duration } = note;
+
+            if (startTime < from) {
+                if (from !== this.passStart) continue;
+                duration -= from - startTime;
+                startTime = from;
+                if (duration < MIN_NOTE_DURATION) continue;
+            }
+
+            if (this.loopRegion && startTime + duration > this.loopRegion.end) {
+                duration = this.loopRegion.end - startTime;
+                if (duration < MIN_NOTE_DURATION) continue;
+            }
+
+            channel.voice.scheduleNote(
+                {
+                    ...note,
+                    startTime: this.contextStart + (startTime + this.passOffset) / this.rate,
+                    duration: duration / this.rate,
+                },
+                channel.session
+            );
+        }
+    }
+
+    /**
+     * Schedule a channel's automation lanes over [from, to) of the current pass.
+     */
+    private scheduleAutomation(channel: LiveChannel, from: number, to: number): void {
+        if (!hasAutomation(channel.automation)) return;
+
+        const { volume, pan, send } = channel.automation;
+        const window = { from, to, when: this.contextStart + (from + this.passOffset) / this.rate, rate: this.rate };
+
+        scheduleAutomation(channel.automationGain.gain, 'volume', volume, window);
+        scheduleAutomation(channel.strip.panner.pan, 'pan', pan, window, (value) => clamp(channel.state.pan + value, -1, 1));
+        if (channel.strip.send) {
+            const { level } = channel.strip.send;
+            scheduleAutomation(channel.strip.send.gain.gain, 'send', send, window, (value) => level * value);
+        }
+    }
+
+    /**
+     * Drop a channel's scheduled automation and return its params to the
+     * track settings; the next window picks the lanes up again.
+     */
+    private resetAutomation(channel: LiveChannel): void {
+        const now = this.ctx.currentTime;
+        const params: [AudioParam, number][] = [
+            [channel.automationGain.gain, 1],
+            [channel.strip.panner.pan, channel.state.pan],
+        ];
+        const { send } = channel.strip;
+        if (send) params.push([send.gain.gain, send.level]);
+
+        params.forEach(([param, value]) => {
+            param.cancelScheduledValues(now);
+            param.setValueAtTime(value, now);
+        });
+    }
+
+    /**
+     * Stop scheduling and fade out the current session's notes.
+     */
+    private stopSession(): void {
+        if (this.timer !== null) {
+            clearInterval(this.timer);
+            this.timer = null;
+        }
+
+        const now = this.ctx.currentTime;
+        this.channels.forEach((channel) => {
+            const session = channel.session;
+            if (!session) return;
+
+            session.gain.setValueAtTime(session.gain.value, now);
+            session.gain.linearRampToValueAtTime(0, now + STOP_FADE);
+            setTimeout(() => session.disconnect(), STOP_FADE * 1000 + 50);
+            channel.session = null;
+
+            if (hasAutomation(channel.automation)) this.resetAutomation(channel);
+        });
+
+        this.playing = false;
+    }
+
+    private finish(): void {
+        this.stopSession();
+        this.position = 0;
+        this.onEnded?.();
+    }
+}
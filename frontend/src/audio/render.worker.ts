@@ -0,0 +1,34 @@
+/**
+ * Render worker: renders one instrument track or the ensemble mixdown per
+ * request and encodes it as WAV, reporting progress along the way. Uses
+ * `OfflineAudioContext` where workers have it, otherwise the DSP renderer.
+ */
+
+import { SynthesizerEngine } from './synthesizer';
+import type { RenderRequest, RenderResponse } from './renderPool';
+
+const engine = new SynthesizerEngine();
+
+const post = (message: RenderResponse) => self.postMessage(message);
+
+self.onmessage = async ({ data: request }: MessageEvent<RenderRequest>) => {
+    const { id } = request;
+    const onProgress = (progress: number) => post({ id, type: 'progress', progress });
+
+    try {
+        if (request.type === 'mix') {
+            const wav = await engine.renderMixToWav(request.composition, request.params, request.mix, onProgress);
+            post({ id, type: 'mixed', wav });
+        } else {
+            const audioContent = await engine.renderTrackToBase64(
+                request.composition,
+                request.instrument,
+                request.params,
+                onProgress
+            );
+            post({ id, type: 'done', audioContent });
+        }
+    } catch (error) {
+        post({ id, type: 'error', message: error instanceof Error ? error.message : 'Unknown error' });
+    }
+};
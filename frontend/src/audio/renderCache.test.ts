@@ -0,0 +1,93 @@
+/**
+ * Tests for renderCache.ts
+ */
+
+import { describe, it, expect } from 'vitest';
+import { RenderCache, renderCacheKey } from './renderCache';
+import type { Composition, CompositionParams } from '../types/music';
+
+describe('renderCache', () => {
+    const render = (seed: number) => ({ audioContent: 'YQ==', mimeType: 'audio/wav', seed });
+
+    describe('RenderCache', () => {
+        it('returns stored renders', () => {
+            const cache = new RenderCache(2);
+            cache.set('a', render(1));
+
+            expect(cache.get('a')).toEqual(render(1));
+            expect(cache.get('b')).toBeUndefined();
+        });
+
+        it('evicts the least recently used render', () => {
+            const cache = new RenderCache(2);
+            cache.set('a', render(1));
+            cache.set('b', render(2));
+
+            // Reading 'a' makes 'b' the oldest
+            cache.get('a');
+            cache.set('c', render(3));
+
+            expect(cache.size).toBe(2);
+            expect(cache.get('a')).toBeDefined();
+            expect(cache.get('b')).toBeUndefined();
+            expect(cache.get('c')).toBeDefined();
+        });
+
+        it('clears all renders', () => {
+            const cache = new RenderCache(2);
+            cache.set('a', render(1));
+            cache.clear();
+
+            expect(cache.size).toBe(0);
+        });
+    });
+
+    describe('renderCacheKey', () => {
+        const composition: Composition = {
+            scale: ['C4', 'D4', 'E4', 'G4', 'A4'],
+            motif: { pitches: ['C4', 'E4'], rhythm: [1, 1] },
+            form: ['A', 'B'],
+            instrumentRoles: { erhu: 'melody' },
+            euclideanPatterns: { erhu: [1, 0, 1, 0] },
+        };
+        const params: CompositionParams & { seed: number } = {
+            mode: 'gong',
+            root: 'C',
+            tempo: 72,
+            instruments: ['erhu'],
+            mood: 'calm',
+            seed: 42,
+        };
+
+        it('is stable for equal inputs', () => {
+            expect(renderCacheKey(composition, 'erhu', params))
+                .toBe(renderCacheKey({ ...composition }, 'erhu', { ...params }));
+        });
+
+        it('differs when anything that affects the audio changes', () => {
+            const key = renderCacheKey(composition, 'erhu', params);
+
+            expect(renderCacheKey(composition, 'dizi', params)).not.toBe(key);
+            expect(renderCacheKey(composition, 'erhu', { ...params, seed: 43 })).not.toBe(key);
+            expect(renderCacheKey(composition, 'erhu', { ...params, tempo: 80 })).not.toBe(key);
+            expect(renderCacheKey({ ...composition, form: ['A'] }, 'erhu', params)).not.toBe(key);
+            expect(renderCacheKey(composition, 'guzheng', { ...params, stringModels: { guzheng: 'lite' } }))
+                .not.toBe(renderCacheKey(composition, 'guzheng', params));
+        });
+
+        it('treats the default string model like an unset one', () => {
+            expect(renderCacheKey(composition, 'guzheng', { ...params, stringModels: { guzheng: 'physical' } }))
+                .toBe(renderCacheKey(composition, 'guzheng', params));
+        });
+
+        it('only reads the string model of its own instrument', () => {
+            expect(renderCacheKey(composition, 'pipa', { ...params, stringModels: { guzheng: 'lite' } }))
+                .toBe(renderCacheKey(composition, 'pipa', params));
+        });
+
+        it('ignores the compose engine', () => {
+            expect(renderCacheKey(composition, 'erhu', { ...params, engine: 'offline' }))
+                .toBe(renderCacheKey(composition, 'erhu', params));
+        });
+    });
+});
@@ -0,0 +1,79 @@
+/**
+ * In-memory cache of recently rendered tracks.
+ *
+ * Seeded renders are deterministic, so a track rendered once (for example
+ * right after generation) can be reused when the same composition is opened
+ * again from history instead of being synthesized a second time.
+ */
+
+import type { Composition, CompositionParams, Instrument } from '../types/music';
+import { DEFAULT_STRING_MODEL } from './voices/PluckedStringVoice';
+
+/** A rendered track as returned by `synthesizeInstrument` */
+export interface CachedRender {
+    audioContent: string;
+    mimeType: string;
+    seed: number;
+}
+
+/**
+ * Least-recently-used cache of rendered tracks.
+ */
+export class RenderCache {
+    private entries = new Map<string, CachedRender>();
+
+    /**
+     * @param maxEntries - Number of tracks to keep; the least recently used is evicted first
+     */
+    constructor(private readonly maxEntries: number) {}
+
+    get size(): number {
+        return this.entries.size;
+    }
+
+    get(key: string): CachedRender | undefined {
+        const render = this.entries.get(key);
+        if (render) {
+            // Re-insert to mark as most recently used
+            this.entries.delete(key);
+            this.entries.set(key, render);
+        }
+        return render;
+    }
+
+    set(key: string, render: CachedRender): void {
+        this.entries.delete(key);
+        this.entries.set(key, render);
+
+        while (this.entries.size > this.maxEntries) {
+            const oldest = this.entries.keys().next().value as string;
+            this.entries.delete(oldest);
+        }
+    }
+
+    clear(): void {
+        this.entries.clear();
+    }
+}
+
+/**
+ * Build the cache key for one track of a seeded render.
+ * Everything that affects the rendered audio is part of the key.
+ */
+export function renderCacheKey(
+    composition: Composition,
+    instrument: Instrument,
+    params: CompositionParams & { seed: number }
+): string {
+    return JSON.stringify([
+        instrument,
+        params.seed,
+        params.tempo,
+        params.mood,
+        params.mode,
+        params.root,
+        params.instruments,
+        params.stringModels?.[instrument] ?? DEFAULT_STRING_MODEL,
+        composition,
+    ]);
+}
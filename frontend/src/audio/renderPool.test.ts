@@ -0,0 +1,181 @@
+/**
+ * Unit tests for the render worker pool.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { RenderPool, RenderAbortedError } from './renderPool';
+import type { RenderRequest, RenderResponse } from './renderPool';
+import { mockComposition, mockParams } from '../test/utils';
+
+type WorkerReply<T = RenderResponse> = T extends unknown ? Omit<T, 'id'> : never;
+
+class FakeWorker {
+    onmessage: ((event: MessageEvent<RenderResponse>) => void) | null = null;
+    onerror: ((event: ErrorEvent) => void) | null = null;
+    requests: RenderRequest[] = [];
+    terminate = vi.fn();
+
+    postMessage(request: RenderRequest) {
+        this.requests.push(request);
+    }
+
+    /** Reply to the latest request */
+    reply(response: WorkerReply) {
+        const { id } = this.requests[this.requests.length - 1];
+        this.onmessage?.({ data: { ...response, id } } as unknown as MessageEvent<RenderResponse>);
+    }
+
+    crash(message: string) {
+        this.onerror?.({ message, preventDefault: vi.fn() } as unknown as ErrorEvent);
+    }
+}
+
+describe('RenderPool', () => {
+    let workers: FakeWorker[];
+    let pool: RenderPool;
+
+    const render = (options = {}) => pool.render(mockComposition, 'erhu', mockParams, options);
+
+    beforeEach(() => {
+        workers = [];
+        pool = new RenderPool(2, () => {
+            const worker = new FakeWorker();
+            workers.push(worker);
+            return worker as unknown as Worker;
+        });
+    });
+
+    it('sends the render request to a worker', () => {
+        render();
+
+        expect(workers).toHaveLength(1);
+        expect(workers[0].requests[0]).toEqual(expect.objectContaining({
+            type: 'track',
+            composition: mockComposition,
+            instrument: 'erhu',
+            params: mockParams,
+        }));
+    });
+
+    it('renders the mixdown on a worker and resolves with its WAV', async () => {
+        const mix = { masterGain: 0.8 };
+        const wav = new Blob(['wav'], { type: 'audio/wav' });
+        const onProgress = vi.fn();
+
+        const result = pool.renderMix(mockComposition, mockParams, mix, { onProgress });
+        expect(workers[0].requests[0]).toEqual(expect.objectContaining({
+            type: 'mix',
+            composition: mockComposition,
+            params: mockParams,
+            mix,
+        }));
+
+        workers[0].reply({ type: 'progress', progress: 0.5 });
+        workers[0].reply({ type: 'mixed', wav });
+
+        expect(onProgress).toHaveBeenCalledWith(0.5);
+        await expect(result).resolves.toBe(wav);
+        expect(pool.activeCount).toBe(0);
+    });
+
+    it('resolves with the audio the worker returns', async () => {
+        const result = render();
+        workers[0].reply({ type: 'done', audioContent: 'UklGRg==' });
+
+        await expect(result).resolves.toBe('UklGRg==');
+    });
+
+    it('rejects when the worker reports an error', async () => {
+        const result = render();
+        workers[0].reply({ type: 'error', message: 'Track not generated' });
+
+        await expect(result).rejects.toThrow('Track not generated');
+    });
+
+    it('forwards progress', () => {
+        const onProgress = vi.fn();
+        render({ onProgress });
+
+        workers[0].reply({ type: 'progress', progress: 0.5 });
+
+        expect(onProgress).toHaveBeenCalledWith(0.5);
+    });
+
+    it('runs up to its size at once and queues the rest', async () => {
+        render();
+        render();
+        const third = render();
+
+        expect(workers).toHaveLength(2);
+        expect(pool.activeCount).toBe(2);
+        expect(pool.queuedCount).toBe(1);
+
+        workers[0].reply({ type: 'done', audioContent: 'a' });
+
+        // The freed worker takes the queued render
+        expect(workers).toHaveLength(2);
+        expect(workers[0].requests).toHaveLength(2);
+        expect(pool.queuedCount).toBe(0);
+
+        workers[0].reply({ type: 'done', audioContent: 'c' });
+        await expect(third).resolves.toBe('c');
+    });
+
+    it('drops a queued render when aborted', async () => {
+        render();
+        render();
+        const controller = new AbortController();
+        const queued = render({ signal: controller.signal });
+
+        controller.abort();
+
+        await expect(queued).rejects.toBeInstanceOf(RenderAbortedError);
+        expect(pool.queuedCount).toBe(0);
+        expect(workers.every((worker) => worker.terminate.mock.calls.length === 0)).toBe(true);
+    });
+
+    it('terminates the worker of a running render when aborted', async () => {
+        const controller = new AbortController();
+        const running = render({ signal: controller.signal });
+
+        controller.abort();
+
+        await expect(running).rejects.toBeInstanceOf(RenderAbortedError);
+        expect(workers[0].terminate).toHaveBeenCalled();
+        expect(pool.activeCount).toBe(0);
+
+        // The next render gets a fresh worker
+        render();
+        expect(workers).toHaveLength(2);
+    });
+
+    it('rejects at once when the signal is already aborted', async () => {
+        const controller = new AbortController();
+        controller.abort();
+
+        await expect(render({ signal: controller.signal })).rejects.toBeInstanceOf(RenderAbortedError);
+        expect(workers).toHaveLength(0);
+    });
+
+    it('rejects the render of a worker that crashes and replaces the worker', async () => {
+        const result = render();
+        workers[0].crash('Failed to load worker');
+
+        await expect(result).rejects.toThrow('Failed to load worker');
+        expect(workers[0].terminate).toHaveBeenCalled();
+
+        render();
+        expect(workers).toHaveLength(2);
+    });
+
+    it('rejects every pending render on terminate', async () => {
+        const renders = [render(), render(), render()];
+
+        pool.terminate();
+
+        for (const result of renders) {
+            await expect(result).rejects.toBeInstanceOf(RenderAbortedError);
+        }
+        expect(workers.every((worker) => worker.terminate.mock.calls.length === 1)).toBe(true);
+    });
+});
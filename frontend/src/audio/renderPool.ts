@@ -0,0 +1,281 @@
+/**
+ * Pool of render workers.
+ * Renders instrument tracks and the ensemble mixdown and encodes them to WAV
+ * off the main thread, several at a time, with per-render progress and
+ * cancellation.
+ */
+
+import type { Composition, CompositionParams, Instrument } from '../types/music';
+import type { MixSettings } from './types';
+import { RENDERING } from '../config/constants';
+
+/** One instrument track, returned as base64 WAV */
+interface TrackJob {
+    type: 'track';
+    composition: Composition;
+    instrument: Instrument;
+    /** Parameters with the seed already resolved */
+    params: CompositionParams;
+}
+
+/** The ensemble mixdown, returned as a WAV Blob */
+interface MixJob {
+    type: 'mix';
+    composition: Composition;
+    params: CompositionParams;
+    mix: MixSettings;
+}
+
+type RenderJob = TrackJob | MixJob;
+
+/** Message sent to a render worker */
+export type RenderRequest = RenderJob & { id: number };
+
+/** Message sent back by a render worker */
+export type RenderResponse =
+    | { id: number; type: 'progress'; progress: number }
+    | { id: number; type: 'done'; audioContent: string }
+    | { id: number; type: 'mixed'; wav: Blob }
+    | { id: number; type: 'error'; message: string };
+
+export interface RenderTaskOptions {
+    /** Called with the render progress (0-1) */
+    onProgress?: (progress: number) => void;
+    /** Aborting drops a queued render or terminates the worker running it */
+    signal?: AbortSignal;
+}
+
+export class RenderAbortedError extends Error {
+    readonly code = 'RENDER_ABORTED';
+
+    constructor(message = 'Render aborted') {
+        super(message);
+        this.name = 'RenderAbortedError';
+    }
+}
+
+interface RenderTask {
+    request: RenderRequest;
+    onProgress?: (progress: number) => void;
+    signal?: AbortSignal;
+    resolve: (result: string | Blob) => void;
+    reject: (error: Error) => void;
+    /** Worker running the task, once dispatched */
+    worker: Worker | null;
+}
+
+/**
+ * Runs renders on up to `size` workers, queueing the rest.
+ * Workers are created on demand and reused; a worker is terminated when its
+ * render is aborted, and replaced when the next render needs one.
+ */
+export class RenderPool {
+    private size: number;
+    private createWorker: () => Worker;
+    private idle: Worker[] = [];
+    private workerCount = 0;
+    private queue: RenderTask[] = [];
+    private running = new Map<number, RenderTask>();
+    private nextId = 1;
+
+    constructor(size: number, createWorker: () => Worker) {
+        this.size = Math.max(1, size);
+        this.createWorker = createWorker;
+    }
+
+    /** Renders waiting for a worker */
+    get queuedCount(): number {
+        return this.queue.length;
+    }
+
+    /** Renders in progress */
+    get activeCount(): number {
+        return this.running.size;
+    }
+
+    /**
+     * Render one instrument track to base64 WAV on a worker.
+     * Rejects with `RenderAbortedError` when the signal aborts first.
+     */
+    render(
+        composition: Composition,
+        instrument: Instrument,
+        params: CompositionParams,
+        options: RenderTaskOptions = {}
+    ): Promise<string> {
+        return this.enqueue({ type: 'track', composition, instrument, params }, options) as Promise<string>;
+    }
+
+    /**
+     * Render the ensemble mixdown to a WAV Blob on a worker.
+     * Rejects with `RenderAbortedError` when the signal aborts first.
+     */
+    renderMix(
+        composition: Composition,
+        params: CompositionParams,
+        mix: MixSettings,
+        options: RenderTaskOptions = {}
+    ): Promise<Blob> {
+        return this.enqueue({ type: 'mix', composition, params, mix }, options) as Promise<Blob>;
+    }
+
+    /**
+     * Terminate every worker and reject all pending renders.
+     */
+    terminate(): void {
+        const tasks = [...this.queue, ...this.running.values()];
+        this.queue = [];
+        this.running.clear();
+
+        tasks.forEach((task) => {
+            task.worker?.terminate();
+            task.reject(new RenderAbortedError());
+        });
+        this.idle.forEach((worker) => worker.terminate());
+        this.idle = [];
+        this.workerCount = 0;
+    }
+
+    /**
+     * Queue a render for the next free worker.
+     */
+    private enqueue(job: RenderJob, { onProgress, signal }: RenderTaskOptions): Promise<string | Blob> {
+        if (signal?.aborted) {
+            return Promise.reject(new RenderAbortedError());
+        }
+
+        return new Promise((resolve, reject) => {
+            const task: RenderTask = {
+                request: { ...job, id: this.nextId++ },
+                onProgress,
+                signal,
+                resolve,
+                reject,
+                worker: null,
+            };
+
+            signal?.addEventListener('abort', () => this.abort(task), { once: true });
+            this.queue.push(task);
+            this.dispatch();
+        });
+    }
+
+    private dispatch(): void {
+        while (this.queue.length > 0) {
+            const worker = this.acquireWorker();
+            if (!worker) return;
+
+            const task = this.queue.shift()!;
+            task.worker = worker;
+            this.running.set(task.request.id, task);
+            worker.postMessage(task.request);
+        }
+    }
+
+    private acquireWorker(): Worker | null {
+        const idle = this.idle.pop();
+        if (idle) return idle;
+        if (this.workerCount >= this.size) return null;
+
+        const worker = this.createWorker();
+        this.workerCount++;
+        worker.onmessage = (event: MessageEvent<RenderResponse>) => this.handleMessage(event.data);
+        worker.onerror = (event: ErrorEvent) => {
+            event.preventDefault();
+            this.handleCrash(worker, event.message);
+        };
+        return worker;
+    }
+
+    private handleMessage(message: RenderResponse): void {
+        const task = this.running.get(message.id);
+        if (!task) return;
+
+        switch (message.type) {
+            case 'progress':
+                task.onProgress?.(message.progress);
+                break;
+            case 'done':
+                this.release(task);
+                task.resolve(message.audioContent);
+                break;
+            case 'mixed':
+                this.release(task);
+                task.resolve(message.wav);
+                break;
+            case 'error':
+                this.release(task);
+                task.reject(new Error(message.message));
+                break;
+        }
+    }
+
+    /**
+     * Return a finished task's worker to the pool and start the next render.
+     */
+    private release(task: RenderTask): void {
+        this.running.delete(task.request.id);
+        if (task.worker) {
+            this.idle.push(task.worker);
+            task.worker = null;
+        }
+        this.dispatch();
+    }
+
+    private abort(task: RenderTask): void {
+        const queued = this.queue.indexOf(task);
+        if (queued >= 0) {
+            this.queue.splice(queued, 1);
+        } else if (this.running.delete(task.request.id)) {
+            // Rendering can't be interrupted, so the worker goes with it
+            task.worker?.terminate();
+            task.worker = null;
+            this.workerCount--;
+        } else {
+            return;
+        }
+
+        task.reject(new RenderAbortedError());
+        this.dispatch();
+    }
+
+    /**
+     * A worker failed outside a render's own error handling (e.g. failed to load).
+     */
+    private handleCrash(worker: Worker, message: string): void {
+        worker.terminate();
+        this.workerCount--;
+        this.idle = this.idle.filter((idle) => idle !== worker);
+
+        for (const task of this.running.values()) {
+            if (task.worker === worker) {
+                this.running.delete(task.request.id);
+                task.reject(new Error(message || 'Render worker failed'));
+            }
+        }
+        this.dispatch();
+    }
+}
+
+let defaultPool: RenderPool | null = null;
+
+/**
+ * Whether renders can run on workers in this environment.
+ */
+export function canRenderInWorkers(): boolean {
+    return typeof Worker !== 'undefined';
+}
+
+/**
+ * Get the shared render pool, sized to the machine.
+ */
+export function getRenderPool(): RenderPool {
+    if (!defaultPool) {
+        const cores = typeof navigator !== 'undefined' ? navigator.hardwareConcurrency || 2 : 2;
+        defaultPool = new RenderPool(
+            Math.min(RENDERING.MAX_WORKERS, cores - 1),
+            () => new Worker(new URL('./render.worker.ts', import.meta.url), { type: 'module' })
+        );
+    }
+    return defaultPool;
+}
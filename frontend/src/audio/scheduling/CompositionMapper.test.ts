@@ -3,11 +3,12 @@
  */
 
 import { describe, it, expect, vi, beforeEach } from 'vitest';
-import { mapCompositionToTracks, getCompositionDuration, buildScale } from './CompositionMapper';
+import { mapCompositionToTracks, getCompositionDuration, getSectionStartTimes, buildScale, SEQUENCE_GRID, REST_ROLE } from './CompositionMapper';
 import type { Composition, CompositionParams, Motif, Instrument } from '../../types/music';
 import { SECTION_DURATION } from '../types';
 import * as EuclideanRhythm from './EuclideanRhythm';
 import * as MoodParams from '../utils/moodParams';
+import { DIZI_ARTICULATION } from '../voices/DiziVoice';
 
 // Mock dependencies to control timing and randomness
 vi.mock('./EuclideanRhythm', async (importOriginal) => {
@@ -138,6 +139,94 @@ describe('CompositionMapper', () => {
             const composition = { ...mockComposition, form: ['A', 'B', "A'", "A''"] };
             expect(getCompositionDuration(composition)).toBe(4 * SECTION_DURATION);
         });
+
+        it('extends to the end of a longer note sequence', () => {
+            const composition: Composition = {
+                ...mockComposition,
+                form: ['A'],
+                sequences: { erhu: [{ pitch: 'C4', start: 60, duration: 4, velocity: 0.8 }] },
+            };
+
+            // 64 beats at 120 BPM = 32 seconds
+            expect(getCompositionDuration(composition, 120)).toBe(32);
+            expect(getCompositionDuration(composition, 480)).toBe(SECTION_DURATION);
+        });
+    });
+
+    describe('getSectionStartTimes', () => {
+        it('starts a section every SECTION_DURATION', () => {
+            const composition = { ...mockComposition, form: ['A', 'B', "A'"] };
+            expect(getSectionStartTimes(composition)).toEqual([0, SECTION_DURATION, 2 * SECTION_DURATION]);
+        });
+
+        it('stretches the sections over a longer note sequence', () => {
+            const composition: Composition = {
+                ...mockComposition,
+                form: ['A', 'B'],
+                sequences: { erhu: [{ pitch: 'C4', start: 0, duration: 160, velocity: 0.8 }] },
+            };
+
+            // 160 beats at 120 BPM = 80 seconds
+            expect(getSectionStartTimes(composition, 120)).toEqual([0, 40]);
+        });
+    });
+
+    describe('Note Sequences', () => {
+        it('plays an instrument\'s sequence verbatim instead of the motif', () => {
+            const composition: Composition = {
+                ...mockComposition,
+                sequences: {
+                    erhu: [
+                        { pitch: 'G4', start: 2, duration: 1, velocity: 0.5 },
+                        { pitch: 'A4', start: 0, duration: 2, velocity: 0.9 },
+                    ],
+                },
+            };
+
+            const tracks = mapCompositionToTracks(composition, mockParams);
+
+            // 120 BPM = 0.5 s per beat, sorted by start time
+            expect(tracks.get('erhu')?.notes).toEqual([
+                expect.objectContaining({ pitch: 'A4', startTime: 0, duration: 1, velocity: 0.9, instrument: 'erhu' }),
+                expect.objectContaining({ pitch: 'G4', startTime: 1, duration: 0.5, velocity: 0.5, instrument: 'erhu' }),
+            ]);
+            // Instruments without a sequence are still generated from the motif
+            expect(tracks.get('guzheng')?.notes.length).toBeGreaterThan(0);
+        });
+
+        it('quantizes starts and durations to the sequence grid', () => {
+            const composition: Composition = {
+                ...mockComposition,
+                sequences: {
+                    erhu: [
+                        { pitch: 'C4', start: 0.13, duration: 0.02, velocity: 1.5 },
+                        { pitch: 'D4', start: 1.07, duration: 0.9, velocity: 0.5 },
+                    ],
+                },
+            };
+
+            const notes = mapCompositionToTracks(composition, { ...mockParams, tempo: 60 }).get('erhu')!.notes;
+
+            expect(notes.map((n) => n.startTime)).toEqual([0.25, 1]);
+            // Durations never quantize below one grid step; velocity is clamped
+            expect(notes.map((n) => n.duration)).toEqual([SEQUENCE_GRID, 1]);
+            expect(notes[0].velocity).toBe(1);
+        });
+
+        it('skips notes with unparseable pitches', () => {
+            const composition: Composition = {
+                ...mockComposition,
+                sequences: {
+                    erhu: [
+                        { pitch: 'H9', start: 0, duration: 1, velocity: 0.5 },
+                        { pitch: 'C4', start: 1, duration: 1, velocity: 0.5 },
+                    ],
+                },
+            };
+
+            const notes = mapCompositionToTracks(composition, mockParams).get('erhu')!.notes;
+            expect(notes.map((n) => n.pitch)).toEqual(['C4']);
+        });
     });
 
     describe('mapCompositionToTracks', () => {
@@ -250,7 +339,8 @@ describe('CompositionMapper', () => {
 
         it('generates countermelody notes starting from third degree', () => {
             vi.mocked(EuclideanRhythm.repeatPatternTimes).mockReturnValue([0, 1, 2]);
-            const params = { ...mockParams, instruments: ['dizi'] as Instrument[] };
+            // Seeded so the random A-section skip doesn't drop the first note
+            const params = { ...mockParams, instruments: ['dizi'] as Instrument[], seed: 42 };
             const comp = {
                 ...mockComposition,
                 instrumentRoles: { dizi: 'countermelody' },
@@ -322,6 +412,160 @@ describe('CompositionMapper', () => {
         });
     });
 
+    describe('Section Plans', () => {
+        const S = SECTION_DURATION;
+
+        it('restates a transformed motif from its start', () => {
+            vi.mocked(EuclideanRhythm.repeatPatternTimes).mockReturnValue([0, S + 1, S + 2]);
+            const comp: Composition = { ...mockComposition, sections: [{}, { motif: { transpose: 1 } }] };
+
+            const notes = mapCompositionToTracks(comp, mockParams).get('erhu')!.notes;
+
+            expect(notes.map((n) => n.pitch)).toEqual(['C4', 'D4', 'E4']);
+        });
+
+        it('plays augmented motifs on fewer hits with longer notes', () => {
+            vi.mocked(EuclideanRhythm.repeatPatternTimes).mockReturnValue([S, S + 1, S + 2, S + 3]);
+            const comp: Composition = { ...mockComposition, sections: [{}, { motif: { augment: 2 } }] };
+
+            const notes = mapCompositionToTracks(comp, mockParams).get('erhu')!.notes;
+
+            expect(notes.map((n) => n.startTime)).toEqual([S, S + 2]);
+            // rhythmToDuration is mocked as beats * 0.5
+            expect(notes.map((n) => n.duration)).toEqual([1, 1]);
+        });
+
+        it('scales velocities by section dynamics', () => {
+            vi.mocked(EuclideanRhythm.repeatPatternTimes).mockReturnValue([0, S + 1]);
+            const plain = mapCompositionToTracks(mockComposition, mockParams).get('erhu')!.notes;
+            const comp: Composition = { ...mockComposition, sections: [{ dynamics: 'p' }, { dynamics: 'ff' }] };
+
+            const notes = mapCompositionToTracks(comp, mockParams).get('erhu')!.notes;
+
+            expect(notes[0].velocity).toBeCloseTo(plain[0].velocity * 0.65);
+            expect(notes[1].velocity).toBeCloseTo(Math.min(1, plain[1].velocity * 1.3));
+        });
+
+        it('silences an instrument in sections where it rests', () => {
+            vi.mocked(EuclideanRhythm.repeatPatternTimes).mockReturnValue([0, S + 1]);
+            const comp: Composition = {
+                ...mockComposition,
+                sections: [{}, { instrumentRoles: { erhu: REST_ROLE } }],
+            };
+
+            const track = mapCompositionToTracks(comp, mockParams).get('erhu')!;
+
+            expect(track.notes.map((n) => n.startTime)).toEqual([0]);
+            expect(track.role).toBe('melody');
+        });
+
+        it('switches roles per section', () => {
+            vi.mocked(EuclideanRhythm.repeatPatternTimes).mockReturnValue([0, S + 1]);
+            const comp: Composition = {
+                ...mockComposition,
+                sections: [{}, { instrumentRoles: { erhu: 'bass' } }],
+            };
+
+            const notes = mapCompositionToTracks(comp, mockParams).get('erhu')!.notes;
+
+            expect(notes).toHaveLength(2);
+            expect(notes[0].pitch).toBe('C4');
+            // Bass plays an octave down
+            expect(notes[1].pitch).toMatch(/3$/);
+            expect(notes[1].startTime).toBe(S + 1);
+        });
+    });
+
+    describe('Seeded Determinism', () => {
+        const fullEnsemble = (): Composition => ({
+            ...mockComposition,
+            instrumentRoles: {
+                erhu: 'melody',
+                guzheng: 'accompaniment',
+                pipa: 'bass',
+                dizi: 'countermelody',
+            },
+        });
+
+        const allInstruments = ['erhu', 'guzheng', 'pipa', 'dizi'] as Instrument[];
+
+        beforeEach(() => {
+            vi.mocked(EuclideanRhythm.repeatPatternTimes).mockReturnValue(
+                Array.from({ length: 40 }, (_, i) => i * 0.5)
+            );
+        });
+
+        it('produces identical notes for the same seed', () => {
+            const params = { ...mockParams, instruments: allInstruments, seed: 1234 };
+
+            const first = mapCompositionToTracks(fullEnsemble(), params);
+            const second = mapCompositionToTracks(fullEnsemble(), params);
+
+            expect(second).toEqual(first);
+        });
+
+        it('produces different notes for different seeds', () => {
+            const guzhengNotes = (seed: number) => mapCompositionToTracks(
+                fullEnsemble(),
+                { ...mockParams, instruments: ['guzheng'] as Instrument[], seed }
+            ).get('guzheng')?.notes;
+
+            expect(guzhengNotes(1)).not.toEqual(guzhengNotes(2));
+        });
+
+        it('renders an instrument the same alone or within the ensemble', () => {
+            const ensemble = mapCompositionToTracks(
+                fullEnsemble(),
+                { ...mockParams, instruments: allInstruments, seed: 99 }
+            );
+            const solo = mapCompositionToTracks(
+                fullEnsemble(),
+                { ...mockParams, instruments: ['dizi'] as Instrument[], seed: 99 }
+            );
+
+            expect(solo.get('dizi')).toEqual(ensemble.get('dizi'));
+        });
+    });
+
+    describe('Ornaments', () => {
+        beforeEach(() => {
+            vi.mocked(EuclideanRhythm.repeatPatternTimes).mockReturnValue(
+                Array.from({ length: 40 }, (_, i) => i * 0.5)
+            );
+        });
+
+        const tracksFor = (instruments: Instrument[], seed: number) => mapCompositionToTracks(
+            { ...mockComposition, instrumentRoles: { erhu: 'melody', dizi: 'melody' } },
+            { ...mockParams, instruments, seed }
+        );
+
+        it('gives some longer dizi notes a grace note a whole step away', () => {
+            const notes = tracksFor(['dizi'], 7).get('dizi')!.notes;
+            const ornamented = notes.filter((note) => note.graceNote !== undefined);
+
+            expect(ornamented.length).toBeGreaterThan(0);
+            expect(ornamented.length).toBeLessThan(notes.length);
+            ornamented.forEach((note) => {
+                expect([2, -2]).toContain(note.graceNote);
+                expect(note.duration).toBeGreaterThan(DIZI_ARTICULATION.graceNoteMinDuration);
+                expect(note.startTime).toBeGreaterThan(DIZI_ARTICULATION.graceNoteMinStart);
+            });
+        });
+
+        it('chooses the same grace notes for the same seed', () => {
+            const graces = (seed: number) => tracksFor(['dizi'], seed).get('dizi')!.notes.map((note) => note.graceNote);
+
+            expect(graces(7)).toEqual(graces(7));
+            expect(graces(7)).not.toEqual(graces(8));
+        });
+
+        it('leaves other instruments unornamented', () => {
+            const notes = tracksFor(['erhu'], 7).get('erhu')!.notes;
+
+            expect(notes.some((note) => note.graceNote !== undefined)).toBe(false);
+        });
+    });
+
     describe('Edge Cases', () => {
         it('handles single note scale', () => {
             const singleScaleComp = { ...mockComposition, scale: ['C4'] };
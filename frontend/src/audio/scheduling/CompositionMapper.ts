@@ -2,15 +2,31 @@
  * Maps composition data from Gemini to scheduled note events.
  */
 
-import type { Composition, Instrument, CompositionParams } from '../../types/music';
+import type { Composition, Instrument, CompositionParams, SequenceNote } from '../../types/music';
 import type { ScheduledNote, InstrumentTrack } from '../types';
 import { SECTION_DURATION, PENTATONIC_INTERVALS } from '../types';
 import { noteToFrequency, transposeNote, noteToMidi } from '../utils/frequencies';
-import { ROLE_VELOCITY, ROLE_OCTAVE_OFFSET, rhythmToDuration } from '../utils/moodParams';
+import { ROLE_VELOCITY, ROLE_OCTAVE_OFFSET, DYNAMIC_VELOCITY, rhythmToDuration } from '../utils/moodParams';
+import { getRandomSource } from '../utils/random';
+import type { RandomSource } from '../utils/random';
 import { numericToBoolean, repeatPatternTimes, generateEuclidean } from './EuclideanRhythm';
+import { applyMotifVariant } from './MotifVariation';
+import { DIZI_ARTICULATION } from '../voices/DiziVoice';
+
+/** Grid that explicit sequences are quantized to, in beats (sixteenth notes) */
+export const SEQUENCE_GRID = 0.25;
+
+/** Section role that silences an instrument */
+export const REST_ROLE = 'rest';
 
 /**
  * Map a composition to instrument tracks with scheduled notes.
+ * When `params.seed` is set, each instrument draws from its own seeded
+ * random stream, so the same inputs always produce the same notes.
+ * Instruments with an explicit sequence play it as written instead.
+ * Per-section roles, motif variants and dynamics from `composition.sections`
+ * are applied to the generated notes, and dizi ornaments are chosen here so
+ * the voice and the MIDI exporter play the same ones.
  *
  * @param composition - Composition data from Gemini
  * @param params - Original composition parameters
@@ -18,34 +34,149 @@ import { numericToBoolean, repeatPatternTimes, generateEuclidean } from './Eucli
  */
 export function mapCompositionToTracks(
     composition: Composition,
-    params: CompositionParams
+    params: Pick<CompositionParams, 'instruments' | 'tempo' | 'seed'>
 ): Map<Instrument, InstrumentTrack> {
     const tracks = new Map<Instrument, InstrumentTrack>();
     const totalDuration = composition.form.length * SECTION_DURATION;
 
     for (const instrument of params.instruments) {
         const role = composition.instrumentRoles[instrument] || 'accompaniment';
+
+        const sequence = composition.sequences?.[instrument];
+        const notes = sequence
+            ? sequenceToNotes(sequence, instrument, params.tempo)
+            : generateSectionNotes(composition, instrument, role, params, totalDuration);
+
+        if (instrument === 'dizi') {
+            addGraceNotes(notes, getRandomSource(params.seed, `${instrument}:ornament`));
+        }
+
+        tracks.set(instrument, {
+            instrument,
+            role,
+            notes,
+        });
+    }
+
+    return tracks;
+}
+
+/**
+ * Generate an instrument's notes from its roles, section by section.
+ */
+function generateSectionNotes(
+    composition: Composition,
+    instrument: Instrument,
+    role: string,
+    params: Pick<CompositionParams, 'tempo' | 'seed'>,
+    totalDuration: number
+): ScheduledNote[] {
+    // Each role the instrument plays is generated across the whole piece,
+    // then only the sections assigned to that role are kept
+    const sectionRoles = composition.form.map((_, i) =>
+        composition.sections?.[i]?.instrumentRoles?.[instrument] || role
+    );
+    const sectionStarts = getSectionStartTimes(composition);
+    const notes: ScheduledNote[] = [];
+
+    for (const sectionRole of new Set(sectionRoles)) {
+        if (sectionRole === REST_ROLE) continue;
+
         const pattern = composition.euclideanPatterns[instrument] ||
-            composition.euclideanPatterns[role] ||
+            composition.euclideanPatterns[sectionRole] ||
             generateEuclidean(5, 8); // Fallback pattern
 
-        const notes = generateInstrumentNotes(
+        const roleNotes = generateInstrumentNotes(
             composition,
             instrument,
-            role,
+            sectionRole,
             pattern,
             params.tempo,
-            totalDuration
+            totalDuration,
+            // The track's own role keeps the instrument's stream
+            getRandomSource(params.seed, sectionRole === role ? instrument : `${instrument}:${sectionRole}`)
         );
 
-        tracks.set(instrument, {
-            instrument,
-            role,
-            notes,
-        });
+        notes.push(...roleNotes.filter((note) =>
+            sectionRoles[sectionAt(note.startTime, sectionStarts)] === sectionRole
+        ));
     }
 
-    return tracks;
+    if (sectionRoles.some((sectionRole) => sectionRole !== role)) {
+        notes.sort((a, b) => a.startTime - b.startTime);
+    }
+    applySectionDynamics(notes, composition);
+
+    return notes;
+}
+
+/**
+ * Give some longer notes a grace note a whole step above or below.
+ */
+function addGraceNotes(notes: ScheduledNote[], random: RandomSource): void {
+    for (const note of notes) {
+        if (
+            random() < DIZI_ARTICULATION.graceNoteChance &&
+            note.duration > DIZI_ARTICULATION.graceNoteMinDuration &&
+            note.startTime > DIZI_ARTICULATION.graceNoteMinStart
+        ) {
+            note.graceNote = random() > 0.5 ? 2 : -2;
+        }
+    }
+}
+
+/**
+ * Index of the form section a time falls in (late notes belong to the last section).
+ */
+function sectionAt(time: number, sectionStarts: number[]): number {
+    let index = 0;
+    while (index + 1 < sectionStarts.length && sectionStarts[index + 1] <= time) index++;
+    return index;
+}
+
+/**
+ * Scale note velocities by each section's dynamic marking.
+ */
+function applySectionDynamics(notes: ScheduledNote[], composition: Composition): void {
+    if (!composition.sections) return;
+
+    const sectionStarts = getSectionStartTimes(composition);
+    for (const note of notes) {
+        const dynamics = composition.sections[sectionAt(note.startTime, sectionStarts)]?.dynamics;
+        if (dynamics && DYNAMIC_VELOCITY[dynamics]) {
+            note.velocity = Math.min(1, note.velocity * DYNAMIC_VELOCITY[dynamics]);
+        }
+    }
+}
+
+/**
+ * Quantize a beat position to the sequence grid.
+ */
+function quantizeBeats(beats: number): number {
+    return Math.round(beats / SEQUENCE_GRID) * SEQUENCE_GRID;
+}
+
+/**
+ * Convert an explicit sequence to scheduled notes, quantized to the tempo grid.
+ */
+function sequenceToNotes(
+    sequence: SequenceNote[],
+    instrument: Instrument,
+    tempo: number
+): ScheduledNote[] {
+    const secondsPerBeat = 60 / tempo;
+
+    return sequence
+        .filter((note) => noteToMidi(note.pitch) >= 0)
+        .map((note) => ({
+            pitch: note.pitch,
+            frequency: noteToFrequency(note.pitch),
+            startTime: quantizeBeats(note.start) * secondsPerBeat,
+            duration: Math.max(SEQUENCE_GRID, quantizeBeats(note.duration)) * secondsPerBeat,
+            velocity: Math.max(0, Math.min(1, note.velocity)),
+            instrument,
+        }))
+        .sort((a, b) => a.startTime - b.startTime);
 }
 
 /**
@@ -57,7 +188,8 @@ function generateInstrumentNotes(
     role: string,
     pattern: number[],
     tempo: number,
-    totalDuration: number
+    totalDuration: number,
+    random: RandomSource
 ): ScheduledNote[] {
     const notes: ScheduledNote[] = [];
     const boolPattern = numericToBoolean(pattern);
@@ -73,14 +205,14 @@ function generateInstrumentNotes(
             generateMelodyNotes(notes, composition, hitTimes, instrument, velocity, octaveOffset, tempo);
             break;
         case 'countermelody':
-            generateCountermelodyNotes(notes, composition, hitTimes, instrument, velocity, octaveOffset, tempo);
+            generateCountermelodyNotes(notes, composition, hitTimes, instrument, velocity, octaveOffset, tempo, random);
             break;
         case 'bass':
             generateBassNotes(notes, composition, hitTimes, instrument, velocity, octaveOffset, tempo);
             break;
         case 'accompaniment':
         default:
-            generateAccompanimentNotes(notes, composition, hitTimes, instrument, velocity, octaveOffset, tempo);
+            generateAccompanimentNotes(notes, composition, hitTimes, instrument, velocity, octaveOffset, tempo, random);
             break;
     }
 
@@ -89,6 +221,8 @@ function generateInstrumentNotes(
 
 /**
  * Generate melody notes following the motif pattern.
+ * Sections with a motif variant restate the transformed motif from its start;
+ * augmented sections also play on fewer of the pattern's hits.
  */
 function generateMelodyNotes(
     notes: ScheduledNote[],
@@ -99,24 +233,36 @@ function generateMelodyNotes(
     octaveOffset: number,
     tempo: number
 ): void {
-    const { scale, motif, form } = composition;
-    const motifPitches = motif.pitches;
-    const motifRhythm = motif.rhythm;
+    const { scale, motif, form, sections } = composition;
+    const sectionMotifs = form.map((_, i) => {
+        const variant = sections?.[i]?.motif;
+        return variant ? applyMotifVariant(motif, scale, variant) : motif;
+    });
 
     let motifIndex = 0;
     let sectionIndex = 0;
+    let sectionHit = 0;
 
     for (const startTime of hitTimes) {
         // Determine which section we're in
         const newSectionIndex = Math.floor(startTime / SECTION_DURATION);
         if (newSectionIndex !== sectionIndex) {
             sectionIndex = newSectionIndex;
+            sectionHit = 0;
             // Reset or vary motif for new section
-            if (form[sectionIndex]?.includes('B')) {
-                motifIndex = Math.floor(motifPitches.length / 2); // Start mid-motif for contrast
+            if (sections?.[sectionIndex]?.motif) {
+                motifIndex = 0;
+            } else if (form[sectionIndex]?.includes('B')) {
+                motifIndex = Math.floor(motif.pitches.length / 2); // Start mid-motif for contrast
             }
         }
 
+        // Augmented motifs move through the pattern more slowly
+        const stride = Math.max(1, Math.round(sections?.[sectionIndex]?.motif?.augment ?? 1));
+        if (sectionHit++ % stride !== 0) continue;
+
+        const { pitches: motifPitches, rhythm: motifRhythm } = sectionMotifs[sectionIndex] ?? motif;
+
         // Get pitch from motif or scale
         const pitchIndex = motifIndex % motifPitches.length;
         let pitch = motifPitches[pitchIndex] || scale[pitchIndex % scale.length];
@@ -156,7 +302,8 @@ function generateCountermelodyNotes(
     instrument: Instrument,
     baseVelocity: number,
     octaveOffset: number,
-    tempo: number
+    tempo: number,
+    random: RandomSource
 ): void {
     const { scale, motif, form } = composition;
 
@@ -169,7 +316,7 @@ function generateCountermelodyNotes(
         const section = form[sectionIndex] || 'A';
 
         // Skip some notes in A sections for contrast
-        if (section === 'A' && Math.random() > 0.7) {
+        if (section === 'A' && random() > 0.7) {
             scaleIndex++;
             continue;
         }
@@ -259,7 +406,8 @@ function generateAccompanimentNotes(
     instrument: Instrument,
     baseVelocity: number,
     octaveOffset: number,
-    tempo: number
+    tempo: number,
+    random: RandomSource
 ): void {
     const { scale, form } = composition;
 
@@ -282,7 +430,7 @@ function generateAccompanimentNotes(
         const duration = rhythmToDuration(0.5, tempo);
 
         // Add slight random velocity variation for organic feel
-        const velocityVariation = 0.9 + Math.random() * 0.2;
+        const velocityVariation = 0.9 + random() * 0.2;
 
         notes.push({
             pitch,
@@ -317,9 +465,30 @@ function applyVelocityVariation(baseVelocity: number, section: string): number {
 
 /**
  * Get the total duration of a composition.
+ * With a tempo, explicit sequences that run past the form extend it.
+ */
+export function getCompositionDuration(composition: Composition, tempo?: number): number {
+    const formDuration = composition.form.length * SECTION_DURATION;
+    if (!composition.sequences || !tempo) return formDuration;
+
+    let sequenceEnd = 0;
+    for (const sequence of Object.values(composition.sequences)) {
+        for (const note of sequence ?? []) {
+            const endBeat = quantizeBeats(note.start) + Math.max(SEQUENCE_GRID, quantizeBeats(note.duration));
+            sequenceEnd = Math.max(sequenceEnd, endBeat * 60 / tempo);
+        }
+    }
+
+    return Math.max(formDuration, sequenceEnd);
+}
+
+/**
+ * Get the start time of each form section in seconds. Sections last
+ * SECTION_DURATION, stretched evenly when explicit sequences run past the form.
  */
-export function getCompositionDuration(composition: Composition): number {
-    return composition.form.length * SECTION_DURATION;
+export function getSectionStartTimes(composition: Composition, tempo?: number): number[] {
+    const sectionDuration = getCompositionDuration(composition, tempo) / composition.form.length;
+    return composition.form.map((_, i) => i * sectionDuration);
 }
 
 /**
@@ -0,0 +1,57 @@
+/**
+ * Tests for MotifVariation.ts
+ */
+
+import { describe, it, expect } from 'vitest';
+import { applyMotifVariant } from './MotifVariation';
+import type { Motif } from '../../types/music';
+
+describe('MotifVariation', () => {
+    const scale = ['C4', 'D4', 'E4', 'G4', 'A4'];
+    const motif: Motif = {
+        pitches: ['C4', 'D4', 'E4', 'G4'],
+        rhythm: [1, 0.5, 0.5, 2],
+    };
+
+    it('returns an equal motif for an empty variant', () => {
+        expect(applyMotifVariant(motif, scale, {})).toEqual(motif);
+    });
+
+    it('does not modify the input motif', () => {
+        applyMotifVariant(motif, scale, { transpose: 2, retrograde: true, augment: 2 });
+
+        expect(motif.pitches).toEqual(['C4', 'D4', 'E4', 'G4']);
+        expect(motif.rhythm).toEqual([1, 0.5, 0.5, 2]);
+    });
+
+    it('transposes by scale degrees across octaves', () => {
+        expect(applyMotifVariant(motif, scale, { transpose: 2 }).pitches)
+            .toEqual(['E4', 'G4', 'A4', 'C5']);
+        expect(applyMotifVariant(motif, scale, { transpose: -1 }).pitches)
+            .toEqual(['A3', 'C4', 'D4', 'E4']);
+    });
+
+    it('inverts around the first pitch', () => {
+        expect(applyMotifVariant(motif, scale, { invert: true }).pitches)
+            .toEqual(['C4', 'A3', 'G3', 'E3']);
+    });
+
+    it('reverses pitches and rhythm for retrograde', () => {
+        const result = applyMotifVariant(motif, scale, { retrograde: true });
+
+        expect(result.pitches).toEqual(['G4', 'E4', 'D4', 'C4']);
+        expect(result.rhythm).toEqual([2, 0.5, 0.5, 1]);
+    });
+
+    it('scales rhythm for augmentation and diminution', () => {
+        expect(applyMotifVariant(motif, scale, { augment: 2 }).rhythm).toEqual([2, 1, 1, 4]);
+        expect(applyMotifVariant(motif, scale, { augment: 0.5 }).rhythm).toEqual([0.5, 0.25, 0.25, 1]);
+    });
+
+    it('keeps the chromatic offset of pitches outside the scale', () => {
+        const chromatic: Motif = { pitches: ['C4', 'D#4'], rhythm: [1, 1] };
+
+        // D#4 is a semitone above D4, so it moves with D4
+        expect(applyMotifVariant(chromatic, scale, { transpose: 1 }).pitches).toEqual(['D4', 'F4']);
+    });
+});
@@ -0,0 +1,75 @@
+/**
+ * Motif variation: transposition, inversion, retrograde and augmentation.
+ * Pitch transforms work in scale degrees so variants stay in the mode.
+ */
+
+import type { Motif, MotifVariant } from '../../types/music';
+import { noteToMidi, midiToNote } from '../utils/frequencies';
+
+/**
+ * Apply a section's motif variant.
+ * Pitches outside the scale keep their chromatic offset from the scale tone below.
+ *
+ * @param motif - The composition's motif
+ * @param scale - Scale pitches, ascending within one octave
+ * @param variant - Transformations to apply
+ * @returns A new motif; the input is not modified
+ */
+export function applyMotifVariant(motif: Motif, scale: string[], variant: MotifVariant): Motif {
+    const transpose = Math.round(variant.transpose ?? 0);
+    const scaleMidi = scale.map(noteToMidi).filter((midi) => midi >= 0);
+
+    let pitches = [...motif.pitches];
+    let rhythm = [...motif.rhythm];
+
+    if ((transpose !== 0 || variant.invert) && scaleMidi.length > 0) {
+        const degrees = pitches.map((pitch) => pitchToDegree(noteToMidi(pitch), scaleMidi));
+        const axis = degrees[0]?.degree ?? 0;
+
+        pitches = pitches.map((pitch, i) => {
+            const { degree, offset } = degrees[i];
+            if (degree === null) return pitch;
+
+            const moved = (variant.invert ? 2 * axis - degree : degree) + transpose;
+            return midiToNote(degreeToMidi(moved, scaleMidi) + (variant.invert ? -offset : offset));
+        });
+    }
+
+    if (variant.retrograde) {
+        pitches.reverse();
+        rhythm.reverse();
+    }
+
+    if (variant.augment !== undefined && Number.isFinite(variant.augment) && variant.augment > 0) {
+        rhythm = rhythm.map((value) => value * (variant.augment as number));
+    }
+
+    return { pitches, rhythm };
+}
+
+/**
+ * Locate a MIDI note as a scale degree (spanning octaves) plus the semitones above it.
+ */
+function pitchToDegree(midi: number, scaleMidi: number[]): { degree: number | null; offset: number } {
+    if (midi < 0) return { degree: null, offset: 0 };
+
+    const base = scaleMidi[0];
+    const octave = Math.floor((midi - base) / 12);
+    const withinOctave = midi - base - octave * 12;
+
+    let index = 0;
+    scaleMidi.forEach((scaleNote, i) => {
+        if (scaleNote - base <= withinOctave) index = i;
+    });
+
+    const degree = octave * scaleMidi.length + index;
+    return { degree, offset: midi - degreeToMidi(degree, scaleMidi) };
+}
+
+/**
+ * Convert a scale degree (possibly negative or above the first octave) to a MIDI note.
+ */
+function degreeToMidi(degree: number, scaleMidi: number[]): number {
+    const octave = Math.floor(degree / scaleMidi.length);
+    return scaleMidi[degree - octave * scaleMidi.length] + octave * 12;
+}
@@ -16,6 +16,7 @@ import {
     mergeTracksNotes,
 } from './NoteScheduler';
 import type { SchedulingContext, NoteScheduleCallback } from './NoteScheduler';
+import { createRandom } from '../utils/random';
 import type { ScheduledNote, InstrumentTrack } from '../types';
 import type { Instrument } from '../../types/music';
 
@@ -409,6 +410,26 @@ describe('NoteScheduler', () => {
             expect(humanized[0].startTime).toBeGreaterThanOrEqual(0.98);
             expect(humanized[0].startTime).toBeLessThanOrEqual(1.02);
         });
+
+        it('draws variation from the given random source', () => {
+            const notes = [createMockNote({ startTime: 1, velocity: 0.8 })];
+
+            const humanized = humanizeNotes(notes, 0.02, () => 1);
+
+            expect(humanized[0].startTime).toBeCloseTo(1.02);
+            expect(humanized[0].velocity).toBeCloseTo(0.84);
+        });
+
+        it('is reproducible with a seeded random source', () => {
+            const notes = [
+                createMockNote({ startTime: 0 }),
+                createMockNote({ startTime: 1 }),
+                createMockNote({ startTime: 2 }),
+            ];
+
+            expect(humanizeNotes(notes, 0.02, createRandom(7)))
+                .toEqual(humanizeNotes(notes, 0.02, createRandom(7)));
+        });
     });
 
     describe('sortNotesByTime', () => {
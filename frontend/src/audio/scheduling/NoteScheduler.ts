@@ -4,6 +4,7 @@
 
 import type { ScheduledNote, InstrumentTrack } from '../types';
 import type { Instrument } from '../../types/music';
+import type { RandomSource } from '../utils/random';
 
 /**
  * Context for scheduling notes on the audio graph.
@@ -158,15 +159,17 @@ export function quantizeNotes(
 
 /**
  * Add humanization (slight timing variations) to notes.
+ * Pass a seeded random source for reproducible results.
  */
 export function humanizeNotes(
     notes: ScheduledNote[],
-    maxOffset: number = 0.02
+    maxOffset: number = 0.02,
+    random: RandomSource = Math.random
 ): ScheduledNote[] {
     return notes.map(note => ({
         ...note,
-        startTime: note.startTime + (Math.random() - 0.5) * maxOffset * 2,
-        velocity: note.velocity * (0.95 + Math.random() * 0.1),
+        startTime: note.startTime + (random() - 0.5) * maxOffset * 2,
+        velocity: note.velocity * (0.95 + random() * 0.1),
     }));
 }
 
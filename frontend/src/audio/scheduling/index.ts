@@ -2,7 +2,8 @@
  * Scheduling module exports.
  */
 
-export { mapCompositionToTracks, getCompositionDuration, buildScale } from './CompositionMapper';
+export { mapCompositionToTracks, getCompositionDuration, getSectionStartTimes, buildScale } from './CompositionMapper';
+export { applyMotifVariant } from './MotifVariation';
 export {
     generateEuclidean,
     numericToBoolean,
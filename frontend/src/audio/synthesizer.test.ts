@@ -7,7 +7,10 @@ import {
     SynthesizerEngine,
     getSynthesizerEngine,
     synthesizeInstrument,
+    synthesizeMix,
+    clearRenderCache,
 } from './synthesizer';
+import { RenderAbortedError, getRenderPool } from './renderPool';
 import type { Composition, CompositionParams, Instrument } from '../types/music';
 import type { InstrumentTrack, ScheduledNote } from './types';
 
@@ -27,22 +30,59 @@ vi.mock('./utils/moodParams', () => ({
         filterResonance: 2,
         envelope: { attack: 0.1, decay: 0.2, sustain: 0.7, release: 0.3 },
     })),
+    getReverbSend: vi.fn(() => 0.3),
+    MOOD_REVERB: {
+        calm: { roomSize: 0.8, decayTime: 2.6, damping: 0.4, preDelay: 30, sendScale: 1.0 },
+        heroic: { roomSize: 0.5, decayTime: 1.4, damping: 0.3, preDelay: 15, sendScale: 0.6 },
+        melancholic: { roomSize: 0.9, decayTime: 3.0, damping: 0.6, preDelay: 40, sendScale: 1.2 },
+        festive: { roomSize: 0.3, decayTime: 0.8, damping: 0.2, preDelay: 10, sendScale: 0.25 },
+    },
     INSTRUMENT_GAIN: {
         erhu: 0.8,
         guzheng: 0.7,
         pipa: 0.75,
         dizi: 0.65,
     },
+    INSTRUMENT_PAN: {
+        erhu: -0.3,
+        guzheng: 0.3,
+        pipa: -0.2,
+        dizi: 0.2,
+    },
+}));
+
+vi.mock('./effects', async (importOriginal) => ({
+    ...(await importOriginal<typeof import('./effects')>()),
+    createConvolutionReverb: vi.fn(() => ({
+        connect: vi.fn(),
+        disconnect: vi.fn(),
+    })),
+    createTrackEffectsChain: vi.fn(() => ({
+        input: { connect: vi.fn() },
+        output: { connect: vi.fn() },
+        update: vi.fn(),
+        setTempo: vi.fn(),
+        disconnect: vi.fn(),
+    })),
+}));
+
+vi.mock('./utils/loudness', async (importOriginal) => ({
+    ...(await importOriginal<typeof import('./utils/loudness')>()),
+    normalizeLoudness: vi.fn(() => 0),
+    limitTruePeak: vi.fn(() => 0),
 }));
 
 vi.mock('./utils/wavEncoder', () => ({
     audioBufferToBase64WAV: vi.fn(() => 'bW9ja0Jhc2U2NA=='),
+    audioBufferToWavBlob: vi.fn(() => new Blob(['wav'], { type: 'audio/wav' })),
 }));
+import { limitTruePeak, normalizeLoudness, TRUE_PEAK_CEILING } from './utils/loudness';
 
 import { mapCompositionToTracks, getCompositionDuration } from './scheduling';
 import { createVoice } from './voices';
-import { getVoiceParams, INSTRUMENT_GAIN } from './utils/moodParams';
-import { audioBufferToBase64WAV } from './utils/wavEncoder';
+import { getVoiceParams, getReverbSend, MOOD_REVERB, INSTRUMENT_GAIN, INSTRUMENT_PAN } from './utils/moodParams';
+import { createConvolutionReverb, createTrackEffectsChain, DEFAULT_TRACK_EFFECTS } from './effects';
+import { audioBufferToBase64WAV, audioBufferToWavBlob } from './utils/wavEncoder';
 
 // Create comprehensive mock OfflineAudioContext
 function createMockGainNode() {
@@ -58,6 +98,26 @@ function createMockGainNode() {
     };
 }
 
+function createMockStereoPanner() {
+    return {
+        pan: { value: 0, setValueAtTime: vi.fn(), linearRampToValueAtTime: vi.fn() },
+        connect: vi.fn(),
+        disconnect: vi.fn(),
+    };
+}
+
+function createMockCompressor() {
+    return {
+        threshold: { value: 0 },
+        knee: { value: 0 },
+        ratio: { value: 0 },
+        attack: { value: 0 },
+        release: { value: 0 },
+        connect: vi.fn(),
+        disconnect: vi.fn(),
+    };
+}
+
 function createMockBuffer() {
     return {
         numberOfChannels: 2,
@@ -70,13 +130,17 @@ function createMockBuffer() {
 
 // Class-based mock for OfflineAudioContext
 class MockOfflineAudioContext {
+    static lastInstance: MockOfflineAudioContext | null = null;
+
     sampleRate = 44100;
     destination = {};
     createGain = vi.fn(createMockGainNode);
+    createStereoPanner = vi.fn(createMockStereoPanner);
+    createDynamicsCompressor = vi.fn(createMockCompressor);
     startRendering = vi.fn().mockResolvedValue(createMockBuffer());
 
-    constructor(_options?: OfflineAudioContextOptions) {
-        // Store options if needed for assertions
+    constructor(public options?: OfflineAudioContextOptions) {
+        MockOfflineAudioContext.lastInstance = this;
     }
 }
 
@@ -177,6 +241,17 @@ describe('synthesizer.ts', () => {
                 const engine = new SynthesizerEngine(48000);
                 expect(engine).toBeDefined();
             });
+
+            it('renders in contexts from the given factory', async () => {
+                const createContext = vi.fn((options: OfflineAudioContextOptions) =>
+                    new MockOfflineAudioContext(options) as unknown as OfflineAudioContext
+                );
+                const engine = new SynthesizerEngine(48000, createContext);
+
+                await engine.renderTrack(createMockComposition(), 'erhu', createMockParams());
+
+                expect(createContext).toHaveBeenCalledWith(expect.objectContaining({ sampleRate: 48000 }));
+            });
         });
 
         describe('renderTrack', () => {
@@ -197,7 +272,17 @@ describe('synthesizer.ts', () => {
 
                 await engine.renderTrack(composition, 'erhu', params);
 
-                expect(getVoiceParams).toHaveBeenCalledWith('erhu', 'heroic');
+                expect(getVoiceParams).toHaveBeenCalledWith('erhu', 'heroic', undefined);
+            });
+
+            it("passes the instrument's string model to the voice parameters", async () => {
+                const engine = new SynthesizerEngine();
+                const composition = createMockComposition();
+                const params = createMockParams({ stringModels: { erhu: 'lite', pipa: 'physical' } });
+
+                await engine.renderTrack(composition, 'erhu', params);
+
+                expect(getVoiceParams).toHaveBeenCalledWith('erhu', 'calm', 'lite');
             });
 
             it('creates voice for the instrument', async () => {
@@ -210,7 +295,8 @@ describe('synthesizer.ts', () => {
                 expect(createVoice).toHaveBeenCalledWith(
                     'erhu',
                     expect.any(MockOfflineAudioContext),
-                    expect.any(Object)
+                    expect.any(Object),
+                    expect.any(Function)
                 );
             });
 
@@ -369,6 +455,30 @@ describe('synthesizer.ts', () => {
                     expect(onProgress).toHaveBeenCalledWith(1.0, 'erhu');
                 });
 
+                it('reports progress while rendering from context suspensions', async () => {
+                    const suspensions: Array<() => void> = [];
+                    const suspend = vi.fn(() => new Promise<void>((resolve) => suspensions.push(resolve)));
+                    const resume = vi.fn().mockResolvedValue(undefined);
+                    const ctx = Object.assign(new MockOfflineAudioContext(), { length: 44100 * 10, suspend, resume });
+                    ctx.startRendering.mockImplementation(async () => {
+                        for (const resume of suspensions) {
+                            resume();
+                            await Promise.resolve();
+                        }
+                        return createMockBuffer();
+                    });
+
+                    const engine = new SynthesizerEngine(44100, () => ctx as unknown as OfflineAudioContext);
+                    const onProgress = vi.fn();
+
+                    await engine.renderTrack(createMockComposition(), 'erhu', createMockParams(), onProgress);
+
+                    expect(suspend).toHaveBeenCalledTimes(9);
+                    expect(suspend).toHaveBeenCalledWith(5);
+                    expect(onProgress).toHaveBeenCalledWith(0.9, 'erhu');
+                    expect(resume).toHaveBeenCalled();
+                });
+
                 it('handles undefined progress callback', async () => {
                     const engine = new SynthesizerEngine();
                     const composition = createMockComposition();
@@ -381,6 +491,358 @@ describe('synthesizer.ts', () => {
             });
         });
 
+        describe('reverb send routing', () => {
+            function getCreatedGains(): ReturnType<typeof createMockGainNode>[] {
+                const ctx = MockOfflineAudioContext.lastInstance!;
+                return ctx.createGain.mock.results.map(r => r.value);
+            }
+
+            it('builds the reverb bus from the mood settings', async () => {
+                const engine = new SynthesizerEngine();
+                const params = createMockParams({ mood: 'melancholic' });
+
+                await engine.renderTrack(createMockComposition(), 'erhu', params);
+
+                expect(createConvolutionReverb).toHaveBeenCalledWith(
+                    expect.any(MockOfflineAudioContext),
+                    MOOD_REVERB.melancholic,
+                    expect.any(Function)
+                );
+            });
+
+            it('sends the instrument to the bus at its reverb send level', async () => {
+                const engine = new SynthesizerEngine();
+                const params = createMockParams({ mood: 'calm' });
+
+                await engine.renderTrack(createMockComposition(), 'erhu', params);
+
+                expect(getReverbSend).toHaveBeenCalledWith('erhu', 'calm');
+
+                const ctx = MockOfflineAudioContext.lastInstance!;
+                const [volumeGain, instrumentGain, sendGain] = getCreatedGains();
+                const convolver = (createConvolutionReverb as ReturnType<typeof vi.fn>).mock.results[0].value;
+
+                expect(instrumentGain.connect).toHaveBeenCalledWith(sendGain);
+                expect(sendGain.gain.value).toBe(0.3);
+                expect(sendGain.connect).toHaveBeenCalledWith(convolver);
+                expect(convolver.connect).toHaveBeenCalledWith(volumeGain);
+                expect(volumeGain.connect).toHaveBeenCalledWith(ctx.destination);
+            });
+
+            it('leaves the instrument dry when its send is zero', async () => {
+                (getReverbSend as ReturnType<typeof vi.fn>).mockReturnValueOnce(0);
+
+                const engine = new SynthesizerEngine();
+                await engine.renderTrack(createMockComposition(), 'erhu', createMockParams({ mood: 'festive' }));
+
+                const [, instrumentGain] = getCreatedGains();
+                expect(getCreatedGains()).toHaveLength(2);
+                expect(instrumentGain.connect).toHaveBeenCalledTimes(1);
+            });
+
+            it('extends the render length to fit the reverb tail', async () => {
+                const engine = new SynthesizerEngine(44100);
+                await engine.renderTrack(createMockComposition(), 'erhu', createMockParams({ mood: 'melancholic' }));
+
+                const ctx = MockOfflineAudioContext.lastInstance!;
+                expect(ctx.options?.length).toBe(Math.ceil((15 + 3.0) * 44100));
+            });
+        });
+
+        describe('seeded rendering', () => {
+            type RandomSource = () => number;
+
+            const drawFrom = (random: RandomSource) => [random(), random(), random()];
+
+            function getVoiceRandom(call: number): RandomSource {
+                return (createVoice as ReturnType<typeof vi.fn>).mock.calls[call][3];
+            }
+
+            function getReverbRandom(call: number): RandomSource {
+                return (createConvolutionReverb as ReturnType<typeof vi.fn>).mock.calls[call][2];
+            }
+
+            it('gives voices and reverb the same random streams for the same seed', async () => {
+                const engine = new SynthesizerEngine();
+                const params = createMockParams({ seed: 777 });
+
+                await engine.renderTrack(createMockComposition(), 'erhu', params);
+                await engine.renderTrack(createMockComposition(), 'erhu', params);
+
+                expect(drawFrom(getVoiceRandom(0))).toEqual(drawFrom(getVoiceRandom(1)));
+                expect(drawFrom(getReverbRandom(0))).toEqual(drawFrom(getReverbRandom(1)));
+            });
+
+            it('falls back to Math.random when unseeded', async () => {
+                const engine = new SynthesizerEngine();
+                const params = createMockParams();
+                delete (params as { seed?: number }).seed;
+
+                await engine.renderTrack(createMockComposition(), 'erhu', params);
+
+                expect(getVoiceRandom(0)).toBe(Math.random);
+                expect(getReverbRandom(0)).toBe(Math.random);
+            });
+        });
+
+        describe('stereo panning', () => {
+            function getPanner(): ReturnType<typeof createMockStereoPanner> {
+                const ctx = MockOfflineAudioContext.lastInstance!;
+                return ctx.createStereoPanner.mock.results[0].value;
+            }
+
+            it.each(['erhu', 'guzheng', 'pipa', 'dizi'] as Instrument[])(
+                'pans %s to its ensemble position',
+                async (instrument) => {
+                    (mapCompositionToTracks as ReturnType<typeof vi.fn>).mockReturnValueOnce(
+                        new Map([[instrument, { instrument, notes: [], role: 'melody' }]])
+                    );
+
+                    const engine = new SynthesizerEngine();
+                    await engine.renderTrack(createMockComposition(), instrument, createMockParams({
+                        instruments: [instrument],
+                    }));
+
+                    expect(getPanner().pan.value).toBe(INSTRUMENT_PAN[instrument]);
+                }
+            );
+
+            it('routes the instrument gain through the panner and track volume to the destination', async () => {
+                const engine = new SynthesizerEngine();
+                await engine.renderTrack(createMockComposition(), 'erhu', createMockParams());
+
+                const ctx = MockOfflineAudioContext.lastInstance!;
+                const [volumeGain, instrumentGain] = ctx.createGain.mock.results.map(r => r.value);
+                const panner = getPanner();
+
+                expect(mockVoice.scheduleNote).toHaveBeenCalledWith(expect.anything(), instrumentGain);
+                expect(instrumentGain.connect).toHaveBeenCalledWith(panner);
+                expect(instrumentGain.connect).not.toHaveBeenCalledWith(ctx.destination);
+                expect(panner.connect).toHaveBeenCalledWith(volumeGain);
+                expect(volumeGain.connect).toHaveBeenCalledWith(ctx.destination);
+            });
+        });
+
+        describe('renderMix', () => {
+            const ensemble = ['erhu', 'guzheng', 'pipa'] as Instrument[];
+
+            beforeEach(() => {
+                (mapCompositionToTracks as ReturnType<typeof vi.fn>).mockImplementation(
+                    (_composition: Composition, params: CompositionParams) => new Map(
+                        params.instruments.map((inst): [Instrument, InstrumentTrack] => [
+                            inst,
+                            { instrument: inst, role: 'melody', notes: createMockNotes(4) },
+                        ])
+                    )
+                );
+            });
+
+            function getCtx(): MockOfflineAudioContext {
+                return MockOfflineAudioContext.lastInstance!;
+            }
+
+            it('renders every instrument into a single context', async () => {
+                const engine = new SynthesizerEngine();
+                const constructed = vi.spyOn(global, 'OfflineAudioContext');
+
+                const buffer = await engine.renderMix(
+                    createMockComposition(),
+                    createMockParams({ instruments: ensemble })
+                );
+
+                expect(buffer).toBeDefined();
+                expect(constructed).toHaveBeenCalledTimes(1);
+                expect(createVoice).toHaveBeenCalledTimes(3);
+                expect(mockVoice.scheduleNote).toHaveBeenCalledTimes(12);
+                expect(getCtx().startRendering).toHaveBeenCalledTimes(1);
+                expect(mockVoice.dispose).toHaveBeenCalledTimes(3);
+            });
+
+            it('leaves muted instruments out of the mix', async () => {
+                const engine = new SynthesizerEngine();
+
+                await engine.renderMix(createMockComposition(), createMockParams({ instruments: ensemble }), {
+                    tracks: { guzheng: { volume: 1, muted: true } },
+                });
+
+                const rendered = (createVoice as ReturnType<typeof vi.fn>).mock.calls.map(call => call[0]);
+                expect(rendered).toEqual(['erhu', 'pipa']);
+            });
+
+            it('applies track volume and pan from the mixer', async () => {
+                const engine = new SynthesizerEngine();
+
+                await engine.renderMix(createMockComposition(), createMockParams({ instruments: ['erhu'] }), {
+                    tracks: { erhu: { volume: 0.5, muted: false, pan: 0.6 } },
+                });
+
+                const ctx = getCtx();
+                // Gains: master bus, then the erhu volume and instrument gain
+                const [, volumeGain, instrumentGain] = ctx.createGain.mock.results.map(r => r.value);
+                const panner = ctx.createStereoPanner.mock.results[0].value;
+
+                expect(volumeGain.gain.value).toBe(0.5);
+                expect(instrumentGain.gain.value).toBeCloseTo(INSTRUMENT_GAIN.erhu);
+                expect(panner.pan.value).toBe(0.6);
+            });
+
+            it('automates track volume, pan and reverb send over the composition', async () => {
+                const engine = new SynthesizerEngine();
+
+                await engine.renderMix(createMockComposition(), createMockParams({ instruments: ['erhu'] }), {
+                    tracks: {
+                        erhu: {
+                            volume: 0.5,
+                            muted: false,
+                            pan: 0.6,
+                            automation: {
+                                volume: [{ time: 5, value: 1 }, { time: 10, value: 2 }],
+                                pan: [{ time: 5, value: 0.8 }],
+                                send: [{ time: 0, value: 0 }],
+                            },
+                        },
+                    },
+                });
+
+                const ctx = getCtx();
+                // Gains: master bus, the erhu volume, its instrument gain, then its reverb send
+                const [, volumeGain, , sendGain] = ctx.createGain.mock.results.map(r => r.value);
+                const panner = ctx.createStereoPanner.mock.results[0].value;
+
+                expect(volumeGain.gain.setValueAtTime).toHaveBeenCalledWith(0.5, 0);
+                expect(volumeGain.gain.linearRampToValueAtTime.mock.calls).toEqual([
+                    [0.5, 5],
+                    [1, 10],
+                    [1, 15],
+                ]);
+                // Pan lanes offset the track pan, within the stereo field
+                expect(panner.pan.setValueAtTime).toHaveBeenCalledWith(1, 0);
+                expect(sendGain.gain.setValueAtTime).toHaveBeenCalledWith(0, 0);
+            });
+
+            it('defaults to the ensemble pan positions', async () => {
+                const engine = new SynthesizerEngine();
+
+                await engine.renderMix(createMockComposition(), createMockParams({ instruments: ensemble }));
+
+                const pans = getCtx().createStereoPanner.mock.results.map(r => r.value.pan.value);
+                expect(pans).toEqual(ensemble.map(inst => INSTRUMENT_PAN[inst]));
+            });
+
+            it('routes channels and their reverb through the master bus', async () => {
+                const engine = new SynthesizerEngine();
+
+                await engine.renderMix(createMockComposition(), createMockParams({ instruments: ['erhu'] }), {
+                    masterGain: 0.8,
+                });
+
+                const ctx = getCtx();
+                const [masterBus, volumeGain] = ctx.createGain.mock.results.map(r => r.value);
+                const panner = ctx.createStereoPanner.mock.results[0].value;
+                const convolver = (createConvolutionReverb as ReturnType<typeof vi.fn>).mock.results[0].value;
+
+                expect(masterBus.gain.value).toBe(0.8);
+                expect(masterBus.connect).toHaveBeenCalledWith(ctx.destination);
+                expect(panner.connect).toHaveBeenCalledWith(volumeGain);
+                expect(convolver.connect).toHaveBeenCalledWith(volumeGain);
+                expect(volumeGain.connect).toHaveBeenCalledWith(masterBus);
+            });
+
+            it('limits the rendered mix to the true-peak ceiling', async () => {
+                const engine = new SynthesizerEngine();
+
+                const buffer = await engine.renderMix(createMockComposition(), createMockParams({ instruments: ['erhu'] }));
+
+                expect(limitTruePeak).toHaveBeenCalledWith(buffer, TRUE_PEAK_CEILING);
+                expect(normalizeLoudness).not.toHaveBeenCalled();
+            });
+
+            it('bypasses the limiter when disabled', async () => {
+                const engine = new SynthesizerEngine();
+
+                await engine.renderMix(createMockComposition(), createMockParams({ instruments: ['erhu'] }), {
+                    limiter: false,
+                });
+
+                expect(limitTruePeak).not.toHaveBeenCalled();
+            });
+
+            it('normalizes to the loudness target before limiting', async () => {
+                const engine = new SynthesizerEngine();
+
+                const buffer = await engine.renderMix(createMockComposition(), createMockParams({ instruments: ['erhu'] }), {
+                    loudnessTarget: -14,
+                });
+
+                expect(normalizeLoudness).toHaveBeenCalledWith(buffer, -14);
+                expect((normalizeLoudness as ReturnType<typeof vi.fn>).mock.invocationCallOrder[0])
+                    .toBeLessThan((limitTruePeak as ReturnType<typeof vi.fn>).mock.invocationCallOrder[0]);
+            });
+
+            it('runs tracks with effects through an effects chain after their own reverb', async () => {
+                const engine = new SynthesizerEngine();
+                const effects = { ...DEFAULT_TRACK_EFFECTS, eq: { low: -6, mid: -3, high: 0 } };
+
+                await engine.renderMix(createMockComposition(), createMockParams({ instruments: ['erhu', 'pipa'] }), {
+                    tracks: {
+                        erhu: { volume: 0.5, muted: false, effects },
+                        pipa: { volume: 1, muted: false, effects: DEFAULT_TRACK_EFFECTS },
+                    },
+                });
+
+                const ctx = getCtx();
+                // Gains: master bus, the erhu volume, then its instrument gain
+                const [masterBus, volumeGain, channelGain] = ctx.createGain.mock.results.map(r => r.value);
+                const panner = ctx.createStereoPanner.mock.results[0].value;
+                const chain = vi.mocked(createTrackEffectsChain).mock.results[0].value;
+                const convolvers = vi.mocked(createConvolutionReverb).mock.results.map(r => r.value);
+
+                // Neutral settings leave the chain out
+                expect(createTrackEffectsChain).toHaveBeenCalledTimes(1);
+                expect(createTrackEffectsChain).toHaveBeenCalledWith(ctx, effects, 90);
+                expect(convolvers).toHaveLength(2);
+                expect(mockVoice.scheduleNote).toHaveBeenCalledWith(expect.anything(), channelGain);
+
+                // The panned voice and its reverb feed the chain, then the track volume
+                expect(panner.connect).toHaveBeenCalledWith(chain.input);
+                expect(convolvers[0].connect).toHaveBeenCalledWith(chain.input);
+                expect(chain.output.connect).toHaveBeenCalledWith(volumeGain);
+                expect(volumeGain.connect).toHaveBeenCalledWith(masterBus);
+                expect(volumeGain.gain.value).toBe(0.5);
+                expect(channelGain.gain.value).toBeCloseTo(INSTRUMENT_GAIN.erhu);
+            });
+
+            it('renders each instrument with the seed its stem used', async () => {
+                const engine = new SynthesizerEngine();
+
+                await engine.renderMix(createMockComposition(), createMockParams({ instruments: ['erhu', 'pipa'] }), {
+                    tracks: { pipa: { volume: 1, muted: false, seed: 4242 } },
+                });
+
+                const seeds = (mapCompositionToTracks as ReturnType<typeof vi.fn>).mock.calls.map(call => call[1].seed);
+                expect(seeds).toEqual([12345, 4242]);
+            });
+
+            it('reports progress up to completion', async () => {
+                const engine = new SynthesizerEngine();
+                const onProgress = vi.fn();
+
+                await engine.renderMix(createMockComposition(), createMockParams({ instruments: ensemble }), {}, onProgress);
+
+                expect(onProgress).toHaveBeenCalledWith(0.1);
+                expect(onProgress).toHaveBeenLastCalledWith(1.0);
+            });
+
+            it('encodes the mixdown as a WAV blob', async () => {
+                const engine = new SynthesizerEngine();
+
+                const blob = await engine.renderMixToWav(createMockComposition(), createMockParams({ instruments: ensemble }));
+
+                expect(audioBufferToWavBlob).toHaveBeenCalledTimes(1);
+                expect(blob.type).toBe('audio/wav');
+            });
+        });
+
         describe('renderTrackToBase64', () => {
             it('renders track and converts to base64', async () => {
                 const engine = new SynthesizerEngine();
@@ -478,20 +940,25 @@ describe('synthesizer.ts', () => {
                 expect(results.size).toBe(0);
             });
 
-            it('renders instruments sequentially', async () => {
-                const renderOrder: Instrument[] = [];
-                (createVoice as ReturnType<typeof vi.fn>).mockImplementation((inst: Instrument) => {
-                    renderOrder.push(inst);
-                    return createMockVoice();
+            it('renders instruments concurrently', async () => {
+                const pending: Array<() => void> = [];
+                const createContext = vi.fn((options: OfflineAudioContextOptions) => {
+                    const ctx = new MockOfflineAudioContext(options);
+                    ctx.startRendering.mockImplementation(() => new Promise((resolve) => {
+                        pending.push(() => resolve(createMockBuffer()));
+                    }));
+                    return ctx as unknown as OfflineAudioContext;
                 });
 
-                const engine = new SynthesizerEngine();
+                const engine = new SynthesizerEngine(44100, createContext);
                 const composition = createMockComposition();
                 const params = createMockParams({ instruments: ['erhu', 'guzheng', 'pipa'] });
 
-                await engine.renderAll(composition, params);
+                const results = engine.renderAll(composition, params);
+                await vi.waitFor(() => expect(pending).toHaveLength(3));
+                [...pending].reverse().forEach((finish) => finish());
 
-                expect(renderOrder).toEqual(['erhu', 'guzheng', 'pipa']);
+                expect([...(await results).keys()]).toEqual(['erhu', 'guzheng', 'pipa']);
             });
         });
 
@@ -577,6 +1044,10 @@ describe('synthesizer.ts', () => {
     });
 
     describe('synthesizeInstrument', () => {
+        beforeEach(() => {
+            clearRenderCache();
+        });
+
         it('returns AudioResult compatible object', async () => {
             const composition = createMockComposition();
             const params = createMockParams();
@@ -615,6 +1086,34 @@ describe('synthesizer.ts', () => {
             expect(result.seed).toBe(54321);
         });
 
+        it('renders with the seed it returns', async () => {
+            const composition = createMockComposition();
+            const params = createMockParams();
+            delete (params as { seed?: number }).seed;
+
+            const result = await synthesizeInstrument(composition, 'erhu', params);
+
+            expect(mapCompositionToTracks).toHaveBeenCalledWith(
+                composition,
+                expect.objectContaining({ seed: result.seed })
+            );
+        });
+
+        it('reproduces a render with an explicit seed of 0', async () => {
+            const composition = createMockComposition();
+            const params = createMockParams({ seed: 0 });
+
+            const first = await synthesizeInstrument(composition, 'erhu', params);
+            clearRenderCache();
+            const second = await synthesizeInstrument(composition, 'erhu', params);
+
+            expect(first.seed).toBe(0);
+            expect(second.seed).toBe(0);
+            const [firstRandom, secondRandom] = (createVoice as ReturnType<typeof vi.fn>).mock.calls.map(call => call[3]);
+            expect(firstRandom).not.toBe(Math.random);
+            expect([firstRandom(), firstRandom()]).toEqual([secondRandom(), secondRandom()]);
+        });
+
         it('generates random seed when not provided', async () => {
             const composition = createMockComposition();
             const params = createMockParams();
@@ -627,6 +1126,46 @@ describe('synthesizer.ts', () => {
             expect(result.seed).toBeLessThan(100000);
         });
 
+        it('reuses the cached render for a repeated seeded request', async () => {
+            const composition = createMockComposition();
+            const params = createMockParams({ seed: 777 });
+
+            const first = await synthesizeInstrument(composition, 'erhu', params);
+            const second = await synthesizeInstrument(composition, 'erhu', params);
+
+            expect(second).toEqual(first);
+            expect(mapCompositionToTracks).toHaveBeenCalledTimes(1);
+        });
+
+        it('reports progress up to completion', async () => {
+            const onProgress = vi.fn();
+
+            await synthesizeInstrument(createMockComposition(), 'erhu', createMockParams(), { onProgress });
+
+            expect(onProgress).toHaveBeenCalledWith(0.1);
+            expect(onProgress).toHaveBeenLastCalledWith(1);
+        });
+
+        it('rejects with RenderAbortedError when aborted', async () => {
+            const controller = new AbortController();
+            controller.abort();
+
+            await expect(synthesizeInstrument(createMockComposition(), 'erhu', createMockParams(), {
+                signal: controller.signal,
+            })).rejects.toBeInstanceOf(RenderAbortedError);
+            expect(mapCompositionToTracks).not.toHaveBeenCalled();
+        });
+
+        it('renders again when the seed or composition changes', async () => {
+            const composition = createMockComposition();
+
+            await synthesizeInstrument(composition, 'erhu', createMockParams({ seed: 1 }));
+            await synthesizeInstrument(composition, 'erhu', createMockParams({ seed: 2 }));
+            await synthesizeInstrument(createMockComposition({ form: ['A'] }), 'erhu', createMockParams({ seed: 2 }));
+
+            expect(mapCompositionToTracks).toHaveBeenCalledTimes(3);
+        });
+
         it('uses singleton engine', async () => {
             const composition = createMockComposition();
             const params = createMockParams();
@@ -639,6 +1178,54 @@ describe('synthesizer.ts', () => {
         });
     });
 
+    describe('synthesizeMix', () => {
+        const wav = new Blob(['mix'], { type: 'audio/wav' });
+
+        afterEach(() => {
+            vi.unstubAllGlobals();
+        });
+
+        it('renders and encodes the mixdown on the render pool where workers are available', async () => {
+            vi.stubGlobal('Worker', class {});
+            const renderMix = vi.spyOn(getRenderPool(), 'renderMix').mockResolvedValue(wav);
+            const composition = createMockComposition();
+            const params = createMockParams({ instruments: ['erhu', 'pipa'] });
+            const mix = { masterGain: 0.8 };
+            const onProgress = vi.fn();
+
+            const result = await synthesizeMix(composition, params, mix, { onProgress });
+
+            expect(result).toBe(wav);
+            expect(renderMix).toHaveBeenCalledWith(composition, params, mix, { onProgress, signal: undefined });
+            expect(createVoice).not.toHaveBeenCalled();
+            expect(audioBufferToWavBlob).not.toHaveBeenCalled();
+            renderMix.mockRestore();
+        });
+
+        it('falls back to the main thread without workers', async () => {
+            const onProgress = vi.fn();
+
+            const result = await synthesizeMix(createMockComposition(), createMockParams({ instruments: ['erhu'] }), {}, {
+                onProgress,
+            });
+
+            expect(result).toBeInstanceOf(Blob);
+            expect(createVoice).toHaveBeenCalledTimes(1);
+            expect(audioBufferToWavBlob).toHaveBeenCalledTimes(1);
+            expect(onProgress).toHaveBeenLastCalledWith(1);
+        });
+
+        it('rejects with RenderAbortedError when aborted', async () => {
+            const controller = new AbortController();
+            controller.abort();
+
+            await expect(synthesizeMix(createMockComposition(), createMockParams(), {}, {
+                signal: controller.signal,
+            })).rejects.toBeInstanceOf(RenderAbortedError);
+            expect(createVoice).not.toHaveBeenCalled();
+        });
+    });
+
     describe('integration scenarios', () => {
         it('handles different instruments', async () => {
             const instruments: Instrument[] = ['erhu', 'guzheng', 'pipa', 'dizi'];
@@ -671,7 +1258,7 @@ describe('synthesizer.ts', () => {
                 const params = createMockParams({ mood });
 
                 await engine.renderTrack(composition, 'erhu', params);
-                expect(getVoiceParams).toHaveBeenCalledWith('erhu', mood);
+                expect(getVoiceParams).toHaveBeenCalledWith('erhu', mood, undefined);
             }
         });
 
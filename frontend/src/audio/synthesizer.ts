@@ -4,12 +4,47 @@
  */
 
 import type { Composition, Instrument, CompositionParams } from '../types/music';
-import type { InstrumentTrack, SynthesizerConfig, RenderResult } from './types';
+import type {
+    InstrumentTrack,
+    SynthesizerConfig,
+    RenderResult,
+    InstrumentVoice,
+    MixSettings,
+    TrackAutomation,
+    TrackEffects,
+} from './types';
 import { DEFAULT_SAMPLE_RATE, NUM_CHANNELS, SECTION_DURATION } from './types';
 import { mapCompositionToTracks, getCompositionDuration } from './scheduling';
 import { createVoice } from './voices';
-import { getVoiceParams, INSTRUMENT_GAIN } from './utils/moodParams';
-import { audioBufferToBase64WAV } from './utils/wavEncoder';
+import { createTrackEffectsChain, isNeutralEffects } from './effects';
+import { getVoiceParams, MOOD_REVERB, INSTRUMENT_PAN } from './utils/moodParams';
+import { audioBufferToBase64WAV, audioBufferToWavBlob } from './utils/wavEncoder';
+import { getRandomSource } from './utils/random';
+import { limitTruePeak, normalizeLoudness, TRUE_PEAK_CEILING } from './utils/loudness';
+import { scheduleAutomation } from './utils/automation';
+import { createTrackStrip } from './trackStrip';
+import { RenderCache, renderCacheKey } from './renderCache';
+import { createOfflineContext } from './dsp';
+import type { OfflineContextFactory } from './dsp';
+import { RenderAbortedError, canRenderInWorkers, getRenderPool } from './renderPool';
+import type { RenderTaskOptions } from './renderPool';
+
+/**
+ * Version of the synthesis engine's output.
+ * Bump it whenever a change makes the same composition, params and seed
+ * render differently, so history entries saved earlier can be flagged.
+ */
+export const SYNTH_VERSION = 2;
+
+/**
+ * Number of rendered tracks kept in memory for reuse.
+ */
+const RENDER_CACHE_SIZE = 12;
+
+/**
+ * Number of points during rendering at which progress is reported.
+ */
+const RENDER_PROGRESS_STEPS = 10;
 
 /**
  * Progress callback for rendering status.
@@ -21,13 +56,21 @@ export type RenderProgressCallback = (progress: number, instrument: Instrument)
  */
 export class SynthesizerEngine {
     private sampleRate: number;
+    private createContext: OfflineContextFactory;
 
-    constructor(sampleRate: number = DEFAULT_SAMPLE_RATE) {
+    /**
+     * @param sampleRate - Output sample rate
+     * @param createContext - Creates the offline context each render runs in
+     *   (default: Web Audio where available, otherwise the DSP renderer)
+     */
+    constructor(sampleRate: number = DEFAULT_SAMPLE_RATE, createContext: OfflineContextFactory = createOfflineContext) {
         this.sampleRate = sampleRate;
+        this.createContext = createContext;
     }
 
     /**
      * Render a single instrument track to an AudioBuffer.
+     * With `params.seed` set, the render is fully deterministic.
      *
      * @param composition - Composition data from Gemini
      * @param instrument - Which instrument to render
@@ -41,62 +84,106 @@ export class SynthesizerEngine {
         params: CompositionParams,
         onProgress?: RenderProgressCallback
     ): Promise<AudioBuffer> {
-        const duration = getCompositionDuration(composition);
+        const offlineCtx = this.createRenderContext(composition, params);
 
-        // Create offline context for rendering
-        const offlineCtx = new OfflineAudioContext({
-            numberOfChannels: NUM_CHANNELS,
-            length: Math.ceil(duration * this.sampleRate) + this.sampleRate, // +1s buffer
-            sampleRate: this.sampleRate,
-        });
+        const voice = this.scheduleInstrument(offlineCtx, composition, instrument, params, {
+            output: offlineCtx.destination,
+            volume: 1,
+            pan: INSTRUMENT_PAN[instrument] ?? 0,
+        }, (fraction) => onProgress?.(0.1 + 0.7 * fraction, instrument));
 
-        // Get voice parameters for this instrument and mood
-        const voiceParams = getVoiceParams(instrument, params.mood);
+        onProgress?.(0.8, instrument);
 
-        // Create voice
-        const voice = createVoice(instrument, offlineCtx, voiceParams);
+        // Render
+        const buffer = await this.render(offlineCtx, (fraction) => onProgress?.(0.8 + 0.2 * fraction, instrument));
 
-        // Map composition to notes for this instrument
-        const tracks = mapCompositionToTracks(composition, {
-            ...params,
-            instruments: [instrument], // Only this instrument
-        });
+        // Cleanup
+        voice.dispose();
 
-        const track = tracks.get(instrument);
-        if (!track) {
-            throw new Error(`Failed to generate track for ${instrument}`);
-        }
+        onProgress?.(1.0, instrument);
 
-        // Create master gain with instrument-specific level
-        const masterGain = offlineCtx.createGain();
-        masterGain.gain.value = INSTRUMENT_GAIN[instrument] || 0.7;
-        masterGain.connect(offlineCtx.destination);
+        return buffer;
+    }
 
-        // Schedule all notes
-        onProgress?.(0.1, instrument);
+    /**
+     * Render the full ensemble into a single stereo buffer.
+     * Every unmuted instrument is scheduled into one context, each through
+     * its own channel strip into a master gain. The rendered mix is then
+     * normalized to the loudness target, if any, and run through the
+     * true-peak limiter.
+     *
+     * @param composition - Composition data
+     * @param params - Composition parameters
+     * @param mix - Mixer state and master bus settings
+     * @param onProgress - Optional progress callback (0-1)
+     * @returns AudioBuffer containing the mixdown
+     */
+    async renderMix(
+        composition: Composition,
+        params: CompositionParams,
+        mix: MixSettings = {},
+        onProgress?: (progress: number) => void
+    ): Promise<AudioBuffer> {
+        const offlineCtx = this.createRenderContext(composition, params);
+        const masterBus = this.createMasterBus(offlineCtx, mix);
 
-        for (let i = 0; i < track.notes.length; i++) {
-            voice.scheduleNote(track.notes[i], masterGain);
+        const instruments = params.instruments.filter((inst) => !mix.tracks?.[inst]?.muted);
+        const voices: InstrumentVoice[] = [];
 
-            // Report progress periodically
-            if (i % 50 === 0) {
-                onProgress?.(0.1 + (0.7 * i / track.notes.length), instrument);
-            }
-        }
+        onProgress?.(0.1);
 
-        onProgress?.(0.8, instrument);
+        instruments.forEach((instrument, index) => {
+            const track = mix.tracks?.[instrument];
+            const trackParams = { ...params, seed: track?.seed ?? params.seed };
 
-        // Render
-        const buffer = await offlineCtx.startRendering();
+            voices.push(this.scheduleInstrument(offlineCtx, composition, instrument, trackParams, {
+                output: masterBus,
+                volume: track?.volume ?? 1,
+                pan: track?.pan ?? INSTRUMENT_PAN[instrument] ?? 0,
+                effects: track?.effects,
+                automation: track?.automation,
+            }));
 
-        // Cleanup
-        voice.dispose();
+            onProgress?.(0.1 + (0.7 * (index + 1) / instruments.length));
+        });
 
-        onProgress?.(1.0, instrument);
+        onProgress?.(0.8);
+
+        const buffer = await this.render(offlineCtx, (fraction) => onProgress?.(0.8 + 0.2 * fraction));
+
+        voices.forEach((voice) => voice.dispose());
+
+        if (mix.loudnessTarget !== undefined) {
+            normalizeLoudness(buffer, mix.loudnessTarget);
+        }
+        if (mix.limiter ?? true) {
+            limitTruePeak(buffer, TRUE_PEAK_CEILING);
+        }
+
+        onProgress?.(1.0);
 
         return buffer;
     }
 
+    /**
+     * Render the ensemble mixdown as a downloadable stereo WAV.
+     *
+     * @param composition - Composition data
+     * @param params - Composition parameters
+     * @param mix - Mixer state and master bus settings
+     * @param onProgress - Optional progress callback (0-1)
+     * @returns WAV Blob of the mixdown
+     */
+    async renderMixToWav(
+        composition: Composition,
+        params: CompositionParams,
+        mix: MixSettings = {},
+        onProgress?: (progress: number) => void
+    ): Promise<Blob> {
+        const buffer = await this.renderMix(composition, params, mix, onProgress);
+        return audioBufferToWavBlob(buffer);
+    }
+
     /**
      * Render a track and return base64 WAV (compatible with existing AudioResult).
      *
@@ -117,37 +204,172 @@ export class SynthesizerEngine {
     }
 
     /**
-     * Render all instruments and return results.
+     * Render all instruments concurrently, each in its own offline context.
      *
      * @param composition - Composition data
      * @param params - Composition parameters
      * @param onProgress - Progress callback (0-1 per instrument)
-     * @returns Map of instrument to render results
+     * @returns Map of instrument to render results, in instrument order
      */
     async renderAll(
         composition: Composition,
         params: CompositionParams,
         onProgress?: (instrument: Instrument, progress: number) => void
     ): Promise<Map<Instrument, RenderResult>> {
-        const results = new Map<Instrument, RenderResult>();
-        const duration = getCompositionDuration(composition);
+        const duration = getCompositionDuration(composition, params.tempo);
 
-        for (const instrument of params.instruments) {
-            const buffer = await this.renderTrack(
+        const buffers = await Promise.all(params.instruments.map((instrument) =>
+            this.renderTrack(
                 composition,
                 instrument,
                 params,
                 (progress) => onProgress?.(instrument, progress)
-            );
+            )
+        ));
 
-            results.set(instrument, {
-                buffer,
-                duration,
-                instrument,
-            });
+        return new Map(params.instruments.map((instrument, i) => [
+            instrument,
+            { buffer: buffers[i], duration, instrument },
+        ]));
+    }
+
+    /**
+     * Create an offline context long enough for the composition plus its reverb tail.
+     */
+    private createRenderContext(composition: Composition, params: CompositionParams): OfflineAudioContext {
+        const duration = getCompositionDuration(composition, params.tempo);
+
+        // Leave room for the reverb tail (at least 1s)
+        const tail = Math.max(1, MOOD_REVERB[params.mood].decayTime);
+
+        return this.createContext({
+            numberOfChannels: NUM_CHANNELS,
+            length: Math.ceil((duration + tail) * this.sampleRate),
+            sampleRate: this.sampleRate,
+        });
+    }
+
+    /**
+     * Render a context, reporting how far rendering has got (0-1).
+     * Progress is read by suspending the context at fixed points; contexts
+     * that can't suspend offline render straight through.
+     */
+    private render(ctx: OfflineAudioContext, onProgress: (fraction: number) => void): Promise<AudioBuffer> {
+        if (typeof ctx.suspend === 'function') {
+            const duration = ctx.length / ctx.sampleRate;
+
+            for (let step = 1; step < RENDER_PROGRESS_STEPS; step++) {
+                const fraction = step / RENDER_PROGRESS_STEPS;
+                try {
+                    ctx.suspend(duration * fraction)
+                        .then(() => {
+                            onProgress(fraction);
+                            return ctx.resume();
+                        })
+                        .catch(() => {
+                            // Progress is best effort
+                        });
+                } catch {
+                    break;
+                }
+            }
         }
 
-        return results;
+        return ctx.startRendering();
+    }
+
+    /**
+     * Create a voice for one instrument and schedule its notes.
+     * The voice plays into the track's channel strip (see `createTrackStrip`),
+     * which feeds `route.output`; neutral insert effects are left out.
+     * Automation lanes drive the volume, pan and send over the whole render.
+     *
+     * @returns The voice, to be disposed after rendering
+     */
+    private scheduleInstrument(
+        ctx: BaseAudioContext,
+        composition: Composition,
+        instrument: Instrument,
+        params: CompositionParams,
+        route: {
+            output: AudioNode;
+            volume: number;
+            pan: number;
+            effects?: TrackEffects;
+            automation?: TrackAutomation;
+        },
+        onNoteProgress?: (fraction: number) => void
+    ): InstrumentVoice {
+        // Get voice parameters for this instrument and mood
+        const voiceParams = getVoiceParams(instrument, params.mood, params.stringModels?.[instrument]);
+
+        // Create voice
+        const voice = createVoice(
+            instrument,
+            ctx,
+            voiceParams,
+            getRandomSource(params.seed, `${instrument}:voice`)
+        );
+
+        // Map composition to notes for this instrument
+        const tracks = mapCompositionToTracks(composition, {
+            ...params,
+            instruments: [instrument], // Only this instrument
+        });
+
+        const track = tracks.get(instrument);
+        if (!track) {
+            throw new Error(`Failed to generate track for ${instrument}`);
+        }
+
+        const strip = createTrackStrip(ctx, {
+            instrument,
+            mood: params.mood,
+            pan: route.pan,
+            volume: route.volume,
+            effects: route.effects && !isNeutralEffects(route.effects)
+                ? createTrackEffectsChain(ctx, route.effects, params.tempo)
+                : undefined,
+            random: getRandomSource(params.seed, `${instrument}:reverb`),
+        }, route.output);
+
+        // Automate the volume, pan and send over the composition; the tail holds the last values
+        const { volume: volumeLane, pan: panLane, send: sendLane } = route.automation ?? {};
+        const whole = { from: 0, to: getCompositionDuration(composition, params.tempo), when: 0 };
+        const pan = Math.max(-1, Math.min(1, route.pan));
+        scheduleAutomation(strip.volume.gain, 'volume', volumeLane, whole, (value) => route.volume * value);
+        scheduleAutomation(strip.panner.pan, 'pan', panLane, whole, (value) => Math.max(-1, Math.min(1, pan + value)));
+        if (strip.send) {
+            const { level } = strip.send;
+            scheduleAutomation(strip.send.gain.gain, 'send', sendLane, whole, (value) => level * value);
+        }
+
+        // Schedule all notes
+        onNoteProgress?.(0);
+
+        for (let i = 0; i < track.notes.length; i++) {
+            voice.scheduleNote(track.notes[i], strip.input);
+
+            // Report progress periodically
+            if (i % 50 === 0) {
+                onNoteProgress?.(i / track.notes.length);
+            }
+        }
+
+        return voice;
+    }
+
+    /**
+     * Create the master bus gain into the destination. Limiting happens
+     * after rendering, where the limiter can look ahead.
+     * Returns the bus input.
+     */
+    private createMasterBus(ctx: BaseAudioContext, mix: MixSettings): GainNode {
+        const input = ctx.createGain();
+        input.gain.value = mix.masterGain ?? 1;
+        input.connect(ctx.destination);
+
+        return input;
     }
 
     /**
@@ -165,6 +387,11 @@ export class SynthesizerEngine {
  */
 let defaultEngine: SynthesizerEngine | null = null;
 
+/**
+ * Recently rendered tracks, reused by `synthesizeInstrument`.
+ */
+const renderCache = new RenderCache(RENDER_CACHE_SIZE);
+
 /**
  * Get the default synthesizer engine instance.
  */
@@ -175,26 +402,105 @@ export function getSynthesizerEngine(): SynthesizerEngine {
     return defaultEngine;
 }
 
+/**
+ * The seed a render uses: the given one, or a new random seed.
+ * Assigning it up front lets the seed be recorded to reproduce the audio.
+ */
+export function resolveSeed(seed?: number): number {
+    return seed ?? Math.floor(Math.random() * 100000);
+}
+
 /**
  * Synthesize audio for a single instrument.
  * Drop-in replacement for the API generateAudio function.
+ * Unseeded requests are assigned a seed up front, so the returned seed
+ * reproduces the rendered audio. Recent renders are cached, so repeating a
+ * seeded request returns the earlier result without synthesizing again.
+ *
+ * Rendering and encoding run on the shared render pool where workers are
+ * available, so concurrent calls render in parallel; otherwise on the main
+ * thread.
  *
  * @param composition - Composition data from Gemini
  * @param instrument - Instrument to synthesize
  * @param params - Composition parameters
+ * @param options - Progress callback (0-1) and abort signal
  * @returns AudioResult compatible with existing code
+ * @throws RenderAbortedError when the signal aborts
  */
 export async function synthesizeInstrument(
     composition: Composition,
     instrument: Instrument,
-    params: CompositionParams
+    params: CompositionParams,
+    { onProgress, signal }: RenderTaskOptions = {}
 ): Promise<{ audioContent: string; mimeType: string; seed: number }> {
-    const engine = getSynthesizerEngine();
-    const audioContent = await engine.renderTrackToBase64(composition, instrument, params);
+    const seed = resolveSeed(params.seed);
+    const seededParams = { ...params, seed };
+    const key = renderCacheKey(composition, instrument, seededParams);
 
-    return {
+    const cached = renderCache.get(key);
+    if (cached) {
+        onProgress?.(1);
+        return { ...cached };
+    }
+
+    let audioContent: string;
+    if (canRenderInWorkers()) {
+        audioContent = await getRenderPool().render(composition, instrument, seededParams, { onProgress, signal });
+    } else {
+        if (signal?.aborted) throw new RenderAbortedError();
+        audioContent = await getSynthesizerEngine().renderTrackToBase64(
+            composition,
+            instrument,
+            seededParams,
+            (progress) => onProgress?.(progress)
+        );
+        // A main-thread render can't be interrupted; drop its result instead
+        if (signal?.aborted) throw new RenderAbortedError();
+    }
+
+    const result = {
         audioContent,
         mimeType: 'audio/wav',
-        seed: params.seed || Math.floor(Math.random() * 100000),
+        seed,
     };
+
+    renderCache.set(key, result);
+    return result;
+}
+
+/**
+ * Render the ensemble mixdown as a WAV Blob.
+ * Like `synthesizeInstrument`, rendering and encoding run on the shared
+ * render pool where workers are available, otherwise on the main thread.
+ *
+ * @param composition - Composition data
+ * @param params - Composition parameters
+ * @param mix - Mixer state and master bus settings
+ * @param options - Progress callback (0-1) and abort signal
+ * @returns WAV Blob of the mixdown
+ * @throws RenderAbortedError when the signal aborts
+ */
+export async function synthesizeMix(
+    composition: Composition,
+    params: CompositionParams,
+    mix: MixSettings = {},
+    { onProgress, signal }: RenderTaskOptions = {}
+): Promise<Blob> {
+    if (canRenderInWorkers()) {
+        return getRenderPool().renderMix(composition, params, mix, { onProgress, signal });
+    }
+
+    if (signal?.aborted) throw new RenderAbortedError();
+    const wav = await getSynthesizerEngine().renderMixToWav(composition, params, mix, onProgress);
+    // A main-thread render can't be interrupted; drop its result instead
+    if (signal?.aborted) throw new RenderAbortedError();
+    return wav;
+}
+
+/**
+ * Drop all cached renders.
+ */
+export function clearRenderCache(): void {
+    renderCache.clear();
 }
@@ -0,0 +1,136 @@
+/**
+ * Unit tests for the track channel strip, built with the DSP renderer so the
+ * graph can be inspected, and for live playback and the mixdown sharing it.
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { createTrackStrip } from './trackStrip';
+import { LivePlaybackEngine } from './livePlayback';
+import { SynthesizerEngine } from './synthesizer';
+import { createTrackEffectsChain, DEFAULT_TRACK_EFFECTS } from './effects';
+import type { TrackEffects } from './types';
+import { DspConvolverNode, DspOfflineAudioContext } from './dsp';
+import type { DspNode } from './dsp';
+import { getRandomSource } from './utils/random';
+import { mockComposition, mockParams } from '../test/utils';
+
+vi.mock('./voices', () => ({
+    createVoice: vi.fn(() => ({ scheduleNote: vi.fn(), dispose: vi.fn() })),
+}));
+
+// The DSP renderer has no analysers, so the live master bus is a plain gain
+vi.mock('./effects', async (importOriginal) => ({
+    ...(await importOriginal<typeof import('./effects')>()),
+    createMasterBus: vi.fn((context: BaseAudioContext) => {
+        const input = context.createGain();
+        return { input, output: input, getMeter: vi.fn(), disconnect: vi.fn() };
+    }),
+}));
+
+const SAMPLE_RATE = 8000;
+
+const EFFECTS: TrackEffects = {
+    ...DEFAULT_TRACK_EFFECTS,
+    eq: { low: -6, mid: -3, high: 2 },
+    compressor: { ...DEFAULT_TRACK_EFFECTS.compressor, enabled: true },
+};
+
+const createContext = () => new DspOfflineAudioContext(2, SAMPLE_RATE, SAMPLE_RATE);
+
+/** A node and everything feeding it, by node type; feedback loops are marked */
+function describeUpstream(node: DspNode, path: DspNode[] = []): string {
+    const name = node.constructor.name.replace(/^Dsp|Node$/g, '');
+    if (path.includes(node)) return `${name}↺`;
+    if (node.inputs.length === 0) return name;
+    return `${name}(${node.inputs.map((input) => describeUpstream(input, [...path, node])).join(', ')})`;
+}
+
+describe('createTrackStrip', () => {
+    const buildStrip = (ctx: DspOfflineAudioContext, effects?: TrackEffects) => {
+        const context = ctx as unknown as BaseAudioContext;
+        return createTrackStrip(context, {
+            instrument: 'erhu',
+            mood: 'calm',
+            pan: -2,
+            volume: 0.5,
+            effects: effects && createTrackEffectsChain(context, effects, mockParams.tempo),
+            random: getRandomSource(1, 'erhu:reverb'),
+        }, ctx.destination as never);
+    };
+
+    const inputsOf = (node: unknown) => (node as DspNode).inputs;
+
+    it('runs the panned voice and its reverb through the effects, then the volume', () => {
+        const ctx = createContext();
+        const strip = buildStrip(ctx, EFFECTS);
+        const [dry, reverb] = inputsOf(strip.effects!.input);
+
+        expect(dry).toBe(strip.panner);
+        expect(reverb).toBeInstanceOf(DspConvolverNode);
+        expect(inputsOf(strip.panner)).toEqual([strip.input]);
+        expect(inputsOf(reverb)).toEqual([strip.send!.gain]);
+        expect(inputsOf(strip.send!.gain)).toEqual([strip.input]);
+
+        expect(inputsOf(strip.volume)).toEqual([strip.effects!.output]);
+        expect(ctx.destination.inputs).toEqual([strip.volume]);
+        expect(strip.volume.gain.value).toBe(0.5);
+        expect(strip.panner.pan.value).toBe(-1);
+    });
+
+    it('feeds the volume directly without effects', () => {
+        const ctx = createContext();
+        const strip = buildStrip(ctx);
+
+        expect(strip.effects).toBeNull();
+        expect(inputsOf(strip.volume)).toEqual([strip.panner, expect.any(DspConvolverNode)]);
+    });
+
+    it('releases every node', () => {
+        const ctx = createContext();
+        const strip = buildStrip(ctx, EFFECTS);
+
+        strip.disconnect();
+
+        expect(ctx.destination.inputs).toEqual([]);
+        expect(inputsOf(strip.effects!.input)).toEqual([]);
+        expect(inputsOf(strip.panner)).toEqual([]);
+    });
+});
+
+describe('live playback and mixdown routing', () => {
+    it('build each track with the same node order', async () => {
+        const liveCtx = createContext();
+        const live = new LivePlaybackEngine(
+            { composition: mockComposition, params: mockParams, seeds: {} },
+            { context: liveCtx as unknown as AudioContext }
+        );
+        mockParams.instruments.forEach((instrument) => live.setTrackEffects(instrument, EFFECTS));
+
+        const mixContexts: DspOfflineAudioContext[] = [];
+        const engine = new SynthesizerEngine(SAMPLE_RATE, (options) => {
+            const mixCtx = new DspOfflineAudioContext(options);
+            // Only the graph matters here, not the rendered audio
+            mixCtx.startRendering = async () => mixCtx.createBuffer(2, 1, SAMPLE_RATE);
+            mixContexts.push(mixCtx);
+            return mixCtx as unknown as OfflineAudioContext;
+        });
+        await engine.renderMix(mockComposition, mockParams, {
+            tracks: {
+                erhu: { volume: 1, muted: false, effects: EFFECTS },
+                guzheng: { volume: 1, muted: false, effects: EFFECTS },
+            },
+        });
+
+        // Live tracks meet on the master bus through their volume automation gain
+        const [liveMaster] = liveCtx.destination.inputs;
+        const liveTracks = liveMaster.inputs.map((automation) => automation.inputs[0]);
+        const [mixMaster] = mixContexts[0].destination.inputs;
+
+        const liveOrder = liveTracks.map((track) => describeUpstream(track));
+        expect(liveOrder).toHaveLength(2);
+        expect(liveOrder).toEqual(mixMaster.inputs.map((track) => describeUpstream(track)));
+        expect(liveOrder[0]).toMatch(/Convolver\(Gain\(Gain\)\)/);
+
+        live.dispose();
+    });
+});
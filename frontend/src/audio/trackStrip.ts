@@ -0,0 +1,94 @@
+/**
+ * One instrument's channel strip, built the same way by live playback and
+ * the offline renders, so what plays live is what exports.
+ *
+ * The voice feeds an instrument gain, then a panner, with a pre-pan send to
+ * a reverb of the track's own. The panned voice and the reverb return feed
+ * the insert effects, as they do on the rendered stems in the mixer, and the
+ * track volume follows them.
+ */
+
+import type { Instrument, Mood } from '../types/music';
+import { createConvolutionReverb } from './effects';
+import type { TrackEffectsChain } from './effects';
+import { getReverbSend, MOOD_REVERB, INSTRUMENT_GAIN } from './utils/moodParams';
+import type { RandomSource } from './utils/random';
+
+export interface TrackStripOptions {
+    instrument: Instrument;
+    mood: Mood;
+    /** Stereo position in [-1, 1] */
+    pan: number;
+    volume: number;
+    /** Insert effects chain; the strip has none when left out */
+    effects?: TrackEffectsChain;
+    /** Random source of the track reverb's impulse response */
+    random: RandomSource;
+}
+
+export interface TrackStrip {
+    /** Where the voice plays its notes, at the instrument level */
+    input: GainNode;
+    panner: StereoPannerNode;
+    /** Reverb send and its level; null for dry instruments */
+    send: { gain: GainNode; level: number } | null;
+    effects: TrackEffectsChain | null;
+    /** Track volume, after the effects */
+    volume: GainNode;
+    /** Release the strip's nodes */
+    disconnect(): void;
+}
+
+/**
+ * Build a track's channel strip into `output`.
+ */
+export function createTrackStrip(
+    context: BaseAudioContext,
+    { instrument, mood, pan, volume, effects, random }: TrackStripOptions,
+    output: AudioNode
+): TrackStrip {
+    const volumeGain = context.createGain();
+    volumeGain.gain.value = volume;
+    volumeGain.connect(output);
+
+    effects?.output.connect(volumeGain);
+    const effectsInput = effects?.input ?? volumeGain;
+
+    const input = context.createGain();
+    input.gain.value = INSTRUMENT_GAIN[instrument] || 0.7;
+
+    const panner = context.createStereoPanner();
+    panner.pan.value = Math.max(-1, Math.min(1, pan));
+    input.connect(panner);
+    panner.connect(effectsInput);
+
+    // Dry instruments (send of 0) get no reverb
+    const level = getReverbSend(instrument, mood);
+    let send: TrackStrip['send'] = null;
+    let reverb: ConvolverNode | null = null;
+    if (level > 0) {
+        const sendGain = context.createGain();
+        sendGain.gain.value = level;
+        reverb = createConvolutionReverb(context, MOOD_REVERB[mood], random);
+        input.connect(sendGain);
+        sendGain.connect(reverb);
+        reverb.connect(effectsInput);
+        send = { gain: sendGain, level };
+    }
+
+    return {
+        input,
+        panner,
+        send,
+        effects: effects ?? null,
+        volume: volumeGain,
+        disconnect: () => {
+            input.disconnect();
+            panner.disconnect();
+            send?.gain.disconnect();
+            reverb?.disconnect();
+            effects?.disconnect();
+            volumeGain.disconnect();
+        },
+    };
+}
@@ -2,7 +2,7 @@
  * Type definitions for the Web Audio synthesizer module.
  */
 
-import type { Instrument, Mood, PentatonicMode } from '../types/music';
+import type { Instrument, Mood, PentatonicMode, StringModel } from '../types/music';
 
 /**
  * A scheduled note event for synthesis.
@@ -20,6 +20,8 @@ export interface ScheduledNote {
     velocity: number;
     /** Which instrument plays this note */
     instrument: Instrument;
+    /** Grace note played just before this one, in semitones from it (dizi ornaments) */
+    graceNote?: number;
 }
 
 /**
@@ -64,6 +66,7 @@ export interface VoiceParameters {
     // Plucked instruments (Guzheng, Pipa)
     decayTime?: number;         // seconds
     brightness?: number;        // 0-1
+    stringModel?: StringModel;  // physical model (default) or lite oscillators
 
     // Breath instruments (Dizi)
     breathiness?: number;       // 0-1
@@ -85,6 +88,166 @@ export interface VoiceParameters {
  */
 export type MoodParameters = Record<Mood, Partial<VoiceParameters>>;
 
+/**
+ * Settings for the reverb bus each track sends to.
+ */
+export interface ReverbBusSettings {
+    /** Room size: 0 = small, 1 = large */
+    roomSize: number;
+    /** Decay time in seconds */
+    decayTime: number;
+    /** High frequency damping: 0 = bright, 1 = dark */
+    damping: number;
+    /** Pre-delay in milliseconds */
+    preDelay: number;
+    /** Multiplier applied to each instrument's reverbSend */
+    sendScale: number;
+}
+
+/**
+ * Three-band EQ gains in dB (0 = flat).
+ */
+export interface TrackEqSettings {
+    /** Low shelf */
+    low: number;
+    /** Peaking band in the low-mids, where the ensemble gets muddy */
+    mid: number;
+    /** High shelf */
+    high: number;
+}
+
+/**
+ * Per-track dynamics compressor.
+ */
+export interface TrackCompressorSettings {
+    enabled: boolean;
+    /** Threshold in dB (-60 to 0) */
+    threshold: number;
+    /** Compression ratio (1-20) */
+    ratio: number;
+}
+
+/**
+ * Per-track delay, synced to the tempo.
+ */
+export interface TrackDelaySettings {
+    enabled: boolean;
+    /** Delay time in beats (e.g. 0.5 for an eighth note) */
+    beats: number;
+    /** Amount fed back into the delay (0-0.9) */
+    feedback: number;
+    /** Level of the delayed signal (0-1) */
+    mix: number;
+}
+
+/**
+ * A track's insert chain: EQ, then compressor, then delay.
+ */
+export interface TrackEffects {
+    eq: TrackEqSettings;
+    compressor: TrackCompressorSettings;
+    delay: TrackDelaySettings;
+}
+
+/**
+ * Per-instrument state carried into a mixdown (mirrors the live mixer).
+ */
+export interface MixTrackSettings {
+    /** Track volume (0-1) */
+    volume: number;
+    /** Muted tracks are left out of the mix */
+    muted: boolean;
+    /** Stereo position (-1 to 1); defaults to INSTRUMENT_PAN */
+    pan?: number;
+    /** Seed the stem was rendered with, so the mix matches what was heard */
+    seed?: number;
+    /** Insert effects; tracks without them play dry */
+    effects?: TrackEffects;
+    /** Automation lanes over the composition; tracks without them hold their fader settings */
+    automation?: TrackAutomation;
+}
+
+/**
+ * Mixer settings an automation lane can change over time.
+ * `volume` and `send` scale the track's fader level and reverb send
+ * (1 = unchanged); `pan` is added to the track's pan.
+ */
+export type AutomationParam = 'volume' | 'pan' | 'send';
+
+/**
+ * A breakpoint on an automation lane.
+ */
+export interface AutomationPoint {
+    /** Composition time in seconds */
+    time: number;
+    value: number;
+}
+
+/**
+ * A track's automation lanes, each with its points in time order.
+ * Values ramp linearly between points and hold before the first and after
+ * the last; two points at the same time make a jump.
+ */
+export type TrackAutomation = Partial<Record<AutomationParam, AutomationPoint[]>>;
+
+/**
+ * Automation lanes of every automated track.
+ */
+export type MixAutomation = Partial<Record<Instrument, TrackAutomation>>;
+
+/**
+ * Insert effects of every track whose effects aren't neutral.
+ */
+export type MixEffects = Partial<Record<Instrument, TrackEffects>>;
+
+/**
+ * A region of the composition that playback repeats, in seconds.
+ */
+export interface LoopRegion {
+    start: number;
+    end: number;
+}
+
+/**
+ * Settings for rendering the full ensemble to one stereo buffer.
+ */
+export interface MixSettings {
+    /** Per-instrument mixer state; instruments not listed play at full volume */
+    tracks?: Partial<Record<Instrument, MixTrackSettings>>;
+    /** Master bus gain (default 1) */
+    masterGain?: number;
+    /** Normalize the mixdown to this integrated loudness in LUFS (default: not normalized) */
+    loudnessTarget?: number;
+    /** Keep the mixdown's true peak under TRUE_PEAK_CEILING (default true) */
+    limiter?: boolean;
+}
+
+/**
+ * Loudness of a rendered buffer.
+ */
+export interface LoudnessMeasurement {
+    /** Integrated loudness in LUFS (-Infinity when silent) */
+    integrated: number;
+    /** True peak in dBTP */
+    truePeak: number;
+}
+
+/**
+ * Level of one channel over a short window, in dBFS.
+ */
+export interface LevelReading {
+    peak: number;
+    rms: number;
+}
+
+/**
+ * Master bus levels after the limiter, per stereo channel.
+ */
+export interface MeterReading {
+    left: LevelReading;
+    right: LevelReading;
+}
+
 /**
  * Configuration for the synthesizer engine.
  */
@@ -0,0 +1,150 @@
+/**
+ * Unit tests for automation lanes.
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import {
+    getAutomationValue,
+    scheduleAutomation,
+    normalizeLane,
+    hasAutomation,
+    setAutomationLane,
+    getMixAutomation,
+    automationToMix,
+} from './automation';
+import type { AutomationPoint } from '../types';
+import { DEFAULT_TRACK_EFFECTS } from '../effects';
+
+const LANE: AutomationPoint[] = [
+    { time: 10, value: 1 },
+    { time: 20, value: 1.5 },
+    { time: 30, value: 1.5 },
+    { time: 30, value: 0.5 },
+];
+
+const createParam = () => ({
+    setValueAtTime: vi.fn(),
+    linearRampToValueAtTime: vi.fn(),
+}) as unknown as AudioParam & Record<'setValueAtTime' | 'linearRampToValueAtTime', ReturnType<typeof vi.fn>>;
+
+describe('automation', () => {
+    describe('getAutomationValue', () => {
+        it('ramps linearly between points', () => {
+            expect(getAutomationValue('volume', LANE, 15)).toBeCloseTo(1.25);
+            expect(getAutomationValue('volume', LANE, 25)).toBe(1.5);
+        });
+
+        it('holds the first and last values outside the points', () => {
+            expect(getAutomationValue('volume', LANE, 0)).toBe(1);
+            expect(getAutomationValue('volume', LANE, 45)).toBe(0.5);
+        });
+
+        it('takes the value after a jump', () => {
+            expect(getAutomationValue('volume', LANE, 30)).toBe(0.5);
+        });
+
+        it('is the neutral value for an empty lane', () => {
+            expect(getAutomationValue('volume', undefined, 5)).toBe(1);
+            expect(getAutomationValue('pan', [], 5)).toBe(0);
+        });
+
+        it('clamps values to the lane range', () => {
+            expect(getAutomationValue('pan', [{ time: 0, value: 3 }], 1)).toBe(1);
+        });
+    });
+
+    describe('scheduleAutomation', () => {
+        it('ramps through the points in a window, in context time', () => {
+            const param = createParam();
+
+            scheduleAutomation(param, 'volume', LANE, { from: 15, to: 35, when: 100, rate: 0.5 });
+
+            expect(param.setValueAtTime).toHaveBeenCalledWith(1.25, 100);
+            expect(param.linearRampToValueAtTime.mock.calls).toEqual([
+                [1.5, 110],
+                [1.5, 130],
+                [0.5, 130],
+                [0.5, 140],
+            ]);
+        });
+
+        it('ends a window on the value at its end', () => {
+            const param = createParam();
+
+            scheduleAutomation(param, 'volume', LANE, { from: 0, to: 15, when: 0 }, (value) => value * 0.8);
+
+            expect(param.setValueAtTime).toHaveBeenCalledWith(0.8, 0);
+            expect(param.linearRampToValueAtTime.mock.calls).toEqual([[0.8, 10], [1, 15]]);
+        });
+
+        it('leaves the param alone for an empty lane', () => {
+            const param = createParam();
+
+            scheduleAutomation(param, 'pan', [], { from: 0, to: 10, when: 0 });
+
+            expect(param.setValueAtTime).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('normalizeLane', () => {
+        it('sorts points, clamps values and drops invalid points', () => {
+            expect(normalizeLane('send', [
+                { time: 8, value: 5 },
+                { time: 2, value: 0.5 },
+                { time: Number.NaN, value: 1 },
+            ])).toEqual([{ time: 2, value: 0.5 }, { time: 8, value: 2 }]);
+        });
+    });
+
+    describe('setAutomationLane', () => {
+        it('replaces a lane', () => {
+            const next = setAutomationLane({}, 'dizi', 'volume', [{ time: 30, value: 1.4 }, { time: 15, value: 1 }]);
+
+            expect(next).toEqual({ dizi: { volume: [{ time: 15, value: 1 }, { time: 30, value: 1.4 }] } });
+        });
+
+        it('drops empty lanes and tracks', () => {
+            const automation = { dizi: { volume: LANE, pan: [{ time: 0, value: 0.2 }] } };
+
+            expect(setAutomationLane(automation, 'dizi', 'pan', [])).toEqual({ dizi: { volume: LANE } });
+            expect(setAutomationLane({ dizi: { volume: LANE } }, 'dizi', 'volume', [])).toEqual({});
+        });
+    });
+
+    describe('mix settings', () => {
+        it('reads automated tracks out of a mix', () => {
+            const tracks = {
+                erhu: { volume: 0.8, muted: false },
+                dizi: { volume: 1, muted: false, automation: { send: LANE } },
+            };
+
+            expect(getMixAutomation(tracks)).toEqual({ dizi: { send: LANE } });
+            expect(getMixAutomation(undefined)).toEqual({});
+        });
+
+        it('builds a default mix carrying only automation', () => {
+            expect(automationToMix({ dizi: { volume: LANE } })).toEqual({
+                dizi: { volume: 1, muted: false, automation: { volume: LANE } },
+            });
+            expect(automationToMix({})).toBeUndefined();
+        });
+
+        it('adds insert effects to the default mix', () => {
+            const effects = { ...DEFAULT_TRACK_EFFECTS, compressor: { enabled: true, threshold: -20, ratio: 3 } };
+
+            expect(automationToMix({ dizi: { volume: LANE } }, { erhu: effects })).toEqual({
+                dizi: { volume: 1, muted: false, automation: { volume: LANE } },
+                erhu: { volume: 1, muted: false, effects },
+            });
+            expect(automationToMix({ erhu: { pan: [] } }, { erhu: effects })).toEqual({
+                erhu: { volume: 1, muted: false, effects },
+            });
+        });
+
+        it('tells automated tracks apart', () => {
+            expect(hasAutomation({ volume: LANE })).toBe(true);
+            expect(hasAutomation({ pan: [] })).toBe(false);
+            expect(hasAutomation(undefined)).toBe(false);
+        });
+    });
+});
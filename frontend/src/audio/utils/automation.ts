@@ -0,0 +1,172 @@
+/**
+ * Mixer automation lanes: reading them over the form and scheduling them
+ * onto AudioParams. Shared by the offline mixdown, live playback and the
+ * stem mixer, so every path plays a lane the same way.
+ */
+
+import type { Instrument } from '../../types/music';
+import type { AutomationParam, AutomationPoint, MixAutomation, MixEffects, MixSettings, TrackAutomation } from '../types';
+
+/** Lanes in display order */
+export const AUTOMATION_PARAMS: readonly AutomationParam[] = ['volume', 'pan', 'send'];
+
+/**
+ * Range of each lane, and the value that leaves the track's setting unchanged.
+ * Volume and send are multipliers (2 is about +6 dB); pan is an offset.
+ */
+export const AUTOMATION_RANGES = {
+    volume: { min: 0, max: 2, neutral: 1 },
+    pan: { min: -1, max: 1, neutral: 0 },
+    send: { min: 0, max: 2, neutral: 1 },
+} as const;
+
+/**
+ * A stretch of composition time and the context time it plays at.
+ */
+export interface AutomationWindow {
+    /** Start of the window in composition time (seconds) */
+    from: number;
+    /** End of the window in composition time (seconds) */
+    to: number;
+    /** Context time at which `from` plays */
+    when: number;
+    /** Playback rate (default 1) */
+    rate?: number;
+}
+
+/**
+ * Clamp a value to a lane's range.
+ */
+export function clampAutomationValue(param: AutomationParam, value: number): number {
+    const { min, max } = AUTOMATION_RANGES[param];
+    return Math.max(min, Math.min(max, value));
+}
+
+/**
+ * Sort a lane by time and clamp its values, dropping points that aren't finite.
+ */
+export function normalizeLane(param: AutomationParam, points: AutomationPoint[]): AutomationPoint[] {
+    return points
+        .filter((point) => Number.isFinite(point.time) && Number.isFinite(point.value))
+        .map((point) => ({ time: Math.max(0, point.time), value: clampAutomationValue(param, point.value) }))
+        .sort((a, b) => a.time - b.time);
+}
+
+/**
+ * Value of a lane at a composition time, or the neutral value when the lane
+ * is empty. At a jump this is the value after it.
+ */
+export function getAutomationValue(
+    param: AutomationParam,
+    points: AutomationPoint[] | undefined,
+    time: number
+): number {
+    if (!points || points.length === 0) return AUTOMATION_RANGES[param].neutral;
+
+    const next = points.findIndex((point) => point.time > time);
+    if (next === 0) return clampAutomationValue(param, points[0].value);
+    if (next === -1) return clampAutomationValue(param, points[points.length - 1].value);
+
+    const before = points[next - 1];
+    const after = points[next];
+    const ratio = (time - before.time) / (after.time - before.time);
+    return clampAutomationValue(param, before.value + (after.value - before.value) * ratio);
+}
+
+/**
+ * Schedule a lane onto an AudioParam over a window: the lane's value at the
+ * window start, then a linear ramp through each point up to the window end.
+ * Consecutive windows join without a step. Empty lanes leave the param alone.
+ *
+ * @param map - Turns a lane value into the param's value (e.g. scales it by the fader level)
+ */
+export function scheduleAutomation(
+    audioParam: AudioParam,
+    param: AutomationParam,
+    points: AutomationPoint[] | undefined,
+    { from, to, when, rate = 1 }: AutomationWindow,
+    map: (value: number) => number = (value) => value
+): void {
+    if (!points || points.length === 0 || to <= from) return;
+
+    const contextTime = (time: number) => when + (time - from) / rate;
+
+    audioParam.setValueAtTime(map(getAutomationValue(param, points, from)), when);
+
+    let last = from;
+    for (const point of points) {
+        if (point.time <= from || point.time > to) continue;
+        audioParam.linearRampToValueAtTime(map(clampAutomationValue(param, point.value)), contextTime(point.time));
+        last = point.time;
+    }
+
+    if (last < to) {
+        audioParam.linearRampToValueAtTime(map(getAutomationValue(param, points, to)), contextTime(to));
+    }
+}
+
+/**
+ * Whether any of a track's lanes has points.
+ */
+export function hasAutomation(automation: TrackAutomation | undefined): boolean {
+    return AUTOMATION_PARAMS.some((param) => (automation?.[param]?.length ?? 0) > 0);
+}
+
+/**
+ * Replace one lane of a mix's automation. Lanes and tracks left without
+ * points are dropped, so unautomated mixes stay empty.
+ */
+export function setAutomationLane(
+    automation: MixAutomation,
+    instrument: Instrument,
+    param: AutomationParam,
+    points: AutomationPoint[]
+): MixAutomation {
+    const track: TrackAutomation = { ...automation[instrument] };
+    if (points.length > 0) {
+        track[param] = normalizeLane(param, points);
+    } else {
+        delete track[param];
+    }
+
+    const next = { ...automation };
+    if (hasAutomation(track)) {
+        next[instrument] = track;
+    } else {
+        delete next[instrument];
+    }
+    return next;
+}
+
+/**
+ * The automation lanes of a mix's tracks.
+ */
+export function getMixAutomation(tracks: MixSettings['tracks']): MixAutomation {
+    const automation: MixAutomation = {};
+    Object.entries(tracks ?? {}).forEach(([instrument, track]) => {
+        if (hasAutomation(track?.automation)) {
+            automation[instrument as Instrument] = track?.automation;
+        }
+    });
+    return automation;
+}
+
+/**
+ * Mixer state carrying only automation and insert effects: each automated
+ * or effected track at its default level and pan. Undefined when there are neither.
+ */
+export function automationToMix(automation: MixAutomation, effects: MixEffects = {}): MixSettings['tracks'] {
+    const automated = Object.keys(automation).filter((instrument) => hasAutomation(automation[instrument as Instrument]));
+    const instruments = [...new Set([...automated, ...Object.keys(effects)])] as Instrument[];
+    if (instruments.length === 0) return undefined;
+
+    return Object.fromEntries(instruments.map((instrument) => [
+        instrument,
+        {
+            volume: 1,
+            muted: false,
+            ...(effects[instrument] && { effects: effects[instrument] }),
+            ...(automated.includes(instrument) && { automation: automation[instrument] }),
+        },
+    ]));
+}
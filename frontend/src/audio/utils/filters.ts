@@ -0,0 +1,26 @@
+/**
+ * Biquad filter helpers shared by the instrument voices and the mixer effects.
+ */
+
+/**
+ * Create a biquad filter.
+ *
+ * @param type - Filter type
+ * @param frequency - Cutoff or center frequency in Hz
+ * @param q - Resonance / bandwidth (ignored by shelving filters)
+ * @param gain - Boost or cut in dB (shelving and peaking filters only)
+ */
+export function createBiquadFilter(
+    context: BaseAudioContext,
+    type: BiquadFilterType,
+    frequency: number,
+    q: number = 1,
+    gain?: number
+): BiquadFilterNode {
+    const filter = context.createBiquadFilter();
+    filter.type = type;
+    filter.frequency.value = frequency;
+    filter.Q.value = q;
+    if (gain !== undefined) filter.gain.value = gain;
+    return filter;
+}
@@ -29,6 +29,7 @@ export {
 export {
     audioBufferToWavBlob,
     audioBufferToBase64WAV,
+    encodeWAV,
     createSilentBuffer,
     mixBuffers,
 } from './wavEncoder';
@@ -36,11 +37,57 @@ export {
 export {
     INSTRUMENT_BASE_PARAMS,
     MOOD_MODIFIERS,
+    MOOD_REVERB,
     getVoiceParams,
+    getReverbSend,
     ROLE_VELOCITY,
+    DYNAMIC_VELOCITY,
     ROLE_OCTAVE_OFFSET,
     getTempoScaledAttack,
     rhythmToDuration,
     INSTRUMENT_PAN,
     INSTRUMENT_GAIN,
 } from './moodParams';
+
+export { createBiquadFilter } from './filters';
+
+export { renderPluckedString, getPluckedStringTone } from './karplusStrong';
+export type { PluckedStringOptions, PluckedStringTone } from './karplusStrong';
+
+export {
+    TRUE_PEAK_CEILING,
+    LOUDNESS_TARGETS,
+    dbToGain,
+    gainToDb,
+    measureLevel,
+    measureIntegratedLoudness,
+    measureTruePeak,
+    measureLoudness,
+    normalizeLoudness,
+    limitTruePeak,
+} from './loudness';
+
+export { createRandom, deriveSeed, getRandomSource } from './random';
+export type { RandomSource } from './random';
+
+export {
+    isTrackAudible,
+    clampPlaybackRate,
+    normalizeLoop,
+    wrapLoopTime,
+    loopStartPosition,
+} from './transport';
+
+export {
+    AUTOMATION_PARAMS,
+    AUTOMATION_RANGES,
+    clampAutomationValue,
+    normalizeLane,
+    getAutomationValue,
+    scheduleAutomation,
+    hasAutomation,
+    setAutomationLane,
+    getMixAutomation,
+    automationToMix,
+} from './automation';
+export type { AutomationWindow } from './automation';
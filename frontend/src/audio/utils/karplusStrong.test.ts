@@ -0,0 +1,106 @@
+/**
+ * Unit tests for the Karplus–Strong string model.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { renderPluckedString, getPluckedStringTone } from './karplusStrong';
+import { createRandom } from './random';
+
+const SAMPLE_RATE = 44100;
+
+const render = (overrides: Partial<Parameters<typeof renderPluckedString>[0]> = {}) =>
+    renderPluckedString({
+        frequency: 220,
+        sampleRate: SAMPLE_RATE,
+        duration: 1,
+        decayTime: 1,
+        pluckPosition: 0.25,
+        damping: 0.3,
+        random: createRandom(7),
+        ...overrides,
+    });
+
+const rms = (samples: Float32Array, from: number, to: number): number => {
+    let sum = 0;
+    for (let i = from; i < to; i++) sum += samples[i] * samples[i];
+    return Math.sqrt(sum / (to - from));
+};
+
+/** Zero crossings per second, a rough measure of pitch and brightness */
+const crossingRate = (samples: Float32Array, from: number, to: number): number => {
+    let crossings = 0;
+    for (let i = from + 1; i < to; i++) {
+        if ((samples[i - 1] < 0) !== (samples[i] < 0)) crossings++;
+    }
+    return crossings / ((to - from) / SAMPLE_RATE);
+};
+
+/** Pitch from the strongest autocorrelation peak within an octave of the target */
+const estimatePitch = (samples: Float32Array, target: number): number => {
+    const from = Math.floor(SAMPLE_RATE / (target * 2));
+    const to = Math.ceil(SAMPLE_RATE / (target / 2));
+    let best = from;
+    let bestScore = -Infinity;
+    for (let lag = from; lag <= to; lag++) {
+        let score = 0;
+        for (let i = 0; i < 8192; i++) score += samples[i] * samples[i + lag];
+        if (score > bestScore) {
+            bestScore = score;
+            best = lag;
+        }
+    }
+    return SAMPLE_RATE / best;
+};
+
+describe('karplusStrong', () => {
+    describe('renderPluckedString', () => {
+        it('renders the requested length, starting at full level', () => {
+            const samples = render({ duration: 0.5 });
+
+            expect(samples).toHaveLength(SAMPLE_RATE / 2);
+            expect(Math.max(...samples.subarray(0, 500).map(Math.abs))).toBeCloseTo(1);
+        });
+
+        it('rings at the string frequency', () => {
+            const samples = render({ frequency: 293.66, damping: 0.8 });
+
+            expect(estimatePitch(samples.subarray(2000), 293.66)).toBeCloseTo(293.66, -1);
+        });
+
+        it('falls about 60 dB over the decay time', () => {
+            const samples = render({ duration: 2, decayTime: 1, damping: 1 });
+            const start = rms(samples, 0, 4410);
+            const end = rms(samples, SAMPLE_RATE - 2205, SAMPLE_RATE + 2205);
+
+            expect(20 * Math.log10(end / start)).toBeLessThan(-50);
+            expect(samples[samples.length - 1]).toBe(0);
+        });
+
+        it('loses more high end with more damping', () => {
+            const bright = render({ damping: 0 });
+            const dull = render({ damping: 1 });
+
+            expect(crossingRate(dull, 4410, 8820)).toBeLessThan(crossingRate(bright, 4410, 8820));
+        });
+
+        it('is reproducible from a seed', () => {
+            expect(render()).toEqual(render());
+            expect(render({ random: createRandom(8) })).not.toEqual(render());
+        });
+    });
+
+    describe('getPluckedStringTone', () => {
+        it('plucks bright voices nearer the bridge with less damping', () => {
+            const bright = getPluckedStringTone(0.9, 2);
+            const dark = getPluckedStringTone(0.2, 2);
+
+            expect(bright.pluckPosition).toBeLessThan(dark.pluckPosition);
+            expect(bright.damping).toBeLessThan(dark.damping);
+        });
+
+        it('gives long-ringing strings a more resonant body', () => {
+            expect(getPluckedStringTone(0.6, 2.5).bodyResonance).toBeGreaterThan(getPluckedStringTone(0.6, 0.6).bodyResonance);
+            expect(getPluckedStringTone(0.6, 10).bodyResonance).toBe(1);
+        });
+    });
+});
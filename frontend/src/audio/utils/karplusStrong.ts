@@ -0,0 +1,129 @@
+/**
+ * Karplus–Strong plucked strings, rendered into sample buffers.
+ *
+ * A burst of noise shaped by the pluck position circulates in a delay line
+ * one period long. On every pass a loop filter takes away a little of the
+ * high end (string damping) and a loop gain sets how long the string rings.
+ * An allpass filter supplies the fraction of a sample that keeps the pitch in tune.
+ */
+
+import type { RandomSource } from './random';
+
+/**
+ * Options for rendering one plucked string.
+ */
+export interface PluckedStringOptions {
+    /** Fundamental frequency in Hz */
+    frequency: number;
+    sampleRate: number;
+    /** Length of the rendered buffer in seconds */
+    duration: number;
+    /** Time for the fundamental to fall by 60 dB, in seconds */
+    decayTime: number;
+    /** Pluck point as a fraction of the string from the bridge (0-0.5); nearer the bridge is brighter */
+    pluckPosition: number;
+    /** High-frequency loss on each pass (0-1); 0 rings bright, 1 dulls quickly */
+    damping: number;
+    /** Noise for the excitation; seed it for reproducible renders */
+    random: RandomSource;
+}
+
+/**
+ * String parameters derived from a voice's brightness and decay time.
+ */
+export interface PluckedStringTone {
+    pluckPosition: number;
+    damping: number;
+    /** Strength of the body resonances (0-1) */
+    bodyResonance: number;
+}
+
+/** Fade at the end of each buffer, so a string cut short doesn't click */
+const END_FADE = 0.01;
+
+const clamp01 = (value: number): number => Math.max(0, Math.min(1, value));
+
+/**
+ * Map a voice's brightness (0-1) and decay time to string parameters.
+ * Bright voices are plucked nearer the bridge and lose less high end;
+ * long-ringing strings sit on a more resonant body.
+ */
+export function getPluckedStringTone(brightness: number, decayTime: number): PluckedStringTone {
+    const bright = clamp01(brightness);
+    return {
+        pluckPosition: 0.5 - 0.4 * bright,
+        damping: clamp01((1 - bright) * Math.min(1, 1.5 / Math.max(decayTime, 0.01))),
+        bodyResonance: clamp01(decayTime / 3),
+    };
+}
+
+/**
+ * Render a plucked string. The buffer starts with the pluck and is normalized
+ * so the pluck peaks at 1; scale it by the note's velocity.
+ */
+export function renderPluckedString({
+    frequency,
+    sampleRate,
+    duration,
+    decayTime,
+    pluckPosition,
+    damping,
+    random,
+}: PluckedStringOptions): Float32Array {
+    const output = new Float32Array(Math.max(1, Math.ceil(duration * sampleRate)));
+    const period = sampleRate / frequency;
+
+    // Two-point loop filter: its delay (in samples) equals its weight on the previous sample
+    const stretch = 0.2 + 0.3 * clamp01(damping);
+
+    // Whole samples in the delay line; the allpass makes up the rest of the period
+    let length = Math.floor(period - stretch);
+    let fraction = period - stretch - length;
+    if (fraction < 0.1 && length > 2) {
+        length -= 1;
+        fraction += 1;
+    }
+    length = Math.max(2, length);
+    const allpass = (1 - fraction) / (1 + fraction);
+
+    // Loop gain per pass, so the fundamental falls 60 dB over the decay time
+    const loss = Math.pow(0.001, 1 / (Math.max(decayTime, 0.01) * frequency));
+
+    // Excitation: noise with a comb at the pluck point, which removes the
+    // harmonics that have a node there (and the DC offset)
+    const noise = Float32Array.from({ length }, () => random() * 2 - 1);
+    const offset = Math.max(1, Math.round(Math.max(0, Math.min(0.5, pluckPosition)) * length));
+    const line = new Float32Array(length);
+    let peak = 0;
+    for (let i = 0; i < length; i++) {
+        line[i] = noise[i] - noise[(i - offset + length) % length];
+        peak = Math.max(peak, Math.abs(line[i]));
+    }
+    if (peak > 0) {
+        for (let i = 0; i < length; i++) line[i] /= peak;
+    }
+
+    let index = 0;
+    let previous = 0;
+    let allpassIn = 0;
+    let allpassOut = 0;
+    for (let n = 0; n < output.length; n++) {
+        const sample = line[index];
+        output[n] = sample;
+
+        const filtered = (1 - stretch) * sample + stretch * previous;
+        previous = sample;
+        allpassOut = allpass * filtered + allpassIn - allpass * allpassOut;
+        allpassIn = filtered;
+
+        line[index] = allpassOut * loss;
+        index = (index + 1) % length;
+    }
+
+    const fade = Math.min(output.length, Math.round(END_FADE * sampleRate));
+    for (let i = 0; i < fade; i++) {
+        output[output.length - 1 - i] *= i / fade;
+    }
+
+    return output;
+}
@@ -0,0 +1,167 @@
+/**
+ * Unit tests for loudness measurement, normalization and true-peak limiting.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+    measureLevel,
+    measureIntegratedLoudness,
+    measureTruePeak,
+    measureLoudness,
+    normalizeLoudness,
+    limitTruePeak,
+    dbToGain,
+    gainToDb,
+    TRUE_PEAK_CEILING,
+} from './loudness';
+
+const SAMPLE_RATE = 48000;
+
+function createBuffer(channels: Float32Array[], sampleRate = SAMPLE_RATE): AudioBuffer {
+    return {
+        numberOfChannels: channels.length,
+        length: channels[0].length,
+        sampleRate,
+        duration: channels[0].length / sampleRate,
+        getChannelData: (channel: number) => channels[channel],
+    } as unknown as AudioBuffer;
+}
+
+function sine(seconds: number, frequency: number, amplitude: number, phase = 0): Float32Array {
+    const data = new Float32Array(Math.round(seconds * SAMPLE_RATE));
+    for (let i = 0; i < data.length; i++) {
+        data[i] = amplitude * Math.sin((2 * Math.PI * frequency * i) / SAMPLE_RATE + phase);
+    }
+    return data;
+}
+
+/** The same sine on both channels */
+const stereoSine = (seconds: number, frequency: number, amplitude: number, phase = 0): AudioBuffer =>
+    createBuffer([sine(seconds, frequency, amplitude, phase), sine(seconds, frequency, amplitude, phase)]);
+
+describe('loudness', () => {
+    describe('dbToGain / gainToDb', () => {
+        it('converts between decibels and linear gain', () => {
+            expect(dbToGain(-6)).toBeCloseTo(0.501, 3);
+            expect(gainToDb(0.5)).toBeCloseTo(-6.02, 2);
+            expect(gainToDb(0)).toBe(-Infinity);
+        });
+    });
+
+    describe('measureLevel', () => {
+        it('reads the peak and RMS of a sine in dBFS', () => {
+            const level = measureLevel(sine(0.1, 1000, 0.5));
+
+            expect(level.peak).toBeCloseTo(-6.02, 1);
+            expect(level.rms).toBeCloseTo(-9.03, 1);
+        });
+
+        it('reads silence as -Infinity', () => {
+            expect(measureLevel(new Float32Array(64))).toEqual({ peak: -Infinity, rms: -Infinity });
+        });
+    });
+
+    describe('measureIntegratedLoudness', () => {
+        it('measures a full-scale 1kHz sine on one channel at -3.01 LUFS', () => {
+            const loudness = measureIntegratedLoudness(createBuffer([sine(5, 997, 1)]));
+
+            expect(loudness).toBeCloseTo(-3.01, 1);
+        });
+
+        it('measures a stereo sine at its level', () => {
+            expect(measureIntegratedLoudness(stereoSine(5, 997, 0.1))).toBeCloseTo(-20, 1);
+        });
+
+        it('gates out silence', () => {
+            const tone = sine(5, 997, 0.1);
+            const data = new Float32Array(tone.length * 2);
+            data.set(tone);
+
+            // Half silence would read -23 LUFS ungated; only the blocks straddling the end count against the tone
+            expect(measureIntegratedLoudness(createBuffer([data, data]))).toBeCloseTo(-20, 0);
+        });
+
+        it('weights low frequencies down', () => {
+            expect(measureIntegratedLoudness(stereoSine(5, 40, 0.1))).toBeLessThan(-20.5);
+        });
+
+        it('is -Infinity for silence and for buffers shorter than a block', () => {
+            expect(measureIntegratedLoudness(createBuffer([new Float32Array(SAMPLE_RATE)]))).toBe(-Infinity);
+            expect(measureIntegratedLoudness(stereoSine(0.3, 997, 0.5))).toBe(-Infinity);
+        });
+    });
+
+    describe('measureTruePeak', () => {
+        it('finds peaks between samples', () => {
+            // A quarter-rate sine offset by 45 degrees never lands a sample on its peak
+            const buffer = stereoSine(0.5, SAMPLE_RATE / 4, 1, Math.PI / 4);
+            const samplePeak = measureLevel(buffer.getChannelData(0)).peak;
+
+            expect(samplePeak).toBeCloseTo(-3.01, 1);
+            expect(measureTruePeak(buffer)).toBeGreaterThan(-0.5);
+        });
+
+        it('matches the sample peak of slow signals', () => {
+            expect(measureTruePeak(stereoSine(0.5, 100, 0.5))).toBeCloseTo(-6.02, 1);
+        });
+    });
+
+    describe('normalizeLoudness', () => {
+        it('scales a buffer to the target loudness', () => {
+            const buffer = stereoSine(5, 997, 0.1);
+
+            const gain = normalizeLoudness(buffer, -14);
+
+            expect(gain).toBeCloseTo(6, 1);
+            expect(measureLoudness(buffer).integrated).toBeCloseTo(-14, 1);
+        });
+
+        it('leaves silent buffers alone', () => {
+            const buffer = createBuffer([new Float32Array(SAMPLE_RATE)]);
+
+            expect(normalizeLoudness(buffer, -14)).toBe(0);
+        });
+    });
+
+    describe('limitTruePeak', () => {
+        it('keeps the true peak under the ceiling', () => {
+            const buffer = stereoSine(1, 1000, 2);
+
+            const reduction = limitTruePeak(buffer);
+
+            expect(reduction).toBeGreaterThan(6);
+            expect(measureTruePeak(buffer)).toBeLessThanOrEqual(TRUE_PEAK_CEILING + 0.05);
+        });
+
+        it('catches peaks between samples', () => {
+            const buffer = stereoSine(0.5, SAMPLE_RATE / 4, 1, Math.PI / 4);
+
+            limitTruePeak(buffer, -3);
+
+            expect(measureTruePeak(buffer)).toBeLessThanOrEqual(-2.95);
+        });
+
+        it('leaves quiet buffers untouched', () => {
+            const buffer = stereoSine(0.5, 1000, 0.5);
+            const before = Float32Array.from(buffer.getChannelData(0));
+
+            expect(limitTruePeak(buffer)).toBe(0);
+            expect(buffer.getChannelData(0)).toEqual(before);
+        });
+
+        it('only turns the gain down just ahead of a peak', () => {
+            const data = sine(1, 1000, 0.5);
+            // A burst well over the ceiling from 0.5s
+            for (let i = SAMPLE_RATE / 2; i < SAMPLE_RATE / 2 + 480; i++) data[i] *= 4;
+            const buffer = createBuffer([data, Float32Array.from(data)]);
+            const before = Float32Array.from(data);
+
+            limitTruePeak(buffer);
+
+            // Untouched until the look-ahead before the burst, then reduced during it
+            const early = SAMPLE_RATE / 2 - 1000;
+            expect(data.subarray(0, early)).toEqual(before.subarray(0, early));
+            expect(measureTruePeak(buffer)).toBeLessThanOrEqual(TRUE_PEAK_CEILING + 0.05);
+        });
+    });
+});
@@ -0,0 +1,328 @@
+/**
+ * Loudness measurement and master bus processing for rendered buffers:
+ * integrated loudness (ITU-R BS.1770, as used by EBU R128), true peak,
+ * loudness normalization and a look-ahead true-peak limiter.
+ *
+ * Everything works on plain channel data, so it runs the same in the
+ * browser, in workers and under Node.
+ */
+
+import type { LevelReading, LoudnessMeasurement } from '../types';
+
+/** Ceiling of the true-peak limiter, in dBTP */
+export const TRUE_PEAK_CEILING = -1;
+
+/** Loudness targets offered for exports */
+export const LOUDNESS_TARGETS = [
+    { label: 'Streaming', lufs: -14 },
+    { label: 'Podcast', lufs: -16 },
+    { label: 'Broadcast', lufs: -23 },
+] as const;
+
+/** True-peak limiter timing, in seconds */
+const LIMITER_TIMING = {
+    lookahead: 0.005,
+    release: 0.1,
+} as const;
+
+/** BS.1770 gating: 400ms blocks every 100ms, absolute and relative gates */
+const GATING = {
+    block: 0.4,
+    step: 0.1,
+    absolute: -70,
+    relative: -10,
+} as const;
+
+/** True peak is read from the signal oversampled 4x */
+const OVERSAMPLING = 4;
+
+/** Interpolation filter length per oversampled phase */
+const INTERPOLATION_TAPS = 12;
+
+export const dbToGain = (db: number): number => Math.pow(10, db / 20);
+
+export const gainToDb = (gain: number): number => (gain > 0 ? 20 * Math.log10(gain) : -Infinity);
+
+const getChannels = (buffer: AudioBuffer): Float32Array[] =>
+    Array.from({ length: buffer.numberOfChannels }, (_, channel) => buffer.getChannelData(channel));
+
+/**
+ * Peak and RMS level of a block of samples, in dBFS.
+ */
+export function measureLevel(samples: Float32Array): LevelReading {
+    let peak = 0;
+    let sum = 0;
+    for (let i = 0; i < samples.length; i++) {
+        peak = Math.max(peak, Math.abs(samples[i]));
+        sum += samples[i] * samples[i];
+    }
+    return {
+        peak: gainToDb(peak),
+        rms: samples.length > 0 ? gainToDb(Math.sqrt(sum / samples.length)) : -Infinity,
+    };
+}
+
+/** Biquad coefficients, normalized so a0 = 1 */
+interface Biquad {
+    b0: number;
+    b1: number;
+    b2: number;
+    a1: number;
+    a2: number;
+}
+
+/**
+ * The two K-weighting stages (a head-related high shelf, then a high-pass)
+ * for any sample rate, from the analog prototypes of BS.1770.
+ */
+function getKWeighting(sampleRate: number): [Biquad, Biquad] {
+    const shelfK = Math.tan((Math.PI * 1681.974450955533) / sampleRate);
+    const shelfQ = 0.7071752369554196;
+    const vh = Math.pow(10, 3.999843853973347 / 20);
+    const vb = Math.pow(vh, 0.4996667741545416);
+    const shelfA0 = 1 + shelfK / shelfQ + shelfK * shelfK;
+
+    const passK = Math.tan((Math.PI * 38.13547087602444) / sampleRate);
+    const passQ = 0.5003270373238773;
+    const passA0 = 1 + passK / passQ + passK * passK;
+
+    return [
+        {
+            b0: (vh + (vb * shelfK) / shelfQ + shelfK * shelfK) / shelfA0,
+            b1: (2 * (shelfK * shelfK - vh)) / shelfA0,
+            b2: (vh - (vb * shelfK) / shelfQ + shelfK * shelfK) / shelfA0,
+            a1: (2 * (shelfK * shelfK - 1)) / shelfA0,
+            a2: (1 - shelfK / shelfQ + shelfK * shelfK) / shelfA0,
+        },
+        {
+            b0: 1,
+            b1: -2,
+            b2: 1,
+            a1: (2 * (passK * passK - 1)) / passA0,
+            a2: (1 - passK / passQ + passK * passK) / passA0,
+        },
+    ];
+}
+
+function applyBiquad(input: Float64Array, { b0, b1, b2, a1, a2 }: Biquad): void {
+    let x1 = 0;
+    let x2 = 0;
+    let y1 = 0;
+    let y2 = 0;
+    for (let i = 0; i < input.length; i++) {
+        const x = input[i];
+        const y = b0 * x + b1 * x1 + b2 * x2 - a1 * y1 - a2 * y2;
+        x2 = x1;
+        x1 = x;
+        y2 = y1;
+        y1 = y;
+        input[i] = y;
+    }
+}
+
+const blockLoudness = (power: number): number => -0.691 + 10 * Math.log10(power);
+
+/**
+ * Integrated loudness in LUFS, gated as in BS.1770-4.
+ * Buffers shorter than one 400ms block, or silent, measure -Infinity.
+ */
+export function measureIntegratedLoudness(buffer: AudioBuffer): number {
+    const step = Math.round(GATING.step * buffer.sampleRate);
+    const stepsPerBlock = Math.round(GATING.block / GATING.step);
+    const steps = Math.floor(buffer.length / step);
+    if (step === 0 || steps < stepsPerBlock) return -Infinity;
+
+    // K-weighted energy of each 100ms step, summed over channels
+    const stepEnergy = new Float64Array(steps);
+    const filters = getKWeighting(buffer.sampleRate);
+    for (const data of getChannels(buffer)) {
+        const weighted = Float64Array.from(data);
+        filters.forEach((filter) => applyBiquad(weighted, filter));
+        for (let s = 0; s < steps; s++) {
+            let sum = 0;
+            for (let i = s * step; i < (s + 1) * step; i++) sum += weighted[i] * weighted[i];
+            stepEnergy[s] += sum;
+        }
+    }
+
+    const blocks: number[] = [];
+    for (let s = 0; s + stepsPerBlock <= steps; s++) {
+        let energy = 0;
+        for (let j = s; j < s + stepsPerBlock; j++) energy += stepEnergy[j];
+        blocks.push(energy / (step * stepsPerBlock));
+    }
+
+    const gatedMean = (threshold: number): number => {
+        const passing = blocks.filter((power) => power > 0 && blockLoudness(power) > threshold);
+        return passing.length > 0 ? passing.reduce((sum, power) => sum + power, 0) / passing.length : 0;
+    };
+
+    const absoluteMean = gatedMean(GATING.absolute);
+    if (absoluteMean === 0) return -Infinity;
+
+    const relativeMean = gatedMean(Math.max(GATING.absolute, blockLoudness(absoluteMean) + GATING.relative));
+    return blockLoudness(relativeMean);
+}
+
+/**
+ * Windowed-sinc coefficients for the oversampled phases between two samples.
+ * Phase `p` interpolates at `p / OVERSAMPLING` past sample `n` from samples
+ * `n - INTERPOLATION_TAPS / 2 + 1` to `n + INTERPOLATION_TAPS / 2`.
+ */
+const INTERPOLATION_PHASES: Float64Array[] = Array.from({ length: OVERSAMPLING - 1 }, (_, index) => {
+    const fraction = (index + 1) / OVERSAMPLING;
+    const half = INTERPOLATION_TAPS / 2;
+    const taps = new Float64Array(INTERPOLATION_TAPS);
+    let sum = 0;
+    for (let k = 0; k < INTERPOLATION_TAPS; k++) {
+        const t = fraction - (k - half + 1);
+        const sinc = Math.sin(Math.PI * t) / (Math.PI * t);
+        const window = 0.5 * (1 + Math.cos((Math.PI * t) / half));
+        taps[k] = sinc * window;
+        sum += taps[k];
+    }
+    return taps.map((tap) => tap / sum);
+});
+
+/**
+ * Highest absolute level at or around each sample, over all channels:
+ * the sample itself and the interpolated points on either side of it.
+ */
+function getTruePeakEnvelope(channels: Float32Array[], length: number): Float32Array {
+    const envelope = new Float32Array(length);
+    const half = INTERPOLATION_TAPS / 2;
+
+    for (const data of channels) {
+        let previousGap = 0;
+        for (let n = 0; n < length; n++) {
+            let gap = 0;
+            for (const taps of INTERPOLATION_PHASES) {
+                let value = 0;
+                for (let k = 0; k < INTERPOLATION_TAPS; k++) {
+                    const index = n + k - half + 1;
+                    if (index >= 0 && index < length) value += data[index] * taps[k];
+                }
+                gap = Math.max(gap, Math.abs(value));
+            }
+            envelope[n] = Math.max(envelope[n], Math.abs(data[n]), gap, previousGap);
+            previousGap = gap;
+        }
+    }
+
+    return envelope;
+}
+
+/**
+ * True peak in dBTP: the highest level of the signal oversampled 4x,
+ * catching peaks that fall between samples.
+ */
+export function measureTruePeak(buffer: AudioBuffer): number {
+    const envelope = getTruePeakEnvelope(getChannels(buffer), buffer.length);
+    let peak = 0;
+    for (let i = 0; i < envelope.length; i++) peak = Math.max(peak, envelope[i]);
+    return gainToDb(peak);
+}
+
+/**
+ * Integrated loudness and true peak of a rendered buffer.
+ */
+export function measureLoudness(buffer: AudioBuffer): LoudnessMeasurement {
+    return {
+        integrated: measureIntegratedLoudness(buffer),
+        truePeak: measureTruePeak(buffer),
+    };
+}
+
+function applyGain(buffer: AudioBuffer, gain: number): void {
+    for (const data of getChannels(buffer)) {
+        for (let i = 0; i < data.length; i++) data[i] *= gain;
+    }
+}
+
+/**
+ * Scale a buffer in place to an integrated loudness.
+ * Peaks may end up above 0 dBFS, so follow with `limitTruePeak`.
+ *
+ * @param buffer - Buffer to normalize
+ * @param target - Target loudness in LUFS
+ * @returns Gain applied in dB (0 for silent buffers)
+ */
+export function normalizeLoudness(buffer: AudioBuffer, target: number): number {
+    const loudness = measureIntegratedLoudness(buffer);
+    if (!Number.isFinite(loudness)) return 0;
+
+    const gainDb = target - loudness;
+    applyGain(buffer, dbToGain(gainDb));
+    return gainDb;
+}
+
+/**
+ * Minimum of each window of `length` values starting at each index.
+ */
+function holdMinimum(values: Float32Array, length: number): Float32Array {
+    const held = new Float32Array(values.length);
+    const queue = new Int32Array(values.length);
+    let head = 0;
+    let tail = 0;
+
+    for (let i = values.length - 1; i >= 0; i--) {
+        while (tail > head && values[queue[tail - 1]] >= values[i]) tail--;
+        queue[tail++] = i;
+        if (queue[head] >= i + length) head++;
+        held[i] = values[queue[head]];
+    }
+
+    return held;
+}
+
+/**
+ * Limit a buffer in place so its true peak stays under a ceiling.
+ *
+ * The gain needed at each sample is held over the look-ahead window,
+ * released exponentially, then averaged over the look-ahead window, so it
+ * ramps down to the needed gain just as each peak arrives. Channels share
+ * one gain to keep the stereo image.
+ *
+ * @param buffer - Buffer to limit
+ * @param ceiling - Highest true peak in dBTP
+ * @returns Largest gain reduction in dB (0 when nothing was over)
+ */
+export function limitTruePeak(buffer: AudioBuffer, ceiling: number = TRUE_PEAK_CEILING): number {
+    const channels = getChannels(buffer);
+    const envelope = getTruePeakEnvelope(channels, buffer.length);
+    const limit = dbToGain(ceiling);
+
+    const needed = new Float32Array(buffer.length);
+    let reduction = 1;
+    for (let i = 0; i < envelope.length; i++) {
+        needed[i] = envelope[i] > limit ? limit / envelope[i] : 1;
+        reduction = Math.min(reduction, needed[i]);
+    }
+    if (reduction === 1) return 0;
+
+    const lookahead = Math.max(1, Math.round(LIMITER_TIMING.lookahead * buffer.sampleRate));
+    const gain = holdMinimum(needed, lookahead);
+
+    const release = 1 - Math.exp(-1 / (LIMITER_TIMING.release * buffer.sampleRate));
+    let level = 1;
+    for (let i = 0; i < gain.length; i++) {
+        level = gain[i] < level ? gain[i] : level + (gain[i] - level) * release;
+        gain[i] = level;
+    }
+
+    // Average over the window ending at each sample; the window reaches back
+    // no further than the start of the buffer
+    let sum = 0;
+    const smoothed = new Float32Array(gain.length);
+    for (let i = 0; i < gain.length; i++) {
+        sum += gain[i];
+        if (i >= lookahead) sum -= gain[i - lookahead];
+        smoothed[i] = sum / Math.min(i + 1, lookahead);
+    }
+
+    for (const data of channels) {
+        for (let i = 0; i < data.length; i++) data[i] *= smoothed[i];
+    }
+
+    return -gainToDb(reduction);
+}
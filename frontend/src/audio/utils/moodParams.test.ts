@@ -6,7 +6,9 @@ import { describe, it, expect } from 'vitest';
 import {
     INSTRUMENT_BASE_PARAMS,
     MOOD_MODIFIERS,
+    MOOD_REVERB,
     getVoiceParams,
+    getReverbSend,
     ROLE_VELOCITY,
     ROLE_OCTAVE_OFFSET,
     getTempoScaledAttack,
@@ -14,6 +16,7 @@ import {
     INSTRUMENT_PAN,
     INSTRUMENT_GAIN
 } from './moodParams';
+import { REVERB_PRESETS } from '../effects/ConvolutionReverb';
 import type { Instrument, Mood } from '../../types/music';
 
 describe('moodParams.ts', () => {
@@ -111,6 +114,11 @@ describe('moodParams.ts', () => {
             expect(params.portamentoTime).toBeDefined();
         });
 
+        it('carries the string model when one is chosen', () => {
+            expect(getVoiceParams('guzheng', 'calm', 'lite').stringModel).toBe('lite');
+            expect(getVoiceParams('guzheng', 'calm')).not.toHaveProperty('stringModel');
+        });
+
         it('merges envelope correctly', () => {
             const params = getVoiceParams('erhu', 'heroic');
             // Should have heroic envelope values
@@ -131,6 +139,41 @@ describe('moodParams.ts', () => {
         });
     });
 
+    describe('MOOD_REVERB', () => {
+        it('gives calm and melancholic pieces a larger, longer hall than festive', () => {
+            expect(MOOD_REVERB.calm.roomSize).toBeGreaterThan(MOOD_REVERB.festive.roomSize);
+            expect(MOOD_REVERB.melancholic.decayTime).toBeGreaterThan(MOOD_REVERB.festive.decayTime);
+            expect(MOOD_REVERB.melancholic.sendScale).toBeGreaterThan(MOOD_REVERB.festive.sendScale);
+        });
+
+        it('follows the mood reverb presets', () => {
+            const { mix, ...room } = REVERB_PRESETS.heroic;
+            expect(MOOD_REVERB.heroic).toEqual({ ...room, sendScale: mix / REVERB_PRESETS.calm.mix });
+            expect(MOOD_REVERB.calm.sendScale).toBe(1);
+        });
+    });
+
+    describe('getReverbSend', () => {
+        const instruments: Instrument[] = ['erhu', 'guzheng', 'pipa', 'dizi'];
+        const moods: Mood[] = ['calm', 'heroic', 'melancholic', 'festive'];
+
+        it('stays in the 0-1 range for all instruments and moods', () => {
+            instruments.forEach(instrument => {
+                moods.forEach(mood => {
+                    const send = getReverbSend(instrument, mood);
+                    expect(send).toBeGreaterThanOrEqual(0);
+                    expect(send).toBeLessThanOrEqual(1);
+                });
+            });
+        });
+
+        it('scales the instrument send by the mood', () => {
+            const base = INSTRUMENT_BASE_PARAMS.guzheng.reverbSend!;
+            expect(getReverbSend('guzheng', 'festive')).toBeCloseTo(base * MOOD_REVERB.festive.sendScale);
+            expect(getReverbSend('guzheng', 'melancholic')).toBeGreaterThan(getReverbSend('guzheng', 'festive'));
+        });
+    });
+
     describe('ROLE_VELOCITY', () => {
         it('has velocity values for all roles', () => {
             expect(ROLE_VELOCITY.melody).toBeDefined();
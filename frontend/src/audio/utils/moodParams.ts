@@ -3,8 +3,9 @@
  * Maps moods to voice parameter adjustments.
  */
 
-import type { Mood, Instrument } from '../../types/music';
-import type { VoiceParameters, ADSREnvelope } from '../types';
+import type { Mood, Instrument, Dynamic, StringModel } from '../../types/music';
+import type { VoiceParameters, ADSREnvelope, ReverbBusSettings } from '../types';
+import { REVERB_PRESETS } from '../effects/ConvolutionReverb';
 
 /**
  * Base parameters for each instrument.
@@ -22,6 +23,7 @@ export const INSTRUMENT_BASE_PARAMS: Record<Instrument, VoiceParameters> = {
         vibratoRate: 5.5,
         vibratoDepth: 25,
         portamentoTime: 0.15,
+        reverbSend: 0.3,
     },
     guzheng: {
         filterCutoff: 6000,
@@ -34,6 +36,7 @@ export const INSTRUMENT_BASE_PARAMS: Record<Instrument, VoiceParameters> = {
         },
         decayTime: 2.0,
         brightness: 0.6,
+        reverbSend: 0.35,
     },
     pipa: {
         filterCutoff: 4000,
@@ -48,6 +51,7 @@ export const INSTRUMENT_BASE_PARAMS: Record<Instrument, VoiceParameters> = {
         brightness: 0.7,
         tremoloRate: 12,
         tremoloDepth: 0.4,
+        reverbSend: 0.2,
     },
     dizi: {
         filterCutoff: 5000,
@@ -62,6 +66,7 @@ export const INSTRUMENT_BASE_PARAMS: Record<Instrument, VoiceParameters> = {
         vibratoDepth: 20,
         breathiness: 0.2,
         membraneBuzz: 0.15,
+        reverbSend: 0.3,
     },
 };
 
@@ -131,14 +136,34 @@ export const MOOD_MODIFIERS: Record<Mood, Partial<VoiceParameters>> = {
     },
 };
 
+/**
+ * Build a mood's reverb bus from its reverb preset. The preset's wet
+ * mix, relative to calm's, scales each instrument's reverbSend.
+ */
+function moodReverb(mood: Mood): ReverbBusSettings {
+    const { roomSize, decayTime, damping, preDelay, mix } = REVERB_PRESETS[mood];
+    return { roomSize, decayTime, damping, preDelay, sendScale: mix / REVERB_PRESETS.calm.mix };
+}
+
+/**
+ * Reverb bus settings for each mood.
+ */
+export const MOOD_REVERB: Record<Mood, ReverbBusSettings> = {
+    calm: moodReverb('calm'),
+    heroic: moodReverb('heroic'),
+    melancholic: moodReverb('melancholic'),
+    festive: moodReverb('festive'),
+};
+
 /**
  * Get synthesizer parameters for an instrument and mood.
  *
  * @param instrument - The instrument type
  * @param mood - The mood setting
+ * @param stringModel - Plucked-string synthesis, read by the plucked voices
  * @returns Combined voice parameters
  */
-export function getVoiceParams(instrument: Instrument, mood: Mood): VoiceParameters {
+export function getVoiceParams(instrument: Instrument, mood: Mood, stringModel?: StringModel): VoiceParameters {
     const base = INSTRUMENT_BASE_PARAMS[instrument];
     const moodMod = MOOD_MODIFIERS[mood];
 
@@ -148,11 +173,21 @@ export function getVoiceParams(instrument: Instrument, mood: Mood): VoiceParamet
         ...moodMod,
         // Merge envelope separately to preserve all fields
         envelope: mergeEnvelope(base.envelope, moodMod.envelope),
+        ...(stringModel && { stringModel }),
     };
 
     return result;
 }
 
+/**
+ * Get the reverb send level (0-1) for an instrument in a given mood.
+ * The instrument's base reverbSend is scaled by the mood's reverb bus.
+ */
+export function getReverbSend(instrument: Instrument, mood: Mood): number {
+    const send = getVoiceParams(instrument, mood).reverbSend ?? 0;
+    return Math.max(0, Math.min(1, send * MOOD_REVERB[mood].sendScale));
+}
+
 /**
  * Merge two envelopes, preferring values from the override.
  */
@@ -179,6 +214,18 @@ export const ROLE_VELOCITY: Record<string, number> = {
     bass: 0.75,
 };
 
+/**
+ * Velocity multiplier for section dynamics (mf leaves velocities unchanged).
+ */
+export const DYNAMIC_VELOCITY: Record<Dynamic, number> = {
+    pp: 0.5,
+    p: 0.65,
+    mp: 0.8,
+    mf: 1.0,
+    f: 1.15,
+    ff: 1.3,
+};
+
 /**
  * Octave offset for instrument roles (relative to scale).
  */
@@ -0,0 +1,65 @@
+/**
+ * Unit tests for seedable random sources.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { createRandom, deriveSeed, getRandomSource } from './random';
+
+const take = (random: () => number, count: number): number[] =>
+    Array.from({ length: count }, () => random());
+
+describe('random.ts', () => {
+
+    describe('createRandom', () => {
+        it('produces the same sequence for the same seed', () => {
+            expect(take(createRandom(42), 20)).toEqual(take(createRandom(42), 20));
+        });
+
+        it('produces different sequences for different seeds', () => {
+            expect(take(createRandom(1), 5)).not.toEqual(take(createRandom(2), 5));
+        });
+
+        it('stays within [0, 1)', () => {
+            take(createRandom(12345), 1000).forEach(value => {
+                expect(value).toBeGreaterThanOrEqual(0);
+                expect(value).toBeLessThan(1);
+            });
+        });
+
+        it('is roughly uniform', () => {
+            const values = take(createRandom(7), 10000);
+            const mean = values.reduce((sum, v) => sum + v, 0) / values.length;
+            expect(mean).toBeCloseTo(0.5, 1);
+        });
+
+        it('accepts a seed of 0', () => {
+            expect(take(createRandom(0), 3)).toEqual(take(createRandom(0), 3));
+        });
+    });
+
+    describe('deriveSeed', () => {
+        it('is stable for the same seed and stream', () => {
+            expect(deriveSeed(42, 'erhu')).toBe(deriveSeed(42, 'erhu'));
+        });
+
+        it('separates streams that share a base seed', () => {
+            expect(deriveSeed(42, 'erhu')).not.toBe(deriveSeed(42, 'guzheng'));
+        });
+
+        it('separates base seeds for the same stream', () => {
+            expect(deriveSeed(1, 'erhu')).not.toBe(deriveSeed(2, 'erhu'));
+        });
+    });
+
+    describe('getRandomSource', () => {
+        it('falls back to Math.random without a seed', () => {
+            expect(getRandomSource(undefined, 'erhu')).toBe(Math.random);
+        });
+
+        it('returns a deterministic stream when seeded', () => {
+            const a = getRandomSource(99, 'dizi');
+            const b = getRandomSource(99, 'dizi');
+            expect(take(a, 10)).toEqual(take(b, 10));
+        });
+    });
+});
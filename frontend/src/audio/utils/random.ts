@@ -0,0 +1,54 @@
+/**
+ * Seedable pseudo-random number generation.
+ * Lets a (composition, params) pair render identically every time.
+ */
+
+/**
+ * A source of uniformly distributed numbers in [0, 1), like Math.random.
+ */
+export type RandomSource = () => number;
+
+/**
+ * Create a deterministic random source from a numeric seed (mulberry32).
+ */
+export function createRandom(seed: number): RandomSource {
+    let state = seed >>> 0;
+
+    return () => {
+        state = (state + 0x6d2b79f5) >>> 0;
+        let t = state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+}
+
+/**
+ * Derive an independent seed for a named stream (e.g. one per instrument),
+ * so adding or removing one consumer doesn't shift the others' sequences.
+ */
+export function deriveSeed(seed: number, stream: string): number {
+    // FNV-1a over the stream name, starting from the base seed
+    let hash = (0x811c9dc5 ^ seed) >>> 0;
+    for (let i = 0; i < stream.length; i++) {
+        hash ^= stream.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+
+    // Final avalanche so nearby seeds don't yield correlated streams
+    hash ^= hash >>> 16;
+    hash = Math.imul(hash, 0x85ebca6b);
+    hash ^= hash >>> 13;
+    hash = Math.imul(hash, 0xc2b2ae35);
+    hash ^= hash >>> 16;
+    return hash >>> 0;
+}
+
+/**
+ * Get a random source for a named stream.
+ * Falls back to Math.random when no seed is given.
+ */
+export function getRandomSource(seed: number | undefined, stream: string): RandomSource {
+    if (seed === undefined) return Math.random;
+    return createRandom(deriveSeed(seed, stream));
+}
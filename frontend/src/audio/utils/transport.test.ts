@@ -0,0 +1,64 @@
+/**
+ * Unit tests for the transport helpers.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { isTrackAudible, clampPlaybackRate, normalizeLoop, wrapLoopTime, loopStartPosition } from './transport';
+
+describe('transport', () => {
+    describe('isTrackAudible', () => {
+        it('plays every unmuted track when nothing is soloed', () => {
+            expect(isTrackAudible({ muted: false, soloed: false }, false)).toBe(true);
+            expect(isTrackAudible({ muted: true, soloed: false }, false)).toBe(false);
+        });
+
+        it('plays only soloed tracks while a solo is active', () => {
+            expect(isTrackAudible({ muted: false, soloed: true }, true)).toBe(true);
+            expect(isTrackAudible({ muted: false, soloed: false }, true)).toBe(false);
+        });
+
+        it('keeps a muted track silent even when soloed', () => {
+            expect(isTrackAudible({ muted: true, soloed: true }, true)).toBe(false);
+        });
+    });
+
+    describe('clampPlaybackRate', () => {
+        it('clamps to the practice range', () => {
+            expect(clampPlaybackRate(0.1)).toBe(0.5);
+            expect(clampPlaybackRate(0.75)).toBe(0.75);
+            expect(clampPlaybackRate(4)).toBe(1.5);
+        });
+
+        it('falls back to normal speed for invalid rates', () => {
+            expect(clampPlaybackRate(NaN)).toBe(1);
+        });
+    });
+
+    describe('normalizeLoop', () => {
+        it('orders and clamps the region', () => {
+            expect(normalizeLoop({ start: 12, end: -1 }, 10)).toEqual({ start: 0, end: 10 });
+        });
+
+        it('drops regions that are too short', () => {
+            expect(normalizeLoop({ start: 4, end: 4.1 }, 10)).toBeNull();
+            expect(normalizeLoop(null, 10)).toBeNull();
+        });
+    });
+
+    describe('wrapLoopTime', () => {
+        it('wraps positions past the end of the loop', () => {
+            expect(wrapLoopTime(11, { start: 4, end: 8 })).toBe(7);
+            expect(wrapLoopTime(6, { start: 4, end: 8 })).toBe(6);
+            expect(wrapLoopTime(11, null)).toBe(11);
+        });
+    });
+
+    describe('loopStartPosition', () => {
+        it('moves positions outside the loop to its start', () => {
+            expect(loopStartPosition(2, { start: 4, end: 8 })).toBe(4);
+            expect(loopStartPosition(8, { start: 4, end: 8 })).toBe(4);
+            expect(loopStartPosition(5, { start: 4, end: 8 })).toBe(5);
+            expect(loopStartPosition(2, null)).toBe(2);
+        });
+    });
+});
@@ -0,0 +1,52 @@
+/**
+ * Transport helpers shared by the stem mixer and live playback:
+ * solo/mute rules, loop regions and practice playback rates.
+ */
+
+import type { LoopRegion } from '../types';
+import { PLAYBACK } from '../../config/constants';
+
+/**
+ * Whether a track is heard. While any track is soloed only soloed tracks
+ * play; mute always wins, so a muted track stays silent even when soloed.
+ */
+export function isTrackAudible(track: { muted: boolean; soloed: boolean }, soloActive: boolean): boolean {
+    return !track.muted && (!soloActive || track.soloed);
+}
+
+/**
+ * Clamp a playback rate to the practice range.
+ */
+export function clampPlaybackRate(rate: number): number {
+    if (!Number.isFinite(rate)) return 1;
+    return Math.max(PLAYBACK.MIN_RATE, Math.min(PLAYBACK.MAX_RATE, rate));
+}
+
+/**
+ * Order and clamp a loop region to [0, duration].
+ *
+ * @returns The region, or null when it is shorter than PLAYBACK.MIN_LOOP
+ */
+export function normalizeLoop(loop: LoopRegion | null, duration: number): LoopRegion | null {
+    if (!loop) return null;
+
+    const start = Math.max(0, Math.min(loop.start, loop.end));
+    const end = Math.min(duration, Math.max(loop.start, loop.end));
+    return end - start >= PLAYBACK.MIN_LOOP ? { start, end } : null;
+}
+
+/**
+ * Map a position that has run past the end of a loop back into it.
+ */
+export function wrapLoopTime(time: number, loop: LoopRegion | null): number {
+    if (!loop || time < loop.end) return time;
+    return loop.start + ((time - loop.start) % (loop.end - loop.start));
+}
+
+/**
+ * Where playback starts from: inside the loop region, if there is one.
+ */
+export function loopStartPosition(position: number, loop: LoopRegion | null): number {
+    if (!loop || (position >= loop.start && position < loop.end)) return position;
+    return loop.start;
+}
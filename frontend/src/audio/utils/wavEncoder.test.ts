@@ -9,6 +9,7 @@ import {
     createSilentBuffer,
     mixBuffers
 } from './wavEncoder';
+import { measureTruePeak, TRUE_PEAK_CEILING } from './loudness';
 
 // Mock AudioBuffer
 function createMockAudioBuffer(options: {
@@ -247,6 +248,33 @@ describe('wavEncoder.ts', () => {
             const result = mixBuffers(context, [buffer]);
             expect(result).toBeDefined();
         });
+
+        it('limits the sum to the true-peak ceiling instead of clipping', () => {
+            const tone = () => Float32Array.from({ length: 4410 }, (_, i) => 0.8 * Math.sin((2 * Math.PI * 440 * i) / 44100));
+            const buffers = [0, 1].map(() => createMockAudioBuffer({
+                numberOfChannels: 1,
+                length: 4410,
+                channelData: [tone()],
+            }));
+
+            const result = mixBuffers(context, buffers);
+
+            expect(measureTruePeak(result)).toBeLessThanOrEqual(TRUE_PEAK_CEILING + 0.05);
+        });
+
+        it('leaves a sum under the ceiling as it is', () => {
+            const buffer = createMockAudioBuffer({
+                numberOfChannels: 1,
+                length: 3,
+                channelData: [new Float32Array([0.1, -0.2, 0.3])],
+            });
+
+            const result = mixBuffers(context, [buffer, buffer], [1, 0.5]);
+
+            expect(Array.from(result.getChannelData(0))).toEqual([
+                expect.closeTo(0.15), expect.closeTo(-0.3), expect.closeTo(0.45),
+            ]);
+        });
     });
 
     describe('WAV structure validation', () => {
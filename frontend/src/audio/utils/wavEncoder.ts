@@ -3,6 +3,8 @@
  * Converts AudioBuffer to WAV format for compatibility with existing playback.
  */
 
+import { limitTruePeak } from './loudness';
+
 /**
  * Convert an AudioBuffer to a WAV Blob.
  *
@@ -26,12 +28,12 @@ export function audioBufferToBase64WAV(buffer: AudioBuffer): string {
 }
 
 /**
- * Encode an AudioBuffer as WAV format.
+ * Encode an AudioBuffer as 16-bit PCM WAV.
  *
  * @param buffer - The AudioBuffer to encode
  * @returns ArrayBuffer containing WAV data
  */
-function encodeWAV(buffer: AudioBuffer): ArrayBuffer {
+export function encodeWAV(buffer: AudioBuffer): ArrayBuffer {
     const numChannels = buffer.numberOfChannels;
     const sampleRate = buffer.sampleRate;
     const bitsPerSample = 16;
@@ -156,7 +158,8 @@ export function createSilentBuffer(
 }
 
 /**
- * Mix multiple AudioBuffers into one (simple summing).
+ * Mix multiple AudioBuffers into one (simple summing), with the true-peak
+ * limiter keeping the sum from clipping.
  *
  * @param context - AudioContext or OfflineAudioContext
  * @param buffers - Array of AudioBuffers to mix
@@ -193,34 +196,8 @@ export function mixBuffers(
         });
     }
 
-    // Normalize to prevent clipping
-    normalizeBuffer(output);
+    // Limit peaks rather than turning the whole mix down
+    limitTruePeak(output);
 
     return output;
 }
-
-/**
- * Normalize an AudioBuffer to prevent clipping.
- */
-function normalizeBuffer(buffer: AudioBuffer): void {
-    let maxSample = 0;
-
-    // Find peak
-    for (let ch = 0; ch < buffer.numberOfChannels; ch++) {
-        const data = buffer.getChannelData(ch);
-        for (let i = 0; i < data.length; i++) {
-            maxSample = Math.max(maxSample, Math.abs(data[i]));
-        }
-    }
-
-    // Normalize if peak > 1
-    if (maxSample > 1) {
-        const scale = 0.95 / maxSample;
-        for (let ch = 0; ch < buffer.numberOfChannels; ch++) {
-            const data = buffer.getChannelData(ch);
-            for (let i = 0; i < data.length; i++) {
-                data[i] *= scale;
-            }
-        }
-    }
-}
@@ -460,6 +460,17 @@ describe('BaseVoice', () => {
 
             expect(context.createBuffer).toHaveBeenCalledWith(1, 88200, 44100);
         });
+
+        it('fills the buffer from the voice random source', () => {
+            const seeded = new TestVoice(context, params, () => 0.75);
+
+            seeded.testCreateNoiseSource(1);
+            const buffer = context.createBuffer.mock.results[0].value;
+            const data = buffer.getChannelData.mock.results[0].value as Float32Array;
+
+            expect(data[0]).toBeCloseTo(0.5);
+            expect(data[44099]).toBeCloseTo(0.5);
+        });
     });
 
     describe('envelope getter', () => {
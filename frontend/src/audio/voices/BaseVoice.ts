@@ -6,6 +6,16 @@
 import type { ScheduledNote, VoiceParameters, InstrumentVoice, ADSREnvelope } from '../types';
 import type { Instrument } from '../../types/music';
 import { applyADSREnvelope } from '../utils/envelope';
+import { createBiquadFilter } from '../utils/filters';
+import type { RandomSource } from '../utils/random';
+
+/**
+ * Whether a node is a source with start/stop (oscillator or buffer source).
+ * Checked by shape, as the node classes aren't globals in every renderer.
+ */
+function isScheduledSource(node: AudioNode): node is AudioScheduledSourceNode {
+    return typeof (node as AudioScheduledSourceNode).stop === 'function';
+}
 
 /**
  * Abstract base class that all instrument voices extend.
@@ -20,10 +30,13 @@ export abstract class BaseVoice implements InstrumentVoice {
     protected params: VoiceParameters;
     protected masterGain: GainNode;
     protected activeNodes: Set<AudioNode> = new Set();
+    /** Random source for noise and ornaments; seed it for reproducible renders */
+    protected random: RandomSource;
 
-    constructor(context: BaseAudioContext, params: VoiceParameters) {
+    constructor(context: BaseAudioContext, params: VoiceParameters, random: RandomSource = Math.random) {
         this.context = context;
         this.params = { ...params };
+        this.random = random;
         this.masterGain = context.createGain();
         this.masterGain.gain.value = 0.7; // Default master level
     }
@@ -71,7 +84,7 @@ export abstract class BaseVoice implements InstrumentVoice {
         this.disconnect();
         this.activeNodes.forEach(node => {
             try {
-                if (node instanceof OscillatorNode) {
+                if (isScheduledSource(node)) {
                     node.stop();
                 }
             } catch {
@@ -101,11 +114,7 @@ export abstract class BaseVoice implements InstrumentVoice {
         cutoff: number,
         resonance: number = 1
     ): BiquadFilterNode {
-        const filter = this.context.createBiquadFilter();
-        filter.type = 'lowpass';
-        filter.frequency.value = cutoff;
-        filter.Q.value = resonance;
-        return filter;
+        return createBiquadFilter(this.context, 'lowpass', cutoff, resonance);
     }
 
     /**
@@ -115,11 +124,7 @@ export abstract class BaseVoice implements InstrumentVoice {
         cutoff: number,
         resonance: number = 1
     ): BiquadFilterNode {
-        const filter = this.context.createBiquadFilter();
-        filter.type = 'highpass';
-        filter.frequency.value = cutoff;
-        filter.Q.value = resonance;
-        return filter;
+        return createBiquadFilter(this.context, 'highpass', cutoff, resonance);
     }
 
     /**
@@ -129,11 +134,18 @@ export abstract class BaseVoice implements InstrumentVoice {
         centerFreq: number,
         q: number = 1
     ): BiquadFilterNode {
-        const filter = this.context.createBiquadFilter();
-        filter.type = 'bandpass';
-        filter.frequency.value = centerFreq;
-        filter.Q.value = q;
-        return filter;
+        return createBiquadFilter(this.context, 'bandpass', centerFreq, q);
+    }
+
+    /**
+     * Create a peaking filter that boosts or cuts around a frequency.
+     */
+    protected createPeakingFilter(
+        centerFreq: number,
+        q: number,
+        gain: number
+    ): BiquadFilterNode {
+        return createBiquadFilter(this.context, 'peaking', centerFreq, q, gain);
     }
 
     /**
@@ -231,7 +243,7 @@ export abstract class BaseVoice implements InstrumentVoice {
         const nodesToRemove: AudioNode[] = [];
         for (const node of this.activeNodes) {
             try {
-                if (node instanceof OscillatorNode || node instanceof AudioBufferSourceNode) {
+                if (isScheduledSource(node)) {
                     // Calling stop on an already stopped node throws an error
                     node.stop();
                 }
@@ -254,7 +266,7 @@ export abstract class BaseVoice implements InstrumentVoice {
         const data = buffer.getChannelData(0);
 
         for (let i = 0; i < bufferSize; i++) {
-            data[i] = Math.random() * 2 - 1;
+            data[i] = this.random() * 2 - 1;
         }
 
         const source = this.context.createBufferSource();
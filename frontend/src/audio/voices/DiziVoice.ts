@@ -12,13 +12,30 @@
 import { BaseVoice } from './BaseVoice';
 import { applyFilterEnvelope } from '../utils/envelope';
 import type { ScheduledNote, VoiceParameters } from '../types';
+import type { RandomSource } from '../utils/random';
 import type { Instrument } from '../../types/music';
 
+/** Ornament and vibrato timing, shared with the note mapper and the MIDI exporter */
+export const DIZI_ARTICULATION = {
+    /** Vibrato starts this long (seconds) after the attack */
+    vibratoDelay: 0.1,
+    /** Probability of a grace note before a note, decided when notes are mapped */
+    graceNoteChance: 0.15,
+    /** Only notes longer than this (seconds) get a grace note */
+    graceNoteMinDuration: 0.3,
+    /** Require minimum time gap to prevent overlap with previous notes */
+    graceNoteMinStart: 0.12,
+    /** How far (seconds) the grace note starts before the main note */
+    graceNoteLead: 0.05,
+    /** Grace note length in seconds */
+    graceNoteDuration: 0.04,
+};
+
 export class DiziVoice extends BaseVoice {
     readonly instrument: Instrument = 'dizi';
 
-    constructor(context: BaseAudioContext, params: VoiceParameters) {
-        super(context, params);
+    constructor(context: BaseAudioContext, params: VoiceParameters, random?: RandomSource) {
+        super(context, params, random);
     }
 
     scheduleNote(note: ScheduledNote, destination: AudioNode): void {
@@ -71,7 +88,7 @@ export class DiziVoice extends BaseVoice {
         const membraneBuzz = this.params.membraneBuzz || 0.15;
         const buzzOsc = this.context.createOscillator();
         buzzOsc.type = 'sine';
-        buzzOsc.frequency.value = 180 + Math.random() * 40; // Slight randomness
+        buzzOsc.frequency.value = 180 + this.random() * 40; // Slight randomness
 
         const buzzGain = this.context.createGain();
         buzzGain.gain.value = membraneBuzz;
@@ -89,7 +106,7 @@ export class DiziVoice extends BaseVoice {
         const vibratoDepth = this.params.vibratoDepth || 20;
 
         // Delayed vibrato
-        const vibratoDelay = this.envelope.attack + 0.1;
+        const vibratoDelay = this.envelope.attack + DIZI_ARTICULATION.vibratoDelay;
         if (duration > vibratoDelay) {
             this.applyVibrato(mainOsc, vibratoRate, vibratoDepth, startTime + vibratoDelay, duration - vibratoDelay);
             // Apply same vibrato to harmonics
@@ -130,12 +147,9 @@ export class DiziVoice extends BaseVoice {
         envelope.connect(this.masterGain);
         this.masterGain.connect(destination);
 
-        // Occasionally add grace notes (ornaments)
-        // Require minimum time gap to prevent overlap with previous notes
-        const graceNoteChance = 0.15;
-        const minTimeForGrace = 0.12;
-        if (Math.random() < graceNoteChance && duration > 0.3 && startTime > minTimeForGrace) {
-            this.addGraceNote(note, destination, frequency);
+        // Grace notes (ornaments) chosen by the note mapper
+        if (note.graceNote) {
+            this.addGraceNote(note, destination, frequency, note.graceNote);
         }
 
         // Schedule nodes
@@ -160,13 +174,12 @@ export class DiziVoice extends BaseVoice {
     private addGraceNote(
         note: ScheduledNote,
         destination: AudioNode,
-        mainFrequency: number
+        mainFrequency: number,
+        semitones: number
     ): void {
-        // Grace note is typically a step above or below
-        const interval = Math.random() > 0.5 ? 1.122 : 0.891; // Major 2nd up or down
-        const graceFreq = mainFrequency * interval;
-        const graceStart = note.startTime - 0.05; // Reduced from 0.08 to prevent overlap
-        const graceDuration = 0.04; // Reduced from 0.06 for tighter ornament
+        const graceFreq = mainFrequency * Math.pow(2, semitones / 12);
+        const graceStart = note.startTime - DIZI_ARTICULATION.graceNoteLead;
+        const graceDuration = DIZI_ARTICULATION.graceNoteDuration;
 
         if (graceStart < 0) return;
 
@@ -12,16 +12,25 @@
 import { BaseVoice } from './BaseVoice';
 import { applySCurvePortamento } from '../utils/envelope';
 import type { ScheduledNote, VoiceParameters } from '../types';
+import type { RandomSource } from '../utils/random';
 import type { Instrument } from '../../types/music';
 
+/** Articulation timing, shared with the MIDI exporter */
+export const ERHU_ARTICULATION = {
+    /** Maximum gap (seconds) between notes for a portamento slide */
+    portamentoThreshold: 0.2,
+    /** Vibrato starts this long (seconds) after the note */
+    vibratoDelay: 0.15,
+};
+
 export class ErhuVoice extends BaseVoice {
     readonly instrument: Instrument = 'erhu';
 
     private lastFrequency: number = 0;
     private lastEndTime: number = 0;
 
-    constructor(context: BaseAudioContext, params: VoiceParameters) {
-        super(context, params);
+    constructor(context: BaseAudioContext, params: VoiceParameters, random?: RandomSource) {
+        super(context, params, random);
     }
 
     scheduleNote(note: ScheduledNote, destination: AudioNode): void {
@@ -52,8 +61,7 @@ export class ErhuVoice extends BaseVoice {
         // Apply portamento if close to previous note
         // Increased threshold from 0.1 to 0.2 for better slow tempo support
         const portamentoTime = this.params.portamentoTime || 0.15;
-        const portamentoThreshold = 0.2;
-        if (this.lastFrequency > 0 && startTime - this.lastEndTime < portamentoThreshold) {
+        if (this.lastFrequency > 0 && startTime - this.lastEndTime < ERHU_ARTICULATION.portamentoThreshold) {
             // Use S-curve portamento for smoother, more natural glides
             applySCurvePortamento(mainOsc.frequency, this.lastFrequency, frequency, startTime, portamentoTime);
             applySCurvePortamento(subOsc.frequency, this.lastFrequency / 2, frequency / 2, startTime, portamentoTime);
@@ -64,7 +72,7 @@ export class ErhuVoice extends BaseVoice {
         const vibratoDepth = this.params.vibratoDepth || 30;
 
         // Delayed vibrato (starts after attack)
-        const vibratoDelay = 0.15;
+        const vibratoDelay = ERHU_ARTICULATION.vibratoDelay;
         if (duration > vibratoDelay) {
             this.applyVibrato(mainOsc, vibratoRate, vibratoDepth, startTime + vibratoDelay, duration - vibratoDelay);
         }
@@ -7,21 +7,42 @@
  * - Sympathetic string resonance
  * - Crisp attack transient
  * - Wide frequency range
+ *
+ * The physical model rings a Karplus–Strong string into the long soundboard;
+ * the lite voice approximates it with oscillators and a comb filter.
  */
 
-import { BaseVoice } from './BaseVoice';
+import { PluckedStringVoice } from './PluckedStringVoice';
+import type { BodyMode } from './PluckedStringVoice';
 import type { ScheduledNote, VoiceParameters } from '../types';
+import type { RandomSource } from '../utils/random';
 import type { Instrument } from '../../types/music';
 import { applyPluckedEnvelope, applyFilterEnvelope } from '../utils/envelope';
 
-export class GuzhengVoice extends BaseVoice {
+/** Air and soundboard resonances of the long zither box */
+const GUZHENG_BODY: readonly BodyMode[] = [
+    { frequency: 110, q: 2, gain: 4 },
+    { frequency: 240, q: 3, gain: 5 },
+    { frequency: 520, q: 4, gain: 3 },
+];
+
+export class GuzhengVoice extends PluckedStringVoice {
     readonly instrument: Instrument = 'guzheng';
+    protected readonly bodyModes = GUZHENG_BODY;
+    protected readonly stringLevel = 2;
+
+    constructor(context: BaseAudioContext, params: VoiceParameters, random?: RandomSource) {
+        super(context, params, random);
+    }
 
-    constructor(context: BaseAudioContext, params: VoiceParameters) {
-        super(context, params);
+    protected schedulePhysicalNote(note: ScheduledNote, destination: AudioNode): void {
+        // Strings ring on through the decay rather than stopping with the note,
+        // until the same string is plucked again
+        this.pluck(note.frequency, note.startTime, note.velocity);
+        this.connectBody(destination);
     }
 
-    scheduleNote(note: ScheduledNote, destination: AudioNode): void {
+    protected scheduleLiteNote(note: ScheduledNote, destination: AudioNode): void {
         const { frequency, startTime, duration, velocity } = note;
 
         // Main triangle oscillator (cleaner harmonics for plucked)
@@ -7,21 +7,51 @@
  * - Nasal, slightly metallic timbre
  * - Tremolo technique (rapid repeated picking)
  * - Good for bass and rhythmic parts
+ *
+ * The physical model plays a Karplus–Strong string through the small pear-shaped
+ * body, with tremolo as rapid re-plucks; the lite voice uses oscillators and FM.
  */
 
-import { BaseVoice } from './BaseVoice';
+import { PluckedStringVoice } from './PluckedStringVoice';
+import type { BodyMode } from './PluckedStringVoice';
 import type { ScheduledNote, VoiceParameters } from '../types';
+import type { RandomSource } from '../utils/random';
 import type { Instrument } from '../../types/music';
 import { applyPluckedEnvelope, applyFilterEnvelope } from '../utils/envelope';
 
-export class PipaVoice extends BaseVoice {
+/** Resonances of the pear-shaped wooden body */
+const PIPA_BODY: readonly BodyMode[] = [
+    { frequency: 220, q: 3, gain: 4 },
+    { frequency: 470, q: 4, gain: 4 },
+    { frequency: 1050, q: 5, gain: 3 },
+];
+
+export class PipaVoice extends PluckedStringVoice {
     readonly instrument: Instrument = 'pipa';
+    protected readonly bodyModes = PIPA_BODY;
+    protected readonly stringLevel = 0.75;
+
+    constructor(context: BaseAudioContext, params: VoiceParameters, random?: RandomSource) {
+        super(context, params, random);
+    }
+
+    protected schedulePhysicalNote(note: ScheduledNote, destination: AudioNode): void {
+        const { frequency, startTime, duration, velocity } = note;
+        const tremoloDepth = this.params.tremoloDepth || 0.4;
+        const tremoloRate = this.params.tremoloRate || 10;
+
+        // Longer notes are played as tremolo (lunzhi): the string is re-plucked
+        // at the tremolo rate, each pluck damping the one before
+        const plucks = duration > 0.3 && tremoloDepth > 0 ? Math.max(1, Math.floor(duration * tremoloRate)) : 1;
+        for (let i = 0; i < plucks; i++) {
+            const level = i === 0 ? velocity : velocity * (1 - tremoloDepth * 0.5);
+            this.pluck(frequency, startTime + i / tremoloRate, level);
+        }
 
-    constructor(context: BaseAudioContext, params: VoiceParameters) {
-        super(context, params);
+        this.connectBody(destination);
     }
 
-    scheduleNote(note: ScheduledNote, destination: AudioNode): void {
+    protected scheduleLiteNote(note: ScheduledNote, destination: AudioNode): void {
         const { frequency, startTime, duration, velocity } = note;
 
         // Main oscillator - square wave with reduced duty cycle for nasal quality
@@ -0,0 +1,165 @@
+/**
+ * Shared base for the plucked-string voices (guzheng, pipa).
+ *
+ * Notes play through either a Karplus–Strong string model feeding the
+ * instrument's body resonances, or the lighter oscillator voice for slow
+ * devices, chosen by the `stringModel` parameter.
+ */
+
+import { BaseVoice } from './BaseVoice';
+import type { ScheduledNote, VoiceParameters } from '../types';
+import type { RandomSource } from '../utils/random';
+import type { StringModel } from '../../types/music';
+import { renderPluckedString, getPluckedStringTone } from '../utils/karplusStrong';
+import type { PluckedStringTone } from '../utils/karplusStrong';
+
+/** String model used when a voice doesn't choose one */
+export const DEFAULT_STRING_MODEL: StringModel = 'physical';
+
+/** Rendered variants of each string; each pluck picks one, so repeats don't sound identical */
+const STRING_VARIANTS = 4;
+
+/** Time for a ringing string to be silenced when it is plucked again, in seconds */
+const REPLUCK_DAMP = 0.015;
+
+/**
+ * A resonance of the instrument body, applied as a peaking filter.
+ */
+export interface BodyMode {
+    /** Center frequency in Hz */
+    frequency: number;
+    q: number;
+    /** Boost in dB at full body resonance */
+    gain: number;
+}
+
+export abstract class PluckedStringVoice extends BaseVoice {
+    /** Resonances of the instrument body, lowest first */
+    protected abstract readonly bodyModes: readonly BodyMode[];
+    /** Gain of a full-velocity pluck, matched to the lite voice's level */
+    protected abstract readonly stringLevel: number;
+
+    /** Rendered variants of each string by frequency, filled in as they are picked */
+    private strings: Map<number, AudioBuffer[]> = new Map();
+    /** The latest pluck of each string, damped when the string is struck again */
+    private lastPlucks: Map<number, { source: AudioBufferSourceNode; gain: GainNode; start: number; end: number }> = new Map();
+    private body: { input: AudioNode; output: AudioNode } | null = null;
+
+    constructor(context: BaseAudioContext, params: VoiceParameters, random?: RandomSource) {
+        super(context, params, random);
+    }
+
+    scheduleNote(note: ScheduledNote, destination: AudioNode): void {
+        if ((this.params.stringModel ?? DEFAULT_STRING_MODEL) === 'lite') {
+            this.scheduleLiteNote(note, destination);
+        } else {
+            this.schedulePhysicalNote(note, destination);
+        }
+    }
+
+    /**
+     * Schedule a note on the physical string model.
+     */
+    protected abstract schedulePhysicalNote(note: ScheduledNote, destination: AudioNode): void;
+
+    /**
+     * Schedule a note on the oscillator voice.
+     */
+    protected abstract scheduleLiteNote(note: ScheduledNote, destination: AudioNode): void;
+
+    /**
+     * String parameters from the voice's brightness and decay time.
+     */
+    protected get stringTone(): PluckedStringTone {
+        return getPluckedStringTone(this.params.brightness ?? 0.6, this.params.decayTime ?? 1);
+    }
+
+    /**
+     * Pluck the string at a frequency. The string rings into the body for
+     * the decay time; plucking it again damps the earlier pluck.
+     */
+    protected pluck(frequency: number, startTime: number, velocity: number): void {
+        const key = Math.round(frequency * 100) / 100;
+        const buffer = this.getString(key, Math.floor(this.random() * STRING_VARIANTS));
+        const source = this.context.createBufferSource();
+        source.buffer = buffer;
+
+        const level = velocity * this.stringLevel;
+        const gain = this.context.createGain();
+        gain.gain.value = level;
+
+        source.connect(gain);
+        gain.connect(this.getBody().input);
+
+        // A finger or plectrum on the string stops it ringing
+        const previous = this.lastPlucks.get(key);
+        if (previous && previous.start < startTime && previous.end > startTime) {
+            previous.gain.gain.setValueAtTime(previous.gain.gain.value, startTime);
+            previous.gain.gain.linearRampToValueAtTime(0, startTime + REPLUCK_DAMP);
+            previous.source.stop(startTime + REPLUCK_DAMP);
+        }
+
+        const end = startTime + buffer.duration;
+        this.scheduleNode(source, startTime, end);
+        this.lastPlucks.set(key, { source, gain, start: startTime, end });
+    }
+
+    /**
+     * Route the body through the voice output to a destination.
+     */
+    protected connectBody(destination: AudioNode): void {
+        this.getBody().output.connect(this.masterGain);
+        this.masterGain.connect(destination);
+    }
+
+    dispose(): void {
+        super.dispose();
+        this.strings.clear();
+        this.lastPlucks.clear();
+    }
+
+    /**
+     * One variant of the string's ring at a frequency, rendered on first use
+     * with its own noise burst.
+     */
+    private getString(frequency: number, variant: number): AudioBuffer {
+        const variants = this.strings.get(frequency) ?? [];
+        this.strings.set(frequency, variants);
+        const cached = variants[variant];
+        if (cached) return cached;
+
+        const decayTime = this.params.decayTime ?? 1;
+        const { pluckPosition, damping } = this.stringTone;
+        const { sampleRate } = this.context;
+        const samples = renderPluckedString({
+            frequency,
+            sampleRate,
+            duration: decayTime,
+            decayTime,
+            pluckPosition,
+            damping,
+            random: this.random,
+        });
+
+        const buffer = this.context.createBuffer(1, samples.length, sampleRate);
+        buffer.getChannelData(0).set(samples);
+        variants[variant] = buffer;
+        return buffer;
+    }
+
+    /**
+     * The body's resonances as peaking filters in series, built on first use
+     * and shared by every note.
+     */
+    private getBody(): { input: AudioNode; output: AudioNode } {
+        if (!this.body) {
+            const { bodyResonance } = this.stringTone;
+            const filters = this.bodyModes.map((mode) =>
+                this.createPeakingFilter(mode.frequency, mode.q, mode.gain * bodyResonance)
+            );
+            filters.slice(1).forEach((filter, i) => filters[i].connect(filter));
+            this.body = { input: filters[0], output: filters[filters.length - 1] };
+        }
+        return this.body;
+    }
+}
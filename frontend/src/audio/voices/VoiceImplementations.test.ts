@@ -8,6 +8,7 @@ import { GuzhengVoice } from './GuzhengVoice';
 import { PipaVoice } from './PipaVoice';
 import { DiziVoice } from './DiziVoice';
 import type { ScheduledNote, VoiceParameters } from '../types';
+import { createRandom } from '../utils/random';
 
 // Type for mocked AudioContext with vi.fn() methods
 interface MockAudioContext extends BaseAudioContext {
@@ -65,6 +66,7 @@ function createMockAudioContext() {
             exponentialRampToValueAtTime: vi.fn(),
         },
         Q: { value: 1 },
+        gain: { value: 0 },
         connect: vi.fn(),
     });
 
@@ -77,6 +79,7 @@ function createMockAudioContext() {
         length,
         numberOfChannels: 1,
         sampleRate: 44100,
+        duration: length / 44100,
         getChannelData: vi.fn(() => new Float32Array(length)),
     });
 
@@ -232,7 +235,54 @@ describe('GuzhengVoice', () => {
         });
     });
 
-    describe('scheduleNote', () => {
+    describe('scheduleNote (physical)', () => {
+        it('plucks a modelled string through the body', () => {
+            voice.scheduleNote(createMockNote({ instrument: 'guzheng' }), {} as AudioNode);
+
+            expect(context.createOscillator).not.toHaveBeenCalled();
+            expect(context.createBuffer).toHaveBeenCalledWith(1, 1.5 * 44100, 44100);
+            expect(context.createBufferSource).toHaveBeenCalledTimes(1);
+
+            const body = context.createBiquadFilter.mock.results.map((result) => result.value);
+            expect(body.map((filter) => filter.type)).toEqual(['peaking', 'peaking', 'peaking']);
+            expect(body[0].connect).toHaveBeenCalledWith(body[1]);
+        });
+
+        it('keeps a few variants of each string and shares the body', () => {
+            voice = new GuzhengVoice(context, params, createRandom(1));
+            const destination = {} as AudioNode;
+
+            for (let i = 0; i < 20; i++) {
+                voice.scheduleNote(createMockNote({ instrument: 'guzheng', startTime: i * 2 }), destination);
+            }
+
+            // Repeats pick among several noise bursts rather than replaying one
+            expect(context.createBuffer.mock.calls.length).toBeGreaterThan(1);
+            expect(context.createBuffer.mock.calls.length).toBeLessThanOrEqual(4);
+            expect(context.createBufferSource).toHaveBeenCalledTimes(20);
+            expect(context.createBiquadFilter).toHaveBeenCalledTimes(3);
+        });
+
+        it('damps a ringing string when the same pitch is plucked again', () => {
+            const destination = {} as AudioNode;
+
+            voice.scheduleNote(createMockNote({ instrument: 'guzheng' }), destination);
+            voice.scheduleNote(createMockNote({ instrument: 'guzheng', frequency: 392, startTime: 0.5 }), destination);
+            voice.scheduleNote(createMockNote({ instrument: 'guzheng', startTime: 1 }), destination);
+
+            const [first, other] = context.createBufferSource.mock.results.map((result) => result.value);
+            expect(first.stop.mock.calls.at(-1)[0]).toBeCloseTo(1.015);
+            expect(first.connect.mock.calls[0][0].gain.linearRampToValueAtTime).toHaveBeenCalledWith(0, 1.015);
+            // Other strings ring on
+            expect(other.stop).toHaveBeenCalledTimes(1);
+        });
+    });
+
+    describe('scheduleNote (lite)', () => {
+        beforeEach(() => {
+            voice = new GuzhengVoice(context, { ...params, stringModel: 'lite' });
+        });
+
         it('creates oscillators for plucked string', () => {
             const note = createMockNote({ instrument: 'guzheng' });
             const destination = {} as AudioNode;
@@ -281,7 +331,31 @@ describe('PipaVoice', () => {
         });
     });
 
-    describe('scheduleNote', () => {
+    describe('scheduleNote (physical)', () => {
+        it('plucks short notes once', () => {
+            voice.scheduleNote(createMockNote({ instrument: 'pipa', duration: 0.25 }), {} as AudioNode);
+
+            expect(context.createOscillator).not.toHaveBeenCalled();
+            expect(context.createBufferSource).toHaveBeenCalledTimes(1);
+        });
+
+        it('plays tremolo as re-plucks that damp each other', () => {
+            voice.scheduleNote(createMockNote({ instrument: 'pipa', duration: 0.5 }), {} as AudioNode);
+
+            // 12 Hz over half a second
+            const sources = context.createBufferSource.mock.results.map((result) => result.value);
+            expect(sources).toHaveLength(6);
+            expect(context.createBuffer.mock.calls.length).toBeLessThanOrEqual(4);
+            expect(sources[1].start).toHaveBeenCalledWith(1 / 12);
+            expect(sources[0].stop.mock.calls.at(-1)[0]).toBeCloseTo(1 / 12 + 0.015);
+        });
+    });
+
+    describe('scheduleNote (lite)', () => {
+        beforeEach(() => {
+            voice = new PipaVoice(context, { ...params, stringModel: 'lite' });
+        });
+
         it('creates oscillators for plucked sound', () => {
             const note = createMockNote({ instrument: 'pipa' });
             const destination = {} as AudioNode;
@@ -369,6 +443,20 @@ describe('DiziVoice', () => {
             // Vibrato creates additional LFO oscillator
             expect(context.createOscillator.mock.calls.length).toBeGreaterThan(1);
         });
+
+        it('plays the grace note the note was given, and none otherwise', () => {
+            const destination = {} as AudioNode;
+
+            voice.scheduleNote(createMockNote({ instrument: 'dizi', startTime: 1 }), destination);
+            const plain = context.createOscillator.mock.results.map((r) => r.value.frequency.value);
+
+            context.createOscillator.mockClear();
+            voice.scheduleNote(createMockNote({ instrument: 'dizi', startTime: 1, graceNote: 2 }), destination);
+            const ornamented = context.createOscillator.mock.results.map((r) => r.value.frequency.value);
+
+            expect(ornamented).toHaveLength(plain.length + 1);
+            expect(ornamented.at(-1)).toBeCloseTo(261.63 * Math.pow(2, 2 / 12));
+        });
     });
 });
 
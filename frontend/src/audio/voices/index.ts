@@ -4,16 +4,19 @@
 
 import type { Instrument } from '../../types/music';
 import type { VoiceParameters, InstrumentVoice } from '../types';
+import type { RandomSource } from '../utils/random';
 import { ErhuVoice } from './ErhuVoice';
 import { GuzhengVoice } from './GuzhengVoice';
 import { PipaVoice } from './PipaVoice';
 import { DiziVoice } from './DiziVoice';
 
 export { BaseVoice } from './BaseVoice';
-export { ErhuVoice } from './ErhuVoice';
+export { PluckedStringVoice, DEFAULT_STRING_MODEL } from './PluckedStringVoice';
+export type { BodyMode } from './PluckedStringVoice';
+export { ErhuVoice, ERHU_ARTICULATION } from './ErhuVoice';
 export { GuzhengVoice } from './GuzhengVoice';
 export { PipaVoice } from './PipaVoice';
-export { DiziVoice } from './DiziVoice';
+export { DiziVoice, DIZI_ARTICULATION } from './DiziVoice';
 
 /**
  * Factory function to create an instrument voice.
@@ -21,33 +24,35 @@ export { DiziVoice } from './DiziVoice';
  * @param instrument - The instrument type
  * @param context - Audio context for synthesis
  * @param params - Voice parameters
+ * @param random - Optional random source (defaults to Math.random)
  * @returns Configured instrument voice
  */
 export function createVoice(
     instrument: Instrument,
     context: BaseAudioContext,
-    params: VoiceParameters
+    params: VoiceParameters,
+    random?: RandomSource
 ): InstrumentVoice {
     switch (instrument) {
         case 'erhu':
-            return new ErhuVoice(context, params);
+            return new ErhuVoice(context, params, random);
         case 'guzheng':
-            return new GuzhengVoice(context, params);
+            return new GuzhengVoice(context, params, random);
         case 'pipa':
-            return new PipaVoice(context, params);
+            return new PipaVoice(context, params, random);
         case 'dizi':
-            return new DiziVoice(context, params);
+            return new DiziVoice(context, params, random);
         default:
             // Fallback to erhu for unknown instruments
             console.warn(`[createVoice] Unknown instrument: ${instrument}, using erhu`);
-            return new ErhuVoice(context, params);
+            return new ErhuVoice(context, params, random);
     }
 }
 
 /**
  * Voice registry for dynamic instrument loading.
  */
-export const VOICE_REGISTRY: Record<Instrument, new (context: BaseAudioContext, params: VoiceParameters) => InstrumentVoice> = {
+export const VOICE_REGISTRY: Record<Instrument, new (context: BaseAudioContext, params: VoiceParameters, random?: RandomSource) => InstrumentVoice> = {
     erhu: ErhuVoice,
     guzheng: GuzhengVoice,
     pipa: PipaVoice,
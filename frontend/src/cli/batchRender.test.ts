@@ -0,0 +1,159 @@
+/**
+ * Unit tests for batch rendering.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, readFile, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { BatchRenderError, loadJob, renderJob, MANIFEST_FILE, MANIFEST_FORMAT } from './batchRender';
+import type { RenderJob, RenderManifest } from './batchRender';
+import { PRESETS } from '../data/presets';
+import { composeOffline } from '../services/offlineComposer';
+import { compositionToMidi } from '../utils/midiExport';
+import { TRUE_PEAK_CEILING } from '../audio/utils/loudness';
+import type { Composition, CompositionParams } from '../types/music';
+
+const params: CompositionParams = {
+    mode: 'gong',
+    root: 'C',
+    tempo: 240,
+    instruments: ['erhu', 'dizi'],
+    mood: 'festive',
+    seed: 7,
+};
+
+const composition: Composition = {
+    scale: ['C4', 'D4', 'E4', 'G4', 'A4'],
+    motif: { pitches: ['C4', 'E4'], rhythm: [1, 1] },
+    form: ['A'],
+    instrumentRoles: { erhu: 'melody', dizi: 'countermelody' },
+    euclideanPatterns: { melody: [1, 0, 1, 0], countermelody: [0, 1, 0, 1] },
+};
+
+describe('batchRender', () => {
+    let dir: string;
+
+    beforeEach(async () => {
+        dir = await mkdtemp(join(tmpdir(), 'batch-render-'));
+    });
+
+    afterEach(async () => {
+        await rm(dir, { recursive: true, force: true });
+    });
+
+    describe('loadJob', () => {
+        it('loads a preset by id', async () => {
+            const preset = PRESETS[0];
+
+            const job = await loadJob(preset.id);
+
+            expect(job).toEqual({
+                name: preset.id,
+                source: { type: 'preset', id: preset.id },
+                params: preset.params,
+                composition: preset.composition,
+                composed: false,
+            });
+        });
+
+        it('composes params JSON with the offline composer', async () => {
+            const file = join(dir, 'calm.json');
+            await writeFile(file, JSON.stringify(params));
+
+            const job = await loadJob(file);
+
+            expect(job.name).toBe('calm');
+            expect(job.source).toEqual({ type: 'params', path: file });
+            expect(job.composed).toBe(true);
+            expect(job.composition).toEqual(composeOffline(params));
+        });
+
+        it('keeps the composition of a params and composition pair', async () => {
+            const file = join(dir, 'pair.json');
+            await writeFile(file, JSON.stringify({ params, composition }));
+
+            const job = await loadJob(file);
+
+            expect(job.composition).toEqual(composition);
+            expect(job.composed).toBe(false);
+        });
+
+        it('composes with the overriding seed', async () => {
+            const job = await loadJob(PRESETS[0].id, { compose: true, seed: 99 });
+
+            expect(job.params.seed).toBe(99);
+            expect(job.composed).toBe(true);
+            expect(job.composition).toEqual(composeOffline({ ...PRESETS[0].params, seed: 99 }));
+        });
+
+        it('imports a MIDI file', async () => {
+            const file = join(dir, 'song.mid');
+            await writeFile(file, compositionToMidi(composition, 120, { instruments: ['erhu'] }));
+
+            const job = await loadJob(file, { midiMode: 'verbatim' });
+
+            expect(job.source).toEqual({ type: 'midi', path: file, importMode: 'verbatim' });
+            expect(job.params.instruments).toEqual(['erhu']);
+            expect(job.composition.sequences?.erhu?.length).toBeGreaterThan(0);
+        });
+
+        it('rejects unknown presets', async () => {
+            await expect(loadJob('preset_missing')).rejects.toMatchObject({ code: 'UNKNOWN_INPUT' });
+        });
+
+        it('rejects JSON that is not composition params', async () => {
+            const file = join(dir, 'bad.json');
+            await writeFile(file, JSON.stringify({ mode: 'gong' }));
+
+            await expect(loadJob(file)).rejects.toMatchObject({ code: 'INVALID_INPUT' });
+        });
+
+        it('rejects files it cannot read', async () => {
+            await expect(loadJob(join(dir, 'missing.json'))).rejects.toBeInstanceOf(BatchRenderError);
+        });
+    });
+
+    describe('renderJob', () => {
+        const job: RenderJob = {
+            name: 'test',
+            source: { type: 'params', path: 'test.json' },
+            params,
+            composition,
+            composed: false,
+        };
+
+        it('writes stems, mixdown, MIDI and a manifest', async () => {
+            const files: string[] = [];
+
+            const manifest = await renderJob(job, dir, { sampleRate: 8000, onFile: (file) => files.push(file) });
+
+            expect(files).toEqual(['stems/erhu.wav', 'stems/dizi.wav', 'mixdown.wav', 'composition.mid']);
+            for (const file of ['stems/erhu.wav', 'stems/dizi.wav', 'mixdown.wav']) {
+                expect((await readFile(join(dir, file))).toString('ascii', 0, 4)).toBe('RIFF');
+            }
+            expect((await readFile(join(dir, 'composition.mid'))).toString('ascii', 0, 4)).toBe('MThd');
+
+            const written: RenderManifest = JSON.parse(await readFile(join(dir, MANIFEST_FILE), 'utf8'));
+            expect(written).toEqual(manifest);
+            expect(manifest).toMatchObject({
+                format: MANIFEST_FORMAT,
+                name: 'test',
+                sampleRate: 8000,
+                seeds: { erhu: 7, dizi: 7 },
+                files: { mixdown: 'mixdown.wav', stems: { erhu: 'stems/erhu.wav', dizi: 'stems/dizi.wav' } },
+            });
+            expect(manifest.duration).toBeGreaterThan(15);
+        }, 30000);
+
+        it('measures loudness and normalizes the mixdown to a target', async () => {
+            const manifest = await renderJob(job, dir, { sampleRate: 8000, loudnessTarget: -16 });
+
+            expect(manifest.loudnessTarget).toBe(-16);
+            expect(manifest.loudness.mixdown.integrated).toBeCloseTo(-16, 0);
+            expect(manifest.loudness.mixdown.truePeak).toBeLessThanOrEqual(TRUE_PEAK_CEILING + 0.1);
+            expect(Object.keys(manifest.loudness.stems)).toEqual(['erhu', 'dizi']);
+            expect(manifest.loudness.stems.erhu?.integrated).toBeLessThan(0);
+        }, 30000);
+    });
+});
@@ -0,0 +1,272 @@
+/**
+ * Batch rendering without a browser.
+ *
+ * Resolves an input (a `CompositionParams` JSON file, a preset id or a MIDI
+ * file) to a render job, renders it with the DSP renderer and writes the
+ * stems, mixdown, MIDI and a manifest to a directory. Used by the `render`
+ * command-line tool (see render.ts).
+ */
+
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import { basename, extname, join } from 'node:path';
+import type { Composition, CompositionParams, Instrument } from '../types/music';
+import { createHeadlessEngine } from '../audio/headless';
+import { resolveSeed, SYNTH_VERSION } from '../audio/synthesizer';
+import { encodeWAV } from '../audio/utils/wavEncoder';
+import { measureLoudness } from '../audio/utils/loudness';
+import { DEFAULT_SAMPLE_RATE } from '../audio/types';
+import type { LoudnessMeasurement, MixSettings } from '../audio/types';
+import { getPresetById } from '../data/presets';
+import { composeOffline } from '../services/offlineComposer';
+import { compositionToMidi } from '../utils/midiExport';
+import { midiToComposition, parseMidiFile, DEFAULT_MIDI_IMPORT_MODE } from '../utils/midiImport';
+import type { MidiImportMode } from '../utils/midiImport';
+import { isValidComposition, isValidCompositionParams } from '../utils/validation';
+
+/** Manifest format identifier */
+export const MANIFEST_FORMAT = 'silkroad-render';
+
+/** Manifest schema version */
+export const MANIFEST_VERSION = 1;
+
+export const MANIFEST_FILE = 'manifest.json';
+export const MIXDOWN_FILE = 'mixdown.wav';
+export const MIDI_FILE = 'composition.mid';
+export const STEMS_DIR = 'stems';
+
+export class BatchRenderError extends Error {
+    constructor(
+        message: string,
+        public code: 'UNKNOWN_INPUT' | 'INVALID_INPUT' | 'READ_FAILED'
+    ) {
+        super(message);
+        this.name = 'BatchRenderError';
+    }
+}
+
+/** Where a job's composition came from */
+export type RenderSource =
+    | { type: 'preset'; id: string }
+    | { type: 'params'; path: string }
+    | { type: 'midi'; path: string; importMode: MidiImportMode };
+
+/** A composition ready to render */
+export interface RenderJob {
+    /** Name of the job's output directory */
+    name: string;
+    source: RenderSource;
+    params: CompositionParams;
+    composition: Composition;
+    /** Whether the composition came from the offline composer */
+    composed: boolean;
+}
+
+export interface LoadJobOptions {
+    /** Compose with the offline composer even when the input has a composition */
+    compose?: boolean;
+    /** Seed to use instead of the input's */
+    seed?: number;
+    /** How MIDI files become compositions (default: reimagine) */
+    midiMode?: MidiImportMode;
+}
+
+export interface RenderJobOptions {
+    /** Output sample rate (default: DEFAULT_SAMPLE_RATE) */
+    sampleRate?: number;
+    /** Normalize the mixdown to this integrated loudness in LUFS (default: not normalized) */
+    loudnessTarget?: number;
+    /** Called as each file starts rendering, with its path in the output directory */
+    onFile?: (file: string) => void;
+    /** Called with the render progress (0-1) of the current file */
+    onProgress?: (progress: number) => void;
+}
+
+/** Written next to the rendered files, describing how to reproduce them */
+export interface RenderManifest {
+    format: typeof MANIFEST_FORMAT;
+    version: number;
+    name: string;
+    source: RenderSource;
+    composed: boolean;
+    synthVersion: number;
+    sampleRate: number;
+    /** Mixdown length in seconds, including the reverb tail */
+    duration: number;
+    params: CompositionParams;
+    composition: Composition;
+    /** Seed each instrument was rendered with */
+    seeds: Partial<Record<Instrument, number>>;
+    /** Loudness the mixdown was normalized to in LUFS, or null if it wasn't */
+    loudnessTarget: number | null;
+    /** Measured loudness of each rendered file */
+    loudness: {
+        mixdown: LoudnessMeasurement;
+        stems: Partial<Record<Instrument, LoudnessMeasurement>>;
+    };
+    /** Paths relative to the output directory */
+    files: {
+        mixdown: string;
+        midi: string;
+        stems: Partial<Record<Instrument, string>>;
+    };
+}
+
+const MIDI_EXTENSIONS = ['.mid', '.midi'];
+
+/** Loudness rounded to 0.01 dB, which is plenty for a manifest */
+function describeLoudness(buffer: AudioBuffer): LoudnessMeasurement {
+    const { integrated, truePeak } = measureLoudness(buffer);
+    const round = (db: number) => Math.round(db * 100) / 100;
+    return { integrated: round(integrated), truePeak: round(truePeak) };
+}
+
+/**
+ * Resolve an input to a render job.
+ * Inputs ending in `.json` hold `CompositionParams` (composed with the offline
+ * composer) or a `{ params, composition }` pair; `.mid` files are imported;
+ * anything else is looked up as a preset id.
+ */
+export async function loadJob(input: string, options: LoadJobOptions = {}): Promise<RenderJob> {
+    const { composition, ...job } = await readInput(input, options.midiMode ?? DEFAULT_MIDI_IMPORT_MODE);
+    const params = options.seed === undefined ? job.params : { ...job.params, seed: options.seed };
+
+    if (options.compose || !composition) {
+        return { ...job, params, composition: composeOffline(params), composed: true };
+    }
+    return { ...job, params, composition, composed: false };
+}
+
+/** An input read from disk or the presets; params-only inputs have no composition yet */
+type InputJob = Omit<RenderJob, 'composition' | 'composed'> & { composition?: Composition };
+
+async function readInput(input: string, midiMode: MidiImportMode): Promise<InputJob> {
+    const extension = extname(input).toLowerCase();
+    const name = basename(input, extname(input));
+
+    if (MIDI_EXTENSIONS.includes(extension)) {
+        const data = await readBytes(input);
+        const { composition, params } = midiToComposition(
+            parseMidiFile(data.buffer.slice(data.byteOffset, data.byteOffset + data.byteLength) as ArrayBuffer),
+            midiMode
+        );
+        return { name, source: { type: 'midi', path: input, importMode: midiMode }, params, composition };
+    }
+
+    if (extension === '.json') {
+        const source: RenderSource = { type: 'params', path: input };
+        const text = (await readBytes(input)).toString('utf8');
+        let data: unknown;
+        try {
+            data = JSON.parse(text);
+        } catch {
+            throw new BatchRenderError(`${input} is not valid JSON`, 'INVALID_INPUT');
+        }
+
+        if (isValidCompositionParams(data)) {
+            return { name, source, params: data };
+        }
+        if (isPair(data)) {
+            return { name, source, params: data.params, composition: data.composition };
+        }
+        throw new BatchRenderError(`${input} does not hold composition params`, 'INVALID_INPUT');
+    }
+
+    const preset = getPresetById(input);
+    if (!preset) {
+        throw new BatchRenderError(`"${input}" is not a preset id, .json or .mid file`, 'UNKNOWN_INPUT');
+    }
+    return {
+        name: preset.id,
+        source: { type: 'preset', id: preset.id },
+        params: preset.params,
+        composition: preset.composition,
+    };
+}
+
+function isPair(data: unknown): data is { params: CompositionParams; composition: Composition } {
+    return typeof data === 'object' && data !== null &&
+        isValidCompositionParams((data as Record<string, unknown>).params) &&
+        isValidComposition((data as Record<string, unknown>).composition);
+}
+
+async function readBytes(path: string): Promise<Buffer> {
+    try {
+        return await readFile(path);
+    } catch (error) {
+        throw new BatchRenderError(`Could not read ${path}: ${(error as Error).message}`, 'READ_FAILED');
+    }
+}
+
+/**
+ * Render a job into `outDir`: one WAV stem per instrument, the mixdown,
+ * a MIDI file and the manifest. Every instrument gets its seed up front,
+ * so the stems, mixdown and MIDI match one another.
+ *
+ * @returns The manifest written to the directory
+ */
+export async function renderJob(
+    job: RenderJob,
+    outDir: string,
+    { sampleRate = DEFAULT_SAMPLE_RATE, loudnessTarget, onFile, onProgress }: RenderJobOptions = {}
+): Promise<RenderManifest> {
+    const { params, composition } = job;
+    const engine = createHeadlessEngine(sampleRate);
+    const seeds = Object.fromEntries(
+        params.instruments.map((instrument) => [instrument, resolveSeed(params.seed)])
+    ) as Partial<Record<Instrument, number>>;
+    const stems: Partial<Record<Instrument, string>> = {};
+    const stemLoudness: Partial<Record<Instrument, LoudnessMeasurement>> = {};
+
+    await mkdir(join(outDir, STEMS_DIR), { recursive: true });
+
+    // Stems render one at a time: the DSP renderer shares this thread anyway
+    for (const instrument of params.instruments) {
+        const file = join(STEMS_DIR, `${instrument}.wav`);
+        onFile?.(file);
+        const buffer = await engine.renderTrack(
+            composition,
+            instrument,
+            { ...params, seed: seeds[instrument] },
+            (progress) => onProgress?.(progress)
+        );
+        await writeFile(join(outDir, file), new Uint8Array(encodeWAV(buffer)));
+        stems[instrument] = file;
+        stemLoudness[instrument] = describeLoudness(buffer);
+    }
+
+    const mix: MixSettings = {
+        tracks: Object.fromEntries(
+            params.instruments.map((instrument) => [instrument, { volume: 1, muted: false, seed: seeds[instrument] }])
+        ),
+        loudnessTarget,
+    };
+    onFile?.(MIXDOWN_FILE);
+    const mixdown = await engine.renderMix(composition, params, mix, onProgress);
+    await writeFile(join(outDir, MIXDOWN_FILE), new Uint8Array(encodeWAV(mixdown)));
+
+    onFile?.(MIDI_FILE);
+    await writeFile(
+        join(outDir, MIDI_FILE),
+        compositionToMidi(composition, params.tempo, { instruments: params.instruments, seeds, mood: params.mood })
+    );
+
+    const manifest: RenderManifest = {
+        format: MANIFEST_FORMAT,
+        version: MANIFEST_VERSION,
+        name: job.name,
+        source: job.source,
+        composed: job.composed,
+        synthVersion: SYNTH_VERSION,
+        sampleRate,
+        duration: mixdown.duration,
+        params,
+        composition,
+        seeds,
+        loudnessTarget: loudnessTarget ?? null,
+        loudness: { mixdown: describeLoudness(mixdown), stems: stemLoudness },
+        files: { mixdown: MIXDOWN_FILE, midi: MIDI_FILE, stems },
+    };
+    await writeFile(join(outDir, MANIFEST_FILE), `${JSON.stringify(manifest, null, 2)}\n`);
+
+    return manifest;
+}
@@ -0,0 +1,114 @@
+/**
+ * Command-line renderer.
+ *
+ * Renders presets, params JSON files and MIDI files to WAV stems, a mixdown,
+ * MIDI and a manifest, one directory per input, without a browser:
+ *
+ *   npm run render -- preset_mountain_dawn params.json song.mid --out renders
+ */
+
+import { parseArgs } from 'node:util';
+import { join } from 'node:path';
+import { PRESETS } from '../data/presets';
+import { MidiImportError, DEFAULT_MIDI_IMPORT_MODE } from '../utils/midiImport';
+import type { MidiImportMode } from '../utils/midiImport';
+import { BatchRenderError, loadJob, renderJob } from './batchRender';
+
+const USAGE = `Usage: npm run render -- [options] <input...>
+
+Inputs:
+  <preset id>        A preset from data/presets.ts (e.g. ${PRESETS[0].id})
+  <file>.json        CompositionParams (composed locally) or { params, composition }
+  <file>.mid         A MIDI file, imported as in the app
+
+Options:
+  -o, --out <dir>        Output directory, one subdirectory per input (default: renders)
+      --all-presets      Render every preset
+      --compose          Compose every input with the offline composer
+      --seed <n>         Seed to use instead of each input's
+      --midi-mode <mode> reimagine (default) or verbatim
+      --sample-rate <hz> Output sample rate (default: 44100)
+      --loudness <lufs>  Normalize each mixdown to this loudness (e.g. -14)
+  -h, --help             Show this help`;
+
+const MIDI_MODES: MidiImportMode[] = ['reimagine', 'verbatim'];
+
+function parseNumber(value: string | undefined, option: string): number | undefined {
+    if (value === undefined) return undefined;
+    const number = Number(value);
+    if (!Number.isFinite(number)) {
+        throw new BatchRenderError(`--${option} must be a number`, 'INVALID_INPUT');
+    }
+    return number;
+}
+
+/**
+ * Run the renderer with the given arguments.
+ *
+ * @returns Process exit code
+ */
+async function main(args: string[]): Promise<number> {
+    let parsed;
+    try {
+        parsed = parseArgs({
+            args,
+            allowPositionals: true,
+            options: {
+                out: { type: 'string', short: 'o', default: 'renders' },
+                'all-presets': { type: 'boolean' },
+                compose: { type: 'boolean' },
+                seed: { type: 'string' },
+                'midi-mode': { type: 'string', default: DEFAULT_MIDI_IMPORT_MODE },
+                'sample-rate': { type: 'string' },
+                loudness: { type: 'string' },
+                help: { type: 'boolean', short: 'h' },
+            },
+        });
+    } catch (error) {
+        console.error(`${(error as Error).message}\n\n${USAGE}`);
+        return 1;
+    }
+
+    const { values, positionals } = parsed;
+    const inputs = values['all-presets'] ? [...PRESETS.map((preset) => preset.id), ...positionals] : positionals;
+
+    if (values.help || inputs.length === 0) {
+        console.log(USAGE);
+        return values.help ? 0 : 1;
+    }
+
+    try {
+        const midiMode = values['midi-mode'] as MidiImportMode;
+        if (!MIDI_MODES.includes(midiMode)) {
+            throw new BatchRenderError(`--midi-mode must be one of ${MIDI_MODES.join(', ')}`, 'INVALID_INPUT');
+        }
+        const seed = parseNumber(values.seed, 'seed');
+        const sampleRate = parseNumber(values['sample-rate'], 'sample-rate');
+        const loudnessTarget = parseNumber(values.loudness, 'loudness');
+
+        for (const input of inputs) {
+            const job = await loadJob(input, { compose: values.compose, seed, midiMode });
+            const outDir = join(values.out, job.name);
+            console.log(`${input} -> ${outDir}`);
+
+            const manifest = await renderJob(job, outDir, {
+                sampleRate,
+                loudnessTarget,
+                onFile: (file) => console.log(`  ${file}`),
+            });
+            const { integrated, truePeak } = manifest.loudness.mixdown;
+            console.log(`  mixdown: ${integrated} LUFS, ${truePeak} dBTP`);
+        }
+        return 0;
+    } catch (error) {
+        if (error instanceof BatchRenderError || error instanceof MidiImportError) {
+            console.error(error.message);
+            return 1;
+        }
+        throw error;
+    }
+}
+
+main(process.argv.slice(2)).then((code) => {
+    process.exitCode = code;
+});
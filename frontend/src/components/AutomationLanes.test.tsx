@@ -0,0 +1,118 @@
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import { AutomationLanes } from './AutomationLanes';
+import type { Instrument } from '../types/music';
+import type { MixAutomation } from '../audio/types';
+
+const FORM = ['A', "A'", 'B', "A''"];
+const TRACKS: Instrument[] = ['erhu', 'dizi'];
+
+const renderLanes = (automation: MixAutomation = {}, overrides: { currentTime?: number; isPlaying?: boolean } = {}) => {
+    const onChange = vi.fn();
+    render(
+        <AutomationLanes
+            form={FORM}
+            sectionDuration={15}
+            instruments={TRACKS}
+            automation={automation}
+            onChange={onChange}
+            currentTime={overrides.currentTime ?? 0}
+            isPlaying={overrides.isPlaying ?? false}
+        />
+    );
+    return onChange;
+};
+
+/** Give a lane a 600×40 box so clicks map onto the 60 second form */
+const layOut = (lane: HTMLElement) => {
+    vi.spyOn(lane, 'getBoundingClientRect').mockReturnValue({
+        left: 0, top: 0, width: 600, height: 40, right: 600, bottom: 40, x: 0, y: 0, toJSON: () => ({}),
+    });
+};
+
+describe('AutomationLanes', () => {
+    it('renders volume, pan and reverb lanes under the sections of the form', () => {
+        renderLanes();
+
+        expect(screen.getByText('B')).toBeInTheDocument();
+        expect(screen.getByRole('group', { name: 'erhu volume automation' })).toBeInTheDocument();
+        expect(screen.getByRole('group', { name: 'erhu pan automation' })).toBeInTheDocument();
+        expect(screen.getByRole('group', { name: 'erhu reverb automation' })).toBeInTheDocument();
+        expect(screen.getByLabelText('Clear erhu volume automation')).toBeDisabled();
+    });
+
+    it('renders nothing without tracks', () => {
+        const { container } = render(
+            <AutomationLanes
+                form={FORM}
+                sectionDuration={15}
+                instruments={[]}
+                automation={{}}
+                onChange={vi.fn()}
+                currentTime={0}
+                isPlaying={false}
+            />
+        );
+
+        expect(container).toBeEmptyDOMElement();
+    });
+
+    it('adds a snapped point where a lane is clicked', () => {
+        const onChange = renderLanes();
+        const lane = screen.getByTestId('lane-volume');
+        layOut(lane);
+
+        // 301px of 600 is 30.1s; 12px of 40 from the top is a gain of 1.4
+        fireEvent.click(lane, { clientX: 301, clientY: 12 });
+
+        expect(onChange).toHaveBeenCalledWith({ erhu: { volume: [{ time: 30, value: 1.4 }] } });
+    });
+
+    it('switches between tracks and marks automated ones', () => {
+        renderLanes({ dizi: { volume: [{ time: 30, value: 1.4 }] } });
+
+        expect(screen.getByRole('option', { name: 'dizi •' })).toBeInTheDocument();
+
+        fireEvent.change(screen.getByLabelText('Automation track'), { target: { value: 'dizi' } });
+
+        expect(screen.getByRole('slider', { name: 'dizi volume at 0:30' })).toHaveAttribute('aria-valuetext', '+2.9 dB');
+    });
+
+    it('moves and removes points from the keyboard', () => {
+        const automation: MixAutomation = {
+            erhu: { send: [{ time: 10, value: 1 }, { time: 20, value: 0.5 }] },
+        };
+        const onChange = renderLanes(automation);
+        const point = screen.getByRole('slider', { name: 'erhu reverb at 0:10' });
+
+        expect(point).toHaveAttribute('aria-valuetext', '100%');
+
+        fireEvent.keyDown(point, { key: 'ArrowUp' });
+        expect(onChange).toHaveBeenLastCalledWith({
+            erhu: { send: [{ time: 10, value: 1.05 }, { time: 20, value: 0.5 }] },
+        });
+
+        fireEvent.keyDown(point, { key: 'ArrowRight' });
+        expect(onChange).toHaveBeenLastCalledWith({
+            erhu: { send: [{ time: 10.5, value: 1 }, { time: 20, value: 0.5 }] },
+        });
+
+        fireEvent.keyDown(point, { key: 'Delete' });
+        expect(onChange).toHaveBeenLastCalledWith({ erhu: { send: [{ time: 20, value: 0.5 }] } });
+    });
+
+    it('clears a lane', () => {
+        const onChange = renderLanes({ erhu: { pan: [{ time: 0, value: 0.3 }] } });
+
+        fireEvent.click(screen.getByLabelText('Clear erhu pan automation'));
+
+        expect(onChange).toHaveBeenCalledWith({});
+    });
+
+    it('shows the playhead only while playing', () => {
+        renderLanes({}, { currentTime: 30, isPlaying: true });
+
+        const lines = screen.getByTestId('lane-volume').querySelectorAll('line');
+        expect(lines[lines.length - 1]).toHaveAttribute('x1', '500');
+    });
+});
@@ -0,0 +1,303 @@
+import React, { useState } from 'react';
+import type { Instrument } from '../types/music';
+import type { AutomationParam, AutomationPoint, MixAutomation } from '../audio/types';
+import { AUTOMATION_PARAMS, AUTOMATION_RANGES, setAutomationLane } from '../audio/utils/automation';
+import { gainToDb } from '../audio/utils/loudness';
+
+interface AutomationLanesProps {
+    form: string[];
+    sectionDuration: number;
+    /** Tracks that can be automated */
+    instruments: Instrument[];
+    automation: MixAutomation;
+    onChange: (automation: MixAutomation) => void;
+    currentTime: number;
+    isPlaying: boolean;
+}
+
+const LANE_LABELS: Record<AutomationParam, string> = {
+    volume: 'Volume',
+    pan: 'Pan',
+    send: 'Reverb',
+};
+
+/** Value change per arrow key, and the grid new points snap to */
+const VALUE_STEP = 0.05;
+
+/** Time change per arrow key, and the grid new points snap to, in seconds */
+const TIME_STEP = 0.5;
+
+/** Width and height of the lane drawing's coordinate space */
+const VIEW_WIDTH = 1000;
+const VIEW_HEIGHT = 100;
+
+const snap = (value: number, step: number): number => Number((Math.round(value / step) * step).toFixed(2));
+
+const clamp = (value: number, min: number, max: number): number => Math.max(min, Math.min(max, value));
+
+const formatTime = (seconds: number): string => {
+    const mins = Math.floor(seconds / 60);
+    const secs = Math.floor(seconds % 60);
+    return `${mins}:${secs.toString().padStart(2, '0')}`;
+};
+
+const formatValue = (param: AutomationParam, value: number): string => {
+    if (param === 'volume') {
+        const db = gainToDb(value);
+        return Number.isFinite(db) ? `${db > 0 ? '+' : ''}${db.toFixed(1)} dB` : '-∞ dB';
+    }
+    if (param === 'pan') {
+        const amount = Math.round(Math.abs(value) * 100);
+        return amount === 0 ? 'No change' : `${amount}% ${value < 0 ? 'left' : 'right'}`;
+    }
+    return `${Math.round(value * 100)}%`;
+};
+
+/** Height of a value in the lane, as a fraction from the top */
+const toY = (param: AutomationParam, value: number): number => {
+    const { min, max } = AUTOMATION_RANGES[param];
+    return (max - value) / (max - min);
+};
+
+interface AutomationLaneProps {
+    instrument: Instrument;
+    param: AutomationParam;
+    points: AutomationPoint[];
+    totalDuration: number;
+    sectionCount: number;
+    onChange: (points: AutomationPoint[]) => void;
+    playhead: number | null;
+}
+
+/**
+ * One lane: its shape over the whole form, with a point added on click.
+ * Points are sliders: arrow keys move them, Delete or a double-click removes them.
+ */
+const AutomationLane: React.FC<AutomationLaneProps> = ({
+    instrument,
+    param,
+    points,
+    totalDuration,
+    sectionCount,
+    onChange,
+    playhead,
+}) => {
+    const { min, max, neutral } = AUTOMATION_RANGES[param];
+    const label = `${instrument} ${LANE_LABELS[param].toLowerCase()}`;
+    const toX = (time: number): number => (totalDuration > 0 ? clamp(time / totalDuration, 0, 1) : 0);
+
+    const handleAdd = (e: React.MouseEvent<HTMLDivElement>) => {
+        const rect = e.currentTarget.getBoundingClientRect();
+        if (rect.width <= 0 || rect.height <= 0) return;
+
+        const time = snap(clamp((e.clientX - rect.left) / rect.width, 0, 1) * totalDuration, TIME_STEP);
+        const value = snap(max - clamp((e.clientY - rect.top) / rect.height, 0, 1) * (max - min), VALUE_STEP);
+        onChange([...points, { time, value }]);
+    };
+
+    const updatePoint = (index: number, changes: Partial<AutomationPoint>) =>
+        onChange(points.map((point, i) => (i === index ? { ...point, ...changes } : point)));
+
+    const removePoint = (index: number) => onChange(points.filter((_, i) => i !== index));
+
+    const handleKeyDown = (index: number) => (e: React.KeyboardEvent<HTMLDivElement>) => {
+        const point = points[index];
+        // Points keep their order: a point moves no further than its neighbours
+        const earliest = points[index - 1]?.time ?? 0;
+        const latest = points[index + 1]?.time ?? totalDuration;
+
+        switch (e.key) {
+            case 'ArrowUp':
+                updatePoint(index, { value: clamp(snap(point.value + VALUE_STEP, VALUE_STEP), min, max) });
+                break;
+            case 'ArrowDown':
+                updatePoint(index, { value: clamp(snap(point.value - VALUE_STEP, VALUE_STEP), min, max) });
+                break;
+            case 'ArrowRight':
+                updatePoint(index, { time: clamp(point.time + TIME_STEP, earliest, latest) });
+                break;
+            case 'ArrowLeft':
+                updatePoint(index, { time: clamp(point.time - TIME_STEP, earliest, latest) });
+                break;
+            case 'Delete':
+            case 'Backspace':
+                removePoint(index);
+                break;
+            default:
+                return;
+        }
+        e.preventDefault();
+    };
+
+    // The drawn shape holds the first and last values out to the ends of the form
+    const shape = points.length > 0
+        ? [
+            { time: 0, value: points[0].value },
+            ...points,
+            { time: totalDuration, value: points[points.length - 1].value },
+        ].map((point) => `${toX(point.time) * VIEW_WIDTH},${toY(param, point.value) * VIEW_HEIGHT}`).join(' ')
+        : null;
+
+    return (
+        <div className="flex items-center gap-2">
+            <span
+                className="w-14 text-xs text-gray-600"
+                title={param === 'send' ? 'Rendered stems already carry their reverb, so this lane is heard live and in mixdowns' : undefined}
+            >
+                {LANE_LABELS[param]}
+            </span>
+            <div
+                className="relative flex-1 h-10 bg-gray-50 border border-gray-200 rounded cursor-crosshair"
+                onClick={handleAdd}
+                role="group"
+                aria-label={`${label} automation`}
+                title="Click to add a point"
+                data-testid={`lane-${param}`}
+            >
+                <svg
+                    className="absolute inset-0 w-full h-full"
+                    viewBox={`0 0 ${VIEW_WIDTH} ${VIEW_HEIGHT}`}
+                    preserveAspectRatio="none"
+                    aria-hidden="true"
+                >
+                    {/* Section boundaries */}
+                    {Array.from({ length: Math.max(0, sectionCount - 1) }, (_, i) => (
+                        <line
+                            key={i}
+                            x1={((i + 1) / sectionCount) * VIEW_WIDTH}
+                            x2={((i + 1) / sectionCount) * VIEW_WIDTH}
+                            y1={0}
+                            y2={VIEW_HEIGHT}
+                            stroke="#e5e7eb"
+                            vectorEffect="non-scaling-stroke"
+                        />
+                    ))}
+                    {/* Unchanged level */}
+                    <line
+                        x1={0}
+                        x2={VIEW_WIDTH}
+                        y1={toY(param, neutral) * VIEW_HEIGHT}
+                        y2={toY(param, neutral) * VIEW_HEIGHT}
+                        stroke="#d1d5db"
+                        strokeDasharray="4 4"
+                        vectorEffect="non-scaling-stroke"
+                    />
+                    {shape && (
+                        <polyline
+                            points={shape}
+                            fill="none"
+                            stroke="#d97706"
+                            strokeWidth={2}
+                            vectorEffect="non-scaling-stroke"
+                        />
+                    )}
+                    {playhead !== null && (
+                        <line
+                            x1={toX(playhead) * VIEW_WIDTH}
+                            x2={toX(playhead) * VIEW_WIDTH}
+                            y1={0}
+                            y2={VIEW_HEIGHT}
+                            stroke="#57534e"
+                            vectorEffect="non-scaling-stroke"
+                        />
+                    )}
+                </svg>
+
+                {points.map((point, index) => (
+                    <div
+                        key={index}
+                        className="absolute w-2.5 h-2.5 -ml-[5px] -mt-[5px] rounded-full bg-silk-amber border border-white cursor-pointer focus:outline-none focus:ring-2 focus:ring-silk-stone"
+                        style={{ left: `${toX(point.time) * 100}%`, top: `${toY(param, point.value) * 100}%` }}
+                        role="slider"
+                        tabIndex={0}
+                        aria-label={`${label} at ${formatTime(point.time)}`}
+                        aria-valuemin={min}
+                        aria-valuemax={max}
+                        aria-valuenow={point.value}
+                        aria-valuetext={formatValue(param, point.value)}
+                        title={`${formatValue(param, point.value)} at ${formatTime(point.time)} (double-click to remove)`}
+                        onClick={(e) => e.stopPropagation()}
+                        onDoubleClick={(e) => {
+                            e.stopPropagation();
+                            removePoint(index);
+                        }}
+                        onKeyDown={handleKeyDown(index)}
+                    />
+                ))}
+            </div>
+            <button
+                onClick={() => onChange([])}
+                disabled={points.length === 0}
+                className="text-xs text-gray-500 hover:text-silk-stone disabled:opacity-30"
+                aria-label={`Clear ${label} automation`}
+            >
+                Clear
+            </button>
+        </div>
+    );
+};
+
+/**
+ * Volume, pan and reverb send lanes for one track at a time, laid out
+ * against the sections of the form.
+ */
+export const AutomationLanes: React.FC<AutomationLanesProps> = ({
+    form,
+    sectionDuration,
+    instruments,
+    automation,
+    onChange,
+    currentTime,
+    isPlaying,
+}) => {
+    const [selected, setSelected] = useState<Instrument | null>(null);
+    const instrument = selected && instruments.includes(selected) ? selected : instruments[0];
+    const totalDuration = form.length * sectionDuration;
+
+    if (!instrument) return null;
+
+    return (
+        <div className="space-y-2" role="group" aria-label="Automation lanes">
+            <div className="flex items-center gap-2 text-xs">
+                <span className="font-bold uppercase tracking-wider text-gray-500">Automation</span>
+                <select
+                    value={instrument}
+                    onChange={(e) => setSelected(e.target.value as Instrument)}
+                    className="text-xs border border-gray-300 rounded px-1 py-0.5 capitalize"
+                    aria-label="Automation track"
+                >
+                    {instruments.map((option) => (
+                        <option key={option} value={option}>
+                            {option}
+                            {automation[option] ? ' •' : ''}
+                        </option>
+                    ))}
+                </select>
+            </div>
+
+            {/* Section letters over the lanes */}
+            <div className="flex items-center gap-2">
+                <span className="w-14" />
+                <div className="flex flex-1 text-xs font-bold text-silk-amber">
+                    {form.map((section, i) => (
+                        <span key={i} className="flex-1 text-center">{section}</span>
+                    ))}
+                </div>
+                <span className="w-8" />
+            </div>
+
+            {AUTOMATION_PARAMS.map((param) => (
+                <AutomationLane
+                    key={param}
+                    instrument={instrument}
+                    param={param}
+                    points={automation[instrument]?.[param] ?? []}
+                    totalDuration={totalDuration}
+                    sectionCount={form.length}
+                    onChange={(points) => onChange(setAutomationLane(automation, instrument, param, points))}
+                    playhead={isPlaying ? currentTime : null}
+                />
+            ))}
+        </div>
+    );
+};
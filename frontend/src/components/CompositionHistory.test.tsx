@@ -1,8 +1,9 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
-import { render, screen, fireEvent } from '@testing-library/react';
+import { render, screen, fireEvent, within } from '@testing-library/react';
 import { CompositionHistory } from './CompositionHistory';
 import type { SavedComposition } from '../hooks/useCompositionHistory';
 import type { PentatonicMode } from '../types/music';
+import { SYNTH_VERSION } from '../audio/synthesizer';
 
 // Helper to create mock saved composition
 const createMockSavedComposition = (
@@ -26,12 +27,12 @@ const createMockSavedComposition = (
         instrumentRoles: {},
         euclideanPatterns: {},
     },
-    audioResults: instruments.map((inst) => ({
-        instrument: inst as SavedComposition['audioResults'][0]['instrument'],
-        audioContent: 'YQ==',
-        mimeType: 'audio/wav',
-        seed: 12345,
-    })),
+    instruments: instruments as SavedComposition['instruments'],
+    seeds: {},
+    synthVersion: SYNTH_VERSION,
+    tags: [],
+    favorite: false,
+    audioSize: instruments.length * 1024,
     createdAt: createdAt || Date.now(),
 });
 
@@ -487,6 +488,251 @@ describe('CompositionHistory', () => {
         });
     });
 
+    describe('Titles, Tags and Favorites', () => {
+        const mockOnUpdate = vi.fn();
+
+        const renderHistory = (history: SavedComposition[]) => render(
+            <CompositionHistory
+                history={history}
+                onSelect={mockOnSelect}
+                onDelete={mockOnDelete}
+                onClear={mockOnClear}
+                onUpdate={mockOnUpdate}
+            />
+        );
+
+        it('shows the title and tags instead of the mode name', () => {
+            renderHistory([{ ...createMockSavedComposition('comp_1'), title: 'Dawn sketch', tags: ['keeper', 'slow'] }]);
+
+            expect(screen.getByText('Dawn sketch')).toBeInTheDocument();
+            expect(screen.queryByText('Gong Mode')).not.toBeInTheDocument();
+            expect(screen.getByText('keeper')).toBeInTheDocument();
+            expect(screen.getByText('slow')).toBeInTheDocument();
+        });
+
+        it('toggles favorite without selecting the entry', () => {
+            renderHistory([createMockSavedComposition('comp_1')]);
+
+            const star = screen.getByRole('button', { name: 'Favorite Gong Mode' });
+            expect(star).toHaveAttribute('aria-pressed', 'false');
+            fireEvent.click(star);
+
+            expect(mockOnUpdate).toHaveBeenCalledWith('comp_1', { favorite: true });
+            expect(mockOnSelect).not.toHaveBeenCalled();
+        });
+
+        it('renames and retags an entry', () => {
+            renderHistory([createMockSavedComposition('comp_1')]);
+
+            fireEvent.click(screen.getByRole('button', { name: 'Edit Gong Mode' }));
+            fireEvent.change(screen.getByLabelText('Title'), { target: { value: '  Night rain ' } });
+            fireEvent.change(screen.getByLabelText('Tags'), { target: { value: 'rain, , keeper, rain' } });
+            fireEvent.click(screen.getByText('Save'));
+
+            expect(mockOnUpdate).toHaveBeenCalledWith('comp_1', { title: 'Night rain', tags: ['rain', 'keeper'] });
+            expect(mockOnSelect).not.toHaveBeenCalled();
+        });
+
+        it('does not delete the entry when typing Backspace in the edit form', () => {
+            renderHistory([createMockSavedComposition('comp_1')]);
+
+            fireEvent.click(screen.getByRole('button', { name: 'Edit Gong Mode' }));
+            fireEvent.keyDown(screen.getByLabelText('Title'), { key: 'Backspace' });
+
+            expect(mockOnDelete).not.toHaveBeenCalled();
+        });
+
+        it('cancels editing with Escape', () => {
+            renderHistory([createMockSavedComposition('comp_1')]);
+
+            fireEvent.click(screen.getByRole('button', { name: 'Edit Gong Mode' }));
+            fireEvent.keyDown(screen.getByLabelText('Title'), { key: 'Escape' });
+
+            expect(screen.queryByLabelText('Title')).not.toBeInTheDocument();
+            expect(mockOnUpdate).not.toHaveBeenCalled();
+        });
+
+        it('hides editing controls without onUpdate', () => {
+            render(
+                <CompositionHistory
+                    history={[createMockSavedComposition('comp_1')]}
+                    onSelect={mockOnSelect}
+                    onDelete={mockOnDelete}
+                    onClear={mockOnClear}
+                />
+            );
+
+            expect(screen.queryByRole('button', { name: /Favorite/ })).not.toBeInTheDocument();
+            expect(screen.queryByRole('button', { name: /Edit/ })).not.toBeInTheDocument();
+        });
+    });
+
+    describe('Export', () => {
+        it('exports an entry without selecting it', () => {
+            const onExport = vi.fn();
+            const saved = createMockSavedComposition('comp_1');
+            render(
+                <CompositionHistory
+                    history={[saved]}
+                    onSelect={mockOnSelect}
+                    onDelete={mockOnDelete}
+                    onClear={mockOnClear}
+                    onExport={onExport}
+                />
+            );
+
+            fireEvent.click(screen.getByRole('button', { name: 'Export Gong Mode' }));
+
+            expect(onExport).toHaveBeenCalledWith(saved);
+            expect(mockOnSelect).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('Filtering', () => {
+        const history = [
+            { ...createMockSavedComposition('comp_1', 'gong'), title: 'Morning', tags: ['keeper'] },
+            { ...createMockSavedComposition('comp_2', 'yu', undefined, ['dizi']), favorite: true },
+            createMockSavedComposition('comp_3', 'zhi'),
+        ];
+
+        // Entries only; the filter selects have options of their own
+        const entries = () => within(screen.getByRole('listbox')).queryAllByRole('option');
+
+        const renderHistory = () => render(
+            <CompositionHistory
+                history={history}
+                onSelect={mockOnSelect}
+                onDelete={mockOnDelete}
+                onClear={mockOnClear}
+            />
+        );
+
+        it('searches titles and tags', () => {
+            renderHistory();
+
+            fireEvent.change(screen.getByLabelText('Search compositions'), { target: { value: 'KEEP' } });
+
+            expect(entries()).toHaveLength(1);
+            expect(screen.getByText('Morning')).toBeInTheDocument();
+        });
+
+        it('filters by mode and favorites', () => {
+            renderHistory();
+            fireEvent.click(screen.getByRole('button', { name: 'Filters' }));
+
+            fireEvent.change(screen.getByLabelText('Mode'), { target: { value: 'zhi' } });
+            expect(entries()).toHaveLength(1);
+            expect(screen.getByText('Zhi Mode')).toBeInTheDocument();
+
+            fireEvent.change(screen.getByLabelText('Mode'), { target: { value: '' } });
+            fireEvent.click(screen.getByLabelText('Favorites only'));
+            expect(entries()).toHaveLength(1);
+            expect(screen.getByText('Yu Mode')).toBeInTheDocument();
+        });
+
+        it('offers only values present in the history', () => {
+            renderHistory();
+            fireEvent.click(screen.getByRole('button', { name: 'Filters' }));
+
+            const instrumentOptions = Array.from(
+                (screen.getByLabelText('Instrument') as HTMLSelectElement).options
+            ).map((option) => option.value);
+            expect(instrumentOptions).toEqual(['', 'dizi', 'erhu']);
+        });
+
+        it('shows a message and resets when nothing matches', () => {
+            renderHistory();
+            fireEvent.click(screen.getByRole('button', { name: 'Filters' }));
+            fireEvent.change(screen.getByLabelText('Minimum tempo'), { target: { value: '200' } });
+
+            expect(entries()).toHaveLength(0);
+            expect(screen.getByText('No compositions match these filters.')).toBeInTheDocument();
+
+            fireEvent.click(screen.getByText('Reset filters'));
+            expect(entries()).toHaveLength(3);
+        });
+    });
+
+    describe('Synth Version', () => {
+        it('flags entries saved with an older synth version', () => {
+            const outdated = { ...createMockSavedComposition('comp_1'), synthVersion: SYNTH_VERSION - 1 };
+
+            render(
+                <CompositionHistory
+                    history={[outdated, createMockSavedComposition('comp_2', 'yu')]}
+                    onSelect={mockOnSelect}
+                    onDelete={mockOnDelete}
+                    onClear={mockOnClear}
+                />
+            );
+
+            expect(screen.getAllByText('May sound different')).toHaveLength(1);
+            expect(screen.getAllByRole('option')[0]).toHaveTextContent('May sound different');
+        });
+    });
+
+    describe('Storage Usage', () => {
+        it('shows entry count and audio size', () => {
+            render(
+                <CompositionHistory
+                    history={[createMockSavedComposition('comp_1')]}
+                    onSelect={mockOnSelect}
+                    onDelete={mockOnDelete}
+                    onClear={mockOnClear}
+                    usage={{ entries: 12, audioBytes: 5.5 * 1024 * 1024 }}
+                />
+            );
+
+            expect(screen.getByTestId('history-usage')).toHaveTextContent('12 saved · 5.5 MB of audio');
+        });
+
+        it('shows the share of browser storage used when a quota is known', () => {
+            render(
+                <CompositionHistory
+                    history={[createMockSavedComposition('comp_1')]}
+                    onSelect={mockOnSelect}
+                    onDelete={mockOnDelete}
+                    onClear={mockOnClear}
+                    usage={{ entries: 1, audioBytes: 2048, usageBytes: 250, quotaBytes: 1000 }}
+                />
+            );
+
+            expect(screen.getByTestId('history-usage')).toHaveTextContent('1 saved · 2 KB of audio · 25% of browser storage used');
+        });
+
+        it('hides usage until it is known', () => {
+            render(
+                <CompositionHistory
+                    history={[createMockSavedComposition('comp_1')]}
+                    onSelect={mockOnSelect}
+                    onDelete={mockOnDelete}
+                    onClear={mockOnClear}
+                />
+            );
+
+            expect(screen.queryByTestId('history-usage')).not.toBeInTheDocument();
+        });
+    });
+
+    describe('Loading State', () => {
+        it('marks the entry whose audio is loading', () => {
+            render(
+                <CompositionHistory
+                    history={[createMockSavedComposition('comp_1'), createMockSavedComposition('comp_2', 'yu')]}
+                    onSelect={mockOnSelect}
+                    onDelete={mockOnDelete}
+                    onClear={mockOnClear}
+                    loadingId="comp_2"
+                />
+            );
+
+            const [first, second] = screen.getAllByRole('option');
+            expect(first).toHaveAttribute('aria-busy', 'false');
+            expect(second).toHaveAttribute('aria-busy', 'true');
+            expect(screen.getByText('Loading…')).toBeInTheDocument();
+        });
+    });
+
     describe('Accessibility', () => {
         it('delete button has title attribute', () => {
             const history = [createMockSavedComposition('comp_1')];
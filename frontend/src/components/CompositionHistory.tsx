@@ -1,23 +1,118 @@
-import React, { useState, useCallback, useRef } from 'react';
+import React, { useState, useCallback, useRef, useMemo } from 'react';
 import type { SavedComposition } from '../hooks/useCompositionHistory';
+import type { HistoryEntryChanges, StorageUsage } from '../services/historyStore';
+import { isOutdatedEntry } from '../services/historyStore';
+import { filterHistory, getEntryTitle, getFilterOptions, isFilterActive, parseTags } from '../utils/historyFilter';
+import type { HistoryFilter } from '../utils/historyFilter';
 
 interface CompositionHistoryProps {
     history: SavedComposition[];
     onSelect: (composition: SavedComposition) => void;
     onDelete: (id: string) => void;
     onClear: () => void;
+    /** Rename, retag or (un)favorite an entry; editing controls are hidden without it */
+    onUpdate?: (id: string, changes: HistoryEntryChanges) => void;
+    /** Download an entry as a project file; the export button is hidden without it */
+    onExport?: (composition: SavedComposition) => void;
+    /** Storage used by the history, shown under the heading */
+    usage?: StorageUsage | null;
+    /** Id of the entry whose audio is loading */
+    loadingId?: string | null;
 }
 
+/**
+ * Format a byte count as KB/MB/GB.
+ */
+const formatBytes = (bytes: number): string => {
+    if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+    if (bytes < 1024 * 1024 * 1024) return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+    return `${(bytes / 1024 / 1024 / 1024).toFixed(1)} GB`;
+};
+
+/**
+ * Parse a tempo filter input; blank means no bound.
+ */
+const parseTempo = (value: string): number | undefined => {
+    const tempo = parseInt(value, 10);
+    return Number.isFinite(tempo) ? tempo : undefined;
+};
+
+interface FilterSelectProps {
+    label: string;
+    value: string | undefined;
+    options: string[];
+    onChange: (value: string | undefined) => void;
+}
+
+/**
+ * A labelled select whose blank option clears the criterion.
+ */
+const FilterSelect: React.FC<FilterSelectProps> = ({ label, value, options, onChange }) => (
+    <label className="flex flex-col gap-1 text-xs text-gray-500">
+        {label}
+        <select
+            value={value ?? ''}
+            onChange={(e) => onChange(e.target.value || undefined)}
+            className="border border-gray-200 rounded px-1 py-1 text-gray-800 bg-white"
+        >
+            <option value="">Any</option>
+            {options.map((option) => (
+                <option key={option} value={option}>{option}</option>
+            ))}
+        </select>
+    </label>
+);
+
 export const CompositionHistory: React.FC<CompositionHistoryProps> = ({
     history,
     onSelect,
     onDelete,
     onClear,
+    onUpdate,
+    onExport,
+    usage,
+    loadingId,
 }) => {
     const [focusedIndex, setFocusedIndex] = useState<number>(-1);
+    const [filter, setFilter] = useState<HistoryFilter>({});
+    const [showFilters, setShowFilters] = useState(false);
+    const [editingId, setEditingId] = useState<string | null>(null);
+    const [draftTitle, setDraftTitle] = useState('');
+    const [draftTags, setDraftTags] = useState('');
     const listRef = useRef<HTMLDivElement>(null);
 
+    const visible = useMemo(() => filterHistory(history, filter), [history, filter]);
+    const filterOptions = useMemo(() => getFilterOptions(history), [history]);
+
+    const updateFilter = (changes: HistoryFilter) => setFilter((prev) => ({ ...prev, ...changes }));
+
+    const startEditing = (item: SavedComposition) => {
+        setEditingId(item.id);
+        setDraftTitle(item.title ?? '');
+        setDraftTags(item.tags.join(', '));
+    };
+
+    const saveEdit = (id: string) => {
+        onUpdate?.(id, { title: draftTitle.trim() || undefined, tags: parseTags(draftTags) });
+        setEditingId(null);
+    };
+
+    // Keep typing in the edit form from triggering the list's keyboard shortcuts
+    const handleEditKeyDown = (e: React.KeyboardEvent, id: string) => {
+        e.stopPropagation();
+        if (e.key === 'Enter') {
+            e.preventDefault();
+            saveEdit(id);
+        } else if (e.key === 'Escape') {
+            e.preventDefault();
+            setEditingId(null);
+        }
+    };
+
     const handleKeyDown = useCallback((e: React.KeyboardEvent, index: number, item: SavedComposition) => {
+        // Keys pressed on the entry's own buttons activate those buttons
+        if (e.target !== e.currentTarget) return;
+
         switch (e.key) {
             case 'Enter':
             case ' ':
@@ -26,7 +121,7 @@ export const CompositionHistory: React.FC<CompositionHistoryProps> = ({
                 break;
             case 'ArrowDown':
                 e.preventDefault();
-                if (index < history.length - 1) {
+                if (index < visible.length - 1) {
                     setFocusedIndex(index + 1);
                     const nextItem = listRef.current?.querySelector(`[data-index="${index + 1}"]`) as HTMLElement;
                     nextItem?.focus();
@@ -53,13 +148,13 @@ export const CompositionHistory: React.FC<CompositionHistoryProps> = ({
                 break;
             case 'End':
                 e.preventDefault();
-                const lastIndex = history.length - 1;
+                const lastIndex = visible.length - 1;
                 setFocusedIndex(lastIndex);
                 const lastItem = listRef.current?.querySelector(`[data-index="${lastIndex}"]`) as HTMLElement;
                 lastItem?.focus();
                 break;
         }
-    }, [history.length, onSelect, onDelete]);
+    }, [visible.length, onSelect, onDelete]);
 
     if (history.length === 0) {
         return null;
@@ -104,39 +199,238 @@ export const CompositionHistory: React.FC<CompositionHistoryProps> = ({
                 </button>
             </div>
 
+            <div className="flex items-center gap-2 mb-3">
+                <input
+                    type="search"
+                    value={filter.query ?? ''}
+                    onChange={(e) => updateFilter({ query: e.target.value })}
+                    placeholder="Search titles and tags"
+                    aria-label="Search compositions"
+                    className="flex-1 min-w-0 border border-gray-200 rounded px-2 py-1 text-xs"
+                />
+                <button
+                    onClick={() => setShowFilters((prev) => !prev)}
+                    aria-expanded={showFilters}
+                    aria-controls="history-filters"
+                    className="text-xs text-gray-500 hover:text-gray-800"
+                >
+                    Filters
+                </button>
+            </div>
+
+            {showFilters && (
+                <div id="history-filters" className="grid grid-cols-2 gap-2 mb-3">
+                    <FilterSelect
+                        label="Mode"
+                        value={filter.mode}
+                        options={filterOptions.modes}
+                        onChange={(mode) => updateFilter({ mode: mode as HistoryFilter['mode'] })}
+                    />
+                    <FilterSelect
+                        label="Root"
+                        value={filter.root}
+                        options={filterOptions.roots}
+                        onChange={(root) => updateFilter({ root })}
+                    />
+                    <FilterSelect
+                        label="Mood"
+                        value={filter.mood}
+                        options={filterOptions.moods}
+                        onChange={(mood) => updateFilter({ mood: mood as HistoryFilter['mood'] })}
+                    />
+                    <FilterSelect
+                        label="Instrument"
+                        value={filter.instrument}
+                        options={filterOptions.instruments}
+                        onChange={(instrument) => updateFilter({ instrument: instrument as HistoryFilter['instrument'] })}
+                    />
+                    <FilterSelect
+                        label="Tag"
+                        value={filter.tag}
+                        options={filterOptions.tags}
+                        onChange={(tag) => updateFilter({ tag })}
+                    />
+                    <div className="flex flex-col gap-1 text-xs text-gray-500">
+                        Tempo (BPM)
+                        <div className="flex items-center gap-1">
+                            <input
+                                type="number"
+                                min={1}
+                                value={filter.minTempo ?? ''}
+                                onChange={(e) => updateFilter({ minTempo: parseTempo(e.target.value) })}
+                                aria-label="Minimum tempo"
+                                className="w-full border border-gray-200 rounded px-1 py-1 text-gray-800"
+                            />
+                            <span>–</span>
+                            <input
+                                type="number"
+                                min={1}
+                                value={filter.maxTempo ?? ''}
+                                onChange={(e) => updateFilter({ maxTempo: parseTempo(e.target.value) })}
+                                aria-label="Maximum tempo"
+                                className="w-full border border-gray-200 rounded px-1 py-1 text-gray-800"
+                            />
+                        </div>
+                    </div>
+                    <label className="col-span-2 flex items-center gap-2 text-xs text-gray-600">
+                        <input
+                            type="checkbox"
+                            checked={filter.favoritesOnly ?? false}
+                            onChange={(e) => updateFilter({ favoritesOnly: e.target.checked })}
+                        />
+                        Favorites only
+                    </label>
+                    {isFilterActive(filter) && (
+                        <button
+                            onClick={() => setFilter({})}
+                            className="col-span-2 text-xs text-gray-400 hover:text-silk-red text-left"
+                        >
+                            Reset filters
+                        </button>
+                    )}
+                </div>
+            )}
+
+            {usage && (
+                <p className="text-xs text-gray-400 -mt-2 mb-3" data-testid="history-usage">
+                    {usage.entries} saved · {formatBytes(usage.audioBytes)} of audio
+                    {usage.quotaBytes && usage.usageBytes !== undefined
+                        ? ` · ${Math.ceil((usage.usageBytes / usage.quotaBytes) * 100)}% of browser storage used`
+                        : ''}
+                </p>
+            )}
+
             <div
                 ref={listRef}
                 className="space-y-2 max-h-[300px] overflow-y-auto"
                 role="listbox"
                 aria-label="Recent compositions"
             >
-                {history.map((item, index) => (
+                {visible.length === 0 && (
+                    <p className="text-xs text-gray-500 p-2">No compositions match these filters.</p>
+                )}
+                {visible.map((item, index) => (
                     <div
                         key={item.id}
                         data-index={index}
                         role="option"
                         tabIndex={0}
                         aria-selected={focusedIndex === index}
+                        aria-busy={loadingId === item.id}
                         className="group flex items-center gap-2 p-2 rounded-lg hover:bg-stone-50 cursor-pointer transition-colors focus:outline-none focus:ring-2 focus:ring-silk-amber focus:bg-stone-50"
                         onClick={() => onSelect(item)}
                         onKeyDown={(e) => handleKeyDown(e, index, item)}
                         onFocus={() => setFocusedIndex(index)}
                     >
+                        {onUpdate && (
+                            <button
+                                onClick={(e) => {
+                                    e.stopPropagation();
+                                    onUpdate(item.id, { favorite: !item.favorite });
+                                }}
+                                className={`text-sm ${item.favorite ? 'text-silk-amber' : 'text-gray-300 hover:text-silk-amber'}`}
+                                title={item.favorite ? 'Remove from favorites' : 'Add to favorites (kept when history is full)'}
+                                aria-label={`Favorite ${getEntryTitle(item)}`}
+                                aria-pressed={item.favorite}
+                            >
+                                {item.favorite ? '★' : '☆'}
+                            </button>
+                        )}
+
                         <span className="w-6 h-6 rounded bg-silk-amber text-white text-xs font-bold flex items-center justify-center">
                             {getModeLabel(item.params.mode)}
                         </span>
 
                         <div className="flex-1 min-w-0">
-                            <div className="text-sm font-medium text-gray-800 truncate">
-                                {item.params.mode.charAt(0).toUpperCase() + item.params.mode.slice(1)} Mode
-                            </div>
+                            {editingId === item.id ? (
+                                <div
+                                    className="space-y-1"
+                                    onClick={(e) => e.stopPropagation()}
+                                    onKeyDown={(e) => e.stopPropagation()}
+                                >
+                                    <input
+                                        autoFocus
+                                        value={draftTitle}
+                                        onChange={(e) => setDraftTitle(e.target.value)}
+                                        onKeyDown={(e) => handleEditKeyDown(e, item.id)}
+                                        placeholder={getEntryTitle({ params: item.params })}
+                                        aria-label="Title"
+                                        className="w-full border border-gray-200 rounded px-1 text-sm"
+                                    />
+                                    <input
+                                        value={draftTags}
+                                        onChange={(e) => setDraftTags(e.target.value)}
+                                        onKeyDown={(e) => handleEditKeyDown(e, item.id)}
+                                        placeholder="Tags, comma separated"
+                                        aria-label="Tags"
+                                        className="w-full border border-gray-200 rounded px-1 text-xs"
+                                    />
+                                    <div className="flex gap-2 text-xs">
+                                        <button onClick={() => saveEdit(item.id)} className="text-silk-red font-medium">
+                                            Save
+                                        </button>
+                                        <button onClick={() => setEditingId(null)} className="text-gray-500">
+                                            Cancel
+                                        </button>
+                                    </div>
+                                </div>
+                            ) : (
+                                <div className="text-sm font-medium text-gray-800 truncate">
+                                    {getEntryTitle(item)}
+                                </div>
+                            )}
                             <div className="text-xs text-gray-500 truncate">
-                                {item.audioResults.map((a) => a.instrument).join(', ')}
+                                {item.instruments.join(', ')}
                             </div>
+                            {item.tags.length > 0 && editingId !== item.id && (
+                                <div className="flex flex-wrap gap-1 mt-1">
+                                    {item.tags.map((tag) => (
+                                        <span key={tag} className="text-[10px] bg-stone-100 text-gray-600 rounded px-1">
+                                            {tag}
+                                        </span>
+                                    ))}
+                                </div>
+                            )}
+                            {isOutdatedEntry(item) && (
+                                <div
+                                    className="text-xs text-amber-700"
+                                    title="Saved with an older version of the synthesizer"
+                                >
+                                    May sound different
+                                </div>
+                            )}
                         </div>
 
                         <div className="flex items-center gap-2">
-                            <span className="text-xs text-gray-400">{formatDate(item.createdAt)}</span>
+                            <span className="text-xs text-gray-400">
+                                {loadingId === item.id ? 'Loading…' : formatDate(item.createdAt)}
+                            </span>
+                            {onUpdate && (
+                                <button
+                                    onClick={(e) => {
+                                        e.stopPropagation();
+                                        startEditing(item);
+                                    }}
+                                    className="opacity-0 group-hover:opacity-100 focus:opacity-100 text-gray-400 hover:text-gray-700 transition-all p-1"
+                                    title="Rename and tag"
+                                    aria-label={`Edit ${getEntryTitle(item)}`}
+                                >
+                                    ✎
+                                </button>
+                            )}
+                            {onExport && (
+                                <button
+                                    onClick={(e) => {
+                                        e.stopPropagation();
+                                        onExport(item);
+                                    }}
+                                    className="opacity-0 group-hover:opacity-100 focus:opacity-100 text-gray-400 hover:text-gray-700 transition-all p-1"
+                                    title="Export project"
+                                    aria-label={`Export ${getEntryTitle(item)}`}
+                                >
+                                    ⤓
+                                </button>
+                            )}
                             <button
                                 onClick={(e) => {
                                     e.stopPropagation();
@@ -1,5 +1,5 @@
 import { describe, it, expect, vi } from 'vitest';
-import { render, screen, fireEvent } from '@testing-library/react';
+import { render, screen, fireEvent, within } from '@testing-library/react';
 import userEvent from '@testing-library/user-event';
 import { ControlPanel } from './ControlPanel';
 
@@ -82,6 +82,8 @@ describe('ControlPanel', () => {
       instruments: ['erhu'],
       mood: 'calm',
       seed: undefined,
+      engine: 'gemini',
+      stringModels: {},
     });
   });
 
@@ -134,4 +136,118 @@ describe('ControlPanel', () => {
       })
     );
   });
+
+  it('allows selecting the offline composer', async () => {
+    render(<ControlPanel onGenerate={mockOnGenerate} isGenerating={false} />);
+
+    const offlineButton = screen.getByRole('button', { name: /offline/i });
+    expect(offlineButton).toHaveAttribute('aria-pressed', 'false');
+
+    await userEvent.click(offlineButton);
+    expect(offlineButton).toHaveAttribute('aria-pressed', 'true');
+
+    await userEvent.click(screen.getByRole('button', { name: /generate music/i }));
+
+    expect(mockOnGenerate).toHaveBeenCalledWith(
+      expect.objectContaining({
+        engine: 'offline',
+      })
+    );
+  });
+
+  it('restores the engine from initialParams', () => {
+    render(
+      <ControlPanel
+        onGenerate={mockOnGenerate}
+        isGenerating={false}
+        initialParams={{ engine: 'offline' }}
+      />
+    );
+
+    expect(screen.getByRole('button', { name: /offline/i })).toHaveAttribute('aria-pressed', 'true');
+    expect(screen.getByRole('button', { name: /gemini/i })).toHaveAttribute('aria-pressed', 'false');
+  });
+
+  it('allows selecting the lite string voice per instrument', async () => {
+    render(<ControlPanel onGenerate={mockOnGenerate} isGenerating={false} />);
+
+    const guzheng = within(screen.getByRole('group', { name: /guzheng string model/i }));
+    const pipa = within(screen.getByRole('group', { name: /pipa string model/i }));
+    const liteButton = guzheng.getByRole('button', { name: /lite/i });
+    expect(guzheng.getByRole('button', { name: /physical/i })).toHaveAttribute('aria-pressed', 'true');
+
+    await userEvent.click(liteButton);
+    expect(liteButton).toHaveAttribute('aria-pressed', 'true');
+    expect(pipa.getByRole('button', { name: /physical/i })).toHaveAttribute('aria-pressed', 'true');
+
+    await userEvent.click(screen.getByRole('button', { name: /generate music/i }));
+
+    expect(mockOnGenerate).toHaveBeenCalledWith(
+      expect.objectContaining({
+        stringModels: { guzheng: 'lite' },
+      })
+    );
+  });
+
+  it('restores the string models from initialParams', () => {
+    render(
+      <ControlPanel
+        onGenerate={mockOnGenerate}
+        isGenerating={false}
+        initialParams={{ stringModels: { pipa: 'lite' } }}
+      />
+    );
+
+    const guzheng = within(screen.getByRole('group', { name: /guzheng string model/i }));
+    const pipa = within(screen.getByRole('group', { name: /pipa string model/i }));
+    expect(pipa.getByRole('button', { name: /lite/i })).toHaveAttribute('aria-pressed', 'true');
+    expect(guzheng.getByRole('button', { name: /physical/i })).toHaveAttribute('aria-pressed', 'true');
+  });
+
+  it('passes the selected import mode to onMidiImport', async () => {
+    const onMidiImport = vi.fn();
+    render(<ControlPanel onGenerate={mockOnGenerate} isGenerating={false} onMidiImport={onMidiImport} />);
+
+    const verbatimButton = screen.getByRole('button', { name: /verbatim/i });
+    const reimagineButton = screen.getByRole('button', { name: /reimagine/i });
+    expect(reimagineButton).toHaveAttribute('aria-pressed', 'true');
+
+    const file = new File([new Uint8Array([0x4d, 0x54, 0x68, 0x64])], 'song.mid', { type: 'audio/midi' });
+    const input = screen.getByLabelText('Import MIDI file');
+
+    await userEvent.upload(input, file);
+    expect(onMidiImport).toHaveBeenLastCalledWith(file, 'reimagine');
+
+    await userEvent.click(verbatimButton);
+    expect(verbatimButton).toHaveAttribute('aria-pressed', 'true');
+
+    await userEvent.upload(input, file);
+    expect(onMidiImport).toHaveBeenLastCalledWith(file, 'verbatim');
+  });
+
+  it('routes .silkroad files to onProjectImport', async () => {
+    const onMidiImport = vi.fn();
+    const onProjectImport = vi.fn();
+    render(
+      <ControlPanel
+        onGenerate={mockOnGenerate}
+        isGenerating={false}
+        onMidiImport={onMidiImport}
+        onProjectImport={onProjectImport}
+      />
+    );
+
+    const input = screen.getByLabelText('Import MIDI or project file');
+    expect(input).toHaveAttribute('accept', '.mid,.midi,.silkroad');
+
+    const project = new File(['{}'], 'Song.SILKROAD', { type: 'application/json' });
+    await userEvent.upload(input, project);
+    expect(onProjectImport).toHaveBeenCalledWith(project);
+    expect(onMidiImport).not.toHaveBeenCalled();
+
+    const midi = new File([new Uint8Array([0x4d, 0x54, 0x68, 0x64])], 'song.mid', { type: 'audio/midi' });
+    await userEvent.upload(input, midi);
+    expect(onMidiImport).toHaveBeenCalledWith(midi, 'reimagine');
+    expect(onProjectImport).toHaveBeenCalledTimes(1);
+  });
 });
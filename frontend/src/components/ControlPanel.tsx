@@ -1,19 +1,27 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { Tooltip, InfoIcon } from './Tooltip';
-import type { CompositionParams, PentatonicMode, Instrument, Mood } from '../types/music';
+import type { CompositionParams, PentatonicMode, Instrument, Mood, ComposeEngine, StringModel } from '../types/music';
+import { DEFAULT_MIDI_IMPORT_MODE } from '../utils/midiImport';
+import type { MidiImportMode } from '../utils/midiImport';
+import { isProjectFileName, PROJECT_FILE_EXTENSION } from '../utils/projectFile';
 
 interface ControlPanelProps {
   onGenerate: (params: CompositionParams) => void;
   isGenerating: boolean;
   generateButtonRef?: React.RefObject<HTMLButtonElement>;
   initialParams?: Partial<CompositionParams>;
-  onMidiImport?: (file: File) => void;
+  onMidiImport?: (file: File, mode: MidiImportMode) => void;
+  /** Import a .silkroad project; shares the MIDI file input */
+  onProjectImport?: (file: File) => void;
 }
 
 const MODES: PentatonicMode[] = ['gong', 'shang', 'jue', 'zhi', 'yu'];
 const ROOTS = ['C', 'C#', 'D', 'D#', 'E', 'F', 'F#', 'G', 'G#', 'A', 'A#', 'B'];
 const AVAILABLE_INSTRUMENTS: Instrument[] = ['erhu', 'guzheng', 'pipa', 'dizi'];
 const MOODS: Mood[] = ['calm', 'heroic', 'melancholic', 'festive'];
+const ENGINES: ComposeEngine[] = ['gemini', 'offline'];
+const STRING_MODELS: StringModel[] = ['physical', 'lite'];
+const PLUCKED_INSTRUMENTS: Instrument[] = ['guzheng', 'pipa'];
 
 const MODE_INFO: Record<PentatonicMode, { chinese: string; description: string }> = {
   gong: { chinese: '宫', description: 'Bright and stable, like Western major scale' },
@@ -30,12 +38,30 @@ const INSTRUMENT_INFO: Record<Instrument, string> = {
   dizi: 'Transverse bamboo flute with buzzing membrane',
 };
 
+const IMPORT_MODES: MidiImportMode[] = ['verbatim', 'reimagine'];
+
+const IMPORT_MODE_INFO: Record<MidiImportMode, { label: string; description: string }> = {
+  verbatim: { label: 'Verbatim', description: 'Play every note of the file as written' },
+  reimagine: { label: 'Reimagine', description: 'Reduce the file to a motif and rhythms to compose from' },
+};
+
+const ENGINE_INFO: Record<ComposeEngine, { label: string; description: string }> = {
+  gemini: { label: 'Gemini', description: 'AI composer in the cloud' },
+  offline: { label: 'Offline', description: 'Rule-based composer, works without a connection' },
+};
+
+const STRING_MODEL_INFO: Record<StringModel, { label: string; description: string }> = {
+  physical: { label: 'Physical', description: 'Modelled strings, the most realistic' },
+  lite: { label: 'Lite', description: 'Simpler oscillator voice for slow devices' },
+};
+
 export const ControlPanel: React.FC<ControlPanelProps> = ({
   onGenerate,
   isGenerating,
   generateButtonRef,
   initialParams,
   onMidiImport,
+  onProjectImport,
 }) => {
   const [mode, setMode] = useState<PentatonicMode>('gong');
   const [root, setRoot] = useState<string>('C');
@@ -43,6 +69,9 @@ export const ControlPanel: React.FC<ControlPanelProps> = ({
   const [instruments, setInstruments] = useState<Instrument[]>(['erhu']);
   const [mood, setMood] = useState<Mood>('calm');
   const [seed, setSeed] = useState<number | ''>('');
+  const [engine, setEngine] = useState<ComposeEngine>('gemini');
+  const [stringModels, setStringModels] = useState<Partial<Record<Instrument, StringModel>>>({});
+  const [importMode, setImportMode] = useState<MidiImportMode>(DEFAULT_MIDI_IMPORT_MODE);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   // Update form when initialParams changes (e.g., from preset or MIDI import)
@@ -54,13 +83,17 @@ export const ControlPanel: React.FC<ControlPanelProps> = ({
       if (initialParams.instruments) setInstruments(initialParams.instruments);
       if (initialParams.mood) setMood(initialParams.mood);
       if (initialParams.seed !== undefined) setSeed(initialParams.seed);
+      if (initialParams.engine) setEngine(initialParams.engine);
+      if (initialParams.stringModels) setStringModels(initialParams.stringModels);
     }
   }, [initialParams]);
 
   const handleMidiFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
-    if (file && onMidiImport) {
-      onMidiImport(file);
+    if (file && onProjectImport && isProjectFileName(file.name)) {
+      onProjectImport(file);
+    } else if (file && onMidiImport) {
+      onMidiImport(file, importMode);
     }
     // Reset input so same file can be selected again
     if (fileInputRef.current) {
@@ -76,7 +109,7 @@ export const ControlPanel: React.FC<ControlPanelProps> = ({
 
   const handleSubmit = () => {
     onGenerate({
-      mode, root, tempo, instruments, mood, seed: seed === '' ? undefined : Number(seed)
+      mode, root, tempo, instruments, mood, seed: seed === '' ? undefined : Number(seed), engine, stringModels
     });
   };
 
@@ -162,7 +195,7 @@ export const ControlPanel: React.FC<ControlPanelProps> = ({
       </div>
 
       {/* Seed */}
-      <div className="mb-6">
+      <div className="mb-4">
         <label className="block text-sm font-medium mb-1">Seed (Optional)</label>
         <input 
           type="number" 
@@ -173,6 +206,53 @@ export const ControlPanel: React.FC<ControlPanelProps> = ({
         />
       </div>
 
+      {/* Engine */}
+      <div className="mb-4">
+        <label className="block text-sm font-medium mb-2">Composer</label>
+        <div className="flex flex-wrap gap-2">
+          {ENGINES.map(e => (
+            <Tooltip key={e} content={ENGINE_INFO[e].description}>
+              <button
+                onClick={() => setEngine(e)}
+                aria-pressed={engine === e}
+                className={`px-3 py-1 rounded-full border transition-colors ${
+                  engine === e
+                    ? 'bg-silk-stone text-white border-silk-stone'
+                    : 'bg-white text-silk-stone border-gray-300 hover:bg-gray-50'
+                }`}
+              >
+                {ENGINE_INFO[e].label}
+              </button>
+            </Tooltip>
+          ))}
+        </div>
+      </div>
+
+      {/* Plucked strings */}
+      <div className="mb-6">
+        <label className="block text-sm font-medium mb-2">Plucked Strings</label>
+        {PLUCKED_INSTRUMENTS.map(inst => (
+          <div key={inst} className="flex flex-wrap items-center gap-2 mb-2" role="group" aria-label={`${inst} string model`}>
+            <span className="w-16 text-sm capitalize">{inst}</span>
+            {STRING_MODELS.map(m => (
+              <Tooltip key={m} content={STRING_MODEL_INFO[m].description}>
+                <button
+                  onClick={() => setStringModels(prev => ({ ...prev, [inst]: m }))}
+                  aria-pressed={(stringModels[inst] ?? 'physical') === m}
+                  className={`px-3 py-1 rounded-full border transition-colors ${
+                    (stringModels[inst] ?? 'physical') === m
+                      ? 'bg-silk-stone text-white border-silk-stone'
+                      : 'bg-white text-silk-stone border-gray-300 hover:bg-gray-50'
+                  }`}
+                >
+                  {STRING_MODEL_INFO[m].label}
+                </button>
+              </Tooltip>
+            ))}
+          </div>
+        ))}
+      </div>
+
       <button
         ref={generateButtonRef}
         onClick={handleSubmit}
@@ -192,10 +272,10 @@ export const ControlPanel: React.FC<ControlPanelProps> = ({
           <input
             ref={fileInputRef}
             type="file"
-            accept=".mid,.midi"
+            accept={onProjectImport ? `.mid,.midi,${PROJECT_FILE_EXTENSION}` : '.mid,.midi'}
             onChange={handleMidiFileChange}
             className="hidden"
-            aria-label="Import MIDI file"
+            aria-label={onProjectImport ? 'Import MIDI or project file' : 'Import MIDI file'}
           />
           <button
             onClick={() => fileInputRef.current?.click()}
@@ -206,8 +286,25 @@ export const ControlPanel: React.FC<ControlPanelProps> = ({
                 : 'border-silk-stone text-silk-stone hover:bg-silk-stone hover:text-white'
             }`}
           >
-            Import MIDI
+            {onProjectImport ? 'Import MIDI or Project' : 'Import MIDI'}
           </button>
+          <div className="flex justify-center gap-2 mt-2" role="group" aria-label="MIDI import mode">
+            {IMPORT_MODES.map(m => (
+              <Tooltip key={m} content={IMPORT_MODE_INFO[m].description}>
+                <button
+                  onClick={() => setImportMode(m)}
+                  aria-pressed={importMode === m}
+                  className={`px-3 py-1 rounded-full border text-xs transition-colors ${
+                    importMode === m
+                      ? 'bg-silk-stone text-white border-silk-stone'
+                      : 'bg-white text-silk-stone border-gray-300 hover:bg-gray-50'
+                  }`}
+                >
+                  {IMPORT_MODE_INFO[m].label}
+                </button>
+              </Tooltip>
+            ))}
+          </div>
         </>
       )}
     </div>
@@ -290,6 +290,29 @@ describe('GenerationProgress', () => {
             const progressBar = container.querySelector('[style*="width: 100%"]');
             expect(progressBar).toBeInTheDocument();
         });
+
+        it('shows a progress bar for each active step that reports progress', () => {
+            render(
+                <GenerationProgress
+                    status="synthesizing"
+                    currentStep="Synthesizing 2 instruments"
+                    progress={60}
+                    totalSteps={3}
+                    currentStepIndex={1}
+                    steps={[
+                        { name: 'Composing structure', status: 'complete' },
+                        { name: 'Synthesizing erhu', status: 'active', progress: 0.25 },
+                        { name: 'Synthesizing pipa', status: 'active', progress: 0.5 },
+                    ]}
+                />
+            );
+            expect(screen.getByRole('progressbar', { name: 'Synthesizing erhu progress' }))
+                .toHaveAttribute('aria-valuenow', '25');
+            expect(screen.getByRole('progressbar', { name: 'Synthesizing pipa progress' }))
+                .toHaveAttribute('aria-valuenow', '50');
+            expect(screen.queryByRole('progressbar', { name: 'Composing structure progress' }))
+                .not.toBeInTheDocument();
+        });
     });
 
     describe('Default Props', () => {
@@ -4,6 +4,8 @@ import type { JobStatus } from '../types/music';
 interface GenerationStep {
     name: string;
     status: 'pending' | 'active' | 'complete' | 'error';
+    /** Render progress of an active step (0-1) */
+    progress?: number;
 }
 
 interface GenerationProgressProps {
@@ -212,6 +214,7 @@ export const GenerationProgress: React.FC<GenerationProgressProps> = ({
             >
                 {Array.from({ length: totalSteps }).map((_, i) => {
                     const stepStatus = getStepStatus(i);
+                    const stepProgress = steps[i]?.progress;
                     return (
                         <div
                             key={i}
@@ -224,6 +227,22 @@ export const GenerationProgress: React.FC<GenerationProgressProps> = ({
                             >
                                 {getStepIndicator(stepStatus, i)}
                             </div>
+                            {/* Per-step render progress, while the step is running */}
+                            {stepStatus === 'active' && stepProgress !== undefined && (
+                                <div
+                                    className="w-10 h-1 mt-1 bg-gray-200 rounded-full overflow-hidden"
+                                    role="progressbar"
+                                    aria-valuenow={Math.round(stepProgress * 100)}
+                                    aria-valuemin={0}
+                                    aria-valuemax={100}
+                                    aria-label={`${steps[i].name} progress`}
+                                >
+                                    <div
+                                        className="h-full bg-silk-red transition-all duration-300 ease-out"
+                                        style={{ width: `${stepProgress * 100}%` }}
+                                    />
+                                </div>
+                            )}
                         </div>
                     );
                 })}
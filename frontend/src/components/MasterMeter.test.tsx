@@ -0,0 +1,70 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { render, screen, act } from '@testing-library/react';
+import { MasterMeter } from './MasterMeter';
+import type { MeterReading } from '../audio/types';
+
+const reading = (left: number, right: number): MeterReading => ({
+    left: { peak: left, rms: left - 6 },
+    right: { peak: right, rms: right - 6 },
+});
+
+describe('MasterMeter', () => {
+    let frames: FrameRequestCallback[];
+
+    beforeEach(() => {
+        frames = [];
+        vi.spyOn(window, 'requestAnimationFrame').mockImplementation((callback) => frames.push(callback));
+        vi.spyOn(window, 'cancelAnimationFrame').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+        vi.restoreAllMocks();
+    });
+
+    /** Run the most recently requested animation frame */
+    const nextFrame = () => act(() => frames[frames.length - 1](0));
+
+    it('shows empty meters while stopped', () => {
+        const getMeter = vi.fn(() => reading(-6, -6));
+
+        render(<MasterMeter getMeter={getMeter} active={false} />);
+
+        expect(getMeter).not.toHaveBeenCalled();
+        expect(screen.getByLabelText('Master left level')).toHaveAttribute('aria-valuetext', 'Peak -∞ dB, RMS -∞ dB');
+        expect(screen.getByTestId('master-peak')).toHaveTextContent('-∞ dB');
+    });
+
+    it('reads the levels on every frame while active', () => {
+        const getMeter = vi.fn()
+            .mockReturnValueOnce(reading(-12, -10))
+            .mockReturnValueOnce(reading(-3, -20));
+
+        render(<MasterMeter getMeter={getMeter} active />);
+
+        expect(screen.getByLabelText('Master left level')).toHaveAttribute('aria-valuenow', '-12');
+
+        nextFrame();
+
+        expect(getMeter).toHaveBeenCalledTimes(2);
+        expect(screen.getByLabelText('Master left level')).toHaveAttribute('aria-valuetext', 'Peak -3.0 dB, RMS -9.0 dB');
+        expect(screen.getByLabelText('Master right level')).toHaveAttribute('aria-valuenow', '-20');
+    });
+
+    it('holds the highest peak until playback restarts', () => {
+        const getMeter = vi.fn()
+            .mockReturnValueOnce(reading(-4, -2.5))
+            .mockReturnValue(reading(-30, -30));
+
+        const { rerender } = render(<MasterMeter getMeter={getMeter} active />);
+        nextFrame();
+
+        expect(screen.getByTestId('master-peak')).toHaveTextContent('-2.5 dB');
+
+        rerender(<MasterMeter getMeter={getMeter} active={false} />);
+        expect(window.cancelAnimationFrame).toHaveBeenCalled();
+        expect(screen.getByTestId('master-peak')).toHaveTextContent('-2.5 dB');
+
+        rerender(<MasterMeter getMeter={getMeter} active />);
+        expect(screen.getByTestId('master-peak')).toHaveTextContent('-30.0 dB');
+    });
+});
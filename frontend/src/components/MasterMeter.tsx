@@ -0,0 +1,85 @@
+import React, { useState, useEffect } from 'react';
+import type { MeterReading } from '../audio/types';
+
+interface MasterMeterProps {
+    /** Reads the current master levels; null while nothing is loaded */
+    getMeter: () => MeterReading | null;
+    /** Meters update on every animation frame while active */
+    active: boolean;
+}
+
+/** Lowest level shown, in dBFS */
+const METER_FLOOR = -60;
+
+const CHANNELS = ['left', 'right'] as const;
+
+const toPercent = (db: number): number =>
+    Number.isFinite(db) ? Math.max(0, Math.min(100, ((db - METER_FLOOR) / -METER_FLOOR) * 100)) : 0;
+
+const formatDb = (db: number): string => (Number.isFinite(db) && db > METER_FLOOR ? `${db.toFixed(1)} dB` : '-∞ dB');
+
+/**
+ * Stereo peak and RMS meters for the master bus, with the highest peak
+ * since playback started.
+ */
+export const MasterMeter: React.FC<MasterMeterProps> = ({ getMeter, active }) => {
+    const [reading, setReading] = useState<MeterReading | null>(null);
+    const [heldPeak, setHeldPeak] = useState(-Infinity);
+
+    useEffect(() => {
+        if (!active) {
+            setReading(null);
+            return;
+        }
+
+        setHeldPeak(-Infinity);
+        let frame = 0;
+        const update = () => {
+            const next = getMeter();
+            setReading(next);
+            if (next) setHeldPeak((held) => Math.max(held, next.left.peak, next.right.peak));
+            frame = requestAnimationFrame(update);
+        };
+        update();
+
+        return () => cancelAnimationFrame(frame);
+    }, [active, getMeter]);
+
+    return (
+        <div className="flex items-center gap-2" role="group" aria-label="Master levels">
+            <div className="flex flex-col gap-0.5 w-20">
+                {CHANNELS.map((channel) => {
+                    const level = reading?.[channel] ?? { peak: -Infinity, rms: -Infinity };
+                    return (
+                        <div
+                            key={channel}
+                            className="relative h-1.5 bg-gray-200 rounded-full overflow-hidden"
+                            role="meter"
+                            aria-label={`Master ${channel} level`}
+                            aria-valuemin={METER_FLOOR}
+                            aria-valuemax={0}
+                            aria-valuenow={Math.round(Math.max(METER_FLOOR, level.peak))}
+                            aria-valuetext={`Peak ${formatDb(level.peak)}, RMS ${formatDb(level.rms)}`}
+                        >
+                            <div
+                                className="absolute inset-y-0 left-0 bg-silk-amber/60"
+                                style={{ width: `${toPercent(level.rms)}%` }}
+                            />
+                            <div
+                                className="absolute inset-y-0 w-0.5 bg-silk-stone"
+                                style={{ left: `${toPercent(level.peak)}%` }}
+                            />
+                        </div>
+                    );
+                })}
+            </div>
+            <span
+                className={`text-xs font-mono min-w-[56px] ${heldPeak >= 0 ? 'text-silk-red' : 'text-gray-500'}`}
+                title="Highest peak since playback started"
+                data-testid="master-peak"
+            >
+                {formatDb(heldPeak)}
+            </span>
+        </div>
+    );
+};
@@ -175,6 +175,83 @@ describe('MathDisplay', () => {
     });
   });
 
+  describe('Note Sequences', () => {
+    const sequenceComposition = createMockComposition({
+      sequences: {
+        erhu: [
+          { pitch: 'C4', start: 0, duration: 1, velocity: 0.8 },
+          { pitch: 'E4', start: 1, duration: 2, velocity: 0.5 },
+        ],
+        guzheng: [{ pitch: 'C3', start: 0, duration: 4, velocity: 0.6 }],
+      },
+    });
+
+    it('does not render without sequences', () => {
+      render(<MathDisplay composition={mockComposition} />);
+
+      expect(screen.queryByText('Note Sequences')).not.toBeInTheDocument();
+    });
+
+    it('renders a piano roll per instrument', () => {
+      render(<MathDisplay composition={sequenceComposition} />);
+
+      expect(screen.getByText('Note Sequences')).toBeInTheDocument();
+      expect(screen.getByRole('img', { name: 'erhu note sequence' }).querySelectorAll('rect')).toHaveLength(2);
+      expect(screen.getByRole('img', { name: 'guzheng note sequence' }).querySelectorAll('rect')).toHaveLength(1);
+      expect(screen.getByText('2 notes')).toBeInTheDocument();
+    });
+
+    it('renders a dense sequence', () => {
+      const pitches = ['C4', 'D4', 'E4', 'G4', 'A4'];
+      const notes = Array.from({ length: 150000 }, (_, i) => ({
+        pitch: pitches[i % pitches.length],
+        start: i * 0.25,
+        duration: 0.25,
+        velocity: 0.8,
+      }));
+
+      render(<MathDisplay composition={createMockComposition({ sequences: { erhu: notes } })} />);
+
+      const roll = screen.getByRole('img', { name: 'erhu note sequence' });
+      expect(roll).toHaveAttribute('viewBox', '0 0 37500 12');
+      expect(screen.getByText('150000 notes')).toBeInTheDocument();
+    }, 30000);
+
+    it('shows a playhead while playing', () => {
+      render(<MathDisplay composition={sequenceComposition} isPlaying={true} tempo={60} currentTime={2} />);
+
+      const playhead = screen.getByRole('img', { name: 'erhu note sequence' }).querySelector('line');
+      expect(playhead).toHaveAttribute('x1', '2');
+    });
+  });
+
+  describe('Automation Lanes', () => {
+    const tracks = ['erhu', 'dizi'] as const;
+
+    it('does not render without a change handler', () => {
+      render(<MathDisplay composition={mockComposition} automationTracks={[...tracks]} />);
+
+      expect(screen.queryByRole('group', { name: 'Automation lanes' })).not.toBeInTheDocument();
+    });
+
+    it('renders lanes for the selected track under the form', () => {
+      const onAutomationChange = vi.fn();
+      render(
+        <MathDisplay
+          composition={mockComposition}
+          automationTracks={[...tracks]}
+          automation={{ dizi: { pan: [{ time: 20, value: -0.5 }] } }}
+          onAutomationChange={onAutomationChange}
+        />
+      );
+
+      expect(screen.getByRole('group', { name: 'erhu volume automation' })).toBeInTheDocument();
+
+      fireEvent.change(screen.getByLabelText('Automation track'), { target: { value: 'dizi' } });
+      expect(screen.getByRole('slider', { name: 'dizi pan at 0:20' })).toHaveAttribute('aria-valuetext', '50% left');
+    });
+  });
+
   describe('Section Duration', () => {
     it('uses default section duration of 15 seconds when not provided', () => {
       const { container } = render(
@@ -223,7 +300,44 @@ describe('MathDisplay', () => {
     });
   });
 
-  describe('Export MIDI Button', () => {
+  describe('Section Looping', () => {
+    it('does not make sections clickable without onLoopChange', () => {
+      render(<MathDisplay composition={mockComposition} />);
+
+      expect(screen.queryByRole('button', { name: /Loop section/ })).not.toBeInTheDocument();
+    });
+
+    it('loops a section when clicked', () => {
+      const onLoopChange = vi.fn();
+      render(<MathDisplay composition={mockComposition} sectionDuration={10} onLoopChange={onLoopChange} />);
+
+      fireEvent.click(screen.getByRole('button', { name: 'Loop section 3 (B)' }));
+
+      expect(onLoopChange).toHaveBeenCalledWith({ start: 20, end: 30 });
+    });
+
+    it('clears the loop when the looped section is clicked', () => {
+      const onLoopChange = vi.fn();
+      render(
+        <MathDisplay
+          composition={mockComposition}
+          sectionDuration={10}
+          loop={{ start: 20, end: 30 }}
+          onLoopChange={onLoopChange}
+        />
+      );
+
+      const section = screen.getByRole('button', { name: 'Loop section 3 (B)' });
+      expect(section).toHaveAttribute('aria-pressed', 'true');
+      expect(screen.getByRole('button', { name: 'Loop section 1 (A)' })).toHaveAttribute('aria-pressed', 'false');
+
+      fireEvent.click(section);
+
+      expect(onLoopChange).toHaveBeenCalledWith(null);
+    });
+  });
+
+  describe('Export Buttons', () => {
     it('calls onExportMidi when export button is clicked', () => {
       const onExportMidi = vi.fn();
       render(<MathDisplay composition={mockComposition} onExportMidi={onExportMidi} />);
@@ -251,5 +365,30 @@ describe('MathDisplay', () => {
 
       expect(screen.queryByRole('button', { name: /export midi/i })).not.toBeInTheDocument();
     });
+
+    it('exports a project without audio by default', () => {
+      const onExportProject = vi.fn();
+      render(<MathDisplay composition={mockComposition} onExportProject={onExportProject} />);
+
+      fireEvent.click(screen.getByRole('button', { name: /export project/i }));
+      expect(onExportProject).toHaveBeenCalledWith(false);
+    });
+
+    it('exports a project with audio when requested', () => {
+      const onExportProject = vi.fn();
+      render(<MathDisplay composition={mockComposition} onExportProject={onExportProject} />);
+
+      fireEvent.click(screen.getByLabelText('Include audio'));
+      fireEvent.click(screen.getByRole('button', { name: /export project/i }));
+      expect(onExportProject).toHaveBeenCalledWith(true);
+    });
+
+    it('calls onCopyLink when copy link is clicked', () => {
+      const onCopyLink = vi.fn();
+      render(<MathDisplay composition={mockComposition} onCopyLink={onCopyLink} />);
+
+      fireEvent.click(screen.getByRole('button', { name: /copy link/i }));
+      expect(onCopyLink).toHaveBeenCalledTimes(1);
+    });
   });
 });
@@ -1,6 +1,9 @@
-import React, { useMemo } from 'react';
+import React, { useMemo, useState } from 'react';
 import { Tooltip, InfoIcon } from './Tooltip';
-import type { Composition } from '../types/music';
+import { AutomationLanes } from './AutomationLanes';
+import type { Composition, Instrument, SequenceNote } from '../types/music';
+import type { LoopRegion, MixAutomation } from '../audio/types';
+import { noteToMidi } from '../audio/utils/frequencies';
 
 interface MathDisplayProps {
     composition: Composition | null;
@@ -8,17 +11,42 @@ interface MathDisplayProps {
     isPlaying?: boolean;
     currentTime?: number;
     onExportMidi?: () => void;
+    /** Export a .silkroad project, optionally embedding the rendered audio */
+    onExportProject?: (includeAudio: boolean) => void;
+    /** Copy a link that opens this composition */
+    onCopyLink?: () => void;
     sectionDuration?: number;
+    /** Current A–B loop region, highlighted on the form timeline */
+    loop?: LoopRegion | null;
+    /** Loop a form section (or clear the loop with null); sections are only clickable when set */
+    onLoopChange?: (loop: LoopRegion | null) => void;
+    /** Mixer automation drawn under the form timeline */
+    automation?: MixAutomation;
+    /** Tracks that can be automated */
+    automationTracks?: Instrument[];
+    /** Edit the automation; lanes are only shown when set */
+    onAutomationChange?: (automation: MixAutomation) => void;
 }
 
+const NO_AUTOMATION: MixAutomation = {};
+
 export const MathDisplay: React.FC<MathDisplayProps> = ({
     composition,
     tempo = 72,
     isPlaying = false,
     currentTime = 0,
     onExportMidi,
+    onExportProject,
+    onCopyLink,
     sectionDuration = 15,
+    loop = null,
+    onLoopChange,
+    automation = NO_AUTOMATION,
+    automationTracks = [],
+    onAutomationChange,
 }) => {
+    const [includeAudio, setIncludeAudio] = useState(false);
+
     if (!composition) {
         return (
             <div className="bg-white p-6 rounded-lg shadow-lg border-l-4 border-gray-100 min-h-[400px] flex items-center justify-center text-gray-400">
@@ -30,7 +58,7 @@ export const MathDisplay: React.FC<MathDisplayProps> = ({
         );
     }
 
-    const { scale, form, euclideanPatterns } = composition;
+    const { scale, form, euclideanPatterns, sequences } = composition;
 
     // Calculate current beat based on tempo and time
     const beatsPerSecond = tempo / 60;
@@ -38,18 +66,53 @@ export const MathDisplay: React.FC<MathDisplayProps> = ({
 
     return (
         <div className="bg-white p-6 rounded-lg shadow-lg space-y-8">
-            {/* Export Button */}
-            {onExportMidi && (
-                <div className="flex justify-end">
-                    <button
-                        onClick={onExportMidi}
-                        className="flex items-center gap-2 px-4 py-2 text-sm font-medium text-silk-stone border border-silk-stone rounded-lg hover:bg-silk-stone hover:text-white transition-colors"
-                    >
-                        <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" />
-                        </svg>
-                        Export MIDI
-                    </button>
+            {/* Export Buttons */}
+            {(onExportMidi || onExportProject || onCopyLink) && (
+                <div className="flex justify-end items-center gap-3">
+                    {onCopyLink && (
+                        <button
+                            onClick={onCopyLink}
+                            className="flex items-center gap-2 px-4 py-2 text-sm font-medium text-silk-stone border border-silk-stone rounded-lg hover:bg-silk-stone hover:text-white transition-colors"
+                        >
+                            <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13.828 10.172a4 4 0 00-5.656 0l-4 4a4 4 0 105.656 5.656l1.102-1.101m-.758-4.899a4 4 0 005.656 0l4-4a4 4 0 00-5.656-5.656l-1.1 1.1" />
+                            </svg>
+                            Copy link
+                        </button>
+                    )}
+                    {onExportProject && (
+                        <>
+                            <label className="flex items-center gap-1.5 text-sm text-gray-600">
+                                <input
+                                    type="checkbox"
+                                    checked={includeAudio}
+                                    onChange={(e) => setIncludeAudio(e.target.checked)}
+                                    className="rounded border-gray-300 text-silk-stone focus:ring-silk-stone"
+                                />
+                                Include audio
+                            </label>
+                            <button
+                                onClick={() => onExportProject(includeAudio)}
+                                className="flex items-center gap-2 px-4 py-2 text-sm font-medium text-silk-stone border border-silk-stone rounded-lg hover:bg-silk-stone hover:text-white transition-colors"
+                            >
+                                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" />
+                                </svg>
+                                Export Project
+                            </button>
+                        </>
+                    )}
+                    {onExportMidi && (
+                        <button
+                            onClick={onExportMidi}
+                            className="flex items-center gap-2 px-4 py-2 text-sm font-medium text-silk-stone border border-silk-stone rounded-lg hover:bg-silk-stone hover:text-white transition-colors"
+                        >
+                            <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" />
+                            </svg>
+                            Export MIDI
+                        </button>
+                    )}
                 </div>
             )}
 
@@ -70,6 +133,27 @@ export const MathDisplay: React.FC<MathDisplayProps> = ({
                 </div>
             </section>
 
+            {/* Note Sequences (verbatim MIDI import) */}
+            {sequences && Object.keys(sequences).length > 0 && (
+                <section>
+                    <h3 className="text-lg font-bold text-silk-stone mb-4 flex items-center">
+                        <span className="w-2 h-8 bg-silk-stone mr-2 rounded-full"></span>
+                        Note Sequences
+                    </h3>
+                    <div className="space-y-4">
+                        {Object.entries(sequences).map(([instrument, notes]) => (
+                            <NoteSequenceRoll
+                                key={instrument}
+                                instrument={instrument}
+                                notes={notes ?? []}
+                                isPlaying={isPlaying}
+                                currentBeat={currentBeat}
+                            />
+                        ))}
+                    </div>
+                </section>
+            )}
+
             {/* Euclidean Rhythm */}
             <section>
                 <h3 className="text-lg font-bold text-silk-stone mb-4 flex items-center">
@@ -109,7 +193,27 @@ export const MathDisplay: React.FC<MathDisplayProps> = ({
                     <span className="w-2 h-8 bg-gray-400 mr-2 rounded-full"></span>
                     Musical Form
                 </h3>
-                <FormTimeline form={form} currentTime={currentTime} isPlaying={isPlaying} sectionDuration={sectionDuration} />
+                <FormTimeline
+                    form={form}
+                    currentTime={currentTime}
+                    isPlaying={isPlaying}
+                    sectionDuration={sectionDuration}
+                    loop={loop}
+                    onLoopChange={onLoopChange}
+                />
+                {onAutomationChange && automationTracks.length > 0 && (
+                    <div className="mt-6">
+                        <AutomationLanes
+                            form={form}
+                            sectionDuration={sectionDuration}
+                            instruments={automationTracks}
+                            automation={automation}
+                            onChange={onAutomationChange}
+                            currentTime={currentTime}
+                            isPlaying={isPlaying}
+                        />
+                    </div>
+                )}
             </section>
         </div>
     );
@@ -229,6 +333,79 @@ const AnimatedEuclideanCircle = React.memo<AnimatedEuclideanCircleProps>(({
     );
 });
 
+// Piano roll of an explicit note sequence, with a playhead
+interface NoteSequenceRollProps {
+    instrument: string;
+    notes: SequenceNote[];
+    isPlaying: boolean;
+    currentBeat: number;
+}
+
+const NoteSequenceRoll = React.memo<NoteSequenceRollProps>(({ instrument, notes, isPlaying, currentBeat }) => {
+    // Pitch and time extents, with a semitone of padding above and below
+    const { lowest, highest, totalBeats } = useMemo(() => {
+        // A loop rather than spreading into Math.min/max, which overflows the stack on dense imports
+        let lowest = Infinity;
+        let highest = -Infinity;
+        let totalBeats = 1;
+        for (const note of notes) {
+            const pitch = noteToMidi(note.pitch);
+            if (pitch >= 0) {
+                lowest = Math.min(lowest, pitch);
+                highest = Math.max(highest, pitch);
+            }
+            totalBeats = Math.max(totalBeats, note.start + note.duration);
+        }
+        return {
+            lowest: (highest >= 0 ? lowest : 60) - 1,
+            highest: (highest >= 0 ? highest : 60) + 1,
+            totalBeats,
+        };
+    }, [notes]);
+
+    return (
+        <div>
+            <div className="flex justify-between text-xs mb-1">
+                <span className="uppercase font-bold tracking-wider text-gray-500">{instrument}</span>
+                <span className="text-gray-400">{notes.length} notes</span>
+            </div>
+            <svg
+                viewBox={`0 0 ${totalBeats} ${highest - lowest + 1}`}
+                preserveAspectRatio="none"
+                className="w-full h-20 bg-stone-50 rounded"
+                role="img"
+                aria-label={`${instrument} note sequence`}
+            >
+                {notes.map((note, i) => {
+                    const pitch = noteToMidi(note.pitch);
+                    if (pitch < 0) return null;
+                    return (
+                        <rect
+                            key={i}
+                            x={note.start}
+                            y={highest - pitch}
+                            width={note.duration}
+                            height={1}
+                            fill="#d32f2f"
+                            opacity={0.4 + note.velocity * 0.6}
+                        />
+                    );
+                })}
+                {isPlaying && currentBeat <= totalBeats && (
+                    <line
+                        x1={currentBeat}
+                        y1={0}
+                        x2={currentBeat}
+                        y2={highest - lowest + 1}
+                        stroke="#ffbf00"
+                        strokeWidth={0.15}
+                    />
+                )}
+            </svg>
+        </div>
+    );
+});
+
 // Euclidean notation showing the pattern
 const EuclideanNotation = React.memo<{ pattern: number[] }>(({ pattern }) => {
     return (
@@ -251,9 +428,11 @@ interface FormTimelineProps {
     currentTime: number;
     isPlaying: boolean;
     sectionDuration: number;
+    loop: LoopRegion | null;
+    onLoopChange?: (loop: LoopRegion | null) => void;
 }
 
-const FormTimeline = React.memo<FormTimelineProps>(({ form, currentTime, isPlaying, sectionDuration }) => {
+const FormTimeline = React.memo<FormTimelineProps>(({ form, currentTime, isPlaying, sectionDuration, loop, onLoopChange }) => {
     // Each section has equal duration based on SECTION_DURATION constant
     const totalDuration = useMemo(() => form.length * sectionDuration, [form.length, sectionDuration]);
     const currentSection = Math.floor(currentTime / sectionDuration);
@@ -266,26 +445,43 @@ const FormTimeline = React.memo<FormTimelineProps>(({ form, currentTime, isPlayi
                 {form?.map((section: string, i: number) => {
                     const isCurrent = i === currentSection && isPlaying;
                     const isPast = i < currentSection && isPlaying;
+                    const sectionStart = i * sectionDuration;
+                    const sectionEnd = sectionStart + sectionDuration;
+                    const isLooped = loop !== null && loop.start === sectionStart && loop.end === sectionEnd;
+                    const className = `relative px-6 py-3 border-2 rounded-lg font-bold transition-all duration-300 ${
+                        isCurrent
+                            ? 'bg-silk-amber border-silk-amber text-white scale-110 shadow-lg'
+                            : isPast
+                            ? 'bg-silk-amber/30 border-silk-amber/50 text-silk-amber'
+                            : 'bg-silk-amber/10 border-silk-amber text-silk-amber'
+                    } ${isLooped ? 'ring-2 ring-silk-stone ring-offset-2' : ''}`;
+                    const content = (
+                        <>
+                            {section}
+                            {/* Progress bar within current section */}
+                            {isCurrent && (
+                                <div className="absolute bottom-0 left-0 h-1 bg-white/50 rounded-b transition-all duration-100"
+                                    style={{ width: `${sectionProgress}%` }}
+                                />
+                            )}
+                        </>
+                    );
 
                     return (
                         <React.Fragment key={i}>
-                            <div
-                                className={`relative px-6 py-3 border-2 rounded-lg font-bold transition-all duration-300 ${
-                                    isCurrent
-                                        ? 'bg-silk-amber border-silk-amber text-white scale-110 shadow-lg'
-                                        : isPast
-                                        ? 'bg-silk-amber/30 border-silk-amber/50 text-silk-amber'
-                                        : 'bg-silk-amber/10 border-silk-amber text-silk-amber'
-                                }`}
-                            >
-                                {section}
-                                {/* Progress bar within current section */}
-                                {isCurrent && (
-                                    <div className="absolute bottom-0 left-0 h-1 bg-white/50 rounded-b transition-all duration-100"
-                                        style={{ width: `${sectionProgress}%` }}
-                                    />
-                                )}
-                            </div>
+                            {onLoopChange ? (
+                                <button
+                                    onClick={() => onLoopChange(isLooped ? null : { start: sectionStart, end: sectionEnd })}
+                                    className={`${className} hover:shadow-md`}
+                                    aria-pressed={isLooped}
+                                    aria-label={`Loop section ${i + 1} (${section})`}
+                                    title={isLooped ? 'Stop looping this section' : 'Loop this section'}
+                                >
+                                    {content}
+                                </button>
+                            ) : (
+                                <div className={className}>{content}</div>
+                            )}
                             {i < form.length - 1 && (
                                 <div className={`text-lg ${isPast ? 'text-silk-amber' : 'text-gray-300'}`}>
                                     →
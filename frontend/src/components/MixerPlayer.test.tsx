@@ -1,15 +1,22 @@
 import React, { createRef } from 'react';
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
-import { render, screen, fireEvent } from '@testing-library/react';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
 import { MixerPlayer } from './MixerPlayer';
 import type { MixerPlayerRef } from './MixerPlayer';
 import type { InstrumentAudioResult, Instrument } from '../types/music';
+import type { LiveSession } from '../audio';
+import { mockComposition, mockParams } from '../test/utils';
 import { AudioError } from '../types/errors';
+import { DEFAULT_TRACK_EFFECTS } from '../audio/effects';
+import type { MixAutomation, MixEffects, TrackEffects } from '../audio/types';
 
 // Mock track state
 interface MockTrackState {
     volume: number;
+    pan?: number;
     muted: boolean;
+    soloed?: boolean;
+    effects?: TrackEffects;
 }
 
 // Create a mock for useAudioMixer hook
@@ -21,12 +28,20 @@ const createMockMixer = (overrides?: Record<string, unknown>) => ({
     tracks: new Map<Instrument, MockTrackState>(),
     failedTracks: new Map<Instrument, AudioError>(),
     hasPartialFailure: false,
+    loop: null,
+    playbackRate: 1,
     play: vi.fn(),
     pause: vi.fn(),
     togglePlay: vi.fn(),
     seek: vi.fn(),
     setTrackVolume: vi.fn(),
+    setTrackPan: vi.fn(),
+    setTrackEffects: vi.fn(),
     toggleMute: vi.fn(),
+    toggleSolo: vi.fn(),
+    setLoop: vi.fn(),
+    setPlaybackRate: vi.fn(),
+    getMeter: vi.fn(() => null),
     ...overrides,
 });
 
@@ -36,6 +51,12 @@ vi.mock('../hooks/useAudioMixer', () => ({
     useAudioMixer: vi.fn(() => mockMixer),
 }));
 
+let mockLiveMixer = createMockMixer();
+
+vi.mock('../hooks/useLivePlayback', () => ({
+    useLivePlayback: vi.fn(() => mockLiveMixer),
+}));
+
 // Helper to create mock audio results
 const createMockAudioResult = (instrument: Instrument): InstrumentAudioResult => ({
     instrument,
@@ -48,6 +69,7 @@ describe('MixerPlayer', () => {
     beforeEach(() => {
         vi.clearAllMocks();
         mockMixer = createMockMixer();
+        mockLiveMixer = createMockMixer();
     });
 
     afterEach(() => {
@@ -68,7 +90,7 @@ describe('MixerPlayer', () => {
                 <MixerPlayer audioResults={[createMockAudioResult('erhu')]} />
             );
 
-            expect(screen.getByRole('slider')).toBeInTheDocument();
+            expect(screen.getByRole('slider', { name: 'Playback position' })).toBeInTheDocument();
         });
 
         it('renders play button when not playing', () => {
@@ -118,7 +140,7 @@ describe('MixerPlayer', () => {
                 <MixerPlayer audioResults={[createMockAudioResult('erhu')]} />
             );
 
-            const slider = screen.getByRole('slider');
+            const slider = screen.getByRole('slider', { name: 'Playback position' });
             expect(slider).toHaveAttribute('aria-valuenow', '50');
         });
     });
@@ -216,7 +238,7 @@ describe('MixerPlayer', () => {
                 <MixerPlayer audioResults={[createMockAudioResult('erhu')]} />
             );
 
-            const progressBar = screen.getByRole('slider');
+            const progressBar = screen.getByRole('slider', { name: 'Playback position' });
 
             // Mock getBoundingClientRect
             vi.spyOn(progressBar, 'getBoundingClientRect').mockReturnValue({
@@ -243,7 +265,7 @@ describe('MixerPlayer', () => {
                 <MixerPlayer audioResults={[createMockAudioResult('erhu')]} />
             );
 
-            const progressBar = screen.getByRole('slider');
+            const progressBar = screen.getByRole('slider', { name: 'Playback position' });
 
             vi.spyOn(progressBar, 'getBoundingClientRect').mockReturnValue({
                 left: 100,
@@ -271,7 +293,7 @@ describe('MixerPlayer', () => {
                 <MixerPlayer audioResults={[createMockAudioResult('erhu')]} />
             );
 
-            const progressBar = screen.getByRole('slider');
+            const progressBar = screen.getByRole('slider', { name: 'Playback position' });
             fireEvent.click(progressBar, { clientX: 50 });
 
             expect(mockMixer.seek).not.toHaveBeenCalled();
@@ -284,7 +306,7 @@ describe('MixerPlayer', () => {
                 <MixerPlayer audioResults={[createMockAudioResult('erhu')]} />
             );
 
-            const slider = screen.getByRole('slider');
+            const slider = screen.getByRole('slider', { name: 'Playback position' });
             expect(slider).toHaveAttribute('aria-valuenow', '25');
         });
 
@@ -293,7 +315,7 @@ describe('MixerPlayer', () => {
                 <MixerPlayer audioResults={[createMockAudioResult('erhu')]} />
             );
 
-            expect(screen.getByRole('slider')).toBeInTheDocument();
+            expect(screen.getByRole('slider', { name: 'Playback position' })).toBeInTheDocument();
         });
     });
 
@@ -307,9 +329,10 @@ describe('MixerPlayer', () => {
                 <MixerPlayer audioResults={[createMockAudioResult('erhu')]} />
             );
 
-            // Should not find volume sliders for tracks (only progress bar slider exists)
-            const sliders = screen.getAllByRole('slider');
-            expect(sliders).toHaveLength(1); // Only progress bar
+            // Should not find volume sliders for tracks (only the progress bar and speed)
+            expect(screen.queryByLabelText('erhu volume')).not.toBeInTheDocument();
+            expect(screen.queryByLabelText('Solo erhu')).not.toBeInTheDocument();
+            expect(screen.getAllByRole('slider')).toHaveLength(2);
         });
 
         it('shows mixer controls when > 1 track', () => {
@@ -470,6 +493,68 @@ describe('MixerPlayer', () => {
         });
     });
 
+    describe('Pan Control', () => {
+        it('calls setTrackPan on knob change', () => {
+            const tracks = new Map<Instrument, MockTrackState>();
+            tracks.set('erhu', { volume: 1, pan: -0.3, muted: false });
+            tracks.set('guzheng', { volume: 1, pan: 0.3, muted: false });
+            mockMixer = createMockMixer({ tracks });
+
+            render(
+                <MixerPlayer
+                    audioResults={[
+                        createMockAudioResult('erhu'),
+                        createMockAudioResult('guzheng'),
+                    ]}
+                />
+            );
+
+            const panKnob = screen.getByLabelText('guzheng pan');
+            fireEvent.change(panKnob, { target: { value: '-0.5' } });
+
+            expect(mockMixer.setTrackPan).toHaveBeenCalledWith('guzheng', -0.5);
+        });
+
+        it('recenters on double-click', () => {
+            const tracks = new Map<Instrument, MockTrackState>();
+            tracks.set('erhu', { volume: 1, pan: -0.3, muted: false });
+            tracks.set('guzheng', { volume: 1, pan: 0.3, muted: false });
+            mockMixer = createMockMixer({ tracks });
+
+            render(
+                <MixerPlayer
+                    audioResults={[
+                        createMockAudioResult('erhu'),
+                        createMockAudioResult('guzheng'),
+                    ]}
+                />
+            );
+
+            fireEvent.doubleClick(screen.getByLabelText('erhu pan'));
+
+            expect(mockMixer.setTrackPan).toHaveBeenCalledWith('erhu', 0);
+        });
+
+        it('describes the stereo position for screen readers', () => {
+            const tracks = new Map<Instrument, MockTrackState>();
+            tracks.set('erhu', { volume: 1, pan: -0.3, muted: false });
+            tracks.set('guzheng', { volume: 1, pan: 0, muted: false });
+            mockMixer = createMockMixer({ tracks });
+
+            render(
+                <MixerPlayer
+                    audioResults={[
+                        createMockAudioResult('erhu'),
+                        createMockAudioResult('guzheng'),
+                    ]}
+                />
+            );
+
+            expect(screen.getByLabelText('erhu pan')).toHaveAttribute('aria-valuetext', '30% left');
+            expect(screen.getByLabelText('guzheng pan')).toHaveAttribute('aria-valuetext', 'Center');
+        });
+    });
+
     describe('Mute Control', () => {
         it('calls toggleMute on mute button click', () => {
             const tracks = new Map<Instrument, MockTrackState>();
@@ -570,6 +655,212 @@ describe('MixerPlayer', () => {
         });
     });
 
+    describe('Solo Control', () => {
+        it('calls toggleSolo on solo button click', () => {
+            const tracks = new Map<Instrument, MockTrackState>();
+            tracks.set('erhu', { volume: 1, muted: false });
+            tracks.set('guzheng', { volume: 1, muted: false });
+            mockMixer = createMockMixer({ tracks });
+
+            render(
+                <MixerPlayer
+                    audioResults={[
+                        createMockAudioResult('erhu'),
+                        createMockAudioResult('guzheng'),
+                    ]}
+                />
+            );
+
+            fireEvent.click(screen.getByLabelText('Solo erhu'));
+
+            expect(mockMixer.toggleSolo).toHaveBeenCalledWith('erhu');
+        });
+
+        it('marks soloed tracks as pressed', () => {
+            const tracks = new Map<Instrument, MockTrackState>();
+            tracks.set('erhu', { volume: 1, muted: false, soloed: true });
+            tracks.set('guzheng', { volume: 1, muted: false, soloed: false });
+            mockMixer = createMockMixer({ tracks });
+
+            render(
+                <MixerPlayer
+                    audioResults={[
+                        createMockAudioResult('erhu'),
+                        createMockAudioResult('guzheng'),
+                    ]}
+                />
+            );
+
+            expect(screen.getByLabelText('Unsolo erhu')).toHaveAttribute('aria-pressed', 'true');
+            expect(screen.getByLabelText('Solo guzheng')).toHaveAttribute('aria-pressed', 'false');
+        });
+
+        it('reports tracks silenced by a solo as muted in the mix', () => {
+            const ref = createRef<MixerPlayerRef>();
+            const tracks = new Map<Instrument, MockTrackState>();
+            tracks.set('erhu', { volume: 1, muted: false, soloed: true });
+            tracks.set('guzheng', { volume: 1, muted: false });
+            mockMixer = createMockMixer({ tracks });
+
+            render(
+                <MixerPlayer
+                    ref={ref}
+                    audioResults={[
+                        createMockAudioResult('erhu'),
+                        createMockAudioResult('guzheng'),
+                    ]}
+                />
+            );
+
+            const mix = ref.current?.getMix();
+            expect(mix?.erhu?.muted).toBe(false);
+            expect(mix?.guzheng?.muted).toBe(true);
+        });
+    });
+
+    describe('Track Effects', () => {
+        const renderTwoTracks = (erhu: MockTrackState, onEffectsChange?: (effects: MixEffects) => void) => {
+            const tracks = new Map<Instrument, MockTrackState>();
+            tracks.set('erhu', erhu);
+            tracks.set('guzheng', { volume: 1, muted: false, effects: DEFAULT_TRACK_EFFECTS });
+            mockMixer = createMockMixer({ tracks });
+
+            const ref = createRef<MixerPlayerRef>();
+            render(
+                <MixerPlayer
+                    ref={ref}
+                    audioResults={[
+                        createMockAudioResult('erhu'),
+                        createMockAudioResult('guzheng'),
+                    ]}
+                    onEffectsChange={onEffectsChange}
+                />
+            );
+            return ref;
+        };
+
+        it('opens and closes a track\'s effects panel', () => {
+            renderTwoTracks({ volume: 1, muted: false, effects: DEFAULT_TRACK_EFFECTS });
+
+            expect(screen.queryByRole('group', { name: 'erhu effects' })).not.toBeInTheDocument();
+
+            fireEvent.click(screen.getByLabelText('Show erhu effects'));
+            expect(screen.getByRole('group', { name: 'erhu effects' })).toBeInTheDocument();
+            expect(screen.getByLabelText('Hide erhu effects')).toHaveAttribute('aria-expanded', 'true');
+
+            fireEvent.click(screen.getByLabelText('Hide erhu effects'));
+            expect(screen.queryByRole('group', { name: 'erhu effects' })).not.toBeInTheDocument();
+        });
+
+        it('calls setTrackEffects from the panel', () => {
+            renderTwoTracks({ volume: 1, muted: false, effects: DEFAULT_TRACK_EFFECTS });
+
+            fireEvent.click(screen.getByLabelText('Show erhu effects'));
+            fireEvent.click(screen.getByLabelText('erhu delay'));
+
+            expect(mockMixer.setTrackEffects).toHaveBeenCalledWith('erhu', {
+                ...DEFAULT_TRACK_EFFECTS,
+                delay: { ...DEFAULT_TRACK_EFFECTS.delay, enabled: true },
+            });
+        });
+
+        it('reports the effects of every track after a change', () => {
+            const onEffectsChange = vi.fn();
+            const guzhengEffects = { ...DEFAULT_TRACK_EFFECTS, eq: { low: -3, mid: 0, high: 0 } };
+            renderTwoTracks({ volume: 1, muted: false, effects: DEFAULT_TRACK_EFFECTS }, onEffectsChange);
+            mockMixer.tracks.set('guzheng', { volume: 1, muted: false, effects: guzhengEffects });
+
+            fireEvent.click(screen.getByLabelText('Show erhu effects'));
+            fireEvent.click(screen.getByLabelText('erhu delay'));
+
+            expect(onEffectsChange).toHaveBeenCalledWith({
+                erhu: { ...DEFAULT_TRACK_EFFECTS, delay: { ...DEFAULT_TRACK_EFFECTS.delay, enabled: true } },
+                guzheng: guzhengEffects,
+            });
+        });
+
+        it('includes the effects in the mix snapshot', () => {
+            const effects = { ...DEFAULT_TRACK_EFFECTS, eq: { low: -3, mid: -2, high: 1 } };
+            const ref = renderTwoTracks({ volume: 1, muted: false, effects });
+
+            expect(ref.current?.getMix()?.erhu?.effects).toEqual(effects);
+        });
+    });
+
+    describe('Automation', () => {
+        it('includes each track\'s lanes in the mix snapshot', () => {
+            const tracks = new Map<Instrument, MockTrackState>();
+            tracks.set('erhu', { volume: 1, muted: false });
+            tracks.set('dizi', { volume: 0.8, muted: false });
+            mockMixer = createMockMixer({ tracks });
+            const automation: MixAutomation = { dizi: { volume: [{ time: 30, value: 1.4 }] } };
+
+            const ref = createRef<MixerPlayerRef>();
+            render(
+                <MixerPlayer
+                    ref={ref}
+                    audioResults={[createMockAudioResult('erhu'), createMockAudioResult('dizi')]}
+                    automation={automation}
+                />
+            );
+
+            const mix = ref.current?.getMix();
+            expect(mix?.dizi?.automation).toBe(automation.dizi);
+            expect(mix?.erhu).not.toHaveProperty('automation');
+        });
+    });
+
+    describe('Loop Region', () => {
+        it('shows the loop region and clears it', () => {
+            mockMixer = createMockMixer({ loop: { start: 15, end: 30 } });
+
+            render(<MixerPlayer audioResults={[createMockAudioResult('erhu')]} />);
+
+            expect(screen.getByTestId('loop-region')).toHaveStyle({ left: '25%', width: '25%' });
+            expect(screen.getByText(/0:15–0:30/)).toBeInTheDocument();
+
+            fireEvent.click(screen.getByLabelText('Clear loop'));
+
+            expect(mockMixer.setLoop).toHaveBeenCalledWith(null);
+        });
+
+        it('hides the loop region when there is no loop', () => {
+            render(<MixerPlayer audioResults={[createMockAudioResult('erhu')]} />);
+
+            expect(screen.queryByTestId('loop-region')).not.toBeInTheDocument();
+            expect(screen.queryByLabelText('Clear loop')).not.toBeInTheDocument();
+        });
+    });
+
+    describe('Playback Speed', () => {
+        it('shows the speed and calls setPlaybackRate on change', () => {
+            mockMixer = createMockMixer({ playbackRate: 0.75 });
+
+            render(<MixerPlayer audioResults={[createMockAudioResult('erhu')]} />);
+
+            const slider = screen.getByLabelText('Playback speed');
+            expect(slider).toHaveAttribute('aria-valuetext', '75%');
+
+            fireEvent.change(slider, { target: { value: '0.6' } });
+
+            expect(mockMixer.setPlaybackRate).toHaveBeenCalledWith(0.6);
+        });
+    });
+
+    describe('Master Meters', () => {
+        it('meters the master bus while playing', () => {
+            vi.spyOn(window, 'requestAnimationFrame').mockReturnValue(1);
+            const getMeter = vi.fn(() => ({ left: { peak: -6, rms: -12 }, right: { peak: -8, rms: -14 } }));
+            mockMixer = createMockMixer({ isPlaying: true, getMeter });
+
+            render(<MixerPlayer audioResults={[createMockAudioResult('erhu')]} />);
+
+            expect(getMeter).toHaveBeenCalled();
+            expect(screen.getByLabelText('Master left level')).toHaveAttribute('aria-valuetext', 'Peak -6.0 dB, RMS -12.0 dB');
+            expect(screen.getByLabelText('Master right level')).toHaveAttribute('aria-valuenow', '-8');
+        });
+    });
+
     describe('ForwardRef / PlaybackControls', () => {
         it('exposes controls via ref', () => {
             const ref = createRef<MixerPlayerRef>();
@@ -615,6 +906,37 @@ describe('MixerPlayer', () => {
             expect(mockMixer.seek).toHaveBeenCalledWith(30);
         });
 
+        it('exposes the practice controls', () => {
+            const ref = createRef<MixerPlayerRef>();
+            const tracks = new Map<Instrument, MockTrackState>();
+            tracks.set('erhu', { volume: 1, muted: false });
+            tracks.set('guzheng', { volume: 1, muted: false });
+            mockMixer = createMockMixer({ tracks, loop: { start: 4, end: 8 }, playbackRate: 0.8 });
+
+            render(
+                <MixerPlayer
+                    ref={ref}
+                    audioResults={[
+                        createMockAudioResult('erhu'),
+                        createMockAudioResult('guzheng'),
+                    ]}
+                />
+            );
+
+            const controls = ref.current!.controls;
+            expect(controls.getTracks?.()).toEqual(['erhu', 'guzheng']);
+            expect(controls.getLoop?.()).toEqual({ start: 4, end: 8 });
+            expect(controls.getPlaybackRate?.()).toBe(0.8);
+
+            controls.toggleSolo?.('guzheng');
+            controls.setLoop?.(null);
+            controls.setPlaybackRate?.(1);
+
+            expect(mockMixer.toggleSolo).toHaveBeenCalledWith('guzheng');
+            expect(mockMixer.setLoop).toHaveBeenCalledWith(null);
+            expect(mockMixer.setPlaybackRate).toHaveBeenCalledWith(1);
+        });
+
         it('ref.controls.getCurrentTime returns currentTime', () => {
             const ref = createRef<MixerPlayerRef>();
             mockMixer = createMockMixer({ currentTime: 45 });
@@ -678,6 +1000,7 @@ describe('MixerPlayer', () => {
                 isPlaying: false,
                 currentTime: 10,
                 duration: 60,
+                loop: null,
             });
         });
 
@@ -803,4 +1126,100 @@ describe('MixerPlayer', () => {
             expect(screen.queryByText(/Ensemble/)).not.toBeInTheDocument();
         });
     });
+
+    describe('Mix Download', () => {
+        const renderEnsemble = (onDownloadMix?: (mix: unknown) => Promise<void>) => {
+            const tracks = new Map<Instrument, MockTrackState>();
+            tracks.set('erhu', { volume: 0.5, pan: -0.3, muted: false });
+            tracks.set('guzheng', { volume: 1, pan: 0.4, muted: true });
+            mockMixer = createMockMixer({ tracks });
+
+            render(
+                <MixerPlayer
+                    audioResults={[
+                        { ...createMockAudioResult('erhu'), seed: 111 },
+                        { ...createMockAudioResult('guzheng'), seed: 222 },
+                    ]}
+                    onDownloadMix={onDownloadMix}
+                />
+            );
+        };
+
+        it('hides the download button without a handler', () => {
+            renderEnsemble();
+
+            expect(screen.queryByRole('button', { name: 'Download mix' })).not.toBeInTheDocument();
+        });
+
+        it('passes the current mixer state to the handler', async () => {
+            const onDownloadMix = vi.fn().mockResolvedValue(undefined);
+            renderEnsemble(onDownloadMix);
+
+            fireEvent.click(screen.getByRole('button', { name: 'Download mix' }));
+
+            await waitFor(() => expect(onDownloadMix).toHaveBeenCalledTimes(1));
+            expect(onDownloadMix).toHaveBeenCalledWith({
+                tracks: {
+                    erhu: { volume: 0.5, muted: false, pan: -0.3, seed: 111 },
+                    guzheng: { volume: 1, muted: true, pan: 0.4, seed: 222 },
+                },
+            });
+        });
+
+        it('normalizes the mix to the chosen loudness', async () => {
+            const onDownloadMix = vi.fn().mockResolvedValue(undefined);
+            renderEnsemble(onDownloadMix);
+
+            fireEvent.change(screen.getByLabelText('Mix loudness'), { target: { value: '-14' } });
+            fireEvent.click(screen.getByRole('button', { name: 'Download mix' }));
+
+            await waitFor(() => expect(onDownloadMix).toHaveBeenCalledTimes(1));
+            expect(onDownloadMix).toHaveBeenCalledWith(expect.objectContaining({ loudnessTarget: -14 }));
+        });
+
+        it('disables the button while the mix renders', async () => {
+            let finish: () => void = () => {};
+            const onDownloadMix = vi.fn(() => new Promise<void>((resolve) => { finish = resolve; }));
+            renderEnsemble(onDownloadMix);
+
+            fireEvent.click(screen.getByRole('button', { name: 'Download mix' }));
+
+            const busy = await screen.findByRole('button', { name: 'Rendering...' });
+            expect(busy).toBeDisabled();
+
+            finish();
+            await waitFor(() => {
+                expect(screen.getByRole('button', { name: 'Download mix' })).not.toBeDisabled();
+            });
+        });
+    });
+
+    describe('Live Session', () => {
+        const session: LiveSession = {
+            composition: mockComposition,
+            params: mockParams,
+            seeds: { erhu: 1, guzheng: 2 },
+        };
+
+        it('plays the session through live playback', () => {
+            render(<MixerPlayer session={session} />);
+
+            fireEvent.click(screen.getByRole('button', { name: 'Play' }));
+
+            expect(mockLiveMixer.togglePlay).toHaveBeenCalledTimes(1);
+            expect(mockMixer.togglePlay).not.toHaveBeenCalled();
+            expect(screen.getByText('Ensemble (2 tracks)')).toBeInTheDocument();
+        });
+
+        it('snapshots the mix with the session seeds', () => {
+            const ref = createRef<MixerPlayerRef>();
+            mockLiveMixer = createMockMixer({
+                tracks: new Map<Instrument, MockTrackState>([['erhu', { volume: 0.5, pan: 0, muted: false }]]),
+            });
+
+            render(<MixerPlayer ref={ref} session={session} />);
+
+            expect(ref.current?.getMix()).toEqual({ erhu: { volume: 0.5, pan: 0, muted: false, seed: 1 } });
+        });
+    });
 });
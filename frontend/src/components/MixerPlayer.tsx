@@ -1,23 +1,51 @@
-import React, { useEffect, useImperativeHandle, forwardRef } from 'react';
+import React, { useState, useEffect, useCallback, useImperativeHandle, useRef, forwardRef } from 'react';
 import { useAudioMixer } from '../hooks/useAudioMixer';
+import { useLivePlayback } from '../hooks/useLivePlayback';
 import type { InstrumentAudioResult, Instrument } from '../types/music';
 import type { PlaybackControls } from '../hooks/useKeyboardShortcuts';
+import type { LoopRegion, MixAutomation, MixEffects, MixSettings, TrackEffects } from '../audio/types';
+import type { LiveSession } from '../audio/livePlayback';
+import { isTrackAudible } from '../audio/utils/transport';
+import { LOUDNESS_TARGETS } from '../audio/utils/loudness';
+import { getMixEffects } from '../audio/effects';
+import { PLAYBACK } from '../config/constants';
+import { TrackEffectsPanel } from './TrackEffectsPanel';
+import { MasterMeter } from './MasterMeter';
 
 interface PlaybackState {
     isPlaying: boolean;
     currentTime: number;
     duration: number;
+    loop: LoopRegion | null;
 }
 
 interface MixerPlayerProps {
-    audioResults: InstrumentAudioResult[];
+    /** Rendered stems to play; ignored when `session` is set */
+    audioResults?: InstrumentAudioResult[];
+    /** Composition to play live, without rendered stems */
+    session?: LiveSession | null;
     onPlaybackChange?: (state: PlaybackState) => void;
+    /** Render and download the mixdown using the current mixer state */
+    onDownloadMix?: (mix: MixSettings) => Promise<void>;
+    /** Mixer state to apply when the tracks load (e.g. from a project file) */
+    initialMix?: MixSettings['tracks'];
+    /** Tempo of the rendered stems in BPM, for tempo-synced delays (live sessions use their own) */
+    tempo?: number;
+    /** Automation lanes of each track, played back and included in mixdowns */
+    automation?: MixAutomation;
+    /** Called with the effects of every track after a track's effects change */
+    onEffectsChange?: (effects: MixEffects) => void;
 }
 
 export interface MixerPlayerRef {
     controls: PlaybackControls;
+    /** Snapshot of the current volume, mute, pan, effects and automation of each track; tracks silenced by a solo count as muted */
+    getMix: () => MixSettings['tracks'];
 }
 
+/** Stable empty stem list, so the stem mixer isn't reloaded on every render */
+const NO_STEMS: InstrumentAudioResult[] = [];
+
 const INSTRUMENT_ICONS: Record<Instrument, string> = {
     erhu: '🎻',
     guzheng: '🎸',
@@ -26,19 +54,63 @@ const INSTRUMENT_ICONS: Record<Instrument, string> = {
 };
 
 export const MixerPlayer = forwardRef<MixerPlayerRef, MixerPlayerProps>(
-    ({ audioResults, onPlaybackChange }, ref) => {
-    const mixer = useAudioMixer(audioResults);
+    ({ audioResults = NO_STEMS, session = null, onPlaybackChange, onDownloadMix, initialMix, tempo, automation, onEffectsChange }, ref) => {
+    // Live sessions are scheduled as they play; otherwise rendered stems are mixed
+    const stemMixer = useAudioMixer(session ? NO_STEMS : audioResults, initialMix, tempo, automation);
+    const liveMixer = useLivePlayback(session, initialMix, automation);
+    const mixer = session ? liveMixer : stemMixer;
+    const trackCount = session ? session.params.instruments.length : audioResults.length;
+    const [isExportingMix, setIsExportingMix] = useState(false);
+    // Track whose effects panel is open
+    const [effectsTrack, setEffectsTrack] = useState<Instrument | null>(null);
+    // Loudness to normalize mixdowns to, in LUFS; null leaves the level as mixed
+    const [loudnessTarget, setLoudnessTarget] = useState<number | null>(null);
+    // Keyboard shortcuts may hold on to the controls across renders, so their getters read the latest mixer
+    const latestMixer = useRef(mixer);
+    latestMixer.current = mixer;
+    const soloActive = Array.from(mixer.tracks.values()).some((track) => track.soloed);
+
+    // Snapshot the mixer so mixdowns and projects match what is being heard
+    const getMix = useCallback((): MixSettings['tracks'] => {
+        const tracks: MixSettings['tracks'] = {};
+        mixer.tracks.forEach((track, instrument) => {
+            tracks[instrument] = {
+                volume: track.volume,
+                muted: !isTrackAudible(track, soloActive),
+                pan: track.pan,
+                effects: track.effects,
+                seed: session
+                    ? session.seeds[instrument]
+                    : audioResults.find((result) => result.instrument === instrument)?.seed,
+                ...(automation?.[instrument] && { automation: automation[instrument] }),
+            };
+        });
+        return tracks;
+    }, [mixer.tracks, soloActive, session, audioResults, automation]);
+
+    const handleEffectsChange = (instrument: Instrument, effects: TrackEffects) => {
+        mixer.setTrackEffects(instrument, effects);
+        const tracks = getMix() ?? {};
+        onEffectsChange?.(getMixEffects({ ...tracks, [instrument]: { volume: 1, muted: false, ...tracks[instrument], effects } }));
+    };
 
     // Expose controls for keyboard shortcuts
     useImperativeHandle(ref, () => ({
         controls: {
             togglePlay: mixer.togglePlay,
             seek: mixer.seek,
-            getCurrentTime: () => mixer.currentTime,
-            getDuration: () => mixer.duration,
+            getCurrentTime: () => latestMixer.current.currentTime,
+            getDuration: () => latestMixer.current.duration,
             isReady: mixer.isReady,
+            getTracks: () => Array.from(latestMixer.current.tracks.keys()),
+            toggleSolo: (instrument) => latestMixer.current.toggleSolo(instrument),
+            getLoop: () => latestMixer.current.loop,
+            setLoop: (loop) => latestMixer.current.setLoop(loop),
+            getPlaybackRate: () => latestMixer.current.playbackRate,
+            setPlaybackRate: (rate) => latestMixer.current.setPlaybackRate(rate),
         },
-    }), [mixer.togglePlay, mixer.seek, mixer.currentTime, mixer.duration, mixer.isReady]);
+        getMix,
+    }), [mixer.togglePlay, mixer.seek, mixer.isReady, getMix]);
 
     // Notify parent of playback state changes
     useEffect(() => {
@@ -46,8 +118,9 @@ export const MixerPlayer = forwardRef<MixerPlayerRef, MixerPlayerProps>(
             isPlaying: mixer.isPlaying,
             currentTime: mixer.currentTime,
             duration: mixer.duration,
+            loop: mixer.loop,
         });
-    }, [mixer.isPlaying, mixer.currentTime, mixer.duration, onPlaybackChange]);
+    }, [mixer.isPlaying, mixer.currentTime, mixer.duration, mixer.loop, onPlaybackChange]);
 
     const formatTime = (seconds: number): string => {
         const mins = Math.floor(seconds / 60);
@@ -55,6 +128,12 @@ export const MixerPlayer = forwardRef<MixerPlayerRef, MixerPlayerProps>(
         return `${mins}:${secs.toString().padStart(2, '0')}`;
     };
 
+    const formatPan = (pan: number): string => {
+        const amount = Math.round(Math.abs(pan) * 100);
+        if (amount === 0) return 'Center';
+        return `${amount}% ${pan < 0 ? 'left' : 'right'}`;
+    };
+
     const handleProgressClick = (e: React.MouseEvent<HTMLDivElement>) => {
         if (mixer.duration <= 0) return;
         const rect = e.currentTarget.getBoundingClientRect();
@@ -63,15 +142,29 @@ export const MixerPlayer = forwardRef<MixerPlayerRef, MixerPlayerProps>(
         mixer.seek(percentage * mixer.duration);
     };
 
-    const progress = mixer.duration > 0 ? (mixer.currentTime / mixer.duration) * 100 : 0;
+    const handleDownloadMix = async () => {
+        if (!onDownloadMix || isExportingMix) return;
+
+        setIsExportingMix(true);
+        try {
+            await onDownloadMix(loudnessTarget === null
+                ? { tracks: getMix() }
+                : { tracks: getMix(), loudnessTarget });
+        } finally {
+            setIsExportingMix(false);
+        }
+    };
 
-    if (audioResults.length === 0) return null;
+    const toPercent = (time: number): number => (mixer.duration > 0 ? (time / mixer.duration) * 100 : 0);
+    const progress = toPercent(mixer.currentTime);
+
+    if (trackCount === 0) return null;
 
     return (
         <div className="fixed bottom-0 left-0 right-0 bg-white border-t border-gray-200 shadow-[0_-4px_6px_-1px_rgba(0,0,0,0.1)]">
             <div className="max-w-4xl mx-auto p-4">
                 {/* Track Mixer Controls */}
-                {audioResults.length > 1 && (
+                {trackCount > 1 && (
                     <div
                         className="flex gap-3 mb-4 justify-center flex-wrap"
                         role="region"
@@ -81,9 +174,9 @@ export const MixerPlayer = forwardRef<MixerPlayerRef, MixerPlayerProps>(
                             <div
                                 key={instrument}
                                 className={`flex items-center gap-2 px-3 py-2 rounded-lg transition-all ${
-                                    track.muted
-                                        ? 'bg-gray-100 text-gray-400'
-                                        : 'bg-silk-amber/10 text-silk-stone'
+                                    isTrackAudible(track, soloActive)
+                                        ? 'bg-silk-amber/10 text-silk-stone'
+                                        : 'bg-gray-100 text-gray-400'
                                 }`}
                             >
                                 <span className="text-lg">{INSTRUMENT_ICONS[instrument]}</span>
@@ -103,6 +196,22 @@ export const MixerPlayer = forwardRef<MixerPlayerRef, MixerPlayerProps>(
                                     aria-valuetext={`${Math.round(track.volume * 100)}%`}
                                 />
 
+                                {/* Pan knob */}
+                                <input
+                                    type="range"
+                                    min="-1"
+                                    max="1"
+                                    step="0.1"
+                                    value={track.pan}
+                                    onChange={(e) => mixer.setTrackPan(instrument, parseFloat(e.target.value))}
+                                    onDoubleClick={() => mixer.setTrackPan(instrument, 0)}
+                                    className="w-12 h-1 accent-silk-stone"
+                                    disabled={track.muted}
+                                    title="Pan (double-click to center)"
+                                    aria-label={`${instrument} pan`}
+                                    aria-valuetext={formatPan(track.pan)}
+                                />
+
                                 {/* Mute button */}
                                 <button
                                     onClick={() => mixer.toggleMute(instrument)}
@@ -116,11 +225,51 @@ export const MixerPlayer = forwardRef<MixerPlayerRef, MixerPlayerProps>(
                                 >
                                     {track.muted ? '🔇' : '🔊'}
                                 </button>
+
+                                {/* Solo button */}
+                                <button
+                                    onClick={() => mixer.toggleSolo(instrument)}
+                                    className={`w-6 h-6 rounded flex items-center justify-center text-xs font-bold transition-colors ${
+                                        track.soloed
+                                            ? 'bg-silk-amber text-white'
+                                            : 'bg-gray-200 text-gray-600 hover:bg-gray-300'
+                                    }`}
+                                    aria-pressed={track.soloed}
+                                    aria-label={`${track.soloed ? 'Unsolo' : 'Solo'} ${instrument}`}
+                                >
+                                    S
+                                </button>
+
+                                {/* Effects toggle */}
+                                <button
+                                    onClick={() => setEffectsTrack(effectsTrack === instrument ? null : instrument)}
+                                    className={`px-1.5 h-6 rounded flex items-center justify-center text-xs font-bold transition-colors ${
+                                        effectsTrack === instrument
+                                            ? 'bg-silk-stone text-white'
+                                            : 'bg-gray-200 text-gray-600 hover:bg-gray-300'
+                                    }`}
+                                    aria-expanded={effectsTrack === instrument}
+                                    aria-label={`${effectsTrack === instrument ? 'Hide' : 'Show'} ${instrument} effects`}
+                                    title="EQ, compressor and delay"
+                                >
+                                    FX
+                                </button>
                             </div>
                         ))}
                     </div>
                 )}
 
+                {/* Track Effects */}
+                {trackCount > 1 && effectsTrack && mixer.tracks.get(effectsTrack) && (
+                    <div className="mb-4 flex justify-center">
+                        <TrackEffectsPanel
+                            instrument={effectsTrack}
+                            effects={mixer.tracks.get(effectsTrack)!.effects}
+                            onChange={(effects) => handleEffectsChange(effectsTrack, effects)}
+                        />
+                    </div>
+                )}
+
                 {/* Main Controls */}
                 <div className="flex items-center gap-4">
                     {/* Play/Pause Button */}
@@ -144,7 +293,7 @@ export const MixerPlayer = forwardRef<MixerPlayerRef, MixerPlayerProps>(
 
                     {/* Progress Bar */}
                     <div
-                        className="flex-1 h-2 bg-gray-200 rounded-full overflow-hidden cursor-pointer"
+                        className="relative flex-1 h-2 bg-gray-200 rounded-full overflow-hidden cursor-pointer"
                         onClick={handleProgressClick}
                         role="slider"
                         tabIndex={0}
@@ -154,6 +303,16 @@ export const MixerPlayer = forwardRef<MixerPlayerRef, MixerPlayerProps>(
                         aria-valuenow={Math.round(progress)}
                         aria-valuetext={`${formatTime(mixer.currentTime)} of ${formatTime(mixer.duration)}`}
                     >
+                        {mixer.loop && (
+                            <div
+                                className="absolute inset-y-0 bg-silk-stone/20"
+                                style={{
+                                    left: `${toPercent(mixer.loop.start)}%`,
+                                    width: `${toPercent(mixer.loop.end - mixer.loop.start)}%`,
+                                }}
+                                data-testid="loop-region"
+                            />
+                        )}
                         <div
                             className="h-full bg-silk-amber transition-all duration-100"
                             style={{ width: `${progress}%` }}
@@ -165,12 +324,74 @@ export const MixerPlayer = forwardRef<MixerPlayerRef, MixerPlayerProps>(
                         {formatTime(mixer.duration)}
                     </span>
 
+                    {/* Loop Region */}
+                    {mixer.loop && (
+                        <span className="flex items-center gap-1 text-xs text-silk-stone font-mono px-2 py-1 bg-silk-stone/10 rounded">
+                            ⟲ {formatTime(mixer.loop.start)}–{formatTime(mixer.loop.end)}
+                            <button
+                                onClick={() => mixer.setLoop(null)}
+                                className="ml-1 text-gray-500 hover:text-silk-red"
+                                aria-label="Clear loop"
+                            >
+                                ✕
+                            </button>
+                        </span>
+                    )}
+
+                    {/* Practice Speed */}
+                    <label className="flex items-center gap-1 text-xs text-gray-500">
+                        Speed
+                        <input
+                            type="range"
+                            min={PLAYBACK.MIN_RATE}
+                            max={PLAYBACK.MAX_RATE}
+                            step={PLAYBACK.RATE_STEP}
+                            value={mixer.playbackRate}
+                            onChange={(e) => mixer.setPlaybackRate(parseFloat(e.target.value))}
+                            onDoubleClick={() => mixer.setPlaybackRate(1)}
+                            className="w-16 h-1 accent-silk-stone"
+                            title="Playback speed (double-click to reset)"
+                            aria-label="Playback speed"
+                            aria-valuetext={`${Math.round(mixer.playbackRate * 100)}%`}
+                        />
+                        <span className="font-mono min-w-[32px]">{Math.round(mixer.playbackRate * 100)}%</span>
+                    </label>
+
+                    {/* Master Meters */}
+                    <MasterMeter getMeter={mixer.getMeter} active={mixer.isPlaying} />
+
                     {/* Ensemble Label */}
-                    {audioResults.length > 1 && (
+                    {trackCount > 1 && (
                         <span className="text-xs text-silk-amber font-medium px-2 py-1 bg-silk-amber/10 rounded">
-                            Ensemble ({audioResults.length} tracks)
+                            Ensemble ({trackCount} tracks)
                         </span>
                     )}
+
+                    {/* Mixdown Download */}
+                    {onDownloadMix && (
+                        <select
+                            value={loudnessTarget ?? ''}
+                            onChange={(e) => setLoudnessTarget(e.target.value === '' ? null : parseFloat(e.target.value))}
+                            className="text-xs border border-gray-200 rounded px-1 py-1 text-silk-stone"
+                            aria-label="Mix loudness"
+                            title="Normalize the downloaded mix to a loudness target"
+                        >
+                            <option value="">As mixed</option>
+                            {LOUDNESS_TARGETS.map(({ label, lufs }) => (
+                                <option key={lufs} value={lufs}>{label} ({lufs} LUFS)</option>
+                            ))}
+                        </select>
+                    )}
+                    {onDownloadMix && (
+                        <button
+                            onClick={handleDownloadMix}
+                            disabled={!mixer.isReady || isExportingMix}
+                            aria-busy={isExportingMix}
+                            className="text-xs font-medium px-3 py-1 rounded border border-silk-stone text-silk-stone hover:bg-silk-stone hover:text-white transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                        >
+                            {isExportingMix ? 'Rendering...' : 'Download mix'}
+                        </button>
+                    )}
                 </div>
             </div>
         </div>
@@ -0,0 +1,70 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import { TrackEffectsPanel } from './TrackEffectsPanel';
+import { DEFAULT_TRACK_EFFECTS } from '../audio/effects';
+
+describe('TrackEffectsPanel', () => {
+    const onChange = vi.fn();
+
+    beforeEach(() => {
+        onChange.mockClear();
+    });
+
+    it('shows the EQ gains in dB', () => {
+        render(
+            <TrackEffectsPanel
+                instrument="erhu"
+                effects={{ ...DEFAULT_TRACK_EFFECTS, eq: { low: -4, mid: 0, high: 3 } }}
+                onChange={onChange}
+            />
+        );
+
+        expect(screen.getByLabelText('erhu EQ low')).toHaveAttribute('aria-valuetext', '-4 dB');
+        expect(screen.getByLabelText('erhu EQ high')).toHaveAttribute('aria-valuetext', '+3 dB');
+    });
+
+    it('changes one EQ band', () => {
+        render(<TrackEffectsPanel instrument="erhu" effects={DEFAULT_TRACK_EFFECTS} onChange={onChange} />);
+
+        fireEvent.change(screen.getByLabelText('erhu EQ low-mid'), { target: { value: '-6' } });
+
+        expect(onChange).toHaveBeenCalledWith({ ...DEFAULT_TRACK_EFFECTS, eq: { low: 0, mid: -6, high: 0 } });
+    });
+
+    it('disables compressor and delay controls until they are switched on', () => {
+        render(<TrackEffectsPanel instrument="pipa" effects={DEFAULT_TRACK_EFFECTS} onChange={onChange} />);
+
+        expect(screen.getByLabelText('pipa compressor threshold')).toBeDisabled();
+        expect(screen.getByLabelText('pipa delay time')).toBeDisabled();
+
+        fireEvent.click(screen.getByLabelText('pipa compressor'));
+
+        expect(onChange).toHaveBeenCalledWith({
+            ...DEFAULT_TRACK_EFFECTS,
+            compressor: { ...DEFAULT_TRACK_EFFECTS.compressor, enabled: true },
+        });
+    });
+
+    it('picks a tempo-synced delay time', () => {
+        const effects = { ...DEFAULT_TRACK_EFFECTS, delay: { ...DEFAULT_TRACK_EFFECTS.delay, enabled: true } };
+        render(<TrackEffectsPanel instrument="dizi" effects={effects} onChange={onChange} />);
+
+        fireEvent.change(screen.getByLabelText('dizi delay time'), { target: { value: '0.75' } });
+
+        expect(onChange).toHaveBeenCalledWith({ ...effects, delay: { ...effects.delay, beats: 0.75 } });
+    });
+
+    it('resets every effect', () => {
+        render(
+            <TrackEffectsPanel
+                instrument="erhu"
+                effects={{ ...DEFAULT_TRACK_EFFECTS, eq: { low: -4, mid: 2, high: 3 } }}
+                onChange={onChange}
+            />
+        );
+
+        fireEvent.click(screen.getByRole('button', { name: 'Reset' }));
+
+        expect(onChange).toHaveBeenCalledWith(DEFAULT_TRACK_EFFECTS);
+    });
+});
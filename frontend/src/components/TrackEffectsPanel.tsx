@@ -0,0 +1,177 @@
+import React from 'react';
+import type { Instrument } from '../types/music';
+import type { TrackEffects } from '../audio/types';
+import { DEFAULT_TRACK_EFFECTS, DELAY_DIVISIONS, EQ_RANGE, MAX_DELAY_FEEDBACK } from '../audio/effects';
+
+interface TrackEffectsPanelProps {
+    instrument: Instrument;
+    effects: TrackEffects;
+    onChange: (effects: TrackEffects) => void;
+}
+
+const EQ_BAND_LABELS = [
+    { band: 'low', label: 'Low' },
+    { band: 'mid', label: 'Low-mid' },
+    { band: 'high', label: 'High' },
+] as const;
+
+const formatDb = (db: number): string => `${db > 0 ? '+' : ''}${db} dB`;
+
+/**
+ * Insert effects for one mixer track: three-band EQ, compressor and
+ * tempo-synced delay.
+ */
+export const TrackEffectsPanel: React.FC<TrackEffectsPanelProps> = ({ instrument, effects, onChange }) => {
+    const { eq, compressor, delay } = effects;
+
+    const setEq = (changes: Partial<TrackEffects['eq']>) => onChange({ ...effects, eq: { ...eq, ...changes } });
+    const setCompressor = (changes: Partial<TrackEffects['compressor']>) =>
+        onChange({ ...effects, compressor: { ...compressor, ...changes } });
+    const setDelay = (changes: Partial<TrackEffects['delay']>) =>
+        onChange({ ...effects, delay: { ...delay, ...changes } });
+
+    return (
+        <div
+            className="flex flex-wrap items-start gap-6 px-4 py-3 bg-silk-amber/5 border border-silk-amber/20 rounded-lg text-xs text-silk-stone"
+            role="group"
+            aria-label={`${instrument} effects`}
+        >
+            {/* EQ */}
+            <fieldset className="flex flex-col gap-1">
+                <legend className="font-bold uppercase tracking-wider text-gray-500 mb-1">EQ</legend>
+                {EQ_BAND_LABELS.map(({ band, label }) => (
+                    <label key={band} className="flex items-center gap-2">
+                        <span className="w-14">{label}</span>
+                        <input
+                            type="range"
+                            min={-EQ_RANGE}
+                            max={EQ_RANGE}
+                            step="1"
+                            value={eq[band]}
+                            onChange={(e) => setEq({ [band]: parseFloat(e.target.value) })}
+                            onDoubleClick={() => setEq({ [band]: 0 })}
+                            className="w-20 h-1 accent-silk-amber"
+                            title="Double-click to reset"
+                            aria-label={`${instrument} EQ ${label.toLowerCase()}`}
+                            aria-valuetext={formatDb(eq[band])}
+                        />
+                        <span className="font-mono w-12 text-right">{formatDb(eq[band])}</span>
+                    </label>
+                ))}
+            </fieldset>
+
+            {/* Compressor */}
+            <fieldset className="flex flex-col gap-1">
+                <legend className="font-bold uppercase tracking-wider text-gray-500 mb-1">
+                    <label className="flex items-center gap-1">
+                        <input
+                            type="checkbox"
+                            checked={compressor.enabled}
+                            onChange={(e) => setCompressor({ enabled: e.target.checked })}
+                            aria-label={`${instrument} compressor`}
+                        />
+                        Compressor
+                    </label>
+                </legend>
+                <label className="flex items-center gap-2">
+                    <span className="w-14">Threshold</span>
+                    <input
+                        type="range"
+                        min="-60"
+                        max="0"
+                        step="1"
+                        value={compressor.threshold}
+                        onChange={(e) => setCompressor({ threshold: parseFloat(e.target.value) })}
+                        className="w-20 h-1 accent-silk-stone"
+                        disabled={!compressor.enabled}
+                        aria-label={`${instrument} compressor threshold`}
+                        aria-valuetext={formatDb(compressor.threshold)}
+                    />
+                    <span className="font-mono w-12 text-right">{formatDb(compressor.threshold)}</span>
+                </label>
+                <label className="flex items-center gap-2">
+                    <span className="w-14">Ratio</span>
+                    <input
+                        type="range"
+                        min="1"
+                        max="20"
+                        step="0.5"
+                        value={compressor.ratio}
+                        onChange={(e) => setCompressor({ ratio: parseFloat(e.target.value) })}
+                        className="w-20 h-1 accent-silk-stone"
+                        disabled={!compressor.enabled}
+                        aria-label={`${instrument} compressor ratio`}
+                        aria-valuetext={`${compressor.ratio}:1`}
+                    />
+                    <span className="font-mono w-12 text-right">{compressor.ratio}:1</span>
+                </label>
+            </fieldset>
+
+            {/* Delay */}
+            <fieldset className="flex flex-col gap-1">
+                <legend className="font-bold uppercase tracking-wider text-gray-500 mb-1">
+                    <label className="flex items-center gap-1">
+                        <input
+                            type="checkbox"
+                            checked={delay.enabled}
+                            onChange={(e) => setDelay({ enabled: e.target.checked })}
+                            aria-label={`${instrument} delay`}
+                        />
+                        Delay
+                    </label>
+                </legend>
+                <label className="flex items-center gap-2">
+                    <span className="w-14">Time</span>
+                    <select
+                        value={delay.beats}
+                        onChange={(e) => setDelay({ beats: parseFloat(e.target.value) })}
+                        className="w-20 border border-gray-200 rounded px-1"
+                        disabled={!delay.enabled}
+                        aria-label={`${instrument} delay time`}
+                    >
+                        {DELAY_DIVISIONS.map(({ label, beats }) => (
+                            <option key={beats} value={beats}>{label}</option>
+                        ))}
+                    </select>
+                </label>
+                <label className="flex items-center gap-2">
+                    <span className="w-14">Feedback</span>
+                    <input
+                        type="range"
+                        min="0"
+                        max={MAX_DELAY_FEEDBACK}
+                        step="0.05"
+                        value={delay.feedback}
+                        onChange={(e) => setDelay({ feedback: parseFloat(e.target.value) })}
+                        className="w-20 h-1 accent-silk-stone"
+                        disabled={!delay.enabled}
+                        aria-label={`${instrument} delay feedback`}
+                        aria-valuetext={`${Math.round(delay.feedback * 100)}%`}
+                    />
+                </label>
+                <label className="flex items-center gap-2">
+                    <span className="w-14">Mix</span>
+                    <input
+                        type="range"
+                        min="0"
+                        max="1"
+                        step="0.05"
+                        value={delay.mix}
+                        onChange={(e) => setDelay({ mix: parseFloat(e.target.value) })}
+                        className="w-20 h-1 accent-silk-stone"
+                        disabled={!delay.enabled}
+                        aria-label={`${instrument} delay mix`}
+                        aria-valuetext={`${Math.round(delay.mix * 100)}%`}
+                    />
+                </label>
+            </fieldset>
+
+            <button
+                onClick={() => onChange(DEFAULT_TRACK_EFFECTS)}
+                className="self-end px-2 py-1 text-gray-500 border border-gray-200 rounded hover:bg-gray-100"
+            >
+                Reset
+            </button>
+        </div>
+    );
+};
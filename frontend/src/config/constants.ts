@@ -19,14 +19,18 @@ export const API_TIMEOUTS = {
     GENERATE: 300000,
 } as const;
 
-/** localStorage configuration */
+/** Composition history storage configuration */
 export const STORAGE = {
-    /** Key for storing composition history */
+    /** localStorage key of the legacy history, migrated to IndexedDB on load */
     HISTORY_KEY: 'silk-road-compositions',
-    /** Maximum number of compositions to keep in history */
-    MAX_HISTORY: 10,
-    /** Fallback limit when quota is exceeded */
-    FALLBACK_HISTORY: 5,
+    /** IndexedDB database holding the history */
+    DB_NAME: 'silk-road-composer',
+    /** IndexedDB schema version */
+    DB_VERSION: 1,
+    /** Default maximum number of compositions to keep in history */
+    MAX_HISTORY: 200,
+    /** Whether history stores rendered audio by default; without it entries are re-rendered when opened */
+    SAVE_AUDIO: false,
 } as const;
 
 /** Audio configuration */
@@ -35,6 +39,29 @@ export const AUDIO = {
     MIME_TYPE: 'audio/wav',
 } as const;
 
+/** Playback configuration */
+export const PLAYBACK = {
+    /**
+     * Play compositions live, scheduling notes as they play, instead of
+     * rendering every track before playback; tracks are rendered only for export
+     */
+    LIVE: true,
+    /** Slowest practice playback rate */
+    MIN_RATE: 0.5,
+    /** Fastest practice playback rate */
+    MAX_RATE: 1.5,
+    /** Playback rate change per step of the speed control and shortcuts */
+    RATE_STEP: 0.05,
+    /** Shortest loop region, in seconds */
+    MIN_LOOP: 0.5,
+} as const;
+
+/** Offline rendering configuration */
+export const RENDERING = {
+    /** Most render workers run at once; also capped at one less than the CPU count */
+    MAX_WORKERS: 4,
+} as const;
+
 /** Retry configuration for transient failures */
 export const RETRY = {
     /** Maximum retry attempts for API calls */
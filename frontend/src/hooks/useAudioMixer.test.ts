@@ -2,6 +2,7 @@ import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { renderHook, act, waitFor } from '@testing-library/react';
 import { AudioError } from '../types/errors';
 import type { InstrumentAudioResult, Instrument } from '../types/music';
+import type { MixAutomation } from '../audio/types';
 
 // Helper to create mock audio results
 const createMockAudioResult = (
@@ -20,16 +21,32 @@ const mockGainNode = {
     gain: { value: 1 },
 };
 
+const mockPannerNode = {
+    connect: vi.fn(),
+    pan: { value: 0 },
+};
+
 const mockSourceNode = {
     connect: vi.fn(),
     start: vi.fn(),
     stop: vi.fn(),
     buffer: null,
+    loop: false,
+    loopStart: 0,
+    loopEnd: 0,
 };
 
+const createMockParam = (value: number) => ({
+    value,
+    setValueAtTime: vi.fn(),
+    linearRampToValueAtTime: vi.fn(),
+    cancelScheduledValues: vi.fn(),
+});
+
 const mockAudioContext = {
-    createGain: vi.fn(() => ({ ...mockGainNode })),
-    createBufferSource: vi.fn(() => ({ ...mockSourceNode })),
+    createGain: vi.fn(() => ({ ...mockGainNode, gain: createMockParam(1) })),
+    createStereoPanner: vi.fn(() => ({ ...mockPannerNode, pan: createMockParam(0) })),
+    createBufferSource: vi.fn(() => ({ ...mockSourceNode, playbackRate: { value: 1 } })),
     decodeAudioData: vi.fn().mockResolvedValue({
         duration: 60,
         numberOfChannels: 2,
@@ -50,9 +67,27 @@ vi.mock('../utils/audio', () => ({
     base64ToArrayBuffer: vi.fn(() => new ArrayBuffer(8)),
 }));
 
+vi.mock('../audio/effects', async (importOriginal) => ({
+    ...(await importOriginal<typeof import('../audio/effects')>()),
+    createTrackEffectsChain: vi.fn(() => ({
+        input: { connect: vi.fn() },
+        output: { connect: vi.fn() },
+        update: vi.fn(),
+        setTempo: vi.fn(),
+        disconnect: vi.fn(),
+    })),
+    createMasterBus: vi.fn(() => ({
+        input: { connect: vi.fn() },
+        output: { connect: vi.fn() },
+        getMeter: vi.fn(() => ({ left: { peak: -6, rms: -12 }, right: { peak: -6, rms: -12 } })),
+        disconnect: vi.fn(),
+    })),
+}));
+
 import { useAudioMixer } from './useAudioMixer';
 import { getAudioContext } from '../utils/audioContext';
 import { base64ToArrayBuffer } from '../utils/audio';
+import { createMasterBus, DEFAULT_TRACK_EFFECTS } from '../audio/effects';
 
 const mockedGetAudioContext = vi.mocked(getAudioContext);
 const mockedBase64ToArrayBuffer = vi.mocked(base64ToArrayBuffer);
@@ -272,6 +307,69 @@ describe('useAudioMixer', () => {
         });
     });
 
+    describe('Pan Control', () => {
+        it('defaults each track to its ensemble position', async () => {
+            const { result } = renderHook(() => useAudioMixer([
+                createMockAudioResult('erhu'),
+                createMockAudioResult('guzheng'),
+            ]));
+
+            await waitFor(() => expect(result.current.isReady).toBe(true));
+
+            expect(result.current.tracks.get('erhu')?.pan).toBe(-0.3);
+            expect(result.current.tracks.get('guzheng')?.pan).toBe(0.3);
+            // Stems are rendered pre-panned, so the live panner starts centered
+            expect(result.current.tracks.get('erhu')?.pannerNode?.pan.value).toBe(0);
+        });
+
+        it('routes gain through the panner to the master bus', async () => {
+            const audioResults = [createMockAudioResult('erhu')];
+            const { result } = renderHook(() => useAudioMixer(audioResults));
+
+            await waitFor(() => expect(result.current.isReady).toBe(true));
+
+            const track = result.current.tracks.get('erhu');
+            expect(track?.gainNode?.connect).toHaveBeenCalledWith(track?.pannerNode);
+            expect(track?.pannerNode?.connect).toHaveBeenCalledWith(vi.mocked(createMasterBus).mock.results.at(-1)!.value.input);
+        });
+
+        it('sets track pan relative to the rendered position', async () => {
+            const audioResults = [createMockAudioResult('erhu')];
+            const { result } = renderHook(() => useAudioMixer(audioResults));
+
+            await waitFor(() => expect(result.current.isReady).toBe(true));
+
+            const pannerNode = result.current.tracks.get('erhu')?.pannerNode;
+
+            act(() => {
+                result.current.setTrackPan('erhu', 0.2);
+            });
+
+            expect(result.current.tracks.get('erhu')?.pan).toBe(0.2);
+            expect(pannerNode?.pan.value).toBeCloseTo(0.5);
+        });
+
+        it('clamps pan to [-1, 1]', async () => {
+            const audioResults = [createMockAudioResult('erhu')];
+            const { result } = renderHook(() => useAudioMixer(audioResults));
+
+            await waitFor(() => expect(result.current.isReady).toBe(true));
+
+            const pannerNode = result.current.tracks.get('erhu')?.pannerNode;
+
+            act(() => {
+                result.current.setTrackPan('erhu', -2);
+            });
+            expect(result.current.tracks.get('erhu')?.pan).toBe(-1);
+
+            act(() => {
+                result.current.setTrackPan('erhu', 2);
+            });
+            expect(result.current.tracks.get('erhu')?.pan).toBe(1);
+            expect(pannerNode?.pan.value).toBe(1);
+        });
+    });
+
     describe('Mute Control', () => {
         it('toggles mute state', async () => {
             const { result } = renderHook(() => useAudioMixer([createMockAudioResult('erhu')]));
@@ -292,6 +390,230 @@ describe('useAudioMixer', () => {
         });
     });
 
+    describe('Solo Control', () => {
+        const results = [createMockAudioResult('erhu'), createMockAudioResult('guzheng')];
+        // Each track creates its automation gain, then its volume gain
+        const gainOf = (index: number) => mockAudioContext.createGain.mock.results[index * 2 + 1].value.gain.value;
+
+        it('silences the other tracks while one is soloed', async () => {
+            const { result } = renderHook(() => useAudioMixer(results));
+
+            await waitFor(() => expect(result.current.tracks.size).toBe(2));
+
+            act(() => {
+                result.current.toggleSolo('erhu');
+            });
+
+            expect(result.current.tracks.get('erhu')?.soloed).toBe(true);
+            expect(gainOf(0)).toBe(1);
+            expect(gainOf(1)).toBe(0);
+
+            act(() => {
+                result.current.toggleSolo('erhu');
+            });
+            expect(gainOf(1)).toBe(1);
+        });
+
+        it('keeps a muted track silent while soloed', async () => {
+            const { result } = renderHook(() => useAudioMixer(results));
+
+            await waitFor(() => expect(result.current.tracks.size).toBe(2));
+
+            act(() => {
+                result.current.toggleSolo('erhu');
+            });
+            act(() => {
+                result.current.toggleMute('erhu');
+            });
+
+            expect(gainOf(0)).toBe(0);
+            expect(gainOf(1)).toBe(0);
+        });
+    });
+
+    describe('Loop Region', () => {
+        const results = [createMockAudioResult('erhu')];
+
+        it('moves the playhead into the loop and loops the sources', async () => {
+            const { result } = renderHook(() => useAudioMixer(results));
+
+            await waitFor(() => expect(result.current.isReady).toBe(true));
+
+            act(() => {
+                result.current.setLoop({ start: 15, end: 30 });
+            });
+
+            expect(result.current.loop).toEqual({ start: 15, end: 30 });
+            expect(result.current.currentTime).toBe(15);
+
+            act(() => {
+                result.current.play();
+            });
+
+            const source = mockAudioContext.createBufferSource.mock.results[0].value;
+            expect(source).toMatchObject({ loop: true, loopStart: 15, loopEnd: 30 });
+            expect(source.start).toHaveBeenCalledWith(0, 15);
+        });
+
+        it('clears the loop', async () => {
+            const { result } = renderHook(() => useAudioMixer(results));
+
+            await waitFor(() => expect(result.current.isReady).toBe(true));
+
+            act(() => {
+                result.current.setLoop({ start: 15, end: 30 });
+            });
+            act(() => {
+                result.current.setLoop(null);
+            });
+
+            expect(result.current.loop).toBeNull();
+        });
+    });
+
+    describe('Playback Rate', () => {
+        const results = [createMockAudioResult('erhu')];
+
+        it('plays sources at the clamped rate', async () => {
+            const { result } = renderHook(() => useAudioMixer(results));
+
+            await waitFor(() => expect(result.current.isReady).toBe(true));
+
+            act(() => {
+                result.current.setPlaybackRate(0.1);
+            });
+            expect(result.current.playbackRate).toBe(0.5);
+
+            act(() => {
+                result.current.play();
+            });
+
+            const source = mockAudioContext.createBufferSource.mock.results[0].value;
+            expect(source.playbackRate.value).toBe(0.5);
+
+            act(() => {
+                result.current.setPlaybackRate(0.75);
+            });
+            expect(source.playbackRate.value).toBe(0.75);
+        });
+    });
+
+    describe('Track Effects', () => {
+        const results = [createMockAudioResult('erhu')];
+
+        it('plays each stem through its effects chain', async () => {
+            const { result } = renderHook(() => useAudioMixer(results));
+
+            await waitFor(() => expect(result.current.isReady).toBe(true));
+
+            act(() => {
+                result.current.play();
+            });
+
+            const track = result.current.tracks.get('erhu');
+            const source = mockAudioContext.createBufferSource.mock.results[0].value;
+            expect(source.connect).toHaveBeenCalledWith(track?.effectsChain?.input);
+            const automationGain = vi.mocked(track!.effectsChain!.output.connect).mock.calls[0][0] as unknown as GainNode;
+            expect(automationGain.connect).toHaveBeenCalledWith(track?.gainNode);
+        });
+
+        it('applies effects from the initial mix and updates them', async () => {
+            const initial = { ...DEFAULT_TRACK_EFFECTS, eq: { low: -4, mid: 0, high: 2 } };
+            const { result } = renderHook(() =>
+                useAudioMixer(results, { erhu: { volume: 1, muted: false, effects: initial } }, 90)
+            );
+
+            await waitFor(() => expect(result.current.isReady).toBe(true));
+            expect(result.current.tracks.get('erhu')?.effects).toEqual(initial);
+
+            const effects = { ...initial, delay: { ...initial.delay, enabled: true } };
+            act(() => {
+                result.current.setTrackEffects('erhu', effects);
+            });
+
+            const chain = result.current.tracks.get('erhu')?.effectsChain;
+            expect(chain?.update).toHaveBeenCalledWith(effects);
+            expect(chain?.setTempo).toHaveBeenCalledWith(90);
+            expect(result.current.tracks.get('erhu')?.effects).toEqual(effects);
+        });
+    });
+
+    describe('Master Bus', () => {
+        const results = [createMockAudioResult('erhu'), createMockAudioResult('guzheng')];
+        const noResults: InstrumentAudioResult[] = [];
+
+        it('mixes every track into a metered master bus', async () => {
+            const { result, unmount } = renderHook(() => useAudioMixer(results));
+
+            await waitFor(() => expect(result.current.isReady).toBe(true));
+
+            const bus = vi.mocked(createMasterBus).mock.results.at(-1)!.value;
+            expect(bus.output.connect).toHaveBeenCalledWith(mockAudioContext.destination);
+            result.current.tracks.forEach((track) => {
+                expect(track.pannerNode?.connect).toHaveBeenCalledWith(bus.input);
+            });
+            expect(result.current.getMeter()).toEqual({
+                left: { peak: -6, rms: -12 },
+                right: { peak: -6, rms: -12 },
+            });
+
+            unmount();
+            expect(bus.disconnect).toHaveBeenCalled();
+        });
+
+        it('reads no meter before the stems load', () => {
+            const { result } = renderHook(() => useAudioMixer(noResults));
+
+            expect(result.current.getMeter()).toBeNull();
+        });
+    });
+
+    describe('Automation', () => {
+        const results = [createMockAudioResult('erhu')];
+        const automation: MixAutomation = {
+            erhu: {
+                volume: [{ time: 10, value: 1 }, { time: 20, value: 1.5 }],
+                pan: [{ time: 0, value: 0.2 }],
+            },
+        };
+
+        it('plays volume and pan lanes from the playhead', async () => {
+            const { result } = renderHook(() => useAudioMixer(results, undefined, undefined, automation));
+
+            await waitFor(() => expect(result.current.isReady).toBe(true));
+
+            act(() => {
+                result.current.play();
+            });
+
+            const track = result.current.tracks.get('erhu');
+            const automationGain = vi.mocked(track!.effectsChain!.output.connect).mock.calls[0][0] as unknown as GainNode;
+            expect(automationGain.connect).toHaveBeenCalledWith(track?.gainNode);
+            expect(automationGain.gain.setValueAtTime).toHaveBeenLastCalledWith(1, 0);
+            expect(vi.mocked(automationGain.gain.linearRampToValueAtTime).mock.calls).toEqual([
+                [1, 10],
+                [1.5, 20],
+                [1.5, 60],
+            ]);
+            // Pan lanes offset the track's own position
+            const [pan, when] = vi.mocked(track!.pannerNode!.pan.setValueAtTime).mock.calls.at(-1)!;
+            expect(pan).toBeCloseTo(0.2);
+            expect(when).toBe(0);
+        });
+
+        it('leaves unautomated tracks alone', async () => {
+            const { result } = renderHook(() => useAudioMixer(results));
+
+            await waitFor(() => expect(result.current.isReady).toBe(true));
+
+            act(() => {
+                result.current.play();
+            });
+
+            expect(result.current.tracks.get('erhu')?.pannerNode?.pan.setValueAtTime).not.toHaveBeenCalled();
+        });
+    });
+
     describe('hasPartialFailure', () => {
         it('is false when all tracks succeed', async () => {
             const { result } = renderHook(() => useAudioMixer([
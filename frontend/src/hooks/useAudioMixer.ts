@@ -3,16 +3,90 @@ import type { InstrumentAudioResult, Instrument } from '../types/music';
 import { AudioError } from '../types/errors';
 import { base64ToArrayBuffer } from '../utils/audio';
 import { getAudioContext } from '../utils/audioContext';
+import { INSTRUMENT_PAN } from '../audio/utils/moodParams';
+import { createMasterBus, createTrackEffectsChain, DEFAULT_TRACK_EFFECTS } from '../audio/effects';
+import type { MasterBus, TrackEffectsChain } from '../audio/effects';
+import { clampPlaybackRate, isTrackAudible, loopStartPosition, normalizeLoop, wrapLoopTime } from '../audio/utils/transport';
+import { hasAutomation, scheduleAutomation } from '../audio/utils/automation';
+import type { AutomationWindow } from '../audio/utils/automation';
+import type { LoopRegion, MeterReading, MixAutomation, MixSettings, TrackAutomation, TrackEffects } from '../audio/types';
+import { DEFAULTS } from '../config/constants';
 
 interface TrackState {
     instrument: Instrument;
     buffer: AudioBuffer | null;
+    /** Insert effects between the source and the gain */
+    effectsChain: TrackEffectsChain | null;
+    /** Volume automation, between the effects and the gain */
+    automationGain: GainNode | null;
     gainNode: GainNode | null;
+    pannerNode: StereoPannerNode | null;
     volume: number;
+    /** Stereo position in [-1, 1]; defaults to the instrument's ensemble position */
+    pan: number;
     muted: boolean;
+    /** While any track is soloed, only soloed tracks play */
+    soloed: boolean;
+    effects: TrackEffects;
     error?: AudioError;
 }
 
+const clampPan = (pan: number): number => Math.max(-1, Math.min(1, pan));
+
+/**
+ * Rendered stems already carry their default INSTRUMENT_PAN position, so the
+ * live panner only applies the offset from that default.
+ */
+const getPanOffset = (instrument: Instrument, pan: number): number =>
+    clampPan(pan - (INSTRUMENT_PAN[instrument] ?? 0));
+
+/** Seconds of looped automation scheduled ahead of the playhead */
+const AUTOMATION_LOOKAHEAD = 1;
+
+/** How often looped automation is topped up, in milliseconds */
+const AUTOMATION_INTERVAL = 250;
+
+/**
+ * Drop a track's scheduled automation and return it to the fader settings.
+ */
+const resetAutomation = (track: TrackState, time: number): void => {
+    const params: [AudioParam | undefined, number][] = [
+        [track.automationGain?.gain, 1],
+        [track.pannerNode?.pan, getPanOffset(track.instrument, track.pan)],
+    ];
+    params.forEach(([param, value]) => {
+        param?.cancelScheduledValues(time);
+        param?.setValueAtTime(value, time);
+    });
+};
+
+/**
+ * Schedule a track's volume and pan lanes over a window. The reverb is
+ * already in the stems, so send lanes only apply to live playback and mixdowns.
+ */
+const scheduleTrackAutomation = (track: TrackState, automation: TrackAutomation, window: AutomationWindow): void => {
+    if (track.automationGain) {
+        scheduleAutomation(track.automationGain.gain, 'volume', automation.volume, window);
+    }
+    if (track.pannerNode) {
+        scheduleAutomation(track.pannerNode.pan, 'pan', automation.pan, window, (value) =>
+            getPanOffset(track.instrument, clampPan(track.pan + value))
+        );
+    }
+};
+
+/**
+ * Set each track's gain from its volume, mute and solo state.
+ */
+const applyGains = (tracks: Map<Instrument, TrackState>): void => {
+    const soloActive = Array.from(tracks.values()).some((track) => track.soloed);
+    tracks.forEach((track) => {
+        if (track.gainNode) {
+            track.gainNode.gain.value = isTrackAudible(track, soloActive) ? track.volume : 0;
+        }
+    });
+};
+
 interface MixerState {
     isPlaying: boolean;
     currentTime: number;
@@ -20,14 +94,47 @@ interface MixerState {
     tracks: Map<Instrument, TrackState>;
     failedTracks: Map<Instrument, AudioError>;
     isReady: boolean;
+    loop: LoopRegion | null;
+    playbackRate: number;
 }
 
-export const useAudioMixer = (audioResults: InstrumentAudioResult[]) => {
+/**
+ * Hook for multi-track playback with per-track volume, pan, mute, solo and
+ * insert effects, a loop region and a practice playback rate. Tracks meet on
+ * a metered, limited master bus. Volume and pan automation lanes are
+ * scheduled from the playhead while playing.
+ *
+ * Stems are resampled to change the rate, so their pitch follows the speed
+ * (live playback keeps the pitch; see `useLivePlayback`).
+ *
+ * @param audioResults - One rendered stem per instrument
+ * @param initialMix - Mixer state applied when the stems load (e.g. from a project file)
+ * @param tempo - Tempo of the stems in BPM, for tempo-synced delays
+ * @param automation - Automation lanes of each track, followed as they change
+ */
+export const useAudioMixer = (
+    audioResults: InstrumentAudioResult[],
+    initialMix?: MixSettings['tracks'],
+    tempo: number = DEFAULTS.TEMPO,
+    automation?: MixAutomation
+) => {
     const audioContextRef = useRef<AudioContext | null>(null);
+    const masterBusRef = useRef<MasterBus | null>(null);
+    // Read when stems load, so a new mix object alone doesn't reload them
+    const initialMixRef = useRef(initialMix);
+    initialMixRef.current = initialMix;
     const sourceNodesRef = useRef<Map<Instrument, AudioBufferSourceNode>>(new Map());
     const startTimeRef = useRef<number>(0);
     const pauseTimeRef = useRef<number>(0);
     const animationFrameRef = useRef<number | null>(null);
+    // Read while playing, so changes apply without rebuilding the callbacks
+    const loopRef = useRef<LoopRegion | null>(null);
+    const playbackRateRef = useRef(1);
+    // Read when stems load; later changes re-sync the delays below
+    const tempoRef = useRef(tempo);
+    tempoRef.current = tempo;
+    // Tracks whose automation was last scheduled, so removed lanes are reset too
+    const automatedRef = useRef<Set<Instrument>>(new Set());
 
     const [state, setState] = useState<MixerState>({
         isPlaying: false,
@@ -36,8 +143,22 @@ export const useAudioMixer = (audioResults: InstrumentAudioResult[]) => {
         tracks: new Map(),
         failedTracks: new Map(),
         isReady: false,
+        loop: null,
+        playbackRate: 1,
     });
 
+    /**
+     * Playhead position while playing: time since the sources started,
+     * scaled by the rate and wrapped into the loop.
+     */
+    const getPlayingPosition = useCallback((): number => {
+        const ctx = audioContextRef.current;
+        if (!ctx) return pauseTimeRef.current;
+
+        const elapsed = (ctx.currentTime - startTimeRef.current) * playbackRateRef.current;
+        return wrapLoopTime(pauseTimeRef.current + elapsed, loopRef.current);
+    }, []);
+
     // Initialize audio context and decode audio buffers
     useEffect(() => {
         if (audioResults.length === 0) {
@@ -80,6 +201,11 @@ export const useAudioMixer = (audioResults: InstrumentAudioResult[]) => {
             }
 
             const ctx = audioContextRef.current;
+            if (!masterBusRef.current) {
+                masterBusRef.current = createMasterBus(ctx);
+                masterBusRef.current.output.connect(ctx.destination);
+            }
+            const masterBus = masterBusRef.current;
             const tracks = new Map<Instrument, TrackState>();
             const failedTracks = new Map<Instrument, AudioError>();
             let maxDuration = 0;
@@ -90,16 +216,41 @@ export const useAudioMixer = (audioResults: InstrumentAudioResult[]) => {
                     const arrayBuffer = base64ToArrayBuffer(result.audioContent, result.instrument);
                     const audioBuffer = await ctx.decodeAudioData(arrayBuffer);
 
-                    // Create gain node for volume control
+                    // Create the insert effects, a gain for automation and one for volume control, then panner for stereo position.
+                    // The stems already carry their reverb, so the effects process it too; mixdowns
+                    // of tracks with effects are routed the same way (see SynthesizerEngine.renderMix)
+                    const initial = initialMixRef.current?.[result.instrument];
+                    const volume = Math.max(0, Math.min(1, initial?.volume ?? 1));
+                    const muted = initial?.muted ?? false;
+                    const effects = initial?.effects ?? DEFAULT_TRACK_EFFECTS;
+                    const effectsChain = createTrackEffectsChain(
+                        ctx,
+                        effects,
+                        tempoRef.current * playbackRateRef.current
+                    );
+                    const automationGain = ctx.createGain();
                     const gainNode = ctx.createGain();
-                    gainNode.connect(ctx.destination);
+                    gainNode.gain.value = muted ? 0 : volume;
+                    const pannerNode = ctx.createStereoPanner();
+                    const pan = clampPan(initial?.pan ?? INSTRUMENT_PAN[result.instrument] ?? 0);
+                    pannerNode.pan.value = getPanOffset(result.instrument, pan);
+                    effectsChain.output.connect(automationGain);
+                    automationGain.connect(gainNode);
+                    gainNode.connect(pannerNode);
+                    pannerNode.connect(masterBus.input);
 
                     tracks.set(result.instrument, {
                         instrument: result.instrument,
                         buffer: audioBuffer,
+                        effectsChain,
+                        automationGain,
                         gainNode,
-                        volume: 1,
-                        muted: false,
+                        pannerNode,
+                        volume,
+                        pan,
+                        muted,
+                        soloed: false,
+                        effects,
                     });
 
                     maxDuration = Math.max(maxDuration, audioBuffer.duration);
@@ -146,14 +297,24 @@ export const useAudioMixer = (audioResults: InstrumentAudioResult[]) => {
         };
     }, [audioResults]);
 
+    // Release the master bus on unmount
+    useEffect(() => () => {
+        masterBusRef.current?.disconnect();
+        masterBusRef.current = null;
+    }, []);
+
+    // Keep tempo-synced delays in time with the stems, which the playback rate speeds up or slows down
+    useEffect(() => {
+        state.tracks.forEach((track) => track.effectsChain?.setTempo(tempo * state.playbackRate));
+    }, [tempo, state.playbackRate, state.tracks]);
+
     // Update current time during playback
     const updateTime = useCallback(() => {
         if (!audioContextRef.current || !state.isPlaying) return;
 
-        const elapsed = audioContextRef.current.currentTime - startTimeRef.current;
-        const currentTime = pauseTimeRef.current + elapsed;
+        const currentTime = getPlayingPosition();
 
-        if (currentTime >= state.duration) {
+        if (!loopRef.current && currentTime >= state.duration) {
             // Playback ended
             setState((prev) => ({
                 ...prev,
@@ -170,7 +331,52 @@ export const useAudioMixer = (audioResults: InstrumentAudioResult[]) => {
         }));
 
         animationFrameRef.current = requestAnimationFrame(updateTime);
-    }, [state.isPlaying, state.duration]);
+    }, [state.isPlaying, state.duration, getPlayingPosition]);
+
+    // Schedule automation from the playhead while playing. Any change to the
+    // lanes, tracks, rate or loop drops what was scheduled and starts over.
+    useEffect(() => {
+        const ctx = audioContextRef.current;
+        if (!ctx) return;
+
+        const automated = new Set(
+            Array.from(state.tracks.keys()).filter((instrument) => hasAutomation(automation?.[instrument]))
+        );
+        state.tracks.forEach((track, instrument) => {
+            if (automated.has(instrument) || automatedRef.current.has(instrument)) {
+                resetAutomation(track, ctx.currentTime);
+            }
+        });
+        automatedRef.current = automated;
+
+        if (!state.isPlaying || automated.size === 0) return;
+
+        // Schedule whole passes; with a loop, keep a pass ahead of the playhead
+        const loop = state.loop;
+        const end = loop?.end ?? state.duration;
+        let from = getPlayingPosition();
+        let when = ctx.currentTime;
+        const scheduleAhead = () => {
+            while (when < ctx.currentTime + AUTOMATION_LOOKAHEAD) {
+                const window = { from, to: end, when, rate: state.playbackRate };
+                automated.forEach((instrument) => {
+                    const track = state.tracks.get(instrument);
+                    const lanes = automation?.[instrument];
+                    if (track && lanes) scheduleTrackAutomation(track, lanes, window);
+                });
+                if (!loop) return;
+
+                when += (end - from) / state.playbackRate;
+                from = loop.start;
+            }
+        };
+
+        scheduleAhead();
+        if (!loop) return;
+
+        const timer = setInterval(scheduleAhead, AUTOMATION_INTERVAL);
+        return () => clearInterval(timer);
+    }, [automation, state.tracks, state.isPlaying, state.loop, state.duration, state.playbackRate, getPlayingPosition]);
 
     // Start or resume playback
     const play = useCallback(() => {
@@ -193,13 +399,22 @@ export const useAudioMixer = (audioResults: InstrumentAudioResult[]) => {
         });
         sourceNodesRef.current.clear();
 
+        const loop = loopRef.current;
+        pauseTimeRef.current = loopStartPosition(pauseTimeRef.current, loop);
+
         // Create new source nodes for each track
         state.tracks.forEach((track, instrument) => {
-            if (!track.buffer || !track.gainNode) return;
+            if (!track.buffer || !track.effectsChain) return;
 
             const source = ctx.createBufferSource();
             source.buffer = track.buffer;
-            source.connect(track.gainNode);
+            source.playbackRate.value = playbackRateRef.current;
+            if (loop) {
+                source.loop = true;
+                source.loopStart = loop.start;
+                source.loopEnd = loop.end;
+            }
+            source.connect(track.effectsChain.input);
 
             // Start from pause position
             source.start(0, pauseTimeRef.current);
@@ -217,8 +432,7 @@ export const useAudioMixer = (audioResults: InstrumentAudioResult[]) => {
     const pause = useCallback(() => {
         if (!audioContextRef.current) return;
 
-        const elapsed = audioContextRef.current.currentTime - startTimeRef.current;
-        pauseTimeRef.current += elapsed;
+        pauseTimeRef.current = getPlayingPosition();
 
         // Stop all sources
         sourceNodesRef.current.forEach((source) => {
@@ -235,7 +449,7 @@ export const useAudioMixer = (audioResults: InstrumentAudioResult[]) => {
         }
 
         setState((prev) => ({ ...prev, isPlaying: false }));
-    }, []);
+    }, [getPlayingPosition]);
 
     // Seek to position
     const seek = useCallback((time: number) => {
@@ -254,41 +468,109 @@ export const useAudioMixer = (audioResults: InstrumentAudioResult[]) => {
         }
     }, [state.isPlaying, state.duration, pause, play]);
 
+    // Update a track's volume, mute or solo and re-apply every gain (solo affects them all)
+    const updateTrack = useCallback((
+        instrument: Instrument,
+        changes: Partial<Pick<TrackState, 'volume' | 'muted' | 'soloed'>>
+    ) => {
+        setState((prev) => {
+            const existingTrack = prev.tracks.get(instrument);
+            if (!existingTrack?.gainNode) return prev;
+
+            const newTracks = new Map(prev.tracks);
+            newTracks.set(instrument, { ...existingTrack, ...changes });
+            applyGains(newTracks);
+            return { ...prev, tracks: newTracks };
+        });
+    }, []);
+
     // Set volume for a track
     const setTrackVolume = useCallback((instrument: Instrument, volume: number) => {
+        updateTrack(instrument, { volume: Math.max(0, Math.min(1, volume)) });
+    }, [updateTrack]);
+
+    // Set stereo pan for a track
+    const setTrackPan = useCallback((instrument: Instrument, pan: number) => {
         const track = state.tracks.get(instrument);
-        if (track?.gainNode) {
-            const clampedVolume = Math.max(0, Math.min(1, volume));
-            track.gainNode.gain.value = track.muted ? 0 : clampedVolume;
+        if (track?.pannerNode) {
+            const clampedPan = clampPan(pan);
+            track.pannerNode.pan.value = getPanOffset(instrument, clampedPan);
 
             setState((prev) => {
                 const newTracks = new Map(prev.tracks);
                 const existingTrack = newTracks.get(instrument);
                 if (existingTrack) {
-                    newTracks.set(instrument, { ...existingTrack, volume: clampedVolume });
+                    newTracks.set(instrument, { ...existingTrack, pan: clampedPan });
                 }
                 return { ...prev, tracks: newTracks };
             });
         }
     }, [state.tracks]);
 
+    // Set the insert effects for a track
+    const setTrackEffects = useCallback((instrument: Instrument, effects: TrackEffects) => {
+        const track = state.tracks.get(instrument);
+        if (!track?.effectsChain) return;
+
+        track.effectsChain.update(effects);
+        setState((prev) => {
+            const existingTrack = prev.tracks.get(instrument);
+            if (!existingTrack) return prev;
+
+            const newTracks = new Map(prev.tracks);
+            newTracks.set(instrument, { ...existingTrack, effects });
+            return { ...prev, tracks: newTracks };
+        });
+    }, [state.tracks]);
+
     // Toggle mute for a track
     const toggleMute = useCallback((instrument: Instrument) => {
         const track = state.tracks.get(instrument);
-        if (track?.gainNode) {
-            const newMuted = !track.muted;
-            track.gainNode.gain.value = newMuted ? 0 : track.volume;
+        if (track) updateTrack(instrument, { muted: !track.muted });
+    }, [state.tracks, updateTrack]);
 
-            setState((prev) => {
-                const newTracks = new Map(prev.tracks);
-                const existingTrack = newTracks.get(instrument);
-                if (existingTrack) {
-                    newTracks.set(instrument, { ...existingTrack, muted: newMuted });
-                }
-                return { ...prev, tracks: newTracks };
+    // Toggle solo for a track
+    const toggleSolo = useCallback((instrument: Instrument) => {
+        const track = state.tracks.get(instrument);
+        if (track) updateTrack(instrument, { soloed: !track.soloed });
+    }, [state.tracks, updateTrack]);
+
+    // Repeat a region, or play straight through with null; playing sources restart to pick it up
+    const setLoop = useCallback((loop: LoopRegion | null) => {
+        const region = normalizeLoop(loop, state.duration);
+        const wasPlaying = state.isPlaying;
+
+        if (wasPlaying) {
+            pause();
+        }
+
+        loopRef.current = region;
+        pauseTimeRef.current = loopStartPosition(pauseTimeRef.current, region);
+        setState((prev) => ({ ...prev, loop: region, currentTime: pauseTimeRef.current }));
+
+        if (wasPlaying) {
+            setTimeout(play, 10);
+        }
+    }, [state.duration, state.isPlaying, pause, play]);
+
+    // Change the practice playback rate
+    const setPlaybackRate = useCallback((rate: number) => {
+        const clampedRate = clampPlaybackRate(rate);
+
+        if (state.isPlaying && audioContextRef.current) {
+            // Fold the time played so far at the old rate into the pause position
+            pauseTimeRef.current = getPlayingPosition();
+            startTimeRef.current = audioContextRef.current.currentTime;
+            sourceNodesRef.current.forEach((source) => {
+                source.playbackRate.value = clampedRate;
             });
         }
-    }, [state.tracks]);
+        playbackRateRef.current = clampedRate;
+        setState((prev) => ({ ...prev, playbackRate: clampedRate }));
+    }, [state.isPlaying, getPlayingPosition]);
+
+    // Read by the meters on every animation frame, so it isn't kept in state
+    const getMeter = useCallback((): MeterReading | null => masterBusRef.current?.getMeter() ?? null, []);
 
     // Toggle play/pause
     const togglePlay = useCallback(() => {
@@ -307,11 +589,19 @@ export const useAudioMixer = (audioResults: InstrumentAudioResult[]) => {
         failedTracks: state.failedTracks,
         isReady: state.isReady,
         hasPartialFailure: state.failedTracks.size > 0 && state.tracks.size > 0,
+        loop: state.loop,
+        playbackRate: state.playbackRate,
         play,
         pause,
         togglePlay,
         seek,
         setTrackVolume,
+        setTrackPan,
+        setTrackEffects,
         toggleMute,
+        toggleSolo,
+        setLoop,
+        setPlaybackRate,
+        getMeter,
     };
 };
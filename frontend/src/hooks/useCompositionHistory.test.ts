@@ -2,26 +2,31 @@ import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { renderHook, act, waitFor } from '@testing-library/react';
 import type { CompositionParams, Composition, InstrumentAudioResult } from '../types/music';
 import { STORAGE } from '../config/constants';
-
-// Mock localStorage
-const localStorageMock = {
-    getItem: vi.fn(),
-    setItem: vi.fn(),
-    removeItem: vi.fn(),
-    clear: vi.fn(),
-};
-Object.defineProperty(window, 'localStorage', { value: localStorageMock });
-
-// Mock validateHistoryData
-vi.mock('../utils/validation', () => ({
-    validateHistoryData: vi.fn((data) => data),
-}));
+import { SYNTH_VERSION } from '../audio/synthesizer';
+
+// Mock the IndexedDB store; createHistoryEntry is pure and stays real
+vi.mock('../services/historyStore', async (importOriginal) => {
+    const actual = await importOriginal<typeof import('../services/historyStore')>();
+    return {
+        createHistoryEntry: actual.createHistoryEntry,
+        listEntries: vi.fn(),
+        selectEvictions: actual.selectEvictions,
+        saveEntry: vi.fn(),
+        updateEntry: vi.fn(),
+        loadAudio: vi.fn(),
+        deleteEntries: vi.fn(),
+        clearEntries: vi.fn(),
+        trimEntries: vi.fn(),
+        getStorageUsage: vi.fn(),
+        migrateLocalStorageHistory: vi.fn(),
+    };
+});
 
 import { useCompositionHistory } from './useCompositionHistory';
 import type { SavedComposition } from './useCompositionHistory';
-import { validateHistoryData } from '../utils/validation';
+import * as historyStore from '../services/historyStore';
 
-const mockedValidateHistoryData = vi.mocked(validateHistoryData);
+const store = vi.mocked(historyStore);
 
 // Helper to create mock composition params
 const createMockParams = (overrides?: Partial<CompositionParams>): CompositionParams => ({
@@ -52,15 +57,36 @@ const createMockSavedComposition = (id: string, createdAt?: number): SavedCompos
     id,
     params: createMockParams(),
     composition: createMockComposition(),
-    audioResults: createMockAudioResults(),
+    instruments: ['erhu'],
+    seeds: { erhu: 12345 },
+    synthVersion: SYNTH_VERSION,
+    tags: [],
+    favorite: false,
+    audioSize: 1,
     createdAt: createdAt || Date.now(),
 });
 
+const renderLoadedHook = async (entries: SavedComposition[], maxEntries?: number) => {
+    store.listEntries.mockResolvedValue(entries);
+    const hook = renderHook(() => useCompositionHistory({ maxEntries }));
+    await waitFor(() => {
+        expect(hook.result.current.usage).not.toBeNull();
+    });
+    return hook;
+};
+
 describe('useCompositionHistory', () => {
     beforeEach(() => {
         vi.clearAllMocks();
-        localStorageMock.getItem.mockReturnValue(null);
-        mockedValidateHistoryData.mockImplementation((data) => data as SavedComposition[]);
+        store.listEntries.mockResolvedValue([]);
+        store.saveEntry.mockResolvedValue(undefined);
+        store.updateEntry.mockResolvedValue(undefined);
+        store.loadAudio.mockResolvedValue([]);
+        store.deleteEntries.mockResolvedValue(undefined);
+        store.clearEntries.mockResolvedValue(undefined);
+        store.trimEntries.mockResolvedValue([]);
+        store.getStorageUsage.mockResolvedValue({ entries: 0, audioBytes: 0 });
+        store.migrateLocalStorageHistory.mockResolvedValue(0);
     });
 
     afterEach(() => {
@@ -68,90 +94,85 @@ describe('useCompositionHistory', () => {
     });
 
     describe('Initial State', () => {
-        it('returns empty history array initially', () => {
+        it('returns empty history array initially', async () => {
             const { result } = renderHook(() => useCompositionHistory());
 
             expect(result.current.history).toEqual([]);
+            expect(result.current.usage).toBeNull();
+
+            // Let the mount load settle
+            await waitFor(() => {
+                expect(result.current.usage).not.toBeNull();
+            });
         });
 
-        it('provides all CRUD functions', () => {
+        it('provides all CRUD functions', async () => {
             const { result } = renderHook(() => useCompositionHistory());
 
             expect(typeof result.current.saveComposition).toBe('function');
             expect(typeof result.current.deleteComposition).toBe('function');
             expect(typeof result.current.clearHistory).toBe('function');
             expect(typeof result.current.getComposition).toBe('function');
+            expect(typeof result.current.loadAudio).toBe('function');
+
+            // Let the mount load settle
+            await waitFor(() => {
+                expect(result.current.usage).not.toBeNull();
+            });
         });
     });
 
-    describe('Load from localStorage', () => {
-        it('loads valid history from localStorage on mount', async () => {
-            const existingHistory = [createMockSavedComposition('comp_1')];
-            localStorageMock.getItem.mockReturnValue(JSON.stringify(existingHistory));
-
-            const { result } = renderHook(() => useCompositionHistory());
+    describe('Load from IndexedDB', () => {
+        it('loads stored history on mount', async () => {
+            const { result } = await renderLoadedHook([createMockSavedComposition('comp_1')]);
 
-            await waitFor(() => {
-                expect(result.current.history).toHaveLength(1);
-            });
+            expect(result.current.history).toHaveLength(1);
             expect(result.current.history[0].id).toBe('comp_1');
         });
 
-        it('handles empty localStorage gracefully', () => {
-            localStorageMock.getItem.mockReturnValue(null);
+        it('reports storage usage after loading', async () => {
+            store.getStorageUsage.mockResolvedValue({ entries: 1, audioBytes: 2048, quotaBytes: 10_000 });
 
-            const { result } = renderHook(() => useCompositionHistory());
+            const { result } = await renderLoadedHook([createMockSavedComposition('comp_1')]);
 
-            expect(result.current.history).toEqual([]);
+            expect(result.current.usage).toEqual({ entries: 1, audioBytes: 2048, quotaBytes: 10_000 });
         });
 
-        it('handles invalid JSON in localStorage', () => {
-            const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
-            localStorageMock.getItem.mockReturnValue('not valid json{{{');
+        it('migrates localStorage history before listing', async () => {
+            store.migrateLocalStorageHistory.mockResolvedValue(3);
 
-            const { result } = renderHook(() => useCompositionHistory());
+            await renderLoadedHook([], 2);
 
-            expect(result.current.history).toEqual([]);
-            expect(consoleSpy).toHaveBeenCalled();
+            expect(store.migrateLocalStorageHistory).toHaveBeenCalledTimes(1);
+            expect(store.trimEntries).toHaveBeenCalledWith(2);
+            expect(store.migrateLocalStorageHistory.mock.invocationCallOrder[0])
+                .toBeLessThan(store.listEntries.mock.invocationCallOrder[0]);
         });
 
-        it('filters out invalid entries via validateHistoryData', async () => {
-            const mixedData = [
-                createMockSavedComposition('valid_1'),
-                { invalid: 'entry' },
-                createMockSavedComposition('valid_2'),
-            ];
-            localStorageMock.getItem.mockReturnValue(JSON.stringify(mixedData));
-            mockedValidateHistoryData.mockReturnValue([
-                createMockSavedComposition('valid_1'),
-                createMockSavedComposition('valid_2'),
-            ]);
-
-            const { result } = renderHook(() => useCompositionHistory());
+        it('does not trim when nothing was migrated', async () => {
+            await renderLoadedHook([]);
 
-            await waitFor(() => {
-                expect(result.current.history).toHaveLength(2);
-            });
+            expect(store.trimEntries).not.toHaveBeenCalled();
         });
 
-        it('logs error when localStorage.getItem throws', () => {
+        it('logs error and keeps an empty history when loading fails', async () => {
             const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
-            localStorageMock.getItem.mockImplementation(() => {
-                throw new Error('localStorage disabled');
-            });
+            store.listEntries.mockRejectedValue(new Error('IndexedDB is not available'));
 
             const { result } = renderHook(() => useCompositionHistory());
 
+            await waitFor(() => {
+                expect(consoleSpy).toHaveBeenCalled();
+            });
             expect(result.current.history).toEqual([]);
-            expect(consoleSpy).toHaveBeenCalled();
         });
     });
 
     describe('saveComposition()', () => {
-        it('adds composition to history', () => {
+        it('adds composition to history', async () => {
             const { result } = renderHook(() => useCompositionHistory());
 
-            act(() => {
+            await act(async () => {
                 result.current.saveComposition(
                     createMockParams(),
                     createMockComposition(),
@@ -160,12 +181,15 @@ describe('useCompositionHistory', () => {
             });
 
             expect(result.current.history).toHaveLength(1);
+            expect(result.current.history[0].instruments).toEqual(['erhu']);
+            expect(result.current.history[0].seeds).toEqual({ erhu: 12345 });
+            expect(result.current.history[0].synthVersion).toBe(SYNTH_VERSION);
         });
 
-        it('generates unique id with comp_ prefix', () => {
+        it('generates unique id with comp_ prefix', async () => {
             const { result } = renderHook(() => useCompositionHistory());
 
-            act(() => {
+            await act(async () => {
                 result.current.saveComposition(
                     createMockParams(),
                     createMockComposition(),
@@ -176,11 +200,11 @@ describe('useCompositionHistory', () => {
             expect(result.current.history[0].id).toMatch(/^comp_\d+_[a-z0-9]+$/);
         });
 
-        it('sets createdAt timestamp', () => {
+        it('sets createdAt timestamp', async () => {
             const now = Date.now();
             const { result } = renderHook(() => useCompositionHistory());
 
-            act(() => {
+            await act(async () => {
                 result.current.saveComposition(
                     createMockParams(),
                     createMockComposition(),
@@ -192,13 +216,10 @@ describe('useCompositionHistory', () => {
             expect(result.current.history[0].createdAt).toBeLessThanOrEqual(now + 1000);
         });
 
-        it('prepends new composition (newest first)', () => {
-            const existingHistory = [createMockSavedComposition('old_comp')];
-            localStorageMock.getItem.mockReturnValue(JSON.stringify(existingHistory));
+        it('prepends new composition (newest first)', async () => {
+            const { result } = await renderLoadedHook([createMockSavedComposition('old_comp')]);
 
-            const { result } = renderHook(() => useCompositionHistory());
-
-            act(() => {
+            await act(async () => {
                 result.current.saveComposition(
                     createMockParams({ mode: 'shang' }),
                     createMockComposition(),
@@ -210,20 +231,50 @@ describe('useCompositionHistory', () => {
             expect(result.current.history[1].id).toBe('old_comp');
         });
 
-        it('limits history to MAX_HISTORY items', async () => {
-            // Create MAX_HISTORY existing items
-            const existingHistory = Array.from({ length: STORAGE.MAX_HISTORY }, (_, i) =>
+        it('limits history to maxEntries items', async () => {
+            const existingHistory = Array.from({ length: 3 }, (_, i) =>
                 createMockSavedComposition(`comp_${i}`)
             );
-            localStorageMock.getItem.mockReturnValue(JSON.stringify(existingHistory));
+            const { result } = await renderLoadedHook(existingHistory, 3);
 
-            const { result } = renderHook(() => useCompositionHistory());
+            await act(async () => {
+                result.current.saveComposition(
+                    createMockParams(),
+                    createMockComposition(),
+                    createMockAudioResults()
+                );
+            });
 
-            await waitFor(() => {
-                expect(result.current.history).toHaveLength(STORAGE.MAX_HISTORY);
+            // Should still be 3, oldest one dropped
+            expect(result.current.history).toHaveLength(3);
+            expect(result.current.history.map((item) => item.id)).not.toContain('comp_2');
+        });
+
+        it('keeps favorites when the cap is reached', async () => {
+            const existingHistory = [
+                createMockSavedComposition('comp_0'),
+                { ...createMockSavedComposition('comp_1'), favorite: true },
+            ];
+            const { result } = await renderLoadedHook(existingHistory, 2);
+
+            await act(async () => {
+                result.current.saveComposition(
+                    createMockParams(),
+                    createMockComposition(),
+                    createMockAudioResults()
+                );
             });
 
-            act(() => {
+            expect(result.current.history.map((item) => item.id)).toEqual([
+                expect.stringMatching(/^comp_\d+_/),
+                'comp_1',
+            ]);
+        });
+
+        it('defaults maxEntries to STORAGE.MAX_HISTORY', async () => {
+            const { result } = renderHook(() => useCompositionHistory());
+
+            await act(async () => {
                 result.current.saveComposition(
                     createMockParams(),
                     createMockComposition(),
@@ -231,15 +282,45 @@ describe('useCompositionHistory', () => {
                 );
             });
 
-            // Should still be MAX_HISTORY, oldest one dropped
-            expect(result.current.history).toHaveLength(STORAGE.MAX_HISTORY);
-            expect(result.current.history[0].id).toMatch(/^comp_\d+_/);
+            await waitFor(() => {
+                expect(store.trimEntries).toHaveBeenCalledWith(STORAGE.MAX_HISTORY);
+            });
+        });
+
+        it('persists the entry without audio by default, then trims the store', async () => {
+            const { result } = renderHook(() => useCompositionHistory({ maxEntries: 5 }));
+            let saved: SavedComposition | undefined;
+
+            await act(async () => {
+                saved = result.current.saveComposition(createMockParams(), createMockComposition(), createMockAudioResults());
+            });
+
+            expect(saved?.audioSize).toBe(0);
+            expect(store.saveEntry).toHaveBeenCalledWith(saved, []);
+            await waitFor(() => {
+                expect(store.trimEntries).toHaveBeenCalledWith(5);
+            });
         });
 
-        it('persists to localStorage after save', () => {
+        it('persists the audio when saveAudio is set', async () => {
+            const { result } = renderHook(() => useCompositionHistory({ saveAudio: true }));
+            const audioResults = createMockAudioResults();
+            let saved: SavedComposition | undefined;
+
+            await act(async () => {
+                saved = result.current.saveComposition(createMockParams(), createMockComposition(), audioResults);
+            });
+
+            expect(saved?.audioSize).toBe(1);
+            expect(store.saveEntry).toHaveBeenCalledWith(saved, audioResults);
+        });
+
+        it('logs error when persisting fails', async () => {
+            const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+            store.saveEntry.mockRejectedValue(new Error('QuotaExceededError'));
             const { result } = renderHook(() => useCompositionHistory());
 
-            act(() => {
+            await act(async () => {
                 result.current.saveComposition(
                     createMockParams(),
                     createMockComposition(),
@@ -247,17 +328,16 @@ describe('useCompositionHistory', () => {
                 );
             });
 
-            expect(localStorageMock.setItem).toHaveBeenCalledWith(
-                STORAGE.HISTORY_KEY,
-                expect.any(String)
-            );
+            await waitFor(() => {
+                expect(consoleSpy).toHaveBeenCalledWith('Failed to save composition history:', expect.any(Error));
+            });
         });
 
-        it('returns the saved composition with id', () => {
+        it('returns the saved composition with id', async () => {
             const { result } = renderHook(() => useCompositionHistory());
             let saved: SavedComposition | undefined;
 
-            act(() => {
+            await act(async () => {
                 saved = result.current.saveComposition(
                     createMockParams(),
                     createMockComposition(),
@@ -271,21 +351,43 @@ describe('useCompositionHistory', () => {
         });
     });
 
-    describe('deleteComposition()', () => {
-        it('removes composition by id', async () => {
-            const existingHistory = [
+    describe('updateComposition()', () => {
+        it('updates the entry in state and in the store', async () => {
+            const { result } = await renderLoadedHook([
                 createMockSavedComposition('comp_1'),
                 createMockSavedComposition('comp_2'),
-            ];
-            localStorageMock.getItem.mockReturnValue(JSON.stringify(existingHistory));
+            ]);
 
-            const { result } = renderHook(() => useCompositionHistory());
+            await act(async () => {
+                result.current.updateComposition('comp_2', { title: 'Dawn', tags: ['keeper'], favorite: true });
+            });
 
-            await waitFor(() => {
-                expect(result.current.history).toHaveLength(2);
+            expect(result.current.history[1]).toMatchObject({ title: 'Dawn', tags: ['keeper'], favorite: true });
+            expect(result.current.history[0].title).toBeUndefined();
+            expect(store.updateEntry).toHaveBeenCalledWith('comp_2', { title: 'Dawn', tags: ['keeper'], favorite: true });
+        });
+
+        it('logs error when the update fails', async () => {
+            const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+            store.updateEntry.mockRejectedValue(new Error('Transaction aborted'));
+            const { result } = await renderLoadedHook([createMockSavedComposition('comp_1')]);
+
+            await act(async () => {
+                result.current.updateComposition('comp_1', { favorite: true });
             });
 
-            act(() => {
+            expect(consoleSpy).toHaveBeenCalledWith('Failed to update composition:', expect.any(Error));
+        });
+    });
+
+    describe('deleteComposition()', () => {
+        it('removes composition by id', async () => {
+            const { result } = await renderLoadedHook([
+                createMockSavedComposition('comp_1'),
+                createMockSavedComposition('comp_2'),
+            ]);
+
+            await act(async () => {
                 result.current.deleteComposition('comp_1');
             });
 
@@ -294,236 +396,69 @@ describe('useCompositionHistory', () => {
         });
 
         it('does nothing if id not found', async () => {
-            const existingHistory = [createMockSavedComposition('comp_1')];
-            localStorageMock.getItem.mockReturnValue(JSON.stringify(existingHistory));
-
-            const { result } = renderHook(() => useCompositionHistory());
-
-            await waitFor(() => {
-                expect(result.current.history).toHaveLength(1);
-            });
+            const { result } = await renderLoadedHook([createMockSavedComposition('comp_1')]);
 
-            act(() => {
+            await act(async () => {
                 result.current.deleteComposition('nonexistent');
             });
 
             expect(result.current.history).toHaveLength(1);
         });
 
-        it('persists to localStorage after delete', async () => {
-            const existingHistory = [createMockSavedComposition('comp_1')];
-            localStorageMock.getItem.mockReturnValue(JSON.stringify(existingHistory));
+        it('deletes the entry from the store', async () => {
+            const { result } = await renderLoadedHook([createMockSavedComposition('comp_1')]);
 
-            const { result } = renderHook(() => useCompositionHistory());
-
-            await waitFor(() => {
-                expect(result.current.history).toHaveLength(1);
-            });
-
-            vi.clearAllMocks();
-
-            act(() => {
+            await act(async () => {
                 result.current.deleteComposition('comp_1');
             });
 
-            expect(localStorageMock.setItem).toHaveBeenCalledWith(
-                STORAGE.HISTORY_KEY,
-                expect.any(String)
-            );
+            expect(store.deleteEntries).toHaveBeenCalledWith(['comp_1']);
         });
     });
 
     describe('clearHistory()', () => {
         it('removes all compositions', async () => {
-            const existingHistory = [
+            const { result } = await renderLoadedHook([
                 createMockSavedComposition('comp_1'),
                 createMockSavedComposition('comp_2'),
-            ];
-            localStorageMock.getItem.mockReturnValue(JSON.stringify(existingHistory));
-
-            const { result } = renderHook(() => useCompositionHistory());
-
-            await waitFor(() => {
-                expect(result.current.history).toHaveLength(2);
-            });
+            ]);
 
-            act(() => {
+            await act(async () => {
                 result.current.clearHistory();
             });
 
             expect(result.current.history).toHaveLength(0);
-        });
-
-        it('removes key from localStorage', async () => {
-            const existingHistory = [createMockSavedComposition('comp_1')];
-            localStorageMock.getItem.mockReturnValue(JSON.stringify(existingHistory));
-
-            const { result } = renderHook(() => useCompositionHistory());
-
-            await waitFor(() => {
-                expect(result.current.history).toHaveLength(1);
-            });
-
-            act(() => {
-                result.current.clearHistory();
-            });
-
-            expect(localStorageMock.removeItem).toHaveBeenCalledWith(STORAGE.HISTORY_KEY);
+            expect(store.clearEntries).toHaveBeenCalledTimes(1);
         });
     });
 
     describe('getComposition()', () => {
         it('returns composition by id', async () => {
-            const existingHistory = [
+            const { result } = await renderLoadedHook([
                 createMockSavedComposition('comp_1'),
                 createMockSavedComposition('comp_2'),
-            ];
-            localStorageMock.getItem.mockReturnValue(JSON.stringify(existingHistory));
-
-            const { result } = renderHook(() => useCompositionHistory());
-
-            await waitFor(() => {
-                expect(result.current.history).toHaveLength(2);
-            });
+            ]);
 
             const found = result.current.getComposition('comp_2');
             expect(found?.id).toBe('comp_2');
         });
 
         it('returns undefined if id not found', async () => {
-            const existingHistory = [createMockSavedComposition('comp_1')];
-            localStorageMock.getItem.mockReturnValue(JSON.stringify(existingHistory));
-
-            const { result } = renderHook(() => useCompositionHistory());
-
-            await waitFor(() => {
-                expect(result.current.history).toHaveLength(1);
-            });
+            const { result } = await renderLoadedHook([createMockSavedComposition('comp_1')]);
 
             const found = result.current.getComposition('nonexistent');
             expect(found).toBeUndefined();
         });
     });
 
-    describe('QuotaExceededError Handling', () => {
-        it('trims to FALLBACK_HISTORY on first quota error', () => {
-            const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
-            const { result } = renderHook(() => useCompositionHistory());
-
-            // First setItem fails with quota error
-            const quotaError = new DOMException('Quota exceeded', 'QuotaExceededError');
-            localStorageMock.setItem
-                .mockImplementationOnce(() => { throw quotaError; })
-                .mockImplementationOnce(() => {}); // Second call succeeds
-
-            act(() => {
-                result.current.saveComposition(
-                    createMockParams(),
-                    createMockComposition(),
-                    createMockAudioResults()
-                );
-            });
-
-            // Should have tried to save trimmed history
-            expect(localStorageMock.setItem).toHaveBeenCalledTimes(2);
-            expect(consoleSpy).toHaveBeenCalled();
-        });
-
-        it('clears all on second quota error', () => {
-            vi.spyOn(console, 'error').mockImplementation(() => {});
-            const { result } = renderHook(() => useCompositionHistory());
-
-            // Both setItem calls fail with quota error
-            const quotaError = new DOMException('Quota exceeded', 'QuotaExceededError');
-            localStorageMock.setItem.mockImplementation(() => { throw quotaError; });
-
-            act(() => {
-                result.current.saveComposition(
-                    createMockParams(),
-                    createMockComposition(),
-                    createMockAudioResults()
-                );
-            });
-
-            // Should have removed the key entirely
-            expect(localStorageMock.removeItem).toHaveBeenCalledWith(STORAGE.HISTORY_KEY);
-        });
-
-        it('updates state to cleared history on fallback failure', async () => {
-            vi.spyOn(console, 'error').mockImplementation(() => {});
-
-            // Start with existing history that will be trimmed
-            const existingHistory = Array.from({ length: 8 }, (_, i) =>
-                createMockSavedComposition(`comp_${i}`)
-            );
-            localStorageMock.getItem.mockReturnValue(JSON.stringify(existingHistory));
-
-            const { result } = renderHook(() => useCompositionHistory());
-
-            await waitFor(() => {
-                expect(result.current.history).toHaveLength(8);
-            });
-
-            // Both setItem calls fail with quota error
-            const quotaError = new DOMException('Quota exceeded', 'QuotaExceededError');
-            localStorageMock.setItem.mockImplementation(() => { throw quotaError; });
-
-            act(() => {
-                result.current.saveComposition(
-                    createMockParams(),
-                    createMockComposition(),
-                    createMockAudioResults()
-                );
-            });
-
-            // After double quota failure, history should be cleared
-            await waitFor(() => {
-                expect(result.current.history).toEqual([]);
-            });
-        });
-    });
-
-    describe('persistHistory Error Handling', () => {
-        it('logs error on general setItem failure', () => {
-            const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
-            localStorageMock.setItem.mockImplementation(() => {
-                throw new Error('Storage disabled');
-            });
-
-            const { result } = renderHook(() => useCompositionHistory());
-
-            act(() => {
-                result.current.saveComposition(
-                    createMockParams(),
-                    createMockComposition(),
-                    createMockAudioResults()
-                );
-            });
+    describe('loadAudio()', () => {
+        it('loads audio for an entry from the store', async () => {
+            const audioResults = createMockAudioResults();
+            store.loadAudio.mockResolvedValue(audioResults);
+            const { result } = await renderLoadedHook([createMockSavedComposition('comp_1')]);
 
-            expect(consoleSpy).toHaveBeenCalled();
-        });
-
-        it('does not crash when localStorage.setItem throws', () => {
-            vi.spyOn(console, 'error').mockImplementation(() => {});
-            localStorageMock.setItem.mockImplementation(() => {
-                throw new Error('Storage disabled');
-            });
-
-            const { result } = renderHook(() => useCompositionHistory());
-
-            // Should not throw
-            expect(() => {
-                act(() => {
-                    result.current.saveComposition(
-                        createMockParams(),
-                        createMockComposition(),
-                        createMockAudioResults()
-                    );
-                });
-            }).not.toThrow();
-
-            // State should still be updated even if persistence failed
-            expect(result.current.history).toHaveLength(1);
+            await expect(result.current.loadAudio('comp_1')).resolves.toEqual(audioResults);
+            expect(store.loadAudio).toHaveBeenCalledWith('comp_1');
         });
     });
 });
@@ -1,102 +1,171 @@
 import { useState, useCallback, useEffect } from 'react';
 import type { CompositionParams, Composition, InstrumentAudioResult } from '../types/music';
 import { STORAGE } from '../config/constants';
-import { validateHistoryData } from '../utils/validation';
-
-export interface SavedComposition {
-    id: string;
-    params: CompositionParams;
-    composition: Composition;
-    audioResults: InstrumentAudioResult[];
-    createdAt: number;
+import {
+    createHistoryEntry,
+    selectEvictions,
+    listEntries,
+    saveEntry,
+    updateEntry,
+    loadAudio as loadStoredAudio,
+    deleteEntries,
+    clearEntries,
+    trimEntries,
+    getStorageUsage,
+    migrateLocalStorageHistory,
+} from '../services/historyStore';
+import type { HistoryEntry, HistoryEntryChanges, HistoryEntryOptions, StorageUsage } from '../services/historyStore';
+
+/** A history entry; any stored audio is loaded on demand with `loadAudio` */
+export type SavedComposition = HistoryEntry;
+
+export interface CompositionHistoryOptions {
+    /** Maximum number of compositions to keep (default: STORAGE.MAX_HISTORY) */
+    maxEntries?: number;
+    /** Store rendered audio with each entry (default: STORAGE.SAVE_AUDIO) */
+    saveAudio?: boolean;
 }
 
 const generateId = (): string => {
     return `comp_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
 };
 
-export const useCompositionHistory = () => {
+/**
+ * Drop the entries the history cap would evict, keeping favorites.
+ */
+const applyCap = (entries: SavedComposition[], maxEntries: number): SavedComposition[] => {
+    const evicted = new Set(selectEvictions(entries, maxEntries));
+    return evicted.size > 0 ? entries.filter((entry) => !evicted.has(entry.id)) : entries;
+};
+
+/**
+ * Hook for the composition history, persisted in IndexedDB.
+ *
+ * The list holds only metadata; audio stays in storage until `loadAudio` is
+ * called for an entry. Unless `saveAudio` is set, only params, composition,
+ * seeds and the synth version are stored and entries are re-rendered when
+ * opened. History saved to localStorage by earlier versions is migrated on
+ * first load.
+ */
+export const useCompositionHistory = ({
+    maxEntries = STORAGE.MAX_HISTORY,
+    saveAudio = STORAGE.SAVE_AUDIO,
+}: CompositionHistoryOptions = {}) => {
     const [history, setHistory] = useState<SavedComposition[]>([]);
+    const [usage, setUsage] = useState<StorageUsage | null>(null);
 
-    // Load history from localStorage on mount
-    useEffect(() => {
+    const refreshUsage = useCallback(async () => {
         try {
-            const stored = localStorage.getItem(STORAGE.HISTORY_KEY);
-            if (stored) {
-                const parsed = validateHistoryData(JSON.parse(stored));
-                setHistory(parsed);
-            }
+            setUsage(await getStorageUsage());
         } catch (error) {
-            console.error('Failed to load composition history:', error);
+            console.error('Failed to read history storage usage:', error);
         }
     }, []);
 
-    // Persist history to localStorage
-    const persistHistory = useCallback((newHistory: SavedComposition[]) => {
-        try {
-            localStorage.setItem(STORAGE.HISTORY_KEY, JSON.stringify(newHistory));
-        } catch (error) {
-            console.error('Failed to save composition history:', error);
-            // If storage is full, try removing oldest entries
-            if (error instanceof DOMException && error.name === 'QuotaExceededError') {
-                const trimmed = newHistory.slice(-STORAGE.FALLBACK_HISTORY);
-                try {
-                    localStorage.setItem(STORAGE.HISTORY_KEY, JSON.stringify(trimmed));
-                    setHistory(trimmed);
-                } catch {
-                    // If still failing, clear all
-                    localStorage.removeItem(STORAGE.HISTORY_KEY);
-                    setHistory([]);
+    // Load history from IndexedDB on mount, migrating any localStorage history first
+    useEffect(() => {
+        let cancelled = false;
+
+        const load = async () => {
+            try {
+                const migrated = await migrateLocalStorageHistory();
+                if (migrated > 0) {
+                    await trimEntries(maxEntries);
+                }
+
+                const entries = await listEntries();
+                if (!cancelled) {
+                    // Keep anything saved while the store was still loading
+                    setHistory((prev) => {
+                        const stored = new Set(entries.map((entry) => entry.id));
+                        return applyCap([...prev.filter((item) => !stored.has(item.id)), ...entries], maxEntries);
+                    });
+                    await refreshUsage();
                 }
+            } catch (error) {
+                console.error('Failed to load composition history:', error);
             }
-        }
-    }, []);
+        };
 
+        load();
+        return () => {
+            cancelled = true;
+        };
+    }, [maxEntries, refreshUsage]);
+
+    /**
+     * Save a composition. `metadata` sets an initial title, tags or favorite
+     * (e.g. from a project file); `seeds` records instruments played live.
+     */
     const saveComposition = useCallback((
         params: CompositionParams,
         composition: Composition,
-        audioResults: InstrumentAudioResult[]
+        audioResults: InstrumentAudioResult[],
+        { metadata, seeds }: Pick<HistoryEntryOptions, 'metadata' | 'seeds'> = {}
     ): SavedComposition => {
-        const saved: SavedComposition = {
-            id: generateId(),
-            params,
-            composition,
-            audioResults,
-            createdAt: Date.now(),
-        };
-
-        setHistory((prev) => {
-            // Keep only the most recent MAX_HISTORY items
-            const newHistory = [saved, ...prev].slice(0, STORAGE.MAX_HISTORY);
-            persistHistory(newHistory);
-            return newHistory;
+        const saved = createHistoryEntry(generateId(), params, composition, audioResults, {
+            withAudio: saveAudio,
+            metadata,
+            seeds,
         });
 
+        // Keep only the most recent maxEntries items, plus favorites
+        setHistory((prev) => applyCap([saved, ...prev], maxEntries));
+
+        saveEntry(saved, saveAudio ? audioResults : [])
+            .then(() => trimEntries(maxEntries))
+            .then(refreshUsage)
+            .catch((error) => console.error('Failed to save composition history:', error));
+
         return saved;
-    }, [persistHistory]);
+    }, [maxEntries, saveAudio, refreshUsage]);
+
+    /**
+     * Rename, retag, (un)favorite an entry or save its automation or effects.
+     */
+    const updateComposition = useCallback((id: string, changes: HistoryEntryChanges) => {
+        setHistory((prev) => prev.map((item) => (item.id === id ? { ...item, ...changes } : item)));
+
+        updateEntry(id, changes)
+            .catch((error) => console.error('Failed to update composition:', error));
+    }, []);
 
     const deleteComposition = useCallback((id: string) => {
-        setHistory((prev) => {
-            const newHistory = prev.filter((item) => item.id !== id);
-            persistHistory(newHistory);
-            return newHistory;
-        });
-    }, [persistHistory]);
+        setHistory((prev) => prev.filter((item) => item.id !== id));
+
+        deleteEntries([id])
+            .then(refreshUsage)
+            .catch((error) => console.error('Failed to delete composition:', error));
+    }, [refreshUsage]);
 
     const clearHistory = useCallback(() => {
         setHistory([]);
-        localStorage.removeItem(STORAGE.HISTORY_KEY);
-    }, []);
+
+        clearEntries()
+            .then(refreshUsage)
+            .catch((error) => console.error('Failed to clear composition history:', error));
+    }, [refreshUsage]);
 
     const getComposition = useCallback((id: string): SavedComposition | undefined => {
         return history.find((item) => item.id === id);
     }, [history]);
 
+    /**
+     * Load the stored audio for an entry.
+     * Resolves to an empty array if the entry has none and must be re-rendered.
+     */
+    const loadAudio = useCallback((id: string): Promise<InstrumentAudioResult[]> => {
+        return loadStoredAudio(id);
+    }, []);
+
     return {
         history,
+        usage,
         saveComposition,
+        updateComposition,
         deleteComposition,
         clearHistory,
         getComposition,
+        loadAudio,
     };
 };
@@ -3,6 +3,7 @@ import { renderHook, act, waitFor } from '@testing-library/react';
 import { useGeneration } from './useGeneration';
 import { mockComposition, mockParams, mockAudioResult } from '../test/utils';
 import { ApiError, GenerationError } from '../types/errors';
+import { RenderAbortedError } from '../audio';
 import type { Instrument } from '../types/music';
 
 // Mock the API module
@@ -17,6 +18,8 @@ import { composeMusic, synthesizeAudio } from '../services/api';
 const mockedComposeMusic = composeMusic as ReturnType<typeof vi.fn>;
 const mockedSynthesizeAudio = synthesizeAudio as ReturnType<typeof vi.fn>;
 
+const renderOptions = expect.objectContaining({ signal: expect.any(AbortSignal) });
+
 describe('useGeneration', () => {
     beforeEach(() => {
         vi.clearAllMocks();
@@ -24,7 +27,7 @@ describe('useGeneration', () => {
 
     describe('Initial State', () => {
         it('returns initial state with pending status', () => {
-            const { result } = renderHook(() => useGeneration());
+            const { result } = renderHook(() => useGeneration({ live: false }));
 
             expect(result.current.status).toBe('pending');
             expect(result.current.isGenerating).toBe(false);
@@ -36,7 +39,7 @@ describe('useGeneration', () => {
         });
 
         it('has empty steps array initially', () => {
-            const { result } = renderHook(() => useGeneration());
+            const { result } = renderHook(() => useGeneration({ live: false }));
 
             expect(result.current.steps).toEqual([]);
             expect(result.current.totalSteps).toBe(0);
@@ -47,7 +50,7 @@ describe('useGeneration', () => {
         it('sets status to composing when starting', async () => {
             mockedComposeMusic.mockImplementation(() => new Promise(() => {})); // Never resolves
 
-            const { result } = renderHook(() => useGeneration());
+            const { result } = renderHook(() => useGeneration({ live: false }));
 
             act(() => {
                 result.current.generate(mockParams);
@@ -61,7 +64,7 @@ describe('useGeneration', () => {
             mockedComposeMusic.mockResolvedValue(mockComposition);
             mockedSynthesizeAudio.mockResolvedValue(mockAudioResult);
 
-            const { result } = renderHook(() => useGeneration());
+            const { result } = renderHook(() => useGeneration({ live: false }));
 
             await act(async () => {
                 await result.current.generate(mockParams);
@@ -75,15 +78,15 @@ describe('useGeneration', () => {
             mockedComposeMusic.mockResolvedValue(mockComposition);
             mockedSynthesizeAudio.mockResolvedValue(mockAudioResult);
 
-            const { result } = renderHook(() => useGeneration());
+            const { result } = renderHook(() => useGeneration({ live: false }));
 
             await act(async () => {
                 await result.current.generate(params);
             });
 
             expect(mockedSynthesizeAudio).toHaveBeenCalledTimes(2);
-            expect(mockedSynthesizeAudio).toHaveBeenCalledWith(mockComposition, 'erhu', params);
-            expect(mockedSynthesizeAudio).toHaveBeenCalledWith(mockComposition, 'guzheng', params);
+            expect(mockedSynthesizeAudio).toHaveBeenCalledWith(mockComposition, 'erhu', params, renderOptions);
+            expect(mockedSynthesizeAudio).toHaveBeenCalledWith(mockComposition, 'guzheng', params, renderOptions);
         });
 
         it('updates audioResults as instruments complete', async () => {
@@ -91,7 +94,7 @@ describe('useGeneration', () => {
             mockedComposeMusic.mockResolvedValue(mockComposition);
             mockedSynthesizeAudio.mockResolvedValue(mockAudioResult);
 
-            const { result } = renderHook(() => useGeneration());
+            const { result } = renderHook(() => useGeneration({ live: false }));
 
             await act(async () => {
                 await result.current.generate(params);
@@ -105,7 +108,7 @@ describe('useGeneration', () => {
             mockedComposeMusic.mockResolvedValue(mockComposition);
             mockedSynthesizeAudio.mockResolvedValue(mockAudioResult);
 
-            const { result } = renderHook(() => useGeneration());
+            const { result } = renderHook(() => useGeneration({ live: false }));
 
             await act(async () => {
                 await result.current.generate(mockParams);
@@ -120,7 +123,7 @@ describe('useGeneration', () => {
             mockedComposeMusic.mockResolvedValue(mockComposition);
             mockedSynthesizeAudio.mockResolvedValue(mockAudioResult);
 
-            const { result } = renderHook(() => useGeneration());
+            const { result } = renderHook(() => useGeneration({ live: false }));
 
             let returnValue: unknown;
             await act(async () => {
@@ -133,6 +136,7 @@ describe('useGeneration', () => {
                     expect.objectContaining({ instrument: 'erhu' }),
                     expect.objectContaining({ instrument: 'guzheng' }),
                 ]),
+                seeds: { erhu: 12345, guzheng: 12345 },
             });
         });
 
@@ -140,7 +144,7 @@ describe('useGeneration', () => {
             mockedComposeMusic.mockResolvedValue(mockComposition);
             mockedSynthesizeAudio.mockResolvedValue(mockAudioResult);
 
-            const { result } = renderHook(() => useGeneration());
+            const { result } = renderHook(() => useGeneration({ live: false }));
 
             await act(async () => {
                 await result.current.generate(mockParams);
@@ -154,6 +158,119 @@ describe('useGeneration', () => {
         });
     });
 
+    describe('render()', () => {
+        it('synthesizes the given composition without composing', async () => {
+            mockedSynthesizeAudio.mockResolvedValue(mockAudioResult);
+
+            const { result } = renderHook(() => useGeneration({ live: false }));
+
+            let returnValue: unknown;
+            await act(async () => {
+                returnValue = await result.current.render(mockComposition, mockParams);
+            });
+
+            expect(mockedComposeMusic).not.toHaveBeenCalled();
+            expect(mockedSynthesizeAudio).toHaveBeenCalledWith(mockComposition, 'erhu', mockParams, renderOptions);
+            expect(mockedSynthesizeAudio).toHaveBeenCalledWith(mockComposition, 'guzheng', mockParams, renderOptions);
+            expect(returnValue).toEqual({
+                composition: mockComposition,
+                audioResults: [
+                    expect.objectContaining({ instrument: 'erhu' }),
+                    expect.objectContaining({ instrument: 'guzheng' }),
+                ],
+                seeds: { erhu: 12345, guzheng: 12345 },
+            });
+            expect(result.current.status).toBe('complete');
+            expect(result.current.composition).toEqual(mockComposition);
+        });
+
+        it('builds steps for synthesis only', async () => {
+            mockedSynthesizeAudio.mockResolvedValue(mockAudioResult);
+
+            const { result } = renderHook(() => useGeneration({ live: false }));
+
+            await act(async () => {
+                await result.current.render(mockComposition, mockParams);
+            });
+
+            expect(result.current.steps.map((s) => s.name)).toEqual([
+                'Synthesizing erhu',
+                'Synthesizing guzheng',
+            ]);
+            expect(result.current.progress).toBe(100);
+        });
+
+        it('supports partial failure and retryFailed', async () => {
+            mockedSynthesizeAudio
+                .mockResolvedValueOnce(mockAudioResult)
+                .mockRejectedValueOnce(new Error('Failed'));
+
+            const { result } = renderHook(() => useGeneration({ live: false }));
+
+            await act(async () => {
+                await result.current.render(mockComposition, mockParams);
+            });
+
+            expect(result.current.failedInstruments).toEqual(['guzheng']);
+            expect(result.current.steps[1].status).toBe('error');
+
+            mockedSynthesizeAudio.mockResolvedValue(mockAudioResult);
+            await act(async () => {
+                await result.current.retryFailed();
+            });
+
+            expect(mockedSynthesizeAudio).toHaveBeenLastCalledWith(mockComposition, 'guzheng', mockParams, renderOptions);
+            expect(mockedComposeMusic).not.toHaveBeenCalled();
+            expect(result.current.failedInstruments).toEqual([]);
+        });
+
+        it('renders each instrument with its saved seed', async () => {
+            mockedSynthesizeAudio.mockResolvedValue(mockAudioResult);
+
+            const { result } = renderHook(() => useGeneration({ live: false }));
+
+            await act(async () => {
+                await result.current.render(mockComposition, mockParams, { erhu: 111 });
+            });
+
+            expect(mockedSynthesizeAudio).toHaveBeenCalledWith(mockComposition, 'erhu', { ...mockParams, seed: 111 }, renderOptions);
+            expect(mockedSynthesizeAudio).toHaveBeenCalledWith(mockComposition, 'guzheng', mockParams, renderOptions);
+        });
+
+        it('retries failed instruments with their saved seed', async () => {
+            mockedSynthesizeAudio
+                .mockResolvedValueOnce(mockAudioResult)
+                .mockRejectedValueOnce(new Error('Failed'));
+
+            const { result } = renderHook(() => useGeneration({ live: false }));
+
+            await act(async () => {
+                await result.current.render(mockComposition, mockParams, { guzheng: 222 });
+            });
+
+            mockedSynthesizeAudio.mockResolvedValue(mockAudioResult);
+            await act(async () => {
+                await result.current.retryFailed();
+            });
+
+            expect(mockedSynthesizeAudio).toHaveBeenLastCalledWith(mockComposition, 'guzheng', { ...mockParams, seed: 222 }, renderOptions);
+        });
+
+        it('throws GenerationError when all instruments fail', async () => {
+            mockedSynthesizeAudio.mockRejectedValue(new Error('Failed'));
+
+            const { result } = renderHook(() => useGeneration({ live: false }));
+
+            await act(async () => {
+                await expect(result.current.render(mockComposition, mockParams))
+                    .rejects.toBeInstanceOf(GenerationError);
+            });
+
+            expect(result.current.status).toBe('error');
+            expect(result.current.canRetryFailed).toBe(true);
+        });
+    });
+
     describe('Abort Handling', () => {
         it('stops generation when abort() is called', async () => {
             mockedComposeMusic.mockImplementation(async () => {
@@ -161,7 +278,7 @@ describe('useGeneration', () => {
                 return mockComposition;
             });
 
-            const { result } = renderHook(() => useGeneration());
+            const { result } = renderHook(() => useGeneration({ live: false }));
 
             act(() => {
                 result.current.generate(mockParams);
@@ -182,7 +299,7 @@ describe('useGeneration', () => {
                 return mockComposition;
             });
 
-            const { result } = renderHook(() => useGeneration());
+            const { result } = renderHook(() => useGeneration({ live: false }));
 
             act(() => {
                 result.current.generate(mockParams);
@@ -197,6 +314,78 @@ describe('useGeneration', () => {
             expect(result.current.audioResults).toEqual([]);
             expect(result.current.steps).toEqual([]);
         });
+
+        it('aborts renders in flight', async () => {
+            const signals: AbortSignal[] = [];
+            mockedSynthesizeAudio.mockImplementation((_c, _i, _p, { signal }) => {
+                signals.push(signal);
+                return new Promise((_, reject) => {
+                    signal.addEventListener('abort', () => reject(new RenderAbortedError()));
+                });
+            });
+
+            const { result } = renderHook(() => useGeneration({ live: false }));
+
+            let returnValue: unknown;
+            act(() => {
+                result.current.render(mockComposition, mockParams).then((value) => {
+                    returnValue = value;
+                });
+            });
+            await waitFor(() => expect(signals).toHaveLength(2));
+
+            await act(async () => {
+                result.current.abort();
+            });
+
+            expect(signals.every((signal) => signal.aborted)).toBe(true);
+            await waitFor(() => expect(result.current.status).toBe('pending'));
+            expect(returnValue).toBeNull();
+            expect(result.current.error).toBeNull();
+        });
+    });
+
+    describe('Concurrent Synthesis', () => {
+        it('renders all instruments at once with per-step progress', async () => {
+            const progressCallbacks: Array<(progress: number) => void> = [];
+            const resolvers: Array<() => void> = [];
+            mockedSynthesizeAudio.mockImplementation((_c, instrument, _p, { onProgress }) => {
+                progressCallbacks.push(onProgress);
+                return new Promise((resolve) => {
+                    resolvers.push(() => resolve({ ...mockAudioResult, instrument }));
+                });
+            });
+
+            const { result } = renderHook(() => useGeneration({ live: false }));
+
+            let returnValue: { audioResults: Array<{ instrument: string }> } | null = null;
+            act(() => {
+                result.current.render(mockComposition, mockParams).then((value) => {
+                    returnValue = value;
+                });
+            });
+            await waitFor(() => expect(mockedSynthesizeAudio).toHaveBeenCalledTimes(2));
+
+            expect(result.current.steps.map((s) => s.status)).toEqual(['active', 'active']);
+
+            act(() => {
+                progressCallbacks[0](0.5);
+                progressCallbacks[1](0.25);
+            });
+
+            expect(result.current.steps.map((s) => s.progress)).toEqual([0.5, 0.25]);
+            expect(result.current.progress).toBeCloseTo(37.5);
+
+            // Finishing out of order still returns results in instrument order
+            await act(async () => {
+                resolvers[1]();
+                resolvers[0]();
+            });
+
+            await waitFor(() => expect(result.current.status).toBe('complete'));
+            expect(returnValue!.audioResults.map((r) => r.instrument)).toEqual(['erhu', 'guzheng']);
+            expect(result.current.audioResults.map((r) => r.instrument)).toEqual(['erhu', 'guzheng']);
+        });
     });
 
     describe('Partial Success', () => {
@@ -207,7 +396,7 @@ describe('useGeneration', () => {
                 .mockResolvedValueOnce(mockAudioResult) // erhu succeeds
                 .mockRejectedValueOnce(new Error('Guzheng failed')); // guzheng fails
 
-            const { result } = renderHook(() => useGeneration());
+            const { result } = renderHook(() => useGeneration({ live: false }));
 
             await act(async () => {
                 await result.current.generate(params);
@@ -225,7 +414,7 @@ describe('useGeneration', () => {
                 .mockResolvedValueOnce(mockAudioResult)
                 .mockRejectedValueOnce(new Error('Failed'));
 
-            const { result } = renderHook(() => useGeneration());
+            const { result } = renderHook(() => useGeneration({ live: false }));
 
             await act(async () => {
                 await result.current.generate(params);
@@ -242,7 +431,7 @@ describe('useGeneration', () => {
                 .mockResolvedValueOnce(mockAudioResult)
                 .mockRejectedValueOnce(new Error('Failed'));
 
-            const { result } = renderHook(() => useGeneration());
+            const { result } = renderHook(() => useGeneration({ live: false }));
 
             await act(async () => {
                 await result.current.generate(params);
@@ -256,7 +445,7 @@ describe('useGeneration', () => {
             mockedComposeMusic.mockResolvedValue(mockComposition);
             mockedSynthesizeAudio.mockRejectedValue(new Error('All failed'));
 
-            const { result } = renderHook(() => useGeneration());
+            const { result } = renderHook(() => useGeneration({ live: false }));
 
             await act(async () => {
                 await expect(result.current.generate(params)).rejects.toThrow(GenerationError);
@@ -275,7 +464,7 @@ describe('useGeneration', () => {
                 .mockResolvedValueOnce(mockAudioResult)
                 .mockRejectedValueOnce(new Error('Failed'));
 
-            const { result } = renderHook(() => useGeneration());
+            const { result } = renderHook(() => useGeneration({ live: false }));
 
             await act(async () => {
                 await result.current.generate(params);
@@ -292,7 +481,8 @@ describe('useGeneration', () => {
             expect(mockedSynthesizeAudio).toHaveBeenLastCalledWith(
                 mockComposition,
                 'guzheng',
-                params
+                params,
+                renderOptions
             );
         });
 
@@ -303,7 +493,7 @@ describe('useGeneration', () => {
                 .mockResolvedValueOnce(mockAudioResult)
                 .mockRejectedValueOnce(new Error('Failed'));
 
-            const { result } = renderHook(() => useGeneration());
+            const { result } = renderHook(() => useGeneration({ live: false }));
 
             await act(async () => {
                 await result.current.generate(params);
@@ -328,7 +518,7 @@ describe('useGeneration', () => {
                 .mockResolvedValueOnce(mockAudioResult)
                 .mockRejectedValueOnce(new Error('Failed'));
 
-            const { result } = renderHook(() => useGeneration());
+            const { result } = renderHook(() => useGeneration({ live: false }));
 
             await act(async () => {
                 await result.current.generate(params);
@@ -352,7 +542,7 @@ describe('useGeneration', () => {
                 .mockResolvedValueOnce(mockAudioResult)
                 .mockRejectedValueOnce(new Error('Failed'));
 
-            const { result } = renderHook(() => useGeneration());
+            const { result } = renderHook(() => useGeneration({ live: false }));
 
             await act(async () => {
                 await result.current.generate(params);
@@ -371,7 +561,7 @@ describe('useGeneration', () => {
         });
 
         it('returns empty array when no composition exists', async () => {
-            const { result } = renderHook(() => useGeneration());
+            const { result } = renderHook(() => useGeneration({ live: false }));
 
             let retried: unknown;
             await act(async () => {
@@ -386,7 +576,7 @@ describe('useGeneration', () => {
         it('wraps unknown errors as ApiError', async () => {
             mockedComposeMusic.mockRejectedValue(new Error('Unknown error'));
 
-            const { result } = renderHook(() => useGeneration());
+            const { result } = renderHook(() => useGeneration({ live: false }));
 
             await act(async () => {
                 await expect(result.current.generate(mockParams)).rejects.toThrow(ApiError);
@@ -400,7 +590,7 @@ describe('useGeneration', () => {
             const apiError = new ApiError('Server error', 'SERVER_ERROR', true, 500);
             mockedComposeMusic.mockRejectedValue(apiError);
 
-            const { result } = renderHook(() => useGeneration());
+            const { result } = renderHook(() => useGeneration({ live: false }));
 
             await act(async () => {
                 await expect(result.current.generate(mockParams)).rejects.toThrow(ApiError);
@@ -414,7 +604,7 @@ describe('useGeneration', () => {
             const genError = new GenerationError('Gen failed', 'GENERATION_FAILED', true);
             mockedComposeMusic.mockRejectedValue(genError);
 
-            const { result } = renderHook(() => useGeneration());
+            const { result } = renderHook(() => useGeneration({ live: false }));
 
             await act(async () => {
                 await expect(result.current.generate(mockParams)).rejects.toThrow(GenerationError);
@@ -426,7 +616,7 @@ describe('useGeneration', () => {
         it('sets error in state on failure', async () => {
             mockedComposeMusic.mockRejectedValue(new Error('Failed'));
 
-            const { result } = renderHook(() => useGeneration());
+            const { result } = renderHook(() => useGeneration({ live: false }));
 
             await act(async () => {
                 try {
@@ -442,12 +632,67 @@ describe('useGeneration', () => {
         });
     });
 
+    describe('Live Mode', () => {
+        it('composes without synthesizing audio', async () => {
+            mockedComposeMusic.mockResolvedValue(mockComposition);
+
+            const { result } = renderHook(() => useGeneration({ live: true }));
+
+            let returnValue: unknown;
+            await act(async () => {
+                returnValue = await result.current.generate(mockParams);
+            });
+
+            expect(mockedSynthesizeAudio).not.toHaveBeenCalled();
+            expect(returnValue).toEqual({
+                composition: mockComposition,
+                audioResults: [],
+                seeds: { erhu: 12345, guzheng: 12345 },
+            });
+            expect(result.current.steps.map((s) => s.name)).toEqual(['Composing structure']);
+            expect(result.current.status).toBe('complete');
+            expect(result.current.progress).toBe(100);
+        });
+
+        it('resolves a seed for each instrument when none is given', async () => {
+            mockedComposeMusic.mockResolvedValue(mockComposition);
+
+            const { result } = renderHook(() => useGeneration({ live: true }));
+
+            let returnValue: { seeds: Partial<Record<Instrument, number>> } | null | undefined;
+            await act(async () => {
+                returnValue = await result.current.generate({ ...mockParams, seed: undefined });
+            });
+
+            expect(returnValue?.seeds.erhu).toEqual(expect.any(Number));
+            expect(returnValue?.seeds.guzheng).toEqual(expect.any(Number));
+        });
+
+        it('render() keeps saved seeds and resolves the rest', async () => {
+            const { result } = renderHook(() => useGeneration({ live: true }));
+
+            let returnValue: unknown;
+            await act(async () => {
+                returnValue = await result.current.render(mockComposition, mockParams, { erhu: 111 });
+            });
+
+            expect(mockedSynthesizeAudio).not.toHaveBeenCalled();
+            expect(returnValue).toEqual({
+                composition: mockComposition,
+                audioResults: [],
+                seeds: { erhu: 111, guzheng: 12345 },
+            });
+            expect(result.current.composition).toEqual(mockComposition);
+            expect(result.current.status).toBe('complete');
+        });
+    });
+
     describe('reset()', () => {
         it('resets state to initial values', async () => {
             mockedComposeMusic.mockResolvedValue(mockComposition);
             mockedSynthesizeAudio.mockResolvedValue(mockAudioResult);
 
-            const { result } = renderHook(() => useGeneration());
+            const { result } = renderHook(() => useGeneration({ live: false }));
 
             await act(async () => {
                 await result.current.generate(mockParams);
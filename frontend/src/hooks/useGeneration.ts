@@ -1,6 +1,8 @@
 import { useState, useCallback, useRef } from 'react';
 import { composeMusic, synthesizeAudio } from '../services/api';
 import { ApiError, GenerationError } from '../types/errors';
+import { resolveSeed, RenderAbortedError } from '../audio';
+import { PLAYBACK } from '../config/constants';
 import type {
     CompositionParams,
     Composition,
@@ -17,6 +19,8 @@ interface GenerationStep {
     name: string;
     /** Current status of this step */
     status: 'pending' | 'active' | 'complete' | 'error';
+    /** Render progress of an active synthesis step (0-1) */
+    progress?: number;
 }
 
 /**
@@ -45,6 +49,22 @@ interface GenerationState {
     canRetryFailed: boolean;
 }
 
+/**
+ * Composition and audio produced by a generation or render.
+ * For live playback nothing is rendered: `audioResults` is empty and
+ * `seeds` holds the seed each instrument should be played with.
+ */
+interface GenerationResult {
+    composition: Composition | null;
+    audioResults: InstrumentAudioResult[];
+    seeds: Partial<Record<Instrument, number>>;
+}
+
+export interface GenerationOptions {
+    /** Skip synthesis so the composition can be played live (default: PLAYBACK.LIVE) */
+    live?: boolean;
+}
+
 const initialState: GenerationState = {
     status: 'pending',
     currentStep: '',
@@ -58,12 +78,69 @@ const initialState: GenerationState = {
     canRetryFailed: false,
 };
 
+/**
+ * Build the step list: optionally a compose step, then one step per instrument.
+ * The first step starts active.
+ */
+function createSteps(instruments: string[], compose: boolean): GenerationStep[] {
+    const names = [
+        ...(compose ? ['Composing structure'] : []),
+        ...instruments.map((inst) => `Synthesizing ${inst}`),
+    ];
+
+    return names.map((name, i) => ({
+        name,
+        status: i === 0 ? 'active' : 'pending',
+    }));
+}
+
+/**
+ * Overall progress (0-100), counting finished steps whole and active ones
+ * by their own progress.
+ */
+function overallProgress(steps: GenerationStep[]): number {
+    if (steps.length === 0) return 0;
+
+    const done = steps.reduce((sum, step) => {
+        if (step.status === 'complete' || step.status === 'error') return sum + 1;
+        return sum + (step.progress ?? 0);
+    }, 0);
+    return (done / steps.length) * 100;
+}
+
+/**
+ * Params for one instrument, rendered with its own seed if it has one.
+ */
+function withSeed(params: CompositionParams, seed: number | undefined): CompositionParams {
+    return seed === undefined ? params : { ...params, seed };
+}
+
+/**
+ * Seed for every instrument: its own if given, otherwise resolved up front
+ * the way a render would, so live playback and exports sound the same.
+ */
+function resolveSeeds(
+    params: CompositionParams,
+    seeds: Partial<Record<Instrument, number>> = {}
+): Partial<Record<Instrument, number>> {
+    return Object.fromEntries(
+        params.instruments.map((instrument) => [instrument, seeds[instrument] ?? resolveSeed(params.seed)])
+    );
+}
+
 /**
  * Hook for orchestrating the music generation process.
  *
  * Manages the two-phase generation flow:
  * 1. **Compose**: Gemini 2.0 Flash generates composition structure (scale, motif, form)
- * 2. **Synthesize**: Web Audio API synthesizes audio for each selected instrument locally
+ * 2. **Synthesize**: every selected instrument is rendered locally, concurrently on
+ *    render workers where available, each reporting its own progress
+ *
+ * `render` runs only the synthesis phase for a composition that already exists
+ * (presets, MIDI imports, history).
+ *
+ * With `live` set, the synthesis phase is skipped: results carry the seed for
+ * each instrument and the composition is played by `useLivePlayback`.
  *
  * Supports partial success - if some instruments fail, successfully generated
  * tracks are still playable and failed instruments can be retried.
@@ -83,11 +160,13 @@ const initialState: GenerationState = {
  *
  * @returns Generation state and control methods
  */
-export const useGeneration = () => {
+export const useGeneration = ({ live = PLAYBACK.LIVE }: GenerationOptions = {}) => {
     const [state, setState] = useState<GenerationState>(initialState);
     const [isGenerating, setIsGenerating] = useState(false);
     const abortRef = useRef(false);
+    const controllerRef = useRef<AbortController | null>(null);
     const lastParamsRef = useRef<CompositionParams | null>(null);
+    const lastSeedsRef = useRef<Partial<Record<Instrument, number>>>({});
 
     const reset = useCallback(() => {
         setState(initialState);
@@ -95,38 +174,217 @@ export const useGeneration = () => {
         abortRef.current = false;
     }, []);
 
+    /**
+     * Stop the generation; renders in flight are terminated.
+     */
     const abort = useCallback(() => {
         abortRef.current = true;
+        controllerRef.current?.abort();
+    }, []);
+
+    /**
+     * Convert any error to a typed one, mark the active step as failed and rethrow.
+     */
+    const fail = useCallback((error: unknown): never => {
+        const typedError = error instanceof ApiError || error instanceof GenerationError
+            ? error
+            : new ApiError(
+                error instanceof Error ? error.message : 'Generation failed',
+                'UNKNOWN',
+                false
+            );
+
+        setState((prev) => ({
+            ...prev,
+            status: 'error',
+            currentStep: 'Error',
+            error: typedError,
+            steps: prev.steps.map((s) => ({
+                ...s,
+                status: s.status === 'active' ? 'error' : s.status,
+            })),
+        }));
+
+        setIsGenerating(false);
+        throw typedError;
+    }, []);
+
+    /**
+     * Synthesize every instrument of a composition concurrently, with partial
+     * success handling. Steps before `firstStep` (e.g. composing) are already
+     * complete. Instruments listed in `seeds` are rendered with their own seed.
+     */
+    const synthesizeInstruments = useCallback(async (
+        composition: Composition,
+        params: CompositionParams,
+        firstStep: number,
+        seeds: Partial<Record<Instrument, number>> = {}
+    ): Promise<GenerationResult | null> => {
+        if (abortRef.current) {
+            reset();
+            return null;
+        }
+
+        const controller = new AbortController();
+        controllerRef.current = controller;
+        const instruments = params.instruments as Instrument[];
+
+        const updateStep = (stepIndex: number, update: Partial<GenerationStep>) => {
+            setState((prev) => {
+                const steps = prev.steps.map((s, idx) => (idx === stepIndex ? { ...s, ...update } : s));
+                const firstActive = steps.findIndex((s) => s.status === 'active');
+                return {
+                    ...prev,
+                    steps,
+                    progress: overallProgress(steps),
+                    currentStepIndex: firstActive >= 0 ? firstActive : prev.currentStepIndex,
+                };
+            });
+        };
+
+        setState((prev) => ({
+            ...prev,
+            status: 'synthesizing',
+            currentStep: instruments.length === 1
+                ? `Synthesizing ${instruments[0]}`
+                : `Synthesizing ${instruments.length} instruments`,
+            currentStepIndex: firstStep,
+            steps: prev.steps.map((s, idx) => (
+                idx < firstStep ? { ...s, status: 'complete' } : { ...s, status: 'active', progress: 0 }
+            )),
+        }));
+
+        const outcomes = await Promise.all(instruments.map(async (instrument, i) => {
+            const stepIndex = firstStep + i;
+
+            try {
+                const audioResult = await synthesizeAudio(
+                    composition,
+                    instrument,
+                    withSeed(params, seeds[instrument]),
+                    {
+                        signal: controller.signal,
+                        onProgress: (progress) => updateStep(stepIndex, { progress }),
+                    }
+                );
+                const result: InstrumentAudioResult = { ...audioResult, instrument };
+
+                setState((prev) => ({ ...prev, audioResults: [...prev.audioResults, result] }));
+                updateStep(stepIndex, { status: 'complete', progress: 1 });
+                return result;
+            } catch (instrumentError) {
+                if (!(instrumentError instanceof RenderAbortedError)) {
+                    // Track failure; the other instruments keep rendering
+                    updateStep(stepIndex, { status: 'error' });
+                    console.error(`[Generation] ${instrument} failed:`, instrumentError);
+                }
+                return null;
+            }
+        }));
+
+        if (controllerRef.current === controller) {
+            controllerRef.current = null;
+        }
+        if (abortRef.current || controller.signal.aborted) {
+            reset();
+            return null;
+        }
+
+        // Results in instrument order, whatever order they finished in
+        const audioResults = outcomes.filter((result): result is InstrumentAudioResult => result !== null);
+        const failedInstruments: string[] = instruments.filter((_, i) => outcomes[i] === null);
+
+        // Determine final status based on success/failure
+        if (audioResults.length === 0) {
+            // All instruments failed
+            const error = new GenerationError(
+                'All instruments failed to generate',
+                'GENERATION_FAILED',
+                true,
+                { composition, successfulInstruments: [], failedInstruments }
+            );
+
+            setState((prev) => ({
+                ...prev,
+                status: 'error',
+                currentStep: 'Error',
+                error,
+                failedInstruments,
+                canRetryFailed: true,
+            }));
+
+            setIsGenerating(false);
+            throw error;
+        }
+
+        if (failedInstruments.length > 0) {
+            // Partial success - some instruments succeeded
+            setState((prev) => ({
+                ...prev,
+                status: 'complete',
+                currentStep: 'Partial Success',
+                progress: 100,
+                audioResults,
+                failedInstruments,
+                canRetryFailed: true,
+            }));
+        } else {
+            // Full success
+            setState((prev) => ({
+                ...prev,
+                status: 'complete',
+                currentStep: 'Complete',
+                progress: 100,
+                audioResults,
+                failedInstruments: [],
+                canRetryFailed: false,
+            }));
+        }
+
+        setIsGenerating(false);
+        return {
+            composition,
+            audioResults,
+            seeds: Object.fromEntries(audioResults.map((result) => [result.instrument, result.seed])),
+        };
+    }, [reset]);
+
+    /**
+     * Finish without synthesizing, for live playback.
+     */
+    const prepareLive = useCallback((
+        composition: Composition,
+        params: CompositionParams,
+        seeds?: Partial<Record<Instrument, number>>
+    ): GenerationResult => {
+        setState((prev) => ({
+            ...prev,
+            status: 'complete',
+            currentStep: 'Complete',
+            progress: 100,
+            steps: prev.steps.map((s) => ({ ...s, status: 'complete' })),
+        }));
+
+        setIsGenerating(false);
+        return { composition, audioResults: [], seeds: resolveSeeds(params, seeds) };
     }, []);
 
-    const generate = useCallback(async (params: CompositionParams): Promise<{
-        composition: Composition | null;
-        audioResults: InstrumentAudioResult[];
-    } | null> => {
+    const generate = useCallback(async (params: CompositionParams): Promise<GenerationResult | null> => {
         // Reset state
         abortRef.current = false;
         setIsGenerating(true);
         lastParamsRef.current = params;
+        lastSeedsRef.current = {};
 
-        // Build step list: compose + each instrument
-        const steps: GenerationStep[] = [
-            { name: 'Composing structure', status: 'pending' },
-            ...params.instruments.map((inst) => ({
-                name: `Synthesizing ${inst}`,
-                status: 'pending' as const,
-            })),
-        ];
-
+        // Build step list: compose + each instrument (compose only when playing live)
+        const steps = createSteps(live ? [] : params.instruments, true);
         const totalSteps = steps.length;
 
         setState({
             ...initialState,
             status: 'composing',
             currentStep: steps[0].name,
-            steps: steps.map((s, i) => ({
-                ...s,
-                status: i === 0 ? 'active' : 'pending',
-            })),
+            steps,
             currentStepIndex: 0,
             progress: 0,
         });
@@ -151,143 +409,56 @@ export const useGeneration = () => {
                 progress: (1 / totalSteps) * 100,
             }));
 
-            // Step 2+: Generate audio for each instrument with partial success handling
-            const audioResults: InstrumentAudioResult[] = [];
-            const failedInstruments: string[] = [];
-
-            for (let i = 0; i < params.instruments.length; i++) {
-                if (abortRef.current) {
-                    reset();
-                    return null;
-                }
-
-                const instrument = params.instruments[i];
-                const stepIndex = i + 1;
-
-                setState((prev) => ({
-                    ...prev,
-                    status: 'synthesizing',
-                    currentStep: `Synthesizing ${instrument}`,
-                    currentStepIndex: stepIndex,
-                    steps: prev.steps.map((s, idx) => ({
-                        ...s,
-                        status:
-                            idx < stepIndex
-                                ? 'complete'
-                                : idx === stepIndex
-                                ? 'active'
-                                : 'pending',
-                    })),
-                }));
-
-                try {
-                    // synthesizeAudio generates audio locally using Web Audio API
-                    const audioResult = await synthesizeAudio(composition, instrument as Instrument, params);
-
-                    audioResults.push({
-                        ...audioResult,
-                        instrument: instrument as Instrument,
-                    });
-
-                    setState((prev) => ({
-                        ...prev,
-                        audioResults: [...prev.audioResults, { ...audioResult, instrument }],
-                        progress: ((stepIndex + 1) / totalSteps) * 100,
-                        steps: prev.steps.map((s, idx) => ({
-                            ...s,
-                            status: idx <= stepIndex ? 'complete' : s.status,
-                        })),
-                    }));
-                } catch (instrumentError) {
-                    // Track failure but continue to next instrument
-                    failedInstruments.push(instrument);
-
-                    setState((prev) => ({
-                        ...prev,
-                        progress: ((stepIndex + 1) / totalSteps) * 100,
-                        steps: prev.steps.map((s, idx) => ({
-                            ...s,
-                            status: idx === stepIndex ? 'error' : s.status,
-                        })),
-                    }));
-
-                    console.error(`[Generation] ${instrument} failed:`, instrumentError);
-                }
+            if (live) {
+                return prepareLive(composition, params);
             }
 
-            // Determine final status based on success/failure
-            if (audioResults.length === 0) {
-                // All instruments failed
-                const error = new GenerationError(
-                    'All instruments failed to generate',
-                    'GENERATION_FAILED',
-                    true,
-                    { composition, successfulInstruments: [], failedInstruments }
-                );
-
-                setState((prev) => ({
-                    ...prev,
-                    status: 'error',
-                    currentStep: 'Error',
-                    error,
-                    failedInstruments,
-                    canRetryFailed: true,
-                }));
-
-                setIsGenerating(false);
-                throw error;
-            }
+            // Step 2+: Generate audio for each instrument
+            return await synthesizeInstruments(composition, params, 1);
+        } catch (error) {
+            return fail(error);
+        }
+    }, [live, reset, fail, synthesizeInstruments, prepareLive]);
 
-            if (failedInstruments.length > 0) {
-                // Partial success - some instruments succeeded
-                setState((prev) => ({
-                    ...prev,
-                    status: 'complete',
-                    currentStep: 'Partial Success',
-                    progress: 100,
-                    failedInstruments,
-                    canRetryFailed: true,
-                }));
-            } else {
-                // Full success
-                setState((prev) => ({
-                    ...prev,
-                    status: 'complete',
-                    currentStep: 'Complete',
-                    progress: 100,
-                    failedInstruments: [],
-                    canRetryFailed: false,
-                }));
-            }
+    /**
+     * Render a composition as given, skipping the compose step.
+     * Used for presets, MIDI imports and history, so they play exactly
+     * what was loaded and work without network access.
+     * Pass the seeds a history entry was rendered with to reproduce its audio.
+     */
+    const render = useCallback(async (
+        composition: Composition,
+        params: CompositionParams,
+        seeds?: Partial<Record<Instrument, number>>
+    ): Promise<GenerationResult | null> => {
+        abortRef.current = false;
+        setIsGenerating(true);
+        lastParamsRef.current = params;
+        lastSeedsRef.current = seeds ?? {};
 
-            setIsGenerating(false);
-            return { composition, audioResults };
+        if (live) {
+            setState({ ...initialState, composition });
+            return prepareLive(composition, params, seeds);
+        }
 
-        } catch (error) {
-            // Typed error handling
-            const typedError = error instanceof ApiError || error instanceof GenerationError
-                ? error
-                : new ApiError(
-                    error instanceof Error ? error.message : 'Generation failed',
-                    'UNKNOWN',
-                    false
-                );
+        const steps = createSteps(params.instruments, false);
 
-            setState((prev) => ({
-                ...prev,
-                status: 'error',
-                currentStep: 'Error',
-                error: typedError,
-                steps: prev.steps.map((s) => ({
-                    ...s,
-                    status: s.status === 'active' ? 'error' : s.status,
-                })),
-            }));
+        setState({
+            ...initialState,
+            status: 'synthesizing',
+            currentStep: steps[0]?.name ?? '',
+            steps,
+            currentStepIndex: 0,
+            progress: 0,
+            composition,
+        });
 
-            setIsGenerating(false);
-            throw typedError;
+        try {
+            return await synthesizeInstruments(composition, params, 0, seeds);
+        } catch (error) {
+            return fail(error);
         }
-    }, [reset]);
+    }, [live, fail, synthesizeInstruments, prepareLive]);
 
     /**
      * Retry only the failed instruments without re-composing.
@@ -302,28 +473,36 @@ export const useGeneration = () => {
         }
 
         setIsGenerating(true);
-        const retried: InstrumentAudioResult[] = [];
-        const stillFailed: string[] = [];
-
-        for (const instrument of state.failedInstruments) {
-            if (abortRef.current) {
-                break;
-            }
+        abortRef.current = false;
+        const controller = new AbortController();
+        controllerRef.current = controller;
 
-            setState((prev) => ({
-                ...prev,
-                currentStep: `Retrying ${instrument}`,
-            }));
+        setState((prev) => ({
+            ...prev,
+            currentStep: `Retrying ${state.failedInstruments.join(', ')}`,
+        }));
 
+        const outcomes = await Promise.all(state.failedInstruments.map(async (instrument) => {
             try {
-                // synthesizeAudio generates audio locally using Web Audio API
-                const result = await synthesizeAudio(composition, instrument as Instrument, params);
-                retried.push({ ...result, instrument: instrument as Instrument });
+                const result = await synthesizeAudio(
+                    composition,
+                    instrument as Instrument,
+                    withSeed(params, lastSeedsRef.current[instrument as Instrument]),
+                    { signal: controller.signal }
+                );
+                return { ...result, instrument: instrument as Instrument };
             } catch {
-                stillFailed.push(instrument);
+                return null;
             }
+        }));
+
+        if (controllerRef.current === controller) {
+            controllerRef.current = null;
         }
 
+        const retried = outcomes.filter((result): result is InstrumentAudioResult => result !== null);
+        const stillFailed = state.failedInstruments.filter((_, i) => outcomes[i] === null);
+
         setState((prev) => ({
             ...prev,
             audioResults: [...prev.audioResults, ...retried],
@@ -341,6 +520,7 @@ export const useGeneration = () => {
         ...state,
         isGenerating,
         generate,
+        render,
         reset,
         abort,
         retryFailed,
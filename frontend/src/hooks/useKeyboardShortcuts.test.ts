@@ -2,6 +2,7 @@ import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { renderHook } from '@testing-library/react';
 import { useKeyboardShortcuts } from './useKeyboardShortcuts';
 import type { PlaybackControls } from './useKeyboardShortcuts';
+import type { Instrument } from '../types/music';
 
 // Helper to create mock PlaybackControls
 const createMockControls = (overrides?: Partial<PlaybackControls>): PlaybackControls => ({
@@ -338,6 +339,92 @@ describe('useKeyboardShortcuts', () => {
         });
     });
 
+    describe('Practice Controls', () => {
+        const createPracticeControls = (overrides?: Partial<PlaybackControls>) => createMockControls({
+            getTracks: vi.fn((): Instrument[] => ['erhu', 'guzheng']),
+            toggleSolo: vi.fn(),
+            getLoop: vi.fn(() => null),
+            setLoop: vi.fn(),
+            getPlaybackRate: vi.fn(() => 1),
+            setPlaybackRate: vi.fn(),
+            ...overrides,
+        });
+
+        it('toggles solo of the nth track on digit keys', () => {
+            const controls = createPracticeControls();
+            renderHook(() => useKeyboardShortcuts({ controls }));
+
+            dispatchKeyEvent('Digit2');
+            dispatchKeyEvent('Digit3');
+
+            expect(controls.toggleSolo).toHaveBeenCalledTimes(1);
+            expect(controls.toggleSolo).toHaveBeenCalledWith('guzheng');
+        });
+
+        it('sets the loop start and end at the playhead', () => {
+            const controls = createPracticeControls();
+            renderHook(() => useKeyboardShortcuts({ controls }));
+
+            dispatchKeyEvent('BracketLeft');
+            expect(controls.setLoop).toHaveBeenLastCalledWith({ start: 30, end: 60 });
+
+            dispatchKeyEvent('BracketRight');
+            expect(controls.setLoop).toHaveBeenLastCalledWith({ start: 0, end: 30 });
+        });
+
+        it('keeps the other end of an existing loop', () => {
+            const controls = createPracticeControls({ getLoop: vi.fn(() => ({ start: 10, end: 45 })) });
+            renderHook(() => useKeyboardShortcuts({ controls }));
+
+            dispatchKeyEvent('BracketLeft');
+            expect(controls.setLoop).toHaveBeenLastCalledWith({ start: 30, end: 45 });
+
+            dispatchKeyEvent('BracketRight');
+            expect(controls.setLoop).toHaveBeenLastCalledWith({ start: 10, end: 30 });
+        });
+
+        it('clears the loop on L', () => {
+            const controls = createPracticeControls();
+            renderHook(() => useKeyboardShortcuts({ controls }));
+
+            dispatchKeyEvent('KeyL');
+
+            expect(controls.setLoop).toHaveBeenCalledWith(null);
+        });
+
+        it('steps and resets the playback rate', () => {
+            const controls = createPracticeControls({ getPlaybackRate: vi.fn(() => 0.9) });
+            renderHook(() => useKeyboardShortcuts({ controls }));
+
+            dispatchKeyEvent('Minus');
+            expect(controls.setPlaybackRate).toHaveBeenLastCalledWith(0.85);
+
+            dispatchKeyEvent('Equal');
+            expect(controls.setPlaybackRate).toHaveBeenLastCalledWith(0.95);
+
+            dispatchKeyEvent('Digit0');
+            expect(controls.setPlaybackRate).toHaveBeenLastCalledWith(1);
+        });
+
+        it('ignores keys held with a modifier', () => {
+            const controls = createPracticeControls();
+            renderHook(() => useKeyboardShortcuts({ controls }));
+
+            window.dispatchEvent(new KeyboardEvent('keydown', { code: 'Minus', ctrlKey: true, bubbles: true }));
+
+            expect(controls.setPlaybackRate).not.toHaveBeenCalled();
+        });
+
+        it('leaves practice keys alone for players without practice controls', () => {
+            const controls = createMockControls();
+            renderHook(() => useKeyboardShortcuts({ controls }));
+
+            const event = dispatchKeyEvent('BracketLeft');
+
+            expect(event.defaultPrevented).toBe(false);
+        });
+    });
+
     describe('Unrecognized Keys', () => {
         it('does not call any control for unrecognized keys', () => {
             const controls = createMockControls();
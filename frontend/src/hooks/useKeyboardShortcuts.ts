@@ -1,8 +1,13 @@
 import { useEffect, useCallback, useRef } from 'react';
+import type { Instrument } from '../types/music';
+import type { LoopRegion } from '../audio/types';
+import { PLAYBACK } from '../config/constants';
 
 /**
  * Playback control interface for keyboard shortcuts.
- * Both AudioPlayer and MixerPlayer can implement these actions.
+ * Both AudioPlayer and MixerPlayer can implement these actions; the practice
+ * controls (solo, loop and rate) are optional and their shortcuts do nothing
+ * for players without them.
  */
 export interface PlaybackControls {
     togglePlay: () => void;
@@ -10,6 +15,13 @@ export interface PlaybackControls {
     getCurrentTime: () => number;
     getDuration: () => number;
     isReady: boolean;
+    /** Instruments in display order; digit keys solo them */
+    getTracks?: () => Instrument[];
+    toggleSolo?: (instrument: Instrument) => void;
+    getLoop?: () => LoopRegion | null;
+    setLoop?: (loop: LoopRegion | null) => void;
+    getPlaybackRate?: () => number;
+    setPlaybackRate?: (rate: number) => void;
 }
 
 interface KeyboardShortcutsOptions {
@@ -18,6 +30,10 @@ interface KeyboardShortcutsOptions {
     enabled?: boolean;
 }
 
+/** Playback rate one step from `rate`, rounded to avoid drift */
+const stepRate = (rate: number, steps: number): number =>
+    Math.round((rate + steps * PLAYBACK.RATE_STEP) * 100) / 100;
+
 /**
  * Keyboard shortcuts for audio playback control.
  *
@@ -27,10 +43,16 @@ interface KeyboardShortcutsOptions {
  * - ArrowRight: Seek forward 5 seconds
  * - Home: Seek to beginning
  * - End: Seek to end (minus 1 second)
+ * - 1-9: Toggle solo of the nth track
+ * - [ / ]: Set the loop start / end at the playhead
+ * - L: Clear the loop
+ * - - / =: Slow down / speed up by PLAYBACK.RATE_STEP
+ * - 0: Reset to normal speed
  *
  * Shortcuts are disabled when:
  * - User is typing in an input/textarea
  * - No audio is loaded (controls.isReady is false)
+ * - Ctrl, Alt or Meta is held (leaving browser shortcuts such as zoom alone)
  */
 export const useKeyboardShortcuts = ({
     controls,
@@ -55,6 +77,7 @@ export const useKeyboardShortcuts = ({
                 target.isContentEditable;
 
             if (isInputField) return;
+            if (event.ctrlKey || event.altKey || event.metaKey) return;
 
             const currentTime = controls.getCurrentTime();
             const duration = controls.getDuration();
@@ -86,9 +109,54 @@ export const useKeyboardShortcuts = ({
                     controls.seek(Math.max(0, duration - 1));
                     break;
 
-                default:
-                    // Not a recognized shortcut
+                case 'BracketLeft': {
+                    if (!controls.setLoop) break;
+                    event.preventDefault();
+                    // Keep the current end if it is still after the new start
+                    const loop = controls.getLoop?.();
+                    controls.setLoop({ start: currentTime, end: loop && loop.end > currentTime ? loop.end : duration });
+                    break;
+                }
+
+                case 'BracketRight': {
+                    if (!controls.setLoop) break;
+                    event.preventDefault();
+                    const loop = controls.getLoop?.();
+                    controls.setLoop({ start: loop && loop.start < currentTime ? loop.start : 0, end: currentTime });
+                    break;
+                }
+
+                case 'KeyL':
+                    if (!controls.setLoop) break;
+                    event.preventDefault();
+                    controls.setLoop(null);
+                    break;
+
+                case 'Minus':
+                case 'Equal':
+                    if (!controls.setPlaybackRate) break;
+                    event.preventDefault();
+                    controls.setPlaybackRate(
+                        stepRate(controls.getPlaybackRate?.() ?? 1, event.code === 'Minus' ? -1 : 1)
+                    );
+                    break;
+
+                case 'Digit0':
+                    if (!controls.setPlaybackRate) break;
+                    event.preventDefault();
+                    controls.setPlaybackRate(1);
+                    break;
+
+                default: {
+                    // Digits 1-9 solo the matching track
+                    const digit = /^Digit([1-9])$/.exec(event.code);
+                    const instrument = digit && controls.getTracks?.()[Number(digit[1]) - 1];
+                    if (instrument && controls.toggleSolo) {
+                        event.preventDefault();
+                        controls.toggleSolo(instrument);
+                    }
                     break;
+                }
             }
         },
         [controls, seekAmount]
@@ -0,0 +1,213 @@
+import { describe, it, expect, vi, beforeEach, type Mock } from 'vitest';
+import { renderHook, act } from '@testing-library/react';
+import { useLivePlayback } from './useLivePlayback';
+import type { LiveSession } from '../audio';
+import type { MixAutomation } from '../audio/types';
+import { DEFAULT_TRACK_EFFECTS } from '../audio/effects';
+import { mockComposition, mockParams } from '../test/utils';
+
+const engine = vi.hoisted(() => ({
+    instances: [] as Array<Record<string, Mock>>,
+    fail: false,
+}));
+
+vi.mock('../audio', () => ({
+    LivePlaybackEngine: class {
+        duration = 12;
+        isPlaying = false;
+        currentTime = 3;
+        loop: { start: number; end: number } | null = null;
+        playbackRate = 1;
+        private tracks = new Map([
+            ['erhu', { volume: 1, pan: -0.3, muted: false, soloed: false }],
+            ['guzheng', { volume: 1, pan: 0.3, muted: false, soloed: false }],
+        ]);
+        play = vi.fn(() => { this.isPlaying = true; });
+        pause = vi.fn(() => { this.isPlaying = false; });
+        seek = vi.fn((time: number) => { this.currentTime = time; });
+        setTrackVolume = vi.fn((instrument: string, volume: number) => {
+            this.tracks.set(instrument, { ...this.tracks.get(instrument)!, volume });
+        });
+        setTrackMuted = vi.fn((instrument: string, muted: boolean) => {
+            this.tracks.set(instrument, { ...this.tracks.get(instrument)!, muted });
+        });
+        setTrackSoloed = vi.fn((instrument: string, soloed: boolean) => {
+            this.tracks.set(instrument, { ...this.tracks.get(instrument)!, soloed });
+        });
+        setTrackPan = vi.fn();
+        setTrackEffects = vi.fn((instrument: string, effects: unknown) => {
+            this.tracks.set(instrument, { ...this.tracks.get(instrument)!, effects } as never);
+        });
+        setTrackAutomation = vi.fn();
+        setLoop = vi.fn((loop: { start: number; end: number } | null) => {
+            this.loop = loop;
+            if (loop) this.currentTime = loop.start;
+        });
+        setPlaybackRate = vi.fn((rate: number) => { this.playbackRate = rate; });
+        getMeter = vi.fn(() => ({ left: { peak: -3, rms: -9 }, right: { peak: -4, rms: -10 } }));
+        dispose = vi.fn();
+        constructor() {
+            if (engine.fail) throw new Error('No audio');
+            engine.instances.push(this as unknown as Record<string, Mock>);
+        }
+        getTracks() {
+            return new Map(this.tracks);
+        }
+    },
+}));
+
+const session: LiveSession = {
+    composition: mockComposition,
+    params: mockParams,
+    seeds: { erhu: 1, guzheng: 2 },
+};
+
+describe('useLivePlayback', () => {
+    beforeEach(() => {
+        engine.instances = [];
+        engine.fail = false;
+    });
+
+    it('is empty without a session', () => {
+        const { result } = renderHook(() => useLivePlayback(null));
+
+        expect(result.current.isReady).toBe(false);
+        expect(result.current.tracks.size).toBe(0);
+    });
+
+    it('loads the tracks and duration of a session', () => {
+        const { result } = renderHook(() => useLivePlayback(session));
+
+        expect(result.current.isReady).toBe(true);
+        expect(result.current.duration).toBe(12);
+        expect(result.current.tracks.get('erhu')).toEqual({
+            instrument: 'erhu',
+            volume: 1,
+            pan: -0.3,
+            muted: false,
+            soloed: false,
+        });
+    });
+
+    it('applies the initial mix', () => {
+        renderHook(() => useLivePlayback(session, {
+            erhu: { volume: 0.4, muted: true, pan: 0.5, effects: DEFAULT_TRACK_EFFECTS },
+        }));
+
+        const [instance] = engine.instances;
+        expect(instance.setTrackVolume).toHaveBeenCalledWith('erhu', 0.4);
+        expect(instance.setTrackMuted).toHaveBeenCalledWith('erhu', true);
+        expect(instance.setTrackPan).toHaveBeenCalledWith('erhu', 0.5);
+        expect(instance.setTrackEffects).toHaveBeenCalledWith('erhu', DEFAULT_TRACK_EFFECTS);
+    });
+
+    it('hands each track its automation lanes as they change', () => {
+        const first: MixAutomation = { erhu: { volume: [{ time: 0, value: 1 }, { time: 4, value: 1.5 }] } };
+        const second: MixAutomation = { guzheng: { pan: [{ time: 2, value: -0.5 }] } };
+
+        const { rerender } = renderHook(({ automation }) => useLivePlayback(session, undefined, automation), {
+            initialProps: { automation: first },
+        });
+        const [instance] = engine.instances;
+
+        expect(instance.setTrackAutomation).toHaveBeenCalledWith('erhu', first.erhu);
+        expect(instance.setTrackAutomation).toHaveBeenCalledWith('guzheng', {});
+
+        instance.setTrackAutomation.mockClear();
+        rerender({ automation: second });
+
+        expect(instance.setTrackAutomation).toHaveBeenCalledWith('erhu', {});
+        expect(instance.setTrackAutomation).toHaveBeenCalledWith('guzheng', second.guzheng);
+    });
+
+    it('plays, pauses and seeks', () => {
+        const { result } = renderHook(() => useLivePlayback(session));
+        const [instance] = engine.instances;
+
+        act(() => result.current.togglePlay());
+        expect(instance.play).toHaveBeenCalled();
+        expect(result.current.isPlaying).toBe(true);
+
+        act(() => result.current.togglePlay());
+        expect(instance.pause).toHaveBeenCalled();
+        expect(result.current.isPlaying).toBe(false);
+
+        act(() => result.current.seek(5));
+        expect(instance.seek).toHaveBeenCalledWith(5);
+        expect(result.current.currentTime).toBe(5);
+    });
+
+    it('updates track volume and mute', () => {
+        const { result } = renderHook(() => useLivePlayback(session));
+
+        act(() => result.current.setTrackVolume('erhu', 0.6));
+        act(() => result.current.toggleMute('guzheng'));
+
+        expect(result.current.tracks.get('erhu')?.volume).toBe(0.6);
+        expect(result.current.tracks.get('guzheng')?.muted).toBe(true);
+    });
+
+    it('updates track effects', () => {
+        const { result } = renderHook(() => useLivePlayback(session));
+        const effects = { ...DEFAULT_TRACK_EFFECTS, compressor: { enabled: true, threshold: -18, ratio: 3 } };
+
+        act(() => result.current.setTrackEffects('guzheng', effects));
+
+        expect(engine.instances[0].setTrackEffects).toHaveBeenCalledWith('guzheng', effects);
+        expect(result.current.tracks.get('guzheng')?.effects).toEqual(effects);
+    });
+
+    it('toggles solo', () => {
+        const { result } = renderHook(() => useLivePlayback(session));
+
+        act(() => result.current.toggleSolo('erhu'));
+
+        expect(engine.instances[0].setTrackSoloed).toHaveBeenCalledWith('erhu', true);
+        expect(result.current.tracks.get('erhu')?.soloed).toBe(true);
+    });
+
+    it('sets the loop region and playback rate', () => {
+        const { result } = renderHook(() => useLivePlayback(session));
+
+        act(() => result.current.setLoop({ start: 4, end: 8 }));
+        act(() => result.current.setPlaybackRate(0.75));
+
+        expect(result.current.loop).toEqual({ start: 4, end: 8 });
+        expect(result.current.currentTime).toBe(4);
+        expect(result.current.playbackRate).toBe(0.75);
+
+        act(() => result.current.setLoop(null));
+        expect(result.current.loop).toBeNull();
+    });
+
+    it('reads the master meter from the engine', () => {
+        const { result } = renderHook(() => useLivePlayback(session));
+
+        expect(result.current.getMeter()).toEqual({ left: { peak: -3, rms: -9 }, right: { peak: -4, rms: -10 } });
+    });
+
+    it('reads no meter without a session', () => {
+        const { result } = renderHook(() => useLivePlayback(null));
+
+        expect(result.current.getMeter()).toBeNull();
+    });
+
+    it('reports every track as failed when the engine cannot start', () => {
+        engine.fail = true;
+        vi.spyOn(console, 'error').mockImplementation(() => {});
+
+        const { result } = renderHook(() => useLivePlayback(session));
+
+        expect(result.current.isReady).toBe(false);
+        expect(Array.from(result.current.failedTracks.keys())).toEqual(['erhu', 'guzheng']);
+        expect(result.current.failedTracks.get('erhu')?.code).toBe('CONTEXT_ERROR');
+    });
+
+    it('disposes the engine on unmount', () => {
+        const { unmount } = renderHook(() => useLivePlayback(session));
+
+        unmount();
+
+        expect(engine.instances[0].dispose).toHaveBeenCalled();
+    });
+});
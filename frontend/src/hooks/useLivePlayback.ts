@@ -0,0 +1,264 @@
+import { useState, useRef, useCallback, useEffect } from 'react';
+import type { Instrument } from '../types/music';
+import { AudioError } from '../types/errors';
+import { LivePlaybackEngine } from '../audio';
+import type { LiveSession, LiveTrackState } from '../audio';
+import type { LoopRegion, MeterReading, MixAutomation, MixSettings, TrackEffects } from '../audio/types';
+
+interface LiveTrack extends LiveTrackState {
+    instrument: Instrument;
+}
+
+interface LivePlaybackState {
+    isPlaying: boolean;
+    currentTime: number;
+    duration: number;
+    tracks: Map<Instrument, LiveTrack>;
+    failedTracks: Map<Instrument, AudioError>;
+    isReady: boolean;
+    loop: LoopRegion | null;
+    playbackRate: number;
+}
+
+const initialState: LivePlaybackState = {
+    isPlaying: false,
+    currentTime: 0,
+    duration: 0,
+    tracks: new Map(),
+    failedTracks: new Map(),
+    isReady: false,
+    loop: null,
+    playbackRate: 1,
+};
+
+/**
+ * Read the engine's mixer state as track states.
+ */
+const readTracks = (engine: LivePlaybackEngine): Map<Instrument, LiveTrack> => {
+    const tracks = new Map<Instrument, LiveTrack>();
+    engine.getTracks().forEach((track, instrument) => tracks.set(instrument, { ...track, instrument }));
+    return tracks;
+};
+
+/**
+ * Hook for live playback of a composition with per-track volume, pan, mute,
+ * solo and insert effects, a loop region and a practice playback rate.
+ *
+ * Notes are scheduled while playing (see `LivePlaybackEngine`), so playback
+ * can start as soon as the composition exists. Returns the same controls as
+ * `useAudioMixer`, which plays pre-rendered stems.
+ *
+ * @param session - Composition, params and seeds to play; null for none
+ * @param initialMix - Mixer state applied when the session loads (e.g. from a project file)
+ * @param automation - Automation lanes of each track, followed as they change
+ */
+export const useLivePlayback = (
+    session: LiveSession | null,
+    initialMix?: MixSettings['tracks'],
+    automation?: MixAutomation
+) => {
+    const engineRef = useRef<LivePlaybackEngine | null>(null);
+    const animationFrameRef = useRef<number | null>(null);
+    // Read when a session loads, so a new mix object alone doesn't rebuild it
+    const initialMixRef = useRef(initialMix);
+    initialMixRef.current = initialMix;
+
+    const [state, setState] = useState<LivePlaybackState>(initialState);
+
+    // Build the engine for each session
+    useEffect(() => {
+        if (!session) {
+            setState(initialState);
+            return;
+        }
+
+        let engine: LivePlaybackEngine;
+        try {
+            engine = new LivePlaybackEngine(session, {
+                onEnded: () => setState((prev) => ({ ...prev, isPlaying: false, currentTime: 0 })),
+            });
+        } catch (error) {
+            console.error('[LivePlayback] Failed to start:', error);
+            const contextError = new AudioError(
+                'Failed to initialize audio system',
+                'CONTEXT_ERROR',
+                undefined,
+                error instanceof Error ? error : undefined
+            );
+            setState({
+                ...initialState,
+                failedTracks: new Map(session.params.instruments.map((instrument) => [instrument, contextError])),
+            });
+            return;
+        }
+
+        const mix = initialMixRef.current;
+        if (mix) {
+            Object.entries(mix).forEach(([instrument, track]) => {
+                if (!track) return;
+                engine.setTrackVolume(instrument as Instrument, track.volume);
+                engine.setTrackMuted(instrument as Instrument, track.muted);
+                if (track.pan !== undefined) engine.setTrackPan(instrument as Instrument, track.pan);
+                if (track.effects) engine.setTrackEffects(instrument as Instrument, track.effects);
+            });
+        }
+
+        engineRef.current = engine;
+        setState({
+            ...initialState,
+            duration: engine.duration,
+            tracks: readTracks(engine),
+            isReady: true,
+        });
+
+        return () => {
+            engine.dispose();
+            if (engineRef.current === engine) engineRef.current = null;
+        };
+    }, [session]);
+
+    // Hand each track its automation lanes, for a new session or when they change
+    useEffect(() => {
+        const engine = engineRef.current;
+        if (!engine) return;
+
+        engine.getTracks().forEach((_, instrument) => engine.setTrackAutomation(instrument, automation?.[instrument] ?? {}));
+    }, [session, automation]);
+
+    // Follow the playhead while playing
+    useEffect(() => {
+        if (!state.isPlaying) return;
+
+        const update = () => {
+            const engine = engineRef.current;
+            if (!engine) return;
+            setState((prev) => ({ ...prev, currentTime: engine.currentTime }));
+            animationFrameRef.current = requestAnimationFrame(update);
+        };
+        animationFrameRef.current = requestAnimationFrame(update);
+
+        return () => {
+            if (animationFrameRef.current !== null) {
+                cancelAnimationFrame(animationFrameRef.current);
+                animationFrameRef.current = null;
+            }
+        };
+    }, [state.isPlaying]);
+
+    const play = useCallback(() => {
+        const engine = engineRef.current;
+        if (!engine) return;
+
+        engine.play();
+        setState((prev) => ({ ...prev, isPlaying: true }));
+    }, []);
+
+    const pause = useCallback(() => {
+        const engine = engineRef.current;
+        if (!engine) return;
+
+        engine.pause();
+        setState((prev) => ({ ...prev, isPlaying: false, currentTime: engine.currentTime }));
+    }, []);
+
+    const togglePlay = useCallback(() => {
+        if (engineRef.current?.isPlaying) {
+            pause();
+        } else {
+            play();
+        }
+    }, [play, pause]);
+
+    const seek = useCallback((time: number) => {
+        const engine = engineRef.current;
+        if (!engine) return;
+
+        engine.seek(time);
+        setState((prev) => ({ ...prev, currentTime: engine.currentTime }));
+    }, []);
+
+    const setTrackVolume = useCallback((instrument: Instrument, volume: number) => {
+        const engine = engineRef.current;
+        if (!engine) return;
+
+        engine.setTrackVolume(instrument, volume);
+        setState((prev) => ({ ...prev, tracks: readTracks(engine) }));
+    }, []);
+
+    const setTrackPan = useCallback((instrument: Instrument, pan: number) => {
+        const engine = engineRef.current;
+        if (!engine) return;
+
+        engine.setTrackPan(instrument, pan);
+        setState((prev) => ({ ...prev, tracks: readTracks(engine) }));
+    }, []);
+
+    const setTrackEffects = useCallback((instrument: Instrument, effects: TrackEffects) => {
+        const engine = engineRef.current;
+        if (!engine) return;
+
+        engine.setTrackEffects(instrument, effects);
+        setState((prev) => ({ ...prev, tracks: readTracks(engine) }));
+    }, []);
+
+    const toggleMute = useCallback((instrument: Instrument) => {
+        const engine = engineRef.current;
+        const track = state.tracks.get(instrument);
+        if (!engine || !track) return;
+
+        engine.setTrackMuted(instrument, !track.muted);
+        setState((prev) => ({ ...prev, tracks: readTracks(engine) }));
+    }, [state.tracks]);
+
+    const toggleSolo = useCallback((instrument: Instrument) => {
+        const engine = engineRef.current;
+        const track = state.tracks.get(instrument);
+        if (!engine || !track) return;
+
+        engine.setTrackSoloed(instrument, !track.soloed);
+        setState((prev) => ({ ...prev, tracks: readTracks(engine) }));
+    }, [state.tracks]);
+
+    const setLoop = useCallback((loop: LoopRegion | null) => {
+        const engine = engineRef.current;
+        if (!engine) return;
+
+        engine.setLoop(loop);
+        setState((prev) => ({ ...prev, loop: engine.loop, currentTime: engine.currentTime }));
+    }, []);
+
+    const setPlaybackRate = useCallback((rate: number) => {
+        const engine = engineRef.current;
+        if (!engine) return;
+
+        engine.setPlaybackRate(rate);
+        setState((prev) => ({ ...prev, playbackRate: engine.playbackRate }));
+    }, []);
+
+    // Read by the meters on every animation frame, so it isn't kept in state
+    const getMeter = useCallback((): MeterReading | null => engineRef.current?.getMeter() ?? null, []);
+
+    return {
+        isPlaying: state.isPlaying,
+        currentTime: state.currentTime,
+        duration: state.duration,
+        tracks: state.tracks,
+        failedTracks: state.failedTracks,
+        isReady: state.isReady,
+        hasPartialFailure: false,
+        loop: state.loop,
+        playbackRate: state.playbackRate,
+        play,
+        pause,
+        togglePlay,
+        seek,
+        setTrackVolume,
+        setTrackPan,
+        setTrackEffects,
+        toggleMute,
+        toggleSolo,
+        setLoop,
+        setPlaybackRate,
+        getMeter,
+    };
+};
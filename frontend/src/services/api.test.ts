@@ -21,6 +21,10 @@ vi.mock('firebase/app', () => ({
   getApps: vi.fn(() => []),
 }));
 
+vi.mock('firebase/auth', () => ({
+  getAuth: vi.fn(() => ({})),
+}));
+
 // Import after mocking
 import { composeMusic, generateAudio } from './api';
 import { httpsCallable } from 'firebase/functions';
@@ -66,6 +70,95 @@ describe('API Service', () => {
 
       await expect(composeMusic(mockParams)).rejects.toThrow('Firebase error');
     });
+
+    it('repairs schema violations in the compose response', async () => {
+      vi.spyOn(console, 'warn').mockImplementation(() => {});
+      mockCallableImpl.mockResolvedValue({
+        data: { ...mockComposition, motif: { pitches: ['C4', 'F4'], rhythm: [1] } },
+      });
+
+      try {
+        const result = await composeMusic(mockParams);
+
+        expect(result.motif).toEqual({ pitches: ['C4', 'E4'], rhythm: [1, 1] });
+        expect(console.warn).toHaveBeenCalledWith(
+          '[API] Compose response schema violations',
+          expect.arrayContaining([expect.objectContaining({ code: 'OUT_OF_SCALE' })])
+        );
+      } finally {
+        vi.restoreAllMocks();
+      }
+    });
+
+    it('rejects compose responses that cannot be repaired', async () => {
+      vi.spyOn(console, 'warn').mockImplementation(() => {});
+      mockCallableImpl.mockResolvedValue({ data: { ...mockComposition, motif: {} } });
+
+      try {
+        await expect(composeMusic(mockParams)).rejects.toMatchObject({ code: 'SERVER_ERROR' });
+      } finally {
+        vi.restoreAllMocks();
+      }
+    });
+
+    it('does not send the engine to the compose function', async () => {
+      mockCallableImpl.mockResolvedValue({ data: mockComposition });
+
+      await composeMusic({ ...mockParams, engine: 'gemini' });
+
+      expect(mockCallableImpl).toHaveBeenCalledWith(mockParams);
+    });
+
+    it('composes locally without calling Firebase when the offline engine is selected', async () => {
+      const result = await composeMusic({ ...mockParams, engine: 'offline' });
+
+      expect(mockCallableImpl).not.toHaveBeenCalled();
+      expect(result.scale).toHaveLength(5);
+      expect(Object.keys(result.instrumentRoles)).toEqual(mockParams.instruments);
+    });
+
+    it('falls back to the offline composer on network errors', async () => {
+      vi.useFakeTimers();
+      vi.spyOn(console, 'log').mockImplementation(() => {});
+      const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+      mockCallableImpl.mockRejectedValue({ code: 'functions/unavailable', message: 'offline' });
+
+      try {
+        const pending = composeMusic(mockParams);
+        await vi.runAllTimersAsync();
+        const result = await pending;
+
+        expect(result.scale).toHaveLength(5);
+        expect(result.form).toEqual(['A', "A'", 'B', "A''"]);
+        expect(warn).toHaveBeenCalledWith(expect.stringContaining('NETWORK_ERROR'));
+      } finally {
+        vi.useRealTimers();
+        vi.restoreAllMocks();
+      }
+    });
+
+    it('falls back to the offline composer when rate limited', async () => {
+      vi.useFakeTimers();
+      vi.spyOn(console, 'log').mockImplementation(() => {});
+      vi.spyOn(console, 'warn').mockImplementation(() => {});
+      mockCallableImpl.mockRejectedValue({ code: 'functions/resource-exhausted', message: 'quota' });
+
+      try {
+        const pending = composeMusic(mockParams);
+        await vi.runAllTimersAsync();
+
+        await expect(pending).resolves.toHaveProperty('motif');
+      } finally {
+        vi.useRealTimers();
+        vi.restoreAllMocks();
+      }
+    });
+
+    it('does not fall back on non-transient errors', async () => {
+      mockCallableImpl.mockRejectedValue({ code: 'functions/invalid-argument', message: 'Bad params' });
+
+      await expect(composeMusic(mockParams)).rejects.toMatchObject({ code: 'VALIDATION_ERROR' });
+    });
   });
 
   describe('generateAudio', () => {
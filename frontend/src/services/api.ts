@@ -4,9 +4,13 @@ import { getApp, getApps, initializeApp } from 'firebase/app';
 import { getAuth } from 'firebase/auth';
 import type { CompositionParams, Composition, AudioResult, PentatonicMode, Mood, Instrument } from '../types/music';
 import { ApiError, mapFirebaseError } from '../types/errors';
+import type { ApiErrorCode } from '../types/errors';
 import { withRetry } from '../utils/retry';
 import { API_TIMEOUTS, RETRY } from '../config/constants';
-import { synthesizeInstrument } from '../audio';
+import { synthesizeInstrument, RenderAbortedError } from '../audio';
+import type { RenderTaskOptions } from '../audio';
+import { composeOffline } from './offlineComposer';
+import { validateComposition } from '../utils/compositionSchema';
 
 /** Request payload for the generate audio endpoint */
 interface GenerateAudioRequest {
@@ -18,6 +22,9 @@ interface GenerateAudioRequest {
     seed?: number;
 }
 
+/** Compose failures that fall back to the offline composer instead of surfacing */
+const OFFLINE_FALLBACK_CODES: ApiErrorCode[] = ['NETWORK_ERROR', 'TIMEOUT', 'RATE_LIMIT', 'QUOTA_EXCEEDED'];
+
 // Initialize Firebase with environment variables
 const firebaseConfig = {
     apiKey: import.meta.env.VITE_FIREBASE_API_KEY,
@@ -37,13 +44,19 @@ if (import.meta.env.VITE_USE_EMULATOR === 'true') {
 
 /**
  * Composes a musical structure using Gemini AI.
- * Includes automatic retry for transient failures.
+ * Includes automatic retry for transient failures, and falls back to the
+ * offline composer when the network or quota is unavailable.
  *
- * @param params - Composition parameters (mode, tempo, instruments, mood)
+ * @param params - Composition parameters (mode, tempo, instruments, mood, engine)
  * @returns The generated composition structure
  * @throws ApiError with typed error code
  */
 export const composeMusic = async (params: CompositionParams): Promise<Composition> => {
+    const { engine, ...request } = params;
+    if (engine === 'offline') {
+        return composeOffline(request);
+    }
+
     const compose = httpsCallable<CompositionParams, Composition>(
         functions,
         'compose',
@@ -52,7 +65,7 @@ export const composeMusic = async (params: CompositionParams): Promise<Compositi
 
     try {
         const result = await withRetry(
-            () => compose(params),
+            () => compose(request),
             {
                 maxAttempts: RETRY.MAX_ATTEMPTS,
                 baseDelayMs: RETRY.BASE_DELAY_MS,
@@ -66,13 +79,24 @@ export const composeMusic = async (params: CompositionParams): Promise<Compositi
                 },
             }
         );
-        return result.data;
+
+        // The function validates too; this guards against older deployments
+        const { composition, violations } = validateComposition(result.data, request);
+        if (violations.length > 0) {
+            console.warn('[API] Compose response schema violations', violations);
+        }
+        if (!composition) {
+            throw new ApiError('Received an invalid composition', 'SERVER_ERROR', false);
+        }
+        return composition;
     } catch (error) {
         // Convert to typed ApiError if not already
-        if (error instanceof ApiError) {
-            throw error;
+        const apiError = error instanceof ApiError ? error : mapFirebaseError(error);
+        if (OFFLINE_FALLBACK_CODES.includes(apiError.code)) {
+            console.warn(`[API] Compose unavailable (${apiError.code}), using offline composer`);
+            return composeOffline(request);
         }
-        throw mapFirebaseError(error);
+        throw apiError;
     }
 };
 
@@ -147,22 +171,26 @@ export const generateAudio = async (
  * @param composition - The composition structure from composeMusic
  * @param instrument - The instrument to synthesize
  * @param context - Original composition parameters for context
+ * @param options - Progress callback (0-1) and abort signal
  * @returns The generated audio result with base64 WAV content
+ * @throws RenderAbortedError, unwrapped, when the signal aborts
  */
 export const synthesizeAudio = async (
     composition: Composition,
     instrument: Instrument,
-    context: CompositionParams
+    context: CompositionParams,
+    options: RenderTaskOptions = {}
 ): Promise<AudioResult> => {
     console.log(`[API] Synthesizing ${instrument} locally...`);
 
     try {
-        const result = await synthesizeInstrument(composition, instrument, context);
+        const result = await synthesizeInstrument(composition, instrument, context, options);
 
         console.log(`[API] ${instrument} synthesis complete (${Math.round(result.audioContent.length / 1024)}KB)`);
 
         return result;
     } catch (error) {
+        if (error instanceof RenderAbortedError) throw error;
         console.error(`[API] Local synthesis failed for ${instrument}:`, error);
         throw new ApiError(
             `Failed to synthesize ${instrument}: ${error instanceof Error ? error.message : 'Unknown error'}`,
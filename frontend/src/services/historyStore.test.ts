@@ -0,0 +1,232 @@
+/**
+ * Unit tests for the history store: its pure helpers, and its IndexedDB
+ * storage against an in-memory IndexedDB.
+ */
+
+import 'fake-indexeddb/auto';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import {
+    createHistoryEntry,
+    selectEvictions,
+    isOutdatedEntry,
+    saveEntry,
+    listEntries,
+    loadAudio,
+    updateEntry,
+    deleteEntries,
+    clearEntries,
+    migrateLocalStorageHistory,
+    LEGACY_SYNTH_VERSION,
+} from './historyStore';
+import type { HistoryEntry } from './historyStore';
+import { SYNTH_VERSION } from '../audio/synthesizer';
+import { STORAGE } from '../config/constants';
+import { mockComposition, mockParams, mockInstrumentAudioResult } from '../test/utils';
+
+/**
+ * Deep-copy plain data, keeping Blobs as they are.
+ */
+function cloneKeepingBlobs<T>(value: T): T {
+    if (value instanceof Blob || typeof value !== 'object' || value === null) return value;
+    if (Array.isArray(value)) return value.map(cloneKeepingBlobs) as T;
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, cloneKeepingBlobs(item)])) as T;
+}
+
+const entry = (id: string, favorite = false): HistoryEntry => ({
+    ...createHistoryEntry(id, mockParams, mockComposition, []),
+    favorite,
+});
+
+describe('historyStore', () => {
+    describe('createHistoryEntry', () => {
+        it('records instruments, seeds and audio size', () => {
+            const created = createHistoryEntry('comp_1', mockParams, mockComposition, [mockInstrumentAudioResult], {
+                createdAt: 1000,
+            });
+
+            expect(created).toEqual({
+                id: 'comp_1',
+                params: mockParams,
+                composition: mockComposition,
+                instruments: ['erhu'],
+                seeds: { erhu: 12345 },
+                synthVersion: SYNTH_VERSION,
+                audioSize: 12,
+                createdAt: 1000,
+                tags: [],
+                favorite: false,
+            });
+        });
+
+        it('reports no audio size when audio is not stored', () => {
+            const created = createHistoryEntry('comp_1', mockParams, mockComposition, [mockInstrumentAudioResult], {
+                withAudio: false,
+            });
+
+            expect(created.audioSize).toBe(0);
+        });
+
+        it('applies initial metadata', () => {
+            const created = createHistoryEntry('comp_1', mockParams, mockComposition, [], {
+                metadata: { title: 'Dawn', tags: ['keeper'], favorite: true },
+            });
+
+            expect(created).toMatchObject({ title: 'Dawn', tags: ['keeper'], favorite: true });
+        });
+
+        it('keeps saved automation lanes', () => {
+            const automation = { dizi: { volume: [{ time: 30, value: 1.4 }] } };
+            const created = createHistoryEntry('comp_1', mockParams, mockComposition, [], {
+                metadata: { automation },
+            });
+
+            expect(created.automation).toEqual(automation);
+        });
+
+        it('records the seeds of instruments played live', () => {
+            const created = createHistoryEntry('comp_1', mockParams, mockComposition, [], {
+                seeds: { erhu: 1, guzheng: 2 },
+            });
+
+            expect(created).toMatchObject({ instruments: ['erhu', 'guzheng'], seeds: { erhu: 1, guzheng: 2 }, audioSize: 0 });
+        });
+    });
+
+    describe('selectEvictions', () => {
+        it('evicts the oldest entries beyond the cap', () => {
+            const entries = [entry('a'), entry('b'), entry('c')];
+
+            expect(selectEvictions(entries, 2)).toEqual(['c']);
+            expect(selectEvictions(entries, 3)).toEqual([]);
+        });
+
+        it('keeps favorites and counts them toward the cap', () => {
+            const entries = [entry('a'), entry('b', true), entry('c'), entry('d', true)];
+
+            expect(selectEvictions(entries, 3)).toEqual(['c']);
+        });
+
+        it('keeps favorites even when they alone exceed the cap', () => {
+            const entries = [entry('a', true), entry('b'), entry('c', true)];
+
+            expect(selectEvictions(entries, 1)).toEqual(['b']);
+        });
+    });
+
+    describe('isOutdatedEntry', () => {
+        it('flags entries from older synth versions', () => {
+            expect(isOutdatedEntry({ synthVersion: SYNTH_VERSION })).toBe(false);
+            expect(isOutdatedEntry({ synthVersion: LEGACY_SYNTH_VERSION })).toBe(true);
+        });
+    });
+
+    describe('IndexedDB storage', () => {
+        const erhuAudio = { ...mockInstrumentAudioResult, instrument: 'erhu' as const, seed: 1 };
+        const guzhengAudio = { audioContent: 'R3V6aGVuZw==', mimeType: 'audio/wav', instrument: 'guzheng' as const, seed: 2 };
+
+        const storedEntry = (id: string, createdAt: number) => createHistoryEntry(
+            id, mockParams, mockComposition, [guzhengAudio, erhuAudio], { createdAt }
+        );
+
+        beforeEach(async () => {
+            // Node can't structured-clone jsdom's Blobs, so the fake stores them by reference
+            vi.stubGlobal('structuredClone', cloneKeepingBlobs);
+            await clearEntries();
+            localStorage.clear();
+        });
+
+        afterEach(() => {
+            vi.restoreAllMocks();
+            vi.unstubAllGlobals();
+        });
+
+        it('lists saved entries newest first', async () => {
+            await saveEntry(storedEntry('old', 1000), []);
+            await saveEntry(storedEntry('new', 2000), []);
+
+            expect((await listEntries()).map((e) => e.id)).toEqual(['new', 'old']);
+        });
+
+        it('round-trips audio in the entry\'s instrument order', async () => {
+            await saveEntry(storedEntry('comp_1', 1000), [erhuAudio, guzhengAudio]);
+
+            expect(await loadAudio('comp_1')).toEqual([guzhengAudio, erhuAudio]);
+            expect(await loadAudio('missing')).toEqual([]);
+        });
+
+        it('updates metadata and keeps the rest of the entry', async () => {
+            const entry = storedEntry('comp_1', 1000);
+            await saveEntry(entry, []);
+
+            const updated = await updateEntry('comp_1', { title: 'Dawn', favorite: true });
+
+            expect(updated).toEqual({ ...entry, title: 'Dawn', favorite: true });
+            expect(await listEntries()).toEqual([updated]);
+            expect(await updateEntry('missing', { title: 'Dusk' })).toBeUndefined();
+        });
+
+        it('deletes entries together with their audio', async () => {
+            await saveEntry(storedEntry('gone', 1000), [erhuAudio, guzhengAudio]);
+            await saveEntry(storedEntry('kept', 2000), [erhuAudio]);
+
+            await deleteEntries(['gone']);
+
+            expect((await listEntries()).map((e) => e.id)).toEqual(['kept']);
+            expect(await loadAudio('gone')).toEqual([]);
+            expect(await loadAudio('kept')).toEqual([erhuAudio]);
+        });
+
+        describe('migrateLocalStorageHistory', () => {
+            const legacyEntry = (id: string, audioContent: string) => ({
+                id,
+                params: mockParams,
+                composition: mockComposition,
+                audioResults: [{ ...erhuAudio, audioContent }],
+                createdAt: 1000,
+                title: 'Legacy',
+            });
+
+            it('does nothing without localStorage history', async () => {
+                expect(await migrateLocalStorageHistory()).toBe(0);
+                expect(await listEntries()).toEqual([]);
+            });
+
+            it('moves entries and their audio, then removes the old key', async () => {
+                localStorage.setItem(STORAGE.HISTORY_KEY, JSON.stringify([legacyEntry('comp_1', erhuAudio.audioContent)]));
+
+                expect(await migrateLocalStorageHistory()).toBe(1);
+
+                const [entry] = await listEntries();
+                expect(entry).toMatchObject({
+                    id: 'comp_1',
+                    title: 'Legacy',
+                    instruments: ['erhu'],
+                    synthVersion: LEGACY_SYNTH_VERSION,
+                });
+                expect(await loadAudio('comp_1')).toEqual([erhuAudio]);
+                expect(localStorage.getItem(STORAGE.HISTORY_KEY)).toBeNull();
+            });
+
+            it('skips entries whose audio is corrupt and migrates the rest', async () => {
+                vi.spyOn(console, 'warn').mockImplementation(() => {});
+                localStorage.setItem(STORAGE.HISTORY_KEY, JSON.stringify([
+                    legacyEntry('corrupt', '@@not base64@@'),
+                    legacyEntry('comp_1', erhuAudio.audioContent),
+                ]));
+
+                expect(await migrateLocalStorageHistory()).toBe(1);
+
+                expect((await listEntries()).map((e) => e.id)).toEqual(['comp_1']);
+                expect(localStorage.getItem(STORAGE.HISTORY_KEY)).toBeNull();
+            });
+
+            it('discards unreadable localStorage history', async () => {
+                vi.spyOn(console, 'warn').mockImplementation(() => {});
+                localStorage.setItem(STORAGE.HISTORY_KEY, '{not json');
+
+                expect(await migrateLocalStorageHistory()).toBe(0);
+                expect(localStorage.getItem(STORAGE.HISTORY_KEY)).toBeNull();
+            });
+        });
+    });
+});
@@ -0,0 +1,409 @@
+/**
+ * IndexedDB-backed composition history.
+ *
+ * Entries (params, composition and metadata) and rendered audio live in
+ * separate object stores, so the history list loads without touching any
+ * audio and an entry's audio is only read when it is opened. Audio is
+ * optional: an entry without it is re-rendered from its composition and
+ * per-instrument seeds.
+ */
+
+import type { CompositionParams, Composition, Instrument, InstrumentAudioResult } from '../types/music';
+import { STORAGE } from '../config/constants';
+import { base64ToBlob, base64ByteLength, blobToBase64 } from '../utils/audio';
+import { validateHistoryData, validateHistoryEntry } from '../utils/validation';
+import { AudioError } from '../types/errors';
+import { SYNTH_VERSION } from '../audio/synthesizer';
+import type { MixAutomation, MixEffects } from '../audio/types';
+
+/** Synth version recorded for entries saved before versions were tracked */
+export const LEGACY_SYNTH_VERSION = 0;
+
+const ENTRY_STORE = 'compositions';
+const AUDIO_STORE = 'audio';
+
+/** A history entry, without its audio */
+export interface HistoryEntry {
+    id: string;
+    params: CompositionParams;
+    composition: Composition;
+    /** Rendered instruments, in render order */
+    instruments: Instrument[];
+    /** Seed each instrument was rendered with, to reproduce its audio */
+    seeds: Partial<Record<Instrument, number>>;
+    /** `SYNTH_VERSION` of the engine that rendered the entry */
+    synthVersion: number;
+    /** Total size of the stored audio in bytes; 0 if no audio is stored */
+    audioSize: number;
+    createdAt: number;
+    /** User-given title; the list falls back to the mode name */
+    title?: string;
+    /** Free-form tags */
+    tags: string[];
+    /** Favorites are never evicted by the history cap */
+    favorite: boolean;
+    /** Mixer automation lanes drawn over the form; absent when nothing is automated */
+    automation?: MixAutomation;
+    /** Mixer insert effects of each track; absent when every track is neutral */
+    effects?: MixEffects;
+}
+
+/** Fields of an entry the user can edit */
+export type HistoryEntryChanges = Partial<Pick<HistoryEntry, 'title' | 'tags' | 'favorite' | 'automation' | 'effects'>>;
+
+/** Options for `createHistoryEntry` */
+export interface HistoryEntryOptions {
+    /** Whether the audio will be stored with the entry (default: true) */
+    withAudio?: boolean;
+    /** Creation timestamp (default: now) */
+    createdAt?: number;
+    /** Engine version that rendered the audio (default: the current `SYNTH_VERSION`) */
+    synthVersion?: number;
+    /** Initial title, tags, favorite flag, automation and effects */
+    metadata?: HistoryEntryChanges;
+    /** Seeds of instruments played live, with no rendered audio */
+    seeds?: Partial<Record<Instrument, number>>;
+}
+
+/** Stored audio for one instrument of an entry */
+interface AudioRecord {
+    /** `${entryId}:${instrument}` */
+    key: string;
+    entryId: string;
+    instrument: Instrument;
+    mimeType: string;
+    seed: number;
+    blob: Blob;
+}
+
+/** Storage used by the history */
+export interface StorageUsage {
+    entries: number;
+    /** Bytes of audio stored by the history */
+    audioBytes: number;
+    /** Origin-wide usage reported by the browser, if available */
+    usageBytes?: number;
+    /** Origin-wide quota reported by the browser, if available */
+    quotaBytes?: number;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+/**
+ * Open (and on first use, create) the history database.
+ */
+function openDatabase(): Promise<IDBDatabase> {
+    if (!dbPromise) {
+        dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+            if (typeof indexedDB === 'undefined') {
+                reject(new Error('IndexedDB is not available'));
+                return;
+            }
+
+            const request = indexedDB.open(STORAGE.DB_NAME, STORAGE.DB_VERSION);
+            request.onupgradeneeded = () => {
+                const db = request.result;
+                if (!db.objectStoreNames.contains(ENTRY_STORE)) {
+                    db.createObjectStore(ENTRY_STORE, { keyPath: 'id' });
+                }
+                if (!db.objectStoreNames.contains(AUDIO_STORE)) {
+                    db.createObjectStore(AUDIO_STORE, { keyPath: 'key' })
+                        .createIndex('entryId', 'entryId');
+                }
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => reject(request.error);
+        });
+
+        // Allow a later call to retry if opening failed
+        dbPromise.catch(() => {
+            dbPromise = null;
+        });
+    }
+    return dbPromise;
+}
+
+/**
+ * Fill in fields missing from entries stored by earlier versions.
+ */
+function withDefaults(entry: HistoryEntry): HistoryEntry {
+    return {
+        ...entry,
+        seeds: entry.seeds ?? {},
+        synthVersion: entry.synthVersion ?? LEGACY_SYNTH_VERSION,
+        tags: entry.tags ?? [],
+        favorite: entry.favorite ?? false,
+    };
+}
+
+/**
+ * Resolve with a request's result.
+ */
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+    return new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+}
+
+/**
+ * Resolve once a transaction has committed.
+ */
+function transactionDone(tx: IDBTransaction): Promise<void> {
+    return new Promise((resolve, reject) => {
+        tx.oncomplete = () => resolve();
+        tx.onerror = () => reject(tx.error);
+        tx.onabort = () => reject(tx.error ?? new Error('Transaction aborted'));
+    });
+}
+
+/**
+ * Build a history entry from a finished generation.
+ *
+ * @param id - Entry id
+ * @param params - Parameters the composition was rendered with
+ * @param composition - The composition
+ * @param audioResults - Rendered audio, one result per instrument (empty when played live)
+ * @param options - Audio storage, timestamp, engine version and live seeds
+ */
+export function createHistoryEntry(
+    id: string,
+    params: CompositionParams,
+    composition: Composition,
+    audioResults: InstrumentAudioResult[],
+    { withAudio = true, createdAt = Date.now(), synthVersion = SYNTH_VERSION, metadata = {}, seeds = {} }: HistoryEntryOptions = {}
+): HistoryEntry {
+    return {
+        tags: [],
+        favorite: false,
+        ...metadata,
+        id,
+        params,
+        composition,
+        instruments: audioResults.length > 0
+            ? audioResults.map((result) => result.instrument)
+            : (Object.keys(seeds) as Instrument[]),
+        seeds: { ...seeds, ...Object.fromEntries(audioResults.map((result) => [result.instrument, result.seed])) },
+        synthVersion,
+        audioSize: withAudio
+            ? audioResults.reduce((total, result) => total + base64ByteLength(result.audioContent), 0)
+            : 0,
+        createdAt,
+    };
+}
+
+/**
+ * Pick the entries to evict so at most `maxEntries` remain.
+ * The oldest non-favorites go first; favorites are always kept, even if
+ * they alone exceed the cap.
+ *
+ * @param entries - Entries, newest first
+ * @param maxEntries - Maximum number of entries to keep
+ * @returns Ids of the entries to evict
+ */
+export function selectEvictions(entries: HistoryEntry[], maxEntries: number): string[] {
+    const favorites = entries.filter((entry) => entry.favorite).length;
+    const slots = Math.max(0, maxEntries - favorites);
+
+    return entries
+        .filter((entry) => !entry.favorite)
+        .slice(slots)
+        .map((entry) => entry.id);
+}
+
+/**
+ * Whether an entry was rendered by an older engine, so re-rendering it
+ * may not reproduce the original audio.
+ */
+export function isOutdatedEntry(entry: Pick<HistoryEntry, 'synthVersion'>): boolean {
+    return entry.synthVersion < SYNTH_VERSION;
+}
+
+/**
+ * List all entries, newest first.
+ * Stored entries are validated like imported data: broken ones are left out
+ * and fields of the wrong type are repaired.
+ */
+export async function listEntries(): Promise<HistoryEntry[]> {
+    const db = await openDatabase();
+    const entries = await requestToPromise<unknown[]>(
+        db.transaction(ENTRY_STORE).objectStore(ENTRY_STORE).getAll()
+    );
+    return entries
+        .map(validateHistoryEntry)
+        .filter((entry): entry is HistoryEntry => entry !== null)
+        .map(withDefaults)
+        .sort((a, b) => b.createdAt - a.createdAt);
+}
+
+/**
+ * Save an entry and its audio in one transaction.
+ * Pass no audio results to store the entry alone.
+ */
+export async function saveEntry(entry: HistoryEntry, audioResults: InstrumentAudioResult[]): Promise<void> {
+    // Decode before opening the transaction, which would otherwise auto-commit
+    const records: AudioRecord[] = audioResults.map((result) => ({
+        key: `${entry.id}:${result.instrument}`,
+        entryId: entry.id,
+        instrument: result.instrument,
+        mimeType: result.mimeType,
+        seed: result.seed,
+        blob: base64ToBlob(result.audioContent, result.mimeType, result.instrument),
+    }));
+
+    const db = await openDatabase();
+    const tx = db.transaction([ENTRY_STORE, AUDIO_STORE], 'readwrite');
+    tx.objectStore(ENTRY_STORE).put(entry);
+    for (const record of records) {
+        tx.objectStore(AUDIO_STORE).put(record);
+    }
+    await transactionDone(tx);
+}
+
+/**
+ * Load an entry's audio, in the entry's instrument order.
+ * Returns an empty array if the entry has no stored audio.
+ */
+export async function loadAudio(id: string): Promise<InstrumentAudioResult[]> {
+    const db = await openDatabase();
+    const tx = db.transaction([ENTRY_STORE, AUDIO_STORE]);
+    const [entry, records] = await Promise.all([
+        requestToPromise<HistoryEntry | undefined>(tx.objectStore(ENTRY_STORE).get(id)),
+        requestToPromise<AudioRecord[]>(tx.objectStore(AUDIO_STORE).index('entryId').getAll(id)),
+    ]);
+
+    const order = entry?.instruments ?? [];
+    records.sort((a, b) => order.indexOf(a.instrument) - order.indexOf(b.instrument));
+
+    return Promise.all(records.map(async (record) => ({
+        instrument: record.instrument,
+        mimeType: record.mimeType,
+        seed: record.seed,
+        audioContent: await blobToBase64(record.blob),
+    })));
+}
+
+/**
+ * Update an entry's title, tags, favorite flag, automation or effects.
+ *
+ * @returns The updated entry, or undefined if it no longer exists
+ */
+export async function updateEntry(id: string, changes: HistoryEntryChanges): Promise<HistoryEntry | undefined> {
+    const db = await openDatabase();
+    const tx = db.transaction(ENTRY_STORE, 'readwrite');
+    const store = tx.objectStore(ENTRY_STORE);
+
+    const stored = await requestToPromise<HistoryEntry | undefined>(store.get(id));
+    const updated = stored ? { ...withDefaults(stored), ...changes } : undefined;
+    if (updated) {
+        store.put(updated);
+    }
+
+    await transactionDone(tx);
+    return updated;
+}
+
+/**
+ * Delete entries and their audio.
+ */
+export async function deleteEntries(ids: string[]): Promise<void> {
+    if (ids.length === 0) return;
+
+    const db = await openDatabase();
+    const tx = db.transaction([ENTRY_STORE, AUDIO_STORE], 'readwrite');
+    const audioIndex = tx.objectStore(AUDIO_STORE).index('entryId');
+
+    for (const id of ids) {
+        tx.objectStore(ENTRY_STORE).delete(id);
+        audioIndex.getAllKeys(id).onsuccess = (event) => {
+            const keys = (event.target as IDBRequest<IDBValidKey[]>).result;
+            for (const key of keys) {
+                tx.objectStore(AUDIO_STORE).delete(key);
+            }
+        };
+    }
+    await transactionDone(tx);
+}
+
+/**
+ * Delete every entry and all audio.
+ */
+export async function clearEntries(): Promise<void> {
+    const db = await openDatabase();
+    const tx = db.transaction([ENTRY_STORE, AUDIO_STORE], 'readwrite');
+    tx.objectStore(ENTRY_STORE).clear();
+    tx.objectStore(AUDIO_STORE).clear();
+    await transactionDone(tx);
+}
+
+/**
+ * Keep only the newest `maxEntries` entries, plus any favorites.
+ *
+ * @returns Ids of the deleted entries
+ */
+export async function trimEntries(maxEntries: number): Promise<string[]> {
+    const entries = await listEntries();
+    const removed = selectEvictions(entries, maxEntries);
+    await deleteEntries(removed);
+    return removed;
+}
+
+/**
+ * Report how much the history stores, plus the browser's overall estimate.
+ */
+export async function getStorageUsage(): Promise<StorageUsage> {
+    const entries = await listEntries();
+    const usage: StorageUsage = {
+        entries: entries.length,
+        audioBytes: entries.reduce((total, entry) => total + entry.audioSize, 0),
+    };
+
+    if (typeof navigator !== 'undefined' && navigator.storage?.estimate) {
+        const estimate = await navigator.storage.estimate();
+        usage.usageBytes = estimate.usage;
+        usage.quotaBytes = estimate.quota;
+    }
+
+    return usage;
+}
+
+/**
+ * Move history saved by older versions from localStorage into IndexedDB.
+ * The localStorage copy is removed only once every entry has been saved.
+ *
+ * @returns Number of migrated entries
+ */
+export async function migrateLocalStorageHistory(): Promise<number> {
+    const stored = localStorage.getItem(STORAGE.HISTORY_KEY);
+    if (stored === null) return 0;
+
+    let legacy: ReturnType<typeof validateHistoryData> = [];
+    try {
+        legacy = validateHistoryData(JSON.parse(stored));
+    } catch (error) {
+        console.warn('[History] Discarding unreadable localStorage history:', error);
+    }
+
+    // Fail before touching localStorage if IndexedDB can't be used
+    await openDatabase();
+
+    let migrated = 0;
+    for (const saved of legacy) {
+        const entry = createHistoryEntry(saved.id, saved.params, saved.composition, saved.audioResults, {
+            createdAt: saved.createdAt,
+            synthVersion: LEGACY_SYNTH_VERSION,
+            metadata: { title: saved.title, tags: saved.tags ?? [], favorite: saved.favorite ?? false },
+        });
+        try {
+            await saveEntry(entry, saved.audioResults);
+            migrated++;
+        } catch (error) {
+            // Corrupt audio only loses that entry; storage errors abort the migration
+            if (!(error instanceof AudioError)) throw error;
+            console.warn(`[History] Skipping ${saved.id}, its audio could not be decoded:`, error);
+        }
+    }
+
+    localStorage.removeItem(STORAGE.HISTORY_KEY);
+    return migrated;
+}
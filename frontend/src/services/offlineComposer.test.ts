@@ -0,0 +1,182 @@
+/**
+ * Unit tests for the rule-based offline composer.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { composeOffline } from './offlineComposer';
+import { buildScale } from '../audio/scheduling';
+import { noteToMidi } from '../audio/utils/frequencies';
+import type { CompositionParams, Mood } from '../types/music';
+
+const baseParams: CompositionParams = {
+    mode: 'gong',
+    root: 'C',
+    tempo: 72,
+    instruments: ['erhu', 'guzheng'],
+    mood: 'calm',
+    seed: 42,
+};
+
+const MOODS: Mood[] = ['calm', 'heroic', 'melancholic', 'festive'];
+
+describe('offlineComposer', () => {
+
+    describe('determinism', () => {
+        it('returns the same composition for the same params', () => {
+            expect(composeOffline(baseParams)).toEqual(composeOffline(baseParams));
+        });
+
+        it('varies the motif across seeds', () => {
+            const motifs = new Set(
+                [1, 2, 3, 4, 5].map(seed =>
+                    composeOffline({ ...baseParams, seed }).motif.pitches.join(' ')
+                )
+            );
+            expect(motifs.size).toBeGreaterThan(1);
+        });
+    });
+
+    describe('structure', () => {
+        it('uses the pentatonic scale for the mode and root', () => {
+            const composition = composeOffline({ ...baseParams, mode: 'yu', root: 'D' });
+            expect(composition.scale).toEqual(buildScale('D', 'yu', 4));
+        });
+
+        it('uses A A\' B A\'\' form', () => {
+            expect(composeOffline(baseParams).form).toEqual(['A', "A'", 'B', "A''"]);
+        });
+
+        it('keeps motifs within 4-8 notes with matching rhythm', () => {
+            for (const mood of MOODS) {
+                for (let seed = 0; seed < 20; seed++) {
+                    const { motif } = composeOffline({ ...baseParams, mood, seed });
+                    expect(motif.pitches.length).toBeGreaterThanOrEqual(4);
+                    expect(motif.pitches.length).toBeLessThanOrEqual(8);
+                    expect(motif.rhythm).toHaveLength(motif.pitches.length);
+                }
+            }
+        });
+    });
+
+    describe('melodic rules', () => {
+        it('only uses scale tones', () => {
+            for (let seed = 0; seed < 20; seed++) {
+                const composition = composeOffline({ ...baseParams, mood: 'festive', seed });
+                const pitchClasses = composition.scale.map(n => noteToMidi(n) % 12);
+                composition.motif.pitches.forEach(pitch => {
+                    expect(pitchClasses).toContain(noteToMidi(pitch) % 12);
+                });
+            }
+        });
+
+        it('ends on the 1st or 5th degree', () => {
+            for (let seed = 0; seed < 20; seed++) {
+                const composition = composeOffline({ ...baseParams, seed });
+                const last = composition.motif.pitches[composition.motif.pitches.length - 1];
+                const cadenceClasses = [composition.scale[0], composition.scale[3]].map(n => noteToMidi(n) % 12);
+                expect(cadenceClasses).toContain(noteToMidi(last) % 12);
+            }
+        });
+
+        it('holds the final note', () => {
+            const { rhythm } = composeOffline(baseParams).motif;
+            expect(rhythm[rhythm.length - 1]).toBe(2);
+        });
+
+        it('recovers from leaps in the opposite direction', () => {
+            for (const mood of MOODS) {
+                for (let seed = 0; seed < 30; seed++) {
+                    const midi = composeOffline({ ...baseParams, mood, seed }).motif.pitches.map(noteToMidi);
+                    for (let i = 2; i < midi.length; i++) {
+                        const leap = midi[i - 1] - midi[i - 2];
+                        // A leap spans three or more pentatonic steps (at least a fifth)
+                        if (Math.abs(leap) >= 7) {
+                            expect(Math.sign(midi[i] - midi[i - 1])).toBe(-Math.sign(leap));
+                        }
+                    }
+                }
+            }
+        });
+    });
+
+    describe('roles and patterns', () => {
+        it('gives erhu the melody and guzheng the accompaniment', () => {
+            expect(composeOffline(baseParams).instrumentRoles).toEqual({
+                erhu: 'melody',
+                guzheng: 'accompaniment',
+            });
+        });
+
+        it('assigns bass to pipa in larger ensembles', () => {
+            const { instrumentRoles } = composeOffline({
+                ...baseParams,
+                instruments: ['erhu', 'dizi', 'pipa', 'guzheng'],
+            });
+            expect(instrumentRoles).toEqual({
+                erhu: 'melody',
+                dizi: 'countermelody',
+                pipa: 'bass',
+                guzheng: 'accompaniment',
+            });
+        });
+
+        it('gives a solo instrument the melody', () => {
+            expect(composeOffline({ ...baseParams, instruments: ['guzheng'] }).instrumentRoles)
+                .toEqual({ guzheng: 'melody' });
+        });
+
+        it('uses E(3,8) for melody and E(5,8) for accompaniment', () => {
+            const { euclideanPatterns } = composeOffline(baseParams);
+            expect(euclideanPatterns.melody).toHaveLength(8);
+            expect(euclideanPatterns.melody.filter(Boolean)).toHaveLength(3);
+            expect(euclideanPatterns.accompaniment.filter(Boolean)).toHaveLength(5);
+        });
+
+        it('provides a pattern for every assigned role', () => {
+            const { instrumentRoles, euclideanPatterns } = composeOffline({
+                ...baseParams,
+                instruments: ['erhu', 'dizi', 'pipa', 'guzheng'],
+            });
+            Object.values(instrumentRoles).forEach(role => {
+                expect(euclideanPatterns[role]).toBeDefined();
+            });
+        });
+    });
+
+    describe('sections', () => {
+        it('plans one section per form entry', () => {
+            const { form, sections } = composeOffline(baseParams);
+            expect(sections).toHaveLength(form.length);
+        });
+
+        it('varies the motif in A\' and inverts it in B', () => {
+            const { sections } = composeOffline(baseParams);
+
+            expect(sections![0].motif).toBeUndefined();
+            expect(sections![1].motif?.transpose).toBeGreaterThan(0);
+            expect(sections![2].motif?.invert).toBe(true);
+            expect(sections![3].motif).toBeUndefined();
+        });
+
+        it('builds dynamics to the B section and returns for A\'\'', () => {
+            MOODS.forEach(mood => {
+                const { sections } = composeOffline({ ...baseParams, mood });
+                const [a, aPrime, b, aDoublePrime] = sections!.map(s => s.dynamics);
+
+                expect(aDoublePrime).toBe(a);
+                expect(['pp', 'p', 'mp', 'mf', 'f', 'ff'].indexOf(b!))
+                    .toBeGreaterThan(['pp', 'p', 'mp', 'mf', 'f', 'ff'].indexOf(aPrime!));
+            });
+        });
+
+        it('hands the melody to the countermelody instrument in B', () => {
+            const { instrumentRoles, sections } = composeOffline({
+                ...baseParams,
+                instruments: ['erhu', 'dizi'],
+            });
+
+            expect(instrumentRoles).toEqual({ erhu: 'melody', dizi: 'countermelody' });
+            expect(sections![2].instrumentRoles).toEqual({ erhu: 'countermelody', dizi: 'melody' });
+        });
+    });
+});
@@ -0,0 +1,251 @@
+/**
+ * Rule-based offline composer.
+ *
+ * Implements the same composition rules the Gemini compose function is given
+ * (see functions/src/compose.ts), so the app keeps working without network
+ * access or cloud credentials. Output is deterministic for a given set of params.
+ */
+
+import type { Composition, CompositionParams, Dynamic, Instrument, Mood, SectionPlan } from '../types/music';
+import { buildScale, generateEuclidean, rotatePattern } from '../audio/scheduling';
+import { transposeNote } from '../audio/utils/frequencies';
+import { createRandom, deriveSeed } from '../audio/utils/random';
+import type { RandomSource } from '../audio/utils/random';
+
+/** Structure: A A' B A'' form */
+const FORM = ['A', "A'", 'B', "A''"];
+
+/** Phrases end on the 1st or 5th degree (index 3 in a pentatonic scale, as in the bass pattern) */
+const CADENCE_DEGREES = [0, 3];
+
+/** Motif length range per mood (rules allow 4-8 notes) */
+const MOTIF_LENGTH: Record<Mood, { min: number; max: number }> = {
+    calm: { min: 4, max: 5 },
+    melancholic: { min: 5, max: 6 },
+    heroic: { min: 5, max: 7 },
+    festive: { min: 6, max: 8 },
+};
+
+/** Chance of a leap instead of stepwise motion, per mood */
+const LEAP_CHANCE: Record<Mood, number> = {
+    calm: 0.15,
+    melancholic: 0.2,
+    heroic: 0.35,
+    festive: 0.3,
+};
+
+/** Dynamics from softest to loudest */
+const DYNAMIC_LADDER: Dynamic[] = ['pp', 'p', 'mp', 'mf', 'f', 'ff'];
+
+/** Opening dynamic per mood, as a DYNAMIC_LADDER index; A' and B build from it */
+const BASE_DYNAMIC: Record<Mood, number> = {
+    calm: 1,
+    melancholic: 1,
+    heroic: 3,
+    festive: 3,
+};
+
+/** Instruments in order of preference for carrying the melody */
+const MELODY_PREFERENCE: Instrument[] = ['erhu', 'dizi', 'pipa', 'guzheng'];
+
+/**
+ * Compose a structure locally using the compose rules.
+ *
+ * @param params - Composition parameters (mode, root, tempo, instruments, mood, seed)
+ * @returns A composition in the same shape the compose function returns
+ */
+export function composeOffline(params: CompositionParams): Composition {
+    const random = createRandom(
+        deriveSeed(params.seed ?? 0, `compose:${params.mode}:${params.root}:${params.mood}:${params.tempo}`)
+    );
+
+    const scale = buildScale(params.root, params.mode, 4);
+    const instrumentRoles = assignRoles(params.instruments);
+    const roles = new Set(Object.values(instrumentRoles));
+    const motif = generateMotif(scale, params.mood, random);
+
+    return {
+        scale,
+        motif,
+        form: [...FORM],
+        instrumentRoles,
+        euclideanPatterns: buildPatterns(roles),
+        sections: buildSections(params.mood, instrumentRoles, random),
+    };
+}
+
+/**
+ * Plan the sections: A states the motif, A' sequences it up the scale,
+ * B contrasts with an inversion (handing the melody to the countermelody
+ * instrument if there is one) and A'' restates the motif.
+ * Dynamics build to B and fall back for the return.
+ */
+function buildSections(
+    mood: Mood,
+    instrumentRoles: Record<string, string>,
+    random: RandomSource
+): SectionPlan[] {
+    const base = BASE_DYNAMIC[mood];
+    const dynamic = (step: number) => DYNAMIC_LADDER[Math.min(base + step, DYNAMIC_LADDER.length - 1)];
+    const slow = mood === 'calm' || mood === 'melancholic';
+
+    const b: SectionPlan = {
+        motif: slow ? { invert: true, augment: 2 } : { invert: true },
+        dynamics: dynamic(2),
+    };
+
+    const lead = Object.keys(instrumentRoles).find((inst) => instrumentRoles[inst] === 'melody');
+    const answer = Object.keys(instrumentRoles).find((inst) => instrumentRoles[inst] === 'countermelody');
+    if (lead && answer) {
+        b.instrumentRoles = { [lead]: 'countermelody', [answer]: 'melody' };
+    }
+
+    return [
+        { dynamics: dynamic(0) },
+        { motif: { transpose: random() < 0.5 ? 1 : 2 }, dynamics: dynamic(1) },
+        b,
+        { dynamics: dynamic(0) },
+    ];
+}
+
+/**
+ * Generate a motif following the melodic rules:
+ * prefer stepwise motion, recover from leaps in the opposite direction,
+ * and cadence on the 1st or 5th degree.
+ */
+function generateMotif(
+    scale: string[],
+    mood: Mood,
+    random: RandomSource
+): Composition['motif'] {
+    // Degrees are scale indices spanning two octaves
+    const scaleLength = scale.length;
+    const maxDegree = scaleLength * 2 - 1;
+    const { min, max } = MOTIF_LENGTH[mood];
+    const length = min + Math.floor(random() * (max - min + 1));
+
+    const degrees: number[] = [CADENCE_DEGREES[Math.floor(random() * CADENCE_DEGREES.length)]];
+    let lastInterval = 0;
+
+    for (let i = 1; i < length - 1; i++) {
+        const previous = degrees[i - 1];
+        let interval: number;
+
+        if (Math.abs(lastInterval) > 2) {
+            // Leap recovery: step back the other way
+            interval = -Math.sign(lastInterval);
+        } else if (random() < LEAP_CHANCE[mood]) {
+            interval = (random() < 0.5 ? -1 : 1) * (3 + Math.floor(random() * 2));
+        } else {
+            interval = random() < 0.5 ? -1 : 1;
+        }
+
+        // Keep within range by reflecting off the edges
+        if (previous + interval < 0 || previous + interval > maxDegree) {
+            interval = -interval;
+        }
+
+        degrees.push(previous + interval);
+        lastInterval = interval;
+    }
+
+    degrees.push(resolveCadence(degrees[degrees.length - 1], lastInterval, scaleLength, maxDegree));
+
+    return {
+        pitches: degrees.map((degree) => degreeToPitch(scale, degree)),
+        rhythm: generateRhythm(degrees, random),
+    };
+}
+
+/**
+ * Pick the cadence degree closest to the previous note,
+ * honouring leap recovery if the motif just leapt.
+ */
+function resolveCadence(
+    previous: number,
+    lastInterval: number,
+    scaleLength: number,
+    maxDegree: number
+): number {
+    const candidates: number[] = [];
+    for (let octave = 0; octave * scaleLength <= maxDegree; octave++) {
+        for (const degree of CADENCE_DEGREES) {
+            const candidate = octave * scaleLength + degree;
+            if (candidate <= maxDegree) candidates.push(candidate);
+        }
+    }
+
+    const allowed = Math.abs(lastInterval) > 2
+        ? candidates.filter((c) => Math.sign(c - previous) === -Math.sign(lastInterval))
+        : candidates;
+    const pool = allowed.length > 0 ? allowed : candidates;
+
+    return pool.reduce((best, c) =>
+        Math.abs(c - previous) < Math.abs(best - previous) ? c : best
+    );
+}
+
+/**
+ * Rhythm values in beats: steps move quickly, leaps and the cadence are held.
+ */
+function generateRhythm(degrees: number[], random: RandomSource): number[] {
+    return degrees.map((degree, i) => {
+        if (i === degrees.length - 1) return 2;
+        const nextInterval = Math.abs(degrees[i + 1] - degree);
+        if (nextInterval > 2) return 1.5;
+        return random() < 0.5 ? 0.5 : 1;
+    });
+}
+
+/**
+ * Convert a scale index (possibly above the first octave) to a pitch.
+ */
+function degreeToPitch(scale: string[], degree: number): string {
+    const octave = Math.floor(degree / scale.length);
+    const pitch = scale[degree % scale.length];
+    return octave === 0 ? pitch : transposeNote(pitch, octave * 12);
+}
+
+/**
+ * Assign ensemble roles: the preferred melodic instrument leads, a second
+ * melodic instrument answers, guzheng accompanies and pipa anchors larger ensembles.
+ */
+function assignRoles(instruments: Instrument[]): Record<string, string> {
+    const roles: Record<string, string> = {};
+    const lead = MELODY_PREFERENCE.find((inst) => instruments.includes(inst)) ?? instruments[0];
+
+    for (const instrument of instruments) {
+        if (instrument === lead) {
+            roles[instrument] = 'melody';
+        } else if (instrument === 'guzheng') {
+            roles[instrument] = 'accompaniment';
+        } else if (instrument === 'pipa') {
+            roles[instrument] = instruments.length >= 3 ? 'bass' : 'accompaniment';
+        } else {
+            roles[instrument] = 'countermelody';
+        }
+    }
+
+    return roles;
+}
+
+/**
+ * Euclidean rhythms per role: E(3,8) for melodic lines, E(5,8) for accompaniment.
+ */
+function buildPatterns(roles: Set<string>): Record<string, number[]> {
+    const toNumeric = (pattern: boolean[]) => pattern.map((hit) => (hit ? 1 : 0));
+    const patterns: Record<string, number[]> = {
+        melody: toNumeric(generateEuclidean(3, 8)),
+        accompaniment: toNumeric(generateEuclidean(5, 8)),
+    };
+
+    if (roles.has('countermelody')) {
+        // Offset from the melody so the lines interlock
+        patterns.countermelody = rotatePattern(patterns.melody, 2);
+    }
+    if (roles.has('bass')) {
+        patterns.bass = toNumeric(generateEuclidean(2, 8));
+    }
+
+    return patterns;
+}
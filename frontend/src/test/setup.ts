@@ -36,6 +36,14 @@ if (typeof global.Blob === 'undefined') {
   } as unknown as typeof Blob;
 }
 
+// AudioParam with the automation methods the mixers schedule lanes with
+const createMockParam = (value: number) => ({
+  value,
+  setValueAtTime: vi.fn(),
+  linearRampToValueAtTime: vi.fn(),
+  cancelScheduledValues: vi.fn(),
+});
+
 // Mock AudioContext for Web Audio API (used by useAudioMixer)
 class MockAudioContext {
   destination = {};
@@ -45,7 +53,50 @@ class MockAudioContext {
   createGain = vi.fn(() => ({
     connect: vi.fn(),
     disconnect: vi.fn(),
-    gain: { value: 1 },
+    gain: createMockParam(1),
+  }));
+
+  createStereoPanner = vi.fn(() => ({
+    connect: vi.fn(),
+    disconnect: vi.fn(),
+    pan: createMockParam(0),
+  }));
+
+  createBiquadFilter = vi.fn(() => ({
+    connect: vi.fn(),
+    disconnect: vi.fn(),
+    type: 'lowpass',
+    frequency: { value: 350 },
+    Q: { value: 1 },
+    gain: { value: 0 },
+  }));
+
+  createDynamicsCompressor = vi.fn(() => ({
+    connect: vi.fn(),
+    disconnect: vi.fn(),
+    threshold: { value: -24 },
+    knee: { value: 30 },
+    ratio: { value: 12 },
+    attack: { value: 0.003 },
+    release: { value: 0.25 },
+  }));
+
+  createDelay = vi.fn(() => ({
+    connect: vi.fn(),
+    disconnect: vi.fn(),
+    delayTime: { value: 0 },
+  }));
+
+  createChannelSplitter = vi.fn(() => ({
+    connect: vi.fn(),
+    disconnect: vi.fn(),
+  }));
+
+  createAnalyser = vi.fn(() => ({
+    connect: vi.fn(),
+    disconnect: vi.fn(),
+    fftSize: 2048,
+    getFloatTimeDomainData: vi.fn(),
   }));
 
   createBufferSource = vi.fn(() => ({
@@ -54,6 +105,10 @@ class MockAudioContext {
     start: vi.fn(),
     stop: vi.fn(),
     buffer: null,
+    playbackRate: { value: 1 },
+    loop: false,
+    loopStart: 0,
+    loopEnd: 0,
   }));
 
   decodeAudioData = vi.fn().mockResolvedValue({
@@ -22,8 +22,14 @@ export type AudioErrorCode =
     | 'UNSUPPORTED_FORMAT' // Unknown audio format
     | 'UNKNOWN';
 
+// Share link error codes
+export type ShareLinkErrorCode =
+    | 'MALFORMED_LINK'             // Not decodable (truncated or edited by hand)
+    | 'UNSUPPORTED_LINK_VERSION'   // Created by a newer version of the app
+    | 'INVALID_SHARED_COMPOSITION'; // Decodes, but fails validation
+
 // Combined error codes for message lookup
-export type ErrorCode = ApiErrorCode | AudioErrorCode;
+export type ErrorCode = ApiErrorCode | AudioErrorCode | ShareLinkErrorCode;
 
 // Base error class with common properties
 export class AppError extends Error {
@@ -71,6 +77,18 @@ export class AudioError extends AppError {
     }
 }
 
+// Shared composition links that can't be opened
+export class ShareLinkError extends AppError {
+    constructor(
+        message: string,
+        public readonly code: ShareLinkErrorCode,
+        cause?: Error
+    ) {
+        super(message, code, false, cause);
+        this.name = 'ShareLinkError';
+    }
+}
+
 // Partial results when generation partially succeeds
 export interface PartialGenerationResult {
     composition?: Composition;
@@ -108,6 +126,10 @@ export const ERROR_MESSAGES: Record<ErrorCode, string> = {
     DECODE_FAILED: 'Unable to decode the audio file.',
     CONTEXT_ERROR: 'Audio system unavailable. Please refresh.',
     UNSUPPORTED_FORMAT: 'Unsupported audio format received.',
+    // Share link errors
+    MALFORMED_LINK: 'This link is broken. Check that it was copied in full.',
+    UNSUPPORTED_LINK_VERSION: 'This link was made with a newer version of the app.',
+    INVALID_SHARED_COMPOSITION: 'This link does not contain a valid composition.',
     // Fallback
     UNKNOWN: 'An unexpected error occurred.',
 };
@@ -168,7 +190,7 @@ export function mapFirebaseError(error: unknown): ApiError {
  * Gets a user-friendly error message for display.
  */
 export function getErrorMessage(error: unknown): string {
-    if (error instanceof ApiError || error instanceof AudioError) {
+    if (error instanceof ApiError || error instanceof AudioError || error instanceof ShareLinkError) {
         return ERROR_MESSAGES[error.code] || error.message;
     }
 
@@ -13,14 +13,58 @@ export interface CompositionParams {
     instruments: Instrument[];
     mood: Mood;
     seed?: number;
+    /** Composer to use; defaults to Gemini */
+    engine?: ComposeEngine;
+    /** Plucked-string synthesis for each of guzheng and pipa; unset ones use the physical model */
+    stringModels?: Partial<Record<Instrument, StringModel>>;
 }
 
+// Composition engine: Gemini (cloud) or the rule-based offline composer
+export type ComposeEngine = 'gemini' | 'offline';
+
+// Plucked-string synthesis: Karplus–Strong physical model, or the lighter oscillator voices
+export type StringModel = 'physical' | 'lite';
+
 // Motif structure within a composition
 export interface Motif {
     pitches: string[];
     rhythm: number[];
 }
 
+// A note in an explicit sequence, timed in beats so it follows the tempo
+export interface SequenceNote {
+    pitch: string;
+    /** Start position in beats from the beginning */
+    start: number;
+    /** Length in beats */
+    duration: number;
+    /** Velocity 0-1 */
+    velocity: number;
+}
+
+// Dynamic marking for a section, from pianissimo to fortissimo
+export type Dynamic = 'pp' | 'p' | 'mp' | 'mf' | 'f' | 'ff';
+
+// How a section restates the motif (pitch transforms work in scale degrees)
+export interface MotifVariant {
+    /** Shift by this many scale degrees (positive = up) */
+    transpose?: number;
+    /** Mirror each pitch around the first one */
+    invert?: boolean;
+    /** Play the motif backwards */
+    retrograde?: boolean;
+    /** Multiply note lengths, e.g. 2 for augmentation or 0.5 for diminution */
+    augment?: number;
+}
+
+// Explicit content for one section of the form
+export interface SectionPlan {
+    motif?: MotifVariant;
+    dynamics?: Dynamic;
+    /** Roles for this section, overriding instrumentRoles; "rest" silences an instrument */
+    instrumentRoles?: Record<string, string>;
+}
+
 // Composition structure returned from the compose function
 export interface Composition {
     scale: string[];
@@ -28,6 +72,10 @@ export interface Composition {
     form: string[];
     instrumentRoles: Record<string, string>;
     euclideanPatterns: Record<string, number[]>;
+    /** Per-section content, one entry per form section */
+    sections?: SectionPlan[];
+    /** Explicit notes per instrument (e.g. from MIDI import), played instead of the generated ones */
+    sequences?: Partial<Record<Instrument, SequenceNote[]>>;
 }
 
 // Audio generation result
@@ -1,5 +1,13 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
-import { isValidBase64, base64ToBlob, base64ToBlobUrl, base64ToArrayBuffer } from './audio';
+import {
+    isValidBase64,
+    base64ToBlob,
+    base64ToBlobUrl,
+    base64ToArrayBuffer,
+    blobToBase64,
+    base64ByteLength,
+    downloadBlob,
+} from './audio';
 import { AudioError } from '../types/errors';
 
 describe('Audio Utilities', () => {
@@ -177,4 +185,48 @@ describe('Audio Utilities', () => {
             expect(buffer1).not.toBe(buffer2);
         });
     });
+
+    describe('blobToBase64', () => {
+        it('round-trips base64ToBlob', async () => {
+            const blob = base64ToBlob('SGVsbG8=', 'audio/wav');
+
+            await expect(blobToBase64(blob)).resolves.toBe('SGVsbG8=');
+        });
+    });
+
+    describe('base64ByteLength', () => {
+        it('accounts for padding', () => {
+            expect(base64ByteLength('YWJj')).toBe(3); // 'abc'
+            expect(base64ByteLength('SGVsbG8=')).toBe(5); // 'Hello'
+            expect(base64ByteLength('YQ==')).toBe(1); // 'a'
+        });
+
+        it('returns 0 for an empty string', () => {
+            expect(base64ByteLength('')).toBe(0);
+        });
+    });
+
+    describe('downloadBlob', () => {
+        it('clicks a temporary link with the filename', () => {
+            const clickSpy = vi.spyOn(HTMLAnchorElement.prototype, 'click').mockImplementation(() => {});
+            const blob = new Blob(['data'], { type: 'audio/wav' });
+
+            downloadBlob(blob, 'mix.wav');
+
+            expect(URL.createObjectURL).toHaveBeenCalledWith(blob);
+            expect(clickSpy).toHaveBeenCalledTimes(1);
+            expect((clickSpy.mock.contexts[0] as HTMLAnchorElement).download).toBe('mix.wav');
+            expect(document.querySelector('a[download]')).toBeNull();
+            clickSpy.mockRestore();
+        });
+
+        it('revokes the object URL afterwards', () => {
+            const clickSpy = vi.spyOn(HTMLAnchorElement.prototype, 'click').mockImplementation(() => {});
+
+            downloadBlob(new Blob(['data']), 'mix.wav');
+
+            expect(URL.revokeObjectURL).toHaveBeenCalledWith('blob:mock-url');
+            clickSpy.mockRestore();
+        });
+    });
 });
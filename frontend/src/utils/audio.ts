@@ -86,6 +86,34 @@ export function base64ToBlob(
     return new Blob([bytes], { type: mimeType });
 }
 
+/**
+ * Converts a Blob back to a base64-encoded string.
+ * @param blob - The blob to encode (e.g. stored audio)
+ * @returns The base64-encoded content
+ */
+export function blobToBase64(blob: Blob): Promise<string> {
+    return new Promise((resolve, reject) => {
+        const reader = new FileReader();
+        reader.onload = () => {
+            // Strip the "data:<mime>;base64," prefix
+            const dataUrl = reader.result as string;
+            resolve(dataUrl.slice(dataUrl.indexOf(',') + 1));
+        };
+        reader.onerror = () => reject(reader.error);
+        reader.readAsDataURL(blob);
+    });
+}
+
+/**
+ * Number of bytes a base64 string decodes to, without decoding it.
+ * @param base64 - The base64-encoded content
+ * @returns The decoded size in bytes
+ */
+export function base64ByteLength(base64: string): number {
+    const padding = base64.endsWith('==') ? 2 : base64.endsWith('=') ? 1 : 0;
+    return Math.max(0, Math.floor(base64.length * 3 / 4) - padding);
+}
+
 /**
  * Converts a base64-encoded string to a Blob URL for playback.
  * @param base64 - The base64-encoded audio content
@@ -117,3 +145,21 @@ export function base64ToArrayBuffer(base64: string, context?: string): ArrayBuff
     // Return a copy of the buffer to avoid issues with the underlying view
     return bytes.buffer.slice(0);
 }
+
+/**
+ * Triggers a browser download for a Blob.
+ * @param blob - The data to download
+ * @param filename - Suggested filename for the download
+ */
+export function downloadBlob(blob: Blob, filename: string): void {
+    const url = URL.createObjectURL(blob);
+
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+
+    URL.revokeObjectURL(url);
+}
@@ -0,0 +1,17 @@
+/**
+ * Composition schema validation and repair.
+ * Shared with the compose function so both sides apply the same rules;
+ * the implementation lives in functions/src/utils/compositionSchema.ts.
+ */
+
+export {
+    validateComposition,
+    formatViolations,
+    expectedScale,
+    DYNAMICS,
+} from '../../../functions/src/utils/compositionSchema';
+export type {
+    SchemaViolation,
+    ValidationResult,
+    ViolationCode,
+} from '../../../functions/src/utils/compositionSchema';
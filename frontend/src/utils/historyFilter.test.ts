@@ -0,0 +1,101 @@
+/**
+ * Unit tests for history search and filtering.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+    filterHistory,
+    getEntryTitle,
+    getFilterOptions,
+    isFilterActive,
+    parseTags,
+} from './historyFilter';
+import { createHistoryEntry } from '../services/historyStore';
+import type { HistoryEntry } from '../services/historyStore';
+import { mockComposition, createMockParams, mockInstrumentAudioResult } from '../test/utils';
+
+const entry = (id: string, overrides: Partial<HistoryEntry> = {}): HistoryEntry => ({
+    ...createHistoryEntry(id, createMockParams(), mockComposition, [mockInstrumentAudioResult]),
+    ...overrides,
+});
+
+describe('historyFilter', () => {
+    const history = [
+        entry('gong', { title: 'Dawn', tags: ['keeper'] }),
+        entry('yu', {
+            params: createMockParams({ mode: 'yu', root: 'D', mood: 'melancholic', tempo: 60 }),
+            instruments: ['dizi'],
+            favorite: true,
+        }),
+        entry('zhi', { params: createMockParams({ mode: 'zhi', mood: 'festive', tempo: 120 }), tags: ['draft'] }),
+    ];
+
+    const ids = (entries: HistoryEntry[]) => entries.map((e) => e.id);
+
+    describe('filterHistory', () => {
+        it('returns everything for an empty filter', () => {
+            expect(ids(filterHistory(history, {}))).toEqual(['gong', 'yu', 'zhi']);
+        });
+
+        it('searches titles, default titles and tags case-insensitively', () => {
+            expect(ids(filterHistory(history, { query: 'dawn' }))).toEqual(['gong']);
+            expect(ids(filterHistory(history, { query: 'YU MODE' }))).toEqual(['yu']);
+            expect(ids(filterHistory(history, { query: 'draf' }))).toEqual(['zhi']);
+        });
+
+        it('filters by params', () => {
+            expect(ids(filterHistory(history, { mode: 'yu' }))).toEqual(['yu']);
+            expect(ids(filterHistory(history, { root: 'C' }))).toEqual(['gong', 'zhi']);
+            expect(ids(filterHistory(history, { mood: 'festive' }))).toEqual(['zhi']);
+            expect(ids(filterHistory(history, { instrument: 'dizi' }))).toEqual(['yu']);
+        });
+
+        it('filters by an inclusive tempo range', () => {
+            expect(ids(filterHistory(history, { minTempo: 72 }))).toEqual(['gong', 'zhi']);
+            expect(ids(filterHistory(history, { minTempo: 60, maxTempo: 72 }))).toEqual(['gong', 'yu']);
+        });
+
+        it('filters by tag and favorites', () => {
+            expect(ids(filterHistory(history, { tag: 'keeper' }))).toEqual(['gong']);
+            expect(ids(filterHistory(history, { favoritesOnly: true }))).toEqual(['yu']);
+        });
+
+        it('combines criteria', () => {
+            expect(filterHistory(history, { mode: 'yu', favoritesOnly: false, tag: 'keeper' })).toEqual([]);
+        });
+    });
+
+    describe('getFilterOptions', () => {
+        it('collects distinct sorted values', () => {
+            expect(getFilterOptions(history)).toEqual({
+                modes: ['gong', 'yu', 'zhi'],
+                roots: ['C', 'D'],
+                moods: ['calm', 'festive', 'melancholic'],
+                instruments: ['dizi', 'erhu'],
+                tags: ['draft', 'keeper'],
+            });
+        });
+    });
+
+    describe('getEntryTitle', () => {
+        it('falls back to the mode name for blank titles', () => {
+            expect(getEntryTitle(history[0])).toBe('Dawn');
+            expect(getEntryTitle({ ...history[0], title: '   ' })).toBe('Gong Mode');
+        });
+    });
+
+    describe('parseTags', () => {
+        it('trims and drops blanks and duplicates', () => {
+            expect(parseTags(' a, b ,, a,c ')).toEqual(['a', 'b', 'c']);
+            expect(parseTags('')).toEqual([]);
+        });
+    });
+
+    describe('isFilterActive', () => {
+        it('ignores blank criteria', () => {
+            expect(isFilterActive({})).toBe(false);
+            expect(isFilterActive({ query: '', favoritesOnly: false, mode: undefined })).toBe(false);
+            expect(isFilterActive({ minTempo: 0 })).toBe(true);
+        });
+    });
+});
@@ -0,0 +1,103 @@
+/**
+ * Search and filtering for the composition history.
+ */
+
+import type { Instrument, Mood, PentatonicMode } from '../types/music';
+import type { HistoryEntry } from '../services/historyStore';
+
+/** Criteria for narrowing the history; unset fields match everything */
+export interface HistoryFilter {
+    /** Case-insensitive text matched against titles and tags */
+    query?: string;
+    mode?: PentatonicMode;
+    root?: string;
+    mood?: Mood;
+    /** Entries that rendered this instrument */
+    instrument?: Instrument;
+    /** Inclusive tempo range in BPM */
+    minTempo?: number;
+    maxTempo?: number;
+    tag?: string;
+    favoritesOnly?: boolean;
+}
+
+/** Values present in the history, used to populate the filter options */
+export interface HistoryFilterOptions {
+    modes: PentatonicMode[];
+    roots: string[];
+    moods: Mood[];
+    instruments: Instrument[];
+    tags: string[];
+}
+
+/**
+ * Display title of an entry: its own title, or the mode name.
+ */
+export function getEntryTitle(entry: Pick<HistoryEntry, 'title' | 'params'>): string {
+    const title = entry.title?.trim();
+    if (title) return title;
+
+    const { mode } = entry.params;
+    return `${mode.charAt(0).toUpperCase()}${mode.slice(1)} Mode`;
+}
+
+/**
+ * Parse comma-separated tags, trimming whitespace and dropping blanks and duplicates.
+ */
+export function parseTags(input: string): string[] {
+    const tags = input.split(',').map((tag) => tag.trim()).filter(Boolean);
+    return [...new Set(tags)];
+}
+
+/**
+ * Whether any filter criterion is set.
+ */
+export function isFilterActive(filter: HistoryFilter): boolean {
+    return Object.values(filter).some((value) => value !== undefined && value !== '' && value !== false);
+}
+
+/**
+ * Check one entry against a filter.
+ */
+export function matchesFilter(entry: HistoryEntry, filter: HistoryFilter): boolean {
+    const { params } = entry;
+    const query = filter.query?.trim().toLowerCase();
+
+    if (query) {
+        const haystack = [getEntryTitle(entry), ...entry.tags].map((text) => text.toLowerCase());
+        if (!haystack.some((text) => text.includes(query))) return false;
+    }
+
+    if (filter.mode && params.mode !== filter.mode) return false;
+    if (filter.root && params.root !== filter.root) return false;
+    if (filter.mood && params.mood !== filter.mood) return false;
+    if (filter.instrument && !entry.instruments.includes(filter.instrument)) return false;
+    if (filter.minTempo !== undefined && params.tempo < filter.minTempo) return false;
+    if (filter.maxTempo !== undefined && params.tempo > filter.maxTempo) return false;
+    if (filter.tag && !entry.tags.includes(filter.tag)) return false;
+    if (filter.favoritesOnly && !entry.favorite) return false;
+
+    return true;
+}
+
+/**
+ * Narrow the history to entries matching every set criterion, keeping order.
+ */
+export function filterHistory(entries: HistoryEntry[], filter: HistoryFilter): HistoryEntry[] {
+    return entries.filter((entry) => matchesFilter(entry, filter));
+}
+
+/**
+ * Collect the distinct modes, roots, moods, instruments and tags in the history, sorted.
+ */
+export function getFilterOptions(entries: HistoryEntry[]): HistoryFilterOptions {
+    const distinct = <T extends string>(values: T[]): T[] => [...new Set(values)].sort();
+
+    return {
+        modes: distinct(entries.map((entry) => entry.params.mode)),
+        roots: distinct(entries.map((entry) => entry.params.root)),
+        moods: distinct(entries.map((entry) => entry.params.mood)),
+        instruments: distinct(entries.flatMap((entry) => entry.instruments)),
+        tags: distinct(entries.flatMap((entry) => entry.tags)),
+    };
+}
@@ -1,7 +1,67 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
-import { compositionToMidi, downloadMidi } from './midiExport';
+import { compositionToMidi, downloadMidi, INSTRUMENT_PROGRAMS, PITCH_BEND_RANGE } from './midiExport';
+import { mapCompositionToTracks } from '../audio/scheduling';
+import { noteToMidi } from '../audio/utils/frequencies';
+import { getVoiceParams } from '../audio/utils/moodParams';
 import type { Composition } from '../types/music';
 
+interface ParsedEvent {
+  tick: number;
+  status: number;
+  data: number[];
+}
+
+/**
+ * Parse the track chunks of a MIDI file into absolute-tick events.
+ * Handles meta and channel voice events (no running status, no sysex).
+ */
+function parseTracks(bytes: Uint8Array): ParsedEvent[][] {
+  const tracks: ParsedEvent[][] = [];
+  let pos = 14;
+
+  const readVLQ = () => {
+    let value = 0;
+    let byte: number;
+    do {
+      byte = bytes[pos++];
+      value = (value << 7) | (byte & 0x7F);
+    } while (byte & 0x80);
+    return value;
+  };
+
+  while (pos < bytes.length) {
+    const length = (bytes[pos + 4] << 24) | (bytes[pos + 5] << 16) | (bytes[pos + 6] << 8) | bytes[pos + 7];
+    const end = pos + 8 + length;
+    pos += 8;
+
+    const events: ParsedEvent[] = [];
+    let tick = 0;
+    while (pos < end) {
+      tick += readVLQ();
+      const status = bytes[pos++];
+      if (status === 0xFF) {
+        const type = bytes[pos++];
+        const metaLength = readVLQ();
+        events.push({ tick, status, data: [type, ...bytes.slice(pos, pos + metaLength)] });
+        pos += metaLength;
+      } else {
+        const dataLength = (status & 0xF0) === 0xC0 ? 1 : 2;
+        events.push({ tick, status, data: Array.from(bytes.slice(pos, pos + dataLength)) });
+        pos += dataLength;
+      }
+    }
+    tracks.push(events);
+  }
+
+  return tracks;
+}
+
+const metaText = (event: ParsedEvent) => String.fromCharCode(...event.data.slice(1));
+
+const isType = (type: number) => (e: ParsedEvent) => (e.status & 0xF0) === type;
+const bendSemitones = (e: ParsedEvent) =>
+  (((e.data[1] << 7) | e.data[0]) - 8192) / 8192 * PITCH_BEND_RANGE;
+
 // Sample composition for testing
 const mockComposition: Composition = {
   scale: ['C4', 'D4', 'E4', 'G4', 'A4'],
@@ -44,18 +104,19 @@ describe('midiExport', () => {
       expect(headerLength).toBe(6);
     });
 
-    it('is format type 0 (single track)', () => {
+    it('is format type 1 (multi-track)', () => {
       const result = compositionToMidi(mockComposition, 120);
       // Bytes 8-9 are format type as 16-bit big-endian
       const formatType = (result[8] << 8) | result[9];
-      expect(formatType).toBe(0);
+      expect(formatType).toBe(1);
     });
 
-    it('has exactly 1 track', () => {
+    it('has a conductor track plus one track per instrument', () => {
       const result = compositionToMidi(mockComposition, 120);
       // Bytes 10-11 are track count as 16-bit big-endian
       const trackCount = (result[10] << 8) | result[11];
-      expect(trackCount).toBe(1);
+      expect(trackCount).toBe(3);
+      expect(parseTracks(result)).toHaveLength(3);
     });
 
     it('uses 480 ticks per beat resolution', () => {
@@ -179,6 +240,96 @@ describe('midiExport', () => {
       expect(foundNoteOff).toBe(true);
     });
 
+    it('adds a section marker for each form entry', () => {
+      const [conductor] = parseTracks(compositionToMidi(mockComposition, 120));
+      const markers = conductor.filter(e => e.status === 0xFF && e.data[0] === 0x06);
+
+      expect(markers.map(metaText)).toEqual(['A', 'B', "A'"]);
+      // 15-second sections at 120 BPM = 30 beats apart
+      expect(markers.map(e => e.tick)).toEqual([0, 30 * 480, 60 * 480]);
+    });
+
+    it('places section markers where a longer note sequence puts the sections', () => {
+      const composition: Composition = {
+        ...mockComposition,
+        sequences: { erhu: [{ pitch: 'C4', start: 0, duration: 180, velocity: 0.8 }] },
+      };
+      const [conductor] = parseTracks(compositionToMidi(composition, 120));
+      const markers = conductor.filter(e => e.status === 0xFF && e.data[0] === 0x06);
+
+      // 180 beats split into three 60-beat sections
+      expect(markers.map(e => e.tick)).toEqual([0, 60 * 480, 120 * 480]);
+    });
+
+    it('names each instrument track and gives it its own channel and program', () => {
+      const [, erhu, pipa] = parseTracks(compositionToMidi(mockComposition, 120));
+
+      expect(metaText(erhu.find(e => e.status === 0xFF && e.data[0] === 0x03)!)).toBe('Erhu');
+      expect(metaText(pipa.find(e => e.status === 0xFF && e.data[0] === 0x03)!)).toBe('Pipa');
+
+      expect(erhu.find(e => (e.status & 0xF0) === 0xC0)).toMatchObject({ status: 0xC0, data: [INSTRUMENT_PROGRAMS.erhu] });
+      expect(pipa.find(e => (e.status & 0xF0) === 0xC0)).toMatchObject({ status: 0xC1, data: [INSTRUMENT_PROGRAMS.pipa] });
+
+      const channels = (track: ParsedEvent[]) =>
+        new Set(track.filter(e => e.status < 0xF0).map(e => e.status & 0x0F));
+      expect(channels(erhu)).toEqual(new Set([0]));
+      expect(channels(pipa)).toEqual(new Set([1]));
+    });
+
+    it('exports exactly the notes the synthesizer schedules', () => {
+      const tempo = 90;
+      const seeds = { erhu: 11, pipa: 22 };
+      const [, erhuTrack, pipaTrack] = parseTracks(
+        compositionToMidi(mockComposition, tempo, { instruments: ['erhu', 'pipa'], seeds })
+      );
+
+      const expectNotesMatch = (track: ParsedEvent[], instrument: 'erhu' | 'pipa') => {
+        const scheduled = mapCompositionToTracks(mockComposition, {
+          instruments: [instrument],
+          tempo,
+          seed: seeds[instrument],
+        }).get(instrument)!.notes;
+
+        const noteOns = track.filter(e => (e.status & 0xF0) === 0x90);
+        expect(noteOns).toHaveLength(scheduled.length);
+
+        const sortedScheduled = [...scheduled].sort((a, b) => a.startTime - b.startTime);
+        noteOns.forEach((event, i) => {
+          const note = sortedScheduled[i];
+          expect(event.tick).toBe(Math.round(note.startTime * tempo / 60 * 480));
+          expect(event.data[0]).toBe(noteToMidi(note.pitch));
+          expect(event.data[1]).toBe(Math.max(1, Math.min(127, Math.round(note.velocity * 127))));
+        });
+      };
+
+      expectNotesMatch(erhuTrack, 'erhu');
+      expectNotesMatch(pipaTrack, 'pipa');
+    });
+
+    it('pairs every note on with a later note off', () => {
+      const tracks = parseTracks(compositionToMidi(mockComposition, 120, { seeds: { erhu: 1, pipa: 2 } }));
+
+      tracks.slice(1).forEach(track => {
+        const ons = track.filter(e => (e.status & 0xF0) === 0x90);
+        const offs = track.filter(e => (e.status & 0xF0) === 0x80);
+        expect(offs).toHaveLength(ons.length);
+        expect(Math.max(...offs.map(e => e.tick))).toBeGreaterThan(Math.max(...ons.map(e => e.tick)));
+      });
+    });
+
+    it('is deterministic for the same seeds', () => {
+      const options = { seeds: { erhu: 5, pipa: 6 } };
+      expect(Array.from(compositionToMidi(mockComposition, 120, options)))
+        .toEqual(Array.from(compositionToMidi(mockComposition, 120, options)));
+    });
+
+    it('exports only the requested instruments, in order', () => {
+      const tracks = parseTracks(compositionToMidi(mockComposition, 120, { instruments: ['pipa'] }));
+
+      expect(tracks).toHaveLength(2);
+      expect(metaText(tracks[1].find(e => e.status === 0xFF && e.data[0] === 0x03)!)).toBe('Pipa');
+    });
+
     it('uses default tempo of 72 when not specified', () => {
       const result = compositionToMidi(mockComposition);
       // Should not throw and produce valid output
@@ -187,6 +338,101 @@ describe('midiExport', () => {
     });
   });
 
+  describe('expression', () => {
+    const ensemble: Composition = {
+      ...mockComposition,
+      instrumentRoles: { erhu: 'melody', dizi: 'melody', pipa: 'counter' },
+    };
+    const seeds = { erhu: 3, dizi: 4, pipa: 5 };
+    const tempo = 72;
+
+    const exportTracks = (mood?: 'heroic') => {
+      const [, erhu, dizi, pipa] = parseTracks(compositionToMidi(ensemble, tempo, { seeds, mood }));
+      return { erhu, dizi, pipa };
+    };
+
+    const scheduledNotes = (instrument: 'erhu' | 'dizi') =>
+      mapCompositionToTracks(ensemble, { instruments: [instrument], tempo, seed: seeds[instrument] })
+        .get(instrument)!.notes;
+
+    it('sets the pitch bend range with RPN 0 on every track', () => {
+      Object.values(exportTracks()).forEach(track => {
+        const controllers = track.filter(isType(0xB0)).slice(0, 4).map(e => e.data);
+        expect(controllers).toEqual([[101, 0], [100, 0], [6, PITCH_BEND_RANGE], [38, 0]]);
+      });
+    });
+
+    it('slides between connected erhu notes and returns to centre', () => {
+      const { erhu } = exportTracks();
+      const bends = erhu.filter(isType(0xE0));
+      const notes = scheduledNotes('erhu');
+
+      // Each slide starts at the previous pitch, relative to the new note
+      let slides = 0;
+      for (let i = 1; i < notes.length; i++) {
+        const gap = notes[i].startTime - (notes[i - 1].startTime + notes[i - 1].duration);
+        const offset = noteToMidi(notes[i - 1].pitch) - noteToMidi(notes[i].pitch);
+        if (gap >= 0.2 || offset === 0) continue;
+
+        const tick = Math.round(notes[i].startTime * tempo / 60 * 480);
+        const first = bends.find(e => e.tick === tick);
+        expect(first).toBeDefined();
+        expect(bendSemitones(first!)).toBeCloseTo(offset * 0.9975, 1);
+        slides++;
+      }
+
+      expect(slides).toBeGreaterThan(0);
+      expect(bendSemitones(bends[bends.length - 1])).toBe(0);
+    });
+
+    it('adds CC1 vibrato scaled by the mood vibrato depth', () => {
+      const { erhu } = exportTracks('heroic');
+      const modulation = erhu.filter(e => isType(0xB0)(e) && e.data[0] === 1).map(e => e.data[1]);
+      const depth = getVoiceParams('erhu', 'heroic').vibratoDepth!;
+
+      expect(modulation).toContain(0);
+      expect(modulation).toContain(Math.round(Math.min(1, depth / 50) * 127));
+    });
+
+    it('adds dizi grace notes a whole step from the following note', () => {
+      const { dizi } = exportTracks();
+      const notes = scheduledNotes('dizi');
+      const noteOns = dizi.filter(isType(0x90));
+      const mainTicks = new Set(notes.map(n => Math.round(n.startTime * tempo / 60 * 480)));
+
+      const graces = noteOns.filter(e => !mainTicks.has(e.tick));
+      expect(noteOns.length).toBe(notes.length + graces.length);
+      expect(graces.length).toBeGreaterThan(0);
+
+      graces.forEach(grace => {
+        // 0.05s before the main note
+        const mainTick = grace.tick + Math.round(0.05 * tempo / 60 * 480);
+        const main = noteOns.find(e => Math.abs(e.tick - mainTick) <= 1 && e !== grace)!;
+        expect(Math.abs(grace.data[0] - main.data[0])).toBe(2);
+        expect(grace.data[1]).toBeLessThan(main.data[1]);
+      });
+    });
+
+    it('writes exactly the grace notes the synthesizer plays', () => {
+      const { dizi } = exportTracks();
+      const notes = scheduledNotes('dizi');
+      const mainTicks = new Set(notes.map(n => Math.round(n.startTime * tempo / 60 * 480)));
+      const graces = dizi.filter(isType(0x90)).filter(e => !mainTicks.has(e.tick));
+
+      const expected = notes
+        .filter(n => n.graceNote)
+        .map(n => [Math.round((n.startTime - 0.05) * tempo / 60 * 480), noteToMidi(n.pitch) + n.graceNote!]);
+      expect(graces.map(e => [e.tick, e.data[0]])).toEqual(expected);
+    });
+
+    it('leaves plucked instruments without bends or vibrato', () => {
+      const { pipa } = exportTracks();
+
+      expect(pipa.filter(isType(0xE0)).every(e => bendSemitones(e) === 0)).toBe(true);
+      expect(pipa.some(e => isType(0xB0)(e) && e.data[0] === 1)).toBe(false);
+    });
+  });
+
   describe('downloadMidi', () => {
     let createObjectURLSpy: ReturnType<typeof vi.fn>;
     let revokeObjectURLSpy: ReturnType<typeof vi.fn>;
@@ -1,45 +1,76 @@
 /**
- * Minimal MIDI Type 0 file encoder for exporting compositions.
+ * Minimal MIDI Type 1 file encoder for exporting compositions.
  * No external dependencies required.
+ *
+ * Notes come from the same CompositionMapper schedule the synthesizer renders,
+ * so an export matches what was heard. Erhu slides and vibrato and dizi grace
+ * notes are written as pitch bend, modulation and ornament events.
  */
 
-import type { Composition, Instrument } from '../types/music';
+import type { Composition, Instrument, Mood } from '../types/music';
+import type { ScheduledNote, VoiceParameters } from '../audio/types';
+import { mapCompositionToTracks, getSectionStartTimes } from '../audio/scheduling';
+import { noteToMidi } from '../audio/utils/frequencies';
+import { createSCurve } from '../audio/utils/envelope';
+import { INSTRUMENT_BASE_PARAMS, getVoiceParams } from '../audio/utils/moodParams';
+import { ERHU_ARTICULATION, DIZI_ARTICULATION } from '../audio/voices';
+import { downloadBlob } from './audio';
 
-// MIDI note numbers for pitches (C4 = 60)
-const NOTE_MAP: Record<string, number> = {
-    'C': 0, 'C#': 1, 'Db': 1, 'D': 2, 'D#': 3, 'Eb': 3,
-    'E': 4, 'F': 5, 'F#': 6, 'Gb': 6, 'G': 7, 'G#': 8,
-    'Ab': 8, 'A': 9, 'A#': 10, 'Bb': 10, 'B': 11,
-};
+/** Ticks per quarter note */
+const TICKS_PER_BEAT = 480;
+
+/** Channel 10 (index 9) is reserved for percussion in General MIDI */
+const PERCUSSION_CHANNEL = 9;
+
+/** Pitch bend range in semitones, set per channel via RPN 0 */
+export const PITCH_BEND_RANGE = 12;
+
+/** Centre (no bend) value of the 14-bit pitch bend */
+const PITCH_BEND_CENTER = 8192;
+
+/** Pitch bend messages per portamento slide */
+const SLIDE_STEPS = 16;
+
+/** Vibrato depth (cents) that maps to full modulation (CC1 = 127) */
+const VIBRATO_FULL_SCALE_CENTS = 50;
+
+/** Controller numbers */
+const CC_MODULATION = 1;
+const CC_DATA_ENTRY = 6;
+const CC_DATA_ENTRY_LSB = 38;
+const CC_RPN_LSB = 100;
+const CC_RPN_MSB = 101;
+
+/** Event order within a tick: setup, note offs, controllers, note ons */
+const ORDER_SETUP = 0;
+const ORDER_NOTE_OFF = 1;
+const ORDER_CONTROL = 2;
+const ORDER_NOTE_ON = 3;
 
 // General MIDI instruments for Chinese instruments (approximations)
-const INSTRUMENT_PROGRAMS: Record<Instrument, number> = {
+export const INSTRUMENT_PROGRAMS: Record<Instrument, number> = {
     erhu: 110,    // Fiddle
     guzheng: 107, // Koto
     pipa: 105,    // Banjo (closest plucked)
     dizi: 73,     // Flute
 };
 
-interface MidiNote {
-    pitch: number;
-    startTick: number;
-    durationTicks: number;
-    velocity: number;
-    channel: number;
+/** Options for matching an export to a particular render */
+export interface MidiExportOptions {
+    /** Instruments to export, in track order (defaults to every instrument with a role) */
+    instruments?: Instrument[];
+    /** Seed each instrument was rendered with, so humanized notes match the audio */
+    seeds?: Partial<Record<Instrument, number>>;
+    /** Mood of the render, which sets portamento and vibrato (defaults to base parameters) */
+    mood?: Mood;
 }
 
-/**
- * Parse a pitch string like "C4" to MIDI note number.
- */
-function parsePitch(pitchStr: string): number {
-    const match = pitchStr.match(/^([A-G][#b]?)(\d+)$/);
-    if (!match) return 60; // Default to C4
-
-    const [, note, octaveStr] = match;
-    const octave = parseInt(octaveStr, 10);
-    const semitone = NOTE_MAP[note] ?? 0;
-
-    return (octave + 1) * 12 + semitone;
+/** A timed MIDI event within one track */
+interface TrackEvent {
+    tick: number;
+    /** Sort order for events on the same tick (note offs before note ons) */
+    order: number;
+    data: number[];
 }
 
 /**
@@ -82,25 +113,28 @@ function writeUint32BE(value: number): number[] {
 /**
  * Create MIDI header chunk.
  */
-function createHeaderChunk(ticksPerBeat: number): number[] {
+function createHeaderChunk(trackCount: number, ticksPerBeat: number): number[] {
     const header = [
         0x4D, 0x54, 0x68, 0x64, // "MThd"
         ...writeUint32BE(6),     // Header length
-        ...writeUint16BE(0),     // Format type 0
-        ...writeUint16BE(1),     // Number of tracks
+        ...writeUint16BE(1),     // Format type 1
+        ...writeUint16BE(trackCount), // Number of tracks
         ...writeUint16BE(ticksPerBeat), // Ticks per quarter note
     ];
     return header;
 }
 
 /**
- * Create track chunk from MIDI events.
+ * Create track chunk from timed events, converting ticks to delta times.
  */
-function createTrackChunk(events: number[][]): number[] {
-    // Flatten events
+function createTrackChunk(events: TrackEvent[]): number[] {
+    const sorted = [...events].sort((a, b) => a.tick - b.tick || a.order - b.order);
+
     const eventData: number[] = [];
-    for (const event of events) {
-        eventData.push(...event);
+    let lastTick = 0;
+    for (const event of sorted) {
+        eventData.push(...writeVLQ(event.tick - lastTick), ...event.data);
+        lastTick = event.tick;
     }
 
     // Add end of track
@@ -116,12 +150,19 @@ function createTrackChunk(events: number[][]): number[] {
 }
 
 /**
- * Create tempo meta event.
+ * Create a text meta event (track name, marker, ...), without delta time.
+ */
+function createTextMeta(type: number, text: string): number[] {
+    const bytes = Array.from(text, (char) => char.charCodeAt(0) & 0x7F);
+    return [0xFF, type, ...writeVLQ(bytes.length), ...bytes];
+}
+
+/**
+ * Create tempo meta event, without delta time.
  */
 function createTempoEvent(bpm: number): number[] {
     const microsecondsPerBeat = Math.round(60000000 / bpm);
     return [
-        ...writeVLQ(0), // Delta time
         0xFF, 0x51, 0x03, // Tempo meta event
         (microsecondsPerBeat >> 16) & 0xFF,
         (microsecondsPerBeat >> 8) & 0xFF,
@@ -130,179 +171,270 @@ function createTempoEvent(bpm: number): number[] {
 }
 
 /**
- * Create program change event.
+ * Create a control change event, without delta time.
  */
-function createProgramChange(channel: number, program: number): number[] {
-    return [
-        ...writeVLQ(0), // Delta time
-        0xC0 | (channel & 0x0F),
-        program & 0x7F,
-    ];
+function createControlChange(channel: number, controller: number, value: number): number[] {
+    return [0xB0 | channel, controller & 0x7F, Math.max(0, Math.min(127, Math.round(value)))];
 }
 
 /**
- * Create note on event.
+ * Create a pitch bend event for an offset in semitones, without delta time.
  */
-function createNoteOn(deltaTicks: number, channel: number, pitch: number, velocity: number): number[] {
-    return [
-        ...writeVLQ(deltaTicks),
-        0x90 | (channel & 0x0F),
-        pitch & 0x7F,
-        velocity & 0x7F,
-    ];
+function createPitchBend(channel: number, semitones: number): number[] {
+    const value = Math.max(0, Math.min(16383,
+        Math.round(PITCH_BEND_CENTER + (semitones / PITCH_BEND_RANGE) * PITCH_BEND_CENTER)
+    ));
+    return [0xE0 | channel, value & 0x7F, (value >> 7) & 0x7F];
 }
 
 /**
- * Create note off event.
+ * Create the RPN 0 sequence that sets the pitch bend range, then deselects the RPN.
  */
-function createNoteOff(deltaTicks: number, channel: number, pitch: number): number[] {
+function createPitchBendRange(channel: number, semitones: number): number[][] {
     return [
-        ...writeVLQ(deltaTicks),
-        0x80 | (channel & 0x0F),
-        pitch & 0x7F,
-        0x40, // Release velocity
+        createControlChange(channel, CC_RPN_MSB, 0),
+        createControlChange(channel, CC_RPN_LSB, 0),
+        createControlChange(channel, CC_DATA_ENTRY, semitones),
+        createControlChange(channel, CC_DATA_ENTRY_LSB, 0),
+        createControlChange(channel, CC_RPN_MSB, 127),
+        createControlChange(channel, CC_RPN_LSB, 127),
     ];
 }
 
 /**
- * Generate notes from composition.
+ * Get the MIDI channel for the nth instrument track, skipping percussion.
  */
-function generateNotesFromComposition(
-    composition: Composition,
-    tempo: number,
-    ticksPerBeat: number
-): MidiNote[] {
-    const notes: MidiNote[] = [];
-    const instruments = Object.keys(composition.instrumentRoles) as Instrument[];
-
-    // Calculate ticks per beat
-    const secondsPerBeat = 60 / tempo;
-
-    let currentTick = 0;
-
-    // Generate notes for each section in form
-    for (const section of composition.form) {
-        // For each instrument
-        instruments.forEach((instrument, channelIndex) => {
-            const role = composition.instrumentRoles[instrument];
-            const pattern = composition.euclideanPatterns[role] || [1, 0, 1, 0, 1, 0, 1, 0];
-
-            // Generate notes based on motif and pattern
-            const { pitches, rhythm } = composition.motif;
-
-            let sectionTick = currentTick;
-            let pitchIndex = 0;
-
-            for (let i = 0; i < pattern.length; i++) {
-                if (pattern[i] === 1) {
-                    const pitch = parsePitch(pitches[pitchIndex % pitches.length]);
-                    const duration = rhythm[pitchIndex % rhythm.length];
-                    const durationTicks = Math.round(duration * ticksPerBeat);
-
-                    // Vary pitch for different sections
-                    let adjustedPitch = pitch;
-                    if (section.includes("'")) adjustedPitch += 2; // Transpose up slightly
-                    if (section === 'B') adjustedPitch += 5; // Transpose up for B section
-
-                    notes.push({
-                        pitch: Math.min(127, Math.max(0, adjustedPitch)),
-                        startTick: sectionTick,
-                        durationTicks,
-                        velocity: role === 'melody' ? 100 : 70,
-                        channel: channelIndex,
-                    });
+function channelForTrack(index: number): number {
+    return index >= PERCUSSION_CHANNEL ? index + 1 : index;
+}
 
-                    pitchIndex++;
-                }
+/**
+ * Convert seconds to ticks at the given tempo.
+ */
+function secondsToTicks(seconds: number, tempo: number): number {
+    return Math.round((seconds * tempo / 60) * TICKS_PER_BEAT);
+}
 
-                // Move to next beat position
-                sectionTick += Math.round(ticksPerBeat * (secondsPerBeat / (pattern.length / 8)));
-            }
-        });
+/**
+ * Build the conductor track: tempo plus a marker at the start of each section.
+ */
+function createConductorTrack(composition: Composition, tempo: number): number[] {
+    const events: TrackEvent[] = [
+        { tick: 0, order: ORDER_SETUP, data: createTextMeta(0x03, 'Silk Road Composer') },
+        { tick: 0, order: ORDER_SETUP, data: createTempoEvent(tempo) },
+    ];
 
-        // Move to next section (8 beats per section)
-        currentTick += ticksPerBeat * 8;
-    }
+    const sectionStarts = getSectionStartTimes(composition, tempo);
+    composition.form.forEach((section, index) => {
+        events.push({
+            tick: secondsToTicks(sectionStarts[index], tempo),
+            order: ORDER_CONTROL,
+            data: createTextMeta(0x06, section),
+        });
+    });
 
-    return notes;
+    return createTrackChunk(events);
 }
 
 /**
- * Export composition to MIDI file.
+ * Add note on/off events for a note.
  */
-export function compositionToMidi(
-    composition: Composition,
-    tempo: number = 72
-): Uint8Array {
-    const ticksPerBeat = 480; // Standard resolution
-    const instruments = Object.keys(composition.instrumentRoles) as Instrument[];
+function pushNote(
+    events: TrackEvent[],
+    channel: number,
+    pitch: number,
+    startTick: number,
+    endTick: number,
+    velocity: number
+): void {
+    const clampedVelocity = Math.max(1, Math.min(127, Math.round(velocity * 127)));
+    events.push({ tick: startTick, order: ORDER_NOTE_ON, data: [0x90 | channel, pitch, clampedVelocity] });
+    events.push({ tick: Math.max(startTick + 1, endTick), order: ORDER_NOTE_OFF, data: [0x80 | channel, pitch, 0x40] });
+}
 
-    // Generate notes
-    const notes = generateNotesFromComposition(composition, tempo, ticksPerBeat);
+/**
+ * Add CC1 modulation for a note's delayed vibrato: off at the onset,
+ * then up to the vibrato depth once the delay has passed.
+ */
+function pushVibrato(
+    events: TrackEvent[],
+    channel: number,
+    note: ScheduledNote,
+    delay: number,
+    depthCents: number,
+    tempo: number
+): void {
+    events.push({ tick: secondsToTicks(note.startTime, tempo), order: ORDER_CONTROL, data: createControlChange(channel, CC_MODULATION, 0) });
+    if (note.duration > delay) {
+        const depth = Math.min(1, depthCents / VIBRATO_FULL_SCALE_CENTS) * 127;
+        events.push({
+            tick: secondsToTicks(note.startTime + delay, tempo),
+            order: ORDER_CONTROL,
+            data: createControlChange(channel, CC_MODULATION, depth),
+        });
+    }
+}
 
-    // Sort notes by start time
-    notes.sort((a, b) => a.startTick - b.startTick);
+/**
+ * Add erhu expression: an S-curve pitch bend from the previous note for
+ * connected notes (portamento), and CC1 vibrato.
+ */
+function pushErhuExpression(
+    events: TrackEvent[],
+    channel: number,
+    notes: ScheduledNote[],
+    params: VoiceParameters,
+    tempo: number
+): void {
+    const portamentoTime = params.portamentoTime || 0.15;
+    const vibratoDepth = params.vibratoDepth || 30;
+    let previous: ScheduledNote | null = null;
 
-    // Create MIDI events
-    const events: number[][] = [];
+    for (const note of notes) {
+        const pitch = noteToMidi(note.pitch);
+        if (pitch < 0) continue;
+
+        const previousEnd = previous ? previous.startTime + previous.duration : 0;
+        if (previous && note.startTime - previousEnd < ERHU_ARTICULATION.portamentoThreshold) {
+            const offset = noteToMidi(previous.pitch) - pitch;
+            if (offset !== 0) {
+                // Finish within the note so slides never overlap
+                const slideTime = Math.min(portamentoTime, note.duration);
+                const curve = createSCurve(offset, 0, SLIDE_STEPS);
+                curve.forEach((semitones, i) => {
+                    events.push({
+                        tick: secondsToTicks(note.startTime + (i / (SLIDE_STEPS - 1)) * slideTime, tempo),
+                        order: ORDER_CONTROL,
+                        data: createPitchBend(channel, i === SLIDE_STEPS - 1 ? 0 : semitones),
+                    });
+                });
+            }
+        }
 
-    // Add tempo event
-    events.push(createTempoEvent(tempo));
+        pushVibrato(events, channel, note, ERHU_ARTICULATION.vibratoDelay, vibratoDepth, tempo);
+        previous = note;
+    }
+}
 
-    // Add program changes for each instrument
-    instruments.forEach((instrument, channel) => {
-        const program = INSTRUMENT_PROGRAMS[instrument] || 0;
-        events.push(createProgramChange(channel, program));
-    });
+/**
+ * Add dizi expression: CC1 vibrato, and the grace notes the note mapper
+ * chose, as DiziVoice plays them.
+ */
+function pushDiziExpression(
+    events: TrackEvent[],
+    channel: number,
+    notes: ScheduledNote[],
+    params: VoiceParameters,
+    tempo: number
+): void {
+    const vibratoDepth = params.vibratoDepth || 20;
+    const vibratoDelay = params.envelope.attack + DIZI_ARTICULATION.vibratoDelay;
 
-    // Create note events with proper delta times
-    interface NoteEvent {
-        tick: number;
-        type: 'on' | 'off';
-        channel: number;
-        pitch: number;
-        velocity: number;
+    for (const note of notes) {
+        const pitch = noteToMidi(note.pitch);
+        if (pitch < 0) continue;
+
+        pushVibrato(events, channel, note, vibratoDelay, vibratoDepth, tempo);
+
+        if (note.graceNote) {
+            const gracePitch = pitch + note.graceNote;
+            const graceStart = note.startTime - DIZI_ARTICULATION.graceNoteLead;
+            if (gracePitch < 0 || gracePitch > 127) continue;
+
+            pushNote(
+                events,
+                channel,
+                gracePitch,
+                secondsToTicks(graceStart, tempo),
+                secondsToTicks(graceStart + DIZI_ARTICULATION.graceNoteDuration, tempo),
+                note.velocity * 0.4
+            );
+        }
     }
+}
 
-    const noteEvents: NoteEvent[] = [];
+/**
+ * Build one instrument track from its scheduled notes.
+ */
+function createInstrumentTrack(
+    instrument: Instrument,
+    notes: ScheduledNote[],
+    channel: number,
+    tempo: number,
+    params: VoiceParameters
+): number[] {
+    const events: TrackEvent[] = [
+        { tick: 0, order: ORDER_SETUP, data: createTextMeta(0x03, instrument.charAt(0).toUpperCase() + instrument.slice(1)) },
+        { tick: 0, order: ORDER_SETUP, data: [0xC0 | channel, INSTRUMENT_PROGRAMS[instrument] & 0x7F] },
+        ...createPitchBendRange(channel, PITCH_BEND_RANGE).map((data) => ({ tick: 0, order: ORDER_SETUP, data })),
+        { tick: 0, order: ORDER_SETUP, data: createPitchBend(channel, 0) },
+    ];
 
     for (const note of notes) {
-        noteEvents.push({
-            tick: note.startTick,
-            type: 'on',
-            channel: note.channel,
-            pitch: note.pitch,
-            velocity: note.velocity,
-        });
-        noteEvents.push({
-            tick: note.startTick + note.durationTicks,
-            type: 'off',
-            channel: note.channel,
-            pitch: note.pitch,
-            velocity: 0,
-        });
+        const pitch = noteToMidi(note.pitch);
+        if (pitch < 0 || pitch > 127) continue;
+
+        pushNote(
+            events,
+            channel,
+            pitch,
+            secondsToTicks(note.startTime, tempo),
+            secondsToTicks(note.startTime + note.duration, tempo),
+            note.velocity
+        );
     }
 
-    // Sort all note events by tick
-    noteEvents.sort((a, b) => a.tick - b.tick);
+    if (instrument === 'erhu') {
+        pushErhuExpression(events, channel, notes, params, tempo);
+    } else if (instrument === 'dizi') {
+        pushDiziExpression(events, channel, notes, params, tempo);
+    }
 
-    // Convert to MIDI events with delta times
-    let lastTick = 0;
-    for (const event of noteEvents) {
-        const deltaTick = event.tick - lastTick;
-        lastTick = event.tick;
+    return createTrackChunk(events);
+}
 
-        if (event.type === 'on') {
-            events.push(createNoteOn(deltaTick, event.channel, event.pitch, event.velocity));
-        } else {
-            events.push(createNoteOff(deltaTick, event.channel, event.pitch));
-        }
-    }
+/**
+ * Export composition to a Type 1 MIDI file: a conductor track with tempo and
+ * section markers, then one named track per instrument on its own channel.
+ *
+ * @param composition - The composition to export
+ * @param tempo - Tempo in BPM
+ * @param options - Instruments, per-instrument seeds and mood of the render to match
+ * @returns MIDI file bytes
+ */
+export function compositionToMidi(
+    composition: Composition,
+    tempo: number = 72,
+    options: MidiExportOptions = {}
+): Uint8Array {
+    const instruments = options.instruments ?? (Object.keys(composition.instrumentRoles) as Instrument[]);
+
+    const instrumentTracks = instruments.map((instrument, index) => {
+        // Map each instrument on its own, as the synthesizer does, so seeds line up
+        const track = mapCompositionToTracks(composition, {
+            instruments: [instrument],
+            tempo,
+            seed: options.seeds?.[instrument],
+        }).get(instrument);
+
+        const params = options.mood
+            ? getVoiceParams(instrument, options.mood)
+            : INSTRUMENT_BASE_PARAMS[instrument];
+
+        return createInstrumentTrack(
+            instrument,
+            track?.notes ?? [],
+            channelForTrack(index),
+            tempo,
+            params
+        );
+    });
 
     // Assemble MIDI file
     const midiData = [
-        ...createHeaderChunk(ticksPerBeat),
-        ...createTrackChunk(events),
+        ...createHeaderChunk(instrumentTracks.length + 1, TICKS_PER_BEAT),
+        ...createConductorTrack(composition, tempo),
+        ...instrumentTracks.flat(),
     ];
 
     return new Uint8Array(midiData);
@@ -311,17 +443,13 @@ export function compositionToMidi(
 /**
  * Download MIDI file.
  */
-export function downloadMidi(composition: Composition, tempo: number, filename: string = 'composition.mid'): void {
-    const midiData = compositionToMidi(composition, tempo);
+export function downloadMidi(
+    composition: Composition,
+    tempo: number,
+    filename: string = 'composition.mid',
+    options: MidiExportOptions = {}
+): void {
+    const midiData = compositionToMidi(composition, tempo, options);
     const blob = new Blob([midiData], { type: 'audio/midi' });
-    const url = URL.createObjectURL(blob);
-
-    const link = document.createElement('a');
-    link.href = url;
-    link.download = filename;
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
-
-    URL.revokeObjectURL(url);
+    downloadBlob(blob, filename);
 }
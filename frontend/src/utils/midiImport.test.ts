@@ -474,6 +474,78 @@ describe('MIDI Import', () => {
             const roles = Object.values(composition.instrumentRoles);
             expect(roles).toContain('melody');
         });
+
+        it('should not include note sequences by default', () => {
+            const parsed = parseMidiFile(createMidiFile({}));
+            const { composition } = midiToComposition(parsed);
+
+            expect(composition.sequences).toBeUndefined();
+        });
+
+        it('should keep every note per instrument in verbatim mode', () => {
+            const midi = createMidiFile({
+                ticksPerBeat: 480,
+                notes: [
+                    { pitch: 72, start: 0, duration: 240, velocity: 127, channel: 0 },
+                    { pitch: 74, start: 240, duration: 240, channel: 0 },
+                    { pitch: 76, start: 480, duration: 960, channel: 0 },
+                    { pitch: 48, start: 0, duration: 1920, velocity: 64, channel: 1 },
+                ],
+                programs: new Map([[0, 73], [1, 40]]), // Flute, Violin
+            });
+
+            const parsed = parseMidiFile(midi);
+            const { composition } = midiToComposition(parsed, 'verbatim');
+
+            expect(composition.sequences?.dizi).toEqual([
+                { pitch: 'C5', start: 0, duration: 0.5, velocity: 1 },
+                { pitch: 'D5', start: 0.5, duration: 0.5, velocity: 100 / 127 },
+                { pitch: 'E5', start: 1, duration: 2, velocity: 100 / 127 },
+            ]);
+            expect(composition.sequences?.erhu).toEqual([
+                { pitch: 'C3', start: 0, duration: 4, velocity: 64 / 127 },
+            ]);
+        });
+
+        it('should merge channels that map to the same instrument', () => {
+            const midi = createMidiFile({
+                notes: [
+                    { pitch: 60, start: 480, duration: 480, channel: 0 },
+                    { pitch: 64, start: 0, duration: 480, channel: 1 },
+                ],
+                programs: new Map([[0, 40], [1, 42]]), // Violin, Cello
+            });
+
+            const parsed = parseMidiFile(midi);
+            const { composition, params } = midiToComposition(parsed, 'verbatim');
+
+            expect(params.instruments).toEqual(['erhu']);
+            expect(composition.sequences?.erhu?.map((n) => n.pitch)).toEqual(['E4', 'C4']);
+        });
+
+        it('should merge dense channels', () => {
+            const noteCount = 200000;
+            const channelNotes = (channel: number) => Array.from({ length: noteCount }, (_, i) => ({
+                pitch: 60 + (i % 12),
+                startTick: i * 120,
+                durationTicks: 120,
+                velocity: 100,
+                channel,
+            }));
+            const violin = channelNotes(0);
+            const cello = channelNotes(1);
+            const parsed = {
+                format: 1,
+                ticksPerBeat: 480,
+                tempo: 120,
+                channels: new Map([[0, { program: 40, notes: violin }], [1, { program: 42, notes: cello }]]),
+                allNotes: [...violin, ...cello],
+            };
+
+            const { composition } = midiToComposition(parsed, 'verbatim');
+
+            expect(composition.sequences?.erhu).toHaveLength(noteCount * 2);
+        });
     });
 
     describe('MidiImportError', () => {
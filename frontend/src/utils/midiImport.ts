@@ -3,7 +3,7 @@
  * Supports Type 0 (single track) and Type 1 (multi-track) MIDI files.
  */
 
-import type { Composition, CompositionParams, PentatonicMode, Instrument, Mood, Motif } from '../types/music';
+import type { Composition, CompositionParams, PentatonicMode, Instrument, Mood, Motif, SequenceNote } from '../types/music';
 
 // MIDI note numbers for pitches (C4 = 60)
 const NOTE_NAMES = ['C', 'C#', 'D', 'D#', 'E', 'F', 'F#', 'G', 'G#', 'A', 'A#', 'B'];
@@ -56,6 +56,16 @@ export interface MidiParseResult {
     allNotes: MidiNote[]; // All notes flattened
 }
 
+/**
+ * How an imported file becomes a composition:
+ * - verbatim: keep every note, played as written (quantized to the tempo grid)
+ * - reimagine: reduce the file to a motif, form and rhythms for the generator
+ */
+export type MidiImportMode = 'verbatim' | 'reimagine';
+
+/** Import mode used unless one is chosen */
+export const DEFAULT_MIDI_IMPORT_MODE: MidiImportMode = 'reimagine';
+
 export class MidiImportError extends Error {
     constructor(
         message: string,
@@ -565,10 +575,26 @@ function inferMood(notes: MidiNote[], tempo: number): Mood {
     return avgVelocity > 70 ? 'festive' : 'calm';
 }
 
+/**
+ * Convert MIDI notes to an explicit sequence timed in beats.
+ */
+export function notesToSequence(notes: MidiNote[], ticksPerBeat: number): SequenceNote[] {
+    return [...notes]
+        .sort((a, b) => a.startTick - b.startTick || a.pitch - b.pitch)
+        .map((note) => ({
+            pitch: midiNoteToPitch(note.pitch),
+            start: note.startTick / ticksPerBeat,
+            duration: note.durationTicks / ticksPerBeat,
+            velocity: note.velocity / 127,
+        }));
+}
+
 /**
  * Convert parsed MIDI data to Composition and CompositionParams.
+ * In verbatim mode each instrument also keeps the full note list of the
+ * channels mapped to it.
  */
-export function midiToComposition(parsed: MidiParseResult): {
+export function midiToComposition(parsed: MidiParseResult, importMode: MidiImportMode = DEFAULT_MIDI_IMPORT_MODE): {
     composition: Composition;
     params: CompositionParams;
 } {
@@ -581,6 +607,7 @@ export function midiToComposition(parsed: MidiParseResult): {
     const instruments: Instrument[] = [];
     const instrumentRoles: Record<string, string> = {};
     const euclideanPatterns: Record<string, number[]> = {};
+    const instrumentNotes = new Map<Instrument, MidiNote[]>();
 
     // Get unique instruments from channels
     const channelList = Array.from(parsed.channels.entries())
@@ -588,7 +615,14 @@ export function midiToComposition(parsed: MidiParseResult): {
 
     for (const [, channel] of channelList) {
         const instrument = mapProgramToInstrument(channel.program);
+
+        // Channels that map to an instrument already in use are merged into it
+        // (concat, as spreading a dense channel into push overflows the call stack)
+        const merged = instrumentNotes.get(instrument);
+        if (merged) instrumentNotes.set(instrument, merged.concat(channel.notes));
+
         if (!instruments.includes(instrument) && instruments.length < 4) {
+            instrumentNotes.set(instrument, [...channel.notes]);
             instruments.push(instrument);
 
             // Assign role based on order (first = melody, etc.)
@@ -624,6 +658,15 @@ export function midiToComposition(parsed: MidiParseResult): {
         euclideanPatterns,
     };
 
+    if (importMode === 'verbatim' && instrumentNotes.size > 0) {
+        composition.sequences = Object.fromEntries(
+            Array.from(instrumentNotes, ([instrument, notes]) => [
+                instrument,
+                notesToSequence(notes, parsed.ticksPerBeat),
+            ])
+        );
+    }
+
     const params: CompositionParams = {
         mode,
         root,
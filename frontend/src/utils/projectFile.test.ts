@@ -0,0 +1,163 @@
+/**
+ * Unit tests for project file export, import and migration.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+    createProject,
+    serializeProject,
+    parseProjectFile,
+    readProjectFile,
+    migrateProject,
+    isProjectFileName,
+    projectFileName,
+    ProjectFileError,
+    PROJECT_FORMAT,
+    PROJECT_VERSION,
+} from './projectFile';
+import { SYNTH_VERSION } from '../audio/synthesizer';
+import { mockComposition, mockParams, mockInstrumentAudioResult } from '../test/utils';
+
+const expectError = (run: () => unknown, code: ProjectFileError['code']) => {
+    try {
+        run();
+    } catch (error) {
+        expect(error).toBeInstanceOf(ProjectFileError);
+        expect((error as ProjectFileError).code).toBe(code);
+        return;
+    }
+    throw new Error('Expected a ProjectFileError');
+};
+
+describe('projectFile', () => {
+    describe('createProject', () => {
+        it('records seeds from the audio without embedding it by default', () => {
+            const project = createProject(mockParams, mockComposition, { audioResults: [mockInstrumentAudioResult] });
+
+            expect(project).toMatchObject({
+                format: PROJECT_FORMAT,
+                version: PROJECT_VERSION,
+                params: mockParams,
+                composition: mockComposition,
+                seeds: { erhu: 12345 },
+                synthVersion: SYNTH_VERSION,
+            });
+            expect(project).not.toHaveProperty('audio');
+            expect(project).not.toHaveProperty('mix');
+        });
+
+        it('embeds audio, mix and title when given', () => {
+            const mix = { erhu: { volume: 0.5, muted: true, pan: 0.2 } };
+            const project = createProject(mockParams, mockComposition, {
+                title: 'Dawn',
+                audioResults: [mockInstrumentAudioResult],
+                mix,
+                includeAudio: true,
+            });
+
+            expect(project.title).toBe('Dawn');
+            expect(project.mix).toEqual(mix);
+            expect(project.audio).toEqual([mockInstrumentAudioResult]);
+        });
+
+        it('uses explicit seeds and synth version when there is no audio', () => {
+            const project = createProject(mockParams, mockComposition, { seeds: { guzheng: 7 }, synthVersion: 0 });
+
+            expect(project.seeds).toEqual({ guzheng: 7 });
+            expect(project.synthVersion).toBe(0);
+        });
+    });
+
+    describe('parseProjectFile', () => {
+        it('round-trips a serialized project', () => {
+            const project = createProject(mockParams, mockComposition, {
+                audioResults: [mockInstrumentAudioResult],
+                includeAudio: true,
+            });
+
+            expect(parseProjectFile(serializeProject(project))).toEqual(project);
+        });
+
+        it('round-trips per-track effects in the mix', () => {
+            const mix = {
+                erhu: {
+                    volume: 0.8,
+                    muted: false,
+                    effects: {
+                        eq: { low: -4, mid: -3, high: 2 },
+                        compressor: { enabled: true, threshold: -20, ratio: 3 },
+                        delay: { enabled: true, beats: 0.75, feedback: 0.4, mix: 0.2 },
+                    },
+                },
+            };
+            const project = createProject(mockParams, mockComposition, { mix });
+
+            expect(parseProjectFile(serializeProject(project)).mix).toEqual(mix);
+        });
+
+        it('rejects invalid JSON and other formats', () => {
+            expectError(() => parseProjectFile('{not json'), 'INVALID_JSON');
+            expectError(() => parseProjectFile('{"format":"other"}'), 'INVALID_FORMAT');
+            expectError(() => parseProjectFile('[]'), 'INVALID_FORMAT');
+        });
+
+        it('rejects files from a newer version', () => {
+            const project = { ...createProject(mockParams, mockComposition), version: PROJECT_VERSION + 1 };
+
+            expectError(() => parseProjectFile(JSON.stringify(project)), 'UNSUPPORTED_VERSION');
+        });
+
+        it('rejects projects with invalid fields', () => {
+            const project = { ...createProject(mockParams, mockComposition), params: { mode: 'dorian' } };
+
+            expectError(() => parseProjectFile(JSON.stringify(project)), 'INVALID_PROJECT');
+        });
+    });
+
+    describe('readProjectFile', () => {
+        it('reads and parses a file', async () => {
+            const project = createProject(mockParams, mockComposition);
+            const file = new File([serializeProject(project)], 'song.silkroad');
+
+            await expect(readProjectFile(file)).resolves.toEqual(project);
+        });
+
+        it('rejects with a ProjectFileError for invalid contents', async () => {
+            await expect(readProjectFile(new File(['nope'], 'song.silkroad'))).rejects.toBeInstanceOf(ProjectFileError);
+        });
+    });
+
+    describe('migrateProject', () => {
+        it('applies migrations in order up to the target version', () => {
+            const migrations = {
+                1: (project: Record<string, unknown>) => ({ ...project, renamed: project.old }),
+                2: (project: Record<string, unknown>) => ({ ...project, added: true }),
+            };
+
+            expect(migrateProject({ version: 1, old: 'x' }, migrations, 3)).toEqual({
+                version: 3,
+                old: 'x',
+                renamed: 'x',
+                added: true,
+            });
+        });
+
+        it('fails without a migration path or a valid version', () => {
+            expectError(() => migrateProject({ version: 1 }, {}, 2), 'UNSUPPORTED_VERSION');
+            expectError(() => migrateProject({ version: '1' }), 'INVALID_FORMAT');
+        });
+    });
+
+    describe('file names', () => {
+        it('recognizes project files case-insensitively', () => {
+            expect(isProjectFileName('Song.SILKROAD')).toBe(true);
+            expect(isProjectFileName('song.mid')).toBe(false);
+        });
+
+        it('slugs the title', () => {
+            expect(projectFileName('Night Rain, Take 2!')).toBe('night-rain-take-2.silkroad');
+            expect(projectFileName('  ')).toBe('composition.silkroad');
+            expect(projectFileName()).toBe('composition.silkroad');
+        });
+    });
+});
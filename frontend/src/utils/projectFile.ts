@@ -0,0 +1,230 @@
+/**
+ * Project files (.silkroad): a composition with everything needed to
+ * reproduce it on another machine.
+ *
+ * Unlike MIDI, a project keeps the params, the full composition (roles,
+ * Euclidean patterns, sections), per-instrument seeds, mixer state and,
+ * optionally, the rendered audio. Files carry a schema version and are
+ * migrated forward on import.
+ */
+
+import type { CompositionParams, Composition, Instrument, InstrumentAudioResult } from '../types/music';
+import type { MixSettings } from '../audio/types';
+import { SYNTH_VERSION } from '../audio/synthesizer';
+import { isValidProject } from './validation';
+import { downloadBlob } from './audio';
+
+/** File extension for project files */
+export const PROJECT_FILE_EXTENSION = '.silkroad';
+
+/** Marker identifying a project file */
+export const PROJECT_FORMAT = 'silkroad-project';
+
+/** Current project schema version */
+export const PROJECT_VERSION = 1;
+
+/** A project at the current schema version */
+export interface SilkRoadProject {
+    format: typeof PROJECT_FORMAT;
+    version: typeof PROJECT_VERSION;
+    /** ISO timestamp of the export */
+    exportedAt: string;
+    title?: string;
+    params: CompositionParams;
+    composition: Composition;
+    /** Seed each instrument was rendered with */
+    seeds: Partial<Record<Instrument, number>>;
+    /** `SYNTH_VERSION` of the engine that rendered the seeds */
+    synthVersion: number;
+    /** Mixer state: volume, mute and pan per instrument */
+    mix?: MixSettings['tracks'];
+    /** Embedded audio, base64-encoded like `InstrumentAudioResult` */
+    audio?: InstrumentAudioResult[];
+}
+
+/** Options for `createProject` */
+export interface CreateProjectOptions {
+    title?: string;
+    /** Rendered audio; provides the seeds and is embedded if `includeAudio` is set */
+    audioResults?: InstrumentAudioResult[];
+    /** Seeds to use when there is no audio (e.g. a history entry) */
+    seeds?: Partial<Record<Instrument, number>>;
+    /** Engine version the seeds were rendered with (default: the current `SYNTH_VERSION`) */
+    synthVersion?: number;
+    mix?: MixSettings['tracks'];
+    includeAudio?: boolean;
+}
+
+/**
+ * Upgrades a project object from one version to the next.
+ */
+export type ProjectMigration = (project: Record<string, unknown>) => Record<string, unknown>;
+
+/**
+ * Forward migrations, keyed by the version they upgrade from.
+ * When the schema changes, bump PROJECT_VERSION and add the migration from
+ * the previous version here, so older files keep importing.
+ */
+export const PROJECT_MIGRATIONS: Record<number, ProjectMigration> = {};
+
+export class ProjectFileError extends Error {
+    constructor(
+        message: string,
+        public code: 'INVALID_JSON' | 'INVALID_FORMAT' | 'UNSUPPORTED_VERSION' | 'INVALID_PROJECT',
+        public details?: string
+    ) {
+        super(message);
+        this.name = 'ProjectFileError';
+    }
+}
+
+/**
+ * Build a project from a composition and its render.
+ */
+export function createProject(
+    params: CompositionParams,
+    composition: Composition,
+    { title, audioResults = [], seeds, synthVersion = SYNTH_VERSION, mix, includeAudio = false }: CreateProjectOptions = {}
+): SilkRoadProject {
+    const project: SilkRoadProject = {
+        format: PROJECT_FORMAT,
+        version: PROJECT_VERSION,
+        exportedAt: new Date().toISOString(),
+        params,
+        composition,
+        seeds: {
+            ...seeds,
+            ...Object.fromEntries(audioResults.map((result) => [result.instrument, result.seed])),
+        },
+        synthVersion,
+    };
+
+    if (title) project.title = title;
+    if (mix && Object.keys(mix).length > 0) project.mix = mix;
+    if (includeAudio && audioResults.length > 0) project.audio = audioResults;
+
+    return project;
+}
+
+/**
+ * Serialize a project to the file contents.
+ */
+export function serializeProject(project: SilkRoadProject): string {
+    return JSON.stringify(project, null, 2);
+}
+
+/**
+ * Bring a project object up to `targetVersion` by applying migrations in order.
+ *
+ * @throws ProjectFileError if the version is missing, newer than supported
+ *   or has no migration path
+ */
+export function migrateProject(
+    project: Record<string, unknown>,
+    migrations: Record<number, ProjectMigration> = PROJECT_MIGRATIONS,
+    targetVersion: number = PROJECT_VERSION
+): Record<string, unknown> {
+    let current = project;
+    let version = current.version;
+
+    if (typeof version !== 'number' || !Number.isInteger(version) || version < 1) {
+        throw new ProjectFileError('Project file has no valid version', 'INVALID_FORMAT');
+    }
+    if (version > targetVersion) {
+        throw new ProjectFileError(
+            'Project file was saved by a newer version of the app',
+            'UNSUPPORTED_VERSION',
+            `File version ${version}, supported up to ${targetVersion}`
+        );
+    }
+
+    while (version < targetVersion) {
+        const migrate = migrations[version];
+        if (!migrate) {
+            throw new ProjectFileError(
+                `Cannot upgrade project file from version ${version}`,
+                'UNSUPPORTED_VERSION'
+            );
+        }
+        current = { ...migrate(current), version: version + 1 };
+        version += 1;
+    }
+
+    return current;
+}
+
+/**
+ * Parse, migrate and validate the contents of a project file.
+ *
+ * @throws ProjectFileError if the file is not a valid project
+ */
+export function parseProjectFile(text: string): SilkRoadProject {
+    let data: unknown;
+    try {
+        data = JSON.parse(text);
+    } catch (error) {
+        throw new ProjectFileError(
+            'Project file is not valid JSON',
+            'INVALID_JSON',
+            error instanceof Error ? error.message : undefined
+        );
+    }
+
+    if (!data || typeof data !== 'object' || (data as Record<string, unknown>).format !== PROJECT_FORMAT) {
+        throw new ProjectFileError('Not a Silk Road project file', 'INVALID_FORMAT');
+    }
+
+    const project = migrateProject(data as Record<string, unknown>);
+    if (!isValidProject(project)) {
+        throw new ProjectFileError('Project file is missing or has invalid fields', 'INVALID_PROJECT');
+    }
+
+    return project;
+}
+
+/**
+ * Read and parse a project file chosen by the user.
+ * Uses FileReader rather than `Blob.text()` for wider support.
+ *
+ * @throws ProjectFileError if the file is not a valid project
+ */
+export function readProjectFile(file: Blob): Promise<SilkRoadProject> {
+    return new Promise((resolve, reject) => {
+        const reader = new FileReader();
+        reader.onload = () => {
+            try {
+                resolve(parseProjectFile(reader.result as string));
+            } catch (error) {
+                reject(error);
+            }
+        };
+        reader.onerror = () => reject(reader.error ?? new Error('Failed to read project file'));
+        reader.readAsText(file);
+    });
+}
+
+/**
+ * Whether a file name looks like a project file.
+ */
+export function isProjectFileName(name: string): boolean {
+    return name.toLowerCase().endsWith(PROJECT_FILE_EXTENSION);
+}
+
+/**
+ * File name for a project: its title in kebab case, or "composition".
+ */
+export function projectFileName(title?: string): string {
+    const slug = (title ?? '')
+        .toLowerCase()
+        .replace(/[^a-z0-9]+/g, '-')
+        .replace(/^-+|-+$/g, '');
+    return `${slug || 'composition'}${PROJECT_FILE_EXTENSION}`;
+}
+
+/**
+ * Download a project as a .silkroad file.
+ */
+export function downloadProject(project: SilkRoadProject, filename: string = projectFileName(project.title)): void {
+    const blob = new Blob([serializeProject(project)], { type: 'application/json' });
+    downloadBlob(blob, filename);
+}
@@ -0,0 +1,88 @@
+/**
+ * Unit tests for shareable composition links.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+    encodeSharedComposition,
+    decodeSharedComposition,
+    getShareParam,
+    createShareUrl,
+    SHARE_LINK_VERSION,
+    MAX_SHARED_COMPOSITION_SIZE,
+} from './shareLink';
+import type { SharedComposition } from './shareLink';
+import { ShareLinkError } from '../types/errors';
+import { SYNTH_VERSION } from '../audio/synthesizer';
+import { mockComposition, mockParams } from '../test/utils';
+
+const shared: SharedComposition = {
+    params: mockParams,
+    composition: mockComposition,
+    seeds: { erhu: 1, guzheng: 2 },
+    synthVersion: SYNTH_VERSION,
+};
+
+const expectError = async (encoded: string, code: ShareLinkError['code']) => {
+    const error = await decodeSharedComposition(encoded).catch((e: unknown) => e);
+    expect(error).toBeInstanceOf(ShareLinkError);
+    expect((error as ShareLinkError).code).toBe(code);
+};
+
+describe('shareLink', () => {
+    it('round-trips a composition through a URL-safe string', async () => {
+        const encoded = await encodeSharedComposition(shared);
+
+        expect(encoded).toMatch(new RegExp(`^${SHARE_LINK_VERSION}\\.[A-Za-z0-9_-]+$`));
+        expect(await decodeSharedComposition(encoded)).toEqual(shared);
+    });
+
+    it('compresses the payload', async () => {
+        const encoded = await encodeSharedComposition(shared);
+
+        expect(encoded.length).toBeLessThan(JSON.stringify(shared).length);
+    });
+
+    it('rejects malformed links', async () => {
+        await expectError('no-version', 'MALFORMED_LINK');
+        await expectError('1.not*base64', 'MALFORMED_LINK');
+        await expectError('1.AAAA', 'MALFORMED_LINK');
+    });
+
+    it('rejects links from a newer version', async () => {
+        const encoded = await encodeSharedComposition(shared);
+
+        await expectError(encoded.replace(/^\d+/, String(SHARE_LINK_VERSION + 1)), 'UNSUPPORTED_LINK_VERSION');
+    });
+
+    it('rejects tampered compositions', async () => {
+        const tampered = { ...shared, params: { ...mockParams, mode: 'dorian' } };
+        await expectError(await encodeSharedComposition(tampered as SharedComposition), 'INVALID_SHARED_COMPOSITION');
+
+        const badSeeds = { ...shared, seeds: { erhu: 'x' } };
+        await expectError(await encodeSharedComposition(badSeeds as unknown as SharedComposition), 'INVALID_SHARED_COMPOSITION');
+
+        const unversioned = { params: shared.params, composition: shared.composition, seeds: shared.seeds };
+        await expectError(await encodeSharedComposition(unversioned as SharedComposition), 'INVALID_SHARED_COMPOSITION');
+    });
+
+    it('rejects links that decompress past the size limit', async () => {
+        const padded = { ...shared, padding: ' '.repeat(MAX_SHARED_COMPOSITION_SIZE) };
+
+        await expectError(await encodeSharedComposition(padded), 'MALFORMED_LINK');
+    });
+
+    it('reads the share parameter from a hash', () => {
+        expect(getShareParam('#share=1.abc')).toBe('1.abc');
+        expect(getShareParam('#other=1')).toBeNull();
+        expect(getShareParam('')).toBeNull();
+    });
+
+    it('builds a link on the given page', async () => {
+        const url = new URL(await createShareUrl(shared, 'https://example.com/app?x=1#old'));
+
+        expect(url.pathname).toBe('/app');
+        expect(url.search).toBe('?x=1');
+        expect(await decodeSharedComposition(getShareParam(url.hash)!)).toEqual(shared);
+    });
+});
@@ -0,0 +1,156 @@
+/**
+ * Shareable links: a composition encoded in the URL hash.
+ *
+ * The params, composition, per-instrument seeds and synth version are
+ * serialized to JSON, deflated and base64url-encoded behind a version
+ * prefix, e.g. `#share=1.<data>`. Opening the link renders the composition locally, so
+ * no audio or server round trip is involved.
+ */
+
+import type { CompositionParams, Composition, Instrument } from '../types/music';
+import { ShareLinkError } from '../types/errors';
+import { isValidSharedComposition } from './validation';
+
+/** Current share link encoding version */
+export const SHARE_LINK_VERSION = 1;
+
+/** Largest decompressed payload a link may hold, in bytes */
+export const MAX_SHARED_COMPOSITION_SIZE = 8 * 1024 * 1024;
+
+/** Hash parameter holding the encoded composition */
+export const SHARE_HASH_KEY = 'share';
+
+/** What a share link carries */
+export interface SharedComposition {
+    params: CompositionParams;
+    composition: Composition;
+    /** Seed each instrument was rendered with, so the link sounds the same */
+    seeds?: Partial<Record<Instrument, number>>;
+    /** `SYNTH_VERSION` of the engine that rendered the seeds */
+    synthVersion: number;
+}
+
+/**
+ * Run bytes through a compression or decompression stream.
+ * @throws Error if the output grows past `maxLength` bytes
+ */
+async function transformBytes(
+    bytes: Uint8Array<ArrayBuffer>,
+    stream: CompressionStream | DecompressionStream,
+    maxLength: number = Infinity
+): Promise<Uint8Array> {
+    const writer = stream.writable.getWriter();
+    // Errors surface on the readable side
+    writer.write(bytes).catch(() => {});
+    writer.close().catch(() => {});
+
+    const chunks: Uint8Array[] = [];
+    let length = 0;
+    const reader = stream.readable.getReader();
+    for (;;) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        length += value.length;
+        if (length > maxLength) {
+            await reader.cancel();
+            throw new Error(`Output exceeds ${maxLength} bytes`);
+        }
+        chunks.push(value);
+    }
+
+    const output = new Uint8Array(length);
+    let offset = 0;
+    for (const chunk of chunks) {
+        output.set(chunk, offset);
+        offset += chunk.length;
+    }
+    return output;
+}
+
+/**
+ * Encode bytes as base64url (URL-safe alphabet, no padding).
+ */
+function toBase64Url(bytes: Uint8Array): string {
+    let binary = '';
+    for (let i = 0; i < bytes.length; i++) {
+        binary += String.fromCharCode(bytes[i]);
+    }
+    return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+/**
+ * Decode base64url back to bytes.
+ * @throws Error if the string is not base64url
+ */
+function fromBase64Url(data: string): Uint8Array<ArrayBuffer> {
+    if (!/^[A-Za-z0-9_-]+$/.test(data)) {
+        throw new Error('Invalid base64url data');
+    }
+    const base64 = data.replace(/-/g, '+').replace(/_/g, '/');
+    const binary = atob(base64.padEnd(Math.ceil(base64.length / 4) * 4, '='));
+    return Uint8Array.from(binary, (char) => char.charCodeAt(0));
+}
+
+/**
+ * Encode a composition as the value of the share hash parameter.
+ */
+export async function encodeSharedComposition(shared: SharedComposition): Promise<string> {
+    const json = new TextEncoder().encode(JSON.stringify(shared));
+    const compressed = await transformBytes(json, new CompressionStream('deflate-raw'));
+    return `${SHARE_LINK_VERSION}.${toBase64Url(compressed)}`;
+}
+
+/**
+ * Decode and validate the value of the share hash parameter.
+ *
+ * @throws ShareLinkError if the link is malformed or too large, from a newer
+ *   version or does not hold a valid composition
+ */
+export async function decodeSharedComposition(encoded: string): Promise<SharedComposition> {
+    const separator = encoded.indexOf('.');
+    const version = Number(encoded.slice(0, separator));
+    if (separator <= 0 || !Number.isInteger(version) || version < 1) {
+        throw new ShareLinkError('Share link has no valid version', 'MALFORMED_LINK');
+    }
+    if (version > SHARE_LINK_VERSION) {
+        throw new ShareLinkError(
+            `Share link version ${version} is newer than supported (${SHARE_LINK_VERSION})`,
+            'UNSUPPORTED_LINK_VERSION'
+        );
+    }
+
+    let data: unknown;
+    try {
+        const compressed = fromBase64Url(encoded.slice(separator + 1));
+        const json = await transformBytes(compressed, new DecompressionStream('deflate-raw'), MAX_SHARED_COMPOSITION_SIZE);
+        data = JSON.parse(new TextDecoder().decode(json));
+    } catch (error) {
+        throw new ShareLinkError(
+            'Share link could not be decoded',
+            'MALFORMED_LINK',
+            error instanceof Error ? error : undefined
+        );
+    }
+
+    if (!isValidSharedComposition(data)) {
+        throw new ShareLinkError('Share link does not contain a valid composition', 'INVALID_SHARED_COMPOSITION');
+    }
+
+    return data;
+}
+
+/**
+ * Get the encoded composition from a URL hash, or null if it has none.
+ */
+export function getShareParam(hash: string): string | null {
+    return new URLSearchParams(hash.replace(/^#/, '')).get(SHARE_HASH_KEY);
+}
+
+/**
+ * Build a link that opens the composition, based on the current page URL.
+ */
+export async function createShareUrl(shared: SharedComposition, baseUrl: string = window.location.href): Promise<string> {
+    const url = new URL(baseUrl);
+    url.hash = `${SHARE_HASH_KEY}=${await encodeSharedComposition(shared)}`;
+    return url.toString();
+}
@@ -0,0 +1,234 @@
+/**
+ * Unit tests for history and project validation.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+    validateHistoryData,
+    validateHistoryEntry,
+    isValidSectionPlan,
+    isValidCompositionParams,
+    isValidComposition,
+    isValidMixTrackSettings,
+    isValidProject,
+} from './validation';
+import { createProject } from './projectFile';
+import { createHistoryEntry } from '../services/historyStore';
+import { DEFAULT_TRACK_EFFECTS } from '../audio/effects';
+import { mockComposition, mockParams, mockInstrumentAudioResult } from '../test/utils';
+
+const savedEntry = (composition: unknown) => ({
+    id: 'comp_1',
+    params: mockParams,
+    composition,
+    audioResults: [],
+    createdAt: 1700000000000,
+});
+
+describe('validation', () => {
+    describe('validateHistoryData', () => {
+        it('returns an empty array for non-array data', () => {
+            expect(validateHistoryData({})).toEqual([]);
+            expect(validateHistoryData(null)).toEqual([]);
+        });
+
+        it('filters out invalid entries', () => {
+            const valid = savedEntry(mockComposition);
+            expect(validateHistoryData([valid, { id: 2 }, null])).toEqual([valid]);
+        });
+
+        it('accepts titles, tags and favorites', () => {
+            const entry = { ...savedEntry(mockComposition), title: 'Dawn', tags: ['sketch'], favorite: true };
+
+            expect(validateHistoryData([entry])).toEqual([entry]);
+        });
+
+        it('filters out entries with wrongly typed metadata', () => {
+            expect(validateHistoryData([
+                { ...savedEntry(mockComposition), title: 42 },
+                { ...savedEntry(mockComposition), tags: 'sketch' },
+                { ...savedEntry(mockComposition), tags: ['ok', 1] },
+                { ...savedEntry(mockComposition), favorite: 'yes' },
+            ])).toEqual([]);
+        });
+
+        it('accepts compositions with section plans', () => {
+            const entry = savedEntry({
+                ...mockComposition,
+                sections: [
+                    { dynamics: 'p' },
+                    { motif: { transpose: 2 }, dynamics: 'mf' },
+                    { motif: { invert: true, augment: 2 }, instrumentRoles: { erhu: 'rest' } },
+                    { motif: { retrograde: true } },
+                ],
+            });
+
+            expect(validateHistoryData([entry])).toEqual([entry]);
+        });
+
+        it('drops malformed sections but keeps the composition', () => {
+            const entry = savedEntry({ ...mockComposition, sections: [{ dynamics: 'loud' }] });
+
+            const [loaded] = validateHistoryData([entry]);
+
+            expect(loaded.composition).toEqual(mockComposition);
+            expect(loaded.composition).not.toHaveProperty('sections');
+        });
+    });
+
+    describe('validateHistoryEntry', () => {
+        const storedEntry = () => createHistoryEntry('comp_1', mockParams, mockComposition, [mockInstrumentAudioResult], {
+            createdAt: 1700000000000,
+            metadata: { title: 'Dawn', tags: ['sketch'], favorite: true },
+        });
+
+        it('accepts a stored entry as it is', () => {
+            const entry = storedEntry();
+
+            expect(validateHistoryEntry(entry)).toEqual(entry);
+        });
+
+        it('drops entries without a valid id, params, composition or timestamp', () => {
+            expect(validateHistoryEntry(null)).toBeNull();
+            expect(validateHistoryEntry({ ...storedEntry(), id: 7 })).toBeNull();
+            expect(validateHistoryEntry({ ...storedEntry(), params: { ...mockParams, mood: 'angry' } })).toBeNull();
+            expect(validateHistoryEntry({ ...storedEntry(), composition: { scale: 'C' } })).toBeNull();
+            expect(validateHistoryEntry({ ...storedEntry(), createdAt: 'yesterday' })).toBeNull();
+        });
+
+        it('clears wrongly typed metadata', () => {
+            const entry = validateHistoryEntry({
+                ...storedEntry(),
+                title: 42,
+                tags: ['ok', 1],
+                favorite: 'yes',
+                seeds: { erhu: 'lucky' },
+                synthVersion: '2',
+                automation: { erhu: { volume: 'loud' } },
+                effects: { erhu: { eq: 'flat' } },
+            });
+
+            expect(entry).not.toBeNull();
+            expect(entry).not.toHaveProperty('title');
+            expect(entry?.tags).toEqual(['ok']);
+            expect(entry).not.toHaveProperty('favorite');
+            expect(entry).not.toHaveProperty('seeds');
+            expect(entry).not.toHaveProperty('synthVersion');
+            expect(entry).not.toHaveProperty('automation');
+            expect(entry).not.toHaveProperty('effects');
+        });
+
+        it('repairs the instrument list and audio size', () => {
+            const entry = validateHistoryEntry({ ...storedEntry(), instruments: ['erhu', 'harp'], audioSize: -1 });
+
+            expect(entry?.instruments).toEqual(['erhu']);
+            expect(entry?.audioSize).toBe(0);
+        });
+
+        it('drops malformed sections but keeps the entry', () => {
+            const entry = validateHistoryEntry({
+                ...storedEntry(),
+                composition: { ...mockComposition, sections: [{ dynamics: 'loud' }] },
+            });
+
+            expect(entry?.composition).toEqual(mockComposition);
+        });
+    });
+
+    describe('isValidSectionPlan', () => {
+        it('accepts an empty plan', () => {
+            expect(isValidSectionPlan({})).toBe(true);
+        });
+
+        it('rejects wrongly typed fields', () => {
+            expect(isValidSectionPlan([])).toBe(false);
+            expect(isValidSectionPlan({ motif: { invert: 'yes' } })).toBe(false);
+            expect(isValidSectionPlan({ motif: { augment: 0 } })).toBe(false);
+            expect(isValidSectionPlan({ instrumentRoles: { erhu: 1 } })).toBe(false);
+        });
+    });
+
+    describe('isValidCompositionParams', () => {
+        it('accepts valid params', () => {
+            expect(isValidCompositionParams(mockParams)).toBe(true);
+        });
+
+        it('rejects unknown modes, instruments and moods', () => {
+            expect(isValidCompositionParams({ ...mockParams, mode: 'dorian' })).toBe(false);
+            expect(isValidCompositionParams({ ...mockParams, instruments: ['banjo'] })).toBe(false);
+            expect(isValidCompositionParams({ ...mockParams, mood: 'angry' })).toBe(false);
+            expect(isValidCompositionParams({ ...mockParams, tempo: 0 })).toBe(false);
+        });
+
+        it('checks the string model', () => {
+            expect(isValidCompositionParams({ ...mockParams, stringModels: { guzheng: 'lite', pipa: 'physical' } })).toBe(true);
+            expect(isValidCompositionParams({ ...mockParams, stringModels: { guzheng: 'sampled' } })).toBe(false);
+            expect(isValidCompositionParams({ ...mockParams, stringModels: { harp: 'lite' } })).toBe(false);
+            expect(isValidCompositionParams({ ...mockParams, stringModels: 'lite' })).toBe(false);
+        });
+    });
+
+    describe('isValidComposition', () => {
+        it('accepts a composition with sequences', () => {
+            const composition = {
+                ...mockComposition,
+                sequences: { erhu: [{ pitch: 'C4', start: 0, duration: 1, velocity: 0.8 }] },
+            };
+
+            expect(isValidComposition(composition)).toBe(true);
+        });
+
+        it('rejects malformed structure', () => {
+            expect(isValidComposition({ ...mockComposition, scale: 'C D E' })).toBe(false);
+            expect(isValidComposition({ ...mockComposition, euclideanPatterns: { melody: ['x'] } })).toBe(false);
+            expect(isValidComposition({ ...mockComposition, sequences: { erhu: [{ pitch: 'C4' }] } })).toBe(false);
+        });
+    });
+
+    describe('isValidMixTrackSettings', () => {
+        it('checks ranges', () => {
+            expect(isValidMixTrackSettings({ volume: 0.5, muted: false, pan: -0.3 })).toBe(true);
+            expect(isValidMixTrackSettings({ volume: 2, muted: false })).toBe(false);
+            expect(isValidMixTrackSettings({ volume: 1, muted: false, pan: 3 })).toBe(false);
+            expect(isValidMixTrackSettings({ volume: 1 })).toBe(false);
+        });
+
+        it('checks track effects', () => {
+            const effects = DEFAULT_TRACK_EFFECTS;
+            expect(isValidMixTrackSettings({ volume: 1, muted: false, effects })).toBe(true);
+            expect(isValidMixTrackSettings({ volume: 1, muted: false, effects: { ...effects, eq: { low: 3 } } })).toBe(false);
+            expect(isValidMixTrackSettings({
+                volume: 1,
+                muted: false,
+                effects: { ...effects, delay: { ...effects.delay, feedback: 2 } },
+            })).toBe(false);
+        });
+
+        it('checks automation lanes', () => {
+            const automation = { volume: [{ time: 0, value: 1 }, { time: 30, value: 1.5 }], pan: [] };
+            expect(isValidMixTrackSettings({ volume: 1, muted: false, automation })).toBe(true);
+            expect(isValidMixTrackSettings({ volume: 1, muted: false, automation: { tempo: [] } })).toBe(false);
+            expect(isValidMixTrackSettings({ volume: 1, muted: false, automation: { pan: [{ time: -1, value: 0 }] } })).toBe(false);
+            expect(isValidMixTrackSettings({ volume: 1, muted: false, automation: { send: [{ time: 2 }] } })).toBe(false);
+        });
+    });
+
+    describe('isValidProject', () => {
+        const project = createProject(mockParams, mockComposition, {
+            audioResults: [mockInstrumentAudioResult],
+            mix: { erhu: { volume: 0.8, muted: false, pan: 0 } },
+            includeAudio: true,
+        });
+
+        it('accepts a created project', () => {
+            expect(isValidProject(project)).toBe(true);
+        });
+
+        it('rejects invalid fields', () => {
+            expect(isValidProject({ ...project, params: {} })).toBe(false);
+            expect(isValidProject({ ...project, seeds: { erhu: 'x' } })).toBe(false);
+            expect(isValidProject({ ...project, mix: { erhu: { volume: 'loud' } } })).toBe(false);
+            expect(isValidProject({ ...project, audio: [{ instrument: 'erhu' }] })).toBe(false);
+        });
+    });
+});
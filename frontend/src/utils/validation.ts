@@ -1,9 +1,43 @@
 /**
  * Validation utilities for runtime type checking.
- * Provides type guards for data loaded from localStorage and other external sources.
+ * Provides type guards for data loaded from localStorage, project files and
+ * other external sources.
  */
 
-import type { CompositionParams, Composition, InstrumentAudioResult } from '../types/music';
+import type {
+    CompositionParams,
+    Composition,
+    InstrumentAudioResult,
+    SectionPlan,
+    Dynamic,
+    PentatonicMode,
+    Instrument,
+    Mood,
+    ComposeEngine,
+    StringModel,
+    SequenceNote,
+} from '../types/music';
+import type { AutomationParam, MixTrackSettings, TrackAutomation, TrackEffects } from '../audio/types';
+import type { SilkRoadProject } from './projectFile';
+import type { SharedComposition } from './shareLink';
+import type { HistoryEntry } from '../services/historyStore';
+import { DYNAMICS } from './compositionSchema';
+import { AUTOMATION_PARAMS } from '../audio/utils/automation';
+
+const MODES: PentatonicMode[] = ['gong', 'shang', 'jue', 'zhi', 'yu'];
+const INSTRUMENTS: Instrument[] = ['erhu', 'guzheng', 'pipa', 'dizi'];
+const MOODS: Mood[] = ['calm', 'heroic', 'melancholic', 'festive'];
+const ENGINES: ComposeEngine[] = ['gemini', 'offline'];
+const STRING_MODELS: StringModel[] = ['physical', 'lite'];
+
+const isRecord = (data: unknown): data is Record<string, unknown> =>
+    typeof data === 'object' && data !== null && !Array.isArray(data);
+
+const isStringArray = (data: unknown): data is string[] =>
+    Array.isArray(data) && data.every((item) => typeof item === 'string');
+
+const isFiniteNumber = (data: unknown): data is number =>
+    typeof data === 'number' && Number.isFinite(data);
 
 /** Structure of a saved composition in localStorage */
 export interface SavedComposition {
@@ -12,6 +46,9 @@ export interface SavedComposition {
     composition: Composition;
     audioResults: InstrumentAudioResult[];
     createdAt: number;
+    title?: string;
+    tags?: string[];
+    favorite?: boolean;
 }
 
 /**
@@ -28,17 +65,302 @@ export function isValidSavedComposition(data: unknown): data is SavedComposition
         typeof obj.params === 'object' && obj.params !== null &&
         typeof obj.composition === 'object' && obj.composition !== null &&
         Array.isArray(obj.audioResults) &&
-        typeof obj.createdAt === 'number'
+        typeof obj.createdAt === 'number' &&
+        isValidHistoryMetadata(obj)
     );
 }
 
+/**
+ * Check the optional user-edited fields of a history entry: title, tags and favorite flag.
+ */
+function isValidHistoryMetadata(data: Record<string, unknown>): boolean {
+    const { title, tags, favorite } = data;
+
+    if (title !== undefined && typeof title !== 'string') return false;
+    if (tags !== undefined && !(Array.isArray(tags) && tags.every((tag) => typeof tag === 'string'))) return false;
+    if (favorite !== undefined && typeof favorite !== 'boolean') return false;
+
+    return true;
+}
+
+/**
+ * Type guard for a per-section plan (motif variant, dynamics and role overrides).
+ */
+export function isValidSectionPlan(data: unknown): data is SectionPlan {
+    if (!data || typeof data !== 'object' || Array.isArray(data)) return false;
+
+    const { motif, dynamics, instrumentRoles } = data as Record<string, unknown>;
+
+    if (motif !== undefined) {
+        if (!motif || typeof motif !== 'object') return false;
+        const { transpose, invert, retrograde, augment } = motif as Record<string, unknown>;
+        if (transpose !== undefined && typeof transpose !== 'number') return false;
+        if (invert !== undefined && typeof invert !== 'boolean') return false;
+        if (retrograde !== undefined && typeof retrograde !== 'boolean') return false;
+        if (augment !== undefined && (typeof augment !== 'number' || augment <= 0)) return false;
+    }
+
+    if (dynamics !== undefined && !DYNAMICS.includes(dynamics as Dynamic)) return false;
+
+    if (instrumentRoles !== undefined) {
+        if (!instrumentRoles || typeof instrumentRoles !== 'object') return false;
+        if (!Object.values(instrumentRoles).every((role) => typeof role === 'string')) return false;
+    }
+
+    return true;
+}
+
 /**
  * Validates an array of saved compositions from localStorage.
- * Filters out any invalid entries to prevent runtime errors.
+ * Filters out any invalid entries to prevent runtime errors; malformed
+ * section plans are dropped so the rest of the composition still loads.
  * @param data - Raw data parsed from localStorage
  * @returns Array of valid SavedComposition objects
  */
 export function validateHistoryData(data: unknown): SavedComposition[] {
     if (!Array.isArray(data)) return [];
-    return data.filter(isValidSavedComposition);
+    return data.filter(isValidSavedComposition).map(withValidSections);
+}
+
+/**
+ * Check an entry read from the IndexedDB history, repairing what it can.
+ * Entries without a valid id, params, composition or timestamp are dropped
+ * (null). Invalid section plans are dropped as for legacy data, and
+ * optional fields of the wrong type are cleared, so that defaults fill them.
+ */
+export function validateHistoryEntry(data: unknown): HistoryEntry | null {
+    if (!isRecord(data) || typeof data.id !== 'string' || !isFiniteNumber(data.createdAt)) return null;
+    if (!isValidCompositionParams(data.params) || !isRecord(data.composition)) return null;
+
+    const entry: Record<string, unknown> & { composition: Composition } =
+        withValidSections({ ...data, composition: data.composition as unknown as Composition });
+    if (!isValidComposition(entry.composition)) return null;
+
+    const { title, tags, favorite, seeds, instruments, synthVersion, audioSize, automation, effects } = entry;
+    if (title !== undefined && typeof title !== 'string') delete entry.title;
+    if (tags !== undefined) {
+        entry.tags = Array.isArray(tags) ? tags.filter((tag) => typeof tag === 'string') : [];
+    }
+    if (favorite !== undefined && typeof favorite !== 'boolean') delete entry.favorite;
+    if (seeds !== undefined && !isValidSeeds(seeds)) delete entry.seeds;
+    entry.instruments = Array.isArray(instruments)
+        ? instruments.filter((inst) => INSTRUMENTS.includes(inst as Instrument))
+        : [];
+    if (synthVersion !== undefined && !isFiniteNumber(synthVersion)) delete entry.synthVersion;
+    entry.audioSize = isFiniteNumber(audioSize) && audioSize >= 0 ? audioSize : 0;
+    if (automation !== undefined && !isValidInstrumentMap(automation, isValidTrackAutomation)) delete entry.automation;
+    if (effects !== undefined && !isValidInstrumentMap(effects, isValidTrackEffects)) delete entry.effects;
+
+    return entry as unknown as HistoryEntry;
+}
+
+/**
+ * Drop a composition's sections unless every section plan is valid.
+ */
+function withValidSections<T extends { composition: Composition }>(saved: T): T {
+    const { sections } = saved.composition as { sections?: unknown };
+    if (sections === undefined || (Array.isArray(sections) && sections.every(isValidSectionPlan))) {
+        return saved;
+    }
+
+    const composition = { ...saved.composition };
+    delete composition.sections;
+    return { ...saved, composition };
+}
+
+/**
+ * Type guard for composition params, including the allowed mode, instrument and mood values.
+ */
+export function isValidCompositionParams(data: unknown): data is CompositionParams {
+    if (!isRecord(data)) return false;
+
+    const { mode, root, tempo, instruments, mood, seed, engine, stringModels } = data;
+
+    return (
+        MODES.includes(mode as PentatonicMode) &&
+        typeof root === 'string' &&
+        isFiniteNumber(tempo) && tempo > 0 &&
+        Array.isArray(instruments) && instruments.every((inst) => INSTRUMENTS.includes(inst as Instrument)) &&
+        MOODS.includes(mood as Mood) &&
+        (seed === undefined || isFiniteNumber(seed)) &&
+        (engine === undefined || ENGINES.includes(engine as ComposeEngine)) &&
+        (stringModels === undefined || isValidStringModels(stringModels))
+    );
+}
+
+/**
+ * Type guard for per-instrument string models.
+ */
+function isValidStringModels(data: unknown): data is Partial<Record<Instrument, StringModel>> {
+    return isRecord(data) && Object.entries(data).every(([instrument, model]) =>
+        INSTRUMENTS.includes(instrument as Instrument) && STRING_MODELS.includes(model as StringModel)
+    );
+}
+
+/**
+ * Type guard for a note of an explicit sequence.
+ */
+function isValidSequenceNote(data: unknown): data is SequenceNote {
+    if (!isRecord(data)) return false;
+
+    const { pitch, start, duration, velocity } = data;
+    return typeof pitch === 'string' && isFiniteNumber(start) && isFiniteNumber(duration) && isFiniteNumber(velocity);
+}
+
+/**
+ * Type guard for the structure of a composition.
+ * Checks shapes only; musical rules are enforced by `validateComposition`.
+ */
+export function isValidComposition(data: unknown): data is Composition {
+    if (!isRecord(data)) return false;
+
+    const { scale, motif, form, instrumentRoles, euclideanPatterns, sections, sequences } = data;
+
+    if (!isStringArray(scale) || !isStringArray(form)) return false;
+    if (!isRecord(motif) || !isStringArray(motif.pitches)) return false;
+    if (!Array.isArray(motif.rhythm) || !motif.rhythm.every(isFiniteNumber)) return false;
+    if (!isRecord(instrumentRoles) || !Object.values(instrumentRoles).every((role) => typeof role === 'string')) {
+        return false;
+    }
+    if (!isRecord(euclideanPatterns)) return false;
+    if (!Object.values(euclideanPatterns).every((pattern) => Array.isArray(pattern) && pattern.every(isFiniteNumber))) {
+        return false;
+    }
+    if (sections !== undefined && !(Array.isArray(sections) && sections.every(isValidSectionPlan))) return false;
+    if (sequences !== undefined) {
+        if (!isRecord(sequences)) return false;
+        const valid = Object.entries(sequences).every(([instrument, notes]) =>
+            INSTRUMENTS.includes(instrument as Instrument) &&
+            Array.isArray(notes) &&
+            notes.every(isValidSequenceNote)
+        );
+        if (!valid) return false;
+    }
+
+    return true;
+}
+
+/**
+ * Type guard for one instrument's rendered audio.
+ */
+export function isValidInstrumentAudioResult(data: unknown): data is InstrumentAudioResult {
+    if (!isRecord(data)) return false;
+
+    const { instrument, audioContent, mimeType, seed } = data;
+    return (
+        INSTRUMENTS.includes(instrument as Instrument) &&
+        typeof audioContent === 'string' &&
+        typeof mimeType === 'string' &&
+        isFiniteNumber(seed)
+    );
+}
+
+const isInRange = (data: unknown, min: number, max: number): data is number =>
+    isFiniteNumber(data) && data >= min && data <= max;
+
+/**
+ * Type guard for a track's insert effects.
+ * Ranges are checked loosely; the effects chain clamps each setting.
+ */
+export function isValidTrackEffects(data: unknown): data is TrackEffects {
+    if (!isRecord(data)) return false;
+
+    const { eq, compressor, delay } = data;
+    return (
+        isRecord(eq) && isFiniteNumber(eq.low) && isFiniteNumber(eq.mid) && isFiniteNumber(eq.high) &&
+        isRecord(compressor) && typeof compressor.enabled === 'boolean' &&
+        isFiniteNumber(compressor.threshold) && isFiniteNumber(compressor.ratio) &&
+        isRecord(delay) && typeof delay.enabled === 'boolean' &&
+        isInRange(delay.beats, 0, 4) && isInRange(delay.feedback, 0, 1) && isInRange(delay.mix, 0, 1)
+    );
+}
+
+/**
+ * Type guard for a track's automation lanes.
+ * Values are only checked to be numbers; playback clamps them to each lane's range.
+ */
+export function isValidTrackAutomation(data: unknown): data is TrackAutomation {
+    if (!isRecord(data)) return false;
+
+    return Object.entries(data).every(([param, points]) =>
+        AUTOMATION_PARAMS.includes(param as AutomationParam) &&
+        Array.isArray(points) &&
+        points.every((point) => isRecord(point) && isFiniteNumber(point.time) && point.time >= 0 && isFiniteNumber(point.value))
+    );
+}
+
+/**
+ * Type guard for one track of mixer state.
+ */
+export function isValidMixTrackSettings(data: unknown): data is MixTrackSettings {
+    if (!isRecord(data)) return false;
+
+    const { volume, muted, pan, seed, effects, automation } = data;
+    return (
+        isInRange(volume, 0, 1) &&
+        typeof muted === 'boolean' &&
+        (pan === undefined || isInRange(pan, -1, 1)) &&
+        (seed === undefined || isFiniteNumber(seed)) &&
+        (effects === undefined || isValidTrackEffects(effects)) &&
+        (automation === undefined || isValidTrackAutomation(automation))
+    );
+}
+
+/**
+ * Check a map from instrument to per-track settings.
+ */
+function isValidInstrumentMap<T>(data: unknown, isValid: (value: unknown) => value is T): data is Partial<Record<Instrument, T>> {
+    return isRecord(data) && Object.entries(data).every(([instrument, value]) =>
+        INSTRUMENTS.includes(instrument as Instrument) && isValid(value)
+    );
+}
+
+/**
+ * Type guard for per-instrument render seeds.
+ */
+function isValidSeeds(data: unknown): data is Partial<Record<Instrument, number>> {
+    return isRecord(data) && Object.entries(data).every(([instrument, seed]) =>
+        INSTRUMENTS.includes(instrument as Instrument) && isFiniteNumber(seed)
+    );
+}
+
+/**
+ * Type guard for the contents of a share link.
+ * Links can be edited by hand, so they get the same checks as stored compositions.
+ */
+export function isValidSharedComposition(data: unknown): data is SharedComposition {
+    if (!isRecord(data)) return false;
+
+    const { params, composition, seeds, synthVersion } = data;
+    return (
+        isValidCompositionParams(params) &&
+        isValidComposition(composition) &&
+        (seeds === undefined || isValidSeeds(seeds)) &&
+        isFiniteNumber(synthVersion)
+    );
+}
+
+/**
+ * Type guard for a project file at the current schema version.
+ * Older versions must be migrated before they are checked.
+ */
+export function isValidProject(data: unknown): data is SilkRoadProject {
+    if (!isRecord(data)) return false;
+
+    const { params, composition, seeds, synthVersion, title, mix, audio } = data;
+
+    if (!isValidCompositionParams(params) || !isValidComposition(composition)) return false;
+    if (!isFiniteNumber(synthVersion)) return false;
+    if (title !== undefined && typeof title !== 'string') return false;
+    if (!isValidSeeds(seeds)) return false;
+    if (mix !== undefined) {
+        if (!isRecord(mix)) return false;
+        const valid = Object.entries(mix).every(([inst, track]) =>
+            INSTRUMENTS.includes(inst as Instrument) && isValidMixTrackSettings(track)
+        );
+        if (!valid) return false;
+    }
+    if (audio !== undefined && !(Array.isArray(audio) && audio.every(isValidInstrumentAudioResult))) return false;
+
+    return true;
 }
@@ -1,4 +1,4 @@
-import { defineConfig } from 'vite'
+import { defineConfig, searchForWorkspaceRoot } from 'vite'
 import react from '@vitejs/plugin-react'
 
 // https://vite.dev/config/
@@ -7,5 +7,9 @@ export default defineConfig({
   server: {
     port: 3000,
     strictPort: false,
+    fs: {
+      // Allow the composition schema shared with the functions codebase
+      allow: [searchForWorkspaceRoot(process.cwd()), '../functions/src/utils'],
+    },
   },
 })
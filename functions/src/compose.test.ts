@@ -1,4 +1,5 @@
 import { compose } from './compose';
+import * as logger from 'firebase-functions/logger';
 
 // Mock VertexAI
 const mockGenerateContent = jest.fn();
@@ -15,9 +16,23 @@ jest.mock('@google-cloud/vertexai', () => ({
 // Mock logger
 jest.mock('firebase-functions/logger', () => ({
   info: jest.fn(),
+  warn: jest.fn(),
   error: jest.fn(),
 }));
 
+// Helper to create a mock Gemini response
+function geminiResponse(composition: unknown) {
+  return {
+    response: {
+      candidates: [{
+        content: {
+          parts: [{ text: JSON.stringify(composition) }],
+        },
+      }],
+    },
+  };
+}
+
 // Helper to create a mock request
 function createMockRequest(data: Record<string, unknown>, auth: { uid: string } | null = { uid: 'test-user' }) {
   return { data, auth } as any;
@@ -176,6 +191,17 @@ describe('compose Cloud Function', () => {
       expect(prompt).toContain('calm');
     });
 
+    it('asks Gemini for per-section motif variants, dynamics and roles', async () => {
+      await compose.run(createMockRequest(validParams));
+
+      const prompt = mockGenerateContent.mock.calls[0][0];
+      expect(prompt).toContain('"sections"');
+      for (const transform of ['transpose', 'invert', 'retrograde', 'augment']) {
+        expect(prompt).toContain(transform);
+      }
+      expect(prompt).toContain('dynamics');
+    });
+
     it('parses JSON response correctly', async () => {
       const request = createMockRequest(validParams);
 
@@ -242,4 +268,85 @@ describe('compose Cloud Function', () => {
       });
     });
   });
+
+  describe('Schema Validation', () => {
+    it('does not log violations for a valid composition', async () => {
+      await compose.run(createMockRequest(validParams));
+
+      expect(logger.warn).not.toHaveBeenCalled();
+    });
+
+    it('repairs mismatched rhythm length and out-of-scale pitches', async () => {
+      mockGenerateContent.mockResolvedValue(geminiResponse({
+        ...mockCompositionResponse,
+        motif: { pitches: ['C4', 'F4', 'E4'], rhythm: [1, 0.5] },
+      }));
+
+      const result = await compose.run(createMockRequest(validParams));
+
+      expect(mockGenerateContent).toHaveBeenCalledTimes(1);
+      expect(result.motif.pitches).toEqual(['C4', 'E4', 'E4']);
+      expect(result.motif.rhythm).toEqual([1, 0.5, 0.5]);
+    });
+
+    it('rebuilds the scale for the requested root and mode', async () => {
+      const result = await compose.run(createMockRequest({ ...validParams, root: 'D', mode: 'yu' }));
+
+      expect(result.scale).toEqual(['D4', 'F4', 'G4', 'A4', 'C5']);
+    });
+
+    it('logs structured violations when repairing', async () => {
+      mockGenerateContent.mockResolvedValue(geminiResponse({
+        ...mockCompositionResponse,
+        euclideanPatterns: { melody: [1, 0, 2, 0] },
+      }));
+
+      await compose.run(createMockRequest(validParams));
+
+      expect(logger.warn).toHaveBeenCalledWith('Composition schema violations', {
+        attempt: 1,
+        repaired: true,
+        violations: [expect.objectContaining({
+          code: 'INVALID_PATTERN',
+          path: 'euclideanPatterns.melody',
+          repaired: true,
+        })],
+      });
+    });
+
+    it('re-prompts Gemini with the violations when repair is impossible', async () => {
+      mockGenerateContent
+        .mockResolvedValueOnce(geminiResponse({ ...mockCompositionResponse, motif: { pitches: ['do', 're'], rhythm: [1, 1] } }))
+        .mockResolvedValueOnce(geminiResponse(mockCompositionResponse));
+
+      const result = await compose.run(createMockRequest(validParams));
+
+      expect(mockGenerateContent).toHaveBeenCalledTimes(2);
+      const retryPrompt = mockGenerateContent.mock.calls[1][0];
+      expect(retryPrompt).toContain('Your previous response was invalid');
+      expect(retryPrompt).toContain('motif.pitches[0]');
+      expect(result.motif.pitches).toEqual(['C4', 'D4']);
+    });
+
+    it('re-prompts Gemini when the response is not JSON', async () => {
+      mockGenerateContent
+        .mockResolvedValueOnce({ response: { candidates: [{ content: { parts: [{ text: '{"scale": ["C4",' }] } }] } })
+        .mockResolvedValueOnce(geminiResponse(mockCompositionResponse));
+
+      const result = await compose.run(createMockRequest(validParams));
+
+      expect(mockGenerateContent).toHaveBeenCalledTimes(2);
+      const retryPrompt = mockGenerateContent.mock.calls[1][0];
+      expect(retryPrompt).toContain('Response is not valid JSON');
+      expect(result.motif.pitches).toEqual(['C4', 'D4']);
+    });
+
+    it('gives up after repeated invalid responses', async () => {
+      mockGenerateContent.mockResolvedValue(geminiResponse({ ...mockCompositionResponse, motif: {} }));
+
+      await expect(compose.run(createMockRequest(validParams)))
+        .rejects.toThrow('Received an invalid composition. Please try again.');
+      expect(mockGenerateContent).toHaveBeenCalledTimes(3);
+    });
+  });
 });
@@ -0,0 +1,255 @@
+import { validateComposition, parseComposition, formatViolations, expectedScale } from './compositionSchema';
+
+const params = {
+  mode: 'gong' as const,
+  root: 'C',
+  instruments: ['erhu', 'guzheng'],
+};
+
+const validComposition = {
+  scale: ['C4', 'D4', 'E4', 'G4', 'A4'],
+  motif: { pitches: ['C4', 'D4', 'E4', 'G4'], rhythm: [1, 0.5, 0.5, 2] },
+  form: ['A', "A'", 'B', "A''"],
+  instrumentRoles: { erhu: 'melody', guzheng: 'accompaniment' },
+  euclideanPatterns: {
+    melody: [1, 0, 0, 1, 0, 0, 1, 0],
+    accompaniment: [1, 0, 1, 1, 0, 1, 1, 0],
+  },
+};
+
+describe('compositionSchema', () => {
+  describe('expectedScale', () => {
+    it('builds the pentatonic scale from root and mode', () => {
+      expect(expectedScale('C', 'gong')).toEqual(['C4', 'D4', 'E4', 'G4', 'A4']);
+      expect(expectedScale('A', 'yu')).toEqual(['A4', 'C5', 'D5', 'E5', 'G5']);
+    });
+
+    it('accepts flat roots', () => {
+      expect(expectedScale('Bb', 'gong')[0]).toBe('A#4');
+    });
+  });
+
+  describe('validateComposition', () => {
+    it('accepts a valid composition unchanged', () => {
+      const { composition, violations } = validateComposition(validComposition, params);
+
+      expect(violations).toEqual([]);
+      expect(composition).toEqual(validComposition);
+    });
+
+    it('rejects non-object input', () => {
+      const { composition, violations } = validateComposition('nope', params);
+
+      expect(composition).toBeNull();
+      expect(violations).toEqual([
+        { code: 'INVALID_TYPE', path: '', message: 'Composition must be a JSON object', repaired: false },
+      ]);
+    });
+
+    it('rebuilds a scale that does not match the root and mode', () => {
+      const { composition, violations } = validateComposition(
+        { ...validComposition, scale: ['C4', 'D4', 'F4', 'G4', 'A#4'] },
+        params
+      );
+
+      expect(composition?.scale).toEqual(['C4', 'D4', 'E4', 'G4', 'A4']);
+      expect(violations[0]).toMatchObject({ code: 'SCALE_MISMATCH', path: 'scale', repaired: true });
+    });
+
+    it('snaps out-of-scale pitches to the nearest scale tone', () => {
+      const { composition, violations } = validateComposition(
+        { ...validComposition, motif: { pitches: ['C#4', 'F4', 'B4', 'G#5'], rhythm: [1, 1, 1, 1] } },
+        params
+      );
+
+      // Ties resolve downward (C#->C, F->E, G#->G); B is nearest to C5
+      expect(composition?.motif.pitches).toEqual(['C4', 'E4', 'C5', 'G5']);
+      expect(violations.map((v) => v.path)).toEqual([
+        'motif.pitches[0]', 'motif.pitches[1]', 'motif.pitches[2]', 'motif.pitches[3]',
+      ]);
+      expect(violations.every((v) => v.code === 'OUT_OF_SCALE' && v.repaired)).toBe(true);
+    });
+
+    it('pads a short rhythm with its last value', () => {
+      const { composition, violations } = validateComposition(
+        { ...validComposition, motif: { pitches: ['C4', 'D4', 'E4', 'G4'], rhythm: [1, 2] } },
+        params
+      );
+
+      expect(composition?.motif.rhythm).toEqual([1, 2, 2, 2]);
+      expect(violations).toEqual([expect.objectContaining({ code: 'LENGTH_MISMATCH', repaired: true })]);
+    });
+
+    it('truncates a long rhythm', () => {
+      const { composition } = validateComposition(
+        { ...validComposition, motif: { pitches: ['C4', 'D4'], rhythm: [1, 2, 3] } },
+        params
+      );
+
+      expect(composition?.motif.rhythm).toEqual([1, 2]);
+    });
+
+    it('replaces invalid rhythm values and fills a missing rhythm', () => {
+      const invalid = validateComposition(
+        { ...validComposition, motif: { pitches: ['C4', 'D4'], rhythm: [0, 'long'] } },
+        params
+      );
+      expect(invalid.composition?.motif.rhythm).toEqual([1, 1]);
+      expect(invalid.violations.map((v) => v.code)).toEqual(['INVALID_RHYTHM', 'INVALID_RHYTHM']);
+
+      const missing = validateComposition(
+        { ...validComposition, motif: { pitches: ['C4', 'D4'] } },
+        params
+      );
+      expect(missing.composition?.motif.rhythm).toEqual([1, 1]);
+    });
+
+    it('cannot repair a missing motif', () => {
+      const { composition, violations } = validateComposition(
+        { ...validComposition, motif: undefined },
+        params
+      );
+
+      expect(composition).toBeNull();
+      expect(violations).toContainEqual(
+        expect.objectContaining({ code: 'INVALID_TYPE', path: 'motif.pitches', repaired: false })
+      );
+    });
+
+    it('cannot repair unparseable pitches', () => {
+      const { composition, violations } = validateComposition(
+        { ...validComposition, motif: { pitches: ['C4', 'sol'], rhythm: [1, 1] } },
+        params
+      );
+
+      expect(composition).toBeNull();
+      expect(violations).toEqual([
+        expect.objectContaining({ code: 'INVALID_PITCH', path: 'motif.pitches[1]', repaired: false }),
+      ]);
+    });
+
+    it('coerces patterns to 0/1 and drops non-array patterns', () => {
+      const { composition, violations } = validateComposition(
+        {
+          ...validComposition,
+          euclideanPatterns: { melody: [1, 0, 2, true, false], accompaniment: 'x0x0' },
+        },
+        params
+      );
+
+      expect(composition?.euclideanPatterns).toEqual({ melody: [1, 0, 1, 1, 0] });
+      expect(violations.map((v) => v.path)).toEqual([
+        'euclideanPatterns.melody',
+        'euclideanPatterns.accompaniment',
+      ]);
+    });
+
+    it('fills missing roles and removes roles for unrequested instruments', () => {
+      const { composition, violations } = validateComposition(
+        { ...validComposition, instrumentRoles: { guzheng: 'accompaniment', pipa: 'melody' } },
+        params
+      );
+
+      expect(composition?.instrumentRoles).toEqual({ guzheng: 'accompaniment', erhu: 'melody' });
+      expect(violations.map((v) => v.code)).toEqual(['UNEXPECTED_ROLE', 'MISSING_ROLE']);
+    });
+
+    it('defaults a missing form', () => {
+      const { composition } = validateComposition({ ...validComposition, form: [] }, params);
+
+      expect(composition?.form).toEqual(['A', "A'", 'B', "A''"]);
+    });
+  });
+
+  describe('sections', () => {
+    it('keeps valid section plans', () => {
+      const sections = [
+        { dynamics: 'p' },
+        { motif: { transpose: 2 }, dynamics: 'mp' },
+        { motif: { invert: true, augment: 2 }, dynamics: 'f', instrumentRoles: { guzheng: 'melody', erhu: 'rest' } },
+        { motif: { retrograde: true } },
+      ];
+      const { composition, violations } = validateComposition({ ...validComposition, sections }, params);
+
+      expect(violations).toEqual([]);
+      expect(composition?.sections).toEqual(sections);
+    });
+
+    it('drops invalid section fields', () => {
+      const { composition, violations } = validateComposition(
+        {
+          ...validComposition,
+          sections: [
+            { dynamics: 'loud' },
+            { motif: { transpose: 1.5, invert: 'yes', augment: 10 } },
+            'B',
+            { instrumentRoles: { erhu: 'melody', pipa: 'bass', guzheng: 3 } },
+          ],
+        },
+        params
+      );
+
+      expect(composition?.sections).toEqual([{}, {}, {}, { instrumentRoles: { erhu: 'melody' } }]);
+      expect(violations.map((v) => v.path)).toEqual([
+        'sections[0].dynamics',
+        'sections[1].motif.transpose',
+        'sections[1].motif.invert',
+        'sections[1].motif.augment',
+        'sections[2]',
+        'sections[3].instrumentRoles.pipa',
+        'sections[3].instrumentRoles.guzheng',
+      ]);
+      expect(violations.every((v) => v.repaired)).toBe(true);
+    });
+
+    it('aligns sections with the form', () => {
+      const short = validateComposition({ ...validComposition, sections: [{ dynamics: 'f' }] }, params);
+      expect(short.composition?.sections).toEqual([{ dynamics: 'f' }, {}, {}, {}]);
+      expect(short.violations).toEqual([expect.objectContaining({ code: 'LENGTH_MISMATCH', path: 'sections' })]);
+
+      const long = validateComposition(
+        { ...validComposition, form: ['A', 'B'], sections: [{}, {}, { dynamics: 'f' }] },
+        params
+      );
+      expect(long.composition?.sections).toEqual([{}, {}]);
+    });
+
+    it('drops sections that are not an array', () => {
+      const { composition, violations } = validateComposition({ ...validComposition, sections: {} }, params);
+
+      expect(composition).not.toHaveProperty('sections');
+      expect(violations).toEqual([expect.objectContaining({ code: 'INVALID_TYPE', path: 'sections', repaired: true })]);
+    });
+  });
+
+  describe('parseComposition', () => {
+    it('validates parsed JSON', () => {
+      expect(parseComposition(JSON.stringify(validComposition), params))
+        .toEqual(validateComposition(validComposition, params));
+    });
+
+    it('reports text that is not JSON as unrepairable', () => {
+      const { composition, violations } = parseComposition('{"scale": ["C4",', params);
+
+      expect(composition).toBeNull();
+      expect(violations).toEqual([
+        expect.objectContaining({ code: 'INVALID_JSON', path: '', repaired: false }),
+      ]);
+      expect(violations[0].message).toMatch(/^Response is not valid JSON/);
+    });
+  });
+
+  describe('formatViolations', () => {
+    it('lists each violation with its path', () => {
+      const text = formatViolations([
+        { code: 'INVALID_PITCH', path: 'motif.pitches[1]', message: '"sol" is not a note name like "C4"', repaired: false },
+        { code: 'INVALID_TYPE', path: '', message: 'Composition must be a JSON object', repaired: false },
+      ]);
+
+      expect(text).toBe(
+        '- motif.pitches[1]: "sol" is not a note name like "C4"\n' +
+        '- composition: Composition must be a JSON object'
+      );
+    });
+  });
+});
@@ -0,0 +1,440 @@
+/**
+ * Composition schema validation and repair.
+ *
+ * Checks a composition (e.g. parsed Gemini output) against the params it was
+ * requested with, repairs what can be fixed deterministically and reports the
+ * rest. Dependency-free so the frontend can import it as well.
+ */
+
+export type PentatonicMode = 'gong' | 'shang' | 'jue' | 'zhi' | 'yu';
+
+/** The subset of composition params the schema depends on */
+export interface CompositionSchemaParams {
+    mode: PentatonicMode;
+    root: string;
+    instruments: string[];
+}
+
+export type Dynamic = 'pp' | 'p' | 'mp' | 'mf' | 'f' | 'ff';
+
+/** How a section restates the motif */
+export interface MotifVariant {
+    transpose?: number;
+    invert?: boolean;
+    retrograde?: boolean;
+    augment?: number;
+}
+
+/** Explicit content for one section of the form */
+export interface SectionPlan {
+    motif?: MotifVariant;
+    dynamics?: Dynamic;
+    instrumentRoles?: Record<string, string>;
+}
+
+export interface Composition {
+    scale: string[];
+    motif: {
+        pitches: string[];
+        rhythm: number[];
+    };
+    form: string[];
+    instrumentRoles: Record<string, string>;
+    euclideanPatterns: Record<string, number[]>;
+    sections?: SectionPlan[];
+}
+
+export type ViolationCode =
+    | 'INVALID_JSON'        // Response isn't parseable JSON
+    | 'INVALID_TYPE'        // Field has the wrong type or is missing
+    | 'SCALE_MISMATCH'      // Scale doesn't match the requested root/mode
+    | 'INVALID_PITCH'       // Pitch isn't a parseable note name
+    | 'OUT_OF_SCALE'        // Pitch is not a scale tone
+    | 'LENGTH_MISMATCH'     // motif.pitches and motif.rhythm differ in length
+    | 'INVALID_RHYTHM'      // Rhythm value isn't a positive number
+    | 'INVALID_PATTERN'     // Euclidean pattern isn't a 0/1 array
+    | 'MISSING_ROLE'        // Requested instrument has no role
+    | 'UNEXPECTED_ROLE'     // Role given for an instrument that wasn't requested
+    | 'INVALID_SECTION';    // Section plan field has the wrong type or value
+
+/** A single schema violation, with where it occurred and whether it was fixed */
+export interface SchemaViolation {
+    code: ViolationCode;
+    /** Dotted path to the offending field, e.g. "motif.pitches[2]" */
+    path: string;
+    message: string;
+    repaired: boolean;
+}
+
+type ReportViolation = (code: ViolationCode, path: string, message: string, repaired: boolean) => void;
+
+export interface ValidationResult {
+    /** The repaired composition, or null if some violations could not be repaired */
+    composition: Composition | null;
+    violations: SchemaViolation[];
+}
+
+/** Intervals from root in semitones for each mode */
+export const PENTATONIC_INTERVALS: Record<PentatonicMode, number[]> = {
+    gong: [0, 2, 4, 7, 9],
+    shang: [0, 2, 5, 7, 10],
+    jue: [0, 3, 5, 8, 10],
+    zhi: [0, 2, 5, 7, 9],
+    yu: [0, 3, 5, 7, 10],
+};
+
+const DEFAULT_FORM = ['A', "A'", 'B', "A''"];
+
+export const DYNAMICS: Dynamic[] = ['pp', 'p', 'mp', 'mf', 'f', 'ff'];
+
+/** Allowed range for motif augmentation (rhythm multiplier) */
+const MIN_AUGMENT = 0.25;
+const MAX_AUGMENT = 4;
+
+const NOTE_NAMES = ['C', 'C#', 'D', 'D#', 'E', 'F', 'F#', 'G', 'G#', 'A', 'A#', 'B'];
+
+const NOTE_OFFSETS: Record<string, number> = {
+    'C': 0, 'C#': 1, 'Db': 1, 'D': 2, 'D#': 3, 'Eb': 3, 'E': 4, 'F': 5,
+    'F#': 6, 'Gb': 6, 'G': 7, 'G#': 8, 'Ab': 8, 'A': 9, 'A#': 10, 'Bb': 10, 'B': 11,
+};
+
+/**
+ * Convert a note string ("C4", "F#3", "Bb5") to a MIDI number, or null if invalid.
+ */
+function noteToMidi(note: unknown): number | null {
+    if (typeof note !== 'string') return null;
+    const match = note.match(/^([A-Ga-g][#b]?)(-?\d+)$/);
+    if (!match) return null;
+
+    const name = match[1].charAt(0).toUpperCase() + match[1].slice(1);
+    const offset = NOTE_OFFSETS[name];
+    if (offset === undefined) return null;
+
+    return (parseInt(match[2], 10) + 1) * 12 + offset;
+}
+
+function midiToNote(midi: number): string {
+    return `${NOTE_NAMES[midi % 12]}${Math.floor(midi / 12) - 1}`;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Build the expected scale for a root and mode (root in octave 4).
+ */
+export function expectedScale(root: string, mode: PentatonicMode): string[] {
+    const rootMidi = noteToMidi(`${root}4`) ?? 60;
+    return PENTATONIC_INTERVALS[mode].map((interval) => midiToNote(rootMidi + interval));
+}
+
+/**
+ * Snap a MIDI note to the nearest tone whose pitch class is in the scale.
+ * Ties resolve downward.
+ */
+function snapToScale(midi: number, pitchClasses: number[]): number {
+    for (let distance = 0; distance < 12; distance++) {
+        if (pitchClasses.includes((((midi - distance) % 12) + 12) % 12)) return midi - distance;
+        if (pitchClasses.includes((midi + distance) % 12)) return midi + distance;
+    }
+    return midi;
+}
+
+/**
+ * Validate a composition against the requested params, repairing what can be
+ * fixed without guessing at musical intent.
+ *
+ * Repairs: rebuilds a wrong scale, snaps out-of-scale pitches to the nearest
+ * scale tone, truncates or pads rhythm to the motif length, replaces invalid
+ * rhythm values, coerces patterns to 0/1, fills in missing roles and drops
+ * invalid section plan fields.
+ * Not repairable: a missing or empty motif, or unparseable pitches.
+ */
+export function validateComposition(
+    raw: unknown,
+    params: CompositionSchemaParams
+): ValidationResult {
+    const violations: SchemaViolation[] = [];
+    const report: ReportViolation = (code, path, message, repaired) => {
+        violations.push({ code, path, message, repaired });
+    };
+
+    if (!isRecord(raw)) {
+        report('INVALID_TYPE', '', 'Composition must be a JSON object', false);
+        return { composition: null, violations };
+    }
+
+    // Scale
+    const scale = expectedScale(params.root, params.mode);
+    if (!Array.isArray(raw.scale) || raw.scale.join(',') !== scale.join(',')) {
+        report(
+            'SCALE_MISMATCH',
+            'scale',
+            `Scale must be ${scale.join(', ')} for ${params.root} ${params.mode}`,
+            true
+        );
+    }
+    const pitchClasses = scale.map((note) => (noteToMidi(note) as number) % 12);
+
+    // Motif pitches
+    const motif = isRecord(raw.motif) ? raw.motif : null;
+    const rawPitches = motif && Array.isArray(motif.pitches) ? motif.pitches : null;
+    let pitches: string[] = [];
+
+    if (!rawPitches || rawPitches.length === 0) {
+        report('INVALID_TYPE', 'motif.pitches', 'Motif must have a non-empty array of pitches', false);
+    } else {
+        pitches = rawPitches.map((pitch, i) => {
+            const midi = noteToMidi(pitch);
+            if (midi === null) {
+                report('INVALID_PITCH', `motif.pitches[${i}]`, `"${String(pitch)}" is not a note name like "C4"`, false);
+                return String(pitch);
+            }
+            if (!pitchClasses.includes(midi % 12)) {
+                const snapped = midiToNote(snapToScale(midi, pitchClasses));
+                report('OUT_OF_SCALE', `motif.pitches[${i}]`, `${pitch} is not in the scale, snapped to ${snapped}`, true);
+                return snapped;
+            }
+            return pitch as string;
+        });
+    }
+
+    // Motif rhythm
+    const rawRhythm = motif && Array.isArray(motif.rhythm) ? motif.rhythm : [];
+    if (!motif || !Array.isArray(motif.rhythm)) {
+        report('INVALID_TYPE', 'motif.rhythm', 'Motif must have an array of rhythm values', true);
+    }
+    let rhythm = rawRhythm.map((value, i) => {
+        if (typeof value === 'number' && Number.isFinite(value) && value > 0) return value;
+        report('INVALID_RHYTHM', `motif.rhythm[${i}]`, `Rhythm value ${JSON.stringify(value)} must be a positive number of beats`, true);
+        return 1;
+    });
+    if (pitches.length > 0 && rhythm.length !== pitches.length) {
+        report(
+            'LENGTH_MISMATCH',
+            'motif.rhythm',
+            `motif.rhythm has ${rhythm.length} values but motif.pitches has ${pitches.length}`,
+            true
+        );
+        const fill = rhythm.length > 0 ? rhythm[rhythm.length - 1] : 1;
+        rhythm = pitches.map((_, i) => (i < rhythm.length ? rhythm[i] : fill));
+    }
+
+    // Form
+    let form = DEFAULT_FORM;
+    if (Array.isArray(raw.form) && raw.form.length > 0 && raw.form.every((s) => typeof s === 'string' && s !== '')) {
+        form = raw.form as string[];
+    } else {
+        report('INVALID_TYPE', 'form', 'Form must be a non-empty array of section labels', true);
+    }
+
+    // Instrument roles
+    const rawRoles = isRecord(raw.instrumentRoles) ? raw.instrumentRoles : {};
+    if (!isRecord(raw.instrumentRoles)) {
+        report('INVALID_TYPE', 'instrumentRoles', 'instrumentRoles must be an object', true);
+    }
+    const instrumentRoles: Record<string, string> = {};
+    for (const [instrument, role] of Object.entries(rawRoles)) {
+        if (!params.instruments.includes(instrument)) {
+            report('UNEXPECTED_ROLE', `instrumentRoles.${instrument}`, `${instrument} was not requested`, true);
+        } else if (typeof role === 'string' && role !== '') {
+            instrumentRoles[instrument] = role;
+        }
+    }
+    for (const instrument of params.instruments) {
+        if (instrumentRoles[instrument]) continue;
+        const role = Object.values(instrumentRoles).includes('melody') ? 'accompaniment' : 'melody';
+        report('MISSING_ROLE', `instrumentRoles.${instrument}`, `${instrument} has no role, assigned ${role}`, true);
+        instrumentRoles[instrument] = role;
+    }
+
+    // Euclidean patterns
+    const rawPatterns = isRecord(raw.euclideanPatterns) ? raw.euclideanPatterns : {};
+    if (!isRecord(raw.euclideanPatterns)) {
+        report('INVALID_TYPE', 'euclideanPatterns', 'euclideanPatterns must be an object', true);
+    }
+    const euclideanPatterns: Record<string, number[]> = {};
+    for (const [name, pattern] of Object.entries(rawPatterns)) {
+        if (!Array.isArray(pattern) || pattern.length === 0) {
+            report('INVALID_PATTERN', `euclideanPatterns.${name}`, 'Pattern must be a non-empty array of 0s and 1s, dropped', true);
+            continue;
+        }
+        if (pattern.some((step) => step !== 0 && step !== 1)) {
+            report('INVALID_PATTERN', `euclideanPatterns.${name}`, 'Pattern must contain only 0s and 1s', true);
+        }
+        euclideanPatterns[name] = pattern.map((step) => (step && step !== '0' ? 1 : 0));
+    }
+
+    // Section plans (optional)
+    const sections = raw.sections === undefined
+        ? undefined
+        : validateSections(raw.sections, form.length, params.instruments, report);
+
+    if (violations.some((v) => !v.repaired)) {
+        return { composition: null, violations };
+    }
+
+    return {
+        composition: {
+            scale,
+            motif: { pitches, rhythm },
+            form,
+            instrumentRoles,
+            euclideanPatterns,
+            ...(sections && { sections }),
+        },
+        violations,
+    };
+}
+
+/**
+ * Validate section plans, dropping invalid fields and aligning them with the form.
+ */
+function validateSections(
+    raw: unknown,
+    sectionCount: number,
+    instruments: string[],
+    report: ReportViolation
+): SectionPlan[] | undefined {
+    if (!Array.isArray(raw)) {
+        report('INVALID_TYPE', 'sections', 'sections must be an array with one entry per form section, dropped', true);
+        return undefined;
+    }
+    if (raw.length !== sectionCount) {
+        report('LENGTH_MISMATCH', 'sections', `sections has ${raw.length} entries but form has ${sectionCount}`, true);
+    }
+
+    const sections: SectionPlan[] = [];
+    for (let i = 0; i < sectionCount; i++) {
+        const path = `sections[${i}]`;
+        const entry = raw[i];
+        const section: SectionPlan = {};
+        sections.push(section);
+
+        if (entry === undefined) continue;
+        if (!isRecord(entry)) {
+            report('INVALID_SECTION', path, 'Section must be an object', true);
+            continue;
+        }
+
+        if (entry.motif !== undefined) {
+            const motif = validateMotifVariant(entry.motif, `${path}.motif`, report);
+            if (motif) section.motif = motif;
+        }
+
+        if (entry.dynamics !== undefined) {
+            if (DYNAMICS.includes(entry.dynamics as Dynamic)) {
+                section.dynamics = entry.dynamics as Dynamic;
+            } else {
+                report('INVALID_SECTION', `${path}.dynamics`, `Dynamics must be one of ${DYNAMICS.join(', ')}, dropped`, true);
+            }
+        }
+
+        if (entry.instrumentRoles !== undefined) {
+            const roles = validateSectionRoles(entry.instrumentRoles, `${path}.instrumentRoles`, instruments, report);
+            if (roles) section.instrumentRoles = roles;
+        }
+    }
+
+    return sections;
+}
+
+/**
+ * Validate a section's role overrides, keeping roles for requested instruments only.
+ */
+function validateSectionRoles(
+    raw: unknown,
+    path: string,
+    instruments: string[],
+    report: ReportViolation
+): Record<string, string> | undefined {
+    if (!isRecord(raw)) {
+        report('INVALID_SECTION', path, 'instrumentRoles must be an object, dropped', true);
+        return undefined;
+    }
+
+    const roles: Record<string, string> = {};
+    for (const [instrument, role] of Object.entries(raw)) {
+        if (!instruments.includes(instrument)) {
+            report('UNEXPECTED_ROLE', `${path}.${instrument}`, `${instrument} was not requested`, true);
+        } else if (typeof role === 'string' && role !== '') {
+            roles[instrument] = role;
+        } else {
+            report('INVALID_SECTION', `${path}.${instrument}`, 'Role must be a non-empty string, dropped', true);
+        }
+    }
+
+    return Object.keys(roles).length > 0 ? roles : undefined;
+}
+
+/**
+ * Validate a section's motif variant, keeping only well-formed transformations.
+ */
+function validateMotifVariant(
+    raw: unknown,
+    path: string,
+    report: ReportViolation
+): MotifVariant | undefined {
+    if (!isRecord(raw)) {
+        report('INVALID_SECTION', path, 'Motif variant must be an object, dropped', true);
+        return undefined;
+    }
+
+    const variant: MotifVariant = {};
+    if (raw.transpose !== undefined) {
+        if (typeof raw.transpose === 'number' && Number.isInteger(raw.transpose)) {
+            variant.transpose = raw.transpose;
+        } else {
+            report('INVALID_SECTION', `${path}.transpose`, 'transpose must be a whole number of scale degrees, dropped', true);
+        }
+    }
+    for (const flag of ['invert', 'retrograde'] as const) {
+        if (raw[flag] === undefined) continue;
+        if (typeof raw[flag] === 'boolean') {
+            variant[flag] = raw[flag] as boolean;
+        } else {
+            report('INVALID_SECTION', `${path}.${flag}`, `${flag} must be true or false, dropped`, true);
+        }
+    }
+    if (raw.augment !== undefined) {
+        if (typeof raw.augment === 'number' && raw.augment >= MIN_AUGMENT && raw.augment <= MAX_AUGMENT) {
+            variant.augment = raw.augment;
+        } else {
+            report('INVALID_SECTION', `${path}.augment`, `augment must be a number from ${MIN_AUGMENT} to ${MAX_AUGMENT}, dropped`, true);
+        }
+    }
+
+    return Object.keys(variant).length > 0 ? variant : undefined;
+}
+
+/**
+ * Parse a JSON response and validate it as a composition. Text that isn't
+ * JSON is reported as a violation that can't be repaired.
+ */
+export function parseComposition(
+    json: string,
+    params: CompositionSchemaParams
+): ValidationResult {
+    let raw: unknown;
+    try {
+        raw = JSON.parse(json);
+    } catch (error) {
+        const reason = error instanceof Error ? error.message : String(error);
+        return {
+            composition: null,
+            violations: [{ code: 'INVALID_JSON', path: '', message: `Response is not valid JSON (${reason})`, repaired: false }],
+        };
+    }
+
+    return validateComposition(raw, params);
+}
+
+/**
+ * Describe violations as a bulleted list, e.g. for re-prompting the model.
+ */
+export function formatViolations(violations: SchemaViolation[]): string {
+    return violations
+        .map((v) => `- ${v.path || 'composition'}: ${v.message}`)
+        .join('\n');
+}